@@ -0,0 +1,288 @@
+#!/usr/bin/env node
+/**
+ * ADB Wi-Fi bridge
+ *
+ * Browsers cannot open raw TCP sockets, so ADB over Wi-Fi needs a tiny local
+ * relay. This script accepts WebSocket connections from the web app and pipes
+ * them to a TCP endpoint:
+ *
+ *   ws://127.0.0.1:15037/?host=192.168.1.20&port=5555   -> device adbd (`adb tcpip 5555`)
+ *   ws://127.0.0.1:15037/?host=127.0.0.1&port=5037      -> local adb server (pairing / TLS)
+ *
+ * Android 11+ wireless debugging uses TLS with keys created during pairing,
+ * so those devices are paired and connected through the local `adb` server
+ * (platform-tools must be installed and `adb start-server` running).
+ *
+ * Usage:
+ *   node scripts/adb-wifi-bridge.mjs [--port 15037] [--allow-origin https://example.com]
+ *
+ * No dependencies: WebSocket framing (RFC 6455) is implemented inline.
+ */
+
+import http from 'node:http'
+import net from 'node:net'
+import crypto from 'node:crypto'
+
+const VERSION = 1
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC11B65'
+const ADB_SERVER_PORT = 5037
+
+const OPCODE_CONTINUATION = 0x0
+const OPCODE_TEXT = 0x1
+const OPCODE_BINARY = 0x2
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+// Guard against a misbehaving client exhausting memory
+const MAX_FRAME_SIZE = 16 * 1024 * 1024
+
+function parseArgs(argv) {
+  const options = { port: 15037, host: '127.0.0.1', allowOrigins: [] }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--port') options.port = Number(argv[++i])
+    else if (arg === '--host') options.host = argv[++i]
+    else if (arg === '--allow-origin') options.allowOrigins.push(argv[++i])
+    else if (arg === '--help' || arg === '-h') {
+      console.log('Usage: node scripts/adb-wifi-bridge.mjs [--port 15037] [--host 127.0.0.1] [--allow-origin <origin>]')
+      process.exit(0)
+    }
+  }
+
+  if (!Number.isInteger(options.port) || options.port <= 0 || options.port > 65535) {
+    throw new Error(`Invalid port: ${options.port}`)
+  }
+
+  return options
+}
+
+const options = parseArgs(process.argv.slice(2))
+
+/**
+ * Only the app itself (or localhost dev servers) may use the bridge,
+ * otherwise any website could reach devices on the LAN through it.
+ */
+function isOriginAllowed(origin) {
+  if (!origin) return false
+  if (options.allowOrigins.includes(origin)) return true
+
+  try {
+    const { hostname } = new URL(origin)
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]'
+  } catch {
+    return false
+  }
+}
+
+function isPrivateIpv4(host) {
+  const parts = host.split('.').map(Number)
+  if (parts.length !== 4 || parts.some(p => !Number.isInteger(p) || p < 0 || p > 255)) return false
+
+  const [a, b] = parts
+  return a === 10 ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 169 && b === 254)
+}
+
+function isLoopback(host) {
+  return host === '127.0.0.1' || host === 'localhost' || host === '::1'
+}
+
+/**
+ * Targets are limited to devices on the local network and the local adb server.
+ */
+function validateTarget(host, port) {
+  if (!host || !Number.isInteger(port) || port <= 0 || port > 65535) {
+    return 'Invalid target'
+  }
+  if (isLoopback(host)) {
+    return port === ADB_SERVER_PORT ? null : 'Only the adb server port is allowed on localhost'
+  }
+  if (isPrivateIpv4(host) || net.isIPv6(host) && /^(fe80|fd|fc)/i.test(host)) {
+    return null
+  }
+  return 'Target must be a private network address'
+}
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length
+  let header
+
+  if (length < 126) {
+    header = Buffer.alloc(2)
+    header[1] = length
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4)
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+
+  header[0] = 0x80 | opcode
+  return Buffer.concat([header, payload])
+}
+
+/**
+ * Incremental RFC 6455 frame parser for client (masked) frames.
+ */
+function createFrameParser(onMessage, onControl, onError) {
+  let buffer = Buffer.alloc(0)
+  let fragments = []
+
+  return (chunk) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk
+
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0
+      const opcode = buffer[0] & 0x0f
+      const masked = (buffer[1] & 0x80) !== 0
+      let length = buffer[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (buffer.length < 4) return
+        length = buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (buffer.length < 10) return
+        const big = buffer.readBigUInt64BE(2)
+        if (big > BigInt(MAX_FRAME_SIZE)) return onError(new Error('Frame too large'))
+        length = Number(big)
+        offset = 10
+      }
+
+      if (!masked) return onError(new Error('Client frames must be masked'))
+      if (length > MAX_FRAME_SIZE) return onError(new Error('Frame too large'))
+      if (buffer.length < offset + 4 + length) return
+
+      const mask = buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3]
+      buffer = buffer.subarray(offset + 4 + length)
+
+      if (opcode >= OPCODE_CLOSE) {
+        onControl(opcode, payload)
+        continue
+      }
+
+      fragments.push(payload)
+      if (fin) {
+        const message = fragments.length === 1 ? fragments[0] : Buffer.concat(fragments)
+        fragments = []
+        onMessage(opcode === OPCODE_CONTINUATION ? OPCODE_BINARY : opcode, message)
+      }
+    }
+  }
+}
+
+function rejectUpgrade(socket, status, message) {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+}
+
+const server = http.createServer((req, res) => {
+  const origin = req.headers.origin
+
+  // Health check used by the app to detect a running bridge
+  if (req.url === '/health') {
+    const headers = { 'Content-Type': 'application/json' }
+    if (isOriginAllowed(origin)) headers['Access-Control-Allow-Origin'] = origin
+    res.writeHead(200, headers)
+    res.end(JSON.stringify({ ok: true, version: VERSION }))
+    return
+  }
+
+  res.writeHead(404)
+  res.end()
+})
+
+server.on('upgrade', (req, socket) => {
+  if (!isOriginAllowed(req.headers.origin)) {
+    rejectUpgrade(socket, 403, 'Forbidden')
+    return
+  }
+
+  const key = req.headers['sec-websocket-key']
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    rejectUpgrade(socket, 400, 'Bad Request')
+    return
+  }
+
+  const url = new URL(req.url ?? '/', 'http://bridge')
+  const host = url.searchParams.get('host') ?? ''
+  const port = Number(url.searchParams.get('port'))
+  const targetError = validateTarget(host, port)
+  if (targetError) {
+    rejectUpgrade(socket, 400, targetError)
+    return
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64')
+  const tcp = net.connect({ host, port })
+  let upgraded = false
+  let closed = false
+
+  const close = (reason) => {
+    if (closed) return
+    closed = true
+    if (reason) console.log(`[bridge] ${host}:${port} closed: ${reason}`)
+    if (!socket.destroyed) socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)))
+    tcp.destroy()
+  }
+
+  tcp.once('connect', () => {
+    upgraded = true
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    )
+    console.log(`[bridge] ${req.headers.origin} -> ${host}:${port}`)
+  })
+
+  tcp.once('error', (error) => {
+    if (!upgraded) {
+      // Handshake not sent yet: report the failure as an HTTP error
+      closed = true
+      console.log(`[bridge] ${host}:${port} unreachable: ${error.message}`)
+      rejectUpgrade(socket, 502, 'Bad Gateway')
+      return
+    }
+    close(error.message)
+  })
+
+  // TCP -> WebSocket, with backpressure
+  tcp.on('data', (chunk) => {
+    if (!socket.write(encodeFrame(OPCODE_BINARY, chunk))) tcp.pause()
+  })
+  socket.on('drain', () => tcp.resume())
+  tcp.on('close', () => close())
+
+  // WebSocket -> TCP
+  const parse = createFrameParser(
+    (opcode, message) => {
+      if (opcode === OPCODE_TEXT) return
+      if (!tcp.write(message)) socket.pause()
+    },
+    (opcode, payload) => {
+      if (opcode === OPCODE_PING) socket.write(encodeFrame(OPCODE_PONG, payload))
+      else if (opcode === OPCODE_CLOSE) close()
+    },
+    (error) => close(error.message)
+  )
+  tcp.on('drain', () => socket.resume())
+  socket.on('data', parse)
+  socket.on('close', () => close())
+  socket.on('error', (error) => close(error.message))
+})
+
+server.listen(options.port, options.host, () => {
+  console.log(`ADB Wi-Fi bridge v${VERSION} listening on ws://${options.host}:${options.port}`)
+  console.log('Allowed origins: localhost' + (options.allowOrigins.length ? `, ${options.allowOrigins.join(', ')}` : ''))
+})
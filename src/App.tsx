@@ -31,6 +31,9 @@ const AdminAnalyticsPage = lazy(() => import('@/pages/AdminAnalyticsPage').then(
 const ApkInstallerPage = lazy(() => import('@/pages/ApkInstallerPage').then(m => ({ default: m.ApkInstallerPage })))
 const CommunityListsPage = lazy(() => import('@/pages/CommunityListsPage').then(m => ({ default: m.CommunityListsPage })))
 const AppClonerPage = lazy(() => import('@/pages/AppClonerPage').then(m => ({ default: m.AppClonerPage })))
+const LogcatPage = lazy(() => import('@/pages/LogcatPage').then(m => ({ default: m.LogcatPage })))
+const FileManagerPage = lazy(() => import('@/pages/FileManagerPage').then(m => ({ default: m.FileManagerPage })))
+const PermissionsPage = lazy(() => import('@/pages/PermissionsPage').then(m => ({ default: m.PermissionsPage })))
 
 function PageLoader() {
   return (
@@ -105,6 +108,12 @@ function App() {
         return <CommunityListsPage key="debloat-lists" />
       case 'app-cloner':
         return <AppClonerPage key="app-cloner" />
+      case 'logcat':
+        return <LogcatPage key="logcat" />
+      case 'file-manager':
+        return <FileManagerPage key="file-manager" />
+      case 'permissions':
+        return <PermissionsPage key="permissions" />
       default:
         return <ConnectPage key="connect" />
     }
@@ -0,0 +1,457 @@
+/**
+ * Batch Operation Modal
+ * Anteprima (dry-run), esecuzione, report e annullamento di un batch di pacchetti.
+ * Usato da Debloater, liste community, de-Google e audit mobile.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { AlertTriangle, ArrowRight, CheckCircle2, Download, Loader2, RotateCcw, XCircle } from 'lucide-react'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Button } from '@/components/ui/Button'
+import { useTranslation } from '@/stores/i18nStore'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useAuthStore } from '@/stores/authStore'
+import { logUserAction } from '@/services/supabase'
+import {
+  batchItemKey,
+  buildUndoPlan,
+  canUndoBatch,
+  downloadBatchReport,
+  executeBatchPlan,
+  formatBatchReport,
+  planPackageBatch,
+  type BatchComponentRule,
+  type BatchItemResult,
+  type BatchItemStatus,
+  type BatchOperation,
+  type BatchPlan,
+  type BatchPlanItem,
+  type BatchReport,
+} from '@/services/batch-operations'
+
+export interface BatchRequest {
+  title: string
+  operation: BatchOperation
+  packageNames: string[]
+  /** Single components to switch alongside (or instead of) whole packages */
+  components?: BatchComponentRule[]
+}
+
+export interface BatchOutcome {
+  report: BatchReport
+  undoReport?: BatchReport
+}
+
+interface BatchOperationModalProps {
+  request: BatchRequest | null
+  /** Receives the executed batch (null when closed before executing) */
+  onClose: (outcome: BatchOutcome | null) => void
+}
+
+type Stage = 'planning' | 'preview' | 'running' | 'report'
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  success: 'text-emerald-600 dark:text-emerald-400',
+  failed: 'text-red-600 dark:text-red-400',
+  skipped: 'text-surface-400',
+  cancelled: 'text-amber-600 dark:text-amber-400',
+}
+
+/**
+ * Demo mode has no device: plan from the store and pretend every command succeeded
+ */
+function planFromStore(request: BatchRequest, deviceModel: string): BatchPlan {
+  const packages = useAdbStore.getState().packages
+  const states = new Map(packages.map(p => [p.packageName, p.isEnabled ? 'enabled' as const : 'disabled' as const]))
+  const target = request.operation === 'enable' ? 'enabled' : request.operation === 'disable' ? 'disabled' : 'uninstalled'
+  const componentTarget = request.operation === 'enable' ? 'enabled' as const : 'disabled' as const
+
+  return {
+    title: request.title,
+    operation: request.operation,
+    deviceModel,
+    items: [
+      ...[...new Set(request.packageNames)].map((packageName): BatchPlanItem => {
+        const before = states.get(packageName) ?? 'absent'
+        const skipReason = before === 'absent'
+          ? 'absent' as const
+          : before === target ? `already-${target}` as const : undefined
+        return { packageName, before, target, skipReason }
+      }),
+      // Components are assumed enabled: the store does not know their state
+      ...(request.components ?? []).map(({ packageName, component }): BatchPlanItem => {
+        const before = states.has(packageName) ? 'enabled' as const : 'absent' as const
+        const skipReason = before === 'absent'
+          ? 'absent' as const
+          : before === componentTarget ? 'already-enabled' as const : undefined
+        return { packageName, component, before, target: componentTarget, skipReason }
+      }),
+    ],
+  }
+}
+
+function simulatePlan(plan: BatchPlan): BatchReport {
+  const now = new Date().toISOString()
+  const items: BatchItemResult[] = plan.items.map(item => item.skipReason
+    ? { ...item, status: 'skipped', after: item.before }
+    : { ...item, status: 'success', after: item.target, output: 'Success (Demo Mode)' })
+
+  return {
+    id: crypto.randomUUID(),
+    title: plan.title,
+    operation: plan.operation,
+    deviceModel: plan.deviceModel,
+    startedAt: now,
+    finishedAt: now,
+    items,
+    summary: {
+      succeeded: items.filter(i => i.status === 'success').length,
+      failed: 0,
+      skipped: items.filter(i => i.status === 'skipped').length,
+      cancelled: 0,
+    },
+    undoOf: plan.undoOf,
+  }
+}
+
+function ItemRow({ item, showStatus, showStage }: {
+  item: BatchItemResult | BatchPlan['items'][number]
+  showStatus: boolean
+  showStage?: boolean
+}) {
+  const { t } = useTranslation()
+  const result = 'status' in item ? item : null
+
+  return (
+    <div className="flex items-start gap-3 px-3 py-2 rounded-lg bg-surface-50 dark:bg-white/5">
+      {showStage && item.stage !== undefined && (
+        <span className="text-[10px] font-semibold text-accent-600 dark:text-accent-400 shrink-0 mt-0.5">
+          {t('batch.stage', { n: item.stage + 1 })}
+        </span>
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-mono text-surface-900 dark:text-white truncate">{item.component ?? item.packageName}</p>
+        {item.component && (
+          <p className="text-[10px] font-mono text-surface-400 truncate">{t('batch.componentOf', { name: item.packageName })}</p>
+        )}
+        <p className="flex items-center gap-1 text-[11px] text-surface-500">
+          {item.skipReason ? t(`batch.skipReasons.${item.skipReason}`) : (
+            <>
+              {t(`batch.states.${item.before}`)}
+              <ArrowRight className="w-3 h-3" strokeWidth={2} />
+              {t(`batch.states.${result ? result.after : item.target}`)}
+            </>
+          )}
+        </p>
+        {result?.status === 'failed' && result.output && (
+          <p className="text-[11px] text-red-500 break-all mt-0.5">{result.output}</p>
+        )}
+      </div>
+      {showStatus && result && (
+        <span className={`text-[11px] font-semibold shrink-0 ${STATUS_STYLES[result.status]}`}>
+          {t(`batch.status.${result.status}`)}
+        </span>
+      )}
+    </div>
+  )
+}
+
+export function BatchOperationModal({ request, onClose }: BatchOperationModalProps) {
+  const { t } = useTranslation()
+  const showToast = useAppStore(state => state.showToast)
+  const isDemoMode = useAdbStore(state => state.isDemoMode)
+  const activeSerial = useAdbStore(state => state.activeSerial)
+  const deviceModel = useAdbStore(state => state.deviceInfo?.model) || activeSerial || 'device'
+
+  const [stage, setStage] = useState<Stage>('planning')
+  const [plan, setPlan] = useState<BatchPlan | null>(null)
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState({ done: 0, total: 0, packageName: '' })
+  const [report, setReport] = useState<BatchReport | null>(null)
+  const [undoReport, setUndoReport] = useState<BatchReport | null>(null)
+  // Related packages the user chose to include in the batch
+  const [included, setIncluded] = useState<string[]>([])
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    setIncluded([])
+  }, [request])
+
+  // Dry run as soon as the modal opens
+  useEffect(() => {
+    if (!request) return
+    let cancelled = false
+    setStage('planning')
+    setPlan(null)
+    setExcluded(new Set())
+    setError(null)
+    setReport(null)
+    setUndoReport(null)
+
+    const packageNames = [...request.packageNames, ...included]
+    // The model only labels the report: read it here so a late deviceInfo doesn't replan
+    const model = useAdbStore.getState().deviceInfo?.model || activeSerial || 'device'
+    const planning = isDemoMode
+      ? Promise.resolve(planFromStore({ ...request, packageNames }, model))
+      : planPackageBatch({ ...request, packageNames, deviceModel: model, serial: activeSerial ?? undefined })
+
+    planning
+      .then(result => {
+        if (cancelled) return
+        setPlan(result)
+        setStage('preview')
+      })
+      .catch(e => {
+        if (cancelled) return
+        setError(t('batch.planFailed', { error: e instanceof Error ? e.message : String(e) }))
+        setStage('preview')
+      })
+
+    return () => { cancelled = true }
+  }, [request, included, isDemoMode, activeSerial, t])
+
+  const actionable = plan?.items
+    .filter(item => !item.skipReason)
+    .sort((a, b) => (a.stage ?? 0) - (b.stage ?? 0)) ?? []
+  const isStaged = actionable.some(item => (item.stage ?? 0) > 0)
+  const related = plan?.related ?? []
+  const selected = actionable.filter(item => !excluded.has(batchItemKey(item)))
+  const skipped = plan?.items.filter(item => item.skipReason) ?? []
+
+  /**
+   * Runs a plan, syncs the package list and attaches the report to the command log
+   */
+  const run = async (target: BatchPlan): Promise<BatchReport> => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setStage('running')
+    setProgress({ done: 0, total: target.items.filter(item => !item.skipReason).length, packageName: '' })
+
+    const result = isDemoMode
+      ? simulatePlan(target)
+      : await executeBatchPlan(target, {
+        signal: controller.signal,
+        onProgress: (done, total, packageName) => setProgress({ done, total, packageName }),
+      })
+    abortRef.current = null
+
+    const { updatePackageStatus, addCommandLog, currentDeviceId } = useAdbStore.getState()
+    const { isAuthenticated, user } = useAuthStore.getState()
+    for (const item of result.items) {
+      if (item.status !== 'success' || item.component) continue
+      updatePackageStatus(item.packageName, item.after === 'enabled')
+      if (!isDemoMode && isAuthenticated && user && currentDeviceId) {
+        logUserAction(user.id, currentDeviceId, item.packageName, item.after === 'enabled' ? 'enable' : 'disable')
+          .catch(e => console.warn('Failed to log action:', e))
+      }
+    }
+
+    addCommandLog({
+      command: `batch ${result.undoOf ? 'undo ' : ''}${result.operation}: ${result.title}`,
+      result: result.summary.failed > 0 ? 'error' : 'success',
+      message: formatBatchReport(result),
+    })
+
+    setStage('report')
+    return result
+  }
+
+  const handleExecute = async () => {
+    if (!plan) return
+    const items = plan.items.filter(item => item.skipReason || !excluded.has(batchItemKey(item)))
+    const result = await run({ ...plan, items })
+    setReport(result)
+    showToast({
+      type: result.summary.failed > 0 ? 'warning' : 'success',
+      title: t('batch.completed'),
+      message: t('batch.summary', { ...result.summary }),
+    })
+  }
+
+  const handleUndo = async () => {
+    if (!report) return
+    const undoPlan = buildUndoPlan(report)
+    if (!window.confirm(t('batch.undoConfirm', { count: undoPlan.items.length }))) return
+
+    const result = await run(undoPlan)
+    setUndoReport(result)
+    showToast({
+      type: result.summary.failed > 0 ? 'warning' : 'success',
+      title: t('batch.undone'),
+      message: t('batch.summary', { ...result.summary }),
+    })
+  }
+
+  const handleClose = () => {
+    if (stage === 'running') {
+      abortRef.current?.abort()
+      return
+    }
+    onClose(report ? { report, undoReport: undoReport ?? undefined } : null)
+  }
+
+  const toggleExcluded = (key: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const shownReport = undoReport ?? report
+  const title = stage === 'report'
+    ? (undoReport ? t('batch.undoReportTitle') : t('batch.reportTitle'))
+    : `${t(`batch.operations.${request?.operation ?? 'disable'}`)} · ${request?.title ?? ''}`
+
+  return (
+    <Modal isOpen={!!request} onClose={handleClose} title={title} size="lg" showCloseButton={stage !== 'running'}>
+      {stage === 'planning' && (
+        <div className="flex items-center justify-center gap-3 py-10 text-sm text-surface-500">
+          <Loader2 className="w-5 h-5 animate-spin text-accent-500" />
+          {t('batch.planning')}
+        </div>
+      )}
+
+      {stage === 'preview' && (
+        <div className="space-y-4">
+          {error ? (
+            <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 flex-shrink-0" strokeWidth={2} />
+              {error}
+            </p>
+          ) : (
+            <>
+              <div>
+                <p className="font-medium text-surface-900 dark:text-white">{t('batch.previewTitle')}</p>
+                <p className="text-sm text-surface-500">{t('batch.previewDescription', { model: deviceModel })}</p>
+              </div>
+              <div className="flex gap-2 text-xs font-medium">
+                <span className="px-2 py-1 rounded-lg bg-accent-500/10 text-accent-600 dark:text-accent-400">
+                  {t('batch.toChange', { count: selected.length })}
+                </span>
+                <span className="px-2 py-1 rounded-lg bg-surface-100 dark:bg-white/5 text-surface-500">
+                  {t('batch.toSkip', { count: skipped.length + actionable.length - selected.length })}
+                </span>
+              </div>
+
+              {related.length > 0 && (
+                <div className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 space-y-2">
+                  <p className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" strokeWidth={2} />
+                    {request?.operation === 'enable'
+                      ? t('batch.missingDependencies', { count: related.length })
+                      : t('batch.affectedDependents', { count: related.length })}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {related.map(name => (
+                      <code key={name} className="text-[11px] px-1.5 py-0.5 rounded bg-white/60 dark:bg-black/20 text-surface-700 dark:text-surface-300">
+                        {name}
+                      </code>
+                    ))}
+                  </div>
+                  <Button variant="secondary" size="sm" onClick={() => setIncluded(prev => [...prev, ...related])}>
+                    {t('batch.includeRelated')}
+                  </Button>
+                </div>
+              )}
+
+              {actionable.length === 0 ? (
+                <p className="text-sm text-surface-500">{t('batch.nothingToDo')}</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto space-y-1.5">
+                  {actionable.map(item => (
+                    <label key={batchItemKey(item)} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!excluded.has(batchItemKey(item))}
+                        onChange={() => toggleExcluded(batchItemKey(item))}
+                        className="rounded border-surface-300 text-accent-500 focus:ring-accent-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <ItemRow item={item} showStatus={false} showStage={isStaged} />
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {skipped.length > 0 && (
+                <div className="max-h-32 overflow-y-auto space-y-1.5 opacity-70">
+                  {skipped.map(item => <ItemRow key={batchItemKey(item)} item={item} showStatus={false} />)}
+                </div>
+              )}
+            </>
+          )}
+
+          <ModalActions>
+            <Button variant="secondary" onClick={handleClose}>{t('common.cancel')}</Button>
+            {!error && (
+              <Button variant="primary" onClick={handleExecute} disabled={selected.length === 0}>
+                {t('batch.execute', { count: selected.length })}
+              </Button>
+            )}
+          </ModalActions>
+        </div>
+      )}
+
+      {stage === 'running' && (
+        <div className="space-y-4 py-4">
+          <p className="text-sm font-medium text-surface-900 dark:text-white">
+            {report ? t('batch.undoing') : t('batch.running')}
+          </p>
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-xs text-surface-500">
+              <span className="truncate font-mono">{progress.packageName}</span>
+              <span>{progress.done}/{progress.total}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-surface-200 dark:bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-accent-500 transition-all"
+                style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button variant="secondary" size="sm" onClick={() => abortRef.current?.abort()}>
+              {t('common.cancel')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {stage === 'report' && shownReport && (
+        <div className="space-y-4">
+          <p className="flex items-center gap-2 text-sm text-surface-700 dark:text-surface-300">
+            {shownReport.summary.failed > 0
+              ? <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" strokeWidth={2} />
+              : <CheckCircle2 className="w-4 h-4 text-emerald-500 flex-shrink-0" strokeWidth={2} />}
+            {t('batch.summary', { ...shownReport.summary })}
+          </p>
+
+          <div className="max-h-72 overflow-y-auto space-y-1.5">
+            {shownReport.items.map(item => <ItemRow key={batchItemKey(item)} item={item} showStatus />)}
+          </div>
+
+          <ModalActions>
+            <Button
+              variant="secondary"
+              icon={<Download className="w-4 h-4" />}
+              onClick={() => downloadBatchReport(shownReport)}
+            >
+              {t('batch.downloadReport')}
+            </Button>
+            {!undoReport && report && canUndoBatch(report) && (
+              <Button variant="danger" icon={<RotateCcw className="w-4 h-4" />} onClick={handleUndo}>
+                {t('batch.undo')}
+              </Button>
+            )}
+            <Button variant="primary" onClick={handleClose}>{t('common.close')}</Button>
+          </ModalActions>
+        </div>
+      )}
+    </Modal>
+  )
+}
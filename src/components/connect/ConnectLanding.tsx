@@ -1,7 +1,10 @@
 import { useEffect, useMemo, useState } from 'react'
 import { motion, AnimatePresence, useAnimationFrame, useMotionValue } from 'framer-motion'
-import { Usb, Shield, ArrowRight, AlertCircle, Globe, PlayCircle } from 'lucide-react'
+import { Usb, Shield, ArrowRight, AlertCircle, Globe, PlayCircle, Wifi } from 'lucide-react'
 import { useAdb } from '@/hooks/useAdb'
+import { useAdbStore } from '@/stores/adbStore'
+import type { ConnectTarget } from '@/services/adb-client'
+import { NetworkConnectPanel } from './NetworkConnectPanel'
 import { useTranslation } from '@/stores/i18nStore'
 import { useIsMobile } from '@/hooks/useMediaQuery'
 import { ThreeDCoverflow } from '@/components/ui/ThreeDCoverflow'
@@ -19,6 +22,10 @@ export function ConnectLanding({ mode, template }: ConnectLandingProps) {
   const [showInstructions, setShowInstructions] = useState(false)
   const [showDisclaimer, setShowDisclaimer] = useState(false)
   const [pendingAction, setPendingAction] = useState<'connect' | 'demo' | null>(null)
+  const [pendingTarget, setPendingTarget] = useState<ConnectTarget>({ transport: 'usb' })
+  const [transport, setTransport] = useState<'usb' | 'network'>(
+    () => useAdbStore.getState().lastConnectTarget.transport === 'usb' ? 'usb' : 'network'
+  )
   const isMobile = useIsMobile()
   const { t, language, setLanguage, supportedLanguages, languageNames, languageFlags } = useTranslation()
 
@@ -64,7 +71,8 @@ export function ConnectLanding({ mode, template }: ConnectLandingProps) {
     marqueeX.set(nextX)
   })
 
-  const handleConnectClick = () => {
+  const handleConnectClick = (target: ConnectTarget = { transport: 'usb' }) => {
+    setPendingTarget(target)
     setPendingAction('connect')
     setShowDisclaimer(true)
   }
@@ -77,7 +85,7 @@ export function ConnectLanding({ mode, template }: ConnectLandingProps) {
   const handleAcceptDisclaimer = () => {
     setShowDisclaimer(false)
     if (pendingAction === 'connect') {
-      void connect()
+      void connect(pendingTarget)
     }
   }
 
@@ -163,83 +171,109 @@ export function ConnectLanding({ mode, template }: ConnectLandingProps) {
           </motion.div>
         ) : null}
 
-        <motion.div
-          initial={{ opacity: 0, scale: 0.9 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ delay: 0.3, duration: 0.5 }}
-        >
-          <motion.button
-            onClick={handleConnectClick}
-            disabled={isConnecting}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className="relative group"
+        {mode === 'app' ? (
+          <div className="flex items-center gap-1 p-1 rounded-xl bg-surface-100/70 dark:bg-surface-800/70 border border-surface-200 dark:border-surface-700 backdrop-blur-md">
+            {([
+              { id: 'usb', icon: Usb, label: t('connect.network.usb') },
+              { id: 'network', icon: Wifi, label: t('connect.network.wifi') }
+            ] as const).map(({ id, icon: Icon, label }) => (
+              <button
+                key={id}
+                onClick={() => setTransport(id)}
+                disabled={isConnecting}
+                className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${transport === id
+                  ? 'bg-white dark:bg-surface-900 text-accent-600 dark:text-accent-400 shadow-sm'
+                  : 'text-surface-500 hover:text-surface-800 dark:hover:text-surface-200'
+                  }`}
+              >
+                <Icon className="w-4 h-4" strokeWidth={1.5} />
+                {label}
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        {mode === 'app' && transport === 'network' ? (
+          <NetworkConnectPanel disabled={isConnecting} onConnect={handleConnectClick} />
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: 0.3, duration: 0.5 }}
           >
-            <div className="absolute -inset-4 bg-accent-500/20 rounded-full blur-2xl group-hover:bg-accent-500/30 transition-all duration-500 opacity-0 group-hover:opacity-100" />
+            <motion.button
+              onClick={() => handleConnectClick()}
+              disabled={isConnecting}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="relative group"
+            >
+              <div className="absolute -inset-4 bg-accent-500/20 rounded-full blur-2xl group-hover:bg-accent-500/30 transition-all duration-500 opacity-0 group-hover:opacity-100" />
 
-            <motion.div
-              animate={!isConnecting ? {
-                scale: [1, 1.2, 1],
-                opacity: [0.5, 0, 0.5]
-              } : {}}
-              transition={{ duration: 2, repeat: Infinity }}
-              className="absolute -inset-2 border-2 border-accent-500/30 rounded-full"
-            />
+              <motion.div
+                animate={!isConnecting ? {
+                  scale: [1, 1.2, 1],
+                  opacity: [0.5, 0, 0.5]
+                } : {}}
+                transition={{ duration: 2, repeat: Infinity }}
+                className="absolute -inset-2 border-2 border-accent-500/30 rounded-full"
+              />
 
-            <motion.div
-              animate={connectionStatus === 'authorizing' ? {
-                backgroundColor: ['#f59e0b', '#d97706', '#f59e0b'],
-                scale: [1, 1.02, 1],
-                boxShadow: ['0 0 0 0 rgba(245, 158, 11, 0)', '0 0 20px 5px rgba(245, 158, 11, 0.5)', '0 0 0 0 rgba(245, 158, 11, 0)']
-              } : {}}
-              transition={{ duration: 1.5, repeat: Infinity }}
-              className={`
-              relative flex items-center gap-4 px-10 py-5 rounded-full
-              ${connectionStatus === 'authorizing'
-                  ? 'bg-amber-500 text-white'
-                  : 'bg-gradient-to-r from-accent-600 to-accent-500 text-white shadow-accent-600/40'
-                }
-              font-semibold text-lg
-              shadow-2xl
-              transition-all duration-300
-              ${isConnecting ? 'cursor-wait' : 'cursor-pointer'}
-            `}
-            >
-              {isConnecting ? (
-                connectionStatus === 'authorizing' ? (
-                  <>
-                    <motion.div
-                      animate={{
-                        scale: [1, 1.2, 1],
-                        opacity: [1, 0.7, 1]
-                      }}
-                      transition={{ duration: 1.5, repeat: Infinity }}
-                    >
-                      <Shield className="w-6 h-6" strokeWidth={1.5} />
-                    </motion.div>
-                    <span className="animate-pulse">{t('connect.waitingForAuth')}</span>
-                  </>
+              <motion.div
+                animate={connectionStatus === 'authorizing' ? {
+                  backgroundColor: ['#f59e0b', '#d97706', '#f59e0b'],
+                  scale: [1, 1.02, 1],
+                  boxShadow: ['0 0 0 0 rgba(245, 158, 11, 0)', '0 0 20px 5px rgba(245, 158, 11, 0.5)', '0 0 0 0 rgba(245, 158, 11, 0)']
+                } : {}}
+                transition={{ duration: 1.5, repeat: Infinity }}
+                className={`
+                relative flex items-center gap-4 px-10 py-5 rounded-full
+                ${connectionStatus === 'authorizing'
+                    ? 'bg-amber-500 text-white'
+                    : 'bg-gradient-to-r from-accent-600 to-accent-500 text-white shadow-accent-600/40'
+                  }
+                font-semibold text-lg
+                shadow-2xl
+                transition-all duration-300
+                ${isConnecting ? 'cursor-wait' : 'cursor-pointer'}
+              `}
+              >
+                {isConnecting ? (
+                  connectionStatus === 'authorizing' ? (
+                    <>
+                      <motion.div
+                        animate={{
+                          scale: [1, 1.2, 1],
+                          opacity: [1, 0.7, 1]
+                        }}
+                        transition={{ duration: 1.5, repeat: Infinity }}
+                      >
+                        <Shield className="w-6 h-6" strokeWidth={1.5} />
+                      </motion.div>
+                      <span className="animate-pulse">{t('connect.waitingForAuth')}</span>
+                    </>
+                  ) : (
+                    <>
+                      <motion.div
+                        animate={{ rotate: 360 }}
+                        transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                      >
+                        <Usb className="w-6 h-6" strokeWidth={1.5} />
+                      </motion.div>
+                      <span>{t('connect.connecting')}</span>
+                    </>
+                  )
                 ) : (
                   <>
-                    <motion.div
-                      animate={{ rotate: 360 }}
-                      transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                    >
-                      <Usb className="w-6 h-6" strokeWidth={1.5} />
-                    </motion.div>
-                    <span>{t('connect.connecting')}</span>
+                    <Usb className="w-6 h-6" strokeWidth={1.5} />
+                    <span>{content.cta.connectLabel}</span>
+                    <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" strokeWidth={1.5} />
                   </>
-                )
-              ) : (
-                <>
-                  <Usb className="w-6 h-6" strokeWidth={1.5} />
-                  <span>{content.cta.connectLabel}</span>
-                  <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" strokeWidth={1.5} />
-                </>
-              )}
-            </motion.div>
-          </motion.button>
-        </motion.div>
+                )}
+              </motion.div>
+            </motion.button>
+          </motion.div>
+        )}
 
         <motion.button
           initial={{ opacity: 0 }}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Wifi, KeyRound, Terminal, X } from 'lucide-react'
+import { useAdb } from '@/hooks/useAdb'
+import { useAdbStore } from '@/stores/adbStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { isBridgeAvailable } from '@/services/adb-network'
+import type { ConnectTarget } from '@/services/adb-client'
+
+type NetworkTarget = Exclude<ConnectTarget, { transport: 'usb' }>
+
+interface NetworkConnectPanelProps {
+  disabled?: boolean
+  onConnect: (target: NetworkTarget) => void
+}
+
+const BRIDGE_COMMAND = 'node scripts/adb-wifi-bridge.mjs'
+
+export function NetworkConnectPanel({ disabled, onConnect }: NetworkConnectPanelProps) {
+  const { t } = useTranslation()
+  const { pairDevice } = useAdb()
+  const lastConnectTarget = useAdbStore((state) => state.lastConnectTarget)
+  const deviceTransports = useAdbStore((state) => state.deviceTransports)
+  const forgetDeviceTransport = useAdbStore((state) => state.forgetDeviceTransport)
+
+  const [mode, setMode] = useState<NetworkTarget['transport']>(
+    lastConnectTarget.transport === 'tcp' ? 'tcp' : 'wireless'
+  )
+  const [address, setAddress] = useState(lastConnectTarget.transport !== 'usb' ? lastConnectTarget.address : '')
+  const [pairAddress, setPairAddress] = useState('')
+  const [pairCode, setPairCode] = useState('')
+  const [isPairing, setIsPairing] = useState(false)
+  const [bridgeOnline, setBridgeOnline] = useState<boolean | null>(null)
+
+  const recentDevices = useMemo(() => Object.entries(deviceTransports)
+    .filter(([, entry]) => entry.transport !== 'usb')
+    .sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+    .slice(0, 5), [deviceTransports])
+
+  useEffect(() => {
+    let cancelled = false
+    const check = async () => {
+      const online = await isBridgeAvailable()
+      if (!cancelled) setBridgeOnline(online)
+    }
+
+    void check()
+    const interval = setInterval(check, 5000)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [])
+
+  const handlePair = async () => {
+    setIsPairing(true)
+    const paired = await pairDevice(pairAddress, pairCode)
+    setIsPairing(false)
+    if (paired) setPairCode('')
+  }
+
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none focus:border-accent-500 focus:ring-2 focus:ring-accent-500/20 transition-all'
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card p-5 w-full max-w-md space-y-4 text-left"
+    >
+      {/* Bridge status */}
+      <div className="flex items-start gap-2 text-xs">
+        <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${bridgeOnline ? 'bg-emerald-500' : bridgeOnline === false ? 'bg-red-500' : 'bg-surface-400'}`} />
+        {bridgeOnline ? (
+          <span className="text-surface-600 dark:text-surface-400">{t('connect.network.bridgeOnline')}</span>
+        ) : (
+          <div className="space-y-1.5 text-surface-600 dark:text-surface-400">
+            <p>{t('connect.network.bridgeOffline')}</p>
+            <code className="flex items-center gap-2 px-3 py-2 bg-surface-900 dark:bg-black/50 text-emerald-400 rounded-lg font-mono">
+              <Terminal className="w-3.5 h-3.5 shrink-0" />
+              {BRIDGE_COMMAND}
+            </code>
+          </div>
+        )}
+      </div>
+
+      {/* Mode */}
+      <div className="grid grid-cols-2 gap-2">
+        {(['wireless', 'tcp'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-3 py-2 rounded-xl text-xs font-medium border transition-colors ${mode === option
+              ? 'bg-accent-500/10 border-accent-500/40 text-accent-600 dark:text-accent-400'
+              : 'border-surface-200 dark:border-white/10 text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5'
+              }`}
+          >
+            {option === 'wireless' ? t('connect.network.modeWireless') : t('connect.network.modeTcp')}
+          </button>
+        ))}
+      </div>
+
+      {/* Pairing (Android 11+) */}
+      {mode === 'wireless' && (
+        <div className="space-y-2 p-3 rounded-xl bg-surface-100/50 dark:bg-white/5">
+          <div className="flex items-center gap-2 text-sm font-medium text-surface-900 dark:text-white">
+            <KeyRound className="w-4 h-4 text-accent-500" strokeWidth={1.5} />
+            {t('connect.network.pairTitle')}
+          </div>
+          <p className="text-xs text-surface-500">{t('connect.network.pairHint')}</p>
+          <div className="flex gap-2">
+            <input
+              value={pairAddress}
+              onChange={(e) => setPairAddress(e.target.value)}
+              placeholder={t('connect.network.pairAddress')}
+              className={inputClass}
+            />
+            <input
+              value={pairCode}
+              onChange={(e) => setPairCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              placeholder={t('connect.network.pairCode')}
+              inputMode="numeric"
+              className={`${inputClass} w-28 font-mono`}
+            />
+          </div>
+          <button
+            onClick={handlePair}
+            disabled={!bridgeOnline || isPairing || !pairAddress.trim() || pairCode.length !== 6}
+            className="w-full px-3 py-2 rounded-xl text-sm font-medium bg-surface-200 dark:bg-white/10 text-surface-800 dark:text-surface-200 hover:bg-surface-300 dark:hover:bg-white/15 disabled:opacity-50 transition-colors"
+          >
+            {isPairing ? '…' : t('connect.network.pair')}
+          </button>
+          <p className="text-[11px] text-surface-500">{t('connect.network.bridgeWirelessHint')}</p>
+        </div>
+      )}
+
+      {/* Connect */}
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-surface-600 dark:text-surface-400">
+          {t('connect.network.address')}
+        </label>
+        <div className="flex gap-2">
+          <input
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder={t('connect.network.addressPlaceholder')}
+            className={`${inputClass} font-mono`}
+          />
+          <button
+            onClick={() => onConnect({ transport: mode, address: address.trim() })}
+            disabled={disabled || !bridgeOnline || !address.trim()}
+            className="shrink-0 flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold bg-accent-600 hover:bg-accent-700 text-white disabled:opacity-50 transition-colors"
+          >
+            <Wifi className="w-4 h-4" strokeWidth={1.5} />
+            {t('connect.network.connectWifi')}
+          </button>
+        </div>
+      </div>
+
+      {/* Remembered network devices */}
+      {recentDevices.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium text-surface-500">{t('connect.network.recent')}</p>
+          {recentDevices.map(([fingerprint, entry]) => entry.transport !== 'usb' && (
+            <div key={fingerprint} className="flex items-center gap-2 group">
+              <button
+                onClick={() => onConnect({ transport: entry.transport, address: entry.address })}
+                disabled={disabled || !bridgeOnline}
+                className="flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-left text-sm hover:bg-surface-100 dark:hover:bg-white/5 disabled:opacity-50 transition-colors"
+              >
+                <span className="truncate text-surface-900 dark:text-white">{entry.model}</span>
+                <span className="font-mono text-xs text-surface-500">{entry.address}</span>
+              </button>
+              <button
+                onClick={() => forgetDeviceTransport(fingerprint)}
+                title={t('connect.network.forget')}
+                className="p-1.5 rounded-lg text-surface-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,386 @@
+/**
+ * App Backup / Restore Modals
+ * Backup di un singolo pacchetto (APK + dati su root) e ripristino da archivio
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { AlertTriangle, Archive, CheckCircle2, RotateCcw, XCircle } from 'lucide-react'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Button } from '@/components/ui/Button'
+import { Switch } from '@/components/ui/Switch'
+import { useTranslation } from '@/stores/i18nStore'
+import { useAdbStore } from '@/stores/adbStore'
+import {
+  createAppBackup,
+  getBackupFileName,
+  restoreAppBackup,
+  type AppBackupArchive,
+  type AppBackupProgress,
+  type AppRestoreProgress,
+  type AppRestoreResult,
+} from '@/services/app-backup'
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function ProgressBar({ label, progress }: { label: string; progress: number }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-xs text-surface-500">
+        <span className="truncate">{label}</span>
+        <span>{Math.round(progress * 100)}%</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-surface-200 dark:bg-white/10 overflow-hidden">
+        <div className="h-full bg-accent-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+    </div>
+  )
+}
+
+function OptionRow({ label, hint, checked, onChange, disabled }: {
+  label: string
+  hint?: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className={`flex items-center justify-between gap-4 p-3 rounded-xl bg-surface-50 dark:bg-white/5 ${disabled ? 'opacity-50' : ''}`}>
+      <div>
+        <p className="text-sm font-medium text-surface-900 dark:text-white">{label}</p>
+        {hint && <p className="text-xs text-surface-500">{hint}</p>}
+      </div>
+      <Switch checked={checked} onChange={onChange} disabled={disabled} size="sm" />
+    </div>
+  )
+}
+
+interface AppBackupModalProps {
+  packageName: string | null
+  displayName?: string
+  onClose: () => void
+}
+
+export function AppBackupModal({ packageName, displayName, onClose }: AppBackupModalProps) {
+  const { t } = useTranslation()
+  const isRooted = useAdbStore(state => !!state.deviceInfo?.isRooted)
+  const activeSerial = useAdbStore(state => state.activeSerial)
+  const addCommandLog = useAdbStore(state => state.addCommandLog)
+  const [includeData, setIncludeData] = useState(isRooted)
+  const [progress, setProgress] = useState<AppBackupProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [done, setDone] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    setIncludeData(isRooted)
+    setProgress(null)
+    setError(null)
+    setDone(false)
+  }, [packageName, isRooted])
+
+  const running = progress !== null && !done && !error
+
+  const handleClose = () => {
+    abortRef.current?.abort()
+    onClose()
+  }
+
+  const handleBackup = async () => {
+    if (!packageName) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setDone(false)
+
+    try {
+      const { blob, manifest } = await createAppBackup(packageName, {
+        includeData,
+        isRooted,
+        serial: activeSerial ?? undefined,
+        signal: controller.signal,
+        onProgress: setProgress,
+      })
+      saveBlob(blob, getBackupFileName(manifest))
+      setDone(true)
+      addCommandLog({
+        command: `backup ${packageName}`,
+        result: 'success',
+        message: t('appBackup.backupDone', { count: manifest.apks.length }),
+      })
+    } catch (e) {
+      if (controller.signal.aborted) return
+      const message = e instanceof Error ? e.message : String(e)
+      setError(message)
+      addCommandLog({ command: `backup ${packageName}`, result: 'error', message })
+    } finally {
+      abortRef.current = null
+    }
+  }
+
+  return (
+    <Modal isOpen={!!packageName} onClose={handleClose} title={t('appBackup.backupTitle')} size="md">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-accent-500/10">
+            <Archive className="w-5 h-5 text-accent-500" strokeWidth={1.5} />
+          </div>
+          <div className="min-w-0">
+            <p className="font-medium text-surface-900 dark:text-white truncate">{displayName || packageName}</p>
+            <p className="text-xs text-surface-500 font-mono truncate">{packageName}</p>
+          </div>
+        </div>
+
+        <p className="text-sm text-surface-500">{t('appBackup.backupDescription')}</p>
+
+        <OptionRow
+          label={t('appBackup.includeData')}
+          hint={isRooted ? t('appBackup.includeDataHint') : t('appBackup.requiresRoot')}
+          checked={includeData && isRooted}
+          onChange={setIncludeData}
+          disabled={!isRooted || running}
+        />
+
+        {progress && !done && !error && (
+          <ProgressBar
+            label={`${t(`appBackup.stages.${progress.stage}`)}${progress.fileName ? ` · ${progress.fileName}` : ''}`}
+            progress={progress.progress}
+          />
+        )}
+
+        {done && (
+          <p className="flex items-center gap-2 text-sm text-emerald-600 dark:text-emerald-400">
+            <CheckCircle2 className="w-4 h-4" strokeWidth={2} />
+            {t('appBackup.backupSaved')}
+          </p>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+            <XCircle className="w-4 h-4 flex-shrink-0" strokeWidth={2} />
+            {error}
+          </p>
+        )}
+      </div>
+
+      <ModalActions>
+        <Button variant="secondary" onClick={handleClose}>
+          {done ? t('common.close') : t('common.cancel')}
+        </Button>
+        {!done && (
+          <Button
+            variant="primary"
+            icon={<Archive className="w-4 h-4" />}
+            onClick={handleBackup}
+            loading={running}
+          >
+            {t('appBackup.startBackup')}
+          </Button>
+        )}
+      </ModalActions>
+    </Modal>
+  )
+}
+
+interface AppRestoreModalProps {
+  archive: AppBackupArchive | null
+  onClose: () => void
+  /** Called after a successful install so the package list can be refreshed */
+  onRestored?: () => void
+}
+
+export function AppRestoreModal({ archive, onClose, onRestored }: AppRestoreModalProps) {
+  const { t } = useTranslation()
+  const isRooted = useAdbStore(state => !!state.deviceInfo?.isRooted)
+  const activeSerial = useAdbStore(state => state.activeSerial)
+  const addCommandLog = useAdbStore(state => state.addCommandLog)
+  const [restoreData, setRestoreData] = useState(true)
+  const [grantPermissions, setGrantPermissions] = useState(true)
+  const [progress, setProgress] = useState<AppRestoreProgress | null>(null)
+  const [result, setResult] = useState<AppRestoreResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    setRestoreData(true)
+    setGrantPermissions(true)
+    setProgress(null)
+    setResult(null)
+    setError(null)
+  }, [archive])
+
+  const running = progress !== null && !result && !error
+  const manifest = archive?.manifest
+  const hasData = !!archive?.dataEntry
+
+  const handleClose = () => {
+    abortRef.current?.abort()
+    onClose()
+  }
+
+  const handleRestore = async () => {
+    if (!archive || !manifest) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+
+    try {
+      const restoreResult = await restoreAppBackup(archive, {
+        restoreData: restoreData && hasData,
+        grantPermissions,
+        isRooted,
+        serial: activeSerial ?? undefined,
+        signal: controller.signal,
+        onProgress: setProgress,
+      })
+      setResult(restoreResult)
+      const failedPermissions = restoreResult.permissions.filter(p => !p.granted).length
+      addCommandLog({
+        command: `restore ${manifest.packageName}`,
+        result: restoreResult.dataRestored === false || failedPermissions > 0 ? 'error' : 'success',
+        message: restoreResult.dataError || restoreResult.installMessage,
+      })
+      onRestored?.()
+    } catch (e) {
+      if (controller.signal.aborted) return
+      const message = e instanceof Error ? e.message : String(e)
+      setError(message)
+      addCommandLog({ command: `restore ${manifest.packageName}`, result: 'error', message })
+    } finally {
+      abortRef.current = null
+    }
+  }
+
+  const grantedCount = result?.permissions.filter(p => p.granted).length ?? 0
+
+  return (
+    <Modal isOpen={!!archive} onClose={handleClose} title={t('appBackup.restoreTitle')} size="lg">
+      {manifest && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="col-span-2">
+              <p className="text-xs text-surface-500">{t('appBackup.package')}</p>
+              <p className="font-mono text-surface-900 dark:text-white truncate">{manifest.packageName}</p>
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">{t('appBackup.version')}</p>
+              <p className="text-surface-900 dark:text-white">
+                {manifest.versionName ?? '—'} {manifest.versionCode && <span className="text-surface-500">({manifest.versionCode})</span>}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">{t('appBackup.createdAt')}</p>
+              <p className="text-surface-900 dark:text-white">{new Date(manifest.createdAt).toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">{t('appBackup.sourceDevice')}</p>
+              <p className="text-surface-900 dark:text-white">{manifest.device.model || '—'} · API {manifest.device.sdk}</p>
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">{t('appBackup.contents')}</p>
+              <p className="text-surface-900 dark:text-white">
+                {t('appBackup.apkCount', { count: manifest.apks.length })}
+                {hasData && ` · ${t('appBackup.dataIncluded')}`}
+              </p>
+            </div>
+            {manifest.signatures.length > 0 && (
+              <div className="col-span-2">
+                <p className="text-xs text-surface-500">{t('appBackup.signatures')}</p>
+                <p className="font-mono text-xs text-surface-700 dark:text-surface-300 break-all">{manifest.signatures.join(', ')}</p>
+              </div>
+            )}
+          </div>
+
+          <OptionRow
+            label={t('appBackup.restoreData')}
+            hint={!hasData ? t('appBackup.noDataInBackup') : isRooted ? t('appBackup.restoreDataHint') : t('appBackup.requiresRoot')}
+            checked={restoreData && hasData && isRooted}
+            onChange={setRestoreData}
+            disabled={!hasData || !isRooted || running || !!result}
+          />
+          <OptionRow
+            label={t('appBackup.grantPermissions')}
+            hint={t('appBackup.grantPermissionsHint', { count: manifest.grantedPermissions.length })}
+            checked={grantPermissions}
+            onChange={setGrantPermissions}
+            disabled={manifest.grantedPermissions.length === 0 || running || !!result}
+          />
+
+          {hasData && restoreData && isRooted && !result && (
+            <p className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" strokeWidth={1.5} />
+              {t('appBackup.overwriteWarning')}
+            </p>
+          )}
+
+          {running && progress && (
+            <ProgressBar
+              label={`${t(`appBackup.stages.${progress.stage}`)}${progress.fileName ? ` · ${progress.fileName}` : ''}`}
+              progress={progress.progress}
+            />
+          )}
+
+          {error && (
+            <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 flex-shrink-0" strokeWidth={2} />
+              {error}
+            </p>
+          )}
+
+          {result && (
+            <div className="space-y-2 text-sm">
+              <p className="flex items-center gap-2 text-emerald-600 dark:text-emerald-400">
+                <CheckCircle2 className="w-4 h-4" strokeWidth={2} />
+                {t('appBackup.installed')}
+              </p>
+              {result.dataRestored !== null && (
+                <p className={`flex items-center gap-2 ${result.dataRestored ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {result.dataRestored
+                    ? <CheckCircle2 className="w-4 h-4" strokeWidth={2} />
+                    : <XCircle className="w-4 h-4" strokeWidth={2} />}
+                  {result.dataRestored ? t('appBackup.dataRestored') : t('appBackup.dataFailed', { error: result.dataError ?? '' })}
+                </p>
+              )}
+              {result.permissions.length > 0 && (
+                <div>
+                  <p className="text-surface-700 dark:text-surface-300">
+                    {t('appBackup.permissionsGranted', { granted: grantedCount, total: result.permissions.length })}
+                  </p>
+                  <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+                    {result.permissions.filter(p => !p.granted).map(p => (
+                      <li key={p.permission} className="text-xs text-red-600 dark:text-red-400 font-mono truncate" title={p.error}>
+                        {p.permission}: {p.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ModalActions>
+        <Button variant="secondary" onClick={handleClose}>
+          {result ? t('common.close') : t('common.cancel')}
+        </Button>
+        {!result && (
+          <Button
+            variant="primary"
+            icon={<RotateCcw className="w-4 h-4" />}
+            onClick={handleRestore}
+            loading={running}
+          >
+            {t('appBackup.startRestore')}
+          </Button>
+        )}
+      </ModalActions>
+    </Modal>
+  )
+}
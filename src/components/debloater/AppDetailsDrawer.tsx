@@ -0,0 +1,462 @@
+/**
+ * App Details Drawer
+ * Pannello laterale con i dettagli di un pacchetto (da `dumpsys package` e `dumpsys diskstats`)
+ * e le azioni rapide: avvio, arresto forzato, cancellazione dati, info app sul dispositivo.
+ * I singoli componenti si possono disattivare o aggiungere alla selezione per le liste.
+ */
+
+import { useCallback, useEffect, useState, type ReactNode } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  X,
+  Play,
+  Square,
+  Eraser,
+  ExternalLink,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle2,
+  Loader2,
+  AlertTriangle,
+  ListPlus,
+  Ban
+} from 'lucide-react'
+import { useTranslation } from '@/stores/i18nStore'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { Switch } from '@/components/ui/Switch'
+import {
+  clearAppData,
+  forceStopApp,
+  getAppDetails,
+  launchApp,
+  openAppInfo,
+  type AppComponentType,
+  type AppDetails
+} from '@/services/app-details'
+import { disableComponent, enableComponent, type ShellResult } from '@/services/adb-client'
+import { validateComponentName } from '@/services/command-sanitizer'
+
+interface AppDetailsDrawerProps {
+  packageName: string | null
+  displayName?: string
+  onClose: () => void
+  /** Called after an action that changes the package (clear data) */
+  onChanged?: () => void
+  /** Components of this package picked for the list / batch selection */
+  selectedComponents?: string[]
+  onToggleComponentSelection?: (component: string) => void
+}
+
+type AppAction = 'launch' | 'forceStop' | 'clearData' | 'appInfo'
+
+const COMPONENT_TYPES: AppComponentType[] = ['activities', 'services', 'receivers', 'providers']
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+function InfoRow({ label, value }: { label: string; value: string | number | null | undefined }) {
+  return (
+    <div className="flex items-start justify-between gap-4 py-1.5 text-sm">
+      <span className="text-surface-500 shrink-0">{label}</span>
+      <span className="text-surface-900 dark:text-white text-right break-all font-mono text-xs">{value ?? '—'}</span>
+    </div>
+  )
+}
+
+function CollapsibleList({ title, items, renderItem }: {
+  title: string
+  items: string[]
+  renderItem?: (item: string) => ReactNode
+}) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="rounded-xl bg-surface-50 dark:bg-white/5">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={items.length === 0}
+        className="w-full flex items-center justify-between px-3 py-2.5 text-sm font-medium text-surface-900 dark:text-white disabled:opacity-50"
+      >
+        <span>{title} ({items.length})</span>
+        {open ? <ChevronDown className="w-4 h-4" strokeWidth={1.5} /> : <ChevronRight className="w-4 h-4" strokeWidth={1.5} />}
+      </button>
+      {open && items.length > 0 && (
+        <div className="px-3 pb-3 space-y-1 max-h-64 overflow-y-auto">
+          {items.map(item => (
+            <div key={item} className="text-xs font-mono text-surface-600 dark:text-surface-400 break-all">
+              {renderItem ? renderItem(item) : item}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ComponentRow({ component, packageName, disabled, busy, selected, onToggle, onSelect }: {
+  component: string
+  packageName: string
+  disabled: boolean
+  busy: boolean
+  selected?: boolean
+  onToggle: (enable: boolean) => void
+  onSelect?: () => void
+}) {
+  const { t } = useTranslation()
+  // Classes of the package itself are shown relative to it
+  const shortName = component.startsWith(`${packageName}.`) ? component.slice(packageName.length) : component
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className={`flex-1 min-w-0 break-all ${disabled ? 'line-through text-red-500 dark:text-red-400' : ''}`} title={component}>
+        {shortName}
+      </span>
+      {onSelect && (
+        <button
+          onClick={onSelect}
+          className={`p-1 rounded-lg transition-colors ${selected
+            ? 'text-accent-500 bg-accent-500/10'
+            : 'text-surface-400 hover:text-accent-500 hover:bg-surface-100 dark:hover:bg-white/10'
+            }`}
+          title={t(selected ? 'appDetails.componentDeselect' : 'appDetails.componentSelect')}
+        >
+          <ListPlus className="w-3.5 h-3.5" strokeWidth={1.5} />
+        </button>
+      )}
+      <Switch checked={!disabled} onChange={onToggle} loading={busy} size="sm" />
+    </div>
+  )
+}
+
+export function AppDetailsDrawer({
+  packageName,
+  displayName,
+  onClose,
+  onChanged,
+  selectedComponents = [],
+  onToggleComponentSelection
+}: AppDetailsDrawerProps) {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore(state => state.activeSerial)
+  const addCommandLog = useAdbStore(state => state.addCommandLog)
+  const [details, setDetails] = useState<AppDetails | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [runningAction, setRunningAction] = useState<AppAction | null>(null)
+  const [busyComponent, setBusyComponent] = useState<string | null>(null)
+  const [manualComponent, setManualComponent] = useState('')
+
+  const load = useCallback(async () => {
+    if (!packageName) return
+    setLoading(true)
+    setError(null)
+    try {
+      setDetails(await getAppDetails(packageName, activeSerial ?? undefined))
+    } catch (e) {
+      setDetails(null)
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [packageName, activeSerial])
+
+  useEffect(() => {
+    setDetails(null)
+    load()
+  }, [load])
+
+  useEffect(() => {
+    if (!packageName) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [packageName, onClose])
+
+  const runAction = async (action: AppAction) => {
+    if (!packageName) return
+    if (action === 'clearData' && !window.confirm(t('appDetails.clearDataConfirm', { name: displayName || packageName }))) return
+
+    const commands: Record<AppAction, (name: string, serial?: string) => Promise<ShellResult>> = {
+      launch: launchApp,
+      forceStop: forceStopApp,
+      clearData: clearAppData,
+      appInfo: openAppInfo,
+    }
+
+    setRunningAction(action)
+    try {
+      const result = await commands[action](packageName, activeSerial ?? undefined)
+      const ok = result.exitCode === 0 && !/Exception|Error:|Failed/.test(result.stdout)
+      const message = (ok ? result.stdout : result.stderr || result.stdout).trim()
+      addCommandLog({ command: `${action} ${packageName}`, result: ok ? 'success' : 'error', message })
+      useAppStore.getState().showToast({
+        type: ok ? 'success' : 'error',
+        title: t(`appDetails.actions.${action}`),
+        message: ok ? t(`appDetails.done.${action}`) : message,
+      })
+      if (ok && action === 'clearData') {
+        onChanged?.()
+        load()
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      addCommandLog({ command: `${action} ${packageName}`, result: 'error', message })
+      useAppStore.getState().showToast({ type: 'error', title: t(`appDetails.actions.${action}`), message })
+    } finally {
+      setRunningAction(null)
+    }
+  }
+
+  const toggleComponent = async (component: string, enable: boolean) => {
+    if (!packageName) return
+    setBusyComponent(component)
+    const command = `${enable ? 'enable' : 'disable'} ${packageName}/${component}`
+    try {
+      const result = enable
+        ? await enableComponent(packageName, component, activeSerial ?? undefined)
+        : await disableComponent(packageName, component, activeSerial ?? undefined)
+      const ok = result.exitCode === 0
+      addCommandLog({ command, result: ok ? 'success' : 'error', message: (ok ? result.stdout : result.stderr || result.stdout).trim() })
+      if (!ok) {
+        useAppStore.getState().showToast({ type: 'error', title: t('appDetails.componentFailed'), message: result.stderr || result.stdout })
+        return
+      }
+      setDetails(prev => prev && {
+        ...prev,
+        disabledComponents: enable
+          ? prev.disabledComponents.filter(c => c !== component)
+          : [...new Set([...prev.disabledComponents, component])].sort(),
+      })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      addCommandLog({ command, result: 'error', message })
+      useAppStore.getState().showToast({ type: 'error', title: t('appDetails.componentFailed'), message })
+    } finally {
+      setBusyComponent(null)
+    }
+  }
+
+  const disableManualComponent = async () => {
+    if (!packageName) return
+    let component: string
+    try {
+      component = validateComponentName(packageName, manualComponent).split('/')[1]
+    } catch (e) {
+      useAppStore.getState().showToast({ type: 'error', title: t('appDetails.componentFailed'), message: e instanceof Error ? e.message : String(e) })
+      return
+    }
+    await toggleComponent(component, false)
+    setManualComponent('')
+  }
+
+  const actions: { key: AppAction; icon: typeof Play; danger?: boolean }[] = [
+    { key: 'launch', icon: Play },
+    { key: 'forceStop', icon: Square },
+    { key: 'clearData', icon: Eraser, danger: true },
+    { key: 'appInfo', icon: ExternalLink },
+  ]
+
+  const granted = new Set(details?.grantedPermissions ?? [])
+  const disabledComponents = new Set(details?.disabledComponents ?? [])
+  const selectedSet = new Set(selectedComponents)
+  // Disabled components without an intent filter are not in the typed lists
+  const listedComponents = new Set(COMPONENT_TYPES.flatMap(type => details?.components[type] ?? []))
+  const otherComponents = (details?.disabledComponents ?? []).filter(c => !listedComponents.has(c))
+
+  const renderComponent = (component: string) => (
+    <ComponentRow
+      component={component}
+      packageName={packageName!}
+      disabled={disabledComponents.has(component)}
+      busy={busyComponent === component}
+      selected={selectedSet.has(component)}
+      onToggle={(enable) => toggleComponent(component, enable)}
+      onSelect={onToggleComponentSelection ? () => onToggleComponentSelection(component) : undefined}
+    />
+  )
+
+  return (
+    <AnimatePresence>
+      {packageName && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            onClick={onClose}
+            className="fixed inset-0 z-50 bg-surface-950/60 backdrop-blur-sm"
+          />
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+            className="fixed inset-y-0 right-0 z-50 w-full max-w-md flex flex-col
+              bg-white dark:bg-surface-900 border-l border-surface-200 dark:border-white/10 shadow-elevated-lg"
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between gap-3 px-6 py-4 border-b border-surface-200 dark:border-white/10">
+              <div className="min-w-0">
+                <h2 className="text-lg font-semibold text-surface-900 dark:text-white tracking-tight truncate">
+                  {displayName || packageName}
+                </h2>
+                <p className="text-xs text-surface-500 font-mono truncate">{packageName}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={load}
+                  disabled={loading}
+                  className="p-2 rounded-lg text-surface-400 hover:text-surface-600 dark:hover:text-surface-200 hover:bg-surface-100 dark:hover:bg-white/10 transition-colors"
+                  title={t('common.refresh')}
+                >
+                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} strokeWidth={1.5} />
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-2 rounded-lg text-surface-400 hover:text-surface-600 dark:hover:text-surface-200 hover:bg-surface-100 dark:hover:bg-white/10 transition-colors"
+                >
+                  <X className="w-5 h-5" strokeWidth={1.5} />
+                </button>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="grid grid-cols-4 gap-2 px-6 py-4 border-b border-surface-200 dark:border-white/10">
+              {actions.map(({ key, icon: Icon, danger }) => (
+                <button
+                  key={key}
+                  onClick={() => runAction(key)}
+                  disabled={!!runningAction}
+                  className={`flex flex-col items-center gap-1.5 p-2 rounded-xl text-xs transition-colors disabled:opacity-50
+                    ${danger
+                      ? 'text-red-600 dark:text-red-400 hover:bg-red-500/10'
+                      : 'text-surface-600 dark:text-surface-300 hover:bg-surface-100 dark:hover:bg-white/10'
+                    }`}
+                >
+                  {runningAction === key
+                    ? <Loader2 className="w-5 h-5 animate-spin" strokeWidth={1.5} />
+                    : <Icon className="w-5 h-5" strokeWidth={1.5} />}
+                  <span className="text-center leading-tight">{t(`appDetails.actions.${key}`)}</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Body */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+              {loading && !details && (
+                <div className="flex items-center justify-center gap-2 py-12 text-surface-500">
+                  <Loader2 className="w-5 h-5 animate-spin" strokeWidth={1.5} />
+                  <span className="text-sm">{t('appDetails.loading')}</span>
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-start gap-3 p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+                  <AlertTriangle className="w-5 h-5 text-red-500 shrink-0" strokeWidth={1.5} />
+                  <p className="text-sm text-red-600 dark:text-red-400 break-all">{t('appDetails.loadFailed', { error })}</p>
+                </div>
+              )}
+
+              {details && (
+                <>
+                  <div className="divide-y divide-surface-100 dark:divide-white/5">
+                    <InfoRow label={t('appDetails.version')} value={details.versionName} />
+                    <InfoRow label={t('appDetails.versionCode')} value={details.versionCode} />
+                    <InfoRow label={t('appDetails.targetSdk')} value={details.targetSdk} />
+                    <InfoRow label={t('appDetails.minSdk')} value={details.minSdk} />
+                    <InfoRow label={t('appDetails.firstInstall')} value={details.firstInstallTime} />
+                    <InfoRow label={t('appDetails.lastUpdate')} value={details.lastUpdateTime} />
+                    <InfoRow label={t('appDetails.installer')} value={details.installer ?? t('appDetails.noInstaller')} />
+                    <InfoRow label={t('appDetails.uid')} value={details.uid} />
+                    <InfoRow label={t('appDetails.codePath')} value={details.codePath} />
+                    <InfoRow label={t('appDetails.dataDir')} value={details.dataDir} />
+                    <InfoRow label={t('appDetails.signatures')} value={details.signatures.join(', ') || null} />
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-semibold text-surface-500 mb-2">{t('appDetails.storage')}</p>
+                    {details.storage ? (
+                      <div className="grid grid-cols-3 gap-2">
+                        {([
+                          ['app', details.storage.appBytes],
+                          ['data', details.storage.dataBytes],
+                          ['cache', details.storage.cacheBytes],
+                        ] as const).map(([key, bytes]) => (
+                          <div key={key} className="p-3 rounded-xl bg-surface-50 dark:bg-white/5 text-center">
+                            <p className="text-sm font-semibold text-surface-900 dark:text-white">{formatSize(bytes)}</p>
+                            <p className="text-xs text-surface-500">{t(`appDetails.sizes.${key}`)}</p>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-surface-400">{t('appDetails.storageUnavailable')}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <CollapsibleList
+                      title={t('appDetails.requestedPermissions')}
+                      items={details.requestedPermissions}
+                      renderItem={(permission) => (
+                        <span className="flex items-center gap-1.5">
+                          {granted.has(permission)
+                            ? <CheckCircle2 className="w-3 h-3 text-emerald-500 shrink-0" strokeWidth={2} />
+                            : <span className="w-3 h-3 shrink-0" />}
+                          {permission}
+                        </span>
+                      )}
+                    />
+                    <CollapsibleList title={t('appDetails.declaredPermissions')} items={details.declaredPermissions} />
+                    {COMPONENT_TYPES.map(type => (
+                      <CollapsibleList
+                        key={type}
+                        title={t(`appDetails.components.${type}`)}
+                        items={details.components[type]}
+                        renderItem={renderComponent}
+                      />
+                    ))}
+                    {otherComponents.length > 0 && (
+                      <CollapsibleList title={t('appDetails.components.other')} items={otherComponents} renderItem={renderComponent} />
+                    )}
+                    <p className="text-xs text-surface-400">{t('appDetails.componentsHint')}</p>
+
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={manualComponent}
+                        onChange={(e) => setManualComponent(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && manualComponent.trim()) disableManualComponent() }}
+                        placeholder={t('appDetails.componentPlaceholder')}
+                        className="flex-1 min-w-0 px-3 py-2 rounded-xl text-xs font-mono bg-surface-50 dark:bg-white/5
+                          border border-surface-200 dark:border-white/10 text-surface-900 dark:text-white
+                          focus:outline-none focus:ring-2 focus:ring-accent-500/50"
+                      />
+                      <button
+                        onClick={disableManualComponent}
+                        disabled={!manualComponent.trim() || !!busyComponent}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium text-red-600 dark:text-red-400
+                          hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+                      >
+                        <Ban className="w-3.5 h-3.5" strokeWidth={1.5} />
+                        {t('appDetails.componentDisable')}
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,224 @@
+/**
+ * Package Graph Modal
+ * Vicinato di un pacchetto nel grafo delle dipendenze (SVG radiale).
+ * A sinistra ciò di cui ha bisogno, a destra chi ne ha bisogno; click su un nodo per ricentrare.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Modal } from '@/components/ui/Modal'
+import { useTranslation } from '@/stores/i18nStore'
+import {
+  getDependencies,
+  getDependents,
+  getNeighbourhood,
+  type PackageGraph
+} from '@/services/package-graph'
+
+export type GraphNodeState = 'enabled' | 'disabled' | 'absent'
+
+interface PackageGraphModalProps {
+  packageName: string | null
+  graph: PackageGraph
+  getState: (packageName: string) => GraphNodeState
+  getLabel: (packageName: string) => string
+  onClose: () => void
+}
+
+const WIDTH = 640
+const HEIGHT = 420
+const RING_RADIUS = 150
+const NODE_RADIUS = 9
+
+const NODE_COLORS: Record<GraphNodeState, string> = {
+  enabled: '#10b981',
+  disabled: '#f59e0b',
+  absent: '#94a3b8',
+}
+
+interface PlacedNode {
+  name: string
+  x: number
+  y: number
+  distance: number
+}
+
+/**
+ * Dependencies go on the left half, dependents on the right; outer rings
+ * inherit the side of the node that reached them.
+ */
+function layout(graph: PackageGraph, center: string): { nodes: PlacedNode[]; edges: { from: string; to: string }[] } {
+  const { nodes, edges } = getNeighbourhood(graph, center, 2)
+  const side = new Map<string, 'left' | 'right'>()
+  const dependencies = new Set(getDependencies(graph, center))
+
+  const rings = new Map<number, string[]>()
+  nodes.forEach((distance, name) => {
+    if (distance === 0) return
+    if (!rings.has(distance)) rings.set(distance, [])
+    rings.get(distance)!.push(name)
+  })
+
+  for (const name of rings.get(1) ?? []) side.set(name, dependencies.has(name) ? 'left' : 'right')
+  for (const name of rings.get(2) ?? []) {
+    const parent = edges
+      .map(edge => edge.from === name ? edge.to : edge.to === name ? edge.from : null)
+      .find(other => other && nodes.get(other) === 1)
+    side.set(name, (parent && side.get(parent)) || 'right')
+  }
+
+  const cx = WIDTH / 2
+  const cy = HEIGHT / 2
+  const placed: PlacedNode[] = [{ name: center, x: cx, y: cy, distance: 0 }]
+
+  rings.forEach((names, distance) => {
+    const radius = Math.min(RING_RADIUS * distance * 0.75, HEIGHT / 2 - 24)
+    for (const half of ['left', 'right'] as const) {
+      const group = names.filter(name => side.get(name) === half).sort()
+      group.forEach((name, index) => {
+        // Spread over the half circle, avoiding the exact top and bottom
+        const t = (index + 1) / (group.length + 1)
+        const angle = half === 'right'
+          ? -Math.PI / 2 + t * Math.PI
+          : Math.PI / 2 + t * Math.PI
+        placed.push({
+          name,
+          x: cx + Math.cos(angle) * radius * 1.5,
+          y: cy + Math.sin(angle) * radius,
+          distance,
+        })
+      })
+    }
+  })
+
+  return { nodes: placed, edges }
+}
+
+function shortLabel(label: string): string {
+  return label.length > 22 ? `${label.slice(0, 21)}…` : label
+}
+
+export function PackageGraphModal({ packageName, graph, getState, getLabel, onClose }: PackageGraphModalProps) {
+  const { t } = useTranslation()
+  const [center, setCenter] = useState(packageName)
+
+  useEffect(() => {
+    setCenter(packageName)
+  }, [packageName])
+
+  const { nodes, edges } = useMemo(
+    () => center ? layout(graph, center) : { nodes: [], edges: [] },
+    [graph, center]
+  )
+  const positions = useMemo(() => new Map(nodes.map(node => [node.name, node])), [nodes])
+
+  const needs = center ? getDependencies(graph, center) : []
+  const neededBy = center ? getDependents(graph, center) : []
+
+  return (
+    <Modal isOpen={!!packageName} onClose={onClose} title={t('debloater.dependencies.graphTitle')} size="xl">
+      {center && (
+        <div className="space-y-4">
+          <div>
+            <p className="font-medium text-surface-900 dark:text-white truncate">{getLabel(center)}</p>
+            <p className="text-xs text-surface-500 font-mono truncate">{center}</p>
+          </div>
+
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full rounded-xl bg-surface-50 dark:bg-white/5">
+            <defs>
+              <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+              </marker>
+            </defs>
+
+            {edges.map(edge => {
+              const from = positions.get(edge.from)
+              const to = positions.get(edge.to)
+              if (!from || !to) return null
+              // Stop the arrow at the node border
+              const dx = to.x - from.x
+              const dy = to.y - from.y
+              const length = Math.hypot(dx, dy) || 1
+              return (
+                <line
+                  key={`${edge.from}>${edge.to}`}
+                  x1={from.x + (dx / length) * NODE_RADIUS}
+                  y1={from.y + (dy / length) * NODE_RADIUS}
+                  x2={to.x - (dx / length) * (NODE_RADIUS + 2)}
+                  y2={to.y - (dy / length) * (NODE_RADIUS + 2)}
+                  stroke="#94a3b8"
+                  strokeWidth={1.2}
+                  markerEnd="url(#graph-arrow)"
+                />
+              )
+            })}
+
+            {nodes.map(node => (
+              <g
+                key={node.name}
+                onClick={() => setCenter(node.name)}
+                className="cursor-pointer"
+              >
+                <title>{`${getLabel(node.name)}\n${node.name}`}</title>
+                <circle
+                  cx={node.x}
+                  cy={node.y}
+                  r={node.distance === 0 ? NODE_RADIUS + 4 : NODE_RADIUS}
+                  fill={NODE_COLORS[getState(node.name)]}
+                  stroke={node.distance === 0 ? '#6366f1' : 'white'}
+                  strokeWidth={node.distance === 0 ? 3 : 1.5}
+                />
+                <text
+                  x={node.x}
+                  y={node.y + NODE_RADIUS + 14}
+                  textAnchor="middle"
+                  className="fill-surface-600 dark:fill-surface-300"
+                  fontSize={node.distance === 0 ? 12 : 10}
+                  fontWeight={node.distance === 0 ? 600 : 400}
+                >
+                  {shortLabel(getLabel(node.name))}
+                </text>
+              </g>
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-surface-500">
+            {(['enabled', 'disabled', 'absent'] as const).map(state => (
+              <span key={state} className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: NODE_COLORS[state] }} />
+                {t(`debloater.dependencies.legend${state.charAt(0).toUpperCase()}${state.slice(1)}`)}
+              </span>
+            ))}
+          </div>
+          <p className="text-xs text-surface-400">{t('debloater.dependencies.graphHint')}</p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {[
+              { title: t('debloater.dependencies.needs'), items: needs },
+              { title: t('debloater.dependencies.neededBy'), items: neededBy },
+            ].map(column => (
+              <div key={column.title} className="p-3 rounded-xl bg-surface-50 dark:bg-white/5">
+                <p className="text-xs font-semibold text-surface-500 mb-2">{column.title} ({column.items.length})</p>
+                {column.items.length === 0 ? (
+                  <p className="text-xs text-surface-400">{t('debloater.dependencies.none')}</p>
+                ) : (
+                  <div className="space-y-1">
+                    {column.items.map(name => (
+                      <button
+                        key={name}
+                        onClick={() => setCenter(name)}
+                        className="w-full flex items-center gap-2 text-left text-xs hover:text-accent-500 transition-colors"
+                      >
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: NODE_COLORS[getState(name)] }} />
+                        <span className="truncate font-mono">{name}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,71 @@
+/**
+ * DeviceTargetPicker Component
+ * Lets the user choose which connected devices a batch operation runs on.
+ * Renders nothing when only one device is connected.
+ */
+
+import { Check, Smartphone } from 'lucide-react'
+import { useAdbStore } from '@/stores/adbStore'
+import { useTranslation } from '@/stores/i18nStore'
+
+interface DeviceTargetPickerProps {
+    selected: string[]
+    onChange: (serials: string[]) => void
+    disabled?: boolean
+}
+
+export function DeviceTargetPicker({ selected, onChange, disabled }: DeviceTargetPickerProps) {
+    const { t } = useTranslation()
+    const connectedSerials = useAdbStore(state => state.connectedSerials)
+    const activeSerial = useAdbStore(state => state.activeSerial)
+    const deviceInfo = useAdbStore(state => state.deviceInfo)
+    const deviceSessions = useAdbStore(state => state.deviceSessions)
+
+    if (connectedSerials.length < 2) return null
+
+    const toggle = (serial: string) => {
+        onChange(selected.includes(serial)
+            ? selected.filter(s => s !== serial)
+            : [...selected, serial])
+    }
+
+    return (
+        <div className="space-y-2">
+            <div>
+                <p className="text-sm font-medium text-surface-900 dark:text-white">
+                    {t('adb.devices.targets')}
+                </p>
+                <p className="text-xs text-surface-500">{t('adb.devices.targetsHint')}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {connectedSerials.map(serial => {
+                    const isSelected = selected.includes(serial)
+                    const model = serial === activeSerial
+                        ? deviceInfo?.model
+                        : deviceSessions[serial]?.deviceInfo?.model
+
+                    return (
+                        <button
+                            key={serial}
+                            onClick={() => toggle(serial)}
+                            disabled={disabled}
+                            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors disabled:opacity-50
+                            ${isSelected
+                                    ? 'bg-accent-500/10 border-accent-500/40 text-accent-600 dark:text-accent-400'
+                                    : 'border-surface-200 dark:border-white/10 text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5'
+                                }`}
+                        >
+                            {isSelected
+                                ? <Check className="w-3.5 h-3.5" strokeWidth={2} />
+                                : <Smartphone className="w-3.5 h-3.5" strokeWidth={1.5} />}
+                            <span>{model || serial}</span>
+                            {serial === activeSerial && (
+                                <span className="text-[10px] opacity-70">({t('adb.devices.active')})</span>
+                            )}
+                        </button>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
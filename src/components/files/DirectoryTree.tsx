@@ -0,0 +1,137 @@
+/**
+ * DirectoryTree Component
+ * Lazily loaded folder tree for the File Manager sidebar.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ChevronRight, Folder, FolderOpen, HardDrive, Loader2, Lock } from 'lucide-react'
+import { useTranslation } from '@/stores/i18nStore'
+import { listEntries, type FileManagerRoot } from '@/services/file-manager'
+
+interface DirectoryTreeProps {
+    roots: FileManagerRoot[]
+    currentPath: string
+    isRooted: boolean
+    serial?: string
+    /** Bumped by the page after mutations so cached children are reloaded */
+    refreshKey: number
+    onSelect: (path: string) => void
+}
+
+export function DirectoryTree({ roots, currentPath, isRooted, serial, refreshKey, onSelect }: DirectoryTreeProps) {
+    const { t } = useTranslation()
+    const [expanded, setExpanded] = useState<Set<string>>(new Set())
+    const [children, setChildren] = useState<Record<string, string[]>>({})
+    const [loading, setLoading] = useState<Set<string>>(new Set())
+    // Latest tree state for the effects below, which must not rerun on every expand
+    const expandedRef = useRef(expanded)
+    const childrenRef = useRef(children)
+    expandedRef.current = expanded
+    childrenRef.current = children
+
+    const loadChildren = useCallback(async (path: string) => {
+        setLoading(prev => new Set(prev).add(path))
+        try {
+            const entries = await listEntries(path, isRooted, serial)
+            setChildren(prev => ({
+                ...prev,
+                [path]: entries.filter(entry => entry.isDirectory).map(entry => entry.path),
+            }))
+        } catch {
+            setChildren(prev => ({ ...prev, [path]: [] }))
+        } finally {
+            setLoading(prev => {
+                const next = new Set(prev)
+                next.delete(path)
+                return next
+            })
+        }
+    }, [isRooted, serial])
+
+    // Reload every expanded folder after a mutation or device switch
+    useEffect(() => {
+        setChildren({})
+        expandedRef.current.forEach(path => void loadChildren(path))
+    }, [refreshKey, loadChildren])
+
+    // Expand the ancestors of the folder opened from the file list
+    useEffect(() => {
+        const root = roots.find(r => currentPath === r.path || currentPath.startsWith(`${r.path}/`))
+        if (!root) return
+
+        const ancestors = [root.path]
+        const relative = currentPath.slice(root.path.length).split('/').filter(Boolean)
+        relative.slice(0, -1).reduce((path, part) => {
+            const next = `${path}/${part}`
+            ancestors.push(next)
+            return next
+        }, root.path)
+
+        const missing = ancestors.filter(path => !expandedRef.current.has(path))
+        if (missing.length === 0) return
+        setExpanded(prev => new Set([...prev, ...missing]))
+        missing.forEach(path => {
+            if (!childrenRef.current[path]) void loadChildren(path)
+        })
+    }, [currentPath, roots, loadChildren])
+
+    const toggle = (path: string) => {
+        const next = new Set(expanded)
+        if (next.has(path)) {
+            next.delete(path)
+        } else {
+            next.add(path)
+            if (!children[path]) void loadChildren(path)
+        }
+        setExpanded(next)
+    }
+
+    const renderNode = (path: string, depth: number, root?: FileManagerRoot) => {
+        const isExpanded = expanded.has(path)
+        const isActive = currentPath === path
+        const isLoading = loading.has(path)
+        const name = root ? t(root.labelKey) : path.slice(path.lastIndexOf('/') + 1)
+        const nodeChildren = children[path]
+
+        return (
+            <div key={path}>
+                <div
+                    className={`flex items-center gap-1 pr-2 py-1 rounded-lg text-sm cursor-pointer transition-colors
+                    ${isActive
+                            ? 'bg-accent-500/10 text-accent-600 dark:text-accent-400'
+                            : 'text-surface-700 dark:text-surface-300 hover:bg-surface-100 dark:hover:bg-white/5'
+                        }`}
+                    style={{ paddingLeft: `${depth * 14 + 4}px` }}
+                    onClick={() => onSelect(path)}
+                    title={path}
+                >
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation()
+                            toggle(path)
+                        }}
+                        className="p-0.5 rounded hover:bg-surface-200 dark:hover:bg-white/10"
+                    >
+                        {isLoading
+                            ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            : <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />}
+                    </button>
+                    {root
+                        ? <HardDrive className="w-4 h-4 shrink-0 text-surface-500" strokeWidth={1.5} />
+                        : isExpanded
+                            ? <FolderOpen className="w-4 h-4 shrink-0 text-amber-500" strokeWidth={1.5} />
+                            : <Folder className="w-4 h-4 shrink-0 text-amber-500" strokeWidth={1.5} />}
+                    <span className="truncate">{name}</span>
+                    {root?.requiresRoot && <Lock className="w-3 h-3 ml-auto shrink-0 text-surface-400" strokeWidth={1.5} />}
+                </div>
+                {isExpanded && nodeChildren && nodeChildren.map(child => renderNode(child, depth + 1))}
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-0.5">
+            {roots.map(root => renderNode(root.path, 0, root))}
+        </div>
+    )
+}
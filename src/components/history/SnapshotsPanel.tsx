@@ -0,0 +1,560 @@
+/**
+ * Snapshots Panel
+ * Snapshot locali dello stato del dispositivo con diff e rollback
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  Camera,
+  GitCompare,
+  RotateCcw,
+  Trash2,
+  Smartphone,
+  CheckCircle2,
+  XCircle,
+  ArrowRight,
+  RefreshCw
+} from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import {
+  buildRollbackPlan,
+  captureDeviceState,
+  deleteSnapshot,
+  diffDeviceStates,
+  executeRollbackPlan,
+  listSnapshots,
+  saveSnapshot,
+  summarizeState,
+  type DeviceSnapshot,
+  type DeviceStateData,
+  type RollbackStep,
+  type RollbackStepResult,
+  type SnapshotCaptureProgress,
+  type SnapshotChange,
+  type SnapshotChangeKind
+} from '@/services/device-snapshots'
+
+const KINDS: SnapshotChangeKind[] = ['package', 'component', 'permission', 'appop', 'setting']
+
+function ChangeValue({ change, value }: { change: SnapshotChange; value: string | null }) {
+  const { t } = useTranslation()
+  const text = value ?? (
+    change.kind === 'package' ? t('history.snapshots.notPresent')
+      : change.kind === 'appop' ? t('history.snapshots.defaultMode')
+        : t('history.snapshots.unset')
+  )
+  const color = value === 'enabled' || value === 'granted'
+    ? 'text-emerald-600 dark:text-emerald-400'
+    : value === 'disabled' || value === 'uninstalled' || value === 'revoked' || value === 'deny' || value === 'ignore'
+      ? 'text-red-600 dark:text-red-400'
+      : 'text-surface-600 dark:text-surface-300'
+
+  return <span className={`font-mono text-xs ${color}`}>{text}</span>
+}
+
+function ChangeLabel({ change }: { change: SnapshotChange }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <p className="text-sm font-mono text-surface-900 dark:text-white truncate">{change.key}</p>
+      {change.packageName && change.kind !== 'package' && (
+        <p className="text-xs font-mono text-surface-500 truncate">{change.packageName}</p>
+      )}
+    </div>
+  )
+}
+
+function KindTabs({ changes, kind, onChange }: {
+  changes: SnapshotChange[]
+  kind: SnapshotChangeKind | 'all'
+  onChange: (kind: SnapshotChangeKind | 'all') => void
+}) {
+  const { t } = useTranslation()
+  const tabs: (SnapshotChangeKind | 'all')[] = ['all', ...KINDS]
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-3">
+      {tabs.map(tab => {
+        const count = tab === 'all' ? changes.length : changes.filter(c => c.kind === tab).length
+        return (
+          <button
+            key={tab}
+            onClick={() => onChange(tab)}
+            className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${kind === tab
+              ? 'bg-accent-500/10 text-accent-600 dark:text-accent-400'
+              : 'bg-surface-100 dark:bg-white/5 text-surface-600 dark:text-surface-400 hover:bg-surface-200 dark:hover:bg-white/10'
+              }`}
+          >
+            {tab === 'all' ? t('history.allActions') : t(`history.snapshots.kinds.${tab}`)} ({count})
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export function SnapshotsPanel() {
+  const { t, language } = useTranslation()
+  const showToast = useAppStore((state) => state.showToast)
+  const isConnected = useAdbStore((state) => state.isConnected)
+  const isDemoMode = useAdbStore((state) => state.isDemoMode)
+  const deviceInfo = useAdbStore((state) => state.deviceInfo)
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const serial = activeSerial ?? undefined
+  const canUseDevice = isConnected && !isDemoMode && !!deviceInfo
+
+  const [snapshots, setSnapshots] = useState<DeviceSnapshot[]>([])
+  const [label, setLabel] = useState('')
+  const [captureStage, setCaptureStage] = useState<SnapshotCaptureProgress['stage'] | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+
+  // Diff modal
+  const [diff, setDiff] = useState<{ from: string; to: string; changes: SnapshotChange[] } | null>(null)
+  const [diffKind, setDiffKind] = useState<SnapshotChangeKind | 'all'>('all')
+
+  // Rollback modal
+  const [rollbackTarget, setRollbackTarget] = useState<DeviceSnapshot | null>(null)
+  const [plan, setPlan] = useState<RollbackStep[] | null>(null)
+  const [planSelection, setPlanSelection] = useState<Set<string>>(new Set())
+  const [rollbackProgress, setRollbackProgress] = useState<{ done: number; total: number } | null>(null)
+  const [rollbackResults, setRollbackResults] = useState<RollbackStepResult[] | null>(null)
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots())
+    } catch (error) {
+      console.warn('Unable to read snapshots from IndexedDB:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSnapshots()
+  }, [loadSnapshots])
+
+  const captureLive = async (): Promise<DeviceStateData> => {
+    return captureDeviceState({
+      serial,
+      deviceSerial: deviceInfo?.serialNumber ?? serial ?? '',
+      deviceModel: deviceInfo ? `${deviceInfo.manufacturer} ${deviceInfo.model}` : '',
+      onProgress: (progress) => setCaptureStage(progress.stage),
+    })
+  }
+
+  const handleTakeSnapshot = async () => {
+    try {
+      const state = await captureLive()
+      await saveSnapshot(state, label)
+      setLabel('')
+      await loadSnapshots()
+      showToast({ type: 'success', title: t('history.snapshots.taken') })
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('history.snapshots.captureFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setCaptureStage(null)
+    }
+  }
+
+  const handleDelete = async (snapshot: DeviceSnapshot) => {
+    if (!confirm(t('history.snapshots.deleteConfirm', { label: snapshot.label }))) return
+    await deleteSnapshot(snapshot.id)
+    setSelected(prev => prev.filter(id => id !== snapshot.id))
+    await loadSnapshots()
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id)
+      ? prev.filter(s => s !== id)
+      : [...prev, id].slice(-2))
+  }
+
+  const openDiff = (from: DeviceStateData, to: DeviceStateData, fromLabel: string, toLabel: string) => {
+    setDiffKind('all')
+    setDiff({ from: fromLabel, to: toLabel, changes: diffDeviceStates(from, to) })
+  }
+
+  const handleCompareSelected = () => {
+    // Dal più vecchio al più recente
+    const pair = snapshots
+      .filter(s => selected.includes(s.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    if (pair.length !== 2) return
+    openDiff(pair[0], pair[1], pair[0].label, pair[1].label)
+  }
+
+  const handleCompareLive = async (snapshot: DeviceSnapshot) => {
+    try {
+      const live = await captureLive()
+      openDiff(snapshot, live, snapshot.label, t('history.snapshots.live'))
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('history.snapshots.captureFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setCaptureStage(null)
+    }
+  }
+
+  const handleOpenRollback = async (snapshot: DeviceSnapshot) => {
+    setRollbackTarget(snapshot)
+    setPlan(null)
+    setRollbackResults(null)
+    setRollbackProgress(null)
+    try {
+      const live = await captureLive()
+      const steps = buildRollbackPlan(live, snapshot)
+      setPlan(steps)
+      setPlanSelection(new Set(steps.filter(step => step.commands.length > 0).map(step => step.id)))
+    } catch (error) {
+      setRollbackTarget(null)
+      showToast({
+        type: 'error',
+        title: t('history.snapshots.captureFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setCaptureStage(null)
+    }
+  }
+
+  const handleExecuteRollback = async () => {
+    if (!plan) return
+    const steps = plan.filter(step => planSelection.has(step.id))
+    setRollbackProgress({ done: 0, total: steps.length })
+
+    const results = await executeRollbackPlan(steps, {
+      serial,
+      onProgress: (done, total) => setRollbackProgress({ done, total }),
+    })
+
+    setRollbackProgress(null)
+    setRollbackResults(results)
+
+    const failed = results.filter(r => !r.success).length
+    showToast({
+      type: failed > 0 ? 'warning' : 'success',
+      title: t('history.snapshots.rollbackDone'),
+      message: t('history.snapshots.rollbackResult', { success: results.length - failed, failed })
+    })
+  }
+
+  const closeRollback = () => {
+    if (rollbackProgress) return
+    setRollbackTarget(null)
+    setPlan(null)
+    setRollbackResults(null)
+  }
+
+  const visibleChanges = useMemo(() => {
+    if (!diff) return []
+    return diffKind === 'all' ? diff.changes : diff.changes.filter(c => c.kind === diffKind)
+  }, [diff, diffKind])
+
+  const isBusy = captureStage !== null
+  const currentSerial = deviceInfo?.serialNumber
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.12 }}
+      className="mb-8"
+    >
+      <Card variant="glass" padding="md">
+        <div className="flex items-start gap-4 mb-4">
+          <div className="p-2.5 rounded-xl bg-accent-500/10">
+            <Camera className="w-5 h-5 text-accent-500" strokeWidth={1.5} />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium text-surface-900 dark:text-white">
+              {t('history.snapshots.title')}
+            </p>
+            <p className="text-sm text-surface-500">
+              {t('history.snapshots.description')}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={t('history.snapshots.labelPlaceholder')}
+            disabled={!canUseDevice || isBusy}
+            className="flex-1 px-3 py-2 rounded-xl text-sm bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-surface-900 dark:text-white placeholder:text-surface-400 focus:outline-none focus:ring-2 focus:ring-accent-500/50 disabled:opacity-50"
+          />
+          <Button
+            size="sm"
+            icon={<Camera className="w-4 h-4" strokeWidth={1.5} />}
+            onClick={handleTakeSnapshot}
+            loading={isBusy && !rollbackTarget}
+            disabled={!canUseDevice || isBusy}
+          >
+            {t('history.snapshots.take')}
+          </Button>
+          {selected.length > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              icon={<GitCompare className="w-4 h-4" strokeWidth={1.5} />}
+              onClick={handleCompareSelected}
+              disabled={selected.length !== 2}
+            >
+              {t('history.snapshots.compareSelected', { count: selected.length })}
+            </Button>
+          )}
+        </div>
+
+        {captureStage && (
+          <p className="flex items-center gap-2 text-sm text-surface-500 mb-4">
+            <RefreshCw className="w-4 h-4 animate-spin" strokeWidth={1.5} />
+            {t(`history.snapshots.stages.${captureStage}`)}
+          </p>
+        )}
+
+        {!canUseDevice && (
+          <p className="text-xs text-surface-400 mb-4">{t('history.snapshots.connectDevice')}</p>
+        )}
+
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-surface-500 text-center py-6">{t('history.snapshots.empty')}</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshots.map(snapshot => {
+              const summary = summarizeState(snapshot)
+              const isCurrentDevice = canUseDevice && snapshot.deviceSerial === currentSerial
+
+              return (
+                <div
+                  key={snapshot.id}
+                  className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-xl bg-surface-50 dark:bg-white/5"
+                >
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(snapshot.id)}
+                      onChange={() => toggleSelected(snapshot.id)}
+                      className="mt-1 w-4 h-4 rounded border-surface-300 dark:border-surface-600 text-accent-500 focus:ring-accent-500 cursor-pointer dark:bg-surface-700"
+                    />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="font-medium text-surface-900 dark:text-white truncate">{snapshot.label}</p>
+                        <span className="text-xs text-surface-400">
+                          {new Date(snapshot.createdAt).toLocaleString(language)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-surface-500 flex items-center gap-1 mt-0.5">
+                        <Smartphone className="w-3 h-3" strokeWidth={1.5} />
+                        {snapshot.deviceModel || snapshot.deviceSerial}
+                        {!isCurrentDevice && canUseDevice && (
+                          <span className="pill-neutral text-[10px] ml-1">{t('history.snapshots.otherDevice')}</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-surface-400 mt-0.5">
+                        {t('history.snapshots.summary', summary)}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={<GitCompare className="w-4 h-4" strokeWidth={1.5} />}
+                      onClick={() => handleCompareLive(snapshot)}
+                      disabled={!isCurrentDevice || isBusy}
+                    >
+                      {t('history.snapshots.compareLive')}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      icon={<RotateCcw className="w-4 h-4" strokeWidth={1.5} />}
+                      onClick={() => handleOpenRollback(snapshot)}
+                      disabled={!isCurrentDevice || isBusy}
+                    >
+                      {t('history.snapshots.rollback')}
+                    </Button>
+                    <button
+                      onClick={() => handleDelete(snapshot)}
+                      className="p-2 rounded-lg text-surface-400 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                      title={t('history.snapshots.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </Card>
+
+      {/* Diff Modal */}
+      <Modal
+        isOpen={!!diff}
+        onClose={() => setDiff(null)}
+        title={t('history.snapshots.diffTitle')}
+        size="xl"
+      >
+        {diff && (
+          <>
+            <p className="text-sm text-surface-500 mb-3">
+              {t('history.snapshots.diffFromTo', { from: diff.from, to: diff.to })}
+              {' · '}
+              {t('history.snapshots.changesCount', { count: diff.changes.length })}
+            </p>
+
+            {diff.changes.length === 0 ? (
+              <p className="text-center text-surface-500 py-8">{t('history.snapshots.noChanges')}</p>
+            ) : (
+              <>
+                <KindTabs changes={diff.changes} kind={diffKind} onChange={setDiffKind} />
+                <div className="max-h-96 overflow-y-auto space-y-1 pr-1">
+                  {visibleChanges.map(change => (
+                    <div
+                      key={`${change.kind}-${change.packageName ?? ''}-${change.key}`}
+                      className="flex items-center gap-3 p-2 rounded-lg bg-surface-50 dark:bg-white/5"
+                    >
+                      <ChangeLabel change={change} />
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <ChangeValue change={change} value={change.before} />
+                        <ArrowRight className="w-3 h-3 text-surface-400" strokeWidth={1.5} />
+                        <ChangeValue change={change} value={change.after} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <ModalActions>
+              <Button variant="ghost" onClick={() => setDiff(null)}>
+                {t('common.close')}
+              </Button>
+            </ModalActions>
+          </>
+        )}
+      </Modal>
+
+      {/* Rollback Modal */}
+      <Modal
+        isOpen={!!rollbackTarget}
+        onClose={closeRollback}
+        title={t('history.snapshots.rollbackTitle')}
+        size="xl"
+      >
+        {!plan ? (
+          <div className="text-center py-8">
+            <RefreshCw className="w-8 h-8 mx-auto mb-3 text-accent-500 animate-spin" strokeWidth={1.5} />
+            <p className="text-sm text-surface-500">
+              {captureStage && t(`history.snapshots.stages.${captureStage}`)}
+            </p>
+          </div>
+        ) : rollbackResults ? (
+          <>
+            <div className="max-h-96 overflow-y-auto space-y-1 pr-1">
+              {rollbackResults.map(({ step, success, message }) => (
+                <div key={step.id} className="flex items-center gap-3 p-2 rounded-lg bg-surface-50 dark:bg-white/5">
+                  {success
+                    ? <CheckCircle2 className="w-4 h-4 text-emerald-500 flex-shrink-0" strokeWidth={2} />
+                    : <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" strokeWidth={2} />}
+                  <ChangeLabel change={step} />
+                  {!success && (
+                    <span className="text-xs text-red-500 truncate max-w-[40%]" title={message}>{message}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <ModalActions>
+              <Button onClick={closeRollback}>{t('common.close')}</Button>
+            </ModalActions>
+          </>
+        ) : plan.length === 0 ? (
+          <>
+            <p className="text-center text-surface-500 py-8">{t('history.snapshots.noChanges')}</p>
+            <ModalActions>
+              <Button variant="ghost" onClick={closeRollback}>{t('common.close')}</Button>
+            </ModalActions>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-surface-500 mb-1">
+              {t('history.snapshots.rollbackPlan', { count: plan.length, label: rollbackTarget?.label ?? '' })}
+            </p>
+            <p className="text-xs text-surface-400 mb-3">{t('history.snapshots.newPackagesKept')}</p>
+
+            <div className="max-h-96 overflow-y-auto space-y-1 pr-1">
+              {plan.map(step => {
+                const restorable = step.commands.length > 0
+                return (
+                  <label
+                    key={step.id}
+                    className={`flex items-start gap-3 p-2 rounded-lg bg-surface-50 dark:bg-white/5 ${restorable ? 'cursor-pointer' : 'opacity-60'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={planSelection.has(step.id)}
+                      disabled={!restorable || !!rollbackProgress}
+                      onChange={(e) => {
+                        const next = new Set(planSelection)
+                        if (e.target.checked) next.add(step.id)
+                        else next.delete(step.id)
+                        setPlanSelection(next)
+                      }}
+                      className="mt-1 w-4 h-4 rounded border-surface-300 dark:border-surface-600 text-accent-500 focus:ring-accent-500 dark:bg-surface-700"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-3">
+                        <ChangeLabel change={step} />
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <ChangeValue change={step} value={step.before} />
+                          <ArrowRight className="w-3 h-3 text-surface-400" strokeWidth={1.5} />
+                          <ChangeValue change={step} value={step.after} />
+                        </div>
+                      </div>
+                      {restorable ? (
+                        step.commands.map(command => (
+                          <p key={command} className="text-[11px] font-mono text-surface-400 truncate">$ {command}</p>
+                        ))
+                      ) : (
+                        <p className="text-[11px] text-amber-600 dark:text-amber-400">{t('history.snapshots.notRestorable')}</p>
+                      )}
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+
+            <ModalActions>
+              <Button variant="ghost" onClick={closeRollback} disabled={!!rollbackProgress}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                icon={<RotateCcw className="w-4 h-4" strokeWidth={1.5} />}
+                onClick={handleExecuteRollback}
+                loading={!!rollbackProgress}
+                disabled={planSelection.size === 0}
+              >
+                {rollbackProgress
+                  ? t('history.snapshots.executing', { done: rollbackProgress.done, total: rollbackProgress.total })
+                  : t('history.snapshots.execute', { count: planSelection.size })}
+              </Button>
+            </ModalActions>
+          </>
+        )}
+      </Modal>
+    </motion.div>
+  )
+}
@@ -29,12 +29,19 @@ import {
   Zap,
   BarChart3,
   Download,
-  Copy
+  Copy,
+  Plus,
+  Smartphone,
+  Wifi,
+  ScrollText,
+  FolderOpen,
+  KeyRound
 } from 'lucide-react'
 import { useAppStore, type Page } from '@/stores/appStore'
 import { useAdbStore } from '@/stores/adbStore'
 import { useAuthStore } from '@/stores/authStore'
 import { useAdb } from '@/hooks/useAdb'
+import { isNetworkSerial } from '@/services/adb-client'
 import { useTranslation } from '@/stores/i18nStore'
 import { SuggestImprovementModal } from './SuggestImprovementModal'
 
@@ -55,10 +62,13 @@ const navItems: NavItem[] = [
   { id: 'debloat-lists', labelKey: 'nav.debloatLists', icon: Users },
   { id: 'degoogle', labelKey: 'nav.degoogle', icon: Leaf },
   { id: 'privacy', labelKey: 'nav.privacy', icon: Shield },
+  { id: 'permissions', labelKey: 'nav.permissions', icon: KeyRound },
   { id: 'root-tools', labelKey: 'nav.rootTools', icon: Wrench },
   { id: 'shizuku', labelKey: 'nav.shizuku', icon: Zap },
   { id: 'apk-installer', labelKey: 'nav.apkInstaller', icon: Download },
   { id: 'app-cloner', labelKey: 'nav.appCloner', icon: Copy },
+  { id: 'file-manager', labelKey: 'nav.fileManager', icon: FolderOpen },
+  { id: 'logcat', labelKey: 'nav.logcat', icon: ScrollText },
   { id: 'admin-analytics', labelKey: 'nav.analytics', icon: BarChart3, requiresAuth: true },
   { id: 'history', labelKey: 'nav.history', icon: History, requiresAuth: true },
   { id: 'settings', labelKey: 'nav.settings', icon: Settings },
@@ -73,7 +83,12 @@ export function Sidebar({ onNavigate }: SidebarProps) {
   const setCurrentPage = useAppStore((state) => state.setCurrentPage)
   const isPremium = useAppStore((state) => state.isPremium)
   const deviceInfo = useAdbStore((state) => state.deviceInfo)
-  const { disconnect } = useAdb()
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const connectedSerials = useAdbStore((state) => state.connectedSerials)
+  const deviceSessions = useAdbStore((state) => state.deviceSessions)
+  const isDemoMode = useAdbStore((state) => state.isDemoMode)
+  const { connect, disconnect, switchDevice, switchToWifi } = useAdb()
+  const otherSerials = connectedSerials.filter(serial => serial !== activeSerial)
   const { t } = useTranslation()
 
   const { user, isAuthenticated, isAdmin, logout, setShowAuthModal } = useAuthStore()
@@ -215,6 +230,59 @@ export function Sidebar({ onNavigate }: SidebarProps) {
                   {deviceInfo.batteryLevel}%
                 </span>
               </div>
+
+              {/* Device switcher */}
+              {!isDemoMode && (
+                <div className="mt-3 pt-3 border-t border-surface-200/50 dark:border-white/5 space-y-1">
+                  {otherSerials.map((serial) => {
+                    const session = deviceSessions[serial]
+                    return (
+                      <div key={serial} className="flex items-center gap-2 group">
+                        <button
+                          onClick={() => {
+                            switchDevice(serial)
+                            onNavigate?.()
+                          }}
+                          className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs
+                          text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5"
+                        >
+                          {isNetworkSerial(serial)
+                            ? <Wifi className="w-3.5 h-3.5 shrink-0" strokeWidth={1.5} />
+                            : <Smartphone className="w-3.5 h-3.5 shrink-0" strokeWidth={1.5} />}
+                          <span className="truncate">{session?.deviceInfo?.model || serial}</span>
+                        </button>
+                        <button
+                          onClick={() => disconnect(serial)}
+                          title={t('adb.devices.disconnectDevice')}
+                          className="p-1.5 rounded-lg text-surface-400 hover:text-red-500 hover:bg-red-500/10
+                          opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <Unplug className="w-3.5 h-3.5" strokeWidth={1.5} />
+                        </button>
+                      </div>
+                    )
+                  })}
+                  {activeSerial && !isNetworkSerial(activeSerial) && (
+                    <button
+                      onClick={() => switchToWifi()}
+                      title={t('connect.network.switchToWifiHint')}
+                      className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs font-medium
+                      text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5"
+                    >
+                      <Wifi className="w-3.5 h-3.5" strokeWidth={1.5} />
+                      {t('connect.network.switchToWifi')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => connect()}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs font-medium
+                    text-accent-600 dark:text-accent-400 hover:bg-accent-500/10"
+                  >
+                    <Plus className="w-3.5 h-3.5" strokeWidth={1.5} />
+                    {t('adb.devices.addDevice')}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -323,7 +391,7 @@ export function Sidebar({ onNavigate }: SidebarProps) {
 
           {deviceInfo && (
             <motion.button
-              onClick={disconnect}
+              onClick={() => disconnect()}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl
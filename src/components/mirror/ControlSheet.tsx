@@ -5,6 +5,7 @@ import {
     Home,
     Layers,
     Volume2,
+    VolumeX,
     Plus,
     Minus,
     Power,
@@ -56,6 +57,14 @@ interface ControlSheetProps {
     onToggleWebcam?: () => void
     webcamShape?: 'rect' | 'circle' | 'square' | 'video'
     onToggleWebcamShape?: () => void
+    // Audio forwarding
+    isAudioEnabled?: boolean
+    onToggleAudio?: (enabled: boolean) => void
+    audioState?: 'playing' | 'unavailable' | null
+    isAudioMuted?: boolean
+    onToggleAudioMute?: () => void
+    audioVolume?: number
+    onAudioVolumeChange?: (volume: number) => void
 }
 
 export function ControlSheet({
@@ -87,7 +96,14 @@ export function ControlSheet({
     isWebcamVisible,
     onToggleWebcam,
     webcamShape,
-    onToggleWebcamShape
+    onToggleWebcamShape,
+    isAudioEnabled = false,
+    onToggleAudio,
+    audioState,
+    isAudioMuted = false,
+    onToggleAudioMute,
+    audioVolume = 1,
+    onAudioVolumeChange
 }: ControlSheetProps) {
     const { t } = useTranslation()
     const [isOpen, setIsOpen] = useState(false)
@@ -310,6 +326,57 @@ export function ControlSheet({
                                         />
                                     </div>
 
+                                    {/* Audio Forwarding */}
+                                    {onToggleAudio && (
+                                        <div className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-3">
+                                            <div className="flex items-center justify-between">
+                                                <div className="flex items-center gap-3">
+                                                    <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${isAudioEnabled ? 'bg-accent-500/20 text-accent-500' : 'bg-white/5 text-white/20'}`}>
+                                                        {isAudioEnabled && !isAudioMuted ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                                                    </div>
+                                                    <div>
+                                                        <p className="text-sm font-medium text-white">{t('screenMirror.audio.title')}</p>
+                                                        <p className="text-[10px] text-white/40">
+                                                            {isActive && isAudioEnabled && audioState === 'unavailable'
+                                                                ? t('screenMirror.audio.unavailable')
+                                                                : t('screenMirror.audio.desc')}
+                                                        </p>
+                                                    </div>
+                                                </div>
+                                                <Switch
+                                                    checked={isAudioEnabled}
+                                                    onChange={(val) => onToggleAudio(val)}
+                                                    disabled={isLoading || isAdapting}
+                                                    size="sm"
+                                                />
+                                            </div>
+
+                                            {isActive && isAudioEnabled && audioState === 'playing' && (
+                                                <div className="flex items-center gap-3">
+                                                    <button
+                                                        onClick={() => onToggleAudioMute?.()}
+                                                        className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                                                        title={isAudioMuted ? t('screenMirror.audio.unmute') : t('screenMirror.audio.mute')}
+                                                    >
+                                                        {isAudioMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                                                    </button>
+                                                    <input
+                                                        type="range"
+                                                        min={0}
+                                                        max={100}
+                                                        value={isAudioMuted ? 0 : Math.round(audioVolume * 100)}
+                                                        onChange={(e) => onAudioVolumeChange?.(Number(e.target.value) / 100)}
+                                                        className="flex-1 accent-accent-500"
+                                                        aria-label={t('screenMirror.audio.volume')}
+                                                    />
+                                                    <span className="w-10 text-right text-[10px] font-mono text-white/40">
+                                                        {isAudioMuted ? 0 : Math.round(audioVolume * 100)}%
+                                                    </span>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+
                                     {/* Quality Grid */}
                                     <div className="grid grid-cols-2 gap-2">
                                         {qualityPresets.map((preset) => (
@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef, type RefObject } from 'react'
+import { Plus, X, Check } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useTranslation } from '@/stores/i18nStore'
+import { getVideoRect } from '@/services/scrcpy-input'
+import { GAMEPAD_BUTTON_NAMES, type GamepadControl, type GamepadStick } from '@/services/scrcpy-gamepad'
+
+interface GamepadLayoutEditorProps {
+    canvasRef: RefObject<HTMLCanvasElement | null>
+    packageName: string
+    controls: GamepadControl[]
+    onSave: (controls: GamepadControl[]) => void
+    onClose: () => void
+}
+
+interface VideoBox {
+    left: number
+    top: number
+    width: number
+    height: number
+}
+
+const DEFAULT_STICK_RADIUS = 0.08
+const MIN_STICK_RADIUS = 0.02
+const MAX_STICK_RADIUS = 0.3
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Drawn over the mirror canvas: drag controls onto the game's on-screen
+ * buttons, scroll over a joystick to resize it.
+ */
+export function GamepadLayoutEditor({ canvasRef, packageName, controls, onSave, onClose }: GamepadLayoutEditorProps) {
+    const { t } = useTranslation()
+    const overlayRef = useRef<HTMLDivElement>(null)
+    const [draft, setDraft] = useState<GamepadControl[]>(controls)
+    const [box, setBox] = useState<VideoBox | null>(null)
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [newButton, setNewButton] = useState(0)
+    const draggingRef = useRef<string | null>(null)
+
+    // Video area relative to the overlay, which covers the whole canvas box
+    useEffect(() => {
+        const overlay = overlayRef.current
+        if (!overlay) return
+
+        const measure = () => {
+            const video = canvasRef.current && getVideoRect(canvasRef.current)
+            if (!video) return setBox(null)
+            const rect = overlay.getBoundingClientRect()
+            setBox({ left: video.left - rect.left, top: video.top - rect.top, width: video.width, height: video.height })
+        }
+
+        measure()
+        const observer = new ResizeObserver(measure)
+        observer.observe(overlay)
+        return () => observer.disconnect()
+    }, [canvasRef])
+
+    const updateControl = (id: string, update: (control: GamepadControl) => GamepadControl) => {
+        setDraft(prev => prev.map(control => control.id === id ? update(control) : control))
+    }
+
+    const addButton = () => {
+        const id = crypto.randomUUID()
+        setDraft(prev => [...prev, { id, type: 'button', button: newButton, x: 0.5, y: 0.5 }])
+        setSelectedId(id)
+    }
+
+    const addJoystick = (stick: GamepadStick) => {
+        const id = crypto.randomUUID()
+        setDraft(prev => [...prev, { id, type: 'joystick', stick, x: stick === 'left' ? 0.2 : 0.8, y: 0.7, radius: DEFAULT_STICK_RADIUS }])
+        setSelectedId(id)
+    }
+
+    const removeControl = (id: string) => {
+        setDraft(prev => prev.filter(control => control.id !== id))
+        setSelectedId(null)
+    }
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, id: string) => {
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        draggingRef.current = id
+        setSelectedId(id)
+    }
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const id = draggingRef.current
+        const overlay = overlayRef.current
+        if (!id || !box || !overlay) return
+        const rect = overlay.getBoundingClientRect()
+        const x = round(clamp01((e.clientX - rect.left - box.left) / box.width))
+        const y = round(clamp01((e.clientY - rect.top - box.top) / box.height))
+        updateControl(id, control => ({ ...control, x, y }))
+    }
+
+    const handlePointerUp = () => {
+        draggingRef.current = null
+    }
+
+    const handleWheel = (e: React.WheelEvent<HTMLDivElement>, control: GamepadControl) => {
+        if (control.type !== 'joystick') return
+        const radius = round(Math.max(MIN_STICK_RADIUS, Math.min(MAX_STICK_RADIUS, control.radius - e.deltaY * 0.0002)))
+        updateControl(control.id, current => ({ ...current, radius }))
+    }
+
+    return (
+        <div
+            ref={overlayRef}
+            className="absolute inset-0 z-20 bg-black/30"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerDown={() => setSelectedId(null)}
+        >
+            {box && draft.map(control => {
+                const isSelected = control.id === selectedId
+                const left = box.left + control.x * box.width
+                const top = box.top + control.y * box.height
+                const size = control.type === 'joystick'
+                    ? { width: control.radius * 2 * box.width, height: control.radius * 2 * box.height }
+                    : { width: 44, height: 44 }
+
+                return (
+                    <div
+                        key={control.id}
+                        onPointerDown={(e) => handlePointerDown(e, control.id)}
+                        onWheel={(e) => handleWheel(e, control)}
+                        className={`
+                            absolute flex items-center justify-center rounded-full cursor-move select-none touch-none
+                            text-xs font-bold text-white border-2 transition-colors
+                            ${control.type === 'joystick' ? 'bg-accent-500/20 border-dashed' : 'bg-accent-500/60'}
+                            ${isSelected ? 'border-white' : 'border-accent-500'}
+                        `}
+                        style={{ left, top, ...size, transform: 'translate(-50%, -50%)' }}
+                    >
+                        {control.type === 'joystick'
+                            ? t(control.stick === 'left' ? 'screenMirror.gamepad.leftStick' : 'screenMirror.gamepad.rightStick')
+                            : GAMEPAD_BUTTON_NAMES[control.button]}
+                        {isSelected && (
+                            <button
+                                onPointerDown={(e) => e.stopPropagation()}
+                                onClick={() => removeControl(control.id)}
+                                className="absolute -top-2 -right-2 p-0.5 rounded-full bg-red-500 text-white"
+                                title={t('common.remove')}
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                )
+            })}
+
+            <div
+                onPointerDown={(e) => e.stopPropagation()}
+                className="absolute top-3 left-1/2 -translate-x-1/2 flex items-center gap-2 flex-wrap justify-center p-2 rounded-xl bg-white/95 dark:bg-surface-900/95 shadow-elevated-lg max-w-[95%]"
+            >
+                <span className="px-2 text-xs font-mono text-surface-500 truncate max-w-[12rem]" title={packageName}>
+                    {packageName}
+                </span>
+                <select
+                    value={newButton}
+                    onChange={(e) => setNewButton(Number(e.target.value))}
+                    className="px-2 py-1.5 rounded-lg bg-white dark:bg-surface-800 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none"
+                >
+                    {GAMEPAD_BUTTON_NAMES.map((name, index) => (
+                        <option key={name} value={index}>{name}</option>
+                    ))}
+                </select>
+                <Button variant="secondary" size="sm" onClick={addButton} icon={<Plus className="w-4 h-4" />}>
+                    {t('screenMirror.gamepad.addButton')}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => addJoystick('left')} icon={<Plus className="w-4 h-4" />}>
+                    {t('screenMirror.gamepad.leftStick')}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => addJoystick('right')} icon={<Plus className="w-4 h-4" />}>
+                    {t('screenMirror.gamepad.rightStick')}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={onClose}>
+                    {t('common.cancel')}
+                </Button>
+                <Button variant="primary" size="sm" onClick={() => onSave(draft)} icon={<Check className="w-4 h-4" />}>
+                    {t('common.save')}
+                </Button>
+            </div>
+
+            <p className="absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/60 text-xs text-white whitespace-nowrap">
+                {t('screenMirror.gamepad.editHint')}
+            </p>
+        </div>
+    )
+}
@@ -0,0 +1,138 @@
+import { Gamepad2, RefreshCw, Pencil, Trash2 } from 'lucide-react'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Button } from '@/components/ui/Button'
+import { useTranslation } from '@/stores/i18nStore'
+import type { GamepadMode } from '@/services/scrcpy-gamepad'
+import type { ConnectedGamepad } from '@/hooks/useGamepad'
+
+interface GamepadModalProps {
+    isOpen: boolean
+    onClose: () => void
+    mode: GamepadMode
+    onModeChange: (mode: GamepadMode) => void
+    gamepads: ConnectedGamepad[]
+    isActive: boolean
+    packageName: string | null
+    onDetectPackage: () => void
+    controlCount: number
+    onEditLayout: () => void
+    onClearLayout: () => void
+}
+
+const MODES: GamepadMode[] = ['off', 'uhid', 'touch']
+
+export function GamepadModal({
+    isOpen,
+    onClose,
+    mode,
+    onModeChange,
+    gamepads,
+    isActive,
+    packageName,
+    onDetectPackage,
+    controlCount,
+    onEditLayout,
+    onClearLayout
+}: GamepadModalProps) {
+    const { t } = useTranslation()
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('screenMirror.gamepad.title')} size="lg">
+            <div className="space-y-4">
+                <p className="text-sm text-surface-500">{t('screenMirror.gamepad.description')}</p>
+
+                <div className="grid grid-cols-3 gap-2">
+                    {MODES.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onModeChange(option)}
+                            className={`
+                                p-3 rounded-xl border text-left transition-colors
+                                ${mode === option
+                                    ? 'border-accent-500 bg-accent-500/10'
+                                    : 'border-surface-200 dark:border-white/10 hover:bg-surface-100 dark:hover:bg-white/5'}
+                            `}
+                        >
+                            <p className="text-sm font-medium text-surface-900 dark:text-white">{t(`screenMirror.gamepad.modes.${option}`)}</p>
+                            <p className="text-xs text-surface-500 mt-0.5">{t(`screenMirror.gamepad.modes.${option}Desc`)}</p>
+                        </button>
+                    ))}
+                </div>
+
+                <div>
+                    <h4 className="text-xs font-semibold uppercase tracking-wider text-surface-500 mb-2">{t('screenMirror.gamepad.connected')}</h4>
+                    {gamepads.length === 0 ? (
+                        <div className="py-6 text-center text-surface-400">
+                            <Gamepad2 className="w-10 h-10 mx-auto mb-2 opacity-50" strokeWidth={1.5} />
+                            <p className="text-sm">{t('screenMirror.gamepad.empty')}</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {gamepads.map(pad => (
+                                <div key={pad.index} className="flex items-center gap-3 p-3 rounded-xl border border-surface-200 dark:border-white/10">
+                                    <Gamepad2 className="w-4 h-4 text-accent-500 flex-shrink-0" />
+                                    <p className="text-sm text-surface-900 dark:text-white truncate">{pad.name}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {mode === 'touch' && (
+                    <div className="p-3 rounded-xl bg-surface-100 dark:bg-white/5 space-y-3">
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="min-w-0">
+                                <p className="text-sm font-medium text-surface-900 dark:text-white">{t('screenMirror.gamepad.layout')}</p>
+                                <p className="text-xs text-surface-500 font-mono truncate">
+                                    {packageName ?? t('screenMirror.gamepad.noPackage')}
+                                </p>
+                            </div>
+                            <button
+                                onClick={onDetectPackage}
+                                disabled={!isActive}
+                                className="p-2 rounded-lg text-surface-400 hover:text-accent-500 hover:bg-accent-500/10 transition-colors disabled:opacity-50"
+                                title={t('screenMirror.gamepad.detect')}
+                            >
+                                <RefreshCw className="w-4 h-4" />
+                            </button>
+                        </div>
+                        {packageName && (
+                            <p className="text-xs text-surface-500">{t('screenMirror.gamepad.controls', { count: controlCount })}</p>
+                        )}
+                        <div className="flex items-center gap-2">
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={onEditLayout}
+                                disabled={!isActive || !packageName}
+                                icon={<Pencil className="w-4 h-4" />}
+                            >
+                                {t('screenMirror.gamepad.editLayout')}
+                            </Button>
+                            {controlCount > 0 && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={onClearLayout}
+                                    icon={<Trash2 className="w-4 h-4" />}
+                                >
+                                    {t('screenMirror.gamepad.clearLayout')}
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {mode === 'uhid' && (
+                    <p className="text-xs text-surface-400">{t('screenMirror.gamepad.uhidHint')}</p>
+                )}
+            </div>
+
+            <ModalActions>
+                <Button variant="primary" onClick={onClose}>
+                    {t('common.close')}
+                </Button>
+            </ModalActions>
+        </Modal>
+    )
+}
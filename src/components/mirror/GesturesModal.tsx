@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from 'react'
+import { Hand, Play, Square, Trash2, Circle } from 'lucide-react'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { useTranslation } from '@/stores/i18nStore'
+import type { TouchGesture } from '@/services/touch-gestures'
+
+interface GesturesModalProps {
+    isOpen: boolean
+    onClose: () => void
+    gestures: TouchGesture[]
+    pendingGesture: TouchGesture | null
+    replayingId: string | null
+    canReplay: boolean
+    onRecord: () => void
+    onReplay: (gesture: TouchGesture) => void
+    onStopReplay: () => void
+    onDelete: (id: string) => void
+    onSavePending: (name: string) => void
+    onDiscardPending: () => void
+}
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+export function GesturesModal({
+    isOpen,
+    onClose,
+    gestures,
+    pendingGesture,
+    replayingId,
+    canReplay,
+    onRecord,
+    onReplay,
+    onStopReplay,
+    onDelete,
+    onSavePending,
+    onDiscardPending
+}: GesturesModalProps) {
+    const { t } = useTranslation()
+    const [name, setName] = useState('')
+
+    // Only a new pending gesture resets the name, not list or language changes
+    const defaultNameRef = useRef('')
+    defaultNameRef.current = t('screenMirror.gestures.defaultName', { n: gestures.length + 1 })
+
+    useEffect(() => {
+        if (pendingGesture) setName(defaultNameRef.current)
+    }, [pendingGesture])
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('screenMirror.gestures.title')} size="lg">
+            {pendingGesture ? (
+                <div className="space-y-4">
+                    <p className="text-sm text-surface-500">
+                        {t('screenMirror.gestures.recorded', {
+                            events: pendingGesture.events.length,
+                            fingers: pendingGesture.fingers,
+                            duration: formatDuration(pendingGesture.duration)
+                        })}
+                    </p>
+                    <Input
+                        label={t('screenMirror.gestures.name')}
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') onSavePending(name) }}
+                        autoFocus
+                    />
+                    <ModalActions>
+                        <Button variant="ghost" onClick={onDiscardPending}>
+                            {t('screenMirror.gestures.discard')}
+                        </Button>
+                        <Button variant="primary" onClick={() => onSavePending(name)}>
+                            {t('common.save')}
+                        </Button>
+                    </ModalActions>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <p className="text-sm text-surface-500">{t('screenMirror.gestures.description')}</p>
+
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
+                        {gestures.length === 0 && (
+                            <div className="py-8 text-center text-surface-400">
+                                <Hand className="w-10 h-10 mx-auto mb-2 opacity-50" strokeWidth={1.5} />
+                                <p className="text-sm">{t('screenMirror.gestures.empty')}</p>
+                            </div>
+                        )}
+                        {gestures.map(gesture => (
+                            <div key={gesture.id} className="flex items-center gap-3 p-3 rounded-xl border border-surface-200 dark:border-white/10">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-surface-900 dark:text-white truncate">{gesture.name}</p>
+                                    <p className="text-xs text-surface-500">
+                                        {t('screenMirror.gestures.summary', {
+                                            fingers: gesture.fingers,
+                                            duration: formatDuration(gesture.duration)
+                                        })}
+                                    </p>
+                                </div>
+                                {replayingId === gesture.id ? (
+                                    <Button variant="secondary" size="sm" onClick={onStopReplay} icon={<Square className="w-4 h-4" />}>
+                                        {t('screenMirror.stop')}
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => onReplay(gesture)}
+                                        disabled={!canReplay || replayingId !== null}
+                                        icon={<Play className="w-4 h-4" />}
+                                    >
+                                        {t('screenMirror.gestures.replay')}
+                                    </Button>
+                                )}
+                                <button
+                                    onClick={() => onDelete(gesture.id)}
+                                    className="p-2 rounded-lg text-surface-400 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                                    title={t('common.delete')}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <ModalActions>
+                        <Button
+                            variant="primary"
+                            onClick={onRecord}
+                            disabled={!canReplay}
+                            icon={<Circle className="w-4 h-4 fill-current" />}
+                        >
+                            {t('screenMirror.gestures.record')}
+                        </Button>
+                    </ModalActions>
+                </div>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react'
+import { Keyboard, Plus, X, RotateCcw } from 'lucide-react'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Button } from '@/components/ui/Button'
+import { Switch } from '@/components/ui/Switch'
+import { useTranslation } from '@/stores/i18nStore'
+import {
+    ANDROID_KEY_OPTIONS,
+    DEFAULT_KEY_PROFILE,
+    resolveKeyCode,
+    type KeyMappingProfile
+} from '@/services/scrcpy-input'
+
+interface KeyMappingModalProps {
+    isOpen: boolean
+    onClose: () => void
+    profile: KeyMappingProfile
+    onSave: (profile: KeyMappingProfile) => void
+    deviceName?: string
+}
+
+export function KeyMappingModal({ isOpen, onClose, profile, onSave, deviceName }: KeyMappingModalProps) {
+    const { t } = useTranslation()
+    const [draft, setDraft] = useState<KeyMappingProfile>(profile)
+    const [isCapturing, setIsCapturing] = useState(false)
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(profile)
+            setIsCapturing(false)
+        }
+    }, [isOpen, profile])
+
+    // Capture phase on window: runs before the Modal's Escape handler
+    useEffect(() => {
+        if (!isCapturing) return
+
+        const handleKey = (e: KeyboardEvent) => {
+            e.preventDefault()
+            e.stopPropagation()
+            setDraft(prev => ({
+                ...prev,
+                overrides: {
+                    ...prev.overrides,
+                    [e.code]: prev.overrides[e.code] ?? resolveKeyCode(e.code, DEFAULT_KEY_PROFILE) ?? 0
+                }
+            }))
+            setIsCapturing(false)
+        }
+
+        window.addEventListener('keydown', handleKey, true)
+        return () => window.removeEventListener('keydown', handleKey, true)
+    }, [isCapturing])
+
+    const setOverride = (code: string, keyCode: number) => {
+        setDraft(prev => ({ ...prev, overrides: { ...prev.overrides, [code]: keyCode } }))
+    }
+
+    const removeOverride = (code: string) => {
+        setDraft(prev => {
+            const overrides = { ...prev.overrides }
+            delete overrides[code]
+            return { ...prev, overrides }
+        })
+    }
+
+    const codes = Object.keys(draft.overrides).sort()
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('screenMirror.keys.title')} size="lg">
+            <div className="space-y-4">
+                <p className="text-sm text-surface-500">
+                    {t('screenMirror.keys.description', { device: deviceName || t('screenMirror.keys.thisDevice') })}
+                </p>
+
+                <div className="flex items-center justify-between p-3 rounded-xl bg-surface-100 dark:bg-white/5">
+                    <div>
+                        <p className="text-sm font-medium text-surface-900 dark:text-white">{t('screenMirror.keys.textInjection')}</p>
+                        <p className="text-xs text-surface-500">{t('screenMirror.keys.textInjectionDesc')}</p>
+                    </div>
+                    <Switch
+                        checked={draft.textInjection}
+                        onChange={(checked) => setDraft(prev => ({ ...prev, textInjection: checked }))}
+                        size="sm"
+                    />
+                </div>
+
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-xs font-semibold uppercase tracking-wider text-surface-500">{t('screenMirror.keys.overrides')}</h4>
+                        <button
+                            onClick={() => setDraft({ ...DEFAULT_KEY_PROFILE, overrides: { ...DEFAULT_KEY_PROFILE.overrides } })}
+                            className="flex items-center gap-1 text-xs text-surface-500 hover:text-accent-500 transition-colors"
+                        >
+                            <RotateCcw className="w-3 h-3" />
+                            {t('screenMirror.keys.reset')}
+                        </button>
+                    </div>
+
+                    <div className="space-y-2 max-h-72 overflow-y-auto">
+                        {codes.length === 0 && (
+                            <p className="text-sm text-surface-400 py-4 text-center">{t('screenMirror.keys.empty')}</p>
+                        )}
+                        {codes.map(code => (
+                            <div key={code} className="flex items-center gap-3 p-2 rounded-xl border border-surface-200 dark:border-white/10">
+                                <kbd className="min-w-[7rem] px-2 py-1 rounded-lg bg-surface-100 dark:bg-white/10 text-xs font-mono text-surface-700 dark:text-surface-200">
+                                    {code}
+                                </kbd>
+                                <span className="text-surface-400">→</span>
+                                <select
+                                    value={draft.overrides[code]}
+                                    onChange={(e) => setOverride(code, Number(e.target.value))}
+                                    className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-white dark:bg-surface-800 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none"
+                                >
+                                    <option value={0}>{t('screenMirror.keys.ignored')}</option>
+                                    {ANDROID_KEY_OPTIONS.map(option => (
+                                        <option key={option.name} value={option.keyCode}>
+                                            {option.name} ({option.keyCode})
+                                        </option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => removeOverride(code)}
+                                    className="p-1.5 rounded-lg text-surface-400 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                                    title={t('common.remove')}
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        className="mt-3"
+                        onClick={() => setIsCapturing(!isCapturing)}
+                        icon={isCapturing ? <Keyboard className="w-4 h-4 animate-pulse text-accent-500" /> : <Plus className="w-4 h-4" />}
+                    >
+                        {isCapturing ? t('screenMirror.keys.pressKey') : t('screenMirror.keys.add')}
+                    </Button>
+                </div>
+
+                <p className="text-xs text-surface-400">{t('screenMirror.keys.mouseHint')}</p>
+            </div>
+
+            <ModalActions>
+                <Button variant="ghost" onClick={onClose}>
+                    {t('common.cancel')}
+                </Button>
+                <Button variant="primary" onClick={() => { onSave(draft); onClose() }}>
+                    {t('common.save')}
+                </Button>
+            </ModalActions>
+        </Modal>
+    )
+}
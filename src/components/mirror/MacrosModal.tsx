@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef } from 'react'
+import { ListVideo, Play, Square, Trash2, Circle, Download, Upload } from 'lucide-react'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { useTranslation } from '@/stores/i18nStore'
+import { countMacroEvents, type InputMacro, type MacroReplayMethod } from '@/services/input-macros'
+import type { MacroReplaySettings, MacroReplayState } from '@/hooks/useInputMacros'
+
+interface MacrosModalProps {
+    isOpen: boolean
+    onClose: () => void
+    macros: InputMacro[]
+    pendingMacro: InputMacro | null
+    replayState: MacroReplayState | null
+    isActive: boolean
+    onRecord: () => void
+    onReplay: (macro: InputMacro, settings: MacroReplaySettings) => void
+    onStopReplay: () => void
+    onDelete: (id: string) => void
+    onExport: (macro: InputMacro) => void
+    onExportAll: () => void
+    onImport: (file: File) => void
+    onSavePending: (name: string) => void
+    onDiscardPending: () => void
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4]
+const METHODS: MacroReplayMethod[] = ['scrcpy', 'shell']
+const MAX_LOOPS = 999
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+export function MacrosModal({
+    isOpen,
+    onClose,
+    macros,
+    pendingMacro,
+    replayState,
+    isActive,
+    onRecord,
+    onReplay,
+    onStopReplay,
+    onDelete,
+    onExport,
+    onExportAll,
+    onImport,
+    onSavePending,
+    onDiscardPending
+}: MacrosModalProps) {
+    const { t } = useTranslation()
+    const [name, setName] = useState('')
+    const [settings, setSettings] = useState<MacroReplaySettings>({ method: 'scrcpy', speed: 1, loops: 1 })
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    // Only a new pending macro resets the name, not list or language changes
+    const defaultNameRef = useRef('')
+    defaultNameRef.current = t('screenMirror.macros.defaultName', { n: macros.length + 1 })
+
+    useEffect(() => {
+        if (pendingMacro) setName(defaultNameRef.current)
+    }, [pendingMacro])
+
+    // Shell replay doesn't need the mirror
+    const canReplay = settings.method === 'shell' || isActive
+
+    const renderSummary = (macro: InputMacro) => {
+        const counts = countMacroEvents(macro)
+        return t('screenMirror.macros.summary', {
+            touches: counts.touches,
+            keys: counts.keys,
+            texts: counts.texts,
+            duration: formatDuration(macro.duration),
+            screen: `${macro.screen.width}×${macro.screen.height}`
+        })
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('screenMirror.macros.title')} size="lg">
+            {pendingMacro ? (
+                <div className="space-y-4">
+                    <p className="text-sm text-surface-500">{renderSummary(pendingMacro)}</p>
+                    <Input
+                        label={t('screenMirror.macros.name')}
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') onSavePending(name) }}
+                        autoFocus
+                    />
+                    <ModalActions>
+                        <Button variant="ghost" onClick={onDiscardPending}>
+                            {t('screenMirror.macros.discard')}
+                        </Button>
+                        <Button variant="primary" onClick={() => onSavePending(name)}>
+                            {t('common.save')}
+                        </Button>
+                    </ModalActions>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <p className="text-sm text-surface-500">{t('screenMirror.macros.description')}</p>
+
+                    <div className="flex items-end gap-3 flex-wrap p-3 rounded-xl bg-surface-100 dark:bg-white/5">
+                        <div>
+                            <p className="text-xs font-medium text-surface-500 mb-1">{t('screenMirror.macros.method')}</p>
+                            <div className="flex rounded-lg border border-surface-200 dark:border-white/10 overflow-hidden">
+                                {METHODS.map(method => (
+                                    <button
+                                        key={method}
+                                        onClick={() => setSettings(prev => ({ ...prev, method }))}
+                                        className={`
+                                            px-3 py-1.5 text-sm transition-colors
+                                            ${settings.method === method
+                                                ? 'bg-accent-500 text-white'
+                                                : 'text-surface-600 dark:text-surface-300 hover:bg-surface-200 dark:hover:bg-white/10'}
+                                        `}
+                                    >
+                                        {t(`screenMirror.macros.methods.${method}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="block">
+                            <span className="block text-xs font-medium text-surface-500 mb-1">{t('screenMirror.macros.speed')}</span>
+                            <select
+                                value={settings.speed}
+                                onChange={(e) => setSettings(prev => ({ ...prev, speed: Number(e.target.value) }))}
+                                className="px-2 py-1.5 rounded-lg bg-white dark:bg-surface-800 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none"
+                            >
+                                {SPEEDS.map(speed => (
+                                    <option key={speed} value={speed}>{speed}×</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs font-medium text-surface-500 mb-1">{t('screenMirror.macros.loops')}</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_LOOPS}
+                                value={settings.loops}
+                                onChange={(e) => {
+                                    const loops = Math.max(1, Math.min(MAX_LOOPS, Math.floor(Number(e.target.value)) || 1))
+                                    setSettings(prev => ({ ...prev, loops }))
+                                }}
+                                className="w-20 px-2 py-1.5 rounded-lg bg-white dark:bg-surface-800 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none"
+                            />
+                        </label>
+                    </div>
+                    {settings.method === 'shell' && (
+                        <p className="text-xs text-surface-400">{t('screenMirror.macros.shellHint')}</p>
+                    )}
+
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
+                        {macros.length === 0 && (
+                            <div className="py-8 text-center text-surface-400">
+                                <ListVideo className="w-10 h-10 mx-auto mb-2 opacity-50" strokeWidth={1.5} />
+                                <p className="text-sm">{t('screenMirror.macros.empty')}</p>
+                            </div>
+                        )}
+                        {macros.map(macro => (
+                            <div key={macro.id} className="flex items-center gap-3 p-3 rounded-xl border border-surface-200 dark:border-white/10">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-surface-900 dark:text-white truncate">{macro.name}</p>
+                                    <p className="text-xs text-surface-500 truncate">{renderSummary(macro)}</p>
+                                </div>
+                                {replayState?.id === macro.id ? (
+                                    <Button variant="secondary" size="sm" onClick={onStopReplay} icon={<Square className="w-4 h-4" />}>
+                                        {replayState.loops > 1
+                                            ? t('screenMirror.macros.stopLoop', { loop: replayState.loop, loops: replayState.loops })
+                                            : t('screenMirror.stop')}
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => onReplay(macro, settings)}
+                                        disabled={!canReplay || replayState !== null}
+                                        icon={<Play className="w-4 h-4" />}
+                                    >
+                                        {t('screenMirror.macros.replay')}
+                                    </Button>
+                                )}
+                                <button
+                                    onClick={() => onExport(macro)}
+                                    className="p-2 rounded-lg text-surface-400 hover:text-accent-500 hover:bg-accent-500/10 transition-colors"
+                                    title={t('screenMirror.macros.export')}
+                                >
+                                    <Download className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => onDelete(macro.id)}
+                                    className="p-2 rounded-lg text-surface-400 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                                    title={t('common.delete')}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            if (file) onImport(file)
+                            e.target.value = ''
+                        }}
+                    />
+
+                    <ModalActions>
+                        <Button
+                            variant="ghost"
+                            onClick={() => fileInputRef.current?.click()}
+                            icon={<Upload className="w-4 h-4" />}
+                        >
+                            {t('screenMirror.macros.import')}
+                        </Button>
+                        {macros.length > 0 && (
+                            <Button variant="ghost" onClick={onExportAll} icon={<Download className="w-4 h-4" />}>
+                                {t('screenMirror.macros.exportAll')}
+                            </Button>
+                        )}
+                        <Button
+                            variant="primary"
+                            onClick={onRecord}
+                            disabled={!isActive}
+                            icon={<Circle className="w-4 h-4 fill-current" />}
+                        >
+                            {t('screenMirror.macros.record')}
+                        </Button>
+                    </ModalActions>
+                </div>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,315 @@
+/**
+ * Network Blocker Panel
+ * Blocco rete per singola app: dati in background via netpolicy (senza root),
+ * Wi-Fi e rete mobile via iptables (root). Le regole finiscono in un profilo
+ * locale riapplicabile dopo un riavvio.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  WifiOff,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  AlertTriangle
+} from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Switch } from '@/components/ui/Switch'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { getCachedLabel } from '@/services/app-icons'
+import {
+  applyNetworkProfile,
+  getProfileDrift,
+  loadNetworkProfile,
+  readNetworkStatus,
+  saveNetworkProfile,
+  setDataSaver,
+  setFirewallRule,
+  setRestrictBackground,
+  withProfileRule,
+  type AppNetworkState,
+  type NetworkProfile,
+  type NetworkRule,
+  type NetworkStatus
+} from '@/services/network-blocker'
+
+type RuleField = keyof NetworkRule
+
+const RULE_FIELDS: RuleField[] = ['restrictBackground', 'blockWifi', 'blockMobile']
+
+export function NetworkBlockerPanel() {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const isRooted = useAdbStore((state) => !!state.deviceInfo?.isRooted)
+  const isDemoMode = useAdbStore((state) => state.isDemoMode)
+  const addCommandLog = useAdbStore((state) => state.addCommandLog)
+  const showToast = useAppStore((state) => state.showToast)
+
+  const [status, setStatus] = useState<NetworkStatus | null>(null)
+  const [profile, setProfile] = useState<NetworkProfile>(() => loadNetworkProfile())
+  const [refreshing, setRefreshing] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [showSystem, setShowSystem] = useState(false)
+
+  const serial = activeSerial ?? undefined
+
+  const loadStatus = useCallback(async () => {
+    setRefreshing(true)
+    try {
+      setStatus(await readNetworkStatus(serial, isRooted))
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('networkBlocker.loadFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setRefreshing(false)
+    }
+  }, [serial, isRooted, showToast, t])
+
+  useEffect(() => {
+    if (isDemoMode) return
+    loadStatus()
+  }, [isDemoMode, loadStatus])
+
+  const updateProfile = (next: NetworkProfile) => {
+    saveNetworkProfile(next)
+    setProfile(next)
+  }
+
+  const firewallAvailable = !!status?.firewallAvailable
+  const drift = status ? getProfileDrift(profile, status, firewallAvailable) : []
+  const ruleCount = Object.keys(profile.rules).length
+
+  // Apps with a rule first, so the profile is visible at a glance
+  const visibleApps = useMemo(() => {
+    if (!status) return []
+    const query = search.trim().toLowerCase()
+    return status.apps
+      .filter(app => showSystem || !app.isSystem || profile.rules[app.packageName])
+      .filter(app => !query
+        || app.packageName.toLowerCase().includes(query)
+        || (getCachedLabel(app.packageName) ?? '').toLowerCase().includes(query))
+      .sort((a, b) => Number(!!profile.rules[b.packageName]) - Number(!!profile.rules[a.packageName]))
+  }, [status, search, showSystem, profile])
+
+  const toggleDataSaver = async (enabled: boolean) => {
+    setBusy('data-saver')
+    const result = await setDataSaver(enabled, serial)
+    setBusy(null)
+    if (result.exitCode !== 0) {
+      showToast({ type: 'error', title: t('networkBlocker.changeFailed'), message: result.stderr || result.stdout })
+      return
+    }
+    setStatus(prev => prev && { ...prev, dataSaver: enabled })
+    updateProfile({ ...profile, dataSaver: enabled, updatedAt: new Date().toISOString() })
+  }
+
+  const toggleRule = async (app: AppNetworkState, field: RuleField, value: boolean) => {
+    const rule: NetworkRule = {
+      restrictBackground: app.restrictBackground,
+      blockWifi: app.blockWifi,
+      blockMobile: app.blockMobile,
+      [field]: value,
+    }
+    setBusy(`${app.packageName}:${field}`)
+
+    try {
+      const result = field === 'restrictBackground'
+        ? await setRestrictBackground(app.uid, value, serial)
+        : await setFirewallRule(app.uid, rule, serial)
+
+      addCommandLog({
+        command: field === 'restrictBackground'
+          ? `cmd netpolicy ${value ? 'add' : 'remove'} restrict-background-blacklist ${app.uid}`
+          : `iptables ${value ? '-A' : '-D'} uid ${app.uid} (${field === 'blockWifi' ? 'wifi' : 'mobile'})`,
+        result: result.exitCode === 0 ? 'success' : 'error',
+        message: result.exitCode === 0
+          ? t(`networkBlocker.fields.${field}`) + ` · ${app.packageName}`
+          : (result.stderr || result.stdout).trim(),
+      })
+
+      if (result.exitCode !== 0) {
+        showToast({ type: 'error', title: t('networkBlocker.changeFailed'), message: (result.stderr || result.stdout).trim() })
+        return
+      }
+
+      // Apps sharing the UID are affected too
+      setStatus(prev => prev && {
+        ...prev,
+        apps: prev.apps.map(item => item.uid === app.uid ? { ...item, [field]: value } : item),
+      })
+      updateProfile(withProfileRule(profile, app.packageName, rule))
+    } catch (error) {
+      showToast({ type: 'error', title: t('networkBlocker.changeFailed'), message: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const reapplyProfile = async () => {
+    if (!status) return
+    setApplying(true)
+    try {
+      const result = await applyNetworkProfile(profile, status, { serial, useFirewall: firewallAvailable })
+      addCommandLog({
+        command: 'network profile',
+        result: result.errors.length === 0 ? 'success' : 'error',
+        message: result.errors.length === 0
+          ? t('networkBlocker.profileApplied', { count: result.applied })
+          : result.errors.join('\n'),
+      })
+      showToast({
+        type: result.errors.length === 0 ? 'success' : 'warning',
+        title: t('networkBlocker.profileApplied', { count: result.applied }),
+        message: result.missing.length > 0
+          ? t('networkBlocker.profileMissing', { count: result.missing.length })
+          : result.errors[0]
+      })
+      await loadStatus()
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  if (isDemoMode) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+      className="mt-8"
+    >
+      <Card variant="glass" padding="lg">
+        <div className="flex items-start gap-4 mb-4">
+          <div className="p-3 rounded-xl bg-orange-500/10">
+            <WifiOff className="w-6 h-6 text-orange-500" strokeWidth={1.5} />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-semibold text-surface-900 dark:text-white mb-1">
+              {t('networkBlocker.title')}
+            </h3>
+            <p className="text-sm text-surface-500">{t('networkBlocker.description')}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadStatus}
+            loading={refreshing}
+            icon={<RefreshCw className="w-4 h-4" strokeWidth={1.5} />}
+          >
+            {t('privacyTools.refresh')}
+          </Button>
+        </div>
+
+        {/* Data saver */}
+        <div className="flex items-center justify-between gap-4 p-3 rounded-xl bg-surface-50 dark:bg-white/5 mb-3">
+          <div>
+            <p className="text-sm font-medium text-surface-900 dark:text-white">{t('networkBlocker.dataSaver')}</p>
+            <p className="text-xs text-surface-500">{t('networkBlocker.dataSaverDesc')}</p>
+          </div>
+          <Switch
+            checked={!!status?.dataSaver}
+            onChange={toggleDataSaver}
+            loading={busy === 'data-saver'}
+            disabled={!status}
+          />
+        </div>
+
+        {/* Profile */}
+        <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-xl border border-surface-200 dark:border-white/10 mb-3">
+          <div className="flex items-start gap-2">
+            {drift.length > 0 && <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 shrink-0" strokeWidth={1.5} />}
+            <p className="text-sm text-surface-600 dark:text-surface-400">
+              {drift.length > 0
+                ? t('networkBlocker.profileDrift', { count: drift.length })
+                : t('networkBlocker.profileSummary', { count: ruleCount })}
+            </p>
+          </div>
+          <Button
+            variant={drift.length > 0 ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={reapplyProfile}
+            loading={applying}
+            disabled={!status || (ruleCount === 0 && profile.dataSaver === null)}
+            icon={<RotateCcw className="w-4 h-4" strokeWidth={1.5} />}
+          >
+            {t('networkBlocker.reapply')}
+          </Button>
+        </div>
+
+        {!firewallAvailable && status && (
+          <p className="text-xs text-amber-500 mb-3">
+            {isRooted ? t('networkBlocker.firewallUnavailable') : t('networkBlocker.rootRequired')}
+          </p>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3 mb-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-surface-400" strokeWidth={1.5} />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('networkBlocker.searchPlaceholder')}
+              className="w-full pl-9 pr-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none focus:border-accent-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-surface-500">
+            {t('networkBlocker.showSystem')}
+            <Switch checked={showSystem} onChange={setShowSystem} size="sm" />
+          </label>
+        </div>
+
+        {/* Apps */}
+        <div className="rounded-xl border border-surface-200 dark:border-white/10 overflow-hidden">
+          <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 px-3 py-2 bg-surface-50 dark:bg-white/5 text-[11px] font-semibold text-surface-500">
+            <span>{t('networkBlocker.app')}</span>
+            {RULE_FIELDS.map(field => (
+              <span key={field} className="text-center" title={t(`networkBlocker.fieldHints.${field}`)}>
+                {t(`networkBlocker.fields.${field}`)}
+              </span>
+            ))}
+          </div>
+          <div className="max-h-[26rem] overflow-y-auto divide-y divide-surface-100 dark:divide-white/5">
+            {visibleApps.length === 0 ? (
+              <p className="px-3 py-8 text-center text-sm text-surface-400">
+                {refreshing ? t('networkBlocker.loading') : t('networkBlocker.noApps')}
+              </p>
+            ) : visibleApps.map(app => (
+              <div key={app.packageName} className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 items-center px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-surface-900 dark:text-white truncate">
+                    {getCachedLabel(app.packageName) || app.packageName}
+                  </p>
+                  <p className="text-[11px] text-surface-500 font-mono truncate">
+                    {app.packageName} · uid {app.uid}
+                  </p>
+                </div>
+                {RULE_FIELDS.map(field => (
+                  <div key={field} className="flex justify-center">
+                    <Switch
+                      checked={app[field]}
+                      onChange={(value) => toggleRule(app, field, value)}
+                      loading={busy === `${app.packageName}:${field}`}
+                      disabled={field !== 'restrictBackground' && !firewallAvailable}
+                      size="sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  )
+}
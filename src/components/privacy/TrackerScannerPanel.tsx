@@ -0,0 +1,304 @@
+/**
+ * Tracker Scanner Panel
+ * Scansione offline delle app utente contro il dataset dei tracker incluso,
+ * con report per app ed esportazione JSON/CSV
+ */
+
+import { useMemo, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  ScanSearch,
+  FileJson,
+  FileText,
+  Square,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle
+} from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Switch } from '@/components/ui/Switch'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { getCachedLabel } from '@/services/app-icons'
+import { downloadCsv } from '@/services/csv-service'
+import {
+  isReportOutdated,
+  listUserApps,
+  loadTrackerReports,
+  saveTrackerReports,
+  scanApps,
+  trackerReportsToCsv,
+  trackerReportsToJson,
+  type AppTrackerReport,
+  type TrackerScanMode,
+  type TrackerScanProgress
+} from '@/services/tracker-scanner'
+import { TRACKER_DATASET_VERSION, TRACKER_SIGNATURES } from '@/data/tracker-signatures'
+
+function downloadJson(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export function TrackerScannerPanel() {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const deviceInfo = useAdbStore((state) => state.deviceInfo)
+  const isDemoMode = useAdbStore((state) => state.isDemoMode)
+  const addCommandLog = useAdbStore((state) => state.addCommandLog)
+  const showToast = useAppStore((state) => state.showToast)
+
+  const [reports, setReports] = useState<Record<string, AppTrackerReport>>(() => loadTrackerReports())
+  const [mode, setMode] = useState<TrackerScanMode>('dex')
+  const [progress, setProgress] = useState<TrackerScanProgress | null>(null)
+  const [onlyWithTrackers, setOnlyWithTrackers] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const allReports = useMemo(
+    () => Object.values(reports).sort((a, b) => b.trackers.length - a.trackers.length || a.packageName.localeCompare(b.packageName)),
+    [reports]
+  )
+  const visibleReports = onlyWithTrackers ? allReports.filter(report => report.trackers.length > 0) : allReports
+  const appsWithTrackers = allReports.filter(report => report.trackers.length > 0).length
+  const distinctTrackers = new Set(allReports.flatMap(report => report.trackers.map(tracker => tracker.trackerId))).size
+
+  const startScan = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    const serial = activeSerial ?? undefined
+    let scanned = 0
+
+    try {
+      const apps = await listUserApps(serial)
+      setProgress({ index: 0, count: apps.length, packageName: '', stage: 'parsing', fileProgress: 0 })
+
+      await scanApps(apps, mode, {
+        serial,
+        signal: controller.signal,
+        onProgress: setProgress,
+        onReport: (report) => {
+          scanned++
+          setReports(prev => {
+            const next = { ...prev, [report.packageName]: report }
+            saveTrackerReports(next)
+            return next
+          })
+        },
+      })
+
+      addCommandLog({
+        command: `tracker scan (${mode})`,
+        result: 'success',
+        message: t('trackerScanner.scanDone', { count: scanned }),
+      })
+      showToast({ type: 'success', title: t('trackerScanner.scanDone', { count: scanned }) })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        showToast({ type: 'info', title: t('trackerScanner.scanCancelled', { count: scanned }) })
+      } else {
+        showToast({
+          type: 'error',
+          title: t('trackerScanner.scanFailed'),
+          message: error instanceof Error ? error.message : String(error)
+        })
+      }
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const exportReports = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    if (format === 'json') {
+      downloadJson(trackerReportsToJson(allReports, deviceInfo?.model), `trackers-${stamp}.json`)
+    } else {
+      downloadCsv(`trackers-${stamp}.csv`, trackerReportsToCsv(allReports))
+    }
+    showToast({ type: 'success', title: t('trackerScanner.exported', { count: allReports.length }) })
+  }
+
+  const overall = progress && progress.count > 0
+    ? ((progress.index + (mode === 'dex' ? progress.fileProgress : 0)) / progress.count) * 100
+    : 0
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+      className="mt-8"
+    >
+      <Card variant="glass" padding="lg">
+        <div className="flex items-start gap-4 mb-4">
+          <div className="p-3 rounded-xl bg-rose-500/10">
+            <ScanSearch className="w-6 h-6 text-rose-500" strokeWidth={1.5} />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-semibold text-surface-900 dark:text-white mb-1">
+              {t('trackerScanner.title')}
+            </h3>
+            <p className="text-sm text-surface-500">{t('trackerScanner.description')}</p>
+            <p className="text-xs text-surface-400 mt-1 font-mono">
+              {t('trackerScanner.dataset', { version: TRACKER_DATASET_VERSION, count: TRACKER_SIGNATURES.length })}
+            </p>
+          </div>
+        </div>
+
+        {/* Mode */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+          {(['dex', 'components'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              disabled={!!progress}
+              className={`
+                text-left p-3 rounded-xl border transition-all disabled:opacity-50
+                ${mode === option
+                  ? 'border-accent-500 bg-accent-500/5'
+                  : 'border-surface-200 dark:border-white/10 hover:border-accent-500/50'
+                }
+              `}
+            >
+              <p className="text-sm font-medium text-surface-900 dark:text-white">{t(`trackerScanner.modes.${option}.name`)}</p>
+              <p className="text-xs text-surface-500">{t(`trackerScanner.modes.${option}.description`)}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {progress ? (
+            <Button variant="danger" size="sm" onClick={() => abortRef.current?.abort()} icon={<Square className="w-4 h-4" />}>
+              {t('trackerScanner.cancel')}
+            </Button>
+          ) : (
+            <Button size="sm" onClick={startScan} disabled={isDemoMode} icon={<ScanSearch className="w-4 h-4" />}>
+              {allReports.length > 0 ? t('trackerScanner.rescan') : t('trackerScanner.scan')}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => exportReports('json')}
+            disabled={allReports.length === 0}
+            icon={<FileJson className="w-4 h-4" />}
+          >
+            JSON
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => exportReports('csv')}
+            disabled={allReports.length === 0}
+            icon={<FileText className="w-4 h-4" />}
+          >
+            CSV
+          </Button>
+          {isDemoMode && <span className="text-xs text-surface-400">{t('trackerScanner.demoUnavailable')}</span>}
+        </div>
+
+        {progress && (
+          <div className="mt-4 space-y-1">
+            <div className="h-2 rounded-full bg-surface-100 dark:bg-white/10 overflow-hidden">
+              <div className="h-full bg-rose-500 transition-all" style={{ width: `${overall}%` }} />
+            </div>
+            <p className="text-xs text-surface-500 font-mono truncate">
+              {progress.index + 1}/{progress.count} {progress.packageName}
+              {progress.packageName && ` · ${t(`trackerScanner.stages.${progress.stage}`)}`}
+              {progress.stage === 'pulling' && progress.fileProgress > 0 && ` ${Math.round(progress.fileProgress * 100)}%`}
+            </p>
+          </div>
+        )}
+
+        {allReports.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mt-6 mb-3">
+              <p className="text-sm text-surface-600 dark:text-surface-400">
+                {t('trackerScanner.summary', { apps: allReports.length, withTrackers: appsWithTrackers, trackers: distinctTrackers })}
+              </p>
+              <label className="flex items-center gap-2 text-xs text-surface-500">
+                {t('trackerScanner.onlyWithTrackers')}
+                <Switch checked={onlyWithTrackers} onChange={setOnlyWithTrackers} size="sm" />
+              </label>
+            </div>
+
+            <div className="space-y-2 max-h-[28rem] overflow-y-auto pr-1">
+              {visibleReports.map(report => {
+                const isOpen = expanded === report.packageName
+                return (
+                  <div key={report.packageName} className="rounded-xl border border-surface-200 dark:border-white/10">
+                    <button
+                      onClick={() => setExpanded(isOpen ? null : report.packageName)}
+                      className="w-full flex items-center gap-3 p-3 text-left"
+                    >
+                      {isOpen
+                        ? <ChevronDown className="w-4 h-4 text-surface-400 shrink-0" strokeWidth={1.5} />
+                        : <ChevronRight className="w-4 h-4 text-surface-400 shrink-0" strokeWidth={1.5} />}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-surface-900 dark:text-white truncate">
+                          {getCachedLabel(report.packageName) || report.packageName}
+                        </p>
+                        <p className="text-xs text-surface-500 font-mono truncate">
+                          {report.packageName}
+                          {isReportOutdated(report) && (
+                            <span className="ml-2 text-amber-500">{t('trackerScanner.outdated')}</span>
+                          )}
+                        </p>
+                      </div>
+                      {report.error ? (
+                        <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" strokeWidth={1.5} />
+                      ) : (
+                        <span className={`
+                          px-2 py-0.5 rounded-full text-xs font-semibold shrink-0
+                          ${report.trackers.length > 0
+                            ? 'bg-rose-500/10 text-rose-600 dark:text-rose-400'
+                            : 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400'
+                          }
+                        `}>
+                          {t('trackerScanner.trackerCount', { count: report.trackers.length })}
+                        </span>
+                      )}
+                    </button>
+
+                    {isOpen && (
+                      <div className="px-10 pb-3 space-y-2">
+                        {report.error && <p className="text-xs text-amber-500">{report.error}</p>}
+                        {report.trackers.map(tracker => (
+                          <div key={tracker.trackerId}>
+                            <p className="text-sm text-surface-900 dark:text-white">
+                              {tracker.name}
+                              <span className="ml-2 text-xs text-surface-400">
+                                {tracker.categories.map(category => t(`trackerScanner.categories.${category}`)).join(', ')}
+                              </span>
+                            </p>
+                            <p className="text-[11px] text-surface-500 font-mono break-all">{tracker.evidence.join(', ')}</p>
+                          </div>
+                        ))}
+                        <p className="text-[11px] text-surface-400">
+                          {t('trackerScanner.scannedInfo', {
+                            date: new Date(report.scannedAt).toLocaleString(),
+                            mode: t(`trackerScanner.modes.${report.mode}.name`),
+                            count: report.inspectedCount,
+                            version: report.datasetVersion,
+                          })}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+      </Card>
+    </motion.div>
+  )
+}
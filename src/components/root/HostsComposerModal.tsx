@@ -0,0 +1,404 @@
+/**
+ * Hosts Composer Modal
+ * Compone il file hosts dalle liste selezionate con allowlist e blocklist
+ * personali, mostra statistiche e differenze col file del dispositivo,
+ * installa (con backup dell'originale) e ripristina
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Layers,
+  Download,
+  RotateCcw,
+  AlertTriangle,
+  CheckCircle2
+} from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { HOSTS_LEVELS, HOSTS_LISTS, getHostsLevel } from '@/data/hosts-lists'
+import {
+  composeHosts,
+  diffHosts,
+  downloadHostsLists,
+  installHostsFile,
+  loadHostsComposerConfig,
+  parseRuleList,
+  readHostsDeviceState,
+  renderHostsFile,
+  restoreHostsFile,
+  saveHostsComposerConfig,
+  type ComposedHosts,
+  type HostsDeviceState,
+  type HostsWriteTarget
+} from '@/services/hosts-composer'
+
+const DIFF_PREVIEW_LIMIT = 50
+
+interface HostsComposerModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function HostsComposerModal({ isOpen, onClose }: HostsComposerModalProps) {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const addCommandLog = useAdbStore((state) => state.addCommandLog)
+  const showToast = useAppStore((state) => state.showToast)
+
+  const [initialConfig] = useState(() => loadHostsComposerConfig(getHostsLevel('standard')?.lists ?? []))
+  const [listIds, setListIds] = useState<string[]>(initialConfig.listIds)
+  const [allowlistText, setAllowlistText] = useState(initialConfig.allowlist.join('\n'))
+  const [blocklistText, setBlocklistText] = useState(initialConfig.blocklist.join('\n'))
+  const [deviceState, setDeviceState] = useState<HostsDeviceState | null>(null)
+  const [composed, setComposed] = useState<ComposedHosts | null>(null)
+  const [target, setTarget] = useState<HostsWriteTarget>('system')
+  const [downloadProgress, setDownloadProgress] = useState<{ done: number; total: number } | null>(null)
+  const [installing, setInstalling] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const serial = activeSerial ?? undefined
+
+  const loadDeviceState = useCallback(async () => {
+    try {
+      const state = await readHostsDeviceState(serial)
+      setDeviceState(state)
+      setTarget(state.systemWritable || !state.magiskAvailable ? 'system' : 'magisk')
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('rootTools.composer.readFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }, [serial, showToast, t])
+
+  useEffect(() => {
+    if (isOpen) loadDeviceState()
+  }, [isOpen, loadDeviceState])
+
+  // Any change to the inputs invalidates the composed result
+  useEffect(() => {
+    setComposed(null)
+  }, [listIds, allowlistText, blocklistText])
+
+  const diff = useMemo(
+    () => composed && deviceState ? diffHosts(deviceState.current, composed.domains) : null,
+    [composed, deviceState]
+  )
+
+  const toggleList = (id: string) => {
+    setListIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id])
+  }
+
+  const compose = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    const config = { listIds, allowlist: parseRuleList(allowlistText), blocklist: parseRuleList(blocklistText) }
+    saveHostsComposerConfig(config)
+
+    try {
+      setDownloadProgress({ done: 0, total: listIds.length })
+      const sources = await downloadHostsLists(listIds, {
+        signal: controller.signal,
+        onProgress: (done, total) => setDownloadProgress({ done, total }),
+      })
+      setComposed(composeHosts(sources, config))
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        showToast({
+          type: 'error',
+          title: t('rootTools.composer.downloadFailed'),
+          message: error instanceof Error ? error.message : String(error)
+        })
+      }
+    } finally {
+      abortRef.current = null
+      setDownloadProgress(null)
+    }
+  }
+
+  const install = async () => {
+    if (!composed) return
+    setInstalling(true)
+    try {
+      const result = await installHostsFile(renderHostsFile(composed, listIds), target, {
+        serial,
+        domainCount: composed.domains.length,
+      })
+      addCommandLog({
+        command: `hosts install (${target})`,
+        result: result.exitCode === 0 ? 'success' : 'error',
+        message: result.exitCode === 0
+          ? t('rootTools.composer.installed', { count: composed.domains.length })
+          : (result.stderr || result.stdout).trim(),
+      })
+      if (result.exitCode !== 0) {
+        showToast({ type: 'error', title: t('rootTools.composer.installFailed'), message: (result.stderr || result.stdout).trim() })
+        return
+      }
+      showToast({
+        type: 'success',
+        title: t('rootTools.composer.installed', { count: composed.domains.length }),
+        message: target === 'magisk' ? t('rootTools.composer.rebootRequired') : undefined
+      })
+      await loadDeviceState()
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('rootTools.composer.installFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setInstalling(false)
+    }
+  }
+
+  const restore = async () => {
+    if (!deviceState) return
+    setRestoring(true)
+    try {
+      const result = await restoreHostsFile(deviceState, serial)
+      addCommandLog({
+        command: 'hosts restore',
+        result: result.exitCode === 0 ? 'success' : 'error',
+        message: result.exitCode === 0 ? t('rootTools.composer.restored') : (result.stderr || result.stdout).trim(),
+      })
+      showToast(result.exitCode === 0
+        ? {
+            type: 'success',
+            title: t('rootTools.composer.restored'),
+            message: deviceState.moduleInstalled ? t('rootTools.composer.rebootRequired') : undefined
+          }
+        : { type: 'error', title: t('rootTools.composer.restoreFailed'), message: (result.stderr || result.stdout).trim() })
+      await loadDeviceState()
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (installing || restoring) return
+    abortRef.current?.abort()
+    onClose()
+  }
+
+  const canRestore = !!deviceState && (deviceState.moduleInstalled || deviceState.backupExists)
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={t('rootTools.hosts.modalTitle')} size="xl">
+      <p className="text-sm text-surface-500 mb-4">{t('rootTools.composer.description')}</p>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {HOSTS_LEVELS.map(level => (
+          <button
+            key={level.id}
+            onClick={() => setListIds(level.lists)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium ${level.bgColor} ${level.color}`}
+            title={t(`rootTools.hostsLevels.${level.id}.description`)}
+          >
+            {t(`rootTools.hostsLevels.${level.id}.name`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Lists */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+        {HOSTS_LISTS.map(list => (
+          <label
+            key={list.id}
+            className={`
+              flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-all
+              ${listIds.includes(list.id)
+                ? 'border-accent-500 bg-accent-500/5'
+                : 'border-surface-200 dark:border-white/10 hover:border-accent-500/50'
+              }
+            `}
+          >
+            <input
+              type="checkbox"
+              checked={listIds.includes(list.id)}
+              onChange={() => toggleList(list.id)}
+              className="mt-1 accent-accent-500"
+            />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-surface-900 dark:text-white">{list.name}</p>
+              <p className="text-xs text-surface-500">
+                {t('rootTools.hosts.domainsCount', { count: (list.estimatedEntries / 1000).toFixed(0) })}
+              </p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {/* User rules */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        <label className="block">
+          <span className="text-xs font-medium text-surface-600 dark:text-surface-400">{t('rootTools.composer.allowlist')}</span>
+          <textarea
+            value={allowlistText}
+            onChange={(e) => setAllowlistText(e.target.value)}
+            placeholder={t('rootTools.composer.allowlistPlaceholder')}
+            rows={4}
+            className="mt-1 w-full px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-xs font-mono text-surface-900 dark:text-white outline-none focus:border-accent-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-surface-600 dark:text-surface-400">{t('rootTools.composer.blocklist')}</span>
+          <textarea
+            value={blocklistText}
+            onChange={(e) => setBlocklistText(e.target.value)}
+            placeholder={t('rootTools.composer.blocklistPlaceholder')}
+            rows={4}
+            className="mt-1 w-full px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-xs font-mono text-surface-900 dark:text-white outline-none focus:border-accent-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={compose}
+          loading={!!downloadProgress}
+          disabled={listIds.length === 0 && blocklistText.trim() === ''}
+          icon={<Layers className="w-4 h-4" strokeWidth={1.5} />}
+        >
+          {t('rootTools.composer.compose')}
+        </Button>
+        {downloadProgress && (
+          <span className="text-xs text-surface-500">
+            {t('rootTools.composer.downloading', { done: downloadProgress.done, total: downloadProgress.total })}
+          </span>
+        )}
+      </div>
+
+      {/* Stats and diff */}
+      {composed && (
+        <div className="space-y-3 mb-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {[
+              { label: t('rootTools.composer.stats.total'), value: composed.domains.length },
+              { label: t('rootTools.composer.stats.duplicates'), value: composed.duplicates },
+              { label: t('rootTools.composer.stats.allowlisted'), value: composed.allowlisted },
+              { label: t('rootTools.composer.stats.custom'), value: composed.customAdded },
+            ].map(stat => (
+              <div key={stat.label} className="p-3 rounded-xl bg-surface-50 dark:bg-white/5">
+                <p className="text-lg font-semibold text-surface-900 dark:text-white">{stat.value.toLocaleString()}</p>
+                <p className="text-xs text-surface-500">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-surface-200 dark:border-white/10 divide-y divide-surface-100 dark:divide-white/5">
+            {composed.lists.map(list => (
+              <div key={list.listId} className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+                <span className="text-surface-700 dark:text-surface-300">{list.name}</span>
+                {list.error ? (
+                  <span className="flex items-center gap-1 text-amber-500">
+                    <AlertTriangle className="w-3.5 h-3.5" strokeWidth={1.5} />
+                    {list.error}
+                  </span>
+                ) : (
+                  <span className="text-surface-500">
+                    {t('rootTools.composer.listStats', { entries: list.entries.toLocaleString(), unique: list.unique.toLocaleString() })}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {diff && (
+            <div className="rounded-xl border border-surface-200 dark:border-white/10 p-3">
+              <p className="text-sm text-surface-700 dark:text-surface-300 mb-2">
+                {t('rootTools.composer.diffSummary', {
+                  added: diff.added.length.toLocaleString(),
+                  removed: diff.removed.length.toLocaleString(),
+                  unchanged: diff.unchanged.toLocaleString(),
+                })}
+              </p>
+              <div className="max-h-40 overflow-y-auto text-[11px] font-mono space-y-0.5">
+                {diff.removed.slice(0, DIFF_PREVIEW_LIMIT).map(domain => (
+                  <p key={`-${domain}`} className="text-red-500">- {domain}</p>
+                ))}
+                {diff.added.slice(0, DIFF_PREVIEW_LIMIT).map(domain => (
+                  <p key={`+${domain}`} className="text-emerald-500">+ {domain}</p>
+                ))}
+                {(diff.added.length > DIFF_PREVIEW_LIMIT || diff.removed.length > DIFF_PREVIEW_LIMIT) && (
+                  <p className="text-surface-400">{t('rootTools.composer.diffTruncated', { count: DIFF_PREVIEW_LIMIT })}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Target */}
+      {deviceState && (
+        <div className="space-y-2 mb-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {(['system', 'magisk'] as const).map(option => {
+              // /system is only remounted on install, so it stays selectable when read-only
+              const available = option === 'system' || deviceState.magiskAvailable
+              const hint = option === 'system' && !deviceState.systemWritable ? 'readOnly' : available ? 'description' : 'unavailable'
+              return (
+                <button
+                  key={option}
+                  onClick={() => setTarget(option)}
+                  disabled={!available}
+                  className={`
+                    text-left p-3 rounded-xl border transition-all disabled:opacity-50
+                    ${target === option
+                      ? 'border-accent-500 bg-accent-500/5'
+                      : 'border-surface-200 dark:border-white/10 hover:border-accent-500/50'
+                    }
+                  `}
+                >
+                  <p className="text-sm font-medium text-surface-900 dark:text-white">{t(`rootTools.composer.targets.${option}.name`)}</p>
+                  <p className="text-xs text-surface-500">
+                    {t(`rootTools.composer.targets.${option}.${hint}`)}
+                  </p>
+                </button>
+              )
+            })}
+          </div>
+          <p className="flex items-center gap-1.5 text-xs text-surface-500">
+            {(deviceState.backupExists || deviceState.moduleInstalled) && <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" strokeWidth={1.5} />}
+            {deviceState.moduleInstalled
+              ? t('rootTools.composer.moduleInstalled')
+              : deviceState.backupExists ? t('rootTools.composer.backupExists') : t('rootTools.composer.backupPending')}
+          </p>
+        </div>
+      )}
+
+      <ModalActions>
+        {canRestore && (
+          <Button
+            variant="ghost"
+            onClick={restore}
+            loading={restoring}
+            disabled={installing}
+            icon={<RotateCcw className="w-4 h-4" strokeWidth={1.5} />}
+          >
+            {t('rootTools.composer.restore')}
+          </Button>
+        )}
+        <Button variant="ghost" onClick={handleClose}>
+          {t('privacyTools.cancel')}
+        </Button>
+        <Button
+          onClick={install}
+          loading={installing}
+          disabled={!composed || composed.domains.length === 0 || !deviceState || restoring}
+          icon={<Download className="w-4 h-4" strokeWidth={1.5} />}
+        >
+          {t('rootTools.hosts.install')}
+        </Button>
+      </ModalActions>
+    </Modal>
+  )
+}
@@ -0,0 +1,395 @@
+/**
+ * Module Manager Panel
+ * Moduli Magisk/KernelSU: elenco da /data/adb/modules, attivazione,
+ * rimozione e installazione di zip caricati dal browser. Con Magisk mostra
+ * anche stato Zygisk e DenyList.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Puzzle,
+  Upload,
+  RefreshCw,
+  Trash2,
+  Undo2,
+  Plus,
+  X,
+  EyeOff
+} from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Switch } from '@/components/ui/Switch'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import {
+  addDenyListEntry,
+  inspectModuleZip,
+  installModuleZip,
+  listRootModules,
+  readDenyList,
+  readRootManagerInfo,
+  removeDenyListEntry,
+  setModuleEnabled,
+  setModuleRemoval,
+  type DenyListEntry,
+  type RootManagerInfo,
+  type RootModule
+} from '@/services/root-modules'
+import type { ShellResult } from '@/services/adb-client'
+
+export function ModuleManagerPanel() {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const packages = useAdbStore((state) => state.packages)
+  const addCommandLog = useAdbStore((state) => state.addCommandLog)
+  const showToast = useAppStore((state) => state.showToast)
+
+  const [info, setInfo] = useState<RootManagerInfo | null>(null)
+  const [modules, setModules] = useState<RootModule[]>([])
+  const [denyList, setDenyList] = useState<DenyListEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [installProgress, setInstallProgress] = useState<number | null>(null)
+  const [denyInput, setDenyInput] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const serial = activeSerial ?? undefined
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const managerInfo = await readRootManagerInfo(serial)
+      setInfo(managerInfo)
+      if (managerInfo.manager) {
+        setModules(await listRootModules(serial))
+      }
+      setDenyList(managerInfo.manager === 'magisk' ? await readDenyList(serial) : [])
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('rootTools.modules.loadFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [serial, showToast, t])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // DenyList entries grouped by package
+  const denyGroups = useMemo(() => {
+    const groups = new Map<string, DenyListEntry[]>()
+    for (const entry of denyList) {
+      groups.set(entry.packageName, [...(groups.get(entry.packageName) ?? []), entry])
+    }
+    return [...groups.entries()]
+  }, [denyList])
+
+  const runAction = async (key: string, command: string, action: () => Promise<ShellResult>, successMessage: string) => {
+    setBusy(key)
+    try {
+      const result = await action()
+      const output = (result.stderr || result.stdout).trim()
+      addCommandLog({
+        command,
+        result: result.exitCode === 0 ? 'success' : 'error',
+        message: result.exitCode === 0 ? successMessage : output,
+      })
+      if (result.exitCode !== 0) {
+        showToast({ type: 'error', title: t('rootTools.modules.actionFailed'), message: output })
+        return false
+      }
+      return true
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('rootTools.modules.actionFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+      return false
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const toggleModule = async (module: RootModule, enabled: boolean) => {
+    const done = await runAction(
+      `enable:${module.id}`,
+      `${enabled ? 'rm' : 'touch'} ${module.id}/disable`,
+      () => setModuleEnabled(module.id, enabled, serial),
+      t(enabled ? 'rootTools.modules.enabled' : 'rootTools.modules.disabled', { name: module.name })
+    )
+    if (done) {
+      setModules(prev => prev.map(item => item.id === module.id ? { ...item, enabled } : item))
+      showToast({ type: 'info', title: t('rootTools.modules.rebootRequired') })
+    }
+  }
+
+  const toggleRemoval = async (module: RootModule) => {
+    const remove = !module.pendingRemoval
+    const done = await runAction(
+      `remove:${module.id}`,
+      `${remove ? 'touch' : 'rm'} ${module.id}/remove`,
+      () => setModuleRemoval(module.id, remove, serial),
+      t(remove ? 'rootTools.modules.removalScheduled' : 'rootTools.modules.removalCancelled', { name: module.name })
+    )
+    if (done) {
+      setModules(prev => prev.map(item => item.id === module.id ? { ...item, pendingRemoval: remove } : item))
+    }
+  }
+
+  const installZip = async (file: File) => {
+    if (!info?.manager) return
+    try {
+      const module = await inspectModuleZip(file)
+      setInstallProgress(0)
+      const result = await installModuleZip(file, info.manager, {
+        serial,
+        onProgress: (progress) => setInstallProgress(progress),
+      })
+      const output = (result.stderr || result.stdout).trim()
+      addCommandLog({
+        command: info.manager === 'magisk' ? `magisk --install-module ${file.name}` : `ksud module install ${file.name}`,
+        result: result.exitCode === 0 ? 'success' : 'error',
+        message: output,
+      })
+      if (result.exitCode !== 0) {
+        showToast({ type: 'error', title: t('rootTools.modules.installFailed'), message: output.split('\n').slice(-3).join('\n') })
+        return
+      }
+      showToast({
+        type: 'success',
+        title: t('rootTools.modules.installed', { name: module.name }),
+        message: t('rootTools.modules.rebootRequired')
+      })
+      setModules(await listRootModules(serial))
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('rootTools.modules.installFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setInstallProgress(null)
+    }
+  }
+
+  const addDenyEntry = async () => {
+    const [packageName, process] = denyInput.trim().split(/\s+/)
+    if (!packageName) return
+    const done = await runAction(
+      'deny:add',
+      `magisk --denylist add ${denyInput.trim()}`,
+      () => addDenyListEntry(packageName, process, serial),
+      t('rootTools.modules.denyAdded', { name: packageName })
+    )
+    if (done) {
+      setDenyInput('')
+      setDenyList(await readDenyList(serial))
+    }
+  }
+
+  const removeDenyEntry = async (entry: DenyListEntry) => {
+    const done = await runAction(
+      `deny:${entry.packageName}|${entry.process}`,
+      `magisk --denylist rm ${entry.packageName} ${entry.process}`,
+      () => removeDenyListEntry(entry, serial),
+      t('rootTools.modules.denyRemoved', { name: entry.process })
+    )
+    if (done) {
+      setDenyList(prev => prev.filter(item => item !== entry))
+    }
+  }
+
+  return (
+    <Card variant="glass" padding="lg">
+      <div className="flex items-start gap-4 mb-4">
+        <div className="p-3 rounded-xl bg-violet-500/10">
+          <Puzzle className="w-6 h-6 text-violet-500" strokeWidth={1.5} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-surface-900 dark:text-white mb-1">
+            {t('rootTools.modules.cardTitle')}
+          </h3>
+          {info?.manager ? (
+            <div className="flex flex-wrap gap-2 text-xs">
+              <span className="px-2 py-0.5 rounded-full bg-surface-100 dark:bg-white/10 text-surface-700 dark:text-surface-300 font-mono">
+                {t(`rootTools.modules.managers.${info.manager}`)} {info.version}
+                {info.versionCode && ` (${info.versionCode})`}
+              </span>
+              {info.zygisk !== null && (
+                <span className={`px-2 py-0.5 rounded-full ${info.zygisk ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-surface-100 dark:bg-white/10 text-surface-500'}`}>
+                  Zygisk {info.zygisk ? t('rootTools.modules.on') : t('rootTools.modules.off')}
+                </span>
+              )}
+              {info.denyListEnforced !== null && (
+                <span className={`px-2 py-0.5 rounded-full ${info.denyListEnforced ? 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400' : 'bg-surface-100 dark:bg-white/10 text-surface-500'}`}>
+                  DenyList {info.denyListEnforced ? t('rootTools.modules.enforced') : t('rootTools.modules.notEnforced')}
+                </span>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-surface-500">
+              {info ? t('rootTools.modules.noManager') : t('rootTools.modules.loading')}
+            </p>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={load}
+          loading={loading}
+          icon={<RefreshCw className="w-4 h-4" strokeWidth={1.5} />}
+        >
+          {t('privacyTools.refresh')}
+        </Button>
+      </div>
+
+      {info?.manager && (
+        <>
+          {/* Install */}
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) installZip(file)
+              }}
+            />
+            <Button
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              loading={installProgress !== null}
+              icon={<Upload className="w-4 h-4" strokeWidth={1.5} />}
+            >
+              {t('rootTools.modules.install')}
+            </Button>
+            {installProgress !== null && (
+              <span className="text-xs text-surface-500">
+                {installProgress < 1
+                  ? t('rootTools.modules.uploading', { percent: Math.round(installProgress * 100) })
+                  : t('rootTools.modules.installing')}
+              </span>
+            )}
+          </div>
+
+          {/* Modules */}
+          <div className="rounded-xl border border-surface-200 dark:border-white/10 divide-y divide-surface-100 dark:divide-white/5 mb-4">
+            {modules.length === 0 ? (
+              <p className="px-3 py-6 text-center text-sm text-surface-400">{t('rootTools.modules.empty')}</p>
+            ) : modules.map(module => (
+              <div key={module.id} className={`flex items-start gap-3 px-3 py-3 ${module.pendingRemoval ? 'opacity-60' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-surface-900 dark:text-white">
+                    {module.name}
+                    {module.version && <span className="ml-2 text-xs font-normal text-surface-500">{module.version}</span>}
+                  </p>
+                  <p className="text-[11px] text-surface-500 font-mono truncate">
+                    {module.id}{module.author && ` · ${module.author}`}
+                  </p>
+                  {module.description && (
+                    <p className="text-xs text-surface-500 mt-1 line-clamp-2">{module.description}</p>
+                  )}
+                  {(module.pendingRemoval || module.pendingUpdate) && (
+                    <p className="text-xs text-amber-500 mt-1">
+                      {module.pendingRemoval ? t('rootTools.modules.pendingRemoval') : t('rootTools.modules.pendingUpdate')}
+                    </p>
+                  )}
+                </div>
+                <Switch
+                  checked={module.enabled}
+                  onChange={(enabled) => toggleModule(module, enabled)}
+                  loading={busy === `enable:${module.id}`}
+                  disabled={module.pendingRemoval}
+                  size="sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleRemoval(module)}
+                  loading={busy === `remove:${module.id}`}
+                  icon={module.pendingRemoval
+                    ? <Undo2 className="w-4 h-4" strokeWidth={1.5} />
+                    : <Trash2 className="w-4 h-4 text-red-500" strokeWidth={1.5} />}
+                >
+                  {module.pendingRemoval ? t('rootTools.modules.cancelRemoval') : t('rootTools.modules.remove')}
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* DenyList */}
+      {info?.manager === 'magisk' && (
+        <div>
+          <h4 className="text-sm font-medium text-surface-900 dark:text-white mb-1 flex items-center gap-2">
+            <EyeOff className="w-4 h-4 text-surface-500" strokeWidth={1.5} />
+            {t('rootTools.modules.denyList')}
+          </h4>
+          <p className="text-xs text-surface-500 mb-3">{t('rootTools.modules.denyListDesc')}</p>
+
+          <div className="flex gap-2 mb-3">
+            <input
+              value={denyInput}
+              onChange={(e) => setDenyInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addDenyEntry()}
+              list="denylist-packages"
+              placeholder={t('rootTools.modules.denyPlaceholder')}
+              className="flex-1 px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-sm font-mono text-surface-900 dark:text-white outline-none focus:border-accent-500"
+            />
+            <datalist id="denylist-packages">
+              {packages.map(pkg => <option key={pkg.packageName} value={pkg.packageName} />)}
+            </datalist>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={addDenyEntry}
+              loading={busy === 'deny:add'}
+              disabled={!denyInput.trim()}
+              icon={<Plus className="w-4 h-4" strokeWidth={1.5} />}
+            >
+              {t('rootTools.modules.denyAdd')}
+            </Button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto rounded-xl border border-surface-200 dark:border-white/10 divide-y divide-surface-100 dark:divide-white/5">
+            {denyGroups.length === 0 ? (
+              <p className="px-3 py-4 text-center text-sm text-surface-400">{t('rootTools.modules.denyEmpty')}</p>
+            ) : denyGroups.map(([packageName, entries]) => (
+              <div key={packageName} className="px-3 py-2">
+                <p className="text-sm text-surface-900 dark:text-white font-mono">{packageName}</p>
+                <div className="flex flex-wrap gap-1.5 mt-1">
+                  {entries.map(entry => (
+                    <span
+                      key={entry.process}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-surface-100 dark:bg-white/10 text-[11px] font-mono text-surface-600 dark:text-surface-400"
+                    >
+                      {entry.process}
+                      <button
+                        onClick={() => removeDenyEntry(entry)}
+                        disabled={busy !== null}
+                        className="text-surface-400 hover:text-red-500 disabled:opacity-50"
+                        title={t('rootTools.modules.denyRemove')}
+                      >
+                        <X className="w-3 h-3" strokeWidth={2} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,411 @@
+/**
+ * Storage Cleaner Panel
+ * Analisi dello spazio recuperabile per app e categoria, con pulizia solo
+ * degli elementi selezionati. Senza root usa diskstats, `pm clear --cache-only`
+ * (solo Android 14+, prima cancellerebbe tutti i dati) e `pm trim-caches`.
+ */
+
+import { useMemo, useState } from 'react'
+import {
+  HardDrive,
+  ScanSearch,
+  Trash2,
+  Scissors,
+  ArrowDown,
+  ArrowUp
+} from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { getCachedLabel } from '@/services/app-icons'
+import {
+  ROOT_ONLY_CATEGORIES,
+  STORAGE_CATEGORIES,
+  analyzeStorage,
+  cleanStorageItems,
+  groupStorageByApp,
+  isItemCleanable,
+  trimAllCaches,
+  type StorageAnalysis,
+  type StorageCategory,
+  type StorageItem
+} from '@/services/storage-cleaner'
+
+type SortKey = 'name' | 'total' | StorageCategory
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`
+}
+
+interface StorageCleanerPanelProps {
+  isRooted: boolean
+}
+
+export function StorageCleanerPanel({ isRooted }: StorageCleanerPanelProps) {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore((state) => state.activeSerial)
+  const apiLevel = useAdbStore((state) => parseInt(state.deviceInfo?.apiLevel ?? '', 10) || 0)
+  const addCommandLog = useAdbStore((state) => state.addCommandLog)
+  const showToast = useAppStore((state) => state.showToast)
+
+  const [analysis, setAnalysis] = useState<StorageAnalysis | null>(null)
+  const [stage, setStage] = useState<StorageCategory | null>(null)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [sortKey, setSortKey] = useState<SortKey>('total')
+  const [sortAsc, setSortAsc] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [cleanProgress, setCleanProgress] = useState<{ done: number; total: number } | null>(null)
+  const [trimming, setTrimming] = useState(false)
+
+  const serial = activeSerial ?? undefined
+  const categories = STORAGE_CATEGORIES.filter(category => isRooted || !ROOT_ONLY_CATEGORIES.includes(category))
+
+  const rows = useMemo(() => {
+    if (!analysis) return []
+    const label = (packageName: string | null) =>
+      packageName === null ? t('rootTools.storage.shared') : getCachedLabel(packageName) || packageName
+
+    return groupStorageByApp(analysis).sort((a, b) => {
+      const diff = sortKey === 'name'
+        ? label(b.packageName).localeCompare(label(a.packageName))
+        : sortKey === 'total'
+          ? a.totalBytes - b.totalBytes
+          : (a.byCategory[sortKey] ?? 0) - (b.byCategory[sortKey] ?? 0)
+      return sortAsc ? diff : -diff
+    })
+  }, [analysis, sortKey, sortAsc, t])
+
+  const selectedItems = useMemo(
+    () => analysis?.items.filter(item => selected.has(item.id)) ?? [],
+    [analysis, selected]
+  )
+  const selectedBytes = selectedItems.reduce((sum, item) => sum + item.bytes, 0)
+  const totalBytes = analysis ? Object.values(analysis.totals).reduce((sum, bytes) => sum + bytes, 0) : 0
+
+  const analyze = async () => {
+    setAnalyzing(true)
+    try {
+      const result = await analyzeStorage({ serial, isRooted, apiLevel, onStage: setStage })
+      setAnalysis(result)
+      setSelected(new Set())
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('rootTools.storage.analyzeFailed'),
+        message: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setAnalyzing(false)
+      setStage(null)
+    }
+  }
+
+  // Items that can't be cleared one by one (old Android, no root) are shown but not selectable
+  const toggleItems = (allItems: StorageItem[]) => {
+    const items = allItems.filter(item => isItemCleanable(item, apiLevel))
+    if (items.length === 0) return
+    setSelected(prev => {
+      const next = new Set(prev)
+      const allSelected = items.every(item => next.has(item.id))
+      for (const item of items) {
+        if (allSelected) next.delete(item.id)
+        else next.add(item.id)
+      }
+      return next
+    })
+  }
+
+  const sortBy = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortAsc(!sortAsc)
+    } else {
+      setSortKey(key)
+      setSortAsc(key === 'name')
+    }
+  }
+
+  const clean = async () => {
+    const items = selectedItems
+    setCleanProgress({ done: 0, total: items.length })
+    try {
+      const result = await cleanStorageItems(items, {
+        serial,
+        isRooted,
+        apiLevel,
+        onProgress: (done, total) => setCleanProgress({ done, total }),
+      })
+      addCommandLog({
+        command: `storage clean (${items.length} items)`,
+        result: result.errors.length === 0 ? 'success' : 'error',
+        message: [t('rootTools.storage.cleaned', { size: formatSize(result.clearedBytes), count: result.clearedItems }), ...result.errors].join('\n'),
+      })
+      showToast({
+        type: result.errors.length === 0 ? 'success' : 'warning',
+        title: t('rootTools.storage.cleaned', { size: formatSize(result.clearedBytes), count: result.clearedItems }),
+        message: result.errors.length > 0 ? t('rootTools.storage.cleanErrors', { count: result.errors.length }) : undefined
+      })
+    } finally {
+      setCleanProgress(null)
+      setConfirmOpen(false)
+    }
+    await analyze()
+  }
+
+  const trimCaches = async () => {
+    setTrimming(true)
+    try {
+      const result = await trimAllCaches(serial)
+      addCommandLog({
+        command: 'pm trim-caches',
+        result: result.exitCode === 0 ? 'success' : 'error',
+        message: (result.stderr || result.stdout).trim() || t('rootTools.storage.trimmed'),
+      })
+      showToast(result.exitCode === 0
+        ? { type: 'success', title: t('rootTools.storage.trimmed') }
+        : { type: 'error', title: t('rootTools.storage.trimFailed'), message: (result.stderr || result.stdout).trim() })
+      if (analysis) await analyze()
+    } finally {
+      setTrimming(false)
+    }
+  }
+
+  const sortIcon = (column: SortKey) => sortKey !== column ? null : sortAsc
+    ? <ArrowUp className="w-3 h-3 inline" strokeWidth={2} />
+    : <ArrowDown className="w-3 h-3 inline" strokeWidth={2} />
+
+  return (
+    <Card variant="glass" padding="lg">
+      <div className="flex items-start gap-4 mb-4">
+        <div className="p-3 rounded-xl bg-red-500/10">
+          <HardDrive className="w-6 h-6 text-red-500" strokeWidth={1.5} />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-surface-900 dark:text-white mb-1">
+            {t('rootTools.storage.cardTitle')}
+          </h3>
+          <p className="text-sm text-surface-500">
+            {isRooted ? t('rootTools.storage.description') : t('rootTools.storage.descriptionNoRoot')}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Button
+          size="sm"
+          onClick={analyze}
+          loading={analyzing}
+          disabled={!!cleanProgress}
+          icon={<ScanSearch className="w-4 h-4" strokeWidth={1.5} />}
+        >
+          {analysis ? t('rootTools.storage.reanalyze') : t('rootTools.storage.analyze')}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={trimCaches}
+          loading={trimming}
+          disabled={analyzing || !!cleanProgress}
+          icon={<Scissors className="w-4 h-4" strokeWidth={1.5} />}
+        >
+          {t('rootTools.storage.trimCaches')}
+        </Button>
+        {analyzing && stage && (
+          <span className="text-xs text-surface-500">
+            {t('rootTools.storage.measuring', { category: t(`rootTools.storage.categories.${stage}`) })}
+          </span>
+        )}
+      </div>
+
+      {analysis && (
+        <>
+          {/* Category totals: click to select every item of the category */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+            {categories.map(category => {
+              const items = analysis.items.filter(item => item.category === category && isItemCleanable(item, apiLevel))
+              const allSelected = items.length > 0 && items.every(item => selected.has(item.id))
+              return (
+                <button
+                  key={category}
+                  onClick={() => toggleItems(items)}
+                  disabled={items.length === 0}
+                  className={`
+                    text-left p-3 rounded-xl border transition-all disabled:opacity-50
+                    ${allSelected
+                      ? 'border-accent-500 bg-accent-500/5'
+                      : 'border-surface-200 dark:border-white/10 hover:border-accent-500/50'
+                    }
+                  `}
+                >
+                  <p className="text-sm font-semibold text-surface-900 dark:text-white tabular-nums">
+                    {formatSize(analysis.totals[category])}
+                  </p>
+                  <p className="text-xs text-surface-500">{t(`rootTools.storage.categories.${category}`)}</p>
+                </button>
+              )
+            })}
+          </div>
+
+          {!analysis.canClearAppCache && analysis.totals.cache > 0 && (
+            <p className="text-xs text-amber-500 mb-2">{t('rootTools.storage.cacheNeedsTrim')}</p>
+          )}
+
+          <p className="text-xs text-surface-500 mb-2">
+            {t('rootTools.storage.summary', { size: formatSize(totalBytes), count: rows.length })}
+          </p>
+
+          {/* Breakdown */}
+          <div className="rounded-xl border border-surface-200 dark:border-white/10 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-surface-50 dark:bg-white/5 text-surface-500">
+                <tr>
+                  <th className="w-8 px-3 py-2" />
+                  <th className="px-2 py-2 text-left font-semibold cursor-pointer select-none" onClick={() => sortBy('name')}>
+                    {t('rootTools.storage.app')} {sortIcon('name')}
+                  </th>
+                  <th className="px-2 py-2 text-right font-semibold cursor-pointer select-none whitespace-nowrap" onClick={() => sortBy('total')}>
+                    {t('rootTools.storage.total')} {sortIcon('total')}
+                  </th>
+                  {categories.map(category => (
+                    <th
+                      key={category}
+                      className="px-2 py-2 text-right font-semibold cursor-pointer select-none whitespace-nowrap"
+                      onClick={() => sortBy(category)}
+                    >
+                      {t(`rootTools.storage.categories.${category}`)} {sortIcon(category)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-surface-100 dark:divide-white/5">
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={categories.length + 3} className="px-3 py-8 text-center text-sm text-surface-400">
+                      {t('rootTools.storage.nothingToClean')}
+                    </td>
+                  </tr>
+                ) : rows.map(row => (
+                  <tr key={row.packageName ?? '__shared'}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={row.items.some(item => isItemCleanable(item, apiLevel))
+                          && row.items.filter(item => isItemCleanable(item, apiLevel)).every(item => selected.has(item.id))}
+                        onChange={() => toggleItems(row.items)}
+                        disabled={!row.items.some(item => isItemCleanable(item, apiLevel))}
+                        className="accent-accent-500"
+                      />
+                    </td>
+                    <td className="px-2 py-2 max-w-[14rem]">
+                      <p className="text-sm text-surface-900 dark:text-white truncate">
+                        {row.packageName === null
+                          ? t('rootTools.storage.shared')
+                          : getCachedLabel(row.packageName) || row.packageName}
+                      </p>
+                      {row.packageName && (
+                        <p className="text-[11px] text-surface-500 font-mono truncate">
+                          {row.packageName}
+                          {!row.installed && <span className="ml-1 text-amber-500">{t('rootTools.storage.uninstalled')}</span>}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-right font-medium text-surface-900 dark:text-white tabular-nums whitespace-nowrap">
+                      {formatSize(row.totalBytes)}
+                    </td>
+                    {categories.map(category => {
+                      const items = row.items.filter(item => item.category === category)
+                      if (items.length === 0) {
+                        return <td key={category} className="px-2 py-2 text-right text-surface-300 dark:text-surface-600">—</td>
+                      }
+                      const cleanable = items.every(item => isItemCleanable(item, apiLevel))
+                      const checked = cleanable && items.every(item => selected.has(item.id))
+                      return (
+                        <td key={category} className="px-2 py-2 text-right whitespace-nowrap">
+                          <label className="inline-flex items-center gap-1.5 cursor-pointer tabular-nums text-surface-700 dark:text-surface-300">
+                            {formatSize(row.byCategory[category] ?? 0)}
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              onChange={() => toggleItems(items)}
+                              disabled={!cleanable}
+                              className="accent-accent-500"
+                            />
+                          </label>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+            <p className="text-sm text-surface-600 dark:text-surface-400">
+              {t('rootTools.storage.selected', { size: formatSize(selectedBytes), count: selectedItems.length })}
+            </p>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => setConfirmOpen(true)}
+              disabled={selectedItems.length === 0}
+              icon={<Trash2 className="w-4 h-4" strokeWidth={1.5} />}
+            >
+              {t('rootTools.storage.clean')}
+            </Button>
+          </div>
+        </>
+      )}
+
+      <Modal
+        isOpen={confirmOpen}
+        onClose={() => !cleanProgress && setConfirmOpen(false)}
+        title={t('rootTools.storage.confirmTitle')}
+        size="md"
+      >
+        <p className="text-sm text-surface-500 mb-4">
+          {t('rootTools.storage.confirmDesc', { size: formatSize(selectedBytes), count: selectedItems.length })}
+        </p>
+        <ul className="space-y-1 mb-6">
+          {categories.map(category => {
+            const items = selectedItems.filter(item => item.category === category)
+            if (items.length === 0) return null
+            return (
+              <li key={category} className="flex justify-between text-sm text-surface-600 dark:text-surface-400">
+                <span>{t(`rootTools.storage.categories.${category}`)} ({items.length})</span>
+                <span className="tabular-nums">{formatSize(items.reduce((sum, item) => sum + item.bytes, 0))}</span>
+              </li>
+            )
+          })}
+        </ul>
+        {cleanProgress && (
+          <div className="h-2 rounded-full bg-surface-100 dark:bg-white/10 overflow-hidden mb-4">
+            <div
+              className="h-full bg-red-500 transition-all"
+              style={{ width: `${cleanProgress.total > 0 ? (cleanProgress.done / cleanProgress.total) * 100 : 0}%` }}
+            />
+          </div>
+        )}
+        <ModalActions>
+          <Button variant="ghost" onClick={() => setConfirmOpen(false)} disabled={!!cleanProgress}>
+            {t('privacyTools.cancel')}
+          </Button>
+          <Button variant="danger" onClick={clean} loading={!!cleanProgress}>
+            {t('rootTools.storage.clean')}
+          </Button>
+        </ModalActions>
+      </Modal>
+    </Card>
+  )
+}
@@ -10,6 +10,7 @@ import { useAdbStore } from '@/stores/adbStore'
 import { useAdb } from '@/hooks/useAdb'
 import { useTranslation } from '@/stores/i18nStore'
 import { markMobileAuditExecuted } from '@/services/supabase'
+import { BatchOperationModal, type BatchOutcome, type BatchRequest } from '@/components/batch/BatchOperationModal'
 
 export function MobileSyncModal() {
     const {
@@ -20,40 +21,49 @@ export function MobileSyncModal() {
         setHasShownMobileAuditModal
     } = useAdbStore()
 
-    const { togglePackage } = useAdb()
     const { t } = useTranslation()
     const [isProcessing, setIsProcessing] = useState(false)
-    const [currentPkg, setCurrentPkg] = useState('')
+    const [batchRequest, setBatchRequest] = useState<BatchRequest | null>(null)
 
     const handleClose = () => {
         setMobileAuditDetected(false)
         setHasShownMobileAuditModal(true)
     }
 
-    const handleApply = async () => {
+    const handleApply = () => {
         if (!currentMobileAudit) return
 
-        setIsProcessing(true)
-
         // manifest_data structure: { audit_results: [ { package_id, ... } ] }
         const packages = currentMobileAudit.manifest_data.audit_results
             .filter((r: any) => r.recommendation === 'debloat')
             .map((r: any) => r.package_id)
 
-        for (const pkg of packages) {
-            setCurrentPkg(pkg)
-            await togglePackage(pkg, false)
-        }
+        setBatchRequest({
+            title: currentMobileAudit.device_model,
+            operation: 'disable',
+            packageNames: packages
+        })
+    }
 
-        // Mark as executed in DB
-        await markMobileAuditExecuted(currentMobileAudit.id)
+    const handleBatchClose = async (outcome: BatchOutcome | null) => {
+        setBatchRequest(null)
+        if (!outcome || !currentMobileAudit) return
 
+        setIsProcessing(true)
+        // Mark as executed in DB (unless the whole batch was reverted)
+        if (!outcome.undoReport) {
+            await markMobileAuditExecuted(currentMobileAudit.id)
+        }
         setIsProcessing(false)
         handleClose()
     }
 
     if (!mobileAuditDetected || hasShownMobileAuditModal || !currentMobileAudit) return null
 
+    if (batchRequest) {
+        return <BatchOperationModal request={batchRequest} onClose={handleBatchClose} />
+    }
+
     return (
         <AnimatePresence>
             <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
@@ -114,7 +124,7 @@ export function MobileSyncModal() {
                                 {isProcessing ? (
                                     <>
                                         <Terminal className="w-5 h-5 animate-spin" />
-                                        <span className="truncate max-w-[200px]">{currentPkg}...</span>
+                                        <span className="truncate max-w-[200px]">{currentMobileAudit.device_model}...</span>
                                     </>
                                 ) : (
                                     <>
@@ -2,6 +2,8 @@
  * ADB Terminal Component
  * Terminale interattivo per inviare comandi ADB al dispositivo
  * Single source of truth: commandLogs dallo store
+ * Due modalità: ristretta (comandi validati dalla whitelist) e shell PTY interattiva,
+ * più la vista della coda comandi
  */
 
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
@@ -16,18 +18,26 @@ import {
   Minimize2,
   Download,
   AlertCircle,
-  ChevronRight
+  ChevronRight,
+  Shield,
+  SquareTerminal,
+  ListOrdered
 } from 'lucide-react'
 import { useAdbStore } from '@/stores/adbStore'
 import { useAdb } from '@/hooks/useAdb'
 import { useTranslation } from '@/stores/i18nStore'
 import { validateTerminalCommand } from '@/services/command-sanitizer'
 import { useIsMobile } from '@/hooks/useMediaQuery'
+import { PtyTerminalView } from './PtyTerminalView'
+import { CommandQueueView } from './CommandQueueView'
+import { useCommandQueue } from '@/hooks/useCommandQueue'
 
 interface AdbTerminalProps {
   sidebarOffset?: string
 }
 
+type TerminalMode = 'restricted' | 'interactive' | 'queue'
+
 interface TerminalLine {
   id: string
   type: 'command' | 'output' | 'error' | 'info'
@@ -35,7 +45,7 @@ interface TerminalLine {
 }
 
 export function AdbTerminal({ sidebarOffset = '0px' }: AdbTerminalProps) {
-  const { isConnected, commandLogs, totalCommands, downloadFullLog } = useAdbStore()
+  const { isConnected, isDemoMode, commandLogs, totalCommands, downloadFullLog } = useAdbStore()
   const { shell } = useAdb()
   const { t } = useTranslation()
   const isMobile = useIsMobile()
@@ -48,6 +58,9 @@ export function AdbTerminal({ sidebarOffset = '0px' }: AdbTerminalProps) {
   const [isExecuting, setIsExecuting] = useState(false)
   const [pendingCommand, setPendingCommand] = useState<string | null>(null)
   const [clearedBeforeId, setClearedBeforeId] = useState<string | null>(null)
+  const [mode, setMode] = useState<TerminalMode>('restricted')
+  const queuedCommands = useCommandQueue()
+  const activeQueueCount = queuedCommands.filter(c => c.status === 'pending' || c.status === 'running').length
 
   const terminalRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
@@ -103,10 +116,15 @@ export function AdbTerminal({ sidebarOffset = '0px' }: AdbTerminalProps) {
 
   // Focus input when terminal opens
   useEffect(() => {
-    if (isOpen && inputRef.current) {
+    if (isOpen && mode === 'restricted' && inputRef.current) {
       inputRef.current.focus()
     }
-  }, [isOpen])
+  }, [isOpen, mode])
+
+  // Demo mode has no real transport to open a PTY on
+  useEffect(() => {
+    if (isDemoMode) setMode(current => current === 'interactive' ? 'restricted' : current)
+  }, [isDemoMode])
 
   const executeCommand = useCallback(async () => {
     if (!inputValue.trim() || isExecuting || !isConnected) return
@@ -270,6 +288,48 @@ export function AdbTerminal({ sidebarOffset = '0px' }: AdbTerminalProps) {
                   </div>
                 </div>
                 <div className="flex items-center gap-1">
+                  {/* Mode switch */}
+                  <div className="flex items-center mr-2 p-0.5 rounded-xl bg-surface-200/60 dark:bg-[#0d1117] border border-surface-200 dark:border-[#30363d]">
+                    <button
+                      onClick={() => setMode('restricted')}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-mono transition-colors ${mode === 'restricted'
+                        ? 'bg-white dark:bg-[#30363d] text-surface-900 dark:text-[#c9d1d9]'
+                        : 'text-surface-500 dark:text-[#8b949e] hover:text-surface-900 dark:hover:text-[#c9d1d9]'
+                        }`}
+                      title={t('terminal.modeRestrictedHint')}
+                    >
+                      <Shield className="w-3.5 h-3.5" strokeWidth={1.5} />
+                      {!isMobile && t('terminal.modeRestricted')}
+                    </button>
+                    <button
+                      onClick={() => setMode('interactive')}
+                      disabled={isDemoMode}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-mono transition-colors disabled:opacity-40 ${mode === 'interactive'
+                        ? 'bg-white dark:bg-[#30363d] text-surface-900 dark:text-[#c9d1d9]'
+                        : 'text-surface-500 dark:text-[#8b949e] hover:text-surface-900 dark:hover:text-[#c9d1d9]'
+                        }`}
+                      title={t('terminal.modeInteractiveHint')}
+                    >
+                      <SquareTerminal className="w-3.5 h-3.5" strokeWidth={1.5} />
+                      {!isMobile && t('terminal.modeInteractive')}
+                    </button>
+                    <button
+                      onClick={() => setMode('queue')}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-mono transition-colors ${mode === 'queue'
+                        ? 'bg-white dark:bg-[#30363d] text-surface-900 dark:text-[#c9d1d9]'
+                        : 'text-surface-500 dark:text-[#8b949e] hover:text-surface-900 dark:hover:text-[#c9d1d9]'
+                        }`}
+                      title={t('terminal.modeQueueHint')}
+                    >
+                      <ListOrdered className="w-3.5 h-3.5" strokeWidth={1.5} />
+                      {!isMobile && t('terminal.modeQueue')}
+                      {activeQueueCount > 0 && (
+                        <span className="min-w-[16px] px-1 rounded-full bg-accent-500 text-white text-[10px] leading-4 text-center">
+                          {activeQueueCount}
+                        </span>
+                      )}
+                    </button>
+                  </div>
                   <button
                     onClick={downloadFullLog}
                     className="p-1.5 rounded-xl hover:bg-surface-200 dark:hover:bg-[#30363d] text-surface-500 dark:text-[#8b949e] transition-colors"
@@ -303,85 +363,93 @@ export function AdbTerminal({ sidebarOffset = '0px' }: AdbTerminalProps) {
                 </div>
               </div>
 
-              {/* Terminal Output */}
-              <div
-                ref={terminalRef}
-                onScroll={handleScroll}
-                className="flex-1 overflow-y-auto overflow-x-auto p-4 lg:p-6 font-mono text-sm bg-surface-50/30 dark:bg-black/20"
-              >
-                {terminalLines.length === 0 && !pendingCommand ? (
-                  <div className="h-full flex flex-col items-center justify-center text-[#8b949e] opacity-50 space-y-4">
-                    <Terminal className="w-12 h-12" strokeWidth={1} />
-                    <div className="text-center">
-                      <p className="font-medium">{t('terminal.ready')}</p>
-                      <p className="text-xs mt-1">{t('terminal.instructions')}</p>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    {/* Notice for hidden logs */}
-                    {totalCommands > 100 && visibleLogs.length === 100 && (
-                      <div className="flex items-center gap-3 p-3 rounded-xl bg-accent-500/5 border border-accent-500/20 text-xs text-surface-500 dark:text-[#8b949e]">
-                        <AlertCircle className="w-4 h-4 text-accent-500" strokeWidth={1.5} />
-                        <span>
-                          {t('terminal.hiddenLogsNotice') || 'Some previous commands are hidden.'}
-                          <button
-                            onClick={downloadFullLog}
-                            className="ml-2 text-accent-500 hover:underline font-bold"
-                          >
-                            {t('terminal.downloadLog')}
-                          </button>
-                        </span>
+              {mode === 'queue' ? (
+                <CommandQueueView />
+              ) : mode === 'interactive' ? (
+                <PtyTerminalView />
+              ) : (
+                <>
+                {/* Terminal Output */}
+                <div
+                  ref={terminalRef}
+                  onScroll={handleScroll}
+                  className="flex-1 overflow-y-auto overflow-x-auto p-4 lg:p-6 font-mono text-sm bg-surface-50/30 dark:bg-black/20"
+                >
+                  {terminalLines.length === 0 && !pendingCommand ? (
+                    <div className="h-full flex flex-col items-center justify-center text-[#8b949e] opacity-50 space-y-4">
+                      <Terminal className="w-12 h-12" strokeWidth={1} />
+                      <div className="text-center">
+                        <p className="font-medium">{t('terminal.ready')}</p>
+                        <p className="text-xs mt-1">{t('terminal.instructions')}</p>
                       </div>
-                    )}
-
-                    {terminalLines.map((line) => (
-                      <TerminalRow key={line.id} line={line} />
-                    ))}
-                    {pendingCommand && (
-                      <div className="animate-pulse">
-                        <div className="flex items-start gap-2">
-                          <span className="text-accent-500 dark:text-[#58a6ff] select-none shrink-0 font-bold">$</span>
-                          <span className="text-emerald-500 font-semibold">{pendingCommand}</span>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {/* Notice for hidden logs */}
+                      {totalCommands > 100 && visibleLogs.length === 100 && (
+                        <div className="flex items-center gap-3 p-3 rounded-xl bg-accent-500/5 border border-accent-500/20 text-xs text-surface-500 dark:text-[#8b949e]">
+                          <AlertCircle className="w-4 h-4 text-accent-500" strokeWidth={1.5} />
+                          <span>
+                            {t('terminal.hiddenLogsNotice') || 'Some previous commands are hidden.'}
+                            <button
+                              onClick={downloadFullLog}
+                              className="ml-2 text-accent-500 hover:underline font-bold"
+                            >
+                              {t('terminal.downloadLog')}
+                            </button>
+                          </span>
                         </div>
-                        <div className="text-surface-400 text-[10px] pl-5 mt-1 italic">
-                          {t('terminal.executing')}...
+                      )}
+
+                      {terminalLines.map((line) => (
+                        <TerminalRow key={line.id} line={line} />
+                      ))}
+                      {pendingCommand && (
+                        <div className="animate-pulse">
+                          <div className="flex items-start gap-2">
+                            <span className="text-accent-500 dark:text-[#58a6ff] select-none shrink-0 font-bold">$</span>
+                            <span className="text-emerald-500 font-semibold">{pendingCommand}</span>
+                          </div>
+                          <div className="text-surface-400 text-[10px] pl-5 mt-1 italic">
+                            {t('terminal.executing')}...
+                          </div>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
+                      )}
+                    </div>
+                  )}
+                </div>
 
-              {/* Input */}
-              <div className={`
-                flex items-center gap-3 px-4 py-4 border-t border-surface-200 dark:border-[#30363d] bg-surface-50 dark:bg-[#161b22]
-                ${isMobile ? 'pb-8' : ''}
-              `}>
-                <div className="flex items-center justify-center w-6 h-6 rounded bg-accent-500/10">
-                  <span className="text-accent-500 font-bold font-mono text-sm leading-none">$</span>
+                {/* Input */}
+                <div className={`
+                  flex items-center gap-3 px-4 py-4 border-t border-surface-200 dark:border-[#30363d] bg-surface-50 dark:bg-[#161b22]
+                  ${isMobile ? 'pb-8' : ''}
+                `}>
+                  <div className="flex items-center justify-center w-6 h-6 rounded bg-accent-500/10">
+                    <span className="text-accent-500 font-bold font-mono text-sm leading-none">$</span>
+                  </div>
+                  <input
+                    ref={inputRef}
+                    type="text"
+                    value={inputValue}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={t('terminal.placeholder')}
+                    disabled={isExecuting}
+                    className="flex-1 bg-transparent border-none outline-none text-emerald-600 dark:text-[#39d353] font-mono text-sm
+                      placeholder:text-surface-400 dark:placeholder:text-[#484f58] disabled:opacity-50"
+                    style={{ textShadow: inputValue ? '0 0 10px rgba(52, 211, 153, 0.3)' : 'none' }}
+                  />
+                  <button
+                    onClick={executeCommand}
+                    disabled={!inputValue.trim() || isExecuting}
+                    className="w-10 h-10 rounded-xl bg-accent-500 hover:bg-accent-600 text-white flex items-center justify-center
+                      disabled:opacity-50 disabled:bg-surface-300 dark:disabled:bg-surface-800 transition-all duration-200 shadow-lg shadow-accent-500/20 active:scale-90"
+                  >
+                    <Send className="w-5 h-5" strokeWidth={1.5} />
+                  </button>
                 </div>
-                <input
-                  ref={inputRef}
-                  type="text"
-                  value={inputValue}
-                  onChange={(e) => setInputValue(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder={t('terminal.placeholder')}
-                  disabled={isExecuting}
-                  className="flex-1 bg-transparent border-none outline-none text-emerald-600 dark:text-[#39d353] font-mono text-sm
-                    placeholder:text-surface-400 dark:placeholder:text-[#484f58] disabled:opacity-50"
-                  style={{ textShadow: inputValue ? '0 0 10px rgba(52, 211, 153, 0.3)' : 'none' }}
-                />
-                <button
-                  onClick={executeCommand}
-                  disabled={!inputValue.trim() || isExecuting}
-                  className="w-10 h-10 rounded-xl bg-accent-500 hover:bg-accent-600 text-white flex items-center justify-center
-                    disabled:opacity-50 disabled:bg-surface-300 dark:disabled:bg-surface-800 transition-all duration-200 shadow-lg shadow-accent-500/20 active:scale-90"
-                >
-                  <Send className="w-5 h-5" strokeWidth={1.5} />
-                </button>
-              </div>
+                </>
+              )}
             </motion.div>
           </>
         )}
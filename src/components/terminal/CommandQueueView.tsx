@@ -0,0 +1,152 @@
+/**
+ * Command Queue View
+ * Coda dei comandi ADB: in esecuzione, in attesa e terminati.
+ * I comandi in corso si possono annullare, quelli falliti rieseguire.
+ */
+
+import { useEffect, useState } from 'react'
+import { ListOrdered, X, RotateCcw, Trash2, Loader2 } from 'lucide-react'
+import { useTranslation } from '@/stores/i18nStore'
+import { useCommandQueue } from '@/hooks/useCommandQueue'
+import {
+  cancelCommand,
+  cancelPendingCommands,
+  clearFinishedCommands,
+  getCommandConcurrency,
+  retryCommand,
+  type QueuedCommand,
+  type QueuedCommandStatus
+} from '@/services/command-queue'
+
+const STATUS_STYLES: Record<QueuedCommandStatus, string> = {
+  pending: 'text-surface-500 dark:text-[#8b949e]',
+  running: 'text-accent-600 dark:text-[#58a6ff]',
+  success: 'text-emerald-600 dark:text-[#3fb950]',
+  failed: 'text-red-600 dark:text-[#f85149]',
+  timeout: 'text-amber-600 dark:text-[#d29922]',
+  cancelled: 'text-surface-400 dark:text-[#6e7681]',
+}
+
+function elapsedSeconds(command: QueuedCommand, now: number): string {
+  const start = command.startedAt ?? command.enqueuedAt
+  const end = command.finishedAt ?? now
+  return ((end - start) / 1000).toFixed(1)
+}
+
+function QueueRow({ command, now }: { command: QueuedCommand; now: number }) {
+  const { t } = useTranslation()
+  const isActive = command.status === 'pending' || command.status === 'running'
+
+  return (
+    <div className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-surface-100 dark:hover:bg-white/5">
+      <div className={`w-20 shrink-0 flex items-center gap-1 text-[11px] font-semibold ${STATUS_STYLES[command.status]}`}>
+        {command.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" strokeWidth={2} />}
+        {t(`terminal.queue.status.${command.status}`)}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-surface-900 dark:text-[#c9d1d9] break-all">{command.label}</p>
+        <div className="flex items-center gap-2 mt-0.5 text-[10px] text-surface-400 dark:text-[#6e7681]">
+          <span>{command.serial}</span>
+          <span>·</span>
+          <span>{t(`terminal.queue.priority.${command.priority}`)}</span>
+          {command.status !== 'pending' && (
+            <>
+              <span>·</span>
+              <span>{t('terminal.queue.duration', { seconds: elapsedSeconds(command, now) })}</span>
+            </>
+          )}
+        </div>
+        {command.error && (
+          <p className="text-[10px] text-red-500 dark:text-[#f85149] mt-0.5 break-all">{command.error}</p>
+        )}
+      </div>
+      {isActive && (
+        <button
+          onClick={() => cancelCommand(command.id)}
+          className="p-1 rounded-lg text-surface-400 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+          title={t('terminal.queue.cancel')}
+        >
+          <X className="w-3.5 h-3.5" strokeWidth={2} />
+        </button>
+      )}
+      {command.retryable && (
+        <button
+          onClick={() => { retryCommand(command.id)?.catch(() => undefined) }}
+          className="p-1 rounded-lg text-surface-400 hover:text-accent-500 hover:bg-accent-500/10 transition-colors"
+          title={t('terminal.queue.retry')}
+        >
+          <RotateCcw className="w-3.5 h-3.5" strokeWidth={2} />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function CommandQueueView() {
+  const { t } = useTranslation()
+  const commands = useCommandQueue()
+  const [now, setNow] = useState(Date.now())
+
+  const running = commands.filter(c => c.status === 'running')
+  const pending = commands.filter(c => c.status === 'pending')
+  const finished = commands.filter(c => c.status !== 'running' && c.status !== 'pending')
+
+  // Tick the running durations
+  useEffect(() => {
+    if (running.length === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 500)
+    return () => clearInterval(timer)
+  }, [running.length])
+
+  const sections: { key: string; title: string; items: QueuedCommand[] }[] = [
+    { key: 'running', title: t('terminal.queue.running'), items: running },
+    { key: 'pending', title: t('terminal.queue.pending'), items: pending },
+    { key: 'finished', title: t('terminal.queue.finished'), items: finished },
+  ]
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 font-mono bg-surface-50/30 dark:bg-black/20">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-surface-200 dark:border-[#30363d] text-[11px] text-surface-500 dark:text-[#8b949e]">
+        <span>{t('terminal.queue.concurrency', { count: getCommandConcurrency() })}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => cancelPendingCommands()}
+            disabled={pending.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-surface-200 dark:hover:bg-[#30363d] disabled:opacity-40 transition-colors"
+          >
+            <X className="w-3.5 h-3.5" strokeWidth={1.5} />
+            {t('terminal.queue.cancelPending')}
+          </button>
+          <button
+            onClick={clearFinishedCommands}
+            disabled={finished.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-surface-200 dark:hover:bg-[#30363d] disabled:opacity-40 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" strokeWidth={1.5} />
+            {t('terminal.queue.clearFinished')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {commands.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-[#8b949e] opacity-50 space-y-4">
+            <ListOrdered className="w-12 h-12" strokeWidth={1} />
+            <p className="font-medium text-sm">{t('terminal.queue.empty')}</p>
+          </div>
+        ) : (
+          sections.filter(section => section.items.length > 0).map(section => (
+            <div key={section.key}>
+              <p className="px-3 mb-1 text-[10px] uppercase tracking-wider font-semibold text-surface-400 dark:text-[#6e7681]">
+                {section.title} ({section.items.length})
+              </p>
+              {section.items.map(command => (
+                <QueueRow key={command.id} command={command} now={now} />
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
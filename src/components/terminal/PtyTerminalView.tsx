@@ -0,0 +1,291 @@
+/**
+ * PTY Terminal View
+ * Shell interattiva reale (adb shell con PTY) renderizzata con colori ANSI.
+ * Tastiera, incolla e ridimensionamento vengono inoltrati al dispositivo.
+ */
+
+import { useState, useRef, useEffect, useCallback, type CSSProperties } from 'react'
+import { Play, Square, Zap, AlertTriangle } from 'lucide-react'
+import { useAdbStore } from '@/stores/adbStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { openInteractiveShell, type InteractiveShell } from '@/services/adb-client'
+import { TerminalScreen, keyEventToSequence, type CellStyle, type StyledSpan } from '@/lib/ansi-terminal'
+
+type SessionStatus = 'idle' | 'connecting' | 'running' | 'exited'
+
+const DEFAULT_COLS = 80
+const DEFAULT_ROWS = 24
+const RESIZE_DEBOUNCE_MS = 150
+
+function spanStyle(style: CellStyle, cursor?: boolean): CSSProperties {
+  let fg = style.fg
+  let bg = style.bg
+  if (style.inverse) {
+    fg = style.bg ?? '#0d1117'
+    bg = style.fg ?? '#c9d1d9'
+  }
+  if (cursor) {
+    fg = bg ?? '#0d1117'
+    bg = style.fg ?? '#c9d1d9'
+  }
+
+  return {
+    color: fg,
+    backgroundColor: bg,
+    fontWeight: style.bold ? 700 : undefined,
+    opacity: style.dim ? 0.7 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: style.underline ? 'underline' : undefined,
+  }
+}
+
+export function PtyTerminalView() {
+  const { t } = useTranslation()
+  const activeSerial = useAdbStore(state => state.activeSerial)
+  const addCommandLog = useAdbStore(state => state.addCommandLog)
+
+  const [status, setStatus] = useState<SessionStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [lines, setLines] = useState<StyledSpan[][]>([])
+  const [size, setSize] = useState({ cols: DEFAULT_COLS, rows: DEFAULT_ROWS })
+
+  const screenRef = useRef(new TerminalScreen(DEFAULT_COLS, DEFAULT_ROWS))
+  const sessionRef = useRef<InteractiveShell | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const measureRef = useRef<HTMLSpanElement>(null)
+  const frameRef = useRef<number | null>(null)
+  const autoScrollRef = useRef(true)
+
+  // Coalesce output bursts into one render per animation frame
+  const scheduleRender = useCallback(() => {
+    if (frameRef.current !== null) return
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null
+      setLines(screenRef.current.getLines())
+    })
+  }, [])
+
+  const stop = useCallback(async () => {
+    const session = sessionRef.current
+    sessionRef.current = null
+    if (session) {
+      await session.kill().catch(() => undefined)
+    }
+  }, [])
+
+  const start = useCallback(async () => {
+    if (sessionRef.current) return
+
+    const screen = screenRef.current
+    screen.clear()
+    scheduleRender()
+    setError(null)
+    setStatus('connecting')
+
+    let session: InteractiveShell
+    try {
+      session = await openInteractiveShell({ cols: screen.cols, rows: screen.rows })
+    } catch (e) {
+      setStatus('idle')
+      setError(e instanceof Error ? e.message : t('terminal.error'))
+      return
+    }
+
+    sessionRef.current = session
+    setStatus('running')
+    addCommandLog({ command: 'adb shell (pty)', result: 'success', message: t('terminal.pty.sessionStarted') })
+    containerRef.current?.focus()
+
+    const decoder = new TextDecoder()
+    const reader = session.output.getReader()
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        screen.write(decoder.decode(value, { stream: true }))
+        scheduleRender()
+      }
+    } catch {
+      // Stream errors when the device goes away; handled as a normal exit
+    } finally {
+      reader.releaseLock()
+    }
+
+    const exitCode = await session.exited.catch(() => undefined)
+    if (sessionRef.current === session) sessionRef.current = null
+    setStatus('exited')
+    addCommandLog({
+      command: 'adb shell (pty)',
+      result: exitCode === undefined || exitCode === 0 ? 'success' : 'error',
+      message: t('terminal.pty.sessionEnded', { code: exitCode ?? '-' })
+    })
+  }, [addCommandLog, scheduleRender, t])
+
+  // Active device changed or view unmounted: the session belongs to the old transport
+  useEffect(() => {
+    return () => {
+      void stop()
+    }
+  }, [activeSerial, stop])
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+  }, [])
+
+  // Fit the PTY window size to the visible area
+  useEffect(() => {
+    const container = containerRef.current
+    const measure = measureRef.current
+    if (!container || !measure) return
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const observer = new ResizeObserver(() => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => {
+        const { width: charWidth, height: lineHeight } = measure.getBoundingClientRect()
+        if (!charWidth || !lineHeight) return
+
+        const style = getComputedStyle(container)
+        const innerWidth = container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight)
+        const innerHeight = container.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom)
+        const cols = Math.max(20, Math.floor(innerWidth / charWidth))
+        const rows = Math.max(5, Math.floor(innerHeight / lineHeight))
+
+        screenRef.current.resize(cols, rows)
+        setSize({ cols, rows })
+        scheduleRender()
+        void sessionRef.current?.resize(cols, rows).catch(() => undefined)
+      }, RESIZE_DEBOUNCE_MS)
+    })
+
+    observer.observe(container)
+    return () => {
+      clearTimeout(timeout)
+      observer.disconnect()
+    }
+  }, [scheduleRender])
+
+  // Keep the cursor in view unless the user scrolled back
+  useEffect(() => {
+    const container = containerRef.current
+    if (container && autoScrollRef.current) {
+      container.scrollTop = container.scrollHeight
+    }
+  }, [lines])
+
+  const handleScroll = () => {
+    const container = containerRef.current
+    if (!container) return
+    autoScrollRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 40
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const session = sessionRef.current
+    if (!session) {
+      if (e.key === 'Enter' && status !== 'connecting') {
+        e.preventDefault()
+        void start()
+      }
+      return
+    }
+
+    // Ctrl+Shift+C / Ctrl+Shift+V stay with the browser (copy / paste)
+    if (e.ctrlKey && e.shiftKey) return
+    if (e.nativeEvent.isComposing) return
+
+    if (e.ctrlKey && e.key.toLowerCase() === 'c') {
+      e.preventDefault()
+      void session.interrupt()
+      return
+    }
+
+    const sequence = keyEventToSequence(e)
+    if (sequence === null) return
+
+    e.preventDefault()
+    autoScrollRef.current = true
+    void session.write(sequence)
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const session = sessionRef.current
+    if (!session) return
+    e.preventDefault()
+    const text = e.clipboardData.getData('text').replace(/\r?\n/g, '\r')
+    if (text) void session.write(text)
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Status bar */}
+      <div className="flex items-center justify-between gap-3 px-4 py-2 text-[11px] font-mono border-b border-surface-200 dark:border-[#30363d] bg-amber-500/5">
+        <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400 min-w-0">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" strokeWidth={1.5} />
+          <span className="truncate">{t('terminal.pty.warning')}</span>
+        </div>
+        <div className="flex items-center gap-3 shrink-0 text-surface-500 dark:text-[#8b949e]">
+          <span>{size.cols}×{size.rows}</span>
+          {status === 'running' ? (
+            <>
+              <button
+                onClick={() => void sessionRef.current?.interrupt()}
+                className="flex items-center gap-1 hover:text-accent-500 transition-colors"
+                title={t('terminal.pty.interrupt')}
+              >
+                <Zap className="w-3.5 h-3.5" strokeWidth={1.5} />
+                Ctrl‑C
+              </button>
+              <button
+                onClick={() => void stop()}
+                className="flex items-center gap-1 hover:text-red-500 transition-colors"
+              >
+                <Square className="w-3.5 h-3.5" strokeWidth={1.5} />
+                {t('terminal.pty.stop')}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => void start()}
+              disabled={status === 'connecting'}
+              className="flex items-center gap-1 text-accent-500 hover:text-accent-600 disabled:opacity-50 transition-colors"
+            >
+              <Play className="w-3.5 h-3.5" strokeWidth={1.5} />
+              {status === 'exited' ? t('terminal.pty.restart') : t('terminal.pty.start')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Screen */}
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onScroll={handleScroll}
+        className="relative flex-1 overflow-y-auto overflow-x-hidden p-3 font-mono text-[13px] leading-[1.35] outline-none
+          bg-[#0d1117] text-[#c9d1d9] focus:ring-1 focus:ring-inset focus:ring-accent-500/40"
+      >
+        <span ref={measureRef} aria-hidden className="absolute invisible whitespace-pre">W</span>
+
+        {status === 'idle' || (status === 'connecting' && lines.every(line => line.length === 0)) ? (
+          <div className="h-full flex flex-col items-center justify-center gap-2 text-[#8b949e] text-center">
+            <p className="font-medium">{status === 'connecting' ? t('terminal.pty.connecting') : t('terminal.pty.ready')}</p>
+            <p className="text-xs opacity-70">{t('terminal.pty.instructions')}</p>
+            {error && <p className="text-xs text-[#f85149]">{error}</p>}
+          </div>
+        ) : (
+          lines.map((line, index) => (
+            <div key={index} className="whitespace-pre min-h-[1.35em]">
+              {line.map((span, spanIndex) => (
+                <span key={spanIndex} style={spanStyle(span.style, span.cursor && status === 'running')}>
+                  {span.text}
+                </span>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -66,6 +66,26 @@ export const REDDIT_URL = ''
  */
 export const ADB_COMMAND_TIMEOUT = 30000
 
+/**
+ * Timeout per i comandi lunghi: installazioni, backup, copie di file (ms)
+ */
+export const ADB_LONG_COMMAND_TIMEOUT = 10 * 60 * 1000
+
+/**
+ * Numero predefinito di comandi ADB eseguiti in parallelo per dispositivo
+ */
+export const ADB_COMMAND_CONCURRENCY = 4
+
+/**
+ * URL del bridge WebSocket → TCP per ADB via Wi-Fi (scripts/adb-wifi-bridge.mjs)
+ */
+export const ADB_BRIDGE_URL: string = import.meta.env.VITE_ADB_BRIDGE_URL || 'ws://127.0.0.1:15037'
+
+/**
+ * Porta dell'adb server locale, usata per pairing e wireless debugging
+ */
+export const ADB_SERVER_PORT = 5037
+
 /**
  * Numero massimo di log da mantenere
  */
@@ -84,11 +104,14 @@ export interface AppSettings {
   deviceAutoLogin: boolean
   /** Abilita estrazione icone e nomi dal dispositivo */
   enableDeviceScraping: boolean
+  /** Comandi ADB eseguiti in parallelo per dispositivo */
+  commandConcurrency: number
 }
 
 export const DEFAULT_APP_SETTINGS: AppSettings = {
   deviceAutoLogin: true,
-  enableDeviceScraping: false
+  enableDeviceScraping: false,
+  commandConcurrency: ADB_COMMAND_CONCURRENCY
 }
 
 /**
@@ -108,6 +131,10 @@ export function getAppSettings(): AppSettings {
           enableDeviceScraping: typeof parsed.enableDeviceScraping === 'boolean'
             ? parsed.enableDeviceScraping
             : DEFAULT_APP_SETTINGS.enableDeviceScraping,
+          commandConcurrency: Number.isInteger(parsed.commandConcurrency)
+            && parsed.commandConcurrency >= 1 && parsed.commandConcurrency <= 16
+            ? parsed.commandConcurrency
+            : DEFAULT_APP_SETTINGS.commandConcurrency,
         }
       }
     }
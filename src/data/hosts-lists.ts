@@ -189,68 +189,6 @@ export function getEstimatedEntriesForLevel(level: HostsLevel): number {
   return lists.reduce((sum, list) => sum + list.estimatedEntries, 0)
 }
 
-/**
- * Genera il contenuto del file hosts combinando le liste
- */
-export async function generateHostsFile(level: HostsLevel): Promise<string> {
-  const lists = getListsForLevel(level)
-  const domains = new Set<string>()
-
-  // Header
-  let content = `# ADBZero Hosts File
-# Level: ${level}
-# Generated: ${new Date().toISOString()}
-# Total lists: ${lists.length}
-#
-# This file was automatically generated by ADBZero.com
-
-127.0.0.1 localhost
-::1 localhost
-
-`
-
-  // Fetch e merge delle liste
-  for (const list of lists) {
-    try {
-      const response = await fetch(list.url)
-      if (!response.ok) continue
-
-      const text = await response.text()
-      const lines = text.split('\n')
-
-      for (const line of lines) {
-        // Salta commenti e righe vuote
-        if (line.startsWith('#') || line.trim() === '') continue
-
-        // Estrai dominio
-        const parts = line.trim().split(/\s+/)
-        if (parts.length >= 2) {
-          const domain = parts[1]
-          // Ignora localhost e domini locali
-          if (domain && domain !== 'localhost' && !domain.startsWith('local')) {
-            domains.add(domain)
-          }
-        } else if (parts.length === 1 && !parts[0].startsWith('0.0.0.0') && !parts[0].startsWith('127.0.0.1')) {
-          // Alcune liste hanno solo il dominio
-          domains.add(parts[0])
-        }
-      }
-    } catch (error) {
-      console.warn(`Failed to fetch ${list.name}:`, error)
-    }
-  }
-
-  // Genera righe hosts
-  const sortedDomains = Array.from(domains).sort()
-  for (const domain of sortedDomains) {
-    content += `0.0.0.0 ${domain}\n`
-  }
-
-  content += `\n# Total blocked: ${sortedDomains.length} domains\n`
-
-  return content
-}
-
 /**
  * Private DNS servers per ad-blocking (alternativa non-root)
  */
@@ -0,0 +1,448 @@
+/**
+ * Tracker Signatures
+ * Dataset offline delle firme dei tracker (stile Exodus Privacy): ogni firma
+ * è un prefisso di package Java cercato tra le classi dei file dex e i
+ * componenti registrati. Aggiornare TRACKER_DATASET_VERSION a ogni modifica,
+ * i report salvati con una versione diversa vengono segnalati come obsoleti.
+ */
+
+export type TrackerCategory =
+  | 'analytics'
+  | 'advertisement'
+  | 'crash_reporting'
+  | 'identification'
+  | 'location'
+  | 'profiling'
+
+export interface TrackerSignature {
+  id: string
+  name: string
+  categories: TrackerCategory[]
+  /** Package prefixes, e.g. `com.google.firebase.analytics` */
+  signatures: string[]
+  website: string
+}
+
+export const TRACKER_DATASET_VERSION = '2026.10.1'
+
+export const TRACKER_SIGNATURES: TrackerSignature[] = [
+  // Google
+  {
+    id: 'google-firebase-analytics',
+    name: 'Google Firebase Analytics',
+    categories: ['analytics'],
+    signatures: ['com.google.firebase.analytics', 'com.google.android.gms.measurement'],
+    website: 'https://firebase.google.com/'
+  },
+  {
+    id: 'google-crashlytics',
+    name: 'Google CrashLytics',
+    categories: ['crash_reporting'],
+    signatures: ['com.crashlytics', 'com.google.firebase.crashlytics', 'io.fabric.sdk.android'],
+    website: 'https://firebase.google.com/products/crashlytics'
+  },
+  {
+    id: 'google-admob',
+    name: 'Google AdMob',
+    categories: ['advertisement'],
+    signatures: ['com.google.android.gms.ads', 'com.google.ads'],
+    website: 'https://admob.google.com/'
+  },
+  {
+    id: 'google-analytics',
+    name: 'Google Analytics',
+    categories: ['analytics'],
+    signatures: ['com.google.android.apps.analytics', 'com.google.android.gms.analytics', 'com.google.analytics'],
+    website: 'https://marketingplatform.google.com/about/analytics/'
+  },
+  {
+    id: 'google-tag-manager',
+    name: 'Google Tag Manager',
+    categories: ['analytics'],
+    signatures: ['com.google.android.gms.tagmanager', 'com.google.tagmanager'],
+    website: 'https://marketingplatform.google.com/about/tag-manager/'
+  },
+  {
+    id: 'google-doubleclick',
+    name: 'Google DoubleClick',
+    categories: ['advertisement'],
+    signatures: ['com.google.android.gms.ads.doubleclick', 'com.google.ads.interactivemedia'],
+    website: 'https://marketingplatform.google.com/'
+  },
+  {
+    id: 'google-firebase-performance',
+    name: 'Google Firebase Performance Monitoring',
+    categories: ['analytics'],
+    signatures: ['com.google.firebase.perf'],
+    website: 'https://firebase.google.com/products/performance'
+  },
+
+  // Meta
+  {
+    id: 'facebook-analytics',
+    name: 'Facebook Analytics',
+    categories: ['analytics'],
+    signatures: ['com.facebook.appevents', 'com.facebook.marketing'],
+    website: 'https://developers.facebook.com/docs/app-events'
+  },
+  {
+    id: 'facebook-ads',
+    name: 'Facebook Ads',
+    categories: ['advertisement'],
+    signatures: ['com.facebook.ads'],
+    website: 'https://developers.facebook.com/docs/audience-network'
+  },
+  {
+    id: 'facebook-login',
+    name: 'Facebook Login',
+    categories: ['identification'],
+    signatures: ['com.facebook.login'],
+    website: 'https://developers.facebook.com/docs/facebook-login'
+  },
+  {
+    id: 'facebook-share',
+    name: 'Facebook Share',
+    categories: ['profiling'],
+    signatures: ['com.facebook.share'],
+    website: 'https://developers.facebook.com/docs/sharing'
+  },
+
+  // Attribution & marketing
+  {
+    id: 'appsflyer',
+    name: 'AppsFlyer',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.appsflyer'],
+    website: 'https://www.appsflyer.com/'
+  },
+  {
+    id: 'adjust',
+    name: 'Adjust',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.adjust.sdk'],
+    website: 'https://www.adjust.com/'
+  },
+  {
+    id: 'branch',
+    name: 'Branch',
+    categories: ['analytics', 'profiling'],
+    signatures: ['io.branch'],
+    website: 'https://branch.io/'
+  },
+  {
+    id: 'kochava',
+    name: 'Kochava',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.kochava'],
+    website: 'https://www.kochava.com/'
+  },
+  {
+    id: 'singular',
+    name: 'Singular',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.singular.sdk'],
+    website: 'https://www.singular.net/'
+  },
+  {
+    id: 'braze',
+    name: 'Braze (formerly Appboy)',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.appboy', 'com.braze'],
+    website: 'https://www.braze.com/'
+  },
+  {
+    id: 'clevertap',
+    name: 'CleverTap',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.clevertap'],
+    website: 'https://clevertap.com/'
+  },
+  {
+    id: 'leanplum',
+    name: 'Leanplum',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.leanplum'],
+    website: 'https://www.leanplum.com/'
+  },
+  {
+    id: 'onesignal',
+    name: 'OneSignal',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.onesignal'],
+    website: 'https://onesignal.com/'
+  },
+  {
+    id: 'airship',
+    name: 'Airship (Urban Airship)',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.urbanairship'],
+    website: 'https://www.airship.com/'
+  },
+
+  // Product analytics
+  {
+    id: 'amplitude',
+    name: 'Amplitude',
+    categories: ['analytics'],
+    signatures: ['com.amplitude'],
+    website: 'https://amplitude.com/'
+  },
+  {
+    id: 'mixpanel',
+    name: 'Mixpanel',
+    categories: ['analytics'],
+    signatures: ['com.mixpanel'],
+    website: 'https://mixpanel.com/'
+  },
+  {
+    id: 'segment',
+    name: 'Segment',
+    categories: ['analytics'],
+    signatures: ['com.segment.analytics'],
+    website: 'https://segment.com/'
+  },
+  {
+    id: 'flurry',
+    name: 'Flurry',
+    categories: ['analytics', 'advertisement'],
+    signatures: ['com.flurry'],
+    website: 'https://www.flurry.com/'
+  },
+  {
+    id: 'yandex-appmetrica',
+    name: 'Yandex AppMetrica',
+    categories: ['analytics'],
+    signatures: ['com.yandex.metrica', 'io.appmetrica'],
+    website: 'https://appmetrica.yandex.com/'
+  },
+  {
+    id: 'microsoft-appcenter',
+    name: 'Microsoft Visual Studio App Center Analytics',
+    categories: ['analytics'],
+    signatures: ['com.microsoft.appcenter.analytics'],
+    website: 'https://appcenter.ms/'
+  },
+  {
+    id: 'new-relic',
+    name: 'New Relic',
+    categories: ['analytics'],
+    signatures: ['com.newrelic.agent'],
+    website: 'https://newrelic.com/'
+  },
+  {
+    id: 'hotjar',
+    name: 'Hotjar',
+    categories: ['analytics'],
+    signatures: ['com.hotjar'],
+    website: 'https://www.hotjar.com/'
+  },
+  {
+    id: 'uxcam',
+    name: 'UXCam',
+    categories: ['analytics'],
+    signatures: ['com.uxcam'],
+    website: 'https://uxcam.com/'
+  },
+  {
+    id: 'smartlook',
+    name: 'Smartlook',
+    categories: ['analytics'],
+    signatures: ['com.smartlook'],
+    website: 'https://www.smartlook.com/'
+  },
+  {
+    id: 'comscore',
+    name: 'comScore',
+    categories: ['analytics'],
+    signatures: ['com.comscore'],
+    website: 'https://www.comscore.com/'
+  },
+  {
+    id: 'adobe-experience-cloud',
+    name: 'Adobe Experience Cloud',
+    categories: ['analytics', 'profiling'],
+    signatures: ['com.adobe.marketing.mobile', 'com.adobe.mobile'],
+    website: 'https://business.adobe.com/'
+  },
+
+  // Crash reporting
+  {
+    id: 'sentry',
+    name: 'Sentry',
+    categories: ['crash_reporting'],
+    signatures: ['io.sentry'],
+    website: 'https://sentry.io/'
+  },
+  {
+    id: 'bugsnag',
+    name: 'Bugsnag',
+    categories: ['crash_reporting'],
+    signatures: ['com.bugsnag'],
+    website: 'https://www.bugsnag.com/'
+  },
+  {
+    id: 'instabug',
+    name: 'Instabug',
+    categories: ['crash_reporting'],
+    signatures: ['com.instabug'],
+    website: 'https://www.instabug.com/'
+  },
+  {
+    id: 'acra',
+    name: 'ACRA',
+    categories: ['crash_reporting'],
+    signatures: ['org.acra'],
+    website: 'https://github.com/ACRA/acra'
+  },
+
+  // Ad networks
+  {
+    id: 'applovin',
+    name: 'AppLovin (MAX and SparkLabs)',
+    categories: ['advertisement', 'analytics'],
+    signatures: ['com.applovin'],
+    website: 'https://www.applovin.com/'
+  },
+  {
+    id: 'unity-ads',
+    name: 'Unity3d Ads',
+    categories: ['advertisement'],
+    signatures: ['com.unity3d.ads', 'com.unity3d.services'],
+    website: 'https://unity.com/products/unity-ads'
+  },
+  {
+    id: 'ironsource',
+    name: 'ironSource',
+    categories: ['advertisement', 'analytics'],
+    signatures: ['com.ironsource'],
+    website: 'https://www.is.com/'
+  },
+  {
+    id: 'vungle',
+    name: 'Vungle (Liftoff Monetize)',
+    categories: ['advertisement'],
+    signatures: ['com.vungle'],
+    website: 'https://liftoff.io/'
+  },
+  {
+    id: 'chartboost',
+    name: 'ChartBoost',
+    categories: ['advertisement'],
+    signatures: ['com.chartboost'],
+    website: 'https://www.chartboost.com/'
+  },
+  {
+    id: 'inmobi',
+    name: 'Inmobi',
+    categories: ['advertisement'],
+    signatures: ['com.inmobi'],
+    website: 'https://www.inmobi.com/'
+  },
+  {
+    id: 'mopub',
+    name: 'MoPub',
+    categories: ['advertisement'],
+    signatures: ['com.mopub'],
+    website: 'https://www.mopub.com/'
+  },
+  {
+    id: 'pangle',
+    name: 'Pangle (ByteDance)',
+    categories: ['advertisement'],
+    signatures: ['com.bytedance.sdk.openadsdk', 'com.bytedance.sdk.component'],
+    website: 'https://www.pangleglobal.com/'
+  },
+  {
+    id: 'mintegral',
+    name: 'Mintegral',
+    categories: ['advertisement'],
+    signatures: ['com.mbridge.msdk', 'com.mintegral.msdk'],
+    website: 'https://www.mintegral.com/'
+  },
+  {
+    id: 'digital-turbine',
+    name: 'Digital Turbine (Fyber)',
+    categories: ['advertisement'],
+    signatures: ['com.fyber', 'com.inneractive'],
+    website: 'https://www.digitalturbine.com/'
+  },
+  {
+    id: 'criteo',
+    name: 'Criteo',
+    categories: ['advertisement'],
+    signatures: ['com.criteo'],
+    website: 'https://www.criteo.com/'
+  },
+  {
+    id: 'amazon-advertisement',
+    name: 'Amazon Advertisement',
+    categories: ['advertisement'],
+    signatures: ['com.amazon.device.ads', 'com.amazon.aps'],
+    website: 'https://advertising.amazon.com/'
+  },
+  {
+    id: 'huawei-ads',
+    name: 'Huawei Mobile Services (HMS) Core Ads',
+    categories: ['advertisement'],
+    signatures: ['com.huawei.hms.ads'],
+    website: 'https://developer.huawei.com/consumer/en/hms/huawei-adskit/'
+  },
+  {
+    id: 'huawei-analytics',
+    name: 'Huawei Mobile Services (HMS) Core Analytics',
+    categories: ['analytics'],
+    signatures: ['com.huawei.hms.analytics'],
+    website: 'https://developer.huawei.com/consumer/en/hms/huawei-analyticskit/'
+  },
+
+  // Location & identification
+  {
+    id: 'foursquare-pilgrim',
+    name: 'Foursquare Pilgrim',
+    categories: ['location'],
+    signatures: ['com.foursquare.pilgrim', 'com.foursquare.movement'],
+    website: 'https://location.foursquare.com/'
+  },
+  {
+    id: 'radar',
+    name: 'Radar',
+    categories: ['location'],
+    signatures: ['io.radar'],
+    website: 'https://radar.com/'
+  },
+  {
+    id: 'huq',
+    name: 'Huq Sourcekit',
+    categories: ['location', 'profiling'],
+    signatures: ['io.huq'],
+    website: 'https://huq.io/'
+  },
+  {
+    id: 'cuebiq',
+    name: 'Cuebiq',
+    categories: ['location', 'profiling'],
+    signatures: ['com.cuebiq'],
+    website: 'https://www.cuebiq.com/'
+  },
+  {
+    id: 'x-mode',
+    name: 'X-Mode',
+    categories: ['location', 'profiling'],
+    signatures: ['io.mysdk'],
+    website: 'https://xmode.io/'
+  },
+  {
+    id: 'twitter-mopub-kit',
+    name: 'Twitter MoPub Kit',
+    categories: ['advertisement', 'identification'],
+    signatures: ['com.twitter.sdk.android'],
+    website: 'https://developer.x.com/'
+  },
+  {
+    id: 'vk-sdk',
+    name: 'VKontakte SDK',
+    categories: ['identification'],
+    signatures: ['com.vk.sdk', 'com.vk.api.sdk'],
+    website: 'https://dev.vk.com/'
+  },
+]
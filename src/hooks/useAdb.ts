@@ -8,6 +8,7 @@ import { useAdbStore } from '@/stores/adbStore'
 import { useAppStore } from '@/stores/appStore'
 import { useAuthStore } from '@/stores/authStore'
 import * as adbClient from '@/services/adb-client'
+import { pairWirelessDevice } from '@/services/adb-network'
 import {
   upsertDevice,
   getDeviceByFingerprint,
@@ -58,6 +59,13 @@ export function useAdb() {
     addCommandLog,
     isDemoMode,
     setDemoMode,
+    activeSerial,
+    connectedSerials,
+    deviceSessions,
+    addDeviceSession,
+    switchDevice: switchDeviceSession,
+    removeDeviceSession,
+    rememberDeviceTransport,
     reset
   } = useAdbStore()
 
@@ -296,27 +304,36 @@ export function useAdb() {
   /**
    * Connette a un dispositivo via USB picker
    */
-  const connect = useCallback(async () => {
-    setConnectionStatus('connecting')
-    setConnectionError(null)
+  const connect = useCallback(async (target: adbClient.ConnectTarget = { transport: 'usb' }) => {
+    // Adding a second device must not tear down the current session UI
+    const addingDevice = useAdbStore.getState().isConnected && !useAdbStore.getState().isDemoMode
+    if (!addingDevice) {
+      setConnectionStatus('connecting')
+      setConnectionError(null)
+    }
 
     const authStore = useAuthStore.getState()
 
     try {
       const adb = await adbClient.connectDevice((status) => {
-        setConnectionStatus(status)
-      })
+        if (!addingDevice) setConnectionStatus(status)
+      }, target)
 
       if (!adb) {
-        setConnectionStatus('disconnected')
+        if (!addingDevice) setConnectionStatus('disconnected')
         return false
       }
 
+      if (useAdbStore.getState().isDemoMode) {
+        // Leaving demo mode for a real device
+        reset()
+        setDemoMode(false)
+      }
       setConnectionStatus('connected')
 
       // Fetch device info
-      const info = await adbClient.getDeviceInfo()
-      setDeviceInfo(info)
+      const info = await adbClient.getDeviceInfo(adb.serial)
+      addDeviceSession(adb.serial, info)
 
       // Generate fingerprint for this device
       const fingerprint = generateDeviceFingerprint(
@@ -325,6 +342,9 @@ export function useAdb() {
         info.serialNumber
       )
 
+      // Ricorda il trasporto usato per questo dispositivo
+      rememberDeviceTransport(fingerprint, target, info.model)
+
       // Tenta auto-login se l'utente non è già loggato
       if (!authStore.isAuthenticated) {
         const autoLoginUserId = await attemptDeviceAutoLogin(info.serialNumber, fingerprint)
@@ -378,8 +398,10 @@ export function useAdb() {
       return true
     } catch (error) {
       const errorMessage = getErrorMessage(error, t)
-      setConnectionStatus('error')
-      setConnectionError(errorMessage)
+      if (!addingDevice) {
+        setConnectionStatus('error')
+        setConnectionError(errorMessage)
+      }
 
       showToast({
         type: 'error',
@@ -395,14 +417,71 @@ export function useAdb() {
 
       return false
     }
-  }, [setConnectionStatus, setConnectionError, setDeviceInfo, setCurrentDeviceId, showToast, addCommandLog, registerDevice, t])
+  }, [setConnectionStatus, setConnectionError, addDeviceSession, rememberDeviceTransport, setCurrentDeviceId, setDemoMode, reset, showToast, addCommandLog, registerDevice, t])
+
+  /**
+   * Pairing Android 11+ (Debug wireless → Associa con codice)
+   */
+  const pairDevice = useCallback(async (pairingAddress: string, code: string): Promise<boolean> => {
+    try {
+      await pairWirelessDevice(pairingAddress, code)
+      showToast({
+        type: 'success',
+        title: t('connect.network.paired'),
+        message: pairingAddress
+      })
+      return true
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('connect.network.pairFailed'),
+        message: getErrorMessage(error, t)
+      })
+      return false
+    }
+  }, [showToast, t])
+
+  /**
+   * Passa il dispositivo USB attivo ad ADB via Wi-Fi (`adb tcpip 5555`) e si riconnette in rete
+   */
+  const switchToWifi = useCallback(async (port = 5555): Promise<boolean> => {
+    try {
+      const address = await adbClient.enableTcpip(port)
+      // adbd restarts in TCP mode: give it a moment before connecting
+      await new Promise(resolve => setTimeout(resolve, 1500))
+      return await connect({ transport: 'tcp', address })
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: t('common.error'),
+        message: getErrorMessage(error, t)
+      })
+      return false
+    }
+  }, [connect, showToast, t])
 
   /**
    * Disconnette il dispositivo
    */
-  const disconnect = useCallback(async () => {
+  const disconnect = useCallback(async (serial?: string) => {
     try {
-      await adbClient.disconnectDevice()
+      const target = serial ?? useAdbStore.getState().activeSerial ?? undefined
+      await adbClient.disconnectDevice(target)
+
+      if (target) removeDeviceSession(target)
+      const remaining = adbClient.getConnectedSerials()
+
+      if (remaining.length > 0) {
+        // Keep working with the next device instead of resetting the session
+        adbClient.setActiveDevice(useAdbStore.getState().activeSerial ?? remaining[0])
+        showToast({
+          type: 'info',
+          title: t('adb.disconnected'),
+          message: t('adb.devices.switchedTo', { model: useAdbStore.getState().deviceInfo?.model || remaining[0] })
+        })
+        return
+      }
+
       reset()
 
       showToast({
@@ -415,7 +494,21 @@ export function useAdb() {
     } catch (error) {
       console.error('Errore disconnessione:', error)
     }
-  }, [reset, showToast, t])
+  }, [reset, removeDeviceSession, showToast, t])
+
+  /**
+   * Rende attivo un altro dispositivo già connesso
+   */
+  const switchDevice = useCallback((serial: string) => {
+    try {
+      adbClient.setActiveDevice(serial)
+      switchDeviceSession(serial)
+      return true
+    } catch (error) {
+      showToast({ type: 'error', title: t('common.error'), message: getErrorMessage(error, t) })
+      return false
+    }
+  }, [switchDeviceSession, showToast, t])
 
   const shell = useCallback(async (command: string): Promise<adbClient.ShellResult> => {
     if (isDemoMode) {
@@ -479,11 +572,13 @@ export function useAdb() {
 
   /**
    * Abilita/Disabilita un pacchetto
-   * Gestisce automaticamente il fallback da disable-user a uninstall se necessario
+   * Gestisce automaticamente il fallback da disable-user a uninstall se necessario.
+   * Se `options.signal` viene annullato l'AbortError è rilanciato al chiamante
    */
   const togglePackage = useCallback(async (
     packageName: string,
-    enable: boolean
+    enable: boolean,
+    options?: adbClient.ShellOptions
   ): Promise<boolean> => {
     if (isDemoMode) {
       const actualCommand = enable
@@ -509,8 +604,8 @@ export function useAdb() {
 
     try {
       const result = enable
-        ? await adbClient.enablePackage(packageName)
-        : await adbClient.disablePackage(packageName)
+        ? await adbClient.enablePackage(packageName, undefined, options)
+        : await adbClient.disablePackage(packageName, undefined, options)
 
       // Controlla se è stato usato il fallback (uninstall o install-existing)
       const usedFallback = result.stdout.includes('[Fallback') || result.stdout.includes('[Reinstallato')
@@ -557,6 +652,8 @@ export function useAdb() {
         throw new Error(result.stderr || result.stdout || t('adb.shell.error'))
       }
     } catch (error) {
+      if (options?.signal?.aborted) throw error
+
       const errorMessage = getErrorMessage(error, t)
 
       // addCommandLog rimosso: gestito dal listener
@@ -1022,11 +1119,17 @@ export function useAdb() {
     packages,
     packagesLoading,
     packagesError,
+    activeSerial,
+    connectedSerials,
+    deviceSessions,
 
     isDemoMode,
     enterDemoMode,
     connect,
+    pairDevice,
+    switchToWifi,
     disconnect,
+    switchDevice,
     shell,
     loadPackages,
     togglePackage,
@@ -1063,6 +1166,9 @@ function getErrorMessage(error: unknown, t: any): string {
     if (error.message === 'ADB_INIT_FAILED') {
       return t('adb.errors.adbInitFailed')
     }
+    if (error.message === 'BRIDGE_UNREACHABLE') {
+      return t('adb.errors.bridgeUnreachable')
+    }
 
     // Handle specific ADB errors
     if (msg.includes('no device selected')) {
@@ -7,14 +7,15 @@ import * as adbClient from '@/services/adb-client'
  * Deve essere chiamato una sola volta nel root dell'applicazione (es. App.tsx).
  */
 export function useAdbInterceptor() {
-    const addCommandLog = useAdbStore(state => state.addCommandLog)
+    const addDeviceCommandLog = useAdbStore(state => state.addDeviceCommandLog)
 
     useEffect(() => {
-        const listener: adbClient.CommandListener = (command, result) => {
+        const listener: adbClient.CommandListener = (command, result, serial) => {
             // Non loggare se siamo in demo mode (il log viene gestito manualmente per coerenza)
             if (useAdbStore.getState().isDemoMode) return
 
-            addCommandLog({
+            // Ogni dispositivo ha il proprio log: i comandi vanno a quello che li ha eseguiti
+            addDeviceCommandLog(serial, {
                 command,
                 result: result.exitCode === 0 ? 'success' : 'error',
                 message: [result.stdout, result.stderr].filter(s => s && s.trim()).join('\n') || undefined
@@ -23,5 +24,26 @@ export function useAdbInterceptor() {
 
         adbClient.addCommandListener(listener)
         return () => adbClient.removeCommandListener(listener)
-    }, [addCommandLog])
+    }, [addDeviceCommandLog])
+
+    useEffect(() => {
+        // Rimuove dallo store i dispositivi scollegati fisicamente (cavo staccato)
+        const registryListener: adbClient.DeviceRegistryListener = (serials) => {
+            const state = useAdbStore.getState()
+            const lost = state.connectedSerials.filter(serial => !serials.includes(serial))
+            if (lost.length === 0) return
+
+            lost.forEach(serial => state.removeDeviceSession(serial))
+
+            const next = useAdbStore.getState()
+            if (next.connectedSerials.length === 0) {
+                next.reset()
+            } else if (next.activeSerial) {
+                adbClient.setActiveDevice(next.activeSerial)
+            }
+        }
+
+        adbClient.addDeviceRegistryListener(registryListener)
+        return () => adbClient.removeDeviceRegistryListener(registryListener)
+    }, [])
 }
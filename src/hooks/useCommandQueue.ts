@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react'
+import {
+    addQueueListener,
+    removeQueueListener,
+    getQueuedCommands,
+    type QueuedCommand
+} from '@/services/command-queue'
+
+/**
+ * Snapshot of the device command queue: running, pending and recently finished
+ */
+export function useCommandQueue(): QueuedCommand[] {
+    const [commands, setCommands] = useState<QueuedCommand[]>(getQueuedCommands)
+
+    useEffect(() => {
+        addQueueListener(setCommands)
+        setCommands(getQueuedCommands())
+        return () => removeQueueListener(setCommands)
+    }, [])
+
+    return commands
+}
@@ -0,0 +1,162 @@
+import { useState, useRef, useEffect, useCallback, type RefObject } from 'react'
+import type { ScrcpySession } from '@/services/scrcpy-client'
+import {
+    GAMEPAD_HID_DESCRIPTOR,
+    GamepadTouchMapper,
+    buildGamepadReport,
+    getGamepadName,
+    loadGamepadLayout,
+    loadGamepadMode,
+    parseGamepadIds,
+    saveGamepadLayout,
+    saveGamepadMode,
+    type GamepadControl,
+    type GamepadMode
+} from '@/services/scrcpy-gamepad'
+
+/** scrcpy's own HID keyboard and mouse use ids 1 and 2 */
+const HID_ID_BASE = 3
+
+/** How often the foreground app is checked to switch touch layouts */
+const PACKAGE_POLL_MS = 3000
+
+export interface ConnectedGamepad {
+    index: number
+    name: string
+}
+
+function listGamepads(): ConnectedGamepad[] {
+    return navigator.getGamepads()
+        .filter((pad): pad is Gamepad => pad !== null)
+        .map(pad => ({ index: pad.index, name: getGamepadName(pad) }))
+}
+
+/**
+ * Gamepad API -> device, while the session is active. In `uhid` mode every
+ * pad becomes a HID gamepad on the device; in `touch` mode the first pad
+ * drives the touch layout of the app in the foreground.
+ */
+export function useGamepad(sessionRef: RefObject<ScrcpySession | null>, isActive: boolean) {
+    const [mode, setModeState] = useState<GamepadMode>(() => loadGamepadMode())
+    const [gamepads, setGamepads] = useState<ConnectedGamepad[]>(() => listGamepads())
+    const [packageName, setPackageName] = useState<string | null>(null)
+    const [layout, setLayout] = useState<GamepadControl[]>([])
+    const layoutRef = useRef(layout)
+    layoutRef.current = layout
+
+    const setMode = useCallback((next: GamepadMode) => {
+        saveGamepadMode(next)
+        setModeState(next)
+    }, [])
+
+    useEffect(() => {
+        const update = () => setGamepads(listGamepads())
+        window.addEventListener('gamepadconnected', update)
+        window.addEventListener('gamepaddisconnected', update)
+        return () => {
+            window.removeEventListener('gamepadconnected', update)
+            window.removeEventListener('gamepaddisconnected', update)
+        }
+    }, [])
+
+    const detectPackage = useCallback(async () => {
+        const detected = await sessionRef.current?.getForegroundPackage()
+        if (detected) setPackageName(detected)
+    }, [sessionRef])
+
+    // Foreground app changes (e.g. switching game): load its layout
+    useEffect(() => {
+        if (!isActive || mode !== 'touch') return
+        detectPackage()
+        const interval = setInterval(detectPackage, PACKAGE_POLL_MS)
+        return () => clearInterval(interval)
+    }, [isActive, mode, detectPackage])
+
+    useEffect(() => {
+        setLayout(packageName ? loadGamepadLayout(packageName) : [])
+    }, [packageName])
+
+    const saveLayout = useCallback((controls: GamepadControl[]) => {
+        if (!packageName) return
+        saveGamepadLayout(packageName, controls)
+        setLayout(controls)
+    }, [packageName])
+
+    // Polling loop: the Gamepad API has no input events
+    useEffect(() => {
+        const session = sessionRef.current
+        if (!isActive || !session || mode === 'off' || gamepads.length === 0) return
+
+        const mapper = new GamepadTouchMapper()
+        const send = (action: 'down' | 'move' | 'up', x: number, y: number, pointerId: number) =>
+            session.sendTouch(action, x, y, pointerId)
+        const hidDevices = new Map<number, Promise<boolean>>()
+        const lastReports = new Map<number, string>()
+        let frame = 0
+        let busy = false
+        let stopped = false
+
+        const sendHid = async (pads: Gamepad[]) => {
+            for (const pad of pads) {
+                const id = HID_ID_BASE + pad.index
+                let created = hidDevices.get(id)
+                if (!created) {
+                    created = session.createHidDevice(id, {
+                        name: getGamepadName(pad),
+                        descriptor: GAMEPAD_HID_DESCRIPTOR,
+                        ...parseGamepadIds(pad.id)
+                    })
+                    hidDevices.set(id, created)
+                }
+                if (!await created) continue
+
+                const report = buildGamepadReport(pad)
+                const key = report.join(',')
+                if (lastReports.get(id) === key) continue
+                lastReports.set(id, key)
+                await session.sendHidInput(id, report)
+            }
+        }
+
+        const poll = async () => {
+            if (busy) return
+            busy = true
+            try {
+                const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null)
+                if (mode === 'uhid') {
+                    await sendHid(pads)
+                } else if (pads[0]) {
+                    await mapper.update(pads[0], layoutRef.current, send)
+                }
+            } finally {
+                busy = false
+            }
+        }
+
+        const loop = () => {
+            if (stopped) return
+            poll()
+            frame = requestAnimationFrame(loop)
+        }
+        frame = requestAnimationFrame(loop)
+
+        return () => {
+            stopped = true
+            cancelAnimationFrame(frame)
+            mapper.releaseAll(send)
+            hidDevices.forEach((created, id) => {
+                created.then(ok => { if (ok) session.destroyHidDevice(id) })
+            })
+        }
+    }, [isActive, mode, gamepads, sessionRef])
+
+    return {
+        mode,
+        setMode,
+        gamepads,
+        packageName,
+        detectPackage,
+        layout,
+        saveLayout
+    }
+}
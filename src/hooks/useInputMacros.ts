@@ -0,0 +1,157 @@
+import { useState, useRef, useCallback, type RefObject } from 'react'
+import type { ScrcpySession } from '@/services/scrcpy-client'
+import type { TouchAction } from '@/services/touch-gestures'
+import {
+    MacroRecorder,
+    downloadMacros,
+    loadMacros,
+    parseMacroFile,
+    replayMacro,
+    replayMacroWithShell,
+    saveMacros,
+    type InputMacro,
+    type MacroReplayMethod
+} from '@/services/input-macros'
+
+export interface MacroReplaySettings {
+    method: MacroReplayMethod
+    speed: number
+    loops: number
+}
+
+export interface MacroReplayState {
+    id: string
+    loop: number
+    loops: number
+}
+
+/**
+ * Macro recording/replay on top of useMirrorInput: pass the `record*`
+ * callbacks as its listeners. A finished recording waits in `pendingMacro`
+ * for a name. Shell replay targets the active device and works with the
+ * mirror stopped.
+ */
+export function useInputMacros(sessionRef: RefObject<ScrcpySession | null>) {
+    const [macros, setMacros] = useState<InputMacro[]>(() => loadMacros())
+    const [isRecordingMacro, setIsRecordingMacro] = useState(false)
+    const [pendingMacro, setPendingMacro] = useState<InputMacro | null>(null)
+    const [replayState, setReplayState] = useState<MacroReplayState | null>(null)
+    const recorderRef = useRef<MacroRecorder | null>(null)
+    const replayAbortRef = useRef<AbortController | null>(null)
+
+    const updateMacros = useCallback((update: (prev: InputMacro[]) => InputMacro[]) => {
+        setMacros(prev => {
+            const next = update(prev)
+            saveMacros(next)
+            return next
+        })
+    }, [])
+
+    const recordTouch = useCallback((action: TouchAction, x: number, y: number, pointerId: number) => {
+        recorderRef.current?.recordTouch(action, x, y, pointerId)
+    }, [])
+
+    const recordKey = useCallback((keyCode: number, action: 'down' | 'up', metaState: number, repeat: number) => {
+        recorderRef.current?.recordKey(keyCode, action, metaState, repeat)
+    }, [])
+
+    const recordText = useCallback((text: string) => {
+        recorderRef.current?.recordText(text)
+    }, [])
+
+    const startMacroRecording = useCallback(() => {
+        const session = sessionRef.current
+        if (!session) return
+        recorderRef.current = new MacroRecorder(session.videoSize)
+        setPendingMacro(null)
+        setIsRecordingMacro(true)
+    }, [sessionRef])
+
+    /** Returns false when nothing was recorded */
+    const stopMacroRecording = useCallback((): boolean => {
+        const macro = recorderRef.current?.finish('') ?? null
+        recorderRef.current = null
+        setIsRecordingMacro(false)
+        setPendingMacro(macro)
+        return macro !== null
+    }, [])
+
+    const savePendingMacro = useCallback((name: string) => {
+        if (!pendingMacro) return
+        const macro = { ...pendingMacro, name: name.trim() || pendingMacro.createdAt }
+        updateMacros(prev => [macro, ...prev])
+        setPendingMacro(null)
+    }, [pendingMacro, updateMacros])
+
+    const discardPendingMacro = useCallback(() => {
+        setPendingMacro(null)
+    }, [])
+
+    const deleteMacro = useCallback((id: string) => {
+        updateMacros(prev => prev.filter(macro => macro.id !== id))
+    }, [updateMacros])
+
+    const exportMacro = useCallback((macro: InputMacro) => {
+        downloadMacros([macro], `macro_${macro.name}`)
+    }, [])
+
+    const exportAllMacros = useCallback(() => {
+        downloadMacros(macros, `macros_${new Date().toISOString().slice(0, 10)}`)
+    }, [macros])
+
+    /** Resolves with the number of imported macros; throws on invalid files */
+    const importMacros = useCallback(async (file: File): Promise<number> => {
+        const imported = parseMacroFile(await file.text())
+        updateMacros(prev => [...imported, ...prev])
+        return imported.length
+    }, [updateMacros])
+
+    const stopReplay = useCallback(() => {
+        replayAbortRef.current?.abort()
+    }, [])
+
+    const replay = useCallback(async (macro: InputMacro, settings: MacroReplaySettings) => {
+        if (replayAbortRef.current) return
+        const session = sessionRef.current
+        if (settings.method === 'scrcpy' && !session) return
+
+        const controller = new AbortController()
+        replayAbortRef.current = controller
+        const options = {
+            speed: settings.speed,
+            loops: settings.loops,
+            signal: controller.signal,
+            onLoop: (loop: number) => setReplayState({ id: macro.id, loop, loops: settings.loops })
+        }
+        try {
+            if (settings.method === 'scrcpy' && session) {
+                await replayMacro(macro, session, options)
+            } else {
+                await replayMacroWithShell(macro, options)
+            }
+        } finally {
+            replayAbortRef.current = null
+            setReplayState(null)
+        }
+    }, [sessionRef])
+
+    return {
+        macros,
+        isRecordingMacro,
+        pendingMacro,
+        replayState,
+        recordTouch,
+        recordKey,
+        recordText,
+        startMacroRecording,
+        stopMacroRecording,
+        savePendingMacro,
+        discardPendingMacro,
+        deleteMacro,
+        exportMacro,
+        exportAllMacros,
+        importMacros,
+        replay,
+        stopReplay
+    }
+}
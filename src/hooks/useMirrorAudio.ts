@@ -0,0 +1,62 @@
+import { useState, useRef, useCallback, type RefObject } from 'react'
+import type { ScrcpySession } from '@/services/scrcpy-client'
+import type { ScrcpyAudioState } from '@/services/scrcpy-audio'
+
+const AUDIO_ENABLED_KEY = 'adbloater_mirror_audio'
+
+/**
+ * Audio forwarding settings shared by Screen Mirror and Desktop Mode.
+ * The on/off option is persisted and read when a session starts; mute and
+ * volume are applied live to the running session.
+ */
+export function useMirrorAudio(sessionRef: RefObject<ScrcpySession | null>) {
+    const [isAudioEnabled, setIsAudioEnabled] = useState(() => localStorage.getItem(AUDIO_ENABLED_KEY) === 'true')
+    const [audioState, setAudioState] = useState<ScrcpyAudioState | null>(null)
+    const [isAudioMuted, setIsAudioMuted] = useState(false)
+    const [audioVolume, setAudioVolumeState] = useState(1)
+    const isAudioEnabledRef = useRef(isAudioEnabled)
+    const isAudioMutedRef = useRef(false)
+    const audioVolumeRef = useRef(1)
+
+    const setAudioEnabled = useCallback((enabled: boolean) => {
+        isAudioEnabledRef.current = enabled
+        setIsAudioEnabled(enabled)
+        localStorage.setItem(AUDIO_ENABLED_KEY, String(enabled))
+    }, [])
+
+    const setAudioMuted = useCallback((muted: boolean) => {
+        isAudioMutedRef.current = muted
+        setIsAudioMuted(muted)
+        sessionRef.current?.setAudioMuted(muted)
+    }, [sessionRef])
+
+    const setAudioVolume = useCallback((volume: number) => {
+        audioVolumeRef.current = volume
+        setAudioVolumeState(volume)
+        sessionRef.current?.setAudioVolume(volume)
+        if (volume > 0 && isAudioMutedRef.current) {
+            setAudioMuted(false)
+        }
+    }, [sessionRef, setAudioMuted])
+
+    /** Carries the current mute/volume over to a new session, before it starts */
+    const applyAudioSettings = useCallback((session: ScrcpySession) => {
+        session.setAudioMuted(isAudioMutedRef.current)
+        session.setAudioVolume(audioVolumeRef.current)
+        setAudioState(null)
+    }, [])
+
+    return {
+        isAudioEnabled,
+        /** Read by the start callbacks, so a restart right after a toggle sees the new value */
+        isAudioEnabledRef,
+        setAudioEnabled,
+        audioState,
+        onAudioState: setAudioState,
+        isAudioMuted,
+        setAudioMuted,
+        audioVolume,
+        setAudioVolume,
+        applyAudioSettings
+    }
+}
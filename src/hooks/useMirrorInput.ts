@@ -0,0 +1,225 @@
+import { useState, useRef, useEffect, useCallback, type RefObject } from 'react'
+import { AndroidKeyCode } from '@yume-chan/scrcpy'
+import type { ScrcpySession } from '@/services/scrcpy-client'
+import {
+    PINCH_POINTER_ID,
+    TouchPointerMap,
+    getMetaState,
+    getVideoPosition,
+    isTextInput,
+    loadKeyProfile,
+    mirrorPosition,
+    resolveKeyCode,
+    saveKeyProfile,
+    wheelToScroll,
+    type KeyMappingProfile
+} from '@/services/scrcpy-input'
+import type { TouchAction } from '@/services/touch-gestures'
+
+/** Notified of every input sent to the device, e.g. to record it */
+export interface MirrorInputListeners {
+    onTouch?: (action: TouchAction, x: number, y: number, pointerId: number) => void
+    onKey?: (keyCode: number, action: 'down' | 'up', metaState: number, repeat: number) => void
+    onText?: (text: string) => void
+}
+
+/**
+ * Keyboard/mouse/touch handlers for the mirror canvas, shared by Screen Mirror
+ * and Desktop Mode. The key mapping profile is loaded per device.
+ *
+ * Every pointer (finger, pen, mouse) becomes its own Android pointer, so
+ * touchscreens get real multi-touch. Ctrl+drag with the mouse adds a second,
+ * mirrored finger to emulate pinch-zoom.
+ */
+export function useMirrorInput(
+    sessionRef: RefObject<ScrcpySession | null>,
+    canvasRef: RefObject<HTMLCanvasElement | null>,
+    isActive: boolean,
+    deviceId: string,
+    listeners: MirrorInputListeners = {}
+) {
+    const [keyProfile, setKeyProfile] = useState<KeyMappingProfile>(() => loadKeyProfile(deviceId))
+    // code -> keycode sent on keydown, so keyup matches even if the mapping changed
+    const pressedKeysRef = useRef(new Map<string, number>())
+    const repeatCountRef = useRef(new Map<string, number>())
+    const pointerMapRef = useRef(new TouchPointerMap())
+    const lastPositionRef = useRef(new Map<number, { x: number, y: number }>())
+    // Browser pointer id driving the pinch emulation
+    const pinchPointerRef = useRef<number | null>(null)
+    const listenersRef = useRef(listeners)
+    listenersRef.current = listeners
+
+    useEffect(() => {
+        setKeyProfile(loadKeyProfile(deviceId))
+    }, [deviceId])
+
+    const saveProfile = useCallback((profile: KeyMappingProfile) => {
+        saveKeyProfile(deviceId, profile)
+        setKeyProfile(profile)
+    }, [deviceId])
+
+    const key = useCallback(async (keyCode: number, action: 'down' | 'up', metaState = 0, repeat = 0) => {
+        listenersRef.current.onKey?.(keyCode, action, metaState, repeat)
+        await sessionRef.current?.sendKey(keyCode, action, metaState, repeat)
+    }, [sessionRef])
+
+    const pressKey = useCallback(async (keyCode: number) => {
+        await key(keyCode, 'down')
+        await key(keyCode, 'up')
+    }, [key])
+
+    const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLCanvasElement>) => {
+        const session = sessionRef.current
+        if (!isActive || !session) return
+
+        // IME composition / dead keys: wait for the composed character
+        if (e.nativeEvent.isComposing || e.key === 'Process' || e.key === 'Dead') return
+        // Ctrl/Cmd+V: let the browser fire `paste`, which syncs the clipboard first
+        if ((e.ctrlKey || e.metaKey) && e.code === 'KeyV') return
+
+        // Remapped keys always go through as keycodes
+        if (!(e.code in keyProfile.overrides) && isTextInput(e, keyProfile)) {
+            e.preventDefault()
+            listenersRef.current.onText?.(e.key)
+            session.sendText(e.key)
+            return
+        }
+
+        const keyCode = resolveKeyCode(e.code, keyProfile)
+        if (keyCode === null) return
+        e.preventDefault()
+
+        const repeat = e.repeat ? (repeatCountRef.current.get(e.code) ?? 0) + 1 : 0
+        repeatCountRef.current.set(e.code, repeat)
+        pressedKeysRef.current.set(e.code, keyCode)
+        key(keyCode, 'down', getMetaState(e), repeat)
+    }, [isActive, keyProfile, sessionRef, key])
+
+    const onKeyUp = useCallback((e: React.KeyboardEvent<HTMLCanvasElement>) => {
+        const keyCode = pressedKeysRef.current.get(e.code)
+        if (keyCode === undefined) return
+        e.preventDefault()
+        pressedKeysRef.current.delete(e.code)
+        repeatCountRef.current.delete(e.code)
+        key(keyCode, 'up', getMetaState(e))
+    }, [key])
+
+    /** Focus lost with keys held: release them, or they stay stuck on the device */
+    const onBlur = useCallback(() => {
+        pressedKeysRef.current.forEach((keyCode) => {
+            key(keyCode, 'up')
+        })
+        pressedKeysRef.current.clear()
+        repeatCountRef.current.clear()
+    }, [key])
+
+    const onWheel = useCallback((e: React.WheelEvent<HTMLCanvasElement>) => {
+        const session = sessionRef.current
+        if (!isActive || !session || !canvasRef.current) return
+        const position = getVideoPosition(canvasRef.current, e.clientX, e.clientY)
+        if (!position) return
+        const { scrollX, scrollY } = wheelToScroll(e)
+        session.sendScroll(position.x, position.y, scrollX, scrollY)
+    }, [isActive, sessionRef, canvasRef])
+
+    /** Right click = Back */
+    const onContextMenu = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+        e.preventDefault()
+        if (!isActive) return
+        pressKey(AndroidKeyCode.AndroidBack)
+    }, [isActive, pressKey])
+
+    const touch = useCallback((action: TouchAction, position: { x: number, y: number }, pointerId: number) => {
+        sessionRef.current?.sendTouch(action, position.x, position.y, pointerId)
+        listenersRef.current.onTouch?.(action, position.x, position.y, pointerId)
+    }, [sessionRef])
+
+    const onPointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = canvasRef.current
+        if (!isActive || !sessionRef.current || !canvas) return
+
+        // Middle click = Home; right click goes through onContextMenu (Back)
+        if (e.pointerType === 'mouse' && e.button !== 0) {
+            e.preventDefault()
+            if (e.button === 1) pressKey(AndroidKeyCode.AndroidHome)
+            return
+        }
+
+        e.preventDefault()
+        canvas.focus()
+        const position = getVideoPosition(canvas, e.clientX, e.clientY)
+        if (!position) return
+        const pointerId = pointerMapRef.current.acquire(e.pointerId)
+        if (pointerId === null) return
+
+        canvas.setPointerCapture(e.pointerId)
+        lastPositionRef.current.set(e.pointerId, position)
+        touch('down', position, pointerId)
+
+        if (e.pointerType === 'mouse' && e.ctrlKey) {
+            pinchPointerRef.current = e.pointerId
+            touch('down', mirrorPosition(position), PINCH_POINTER_ID)
+        }
+    }, [isActive, sessionRef, canvasRef, pressKey, touch])
+
+    const onPointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+        const pointerId = pointerMapRef.current.get(e.pointerId)
+        if (pointerId === undefined || !canvasRef.current) return
+        e.preventDefault()
+
+        const position = getVideoPosition(canvasRef.current, e.clientX, e.clientY, true)
+        if (!position) return
+        lastPositionRef.current.set(e.pointerId, position)
+        touch('move', position, pointerId)
+
+        if (pinchPointerRef.current === e.pointerId) {
+            touch('move', mirrorPosition(position), PINCH_POINTER_ID)
+        }
+    }, [canvasRef, touch])
+
+    /** pointerup and pointercancel */
+    const onPointerUp = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+        const pointerId = pointerMapRef.current.release(e.pointerId)
+        if (pointerId === undefined) return
+        e.preventDefault()
+
+        const canvas = canvasRef.current
+        const position = (canvas && getVideoPosition(canvas, e.clientX, e.clientY, true))
+            || lastPositionRef.current.get(e.pointerId)
+            || { x: 0, y: 0 }
+        lastPositionRef.current.delete(e.pointerId)
+        if (canvas?.hasPointerCapture(e.pointerId)) {
+            canvas.releasePointerCapture(e.pointerId)
+        }
+        touch('up', position, pointerId)
+
+        if (pinchPointerRef.current === e.pointerId) {
+            pinchPointerRef.current = null
+            touch('up', mirrorPosition(position), PINCH_POINTER_ID)
+        }
+    }, [canvasRef, touch])
+
+    // Session stopped mid-gesture: forget the pointers, the device side is gone
+    useEffect(() => {
+        if (isActive) return
+        pointerMapRef.current.clear()
+        lastPositionRef.current.clear()
+        pinchPointerRef.current = null
+    }, [isActive])
+
+    return {
+        keyProfile,
+        saveKeyProfile: saveProfile,
+        canvasHandlers: {
+            onKeyDown,
+            onKeyUp,
+            onBlur,
+            onWheel,
+            onContextMenu,
+            onPointerDown,
+            onPointerMove,
+            onPointerUp,
+            onPointerCancel: onPointerUp
+        }
+    }
+}
@@ -19,12 +19,15 @@ export function useScreenRecorder() {
         }
     }, [isRecording])
 
-    const startRecording = useCallback((canvas: HTMLCanvasElement, fileName: string = 'adbloater-record') => {
+    const startRecording = useCallback((canvas: HTMLCanvasElement, fileName: string = 'adbloater-record', audioStream?: MediaStream | null) => {
         if (isRecording) return
 
         chunksRef.current = []
         const stream = canvas.captureStream(30) // 30 FPS
 
+        // Device audio (scrcpy audio forwarding), if enabled
+        audioStream?.getAudioTracks().forEach(track => stream.addTrack(track))
+
         // Try to find a supported mime type
         const mimeTypes = [
             'video/webm;codecs=vp9,opus',
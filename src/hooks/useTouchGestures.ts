@@ -0,0 +1,103 @@
+import { useState, useRef, useCallback, type RefObject } from 'react'
+import type { ScrcpySession } from '@/services/scrcpy-client'
+import {
+    GestureRecorder,
+    loadGestures,
+    replayGesture,
+    saveGestures,
+    type TouchAction,
+    type TouchGesture
+} from '@/services/touch-gestures'
+
+/**
+ * Gesture recording/replay on top of useMirrorInput: pass `recordTouch` as
+ * its `onTouch`. A finished recording waits in `pendingGesture` for a name.
+ */
+export function useTouchGestures(sessionRef: RefObject<ScrcpySession | null>) {
+    const [gestures, setGestures] = useState<TouchGesture[]>(() => loadGestures())
+    const [isRecordingGesture, setIsRecordingGesture] = useState(false)
+    const [pendingGesture, setPendingGesture] = useState<TouchGesture | null>(null)
+    const [replayingId, setReplayingId] = useState<string | null>(null)
+    const recorderRef = useRef<GestureRecorder | null>(null)
+    const replayAbortRef = useRef<AbortController | null>(null)
+
+    const updateGestures = useCallback((update: (prev: TouchGesture[]) => TouchGesture[]) => {
+        setGestures(prev => {
+            const next = update(prev)
+            saveGestures(next)
+            return next
+        })
+    }, [])
+
+    const recordTouch = useCallback((action: TouchAction, x: number, y: number, pointerId: number) => {
+        recorderRef.current?.record(action, x, y, pointerId)
+    }, [])
+
+    const startGestureRecording = useCallback(() => {
+        recorderRef.current = new GestureRecorder()
+        setPendingGesture(null)
+        setIsRecordingGesture(true)
+    }, [])
+
+    /** Returns false when nothing was recorded */
+    const stopGestureRecording = useCallback((): boolean => {
+        const gesture = recorderRef.current?.finish('') ?? null
+        recorderRef.current = null
+        setIsRecordingGesture(false)
+        setPendingGesture(gesture)
+        return gesture !== null
+    }, [])
+
+    const savePendingGesture = useCallback((name: string) => {
+        if (!pendingGesture) return
+        const gesture = { ...pendingGesture, name: name.trim() || pendingGesture.createdAt }
+        updateGestures(prev => [gesture, ...prev])
+        setPendingGesture(null)
+    }, [pendingGesture, updateGestures])
+
+    const discardPendingGesture = useCallback(() => {
+        setPendingGesture(null)
+    }, [])
+
+    const deleteGesture = useCallback((id: string) => {
+        updateGestures(prev => prev.filter(gesture => gesture.id !== id))
+    }, [updateGestures])
+
+    const stopReplay = useCallback(() => {
+        replayAbortRef.current?.abort()
+    }, [])
+
+    const replay = useCallback(async (gesture: TouchGesture) => {
+        const session = sessionRef.current
+        if (!session || replayAbortRef.current) return
+
+        const controller = new AbortController()
+        replayAbortRef.current = controller
+        setReplayingId(gesture.id)
+        try {
+            await replayGesture(
+                gesture,
+                (action, x, y, pointerId) => session.sendTouch(action, x, y, pointerId),
+                { signal: controller.signal }
+            )
+        } finally {
+            replayAbortRef.current = null
+            setReplayingId(null)
+        }
+    }, [sessionRef])
+
+    return {
+        gestures,
+        isRecordingGesture,
+        pendingGesture,
+        replayingId,
+        recordTouch,
+        startGestureRecording,
+        stopGestureRecording,
+        savePendingGesture,
+        discardPendingGesture,
+        deleteGesture,
+        replay,
+        stopReplay
+    }
+}
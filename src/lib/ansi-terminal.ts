@@ -0,0 +1,550 @@
+/**
+ * ANSI Terminal Screen
+ * Minimal VT100/xterm emulator: keeps a character grid with scrollback and
+ * applies the escape sequences interactive Android tools actually emit
+ * (SGR colours, cursor movement, erase, scroll regions, alternate screen).
+ * Rendering is left to the caller through `getLines()`.
+ */
+
+export interface CellStyle {
+  fg?: string
+  bg?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+  inverse?: boolean
+}
+
+export interface StyledSpan {
+  text: string
+  style: CellStyle
+  cursor?: boolean
+}
+
+interface Cell {
+  ch: string
+  style: CellStyle
+}
+
+type ParserState = 'ground' | 'escape' | 'csi' | 'osc' | 'oscEscape' | 'charset'
+
+const DEFAULT_STYLE: CellStyle = Object.freeze({}) as CellStyle
+const MAX_SCROLLBACK = 1000
+const TAB_WIDTH = 8
+
+// xterm default 16-colour palette (GitHub dark flavoured)
+const BASE_COLORS = [
+  '#484f58', '#ff7b72', '#3fb950', '#d29922', '#58a6ff', '#bc8cff', '#39c5cf', '#b1bac4',
+  '#6e7681', '#ffa198', '#56d364', '#e3b341', '#79c0ff', '#d2a8ff', '#56d4dd', '#ffffff',
+]
+
+function color256(index: number): string {
+  if (index < 16) return BASE_COLORS[index]
+  if (index < 232) {
+    const i = index - 16
+    const steps = [0, 95, 135, 175, 215, 255]
+    const r = steps[Math.floor(i / 36)]
+    const g = steps[Math.floor(i / 6) % 6]
+    const b = steps[i % 6]
+    return `rgb(${r},${g},${b})`
+  }
+  const level = 8 + (index - 232) * 10
+  return `rgb(${level},${level},${level})`
+}
+
+function blankLine(cols: number): Cell[] {
+  return Array.from({ length: cols }, () => ({ ch: ' ', style: DEFAULT_STYLE }))
+}
+
+export class TerminalScreen {
+  cols: number
+  rows: number
+  cursorVisible = true
+
+  private lines: Cell[][]
+  private scrollback: Cell[][] = []
+  private savedMain: { lines: Cell[][]; x: number; y: number } | null = null
+  private x = 0
+  private y = 0
+  private wrapPending = false
+  private style: CellStyle = DEFAULT_STYLE
+  private saved = { x: 0, y: 0, style: DEFAULT_STYLE }
+  private scrollTop = 0
+  private scrollBottom: number
+
+  private state: ParserState = 'ground'
+  private params = ''
+
+  constructor(cols = 80, rows = 24) {
+    this.cols = cols
+    this.rows = rows
+    this.scrollBottom = rows - 1
+    this.lines = Array.from({ length: rows }, () => blankLine(cols))
+  }
+
+  get isAlternateScreen(): boolean {
+    return this.savedMain !== null
+  }
+
+  resize(cols: number, rows: number) {
+    if (cols === this.cols && rows === this.rows) return
+
+    const fit = (line: Cell[]) => line.length >= cols
+      ? line.slice(0, cols)
+      : [...line, ...blankLine(cols - line.length)]
+
+    let lines = this.lines.map(fit)
+    // Shrinking: drop rows below the cursor first, then move the top rows
+    // into scrollback so the cursor line stays visible
+    while (lines.length > rows) {
+      if (lines.length - 1 > this.y) {
+        lines.pop()
+        continue
+      }
+      const removed = lines.shift()!
+      if (!this.isAlternateScreen) this.pushScrollback(removed)
+      this.y = Math.max(0, this.y - 1)
+    }
+    while (lines.length < rows) lines = [...lines, blankLine(cols)]
+
+    this.lines = lines
+    this.scrollback = this.scrollback.map(fit)
+    this.cols = cols
+    this.rows = rows
+    this.scrollTop = 0
+    this.scrollBottom = rows - 1
+    this.x = Math.min(this.x, cols - 1)
+    this.y = Math.min(this.y, rows - 1)
+    this.wrapPending = false
+  }
+
+  clear() {
+    this.scrollback = []
+    this.lines = Array.from({ length: this.rows }, () => blankLine(this.cols))
+    this.x = 0
+    this.y = 0
+  }
+
+  write(text: string) {
+    for (const ch of text) {
+      switch (this.state) {
+        case 'ground':
+          this.ground(ch)
+          break
+        case 'escape':
+          this.escape(ch)
+          break
+        case 'csi':
+          if (ch >= '@' && ch <= '~') {
+            this.csi(ch)
+            this.state = 'ground'
+          } else {
+            this.params += ch
+          }
+          break
+        case 'osc':
+          // Window titles etc. are ignored; terminated by BEL or ST
+          if (ch === '\x07') this.state = 'ground'
+          else if (ch === '\x1b') this.state = 'oscEscape'
+          break
+        case 'oscEscape':
+          this.state = ch === '\\' ? 'ground' : 'osc'
+          break
+        case 'charset':
+          this.state = 'ground'
+          break
+      }
+    }
+  }
+
+  /**
+   * Scrollback followed by the visible screen, as runs of equally styled text.
+   */
+  getLines(): StyledSpan[][] {
+    const all = [...this.scrollback, ...this.lines]
+    const cursorRow = this.scrollback.length + this.y
+
+    return all.map((line, row) => {
+      const spans: StyledSpan[] = []
+      const cursorCol = row === cursorRow && this.cursorVisible ? this.x : -1
+      let lastNonBlank = line.length - 1
+      while (lastNonBlank >= 0 && line[lastNonBlank].ch === ' ' && line[lastNonBlank].style === DEFAULT_STYLE && lastNonBlank !== cursorCol) {
+        lastNonBlank--
+      }
+
+      for (let col = 0; col <= lastNonBlank; col++) {
+        const cell = line[col]
+        const isCursor = col === cursorCol
+        const previous = spans[spans.length - 1]
+        if (previous && !isCursor && !previous.cursor && previous.style === cell.style) {
+          previous.text += cell.ch
+        } else {
+          spans.push({ text: cell.ch, style: cell.style, cursor: isCursor || undefined })
+        }
+      }
+      return spans
+    })
+  }
+
+  private ground(ch: string) {
+    switch (ch) {
+      case '\x1b':
+        this.state = 'escape'
+        return
+      case '\r':
+        this.x = 0
+        this.wrapPending = false
+        return
+      case '\n':
+      case '\x0b':
+      case '\x0c':
+        this.lineFeed()
+        return
+      case '\b':
+        this.x = Math.max(0, this.x - 1)
+        this.wrapPending = false
+        return
+      case '\t':
+        this.x = Math.min(this.cols - 1, (Math.floor(this.x / TAB_WIDTH) + 1) * TAB_WIDTH)
+        return
+      case '\x07':
+      case '\x00':
+        return
+    }
+
+    if (ch < ' ') return
+
+    if (this.wrapPending) {
+      this.x = 0
+      this.lineFeed()
+    }
+    this.lines[this.y][this.x] = { ch, style: this.style }
+    if (this.x === this.cols - 1) {
+      this.wrapPending = true
+    } else {
+      this.x++
+    }
+  }
+
+  private escape(ch: string) {
+    this.state = 'ground'
+    switch (ch) {
+      case '[':
+        this.params = ''
+        this.state = 'csi'
+        break
+      case ']':
+        this.state = 'osc'
+        break
+      case '(':
+      case ')':
+        this.state = 'charset'
+        break
+      case '7':
+        this.saveCursor()
+        break
+      case '8':
+        this.restoreCursor()
+        break
+      case 'D':
+        this.lineFeed()
+        break
+      case 'E':
+        this.x = 0
+        this.lineFeed()
+        break
+      case 'M':
+        if (this.y === this.scrollTop) this.scrollDown(1)
+        else this.y = Math.max(0, this.y - 1)
+        break
+      case 'c':
+        this.style = DEFAULT_STYLE
+        this.clear()
+        break
+    }
+  }
+
+  private csi(final: string) {
+    const isPrivate = this.params.startsWith('?')
+    const raw = (isPrivate ? this.params.slice(1) : this.params).replace(/[^0-9;:]/g, '')
+    const args = raw.length ? raw.split(/[;:]/).map(v => (v === '' ? NaN : parseInt(v, 10))) : []
+    const arg = (i: number, fallback: number) => (Number.isNaN(args[i]) || args[i] === undefined ? fallback : args[i])
+    const n = Math.max(1, arg(0, 1))
+
+    this.wrapPending = false
+
+    switch (final) {
+      case 'A':
+        this.y = Math.max(this.scrollTop, this.y - n)
+        break
+      case 'B':
+        this.y = Math.min(this.scrollBottom, this.y + n)
+        break
+      case 'C':
+        this.x = Math.min(this.cols - 1, this.x + n)
+        break
+      case 'D':
+        this.x = Math.max(0, this.x - n)
+        break
+      case 'E':
+        this.x = 0
+        this.y = Math.min(this.rows - 1, this.y + n)
+        break
+      case 'F':
+        this.x = 0
+        this.y = Math.max(0, this.y - n)
+        break
+      case 'G':
+      case '`':
+        this.x = Math.min(this.cols - 1, n - 1)
+        break
+      case 'd':
+        this.y = Math.min(this.rows - 1, n - 1)
+        break
+      case 'H':
+      case 'f':
+        this.y = Math.min(this.rows - 1, Math.max(1, arg(0, 1)) - 1)
+        this.x = Math.min(this.cols - 1, Math.max(1, arg(1, 1)) - 1)
+        break
+      case 'J':
+        this.eraseDisplay(arg(0, 0))
+        break
+      case 'K':
+        this.eraseLine(arg(0, 0))
+        break
+      case 'L':
+        this.insertLines(n)
+        break
+      case 'M':
+        this.deleteLines(n)
+        break
+      case 'P': {
+        const line = this.lines[this.y]
+        line.splice(this.x, n)
+        this.lines[this.y] = [...line, ...blankLine(this.cols - line.length)]
+        break
+      }
+      case '@': {
+        const line = this.lines[this.y]
+        line.splice(this.x, 0, ...blankLine(n))
+        this.lines[this.y] = line.slice(0, this.cols)
+        break
+      }
+      case 'X':
+        for (let i = this.x; i < Math.min(this.cols, this.x + n); i++) {
+          this.lines[this.y][i] = { ch: ' ', style: DEFAULT_STYLE }
+        }
+        break
+      case 'S':
+        this.scrollUp(n)
+        break
+      case 'T':
+        this.scrollDown(n)
+        break
+      case 'm':
+        this.applySgr(args.length ? args : [0])
+        break
+      case 'r':
+        this.scrollTop = Math.max(0, arg(0, 1) - 1)
+        this.scrollBottom = Math.min(this.rows - 1, arg(1, this.rows) - 1)
+        if (this.scrollBottom <= this.scrollTop) {
+          this.scrollTop = 0
+          this.scrollBottom = this.rows - 1
+        }
+        this.x = 0
+        this.y = this.scrollTop
+        break
+      case 's':
+        this.saveCursor()
+        break
+      case 'u':
+        this.restoreCursor()
+        break
+      case 'h':
+      case 'l':
+        if (isPrivate) this.setPrivateMode(args, final === 'h')
+        break
+    }
+  }
+
+  private setPrivateMode(modes: number[], enabled: boolean) {
+    for (const mode of modes) {
+      if (mode === 25) {
+        this.cursorVisible = enabled
+      } else if (mode === 47 || mode === 1047 || mode === 1049) {
+        if (enabled && !this.savedMain) {
+          if (mode === 1049) this.saveCursor()
+          this.savedMain = { lines: this.lines, x: this.x, y: this.y }
+          this.lines = Array.from({ length: this.rows }, () => blankLine(this.cols))
+        } else if (!enabled && this.savedMain) {
+          this.lines = this.savedMain.lines
+          this.x = this.savedMain.x
+          this.y = this.savedMain.y
+          this.savedMain = null
+          if (mode === 1049) this.restoreCursor()
+        }
+      }
+    }
+  }
+
+  private applySgr(codes: number[]) {
+    const next: CellStyle = { ...this.style }
+
+    for (let i = 0; i < codes.length; i++) {
+      const code = Number.isNaN(codes[i]) ? 0 : codes[i]
+
+      if (code === 0) {
+        this.style = DEFAULT_STYLE
+        for (const key of Object.keys(next) as (keyof CellStyle)[]) delete next[key]
+      } else if (code === 1) next.bold = true
+      else if (code === 2) next.dim = true
+      else if (code === 3) next.italic = true
+      else if (code === 4) next.underline = true
+      else if (code === 7) next.inverse = true
+      else if (code === 22) { next.bold = false; next.dim = false }
+      else if (code === 23) next.italic = false
+      else if (code === 24) next.underline = false
+      else if (code === 27) next.inverse = false
+      else if (code >= 30 && code <= 37) next.fg = BASE_COLORS[code - 30]
+      else if (code >= 90 && code <= 97) next.fg = BASE_COLORS[code - 90 + 8]
+      else if (code === 39) delete next.fg
+      else if (code >= 40 && code <= 47) next.bg = BASE_COLORS[code - 40]
+      else if (code >= 100 && code <= 107) next.bg = BASE_COLORS[code - 100 + 8]
+      else if (code === 49) delete next.bg
+      else if (code === 38 || code === 48) {
+        const key = code === 38 ? 'fg' : 'bg'
+        if (codes[i + 1] === 5) {
+          next[key] = color256(codes[i + 2] ?? 0)
+          i += 2
+        } else if (codes[i + 1] === 2) {
+          next[key] = `rgb(${codes[i + 2] ?? 0},${codes[i + 3] ?? 0},${codes[i + 4] ?? 0})`
+          i += 4
+        }
+      }
+    }
+
+    // Empty style collapses to the shared default so trailing blanks can be trimmed
+    const hasStyle = Object.values(next).some(v => v !== undefined && v !== false)
+    this.style = hasStyle ? Object.freeze(next) : DEFAULT_STYLE
+  }
+
+  private saveCursor() {
+    this.saved = { x: this.x, y: this.y, style: this.style }
+  }
+
+  private restoreCursor() {
+    this.x = Math.min(this.saved.x, this.cols - 1)
+    this.y = Math.min(this.saved.y, this.rows - 1)
+    this.style = this.saved.style
+  }
+
+  private lineFeed() {
+    this.wrapPending = false
+    if (this.y === this.scrollBottom) {
+      this.scrollUp(1)
+    } else if (this.y < this.rows - 1) {
+      this.y++
+    }
+  }
+
+  private pushScrollback(line: Cell[]) {
+    this.scrollback.push(line)
+    if (this.scrollback.length > MAX_SCROLLBACK) this.scrollback.shift()
+  }
+
+  private scrollUp(count: number) {
+    for (let i = 0; i < count; i++) {
+      const [removed] = this.lines.splice(this.scrollTop, 1)
+      if (this.scrollTop === 0 && !this.isAlternateScreen) this.pushScrollback(removed)
+      this.lines.splice(this.scrollBottom, 0, blankLine(this.cols))
+    }
+  }
+
+  private scrollDown(count: number) {
+    for (let i = 0; i < count; i++) {
+      this.lines.splice(this.scrollBottom, 1)
+      this.lines.splice(this.scrollTop, 0, blankLine(this.cols))
+    }
+  }
+
+  private insertLines(count: number) {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) return
+    for (let i = 0; i < count; i++) {
+      this.lines.splice(this.scrollBottom, 1)
+      this.lines.splice(this.y, 0, blankLine(this.cols))
+    }
+  }
+
+  private deleteLines(count: number) {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) return
+    for (let i = 0; i < count; i++) {
+      this.lines.splice(this.y, 1)
+      this.lines.splice(this.scrollBottom, 0, blankLine(this.cols))
+    }
+  }
+
+  private eraseLine(mode: number) {
+    const line = this.lines[this.y]
+    const [from, to] = mode === 0 ? [this.x, this.cols] : mode === 1 ? [0, this.x + 1] : [0, this.cols]
+    for (let i = from; i < to; i++) line[i] = { ch: ' ', style: DEFAULT_STYLE }
+  }
+
+  private eraseDisplay(mode: number) {
+    if (mode === 0) {
+      this.eraseLine(0)
+      for (let row = this.y + 1; row < this.rows; row++) this.lines[row] = blankLine(this.cols)
+    } else if (mode === 1) {
+      this.eraseLine(1)
+      for (let row = 0; row < this.y; row++) this.lines[row] = blankLine(this.cols)
+    } else {
+      if (mode === 3) this.scrollback = []
+      this.lines = Array.from({ length: this.rows }, () => blankLine(this.cols))
+    }
+  }
+}
+
+/**
+ * Translates a browser key event into the bytes a PTY expects.
+ * Returns null for keys that should be left to the browser.
+ */
+export function keyEventToSequence(event: {
+  key: string
+  ctrlKey: boolean
+  altKey: boolean
+  metaKey: boolean
+}): string | null {
+  const { key, ctrlKey, altKey, metaKey } = event
+  if (metaKey) return null
+
+  if (ctrlKey && key.length === 1) {
+    const upper = key.toUpperCase()
+    if (upper >= 'A' && upper <= 'Z') return String.fromCharCode(upper.charCodeAt(0) - 64)
+    if (key === ' ' || key === '@') return '\x00'
+    if (key === '[') return '\x1b'
+    if (key === '\\') return '\x1c'
+    if (key === ']') return '\x1d'
+    return null
+  }
+
+  const special: Record<string, string> = {
+    Enter: '\r',
+    Backspace: '\x7f',
+    Tab: '\t',
+    Escape: '\x1b',
+    ArrowUp: '\x1b[A',
+    ArrowDown: '\x1b[B',
+    ArrowRight: '\x1b[C',
+    ArrowLeft: '\x1b[D',
+    Home: '\x1b[H',
+    End: '\x1b[F',
+    Insert: '\x1b[2~',
+    Delete: '\x1b[3~',
+    PageUp: '\x1b[5~',
+    PageDown: '\x1b[6~',
+  }
+  if (special[key]) return special[key]
+
+  if (key.length === 1) return altKey ? `\x1b${key}` : key
+  return null
+}
@@ -0,0 +1,272 @@
+/**
+ * ZIP Archive Reader / Writer
+ * Minimal, dependency-free ZIP reader built on Blob slicing and the native
+ * DecompressionStream, so large archives are never fully loaded in memory.
+ * Supports STORED and DEFLATE entries and ZIP64 sizes/offsets.
+ * The writer produces STORED archives (no ZIP64), enough for bundling files
+ * pulled from a device.
+ */
+
+export interface ZipEntry {
+  name: string
+  compressedSize: number
+  size: number
+  method: number
+  isDirectory: boolean
+  /** Returns the decompressed entry content as a (lazily produced) Blob */
+  blob: () => Promise<Blob>
+  text: () => Promise<string>
+}
+
+export interface ZipInputFile {
+  name: string
+  data: Uint8Array
+  mtime?: Date
+}
+
+const EOCD_SIGNATURE = 0x06054b50
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP64_EOCD_SIGNATURE = 0x06064b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+// EOCD (22 bytes) + max comment length (65535)
+const EOCD_SEARCH_SIZE = 22 + 0xffff
+
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+  const buffer = await file.slice(start, end).arrayBuffer()
+  return new DataView(buffer)
+}
+
+function readUint64(view: DataView, offset: number): number {
+  const low = view.getUint32(offset, true)
+  const high = view.getUint32(offset + 4, true)
+  return high * 0x100000000 + low
+}
+
+async function findEndOfCentralDirectory(file: Blob) {
+  const searchStart = Math.max(0, file.size - EOCD_SEARCH_SIZE)
+  const view = await readBytes(file, searchStart, file.size)
+
+  for (let i = view.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) !== EOCD_SIGNATURE) continue
+
+    let entryCount = view.getUint16(i + 10, true)
+    let directorySize = view.getUint32(i + 12, true)
+    let directoryOffset = view.getUint32(i + 16, true)
+
+    // ZIP64: the real values live in the ZIP64 end of central directory record
+    const locatorOffset = i - 20
+    if (locatorOffset >= 0 && view.getUint32(locatorOffset, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64Offset = readUint64(view, locatorOffset + 8)
+      const zip64 = await readBytes(file, zip64Offset, zip64Offset + 56)
+      if (zip64.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+        entryCount = readUint64(zip64, 32)
+        directorySize = readUint64(zip64, 40)
+        directoryOffset = readUint64(zip64, 48)
+      }
+    }
+
+    return { entryCount, directorySize, directoryOffset }
+  }
+
+  throw new Error('Not a valid ZIP archive')
+}
+
+function readZip64Extra(
+  view: DataView,
+  start: number,
+  length: number,
+  values: { size: number; compressedSize: number; offset: number }
+) {
+  let cursor = start
+  const end = start + length
+
+  while (cursor + 4 <= end) {
+    const headerId = view.getUint16(cursor, true)
+    const dataSize = view.getUint16(cursor + 2, true)
+    let field = cursor + 4
+
+    if (headerId === 0x0001) {
+      if (values.size === 0xffffffff) {
+        values.size = readUint64(view, field)
+        field += 8
+      }
+      if (values.compressedSize === 0xffffffff) {
+        values.compressedSize = readUint64(view, field)
+        field += 8
+      }
+      if (values.offset === 0xffffffff) {
+        values.offset = readUint64(view, field)
+      }
+      return
+    }
+
+    cursor += 4 + dataSize
+  }
+}
+
+async function resolveDataOffset(file: Blob, headerOffset: number): Promise<number> {
+  const header = await readBytes(file, headerOffset, headerOffset + 30)
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Corrupted ZIP local header')
+  }
+  const nameLength = header.getUint16(26, true)
+  const extraLength = header.getUint16(28, true)
+  return headerOffset + 30 + nameLength + extraLength
+}
+
+/**
+ * Reads the central directory of a ZIP archive.
+ * Entry contents are only decompressed when `blob()`/`text()` is called.
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const { entryCount, directorySize, directoryOffset } = await findEndOfCentralDirectory(file)
+  const view = await readBytes(file, directoryOffset, directoryOffset + directorySize)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  let cursor = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(cursor, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupted ZIP central directory')
+    }
+
+    const method = view.getUint16(cursor + 10, true)
+    const nameLength = view.getUint16(cursor + 28, true)
+    const extraLength = view.getUint16(cursor + 30, true)
+    const commentLength = view.getUint16(cursor + 32, true)
+    const values = {
+      compressedSize: view.getUint32(cursor + 20, true),
+      size: view.getUint32(cursor + 24, true),
+      offset: view.getUint32(cursor + 42, true),
+    }
+
+    const nameBytes = new Uint8Array(view.buffer, view.byteOffset + cursor + 46, nameLength)
+    const name = decoder.decode(nameBytes)
+    readZip64Extra(view, cursor + 46 + nameLength, extraLength, values)
+
+    const { compressedSize, size, offset } = values
+    const blob = async (): Promise<Blob> => {
+      const dataOffset = await resolveDataOffset(file, offset)
+      const raw = file.slice(dataOffset, dataOffset + compressedSize)
+
+      if (method === METHOD_STORED) return raw
+      if (method === METHOD_DEFLATE) {
+        const stream = raw.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+        return new Response(stream).blob()
+      }
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`)
+    }
+
+    entries.push({
+      name,
+      compressedSize,
+      size,
+      method,
+      isDirectory: name.endsWith('/'),
+      blob,
+      text: async () => (await blob()).text(),
+    })
+
+    cursor += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+// ZIP32 limit: sizes and offsets are stored on 4 bytes
+const MAX_ZIP32_SIZE = 0xffffffff
+const UTF8_FLAG = 0x0800
+
+let crcTable: Uint32Array | undefined
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Builds a STORED (uncompressed) ZIP archive.
+ */
+export function createZip(files: ZipInputFile[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name.replace(/^\/+/, ''))
+    const size = file.data.length
+    const crc = crc32(file.data)
+    const { time, date } = toDosDateTime(file.mtime ?? new Date())
+
+    if (offset + 30 + name.length + size > MAX_ZIP32_SIZE) {
+      throw new Error('Archive too large (4 GB limit)')
+    }
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, METHOD_STORED, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+
+    const central = new DataView(new ArrayBuffer(46 + name.length))
+    central.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, METHOD_STORED, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    new Uint8Array(central.buffer).set(name, 46)
+
+    parts.push(local.buffer, name, file.data)
+    directory.push(new Uint8Array(central.buffer))
+    offset += 30 + name.length + size
+  }
+
+  const directorySize = directory.reduce((total, entry) => total + entry.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, EOCD_SIGNATURE, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' })
+}
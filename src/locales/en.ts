@@ -70,6 +70,7 @@ export const en = {
         debloatLists: 'Community Lists',
         degoogle: 'De-Google',
         privacy: 'Privacy Tools',
+        permissions: 'Permissions',
         rootTools: 'Root Tools',
         history: 'History',
         settings: 'Settings',
@@ -85,6 +86,8 @@ export const en = {
         analytics: 'Analytics',
         apkInstaller: 'APK Installer',
         appCloner: 'App Cloner',
+        logcat: 'Logcat',
+        fileManager: 'File Manager',
     },
 
     // ============= CONNECTION =============
@@ -129,6 +132,29 @@ export const en = {
             title: 'Complete Management',
             description: 'Disable bloatware, change resolution, install apps with one click.',
         },
+        network: {
+            usb: 'USB',
+            wifi: 'Wi-Fi',
+            connectWifi: 'Connect over Wi-Fi',
+            modeWireless: 'Wireless debugging (Android 11+)',
+            modeTcp: 'ADB over TCP (adb tcpip)',
+            address: 'Device address (IP:port)',
+            addressPlaceholder: '192.168.1.20:5555',
+            pairTitle: 'Pair with code',
+            pairHint: 'Developer Options → Wireless debugging → Pair device with pairing code',
+            pairAddress: 'Pairing address (IP:port)',
+            pairCode: '6-digit code',
+            pair: 'Pair',
+            paired: 'Device paired',
+            pairFailed: 'Pairing failed',
+            bridgeOnline: 'Bridge running',
+            bridgeOffline: 'Bridge not detected. Start it on this computer:',
+            bridgeWirelessHint: 'Wireless debugging also needs platform-tools (adb) installed on this computer.',
+            recent: 'Recent network devices',
+            forget: 'Forget',
+            switchToWifi: 'Switch to Wi-Fi',
+            switchToWifiHint: 'Restarts ADB in TCP mode (port 5555), then reconnects over the network. You can unplug the cable afterwards.',
+        },
     },
 
     // ============= DASHBOARD =============
@@ -224,6 +250,7 @@ export const en = {
         viewDisabled: 'Disabled',
         // Modal
         removeBloatwareTitle: 'Remove Recommended Bloatware',
+        manualSelection: 'Manual selection',
         selectAppsToDisable: 'Select apps to disable.',
         appsSelected: 'apps selected',
         disableApps: 'Disable {count} apps',
@@ -249,6 +276,24 @@ export const en = {
             expert: 'Removal for expert users',
             unsafe: 'Critical app'
         },
+        // Dependencies
+        dependencies: {
+            showGraph: 'Dependencies',
+            graphTitle: 'Dependency graph',
+            graphHint: 'Arrows point from a package to what it needs. Click a node to explore its neighbourhood.',
+            needs: 'Needs',
+            neededBy: 'Needed by',
+            none: 'None',
+            legendEnabled: 'Enabled',
+            legendDisabled: 'Disabled',
+            legendAbsent: 'Not installed',
+            impactTitle: 'Dependent packages',
+            disableImpact: 'Disabling {name} may break {count} enabled package(s) that depend on it:',
+            enableImpact: '{name} needs {count} disabled package(s) to work:',
+            cascadeDisable: 'Disable all ({count})',
+            cascadeEnable: 'Enable all ({count})',
+            onlyThis: 'Only this package',
+        },
     },
 
     // ============= DEGOOGLE =============
@@ -392,6 +437,10 @@ export const en = {
         deviceScrapingDescription: 'Extracts icons and real app names directly from the device via ADB. If disabled, only database data will be used.',
         deviceScrapingEnabled: 'Data extraction enabled',
         deviceScrapingDisabled: 'Data extraction disabled',
+        // Command queue
+        commandConcurrency: 'Command Concurrency',
+        commandConcurrencySubtitle: 'Parallel ADB commands per device',
+        commandConcurrencyDesc: 'How many shell commands can run at the same time on each device. Batch operations always leave one slot free for the interface.',
         adminSettingWarning: '⚠️ Admin Setting: This setting is global and affects all users. Disabling this feature requires users to login manually every time.',
         adminScrapingWarning: '⚠️ Admin Setting: This option affects performance and privacy. If disabled, no icons or names will be extracted from the device for any user.',
         // Associated devices
@@ -554,6 +603,53 @@ export const en = {
         // Login
         loginToSeeHistory: 'Log in to see history',
         loginDescription: 'Sign in to view your action history and sync data across devices.',
+        // Local snapshots
+        snapshots: {
+            title: 'Device snapshots',
+            description: 'Local captures of package states, disabled components, runtime permissions, appops and tweaked settings. Stored in this browser, no account needed.',
+            labelPlaceholder: 'Snapshot name (optional)',
+            take: 'Take snapshot',
+            taken: 'Snapshot saved',
+            captureFailed: 'Snapshot failed',
+            connectDevice: 'Connect a device to take a snapshot',
+            empty: 'No snapshots yet',
+            otherDevice: 'Other device',
+            summary: '{packages} packages · {disabled} disabled · {uninstalled} uninstalled · {components} components off · {permissions} permissions · {appops} appops',
+            compareLive: 'Compare with device',
+            compareSelected: 'Compare selected ({count}/2)',
+            rollback: 'Roll back',
+            delete: 'Delete',
+            deleteConfirm: 'Delete snapshot "{label}"?',
+            live: 'Live device',
+            diffTitle: 'Snapshot diff',
+            diffFromTo: '{from} → {to}',
+            noChanges: 'No differences',
+            changesCount: '{count} changes',
+            notPresent: 'absent',
+            defaultMode: 'default',
+            unset: 'unset',
+            rollbackTitle: 'Roll back to snapshot',
+            rollbackPlan: '{count} steps will bring the device back to "{label}". Review and deselect what you want to keep.',
+            notRestorable: 'Not restorable: the package is no longer on the device',
+            newPackagesKept: 'Apps installed after the snapshot are left untouched.',
+            execute: 'Apply {count} steps',
+            executing: 'Rolling back ({done}/{total})...',
+            rollbackDone: 'Rollback complete',
+            rollbackResult: '{success} steps applied, {failed} failed',
+            stages: {
+                packages: 'Reading package states...',
+                permissions: 'Reading runtime permissions...',
+                appops: 'Reading appops (may take a while)...',
+                settings: 'Reading settings...',
+            },
+            kinds: {
+                package: 'Packages',
+                component: 'Components',
+                permission: 'Permissions',
+                appop: 'AppOps',
+                setting: 'Settings',
+            },
+        },
     },
 
     // ============= COMMUNITY LISTS =============
@@ -588,6 +684,7 @@ export const en = {
         apps: 'apps',
         unknown: 'Unknown',
         close: 'Close',
+        componentRule: 'disable {component}',
         details: 'Details',
     },
 
@@ -784,6 +881,80 @@ export const en = {
         }
     },
 
+    // ============= NETWORK BLOCKER =============
+    networkBlocker: {
+        title: 'Per-app network blocking',
+        description: 'Cut individual apps off the network without uninstalling them. Rules are saved in a profile you can re-apply after a reboot.',
+        loading: 'Reading network policies...',
+        loadFailed: 'Unable to read network policies',
+        changeFailed: 'Network rule not applied',
+        dataSaver: 'Data Saver',
+        dataSaverDesc: 'Blocks background data on metered networks for every app not explicitly allowed.',
+        profileSummary: '{count} apps in the network profile',
+        profileDrift: '{count} rules of your profile are not active on the device (firewall rules are lost on reboot).',
+        profileApplied: 'Network profile applied to {count} apps',
+        profileMissing: '{count} apps of the profile are not installed',
+        reapply: 'Re-apply profile',
+        rootRequired: 'Wi-Fi and mobile data blocking require root. Without root only background data on metered networks can be restricted.',
+        firewallUnavailable: 'iptables is not usable as root on this device: only background data can be restricted.',
+        searchPlaceholder: 'Search app or package...',
+        showSystem: 'Show system apps',
+        noApps: 'No apps found',
+        app: 'App',
+        fields: {
+            restrictBackground: 'Background',
+            blockWifi: 'Wi-Fi',
+            blockMobile: 'Mobile',
+        },
+        fieldHints: {
+            restrictBackground: 'No background data on metered networks (no root needed)',
+            blockWifi: 'Block all traffic over Wi-Fi (root)',
+            blockMobile: 'Block all traffic over mobile data (root)',
+        },
+    },
+
+    // ============= TRACKER SCANNER =============
+    trackerScanner: {
+        title: 'Tracker Scanner',
+        description: 'Finds analytics, advertising and profiling SDKs embedded in your installed apps. Runs fully offline against the bundled signature dataset.',
+        dataset: 'Dataset {version} · {count} trackers',
+        scan: 'Scan user apps',
+        rescan: 'Rescan user apps',
+        cancel: 'Stop',
+        demoUnavailable: 'Not available in demo mode',
+        modes: {
+            dex: {
+                name: 'Deep scan',
+                description: 'Pulls each APK and reads the classes of every classes*.dex. Accurate, but transfers every app.',
+            },
+            components: {
+                name: 'Quick scan',
+                description: 'Matches the components registered by dumpsys package. Fast, but misses trackers without exported components.',
+            },
+        },
+        stages: {
+            pulling: 'pulling APK',
+            parsing: 'analysing',
+        },
+        summary: '{apps} apps scanned, {withTrackers} with trackers, {trackers} different trackers',
+        onlyWithTrackers: 'Only apps with trackers',
+        trackerCount: '{count} trackers',
+        outdated: 'older dataset',
+        scannedInfo: 'Scanned {date} · {mode} · {count} names inspected · dataset {version}',
+        scanDone: '{count} apps scanned',
+        scanCancelled: 'Scan stopped after {count} apps',
+        scanFailed: 'Tracker scan failed',
+        exported: '{count} app reports exported',
+        categories: {
+            analytics: 'Analytics',
+            advertisement: 'Advertising',
+            crash_reporting: 'Crash reporting',
+            identification: 'Identification',
+            location: 'Location',
+            profiling: 'Profiling',
+        },
+    },
+
     // ============= ROOT TOOLS =============
     rootTools: {
         title: 'Root Tools',
@@ -812,8 +983,121 @@ export const en = {
             level: 'Level',
             domainsCount: '~{count}k domains'
         },
+        composer: {
+            description: 'Pick a preset or individual lists, exempt the domains you need and add your own. Compose to preview the result before installing.',
+            allowlist: 'Allowlist (never blocked)',
+            allowlistPlaceholder: 'one domain per line\n*.example.com also exempts subdomains',
+            blocklist: 'Custom blocklist',
+            blocklistPlaceholder: 'one domain per line',
+            compose: 'Compose',
+            downloading: 'Downloading lists {done}/{total}...',
+            downloadFailed: 'Failed to download lists',
+            readFailed: 'Unable to read the device hosts file',
+            stats: {
+                total: 'Blocked domains',
+                duplicates: 'Duplicates removed',
+                allowlisted: 'Allowlisted',
+                custom: 'Custom added'
+            },
+            listStats: '{entries} entries · {unique} new',
+            diffSummary: 'Compared to the device: +{added} added, -{removed} removed, {unchanged} unchanged',
+            diffTruncated: 'Showing the first {count} changes of each kind',
+            targets: {
+                system: {
+                    name: 'System partition',
+                    description: 'Overwrites /system/etc/hosts. Active immediately.',
+                    readOnly: '/system is mounted read-only: installing will try to remount it'
+                },
+                magisk: {
+                    name: 'Magisk module (systemless)',
+                    description: 'Installs the hosts file as a module. Active after reboot.',
+                    unavailable: 'Magisk modules not available'
+                }
+            },
+            backupExists: 'Original hosts file backed up',
+            backupPending: 'The original hosts file will be backed up before the first install',
+            moduleInstalled: 'Systemless hosts module installed',
+            installed: 'Hosts file installed ({count} domains)',
+            installFailed: 'Hosts installation failed',
+            rebootRequired: 'Reboot the device to apply the change',
+            restore: 'Restore Original',
+            restored: 'Original hosts file restored',
+            restoreFailed: 'Restore failed'
+        },
+        modules: {
+            title: 'Modules',
+            cardTitle: 'Magisk / KernelSU Modules',
+            loading: 'Detecting root manager...',
+            loadFailed: 'Unable to load modules',
+            noManager: 'Neither Magisk nor KernelSU was detected on this device.',
+            managers: {
+                magisk: 'Magisk',
+                kernelsu: 'KernelSU'
+            },
+            on: 'on',
+            off: 'off',
+            enforced: 'enforced',
+            notEnforced: 'not enforced',
+            install: 'Install from Zip',
+            uploading: 'Uploading {percent}%...',
+            installing: 'Installing module...',
+            installed: '{name} installed',
+            installFailed: 'Module installation failed',
+            empty: 'No modules installed',
+            enabled: '{name} enabled',
+            disabled: '{name} disabled',
+            remove: 'Remove',
+            cancelRemoval: 'Undo',
+            removalScheduled: '{name} will be removed at the next reboot',
+            removalCancelled: 'Removal of {name} cancelled',
+            pendingRemoval: 'Will be removed at the next reboot',
+            pendingUpdate: 'Update pending, applied at the next reboot',
+            rebootRequired: 'Reboot the device to apply the change',
+            actionFailed: 'Operation failed',
+            denyList: 'DenyList',
+            denyListDesc: 'Root and module changes are hidden from these processes.',
+            denyPlaceholder: 'package [process]',
+            denyAdd: 'Add',
+            denyRemove: 'Remove from DenyList',
+            denyAdded: '{name} added to the DenyList',
+            denyRemoved: '{name} removed from the DenyList',
+            denyEmpty: 'The DenyList is empty'
+        },
+        storage: {
+            cardTitle: 'Storage Analyzer',
+            description: 'Measures app caches, external caches, thumbnails, obsolete OBBs and leftovers of uninstalled apps. Nothing is deleted until you choose what to clear.',
+            descriptionNoRoot: 'Without root, app caches are measured through diskstats and cleared by the package manager. Code caches need root.',
+            analyze: 'Analyze Storage',
+            reanalyze: 'Analyze Again',
+            analyzeFailed: 'Storage analysis failed',
+            measuring: 'Measuring {category}...',
+            trimCaches: 'Trim All Caches',
+            cacheNeedsTrim: 'Before Android 14 the package manager can\'t clear one app\'s cache without wiping its data: app caches are shown for reference, use Trim All Caches to free them.',
+            trimmed: 'App caches trimmed',
+            trimFailed: 'Cache trimming failed',
+            categories: {
+                cache: 'Cache',
+                codeCache: 'Code cache',
+                externalCache: 'External cache',
+                thumbnails: 'Thumbnails',
+                obsoleteObb: 'Obsolete OBBs',
+                orphanedData: 'Orphaned data'
+            },
+            summary: '{size} reclaimable across {count} entries',
+            app: 'App',
+            total: 'Total',
+            shared: 'Shared storage',
+            uninstalled: 'not installed',
+            nothingToClean: 'Nothing to clean',
+            selected: '{size} selected ({count} items)',
+            clean: 'Clear Selected',
+            confirmTitle: 'Clear Storage',
+            confirmDesc: '{count} items ({size}) will be deleted permanently:',
+            cleaned: '{size} freed ({count} items)',
+            cleanErrors: '{count} items could not be cleared, see the command log'
+        },
         clean: {
-            title: 'Deep Clean',
+            title: 'Storage Cleaner',
             cardTitle: 'Deep Clean',
             description: 'Clean system cache, thumbnails, temporary files, and leftovers. Frees up space and improves performance.',
             start: 'Start Cleaning',
@@ -920,6 +1204,106 @@ export const en = {
         showCamera: 'Show Camera',
         hideCamera: 'Hide Camera',
         cameraError: 'Camera access denied or unavailable',
+        audio: {
+            title: 'Device Audio',
+            desc: 'Forward the device sound to this computer (Android 11+)',
+            unavailable: 'Audio is not available on this device or browser',
+            on: 'Audio On',
+            off: 'Audio Off',
+            mute: 'Mute',
+            unmute: 'Unmute',
+            volume: 'Volume',
+            restarting: 'Restarting the stream to apply the audio setting...',
+        },
+        keys: {
+            button: 'Keys',
+            title: 'Keyboard Mapping',
+            description: 'Physical keys are forwarded to {device} by position. Overrides here replace the default Android keycode of a key.',
+            thisDevice: 'this device',
+            textInjection: 'Type characters as text',
+            textInjectionDesc: 'Layout-independent; turn off for games and apps that need raw key events',
+            overrides: 'Key overrides',
+            reset: 'Reset to defaults',
+            empty: 'No overrides: every key uses its default mapping',
+            ignored: 'Ignored (not sent)',
+            add: 'Add override',
+            pressKey: 'Press a key...',
+            mouseHint: 'Mouse: wheel scrolls, right click is Back, middle click is Home.',
+            saved: 'Key mapping saved',
+        },
+        gestures: {
+            button: 'Gestures',
+            title: 'Touch Gestures',
+            description: 'Record taps, swipes and multi-finger gestures on the mirror and replay them. Positions are relative, so gestures work at any resolution. Hold Ctrl while dragging with the mouse to pinch.',
+            empty: 'No gestures recorded yet',
+            record: 'Record Gesture',
+            stopRecording: 'Stop Recording',
+            recordingHint: 'Recording gesture...',
+            nothingRecorded: 'No touches were recorded',
+            recorded: '{events} events, up to {fingers} fingers, {duration}',
+            summary: 'Up to {fingers} fingers · {duration}',
+            name: 'Name',
+            defaultName: 'Gesture {n}',
+            discard: 'Discard',
+            replay: 'Replay',
+        },
+        gamepad: {
+            button: 'Gamepad',
+            title: 'Gamepad',
+            description: 'Play with a controller connected to this computer. It is forwarded while the mirror is running.',
+            modes: {
+                off: 'Off',
+                offDesc: 'Gamepads are ignored',
+                uhid: 'Controller',
+                uhidDesc: 'The device sees a real gamepad',
+                touch: 'Touch layout',
+                touchDesc: 'Buttons tap on-screen controls',
+            },
+            connected: 'Connected gamepads',
+            empty: 'No gamepad detected. Press a button on the controller to wake it up.',
+            uhidHint: 'Works with games that support controllers. Android loads the key layout of the real controller when the browser exposes its ids.',
+            layout: 'Layout for the app in the foreground',
+            noPackage: 'Start the mirror and open a game',
+            detect: 'Detect foreground app',
+            controls: '{count} mapped controls',
+            editLayout: 'Edit Layout',
+            clearLayout: 'Clear',
+            layoutSaved: 'Gamepad layout saved',
+            editHint: 'Drag controls onto the game\'s buttons · Scroll over a joystick to resize it',
+            addButton: 'Button',
+            leftStick: 'Left stick',
+            rightStick: 'Right stick',
+        },
+        macros: {
+            button: 'Macros',
+            title: 'Input Macros',
+            description: 'Record taps, swipes, keys and typed text on the mirror and replay them on any device. Positions are relative, so macros work at any resolution.',
+            empty: 'No macros recorded yet',
+            record: 'Record Macro',
+            stopRecording: 'Stop Macro',
+            recordingHint: 'Recording macro: touches, keys and text are captured',
+            nothingRecorded: 'No input was recorded',
+            summary: '{touches} touches · {keys} keys · {texts} texts · {duration} · {screen}',
+            name: 'Name',
+            defaultName: 'Macro {n}',
+            discard: 'Discard',
+            replay: 'Replay',
+            stopLoop: 'Stop ({loop}/{loops})',
+            method: 'Replay via',
+            methods: {
+                scrcpy: 'Mirror',
+                shell: 'Shell input',
+            },
+            shellHint: 'Uses adb "input" commands, without the mirror. Each finger becomes a tap or a straight swipe, multi-touch is played one finger at a time. Keep the device in the orientation the macro was recorded in.',
+            speed: 'Speed',
+            loops: 'Loops',
+            export: 'Export',
+            exportAll: 'Export All',
+            import: 'Import',
+            imported: '{count} macros imported',
+            importFailed: 'Not a valid macro file',
+            replayFailed: 'Macro replay failed',
+        },
     },
 
     // ============= DESKTOP MODE =============
@@ -987,6 +1371,17 @@ export const en = {
         connectionError: 'Connection Error',
         disconnected: 'Disconnected',
         deviceDisconnected: 'Device disconnected',
+        devices: {
+            title: 'Devices',
+            addDevice: 'Add device',
+            switchedTo: 'Now working with {model}',
+            disconnectDevice: 'Disconnect this device',
+            targets: 'Apply to devices',
+            targetsHint: 'Selected devices run the operation in parallel',
+            active: 'active',
+            deviceFailed: '{model}: {error}',
+            batchSummary: '{success}/{total} devices completed',
+        },
         shell: {
             success: 'Command executed successfully',
             error: 'Command failed',
@@ -1006,6 +1401,7 @@ export const en = {
             httpsRequired: '🔒 HTTPS required!\n\nWebUSB only works on secure connections (HTTPS) or localhost.\nMake sure the server uses HTTPS with a valid certificate.',
             webUsbNotSupported: '⚠️ WebUSB not supported!\n\nThis browser does not support WebUSB.\nUse Chrome, Edge, or Opera on desktop.',
             adbInitFailed: '❌ Failed to initialize ADB manager.\nTry reloading the page.',
+            bridgeUnreachable: '📡 ADB Wi-Fi bridge not reachable.\n\nStart it on this computer:\nnode scripts/adb-wifi-bridge.mjs\n\nThen check the device address and that both are on the same network.',
             noDevice: 'No device selected',
             deviceBusy: '⚠️ Device busy by ADB on PC!\n\nRun this command in terminal:\nadb kill-server\n\nThen try connecting again.',
             accessDenied: 'Access denied. Authorize USB debugging on phone.',
@@ -1174,6 +1570,360 @@ export const en = {
         hiddenLogsNotice: 'Some previous commands are hidden to maintain performance.',
         downloadLog: 'Download Full Log',
         clickForMore: '[Click for more]',
+        modeRestricted: 'Restricted',
+        modeRestrictedHint: 'Single commands checked against the safety whitelist',
+        modeInteractive: 'Interactive',
+        modeInteractiveHint: 'Full interactive shell (PTY) on the device',
+        pty: {
+            warning: 'Interactive shell: commands are not filtered by the safety whitelist.',
+            ready: 'Interactive shell not started.',
+            connecting: 'Opening shell...',
+            instructions: 'Press Enter or Start to open a PTY session. Ctrl+C interrupts, Ctrl+Shift+V pastes.',
+            start: 'Start',
+            restart: 'Restart',
+            stop: 'Stop',
+            interrupt: 'Send interrupt (SIGINT)',
+            sessionStarted: 'Interactive shell session started',
+            sessionEnded: 'Interactive shell session ended (exit code {code})',
+        },
+        modeQueue: 'Queue',
+        modeQueueHint: 'Pending, running and failed device commands',
+        queue: {
+            empty: 'No commands in the queue.',
+            running: 'Running',
+            pending: 'Pending',
+            finished: 'Finished',
+            concurrency: '{count} parallel commands per device',
+            cancel: 'Cancel',
+            cancelPending: 'Cancel pending',
+            retry: 'Retry',
+            clearFinished: 'Clear finished',
+            duration: '{seconds}s',
+            status: {
+                pending: 'Pending',
+                running: 'Running',
+                success: 'Done',
+                failed: 'Failed',
+                timeout: 'Timed out',
+                cancelled: 'Cancelled',
+            },
+            priority: {
+                high: 'High',
+                normal: 'Normal',
+                low: 'Batch',
+            },
+        },
+    },
+
+    // ============= FILE MANAGER =============
+    fileManager: {
+        title: 'File Manager',
+        subtitle: 'Browse, upload and download files on the device',
+        connectDevice: 'Connect a device to browse its storage',
+        demoUnavailable: 'The file manager needs a real device',
+        roots: {
+            sdcard: 'Internal storage',
+            storage: 'All volumes',
+            tmp: 'ADB temp (/data/local/tmp)',
+            appData: 'App data',
+            apps: 'Installed APKs',
+            system: 'System',
+            vendor: 'Vendor',
+            product: 'Product',
+        },
+        up: 'Up',
+        refresh: 'Refresh',
+        newFolder: 'New folder',
+        folderName: 'Folder name',
+        create: 'Create',
+        upload: 'Upload',
+        uploads: 'Uploads',
+        clearFinished: 'Clear finished',
+        dropToUpload: 'Drop to upload into {path}',
+        download: 'Download',
+        downloadZip: 'Download ZIP',
+        downloading: 'Downloading {name}...',
+        zipping: 'Packing {done}/{total}: {name}',
+        downloadFailed: 'Download failed',
+        rename: 'Rename',
+        renameFailed: 'Rename failed',
+        createFolderFailed: 'Could not create folder',
+        delete: 'Delete',
+        deleting: 'Deleting...',
+        deleted: '{count} item(s) deleted',
+        deleteFailed: 'Delete failed',
+        confirmDeleteTitle: 'Delete permanently?',
+        confirmDeleteMessage: '{count} item(s) will be removed from the device. Folders are deleted with all their contents. This cannot be undone.',
+        readOnly: 'read-only',
+        empty: 'This folder is empty',
+        name: 'Name',
+        size: 'Size',
+        modified: 'Modified',
+        path: 'Path',
+        type: 'Type',
+        typeFile: 'File',
+        typeFolder: 'Folder',
+        typeLink: 'Symbolic link',
+        permissions: 'Permissions',
+    },
+
+    // ============= LOGCAT =============
+    logcat: {
+        title: 'Logcat',
+        subtitle: 'Live device logs with filters and crash highlighting',
+        connectDevice: 'Connect a device to read its logs',
+        pause: 'Pause',
+        resume: 'Resume',
+        clear: 'Clear',
+        restart: 'Restart stream',
+        filterPackage: 'Package (e.g. com.example.app)',
+        filterTag: 'Tags (comma separated)',
+        filterRegex: 'Regex on message or tag',
+        crashesOnly: 'Crashes',
+        bufferSize: 'Lines kept in memory',
+        pidsFound: 'Following PIDs: {pids}',
+        noPids: 'Package not running: its logs appear as soon as it starts',
+        paused: 'Paused ({count} new lines buffered)',
+        streamStarted: 'Logcat stream started',
+        streamError: 'Logcat stream failed',
+        shownCount: '{shown} shown · {filtered} matching · {total} buffered',
+        empty: 'No log lines match the current filters',
+        scrollToBottom: 'Scroll to latest',
+        exported: 'Logs exported',
+        exportedCount: '{count} lines saved',
+        status: {
+            connecting: 'Connecting...',
+            streaming: 'Streaming',
+            ended: 'Stream ended',
+            error: 'Stream failed',
+        },
+        levels: {
+            V: 'Verbose',
+            D: 'Debug',
+            I: 'Info',
+            W: 'Warning',
+            E: 'Error',
+            F: 'Fatal',
+        },
+    },
+
+    // ============= APP BACKUP =============
+    appBackup: {
+        backup: 'Backup',
+        restoreButton: 'Restore backup',
+        backupTitle: 'Back up app',
+        backupDescription: 'Saves the base and split APKs with a manifest (version, signatures, granted permissions) into a single ZIP archive.',
+        includeData: 'Include app data',
+        includeDataHint: 'Archives /data/data of the app (cache excluded)',
+        requiresRoot: 'Requires a rooted device',
+        startBackup: 'Create backup',
+        backupSaved: 'Backup downloaded',
+        backupDone: '{count} APK(s) saved',
+        restoreTitle: 'Restore app backup',
+        invalidBackup: 'Invalid backup',
+        package: 'Package',
+        version: 'Version',
+        createdAt: 'Created',
+        sourceDevice: 'Source device',
+        contents: 'Contents',
+        apkCount: '{count} APK(s)',
+        dataIncluded: 'app data',
+        signatures: 'Signing certificates',
+        restoreData: 'Restore app data',
+        restoreDataHint: 'Replaces the app data and fixes ownership and SELinux context',
+        noDataInBackup: 'This backup contains no app data',
+        grantPermissions: 'Re-grant permissions',
+        grantPermissionsHint: '{count} runtime permission(s) recorded',
+        overwriteWarning: 'Existing data of this app on the device will be overwritten.',
+        startRestore: 'Restore',
+        installed: 'APKs installed',
+        dataRestored: 'App data restored',
+        dataFailed: 'Data restore failed: {error}',
+        permissionsGranted: '{granted} of {total} permissions granted',
+        stages: {
+            inspecting: 'Reading package info',
+            apks: 'Pulling APKs',
+            data: 'Transferring app data',
+            packing: 'Building archive',
+            verifying: 'Verifying checksums',
+            installing: 'Installing APKs',
+            permissions: 'Granting permissions',
+            complete: 'Done',
+        },
+    },
+
+    // ============= APP DETAILS =============
+    appDetails: {
+        open: 'Show app details',
+        loading: 'Reading package info...',
+        loadFailed: 'Unable to read package info: {error}',
+        version: 'Version',
+        versionCode: 'Version code',
+        targetSdk: 'Target SDK',
+        minSdk: 'Min SDK',
+        firstInstall: 'Installed',
+        lastUpdate: 'Updated',
+        installer: 'Installer',
+        noInstaller: 'Preinstalled / sideloaded',
+        uid: 'UID',
+        codePath: 'Code path',
+        dataDir: 'Data directory',
+        signatures: 'Signing certificate',
+        storage: 'Storage',
+        storageUnavailable: 'Storage stats not available on this device yet',
+        sizes: {
+            app: 'App',
+            data: 'Data',
+            cache: 'Cache',
+        },
+        requestedPermissions: 'Requested permissions',
+        declaredPermissions: 'Declared permissions',
+        components: {
+            activities: 'Activities',
+            services: 'Services',
+            receivers: 'Receivers',
+            providers: 'Providers',
+            other: 'Other disabled components',
+        },
+        componentsHint: 'Components with an intent filter and content providers, as registered by the package manager. Switch one off to disable only that component; other classes can be disabled by name below.',
+        componentPlaceholder: 'Component class, e.g. .analytics.TrackerService',
+        componentDisable: 'Disable',
+        componentFailed: 'Component change failed',
+        componentSelect: 'Add to selection (lists and batch)',
+        componentDeselect: 'Remove from selection',
+        clearDataConfirm: 'Clear all data of {name}? Accounts, settings and files of the app are deleted.',
+        actions: {
+            launch: 'Launch',
+            forceStop: 'Force stop',
+            clearData: 'Clear data',
+            appInfo: 'App info',
+        },
+        done: {
+            launch: 'App launched on the device',
+            forceStop: 'App stopped',
+            clearData: 'App data cleared',
+            appInfo: 'App info opened on the device',
+        },
+    },
+
+    // ============= BATCH OPERATIONS =============
+    batch: {
+        planning: 'Checking current package states...',
+        planFailed: 'Unable to read package states: {error}',
+        previewTitle: 'Review changes',
+        previewDescription: 'Dry run on {model}: nothing has been changed yet.',
+        toChange: '{count} to change',
+        toSkip: '{count} skipped',
+        nothingToDo: 'Every package is already in the requested state.',
+        stage: 'Step {n}',
+        componentOf: 'component of {name}',
+        affectedDependents: '{count} enabled package(s) depend on this batch and may stop working:',
+        missingDependencies: '{count} disabled package(s) are needed by this batch:',
+        includeRelated: 'Include them in the batch',
+        execute: 'Apply {count} change(s)',
+        running: 'Applying changes...',
+        undoing: 'Reverting changes...',
+        reportTitle: 'Batch report',
+        undoReportTitle: 'Undo report',
+        summary: '{succeeded} succeeded, {failed} failed, {skipped} skipped, {cancelled} cancelled',
+        downloadReport: 'Download report',
+        undo: 'Undo all changes',
+        undoConfirm: 'Revert the {count} package(s) changed by this batch to their previous state?',
+        completed: 'Batch completed',
+        undone: 'Batch reverted',
+        operations: {
+            disable: 'Disable',
+            uninstall: 'Uninstall',
+            enable: 'Enable',
+        },
+        states: {
+            enabled: 'enabled',
+            disabled: 'disabled',
+            uninstalled: 'uninstalled',
+            absent: 'not installed',
+        },
+        skipReasons: {
+            'already-disabled': 'Already disabled',
+            'already-uninstalled': 'Already uninstalled',
+            'already-enabled': 'Already enabled',
+            absent: 'Not on this device',
+        },
+        status: {
+            success: 'Done',
+            failed: 'Failed',
+            skipped: 'Skipped',
+            cancelled: 'Cancelled',
+        },
+    },
+
+    // ============= PERMISSIONS =============
+    permissions: {
+        title: 'Permission Manager',
+        subtitle: 'Runtime permissions and appops of every app, grouped by the data they give access to.',
+        connectDevice: 'Connect a device to manage app permissions',
+        demoUnavailable: 'The permission manager is not available in demo mode',
+        refresh: 'Refresh',
+        loading: 'Reading permissions from the device...',
+        loadError: 'Unable to read permissions: {error}',
+        noApps: 'No apps match the current filters',
+        searchPlaceholder: 'Search app or package...',
+        withGranted: 'With access to:',
+        shownCount: '{shown} of {total} apps requesting dangerous permissions',
+        app: 'App',
+        system: 'system',
+        appTypes: {
+            user: 'User apps',
+            system: 'System apps',
+            all: 'All',
+        },
+        groups: {
+            location: 'Location',
+            camera: 'Camera',
+            microphone: 'Microphone',
+            contacts: 'Contacts',
+            sms: 'SMS',
+            call_log: 'Call logs',
+            body_sensors: 'Body sensors',
+            nearby_devices: 'Nearby devices',
+        },
+        states: {
+            granted: 'Allowed',
+            partial: 'Partial',
+            denied: 'Denied',
+        },
+        clickToGrant: 'Click to grant the requested permissions',
+        clickToRevoke: 'Click to revoke the granted permissions',
+        granted: '{group} granted to {name}',
+        revoked: '{group} revoked from {name}',
+        changeFailed: 'Permission change failed',
+        bulk: {
+            title: 'Revoke {group}',
+            message: 'Revoke {group} from {count} apps matching the current filters?',
+            revokeHint: 'Revoke from {count} filtered apps',
+            denyAppOps: 'Also block via appops',
+            denyAppOpsHint: 'Sets the group appops to "ignore", so the app is not asked again and gets no data even if the permission is granted later.',
+            confirm: 'Revoke from {count} apps',
+            done: '{group} revoked from {count} apps',
+            failed: '{count} apps failed: {names}',
+        },
+        baseline: {
+            title: 'Privacy baseline',
+            none: 'No baseline saved. Save the current state to re-apply it after a reset or an update.',
+            summary: 'Saved {date} on {model}: {groups} revoked groups in {apps} apps, {appops} appops',
+            save: 'Save current state',
+            overwrite: 'Replace with current state',
+            reapply: 'Re-apply',
+            delete: 'Delete',
+            saved: 'Privacy baseline saved',
+            deleted: 'Privacy baseline deleted',
+            previewTitle: 'Re-apply privacy baseline',
+            previewEmpty: 'The device already matches the baseline.',
+            previewCount: '{count} changes will be applied. Apps not installed anymore are skipped.',
+            stepRevoke: 'revoke {permission}',
+            stepAppop: '{op} → {mode}',
+            apply: 'Apply',
+            applied: 'Baseline applied: {count} changes, {failed} failed',
+        },
     },
 
     // ============= SHIZUKU =============
@@ -1258,9 +2008,9 @@ export const en = {
         dragDrop: 'Drag & drop APK files here',
         dropHere: 'Drop files to add',
         orBrowse: 'or click to browse files',
-        apkOnly: 'Only .apk files are supported',
+        apkOnly: 'Supports .apk files and .xapk, .apkm, .apks bundles',
         invalidFile: 'Invalid File',
-        onlyApk: 'Only APK files (.apk) can be installed.',
+        onlyApk: 'Only APK files (.apk) and app bundles (.xapk, .apkm, .apks) can be installed.',
         addMore: 'Add More',
         clearAll: 'Clear All',
         installAll: 'Install ({count})',
@@ -1283,6 +2033,10 @@ export const en = {
         fileAddedToQueue: 'The file has been added to the installation queue',
         corsError: 'CORS Blocked. The server does not allow direct downloads from a browser. Try downloading it manually.',
         corsNote: 'Note: Direct links might be blocked by browser security (CORS) if the remote server doesn\'t allow it.',
+        cancelled: 'Installation cancelled',
+        bundleSplits: '{format} bundle · {selected}/{total} splits for this device',
+        bundleObbs: '+{count} OBB',
+        bundleReadError: 'Unable to read the bundle archive',
     },
 
     // ============= APP CLONER =============
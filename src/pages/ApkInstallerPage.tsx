@@ -4,7 +4,7 @@
  * Follows Apple Human Interface Guidelines for web
  */
 
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
     Upload,
@@ -24,9 +24,20 @@ import {
 import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
 import { useAdb } from '@/hooks/useAdb'
+import { DeviceTargetPicker } from '@/components/devices/DeviceTargetPicker'
 import { useAppStore } from '@/stores/appStore'
+import { useAdbStore } from '@/stores/adbStore'
 import { useTranslation } from '@/stores/i18nStore'
 import { installApk } from '@/services/adb-client'
+import { installOnDevices } from '@/services/multi-device'
+import {
+    getBundleFormat,
+    readBundle,
+    selectSplits,
+    installBundle,
+    type ApkBundle,
+    type BundleSplit,
+} from '@/services/apk-bundle'
 
 interface ApkFile {
     id: string
@@ -36,6 +47,9 @@ interface ApkFile {
     status: 'pending' | 'installing' | 'success' | 'error'
     progress: number
     error?: string
+    bundle?: ApkBundle
+    selectedSplits?: BundleSplit[]
+    currentSplit?: string
 }
 
 // Security: Whitelist of allowed domains for APK downloads
@@ -91,7 +105,7 @@ function formatFileSize(bytes: number): string {
 }
 
 export function ApkInstallerPage() {
-    const { isConnected } = useAdb()
+    const { isConnected, deviceInfo, activeSerial } = useAdb()
     const { showToast } = useAppStore()
     const { t } = useTranslation()
 
@@ -101,6 +115,12 @@ export function ApkInstallerPage() {
     const [installUrl, setInstallUrl] = useState('')
     const [isFetching, setIsFetching] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const abortRef = useRef<AbortController | null>(null)
+    const [targetSerials, setTargetSerials] = useState<string[]>([])
+
+    useEffect(() => {
+        setTargetSerials(activeSerial ? [activeSerial] : [])
+    }, [activeSerial])
 
     // Not connected state
     if (!isConnected) {
@@ -114,22 +134,41 @@ export function ApkInstallerPage() {
         )
     }
 
-    const addFiles = (newFiles: FileList | File[]) => {
-        const apkFiles = Array.from(newFiles).filter(f => f.name.toLowerCase().endsWith('.apk'))
+    const addFiles = async (newFiles: FileList | File[]) => {
+        const accepted = Array.from(newFiles).filter(f =>
+            f.name.toLowerCase().endsWith('.apk') || getBundleFormat(f.name) !== null
+        )
 
-        if (apkFiles.length === 0) {
+        if (accepted.length === 0) {
             showToast({ type: 'error', title: t('apkInstaller.invalidFile'), message: t('apkInstaller.onlyApk') })
             return
         }
 
-        const mapped: ApkFile[] = apkFiles.map(f => ({
-            id: `${f.name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-            file: f,
-            name: f.name,
-            size: f.size,
-            status: 'pending',
-            progress: 0,
-        }))
+        const mapped: ApkFile[] = []
+        for (const f of accepted) {
+            const entry: ApkFile = {
+                id: `${f.name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                file: f,
+                name: f.name,
+                size: f.size,
+                status: 'pending',
+                progress: 0,
+            }
+
+            if (getBundleFormat(f.name)) {
+                try {
+                    const bundle = await readBundle(f)
+                    entry.bundle = bundle
+                    entry.selectedSplits = selectSplits(bundle, deviceInfo)
+                    if (bundle.packageName) entry.name = `${bundle.packageName}${bundle.versionName ? ` (${bundle.versionName})` : ''}`
+                } catch (error: any) {
+                    entry.status = 'error'
+                    entry.error = error.message || t('apkInstaller.bundleReadError')
+                }
+            }
+
+            mapped.push(entry)
+        }
 
         setFiles(prev => [...prev, ...mapped])
     }
@@ -239,31 +278,79 @@ export function ApkInstallerPage() {
         }
     }
 
+    // Install one file on every selected device in parallel
+    const installOnTargets = async (apkFile: ApkFile) => {
+        const { deviceSessions } = useAdbStore.getState()
+        const infoOf = (serial: string) => serial === activeSerial ? deviceInfo : deviceSessions[serial]?.deviceInfo ?? null
+        const perDevice = new Map<string, number>()
+        const bundle = apkFile.bundle
+
+        const source = bundle
+            ? { bundle, splits: (serial: string) => selectSplits(bundle, infoOf(serial)) }
+            : { file: apkFile.file }
+
+        const results = await installOnDevices(targetSerials, source, (serial, progress) => {
+            perDevice.set(serial, progress)
+            const overall = [...perDevice.values()].reduce((sum, p) => sum + p, 0) / targetSerials.length
+            setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, progress: Math.round(overall * 100) } : f))
+        }, abortRef.current?.signal)
+
+        const failures = results.filter(r => !r.ok)
+        if (failures.length > 0) {
+            throw new Error(failures
+                .map(r => t('adb.devices.deviceFailed', { model: infoOf(r.serial)?.model || r.serial, error: r.error || '' }))
+                .join('\n'))
+        }
+    }
+
     // Install all pending APKs sequentially
     const installAll = async () => {
         const pendingFiles = files.filter(f => f.status === 'pending')
         if (pendingFiles.length === 0) return
 
         setIsInstalling(true)
+        abortRef.current = new AbortController()
 
         for (const apkFile of pendingFiles) {
             // Mark as installing
             setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, status: 'installing' as const, progress: 0 } : f))
 
-            try {
-                const buffer = await apkFile.file.arrayBuffer()
-                const data = new Uint8Array(buffer)
+            if (abortRef.current?.signal.aborted) {
+                setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, status: 'pending' as const, progress: 0 } : f))
+                continue
+            }
 
-                await installApk(data, (progress) => {
-                    setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, progress: Math.round(progress * 100) } : f))
-                })
+            try {
+                if (targetSerials.some(serial => serial !== activeSerial)) {
+                    await installOnTargets(apkFile)
+                } else if (apkFile.bundle && apkFile.selectedSplits) {
+                    await installBundle(apkFile.bundle, apkFile.selectedSplits, {
+                        signal: abortRef.current?.signal,
+                        onProgress: (progress) => {
+                            setFiles(prev => prev.map(f => f.id === apkFile.id
+                                ? { ...f, progress: Math.round(progress.overall * 100), currentSplit: progress.fileName }
+                                : f))
+                        },
+                    })
+                } else {
+                    // Stream the File straight to the device: no full in-memory copy
+                    const result = await installApk(apkFile.file, (progress) => {
+                        setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, progress: Math.round(progress * 100) } : f))
+                    }, { signal: abortRef.current?.signal })
+
+                    if (result.exitCode !== 0 && !result.stdout.includes('Success')) {
+                        throw new Error(result.stderr || result.stdout || 'Install failed')
+                    }
+                }
 
                 setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, status: 'success' as const, progress: 100 } : f))
             } catch (error: any) {
-                setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, status: 'error' as const, error: error.message || 'Unknown error' } : f))
+                const message = error?.name === 'AbortError' ? t('apkInstaller.cancelled') : error.message || 'Unknown error'
+                setFiles(prev => prev.map(f => f.id === apkFile.id ? { ...f, status: 'error' as const, error: message } : f))
             }
         }
 
+        abortRef.current = null
         setIsInstalling(false)
 
         const updatedFiles = files
@@ -336,7 +423,7 @@ export function ApkInstallerPage() {
                     <input
                         ref={fileInputRef}
                         type="file"
-                        accept=".apk"
+                        accept=".apk,.xapk,.apkm,.apks"
                         multiple
                         onChange={handleFileSelect}
                         className="hidden"
@@ -477,6 +564,15 @@ export function ApkInstallerPage() {
                                             </p>
                                             <div className="flex items-center gap-2 mt-0.5">
                                                 <span className="text-xs text-surface-500">{formatFileSize(apkFile.size)}</span>
+                                                {apkFile.bundle && apkFile.selectedSplits && (
+                                                    <span className="text-xs text-surface-500">
+                                                        {t('apkInstaller.bundleSplits', {
+                                                            format: apkFile.bundle.format.toUpperCase(),
+                                                            selected: apkFile.selectedSplits.length,
+                                                            total: apkFile.bundle.splits.length,
+                                                        })}
+                                                    </span>
+                                                )}
                                                 {apkFile.status === 'installing' && (
                                                     <span className="text-xs font-mono text-accent-500">{apkFile.progress}%</span>
                                                 )}
@@ -490,6 +586,30 @@ export function ApkInstallerPage() {
                                                 )}
                                             </div>
 
+                                            {apkFile.selectedSplits && apkFile.status === 'pending' && (
+                                                <div className="flex flex-wrap gap-1 mt-1.5">
+                                                    {apkFile.selectedSplits.map(split => (
+                                                        <span
+                                                            key={split.fileName}
+                                                            className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-surface-200/50 dark:bg-white/5 text-surface-500"
+                                                        >
+                                                            {split.kind === 'base' ? 'base' : split.qualifier || split.fileName.replace(/\.apk$/i, '')}
+                                                        </span>
+                                                    ))}
+                                                    {apkFile.bundle && apkFile.bundle.obbs.length > 0 && (
+                                                        <span className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-amber-500/10 text-amber-600 dark:text-amber-400">
+                                                            {t('apkInstaller.bundleObbs', { count: apkFile.bundle.obbs.length })}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            {apkFile.status === 'installing' && apkFile.currentSplit && (
+                                                <p className="text-[11px] font-mono text-surface-400 truncate mt-1">
+                                                    {apkFile.currentSplit}
+                                                </p>
+                                            )}
+
                                             {/* Progress bar */}
                                             {apkFile.status === 'installing' && (
                                                 <div className="mt-2 h-1 rounded-full bg-surface-200 dark:bg-white/10 overflow-hidden">
@@ -517,6 +637,12 @@ export function ApkInstallerPage() {
                             </motion.div>
                         ))}
 
+                        <DeviceTargetPicker
+                            selected={targetSerials}
+                            onChange={setTargetSerials}
+                            disabled={isInstalling}
+                        />
+
                         {/* Add More + Install Button */}
                         <motion.div
                             initial={{ opacity: 0, y: 10 }}
@@ -533,10 +659,22 @@ export function ApkInstallerPage() {
                                 {t('apkInstaller.addMore')}
                             </Button>
 
+                            {isInstalling && (
+                                <Button
+                                    variant="danger"
+                                    size="sm"
+                                    onClick={() => abortRef.current?.abort()}
+                                    icon={<XCircle className="w-4 h-4" />}
+                                    className="ml-auto mr-2"
+                                >
+                                    {t('common.cancel')}
+                                </Button>
+                            )}
+
                             <Button
                                 variant="primary"
                                 onClick={installAll}
-                                disabled={pendingCount === 0}
+                                disabled={pendingCount === 0 || (!!activeSerial && targetSerials.length === 0)}
                                 loading={isInstalling}
                                 icon={<Upload className="w-4 h-4" />}
                             >
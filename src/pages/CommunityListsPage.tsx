@@ -3,7 +3,7 @@
  * Reddit-style voting and sharing of debloating configurations
  */
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
     Users,
@@ -44,7 +44,12 @@ import {
 } from '@/services/supabase'
 import { downloadCsv, generatePackagesCsv, type CsvRow } from '@/services/csv-service'
 import { useAppStore } from '@/stores/appStore'
+import { useAdbStore } from '@/stores/adbStore'
 import { useAdb } from '@/hooks/useAdb'
+import { applyPackagesOnDevices } from '@/services/multi-device'
+import { DeviceTargetPicker } from '@/components/devices/DeviceTargetPicker'
+import { BatchOperationModal, type BatchRequest } from '@/components/batch/BatchOperationModal'
+import type { BatchComponentRule } from '@/services/batch-operations'
 
 // Helper for tree structure
 interface CommentNode extends DebloatComment {
@@ -200,7 +205,6 @@ const CommunityListsPage = () => {
     const { user, isAuthenticated } = useAuthStore()
     const { t } = useTranslation()
     const setCurrentPage = useAppStore((state) => state.setCurrentPage)
-    const { togglePackage } = useAdb()
 
     const [lists, setLists] = useState<DebloatList[]>([])
     const [loading, setLoading] = useState(true)
@@ -211,8 +215,17 @@ const CommunityListsPage = () => {
     const [newComment, setNewComment] = useState('')
     const [applyingList, setApplyingList] = useState(false)
     const [progress, setProgress] = useState({ current: 0, total: 0, currentPkg: '' })
+    const abortRef = useRef<AbortController | null>(null)
+    const [batchRequest, setBatchRequest] = useState<BatchRequest | null>(null)
     const [filterByMyDevice, setFilterByMyDevice] = useState(false)
-    const { deviceInfo } = useAdb()
+    const { deviceInfo, activeSerial } = useAdb()
+    const showToast = useAppStore((state) => state.showToast)
+    const [targetSerials, setTargetSerials] = useState<string[]>([])
+
+    // Default target: the active device only
+    useEffect(() => {
+        setTargetSerials(activeSerial ? [activeSerial] : [])
+    }, [activeSerial, selectedList])
 
     useEffect(() => {
         loadLists()
@@ -333,24 +346,68 @@ const CommunityListsPage = () => {
     async function applyDebloatList() {
         if (!selectedList) return
 
-        setApplyingList(true)
-        const items = selectedList.items
-        setProgress({ current: 0, total: items.length, currentPkg: '' })
+        // Items with components are component-level rules: the package itself stays enabled
+        const packageNames = selectedList.items
+            .filter(item => !item.components?.length)
+            .map(item => item.package_name)
+        const components = selectedList.items.flatMap(item =>
+            (item.components ?? []).map(component => ({ packageName: item.package_name, component })))
+
+        // Other devices involved: run in parallel through their own sessions
+        if (targetSerials.some(serial => serial !== activeSerial)) {
+            setApplyingList(true)
+            await applyDebloatListOnDevices(packageNames, components)
+            setApplyingList(false)
+            setSelectedList(null)
+            return
+        }
 
-        for (let i = 0; i < items.length; i++) {
-            const item = items[i]
-            setProgress(p => ({ ...p, current: i + 1, currentPkg: item.package_name }))
+        // Dispositivo attivo: anteprima, report e annullamento
+        setBatchRequest({ title: selectedList.list.title, operation: 'disable', packageNames, components })
+    }
 
-            try {
-                // Disabilita il pacchetto sul dispositivo
-                await togglePackage(item.package_name, false)
-            } catch (error) {
-                console.warn(`Failed to disable ${item.package_name}:`, error)
+    /**
+     * Applica la lista a più dispositivi in parallelo
+     */
+    async function applyDebloatListOnDevices(packageNames: string[], components: BatchComponentRule[]) {
+        const { deviceSessions, activeSerial: active, deviceInfo: activeInfo, setDevicePackages } = useAdbStore.getState()
+        const modelOf = (serial: string) => (serial === active ? activeInfo : deviceSessions[serial]?.deviceInfo)?.model || serial
+        const perDevice = new Map<string, { done: number; total: number }>()
+
+        setProgress({ current: 0, total: (packageNames.length + components.length) * targetSerials.length, currentPkg: '' })
+
+        const controller = new AbortController()
+        abortRef.current = controller
+
+        const results = await applyPackagesOnDevices(targetSerials, packageNames, false, (serial, done, total, packageName) => {
+            perDevice.set(serial, { done, total })
+            const totals = [...perDevice.values()]
+            setProgress({
+                current: totals.reduce((sum, d) => sum + d.done, 0),
+                total: totals.reduce((sum, d) => sum + d.total, 0) || 1,
+                currentPkg: packageName ? `${modelOf(serial)} → ${packageName}` : ''
+            })
+        }, controller.signal, components)
+        abortRef.current = null
+
+        for (const result of results) {
+            if (result.ok && result.value) {
+                setDevicePackages(result.serial, result.value.packages)
+            } else {
+                showToast({
+                    type: 'error',
+                    title: t('common.error'),
+                    message: t('adb.devices.deviceFailed', { model: modelOf(result.serial), error: result.error || '' })
+                })
             }
         }
 
-        setApplyingList(false)
-        setSelectedList(null)
+        const succeeded = results.filter(r => r.ok && r.value && r.value.failed.length === 0).length
+        showToast({
+            type: succeeded === results.length ? 'success' : 'warning',
+            title: t('community.applyToDevice'),
+            message: t('adb.devices.batchSummary', { success: succeeded, total: results.length })
+        })
     }
 
     async function handleDeleteList(listId: string) {
@@ -638,7 +695,14 @@ const CommunityListsPage = () => {
                                             {selectedList.items.map((item) => (
                                                 <tr key={item.id} className="hover:bg-white/50 dark:hover:bg-white/5 transition-colors">
                                                     <td className="px-4 py-3 font-medium text-surface-900 dark:text-[#f0f6fc]">{item.label || t('community.unknown')}</td>
-                                                    <td className="px-4 py-3 text-xs font-mono text-surface-500 dark:text-[#8b949e]">{item.package_name}</td>
+                                                    <td className="px-4 py-3 text-xs font-mono text-surface-500 dark:text-[#8b949e]">
+                                                        {item.package_name}
+                                                        {item.components?.map(component => (
+                                                            <div key={component} className="mt-0.5 text-[10px] text-amber-600 dark:text-amber-400 break-all">
+                                                                {t('community.componentRule', { component })}
+                                                            </div>
+                                                        ))}
+                                                    </td>
                                                     <td className="px-4 py-3">
                                                         <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${item.level === 'Recommended' ? 'bg-emerald-500/10 text-emerald-500' :
                                                             item.level === 'Advanced' ? 'bg-blue-500/10 text-blue-500' :
@@ -655,6 +719,12 @@ const CommunityListsPage = () => {
                                 </div>
                             </div>
 
+                            <DeviceTargetPicker
+                                selected={targetSerials}
+                                onChange={setTargetSerials}
+                                disabled={applyingList}
+                            />
+
                             <div className="flex gap-3 justify-end pt-4 border-t dark:border-[#30363d]">
                                 <Button
                                     variant="ghost"
@@ -665,7 +735,7 @@ const CommunityListsPage = () => {
                                 </Button>
                                 <Button
                                     onClick={applyDebloatList}
-                                    disabled={applyingList}
+                                    disabled={applyingList || (!!activeSerial && targetSerials.length === 0)}
                                     className="rounded-xl px-8 bg-accent-500 hover:bg-accent-600 text-white font-bold shadow-lg shadow-accent-500/20"
                                 >
                                     {applyingList ? (
@@ -742,6 +812,14 @@ const CommunityListsPage = () => {
                 )}
             </AnimatePresence>
 
+            <BatchOperationModal
+                request={batchRequest}
+                onClose={(outcome) => {
+                    setBatchRequest(null)
+                    if (outcome) setSelectedList(null)
+                }}
+            />
+
             {/* Applying Progress Modal */}
             <AnimatePresence>
                 {applyingList && (
@@ -788,6 +866,12 @@ const CommunityListsPage = () => {
                                     {progress.currentPkg}
                                 </div>
                             </div>
+
+                            <div className="flex justify-center">
+                                <Button variant="secondary" size="sm" onClick={() => abortRef.current?.abort()}>
+                                    {t('common.cancel')}
+                                </Button>
+                            </div>
                         </div>
                     </Modal>
                 )}
@@ -16,7 +16,6 @@ import {
   XCircle,
   Sparkles,
   Leaf,
-  Zap,
   ChevronRight,
   ChevronDown,
   Info,
@@ -25,7 +24,11 @@ import {
   Download,
   Upload,
   Share2,
-  ListPlus
+  ListPlus,
+  Archive,
+  RotateCcw,
+  GitBranch,
+  Radar
 } from 'lucide-react'
 import { useAdb } from '@/hooks/useAdb'
 import { useAppStore } from '@/stores/appStore'
@@ -38,6 +41,18 @@ import { Switch } from '@/components/ui/Switch'
 import { Modal, ModalActions } from '@/components/ui/Modal'
 import { FilterPanel, ActiveFiltersChips, defaultFilters, type FilterState, type RemovalLevel } from '@/components/debloater/FilterPanel'
 import { DescriptionEditModal } from '@/components/debloater/DescriptionEditModal'
+import { AppBackupModal, AppRestoreModal } from '@/components/debloater/AppBackupModal'
+import { PackageGraphModal, type GraphNodeState } from '@/components/debloater/PackageGraphModal'
+import { AppDetailsDrawer } from '@/components/debloater/AppDetailsDrawer'
+import { BatchOperationModal, type BatchOutcome, type BatchRequest } from '@/components/batch/BatchOperationModal'
+import {
+  buildPackageGraph,
+  getAffectedDependents,
+  getMissingDependencies,
+  hasGraphEdges
+} from '@/services/package-graph'
+import { readAppBackup, type AppBackupArchive } from '@/services/app-backup'
+import { loadTrackerReports, type TrackerMatch } from '@/services/tracker-scanner'
 import {
   getPackageDatabase,
   getImpactColor,
@@ -46,7 +61,7 @@ import {
   type PackageDefinition,
   type RemovalImpact
 } from '@/services/package-database'
-import { logUserAction, supabase } from '@/services/supabase'
+import { supabase } from '@/services/supabase'
 import { useAdbStore } from '@/stores/adbStore'
 import type { PackageInfo } from '@/services/adb-client'
 import {
@@ -62,7 +77,8 @@ import {
   fetchLabelsFromPlayStore
 } from '@/services/app-icons'
 import {
-  createDebloatList
+  createDebloatList,
+  type DebloatListItem
 } from '@/services/supabase'
 import { downloadCsv, generatePackagesCsv, parseDebloatCsv, type CsvRow } from '@/services/csv-service'
 import { isAdmin, getAppSettings } from '@/config/app'
@@ -99,7 +115,6 @@ export function DebloaterPage() {
   const { packages, packagesLoading, loadPackages, togglePackage, uninstallRoot, deviceInfo } = useAdb()
   const setCurrentPage = useAppStore((state) => state.setCurrentPage)
   const { user, isAuthenticated } = useAuthStore()
-  const currentDeviceId = useAdbStore((state) => state.currentDeviceId)
   const { returnedPackages, setSystemUpdateDetected, setHasShownUpdateModal } = useAdbStore()
   const { t } = useTranslation()
 
@@ -130,11 +145,7 @@ export function DebloaterPage() {
   // Quick action modals
   const [recommendedModal, setRecommendedModal] = useState(false)
   const [selectedPackages, setSelectedPackages] = useState<Set<string>>(new Set())
-  const [batchProgress, setBatchProgress] = useState<{
-    total: number
-    current: number
-    currentPackage: string
-  } | null>(null)
+  const [batchRequest, setBatchRequest] = useState<BatchRequest | null>(null)
 
   // Warning modal state
   const [warningModal, setWarningModal] = useState<{
@@ -154,6 +165,23 @@ export function DebloaterPage() {
     removal: RemovalImpact | undefined
   }>({ open: false, packageName: '', descriptions: {}, appLabel: '', labels: [], icon: undefined, removal: undefined })
 
+  // Grafo delle dipendenze: vicinato di un pacchetto e avviso d'impatto
+  const [graphTarget, setGraphTarget] = useState<string | null>(null)
+  const [dependencyPrompt, setDependencyPrompt] = useState<{
+    package: EnrichedPackage
+    newState: boolean
+    related: string[]
+  } | null>(null)
+
+  // Pannello dettagli app
+  const [detailsTarget, setDetailsTarget] = useState<EnrichedPackage | null>(null)
+  // Report del tracker scanner (Privacy Tools), letti una volta all'apertura
+  const [trackerReports] = useState(() => loadTrackerReports())
+
+  // Backup / restore di singole app
+  const [backupTarget, setBackupTarget] = useState<EnrichedPackage | null>(null)
+  const [restoreArchive, setRestoreArchive] = useState<AppBackupArchive | null>(null)
+
   // Debloat List state
   const [createListModal, setCreateListModal] = useState(false)
   const [listTitle, setListTitle] = useState('')
@@ -164,6 +192,11 @@ export function DebloaterPage() {
   // Selezione multipla pacchetti (manuale)
   const [manualSelection, setManualSelection] = useState<Set<string>>(new Set())
 
+  // Singoli componenti selezionati (regole a livello di componente), per pacchetto
+  const [componentSelection, setComponentSelection] = useState<Record<string, string[]>>({})
+  const selectedComponentCount = Object.values(componentSelection).reduce((total, list) => total + list.length, 0)
+  const hasSelection = manualSelection.size > 0 || selectedComponentCount > 0
+
   const toggleManualSelection = (packageName: string) => {
     setManualSelection(prev => {
       const next = new Set(prev)
@@ -173,6 +206,25 @@ export function DebloaterPage() {
     })
   }
 
+  const toggleComponentSelection = (packageName: string, component: string) => {
+    setComponentSelection(prev => {
+      const current = prev[packageName] ?? []
+      const next = current.includes(component) ? current.filter(c => c !== component) : [...current, component]
+      const { [packageName]: _, ...rest } = prev
+      return next.length > 0 ? { ...rest, [packageName]: next } : rest
+    })
+  }
+
+  const clearSelection = () => {
+    setManualSelection(new Set())
+    setComponentSelection({})
+  }
+
+  // Component rules of packages that are not disabled as a whole
+  const selectedComponentRules = () => Object.entries(componentSelection)
+    .filter(([packageName]) => !manualSelection.has(packageName))
+    .flatMap(([packageName, components]) => components.map(component => ({ packageName, component })))
+
   // Handle Export all apps to CSV
   const handleExportAllAppsCSV = () => {
     const nickname = (isAuthenticated && user?.email) ? user.email.split('@')[0] : 'Anonymous'
@@ -209,7 +261,7 @@ export function DebloaterPage() {
       return
     }
 
-    if (manualSelection.size === 0) {
+    if (!hasSelection) {
       useAppStore.getState().showToast({
         type: 'warning',
         title: 'Empty Selection',
@@ -230,15 +282,26 @@ export function DebloaterPage() {
     setIsSavingList(true)
     try {
       const nickname = user.email?.split('@')[0] || 'Anonymous'
-      const items = Array.from(manualSelection).map(pkgName => {
+      const items: Array<Omit<DebloatListItem, 'id' | 'list_id' | 'created_at'>> = Array.from(manualSelection).map(pkgName => {
         const pkg = enrichedPackages.find(p => p.packageName === pkgName)
         return {
           package_name: pkgName,
           label: pkg?.displayName || null,
           description: pkg?.definition?.description || null,
-          level: (pkg?.definition?.removal as any) || 'Recommended'
+          level: pkg?.definition?.removal || 'Recommended'
         }
       })
+      for (const [pkgName, components] of Object.entries(componentSelection)) {
+        if (manualSelection.has(pkgName)) continue
+        const pkg = enrichedPackages.find(p => p.packageName === pkgName)
+        items.push({
+          package_name: pkgName,
+          label: pkg?.displayName || null,
+          description: pkg?.definition?.description || null,
+          level: pkg?.definition?.removal || 'Recommended',
+          components
+        })
+      }
 
       await createDebloatList(
         user.id,
@@ -258,7 +321,7 @@ export function DebloaterPage() {
       })
 
       setCreateListModal(false)
-      setManualSelection(new Set())
+      clearSelection()
       setListTitle('')
       setListDescription('')
     } catch (error) {
@@ -303,48 +366,63 @@ export function DebloaterPage() {
     e.target.value = ''
   }
 
-  // Handle applying the manual selection (same logic as recommended removal)
-  const handleApplySelection = async () => {
-    const count = manualSelection.size
-    if (count === 0) return
-
-    setBatchProgress({ total: count, current: 0, currentPackage: '' })
-
-    const pkgsToDisable = Array.from(manualSelection)
-    for (let i = 0; i < pkgsToDisable.length; i++) {
-      const pkgName = pkgsToDisable[i]
-      const pkg = enrichedPackages.find(p => p.packageName === pkgName)
-      setBatchProgress({
-        total: count,
-        current: i + 1,
-        currentPackage: pkg?.displayName || pkgName
-      })
-
-      await togglePackage(pkgName, false)
+  // Apre un archivio di backup e mostra il manifest prima del ripristino
+  const handleOpenBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
 
-      if (isAuthenticated && user && currentDeviceId) {
-        await logUserAction(user.id, currentDeviceId, pkgName, 'disable').catch(() => { })
-      }
+    try {
+      setRestoreArchive(await readAppBackup(file))
+    } catch (error) {
+      useAppStore.getState().showToast({
+        type: 'error',
+        title: t('appBackup.invalidBackup'),
+        message: error instanceof Error ? error.message : String(error)
+      })
     }
+  }
 
-    setBatchProgress(null)
-    setManualSelection(new Set())
-    await loadPackages()
-
-    useAppStore.getState().showToast({
-      type: 'success',
-      title: 'Removal Completed',
-      message: `${count} apps were disabled.`
+  // Handle applying the manual selection (same logic as recommended removal)
+  const handleApplySelection = () => {
+    if (!hasSelection) return
+
+    setBatchRequest({
+      title: t('debloater.manualSelection'),
+      operation: 'disable',
+      packageNames: Array.from(manualSelection),
+      components: selectedComponentRules()
     })
   }
 
   // ... (keep middle lines same until handleToggle) ...
 
+  // Grafo delle dipendenze dalle definizioni dei pacchetti
+  const packageGraph = useMemo(() => buildPackageGraph(packageDb), [packageDb])
+  const packageStates = useMemo(() => new Map(packages.map(p => [p.packageName, p.isEnabled])), [packages])
+  const isPackageEnabled = useCallback((name: string) => packageStates.get(name) === true, [packageStates])
+  const isPackageInstalled = useCallback((name: string) => packageStates.has(name), [packageStates])
+  const getPackageState = useCallback((name: string): GraphNodeState => {
+    const enabled = packageStates.get(name)
+    return enabled === undefined ? 'absent' : enabled ? 'enabled' : 'disabled'
+  }, [packageStates])
+
   // Handle toggle with warning for dangerous packages
-  const handleToggle = useCallback(async (pkg: EnrichedPackage, newState: boolean) => {
+  const handleToggle = useCallback(async (pkg: EnrichedPackage, newState: boolean, skipDependencyCheck = false) => {
     const isDisabling = !newState
     const isDangerous = pkg.definition?.removal === 'Unsafe' || pkg.definition?.removal === 'Expert'
 
+    // Pacchetti abilitati che dipendono da questo (o dipendenze disabilitate, se lo si riabilita)
+    if (!skipDependencyCheck) {
+      const related = isDisabling
+        ? getAffectedDependents(packageGraph, [pkg.packageName], isPackageEnabled)
+        : getMissingDependencies(packageGraph, [pkg.packageName], isPackageInstalled, isPackageEnabled)
+      if (related.length > 0) {
+        setDependencyPrompt({ package: pkg, newState, related })
+        return
+      }
+    }
+
     // Root removal logic
     if (isDisabling && useRootForRemoval && deviceInfo?.isRooted) {
       if (isDangerous || pkg.isSystem) {
@@ -374,7 +452,27 @@ export function DebloaterPage() {
     setLoadingPackage(pkg.packageName)
     await togglePackage(pkg.packageName, newState)
     setLoadingPackage(null)
-  }, [togglePackage, uninstallRoot, isAuthenticated, user, currentDeviceId, useRootForRemoval, deviceInfo])
+  }, [togglePackage, uninstallRoot, useRootForRemoval, deviceInfo, packageGraph, isPackageEnabled, isPackageInstalled])
+
+  // Cascata: il pacchetto e quelli collegati in un unico batch ordinato sul grafo
+  const cascadeDependencyPrompt = () => {
+    if (!dependencyPrompt) return
+    const { package: pkg, newState, related } = dependencyPrompt
+    setDependencyPrompt(null)
+    setBatchRequest({
+      title: pkg.displayName,
+      operation: newState ? 'enable' : 'disable',
+      packageNames: [pkg.packageName, ...related]
+    })
+  }
+
+  const handleBatchClose = (outcome: BatchOutcome | null) => {
+    setBatchRequest(null)
+    if (!outcome) return
+    setSelectedPackages(new Set())
+    clearSelection()
+    loadPackages()
+  }
 
   const confirmAction = async () => {
     if (!warningModal.package) return
@@ -569,6 +667,12 @@ export function DebloaterPage() {
   }, [packages, packageDb, realLabels])
 
   // Get available filter options from data
+  const getPackageLabel = useCallback((name: string) =>
+    enrichedPackages.find(p => p.packageName === name)?.displayName
+      || packageDb[name]?.descriptions?.['label']
+      || name,
+    [enrichedPackages, packageDb])
+
   const availableCategories = useMemo(() => {
     const categories = new Set<string>()
     enrichedPackages.forEach(pkg => {
@@ -740,7 +844,7 @@ export function DebloaterPage() {
   }
 
   // Batch disable recommended packages (solo quelle selezionate)
-  const disableRecommended = async () => {
+  const disableRecommended = () => {
     const packagesToDisable = recommendedPackages.filter(p => selectedPackages.has(p.packageName))
 
     if (packagesToDisable.length === 0) {
@@ -753,39 +857,10 @@ export function DebloaterPage() {
     }
 
     setRecommendedModal(false)
-    setBatchProgress({ total: packagesToDisable.length, current: 0, currentPackage: '' })
-
-    for (let i = 0; i < packagesToDisable.length; i++) {
-      const pkg = packagesToDisable[i]
-      setBatchProgress({
-        total: packagesToDisable.length,
-        current: i + 1,
-        currentPackage: pkg.displayName
-      })
-
-      await togglePackage(pkg.packageName, false)
-
-      // Log action if authenticated
-      if (isAuthenticated && user && currentDeviceId) {
-        try {
-          await logUserAction(user.id, currentDeviceId, pkg.packageName, 'disable')
-        } catch (e) {
-          console.warn('Failed to log action:', e)
-        }
-      }
-
-      // Small delay between operations
-      await new Promise(r => setTimeout(r, 100))
-    }
-
-    setBatchProgress(null)
-    setSelectedPackages(new Set())
-    await loadPackages()
-
-    useAppStore.getState().showToast({
-      type: 'success',
-      title: t('debloater.completed'),
-      message: t('debloater.appsDisabled', { count: packagesToDisable.length })
+    setBatchRequest({
+      title: t('debloater.removeBloatwareTitle'),
+      operation: 'disable',
+      packageNames: packagesToDisable.map(p => p.packageName)
     })
   }
 
@@ -1146,12 +1221,28 @@ export function DebloaterPage() {
                   Import CSV List
                 </Button>
               </div>
+              <div className="relative">
+                <input
+                  type="file"
+                  accept=".zip"
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                  onChange={handleOpenBackup}
+                />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon={<RotateCcw className="w-4 h-4" />}
+                >
+                  {t('appBackup.restoreButton')}
+                </Button>
+              </div>
             </div>
 
-            {manualSelection.size > 0 && (
+            {hasSelection && (
               <div className="flex items-center gap-2">
                 <span className="text-sm font-bold text-accent-500 mr-2">
                   {manualSelection.size} selected
+                  {selectedComponentCount > 0 && ` · ${selectedComponentCount} components`}
                 </span>
                 <Button
                   variant="primary"
@@ -1171,7 +1262,7 @@ export function DebloaterPage() {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setManualSelection(new Set())}
+                  onClick={clearSelection}
                 >
                   Clear
                 </Button>
@@ -1179,42 +1270,6 @@ export function DebloaterPage() {
             )}
           </motion.div>
 
-          {/* Batch Progress */}
-          <AnimatePresence>
-            {batchProgress && (
-              <motion.div
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                className="mb-6 glass-card p-4"
-              >
-                <div className="flex items-center gap-4">
-                  <motion.div
-                    animate={{ rotate: 360 }}
-                    transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                  >
-                    <Zap className="w-6 h-6 text-accent-500" strokeWidth={1.5} />
-                  </motion.div>
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-surface-900 dark:text-white">
-                      {t('debloater.disablingApp', { name: batchProgress.currentPackage })}
-                    </p>
-                    <p className="text-xs text-surface-500">
-                      {t('debloater.completedOf', { current: batchProgress.current, total: batchProgress.total })}
-                    </p>
-                    <div className="mt-2 h-1.5 bg-surface-200 dark:bg-white/10 rounded-full overflow-hidden">
-                      <motion.div
-                        className="h-full bg-accent-500"
-                        initial={{ width: 0 }}
-                        animate={{ width: `${(batchProgress.current / batchProgress.total) * 100}%` }}
-                      />
-                    </div>
-                  </div>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-
           {/* Package List */}
           {packagesLoading && packages.length === 0 ? (
             <div className="space-y-2">
@@ -1288,6 +1343,10 @@ export function DebloaterPage() {
                   cachedIcon={realIcons[pkg.packageName]}
                   selected={manualSelection.has(pkg.packageName)}
                   onSelect={() => toggleManualSelection(pkg.packageName)}
+                  onBackup={setBackupTarget}
+                  onShowGraph={hasGraphEdges(packageGraph, pkg.packageName) ? () => setGraphTarget(pkg.packageName) : undefined}
+                  onShowDetails={() => setDetailsTarget(pkg)}
+                  trackers={trackerReports[pkg.packageName]?.trackers}
                   displayMode={listDisplay}
                 />
               ))}
@@ -1334,7 +1393,8 @@ export function DebloaterPage() {
           >
             <div className="space-y-4">
               <p className="text-sm text-surface-500">
-                Create a debloating list with the {manualSelection.size} selected apps.
+                Create a debloating list with the {manualSelection.size} selected apps
+                {selectedComponentCount > 0 && ` and ${selectedComponentCount} component rules`}.
                 Authenticated users can save lists and share them with the community.
               </p>
 
@@ -1550,6 +1610,98 @@ export function DebloaterPage() {
           }}
         />
       )}
+
+      <AppBackupModal
+        packageName={backupTarget?.packageName ?? null}
+        displayName={backupTarget?.displayName}
+        onClose={() => setBackupTarget(null)}
+      />
+
+      <AppRestoreModal
+        archive={restoreArchive}
+        onClose={() => setRestoreArchive(null)}
+        onRestored={loadPackages}
+      />
+
+      <AppDetailsDrawer
+        packageName={detailsTarget?.packageName ?? null}
+        displayName={detailsTarget?.displayName}
+        onClose={() => setDetailsTarget(null)}
+        onChanged={loadPackages}
+        selectedComponents={detailsTarget ? componentSelection[detailsTarget.packageName] : undefined}
+        onToggleComponentSelection={detailsTarget ? (component) => toggleComponentSelection(detailsTarget.packageName, component) : undefined}
+      />
+
+      <PackageGraphModal
+        packageName={graphTarget}
+        graph={packageGraph}
+        getState={getPackageState}
+        getLabel={getPackageLabel}
+        onClose={() => setGraphTarget(null)}
+      />
+
+      {/* Dependency impact */}
+      <Modal
+        isOpen={!!dependencyPrompt}
+        onClose={() => setDependencyPrompt(null)}
+        title={t('debloater.dependencies.impactTitle')}
+        size="md"
+      >
+        {dependencyPrompt && (
+          <div className="space-y-4">
+            <div className="flex items-start gap-4">
+              <div className="w-12 h-12 rounded-xl bg-amber-500/10 flex items-center justify-center flex-shrink-0">
+                <AlertTriangle className="w-6 h-6 text-amber-500" strokeWidth={1.5} />
+              </div>
+              <p className="text-surface-600 dark:text-surface-400">
+                {t(dependencyPrompt.newState ? 'debloater.dependencies.enableImpact' : 'debloater.dependencies.disableImpact', {
+                  name: dependencyPrompt.package.displayName,
+                  count: dependencyPrompt.related.length
+                })}
+              </p>
+            </div>
+            <div className="max-h-60 overflow-y-auto space-y-1 pr-2">
+              {dependencyPrompt.related.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setGraphTarget(name)}
+                  className="w-full text-left p-2 rounded-lg bg-surface-100 dark:bg-white/5 hover:bg-surface-200 dark:hover:bg-white/10 transition-colors"
+                >
+                  <p className="text-sm font-medium text-surface-900 dark:text-white truncate">{getPackageLabel(name)}</p>
+                  <p className="text-xs text-surface-500 font-mono truncate">{name}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <ModalActions>
+          <Button variant="ghost" onClick={() => setDependencyPrompt(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => {
+              if (!dependencyPrompt) return
+              const { package: pkg, newState } = dependencyPrompt
+              setDependencyPrompt(null)
+              handleToggle(pkg, newState, true)
+            }}
+          >
+            {t('debloater.dependencies.onlyThis')}
+          </Button>
+          <Button
+            variant={dependencyPrompt?.newState ? 'primary' : 'danger'}
+            onClick={cascadeDependencyPrompt}
+          >
+            {t(dependencyPrompt?.newState ? 'debloater.dependencies.cascadeEnable' : 'debloater.dependencies.cascadeDisable', {
+              count: (dependencyPrompt?.related.length ?? 0) + 1
+            })}
+          </Button>
+        </ModalActions>
+      </Modal>
+
+      <BatchOperationModal request={batchRequest} onClose={handleBatchClose} />
     </div>
   )
 }
@@ -1563,10 +1715,15 @@ interface PackageRowProps {
   cachedIcon?: string | null
   selected?: boolean
   onSelect?: (selected: boolean) => void
+  onBackup?: (pkg: EnrichedPackage) => void
+  onShowGraph?: () => void
+  onShowDetails?: () => void
+  /** Trackers found by the last scan, if the app was scanned */
+  trackers?: TrackerMatch[]
   displayMode?: ListDisplayMode
 }
 
-function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescription, cachedIcon, selected, onSelect, displayMode = 'full' }: PackageRowProps) {
+function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescription, cachedIcon, selected, onSelect, onBackup, onShowGraph, onShowDetails, trackers, displayMode = 'full' }: PackageRowProps) {
   const [expanded, setExpanded] = useState(false)
   const adminIcon = pkg.definition?.iconBase64
   const [iconUrl, setIconUrl] = useState<string | null>(adminIcon || cachedIcon || null)
@@ -1579,6 +1736,7 @@ function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescriptio
     : null
 
   const hasDescription = !!pkg.definition?.description
+  const trackersTitle = trackers?.map(tracker => tracker.name).join('\n')
 
   // Check real visual overflow
   useEffect(() => {
@@ -1642,9 +1800,13 @@ function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescriptio
 
           {/* Name + package */}
           <div className="flex-1 min-w-0 flex items-center gap-3">
-            <p className={`text-sm font-medium truncate ${pkg.isEnabled ? 'text-surface-900 dark:text-white' : 'text-surface-500'}`}>
+            <button
+              onClick={onShowDetails}
+              className={`text-sm font-medium truncate text-left hover:text-accent-500 transition-colors ${pkg.isEnabled ? 'text-surface-900 dark:text-white' : 'text-surface-500'}`}
+              title={t('appDetails.open')}
+            >
               {pkg.displayName}
-            </p>
+            </button>
             <p className="text-[10px] text-surface-400 truncate font-mono hidden sm:block">
               {pkg.packageName}
             </p>
@@ -1660,6 +1822,12 @@ function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescriptio
                 {pkg.definition!.removal.charAt(0).toUpperCase()}
               </span>
             )}
+            {trackers && trackers.length > 0 && (
+              <span className="pill text-[9px] bg-rose-500/10 text-rose-600 dark:text-rose-400" title={trackersTitle}>
+                <Radar className="w-2.5 h-2.5 inline -mt-px mr-0.5" strokeWidth={2} />
+                {trackers.length}
+              </span>
+            )}
           </div>
 
           {/* Status */}
@@ -1730,9 +1898,13 @@ function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescriptio
           {/* Info */}
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-1 flex-wrap">
-              <p className={`font-medium truncate ${pkg.isEnabled ? 'text-surface-900 dark:text-white' : 'text-surface-500'}`}>
+              <button
+                onClick={onShowDetails}
+                className={`font-medium truncate text-left hover:text-accent-500 transition-colors ${pkg.isEnabled ? 'text-surface-900 dark:text-white' : 'text-surface-500'}`}
+                title={t('appDetails.open')}
+              >
                 {pkg.displayName}
-              </p>
+              </button>
               {pkg.isSystem && (
                 <span className="pill-neutral text-[10px]">{t('common.system')}</span>
               )}
@@ -1746,6 +1918,12 @@ function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescriptio
                   {pkg.definition.list}
                 </span>
               )}
+              {trackers && trackers.length > 0 && (
+                <span className="pill text-[10px] bg-rose-500/10 text-rose-600 dark:text-rose-400" title={trackersTitle}>
+                  <Radar className="w-3 h-3 inline -mt-px mr-1" strokeWidth={2} />
+                  {t('trackerScanner.trackerCount', { count: trackers.length })}
+                </span>
+              )}
             </div>
             <p className="text-xs text-surface-500 truncate font-mono">
               {pkg.packageName}
@@ -1822,6 +2000,34 @@ function PackageRow({ package: pkg, loading, onToggle, isAdmin, onEditDescriptio
               </button>
             )}
 
+            {onBackup && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onBackup(pkg)
+                }}
+                className="p-2 rounded-lg hover:bg-surface-100 dark:hover:bg-white/10 
+                  text-surface-400 hover:text-accent-500 transition-colors"
+                title={t('appBackup.backup')}
+              >
+                <Archive className="w-4 h-4" strokeWidth={1.5} />
+              </button>
+            )}
+
+            {onShowGraph && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onShowGraph()
+                }}
+                className="p-2 rounded-lg hover:bg-surface-100 dark:hover:bg-white/10 
+                  text-surface-400 hover:text-accent-500 transition-colors"
+                title={t('debloater.dependencies.showGraph')}
+              >
+                <GitBranch className="w-4 h-4" strokeWidth={1.5} />
+              </button>
+            )}
+
             <Switch
               checked={pkg.isEnabled}
               onChange={onToggle}
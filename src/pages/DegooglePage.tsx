@@ -39,12 +39,13 @@ import { saveDegoogleProfile, supabase } from '@/services/supabase'
 import { useTranslation } from '@/stores/i18nStore'
 import { getPackageDatabase, type PackageDefinition } from '@/services/package-database'
 import { AlternativeEditModal } from '@/components/degoogle/AlternativeEditModal'
+import { BatchOperationModal, type BatchOutcome, type BatchRequest } from '@/components/batch/BatchOperationModal'
 import { Plus, Edit2 } from 'lucide-react'
 
 type Step = 'select' | 'preview' | 'alternatives' | 'progress' | 'complete'
 
 export function DegooglePage() {
-  const { packages, togglePackage, installRemoteApk } = useAdb()
+  const { packages, installRemoteApk } = useAdb()
   const setCurrentPage = useAppStore((state) => state.setCurrentPage)
   const { user, isAuthenticated } = useAuthStore()
   const currentDeviceId = useAdbStore((state) => state.currentDeviceId)
@@ -60,6 +61,7 @@ export function DegooglePage() {
   const [packageDb, setPackageDb] = useState<Record<string, PackageDefinition>>({})
   const [installationProgress, setInstallationProgress] = useState<Record<string, number>>({})
   const [currentInstallingPkg, setCurrentInstallingPkg] = useState<string | null>(null)
+  const [batchRequest, setBatchRequest] = useState<BatchRequest | null>(null)
 
   // Admin Editing State
   const [showEditModal, setShowEditModal] = useState(false)
@@ -170,35 +172,31 @@ export function DegooglePage() {
     }
   }
 
-  const executeDegoogle = async () => {
+  const executeDegoogle = () => {
     if (!selectedLevelConfig) return
 
     const packagesToProcess = affectedPackages.filter(p => selectedPackages.has(p))
     if (packagesToProcess.length === 0) return
 
-    setStep('progress')
-    setProgress({ current: 0, total: packagesToProcess.length, currentPackage: '' })
-
-    const success: string[] = []
-    const failed: string[] = []
-
-    for (let i = 0; i < packagesToProcess.length; i++) {
-      const pkg = packagesToProcess[i]
-      setProgress({ current: i + 1, total: packagesToProcess.length, currentPackage: pkg })
-
-      try {
-        await togglePackage(pkg, false)
-        success.push(pkg)
-
+    setBatchRequest({
+      title: t(`degoogle.levels.${selectedLevelConfig.id}.name`),
+      operation: 'disable',
+      packageNames: packagesToProcess
+    })
+  }
 
-      } catch (e) {
-        console.error(`Failed to disable ${pkg}:`, e)
-        failed.push(pkg)
-      }
+  const finishDegoogle = async (outcome: BatchOutcome | null) => {
+    setBatchRequest(null)
+    // Closed before executing, or reverted from the report
+    if (!outcome || outcome.undoReport) return
 
-      // Small delay
-      await new Promise(r => setTimeout(r, 100))
-    }
+    const { items } = outcome.report
+    const packagesToProcess = items.map(item => item.packageName)
+    // Packages already removed count as de-Googled
+    const success = items
+      .filter(item => item.status === 'success' || (item.status === 'skipped' && item.skipReason !== 'absent'))
+      .map(item => item.packageName)
+    const failed = items.filter(item => item.status === 'failed').map(item => item.packageName)
 
     // 2. Install selected alternatives (now supports multiple per Google package)
     const alternativesToInstall = Object.entries(selectedAlternatives)
@@ -206,6 +204,7 @@ export function DegooglePage() {
       .flatMap(([_, alts]) => alts) // Flatten arrays of alternatives
 
     if (alternativesToInstall.length > 0) {
+      setStep('progress')
       // Update progress for installation phase
       const totalSteps = packagesToProcess.length + alternativesToInstall.length
 
@@ -828,6 +827,8 @@ export function DegooglePage() {
         )}
       </AnimatePresence>
 
+      <BatchOperationModal request={batchRequest} onClose={finishDegoogle} />
+
       {/* Confirm Modal for High/Total levels */}
       <Modal
         isOpen={showConfirmModal}
@@ -20,7 +20,11 @@ import {
   Zap,
   Video,
   Circle,
-  Webcam
+  Webcam,
+  Volume2,
+  VolumeX,
+  Keyboard,
+  Hand
 } from 'lucide-react'
 import { WebcamOverlay } from '@/components/mirror/WebcamOverlay'
 import { AndroidScreenPowerMode } from '@yume-chan/scrcpy'
@@ -37,7 +41,12 @@ import {
   type QualityPreset
 } from '@/services/scrcpy-client'
 import { useScreenRecorder } from '@/hooks/useScreenRecorder'
+import { useMirrorAudio } from '@/hooks/useMirrorAudio'
+import { useMirrorInput } from '@/hooks/useMirrorInput'
+import { useTouchGestures } from '@/hooks/useTouchGestures'
 import { ControlSheet } from '@/components/mirror/ControlSheet'
+import { KeyMappingModal } from '@/components/mirror/KeyMappingModal'
+import { GesturesModal } from '@/components/mirror/GesturesModal'
 
 const RESIZE_DEBOUNCE_MS = 500
 const RESIZE_THRESHOLD_PX = 50
@@ -85,6 +94,41 @@ export function DesktopPage() {
   }, [isAdaptiveEnabled])
 
   const { isRecording, formatDuration, startRecording, stopRecording } = useScreenRecorder()
+  const {
+    isAudioEnabled,
+    isAudioEnabledRef,
+    setAudioEnabled,
+    audioState,
+    onAudioState,
+    isAudioMuted,
+    setAudioMuted,
+    audioVolume,
+    setAudioVolume,
+    applyAudioSettings
+  } = useMirrorAudio(scrcpyRef)
+  const {
+    gestures,
+    isRecordingGesture,
+    pendingGesture,
+    replayingId,
+    recordTouch,
+    startGestureRecording,
+    stopGestureRecording,
+    savePendingGesture,
+    discardPendingGesture,
+    deleteGesture,
+    replay: replayGesture,
+    stopReplay
+  } = useTouchGestures(scrcpyRef)
+  const { keyProfile, saveKeyProfile, canvasHandlers } = useMirrorInput(
+    scrcpyRef,
+    canvasRef,
+    isActive,
+    deviceInfo?.serialNumber || 'default',
+    { onTouch: recordTouch }
+  )
+  const [isKeyMappingOpen, setIsKeyMappingOpen] = useState(false)
+  const [isGesturesOpen, setIsGesturesOpen] = useState(false)
 
   // New state to restart session
   const [restartParams, setRestartParams] = useState<{ presetName: string, bitRate: number, maxFps: number } | null>(null)
@@ -286,9 +330,11 @@ export function DesktopPage() {
 
       const session = new ScrcpySession(adb, {
         onQualityDegraded: handleQualityDowngrade,
-        onFpsUpdate: setCurrentFps
+        onFpsUpdate: setCurrentFps,
+        onAudioState
       })
       scrcpyRef.current = session
+      applyAudioSettings(session)
 
       session.setClipboardCallback((text) => {
         if (navigator.clipboard && navigator.clipboard.writeText) {
@@ -313,6 +359,7 @@ export function DesktopPage() {
         bitRate: useBitRate,
         maxFps: useMaxFps,
         presetName: preset,
+        audio: isAudioEnabledRef.current,
       })
 
       setCurrentPreset(preset)
@@ -326,7 +373,7 @@ export function DesktopPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [handleQualityDowngrade, showToast, t, stopDesktopSession, currentPreset])
+  }, [handleQualityDowngrade, showToast, t, stopDesktopSession, currentPreset, onAudioState, applyAudioSettings, isAudioEnabledRef])
 
   const handleManualQualitySelect = useCallback(async (presetName: string) => {
     setIsAdaptiveEnabled(false)
@@ -355,6 +402,24 @@ export function DesktopPage() {
     }
   }, [isActive, currentPreset, showToast, startDesktopSession, t])
 
+  const handleToggleAudio = useCallback((enabled: boolean) => {
+    setAudioEnabled(enabled)
+    if (!isActive) return
+
+    // The audio stream is negotiated at startup: restart on the same preset
+    showToast({ type: 'info', title: t('screenMirror.audio.restarting') })
+    if (scrcpyRef.current) {
+      scrcpyRef.current.stop()
+      scrcpyRef.current = null
+    }
+    setIsActive(false)
+
+    const target = QUALITY_PRESETS.find(p => p.name === currentPreset)
+    setTimeout(() => {
+      startDesktopSession(target?.bitRate, target?.maxFps, currentPreset)
+    }, 100)
+  }, [isActive, currentPreset, setAudioEnabled, showToast, startDesktopSession, t])
+
   // Effect for adaptive restart
   useEffect(() => {
     if (restartParams) {
@@ -468,82 +533,6 @@ export function DesktopPage() {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange)
   }, [])
 
-  const getNormalizedCoordinates = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return null
-
-    const rect = canvas.getBoundingClientRect()
-    const elementWidth = rect.width
-    const elementHeight = rect.height
-    const videoWidth = canvas.width
-    const videoHeight = canvas.height
-
-    if (!elementWidth || !elementHeight || !videoWidth || !videoHeight) return null
-
-    const elementRatio = elementWidth / elementHeight
-    const videoRatio = videoWidth / videoHeight
-
-    let drawnWidth = elementWidth
-    let drawnHeight = elementHeight
-    let offsetX = 0
-    let offsetY = 0
-
-    if (elementRatio > videoRatio) {
-      drawnWidth = elementHeight * videoRatio
-      offsetX = (elementWidth - drawnWidth) / 2
-    } else {
-      drawnHeight = elementWidth / videoRatio
-      offsetY = (elementHeight - drawnHeight) / 2
-    }
-
-    const clientX = e.clientX - rect.left
-    const clientY = e.clientY - rect.top
-
-    if (clientX < offsetX || clientX > offsetX + drawnWidth ||
-      clientY < offsetY || clientY > offsetY + drawnHeight) {
-      return null
-    }
-
-    const x = (clientX - offsetX) / drawnWidth
-    const y = (clientY - offsetY) / drawnHeight
-
-    return {
-      x: Math.max(0, Math.min(1, x)),
-      y: Math.max(0, Math.min(1, y))
-    }
-  }
-
-  const handlePointerDown = async (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isActive || !scrcpyRef.current || !canvasRef.current) return
-    e.preventDefault()
-    canvasRef.current.setPointerCapture(e.pointerId)
-    const coords = getNormalizedCoordinates(e)
-    if (coords) {
-      await scrcpyRef.current.sendTouch('down', coords.x, coords.y)
-    }
-  }
-
-  const handlePointerMove = async (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isActive || !scrcpyRef.current || !canvasRef.current) return
-    e.preventDefault()
-    if (e.buttons === 0) return
-    const coords = getNormalizedCoordinates(e)
-    if (coords) {
-      await scrcpyRef.current.sendTouch('move', coords.x, coords.y)
-    }
-  }
-
-  const handlePointerUp = async (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isActive || !scrcpyRef.current || !canvasRef.current) return
-    e.preventDefault()
-    canvasRef.current.releasePointerCapture(e.pointerId)
-    const coords = getNormalizedCoordinates(e)
-    if (coords) {
-      await scrcpyRef.current.sendTouch('up', coords.x, coords.y)
-    } else {
-      await scrcpyRef.current.sendTouch('up', 0, 0)
-    }
-  }
 
   const handleScreenshot = async () => {
     if (!canvasRef.current) return
@@ -650,14 +639,32 @@ export function DesktopPage() {
             )}
 
             {!isActive ? (
-              <Button
-                variant="primary"
-                onClick={() => startDesktopSession()}
-                loading={isLoading}
-                icon={<Play className="w-4 h-4" />}
-              >
-                {t('screenMirror.start')}
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsKeyMappingOpen(true)}
+                  icon={<Keyboard className="w-4 h-4" />}
+                >
+                  {t('screenMirror.keys.button')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleToggleAudio(!isAudioEnabled)}
+                  icon={isAudioEnabled ? <Volume2 className="w-4 h-4 text-accent-500" /> : <VolumeX className="w-4 h-4" />}
+                >
+                  {isAudioEnabled ? t('screenMirror.audio.on') : t('screenMirror.audio.off')}
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => startDesktopSession()}
+                  loading={isLoading}
+                  icon={<Play className="w-4 h-4" />}
+                >
+                  {t('screenMirror.start')}
+                </Button>
+              </div>
             ) : (
               <div className="flex items-center gap-2">
                 <Button
@@ -668,7 +675,7 @@ export function DesktopPage() {
                       stopRecording()
                       showToast({ type: 'success', title: t('common.success'), message: t('screenMirror.recordingSaved') || 'Recording saved' })
                     } else if (canvasRef.current) {
-                      startRecording(canvasRef.current, `desktop-${deviceInfo?.model || 'device'}`)
+                      startRecording(canvasRef.current, `desktop-${deviceInfo?.model || 'device'}`, scrcpyRef.current?.audioStream)
                     }
                   }}
                   className={isRecording ? 'bg-red-500 hover:bg-red-600 border-red-600 animate-pulse' : ''}
@@ -676,6 +683,41 @@ export function DesktopPage() {
                 >
                   {isRecording ? formatDuration() : (t('screenMirror.record') || 'Record')}
                 </Button>
+                {isAudioEnabled && audioState === 'playing' && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setAudioMuted(!isAudioMuted)}
+                    icon={isAudioMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4 text-accent-500" />}
+                  >
+                    {isAudioMuted ? t('screenMirror.audio.unmute') : t('screenMirror.audio.mute')}
+                  </Button>
+                )}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsKeyMappingOpen(true)}
+                  icon={<Keyboard className="w-4 h-4" />}
+                >
+                  {t('screenMirror.keys.button')}
+                </Button>
+                <Button
+                  variant={isRecordingGesture ? "primary" : "secondary"}
+                  size="sm"
+                  onClick={() => {
+                    if (!isRecordingGesture) {
+                      setIsGesturesOpen(true)
+                    } else if (stopGestureRecording()) {
+                      setIsGesturesOpen(true)
+                    } else {
+                      showToast({ type: 'info', title: t('screenMirror.gestures.nothingRecorded') })
+                    }
+                  }}
+                  className={isRecordingGesture ? 'bg-red-500 hover:bg-red-600 border-red-600 animate-pulse' : ''}
+                  icon={isRecordingGesture ? <Square className="w-4 h-4" /> : <Hand className="w-4 h-4" />}
+                >
+                  {isRecordingGesture ? t('screenMirror.gestures.stopRecording') : t('screenMirror.gestures.button')}
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -781,20 +823,7 @@ export function DesktopPage() {
           <canvas
             ref={canvasRef}
             tabIndex={0}
-            onContextMenu={async (e) => {
-              e.preventDefault()
-              if (!isActive || !scrcpyRef.current) return
-              await scrcpyRef.current.sendKey(4, 'down')
-              await scrcpyRef.current.sendKey(4, 'up')
-            }}
-            onPointerDown={(e) => {
-              if (e.button === 2) return
-              e.currentTarget.focus()
-              handlePointerDown(e)
-            }}
-            onPointerMove={handlePointerMove}
-            onPointerUp={handlePointerUp}
-            onPointerLeave={handlePointerUp}
+            {...canvasHandlers}
             onPaste={async (e) => {
               if (!isActive || !scrcpyRef.current) return
               e.preventDefault()
@@ -804,75 +833,6 @@ export function DesktopPage() {
                 showToast({ type: 'success', title: 'Pasted to device' })
               }
             }}
-            onKeyDown={async (e) => {
-              if (!isActive || !scrcpyRef.current) return
-              if (e.code === 'Escape') {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(4, 'down')
-                return
-              }
-              if (e.metaKey || (e.code === 'MetaLeft' || e.code === 'MetaRight')) {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(3, 'down')
-                return
-              }
-              let keyCode = -1
-              switch (e.code) {
-                case 'Enter': keyCode = 66; break
-                case 'Backspace': keyCode = 67; break
-                case 'Tab': keyCode = 61; break
-                case 'ArrowUp': keyCode = 19; break
-                case 'ArrowDown': keyCode = 20; break
-                case 'ArrowLeft': keyCode = 21; break
-                case 'ArrowRight': keyCode = 22; break
-                case 'Delete': keyCode = 112; break
-                case 'Home': keyCode = 3; break
-                case 'PageUp': keyCode = 92; break
-                case 'PageDown': keyCode = 93; break
-              }
-
-              if (keyCode !== -1) {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(keyCode, 'down')
-                return
-              }
-
-              if (e.key.length === 1 && !e.ctrlKey && !e.altKey && !e.metaKey) {
-                e.preventDefault()
-                await scrcpyRef.current.sendText(e.key)
-              }
-            }}
-            onKeyUp={async (e) => {
-              if (!isActive || !scrcpyRef.current) return
-              if (e.code === 'Escape') {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(4, 'up')
-                return
-              }
-              if (e.code === 'MetaLeft' || e.code === 'MetaRight') {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(3, 'up')
-                return
-              }
-              let keyCode = -1
-              switch (e.code) {
-                case 'Enter': keyCode = 66; break
-                case 'Backspace': keyCode = 67; break
-                case 'Tab': keyCode = 61; break
-                case 'ArrowUp': keyCode = 19; break
-                case 'ArrowDown': keyCode = 20; break
-                case 'ArrowLeft': keyCode = 21; break
-                case 'ArrowRight': keyCode = 22; break
-                case 'Delete': keyCode = 112; break
-                case 'Home': keyCode = 3; break
-                case 'PageUp': keyCode = 92; break
-                case 'PageDown': keyCode = 93; break
-              }
-              if (keyCode !== -1) {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(keyCode, 'up')
-              }
-            }}
             className={`
               block touch-none w-full h-full object-contain outline-none focus:ring-2 focus:ring-accent-500/50
               ${isActive ? 'cursor-pointer' : 'cursor-default'}
@@ -931,7 +891,7 @@ export function DesktopPage() {
             stopRecording()
             showToast({ type: 'success', title: t('common.success'), message: t('screenMirror.recordingSaved') || 'Recording saved' })
           } else if (canvasRef.current) {
-            startRecording(canvasRef.current, `desktop-${deviceInfo?.model || 'device'}`)
+            startRecording(canvasRef.current, `desktop-${deviceInfo?.model || 'device'}`, scrcpyRef.current?.audioStream)
             showToast({ type: 'info', title: t('screenMirror.recording') })
           }
         }}
@@ -942,6 +902,49 @@ export function DesktopPage() {
           const next = shapes[(shapes.indexOf(webcamShape) + 1) % shapes.length]
           setWebcamShape(next)
         }}
+        isAudioEnabled={isAudioEnabled}
+        onToggleAudio={handleToggleAudio}
+        audioState={audioState}
+        isAudioMuted={isAudioMuted}
+        onToggleAudioMute={() => setAudioMuted(!isAudioMuted)}
+        audioVolume={audioVolume}
+        onAudioVolumeChange={setAudioVolume}
+      />
+
+      <GesturesModal
+        isOpen={isGesturesOpen}
+        onClose={() => {
+          setIsGesturesOpen(false)
+          discardPendingGesture()
+        }}
+        gestures={gestures}
+        pendingGesture={pendingGesture}
+        replayingId={replayingId}
+        canReplay={isActive}
+        onRecord={() => {
+          startGestureRecording()
+          setIsGesturesOpen(false)
+          showToast({ type: 'info', title: t('screenMirror.gestures.recordingHint') })
+        }}
+        onReplay={(gesture) => {
+          setIsGesturesOpen(false)
+          replayGesture(gesture)
+        }}
+        onStopReplay={stopReplay}
+        onDelete={deleteGesture}
+        onSavePending={savePendingGesture}
+        onDiscardPending={discardPendingGesture}
+      />
+
+      <KeyMappingModal
+        isOpen={isKeyMappingOpen}
+        onClose={() => setIsKeyMappingOpen(false)}
+        profile={keyProfile}
+        onSave={(profile) => {
+          saveKeyProfile(profile)
+          showToast({ type: 'success', title: t('screenMirror.keys.saved') })
+        }}
+        deviceName={deviceInfo?.model}
       />
 
       {/* Webcam Overlay */}
@@ -0,0 +1,631 @@
+/**
+ * File Manager Page
+ * Browse device storage over the sync protocol: upload, download (single
+ * files or ZIP), rename, new folder and delete within the allowed paths
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { motion } from 'framer-motion'
+import {
+    ArrowUp,
+    RefreshCw,
+    FolderPlus,
+    Upload,
+    Download,
+    Pencil,
+    Trash2,
+    Folder,
+    File as FileIcon,
+    Link2,
+    Loader2,
+    Smartphone,
+    ChevronRight,
+    CheckCircle2,
+    XCircle,
+    AlertTriangle,
+} from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Modal } from '@/components/ui/Modal'
+import { DirectoryTree } from '@/components/files/DirectoryTree'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import type { RemoteDirEntry } from '@/services/adb-client'
+import {
+    createFolder,
+    deleteEntries,
+    downloadAsZip,
+    downloadFile,
+    findRoot,
+    formatPermissions,
+    getAvailableRoots,
+    isRootPath,
+    listEntries,
+    parentPath,
+    renameEntry,
+    uploadFile,
+} from '@/services/file-manager'
+
+type SortKey = 'name' | 'size' | 'mtime'
+
+interface UploadItem {
+    id: string
+    name: string
+    progress: number
+    status: 'uploading' | 'success' | 'error'
+    error?: string
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+function saveBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+export function FileManagerPage() {
+    const { t } = useTranslation()
+    const isConnected = useAdbStore(state => state.isConnected)
+    const isDemoMode = useAdbStore(state => state.isDemoMode)
+    const deviceInfo = useAdbStore(state => state.deviceInfo)
+    const activeSerial = useAdbStore(state => state.activeSerial)
+    const showToast = useAppStore(state => state.showToast)
+
+    const isRooted = !!deviceInfo?.isRooted
+    const serial = activeSerial ?? undefined
+    const roots = useMemo(() => getAvailableRoots(isRooted), [isRooted])
+
+    const [currentPath, setCurrentPath] = useState(roots[0].path)
+    const [entries, setEntries] = useState<RemoteDirEntry[]>([])
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+    const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'name', ascending: true })
+    const [refreshKey, setRefreshKey] = useState(0)
+    const [uploads, setUploads] = useState<UploadItem[]>([])
+    const [isDragging, setIsDragging] = useState(false)
+    const [busyMessage, setBusyMessage] = useState<string | null>(null)
+
+    const [newFolderName, setNewFolderName] = useState<string | null>(null)
+    const [renameTarget, setRenameTarget] = useState<{ entry: RemoteDirEntry; name: string } | null>(null)
+    const [pendingDelete, setPendingDelete] = useState<RemoteDirEntry[] | null>(null)
+
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const dragDepthRef = useRef(0)
+
+    const readOnly = !!findRoot(currentPath)?.readOnly
+    const selectedEntries = entries.filter(entry => selected.has(entry.path))
+    const detailsEntry = selectedEntries.length === 1 ? selectedEntries[0] : null
+
+    const loadDirectory = useCallback(async (path: string) => {
+        setIsLoading(true)
+        setError(null)
+        try {
+            setEntries(await listEntries(path, isRooted, serial))
+        } catch (e) {
+            setEntries([])
+            setError(e instanceof Error ? e.message : String(e))
+        } finally {
+            setIsLoading(false)
+        }
+    }, [isRooted, serial])
+
+    useEffect(() => {
+        if (!isConnected || isDemoMode) return
+        setSelected(new Set())
+        void loadDirectory(currentPath)
+    }, [currentPath, refreshKey, isConnected, isDemoMode, loadDirectory])
+
+    // Root access lost or device switched: go back to a root that is still offered
+    useEffect(() => {
+        if (!roots.some(root => currentPath === root.path || currentPath.startsWith(`${root.path}/`))) {
+            setCurrentPath(roots[0].path)
+        }
+    }, [roots, currentPath])
+
+    const sortedEntries = useMemo(() => {
+        const direction = sort.ascending ? 1 : -1
+        return [...entries].sort((a, b) => {
+            if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1
+            if (sort.key === 'size') return (a.size - b.size) * direction
+            if (sort.key === 'mtime') return (a.mtime - b.mtime) * direction
+            return a.name.localeCompare(b.name) * direction
+        })
+    }, [entries, sort])
+
+    const refresh = () => setRefreshKey(k => k + 1)
+
+    const openPath = (path: string) => {
+        setCurrentPath(path)
+    }
+
+    const toggleSelected = (path: string) => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            if (next.has(path)) next.delete(path)
+            else next.add(path)
+            return next
+        })
+    }
+
+    const toggleSort = (key: SortKey) => {
+        setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }))
+    }
+
+    const reportError = (title: string, e: unknown) => {
+        showToast({ type: 'error', title, message: e instanceof Error ? e.message : String(e) })
+    }
+
+    // ============= UPLOAD =============
+
+    const uploadFiles = async (files: File[]) => {
+        if (readOnly || files.length === 0) return
+        const directory = currentPath
+
+        for (const file of files) {
+            const id = `${file.name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+            setUploads(prev => [...prev, { id, name: file.name, progress: 0, status: 'uploading' }])
+
+            try {
+                await uploadFile(directory, file, isRooted, (progress) => {
+                    setUploads(prev => prev.map(u => u.id === id ? { ...u, progress } : u))
+                }, { serial })
+                setUploads(prev => prev.map(u => u.id === id ? { ...u, progress: 1, status: 'success' } : u))
+            } catch (e) {
+                setUploads(prev => prev.map(u => u.id === id
+                    ? { ...u, status: 'error', error: e instanceof Error ? e.message : String(e) }
+                    : u))
+            }
+        }
+
+        refresh()
+    }
+
+    const handleDragEnter = (e: React.DragEvent) => {
+        e.preventDefault()
+        dragDepthRef.current++
+        if (!readOnly) setIsDragging(true)
+    }
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        e.preventDefault()
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+        if (dragDepthRef.current === 0) setIsDragging(false)
+    }
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault()
+        dragDepthRef.current = 0
+        setIsDragging(false)
+        void uploadFiles(Array.from(e.dataTransfer.files))
+    }
+
+    // ============= DOWNLOAD =============
+
+    const handleDownload = async () => {
+        if (selectedEntries.length === 0) return
+
+        try {
+            const single = selectedEntries.length === 1 && !selectedEntries[0].isDirectory ? selectedEntries[0] : null
+            if (single) {
+                setBusyMessage(t('fileManager.downloading', { name: single.name }))
+                const data = await downloadFile(single.path, isRooted, undefined, { serial })
+                saveBlob(new Blob([data]), single.name)
+            } else {
+                const zip = await downloadAsZip(selectedEntries, isRooted, (done, total, current) => {
+                    setBusyMessage(t('fileManager.zipping', { done, total, name: current }))
+                }, { serial })
+                const folderName = currentPath.slice(currentPath.lastIndexOf('/') + 1) || 'files'
+                saveBlob(zip, `${folderName}.zip`)
+            }
+        } catch (e) {
+            reportError(t('fileManager.downloadFailed'), e)
+        } finally {
+            setBusyMessage(null)
+        }
+    }
+
+    // ============= MUTATIONS =============
+
+    const handleCreateFolder = async () => {
+        if (!newFolderName?.trim()) return
+        try {
+            await createFolder(currentPath, newFolderName, isRooted, serial)
+            setNewFolderName(null)
+            refresh()
+        } catch (e) {
+            reportError(t('fileManager.createFolderFailed'), e)
+        }
+    }
+
+    const handleRename = async () => {
+        if (!renameTarget?.name.trim()) return
+        try {
+            await renameEntry(renameTarget.entry.path, renameTarget.name, isRooted, serial)
+            setRenameTarget(null)
+            refresh()
+        } catch (e) {
+            reportError(t('fileManager.renameFailed'), e)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!pendingDelete) return
+        setBusyMessage(t('fileManager.deleting'))
+        try {
+            await deleteEntries(pendingDelete.map(entry => entry.path), isRooted, serial)
+            showToast({ type: 'success', title: t('fileManager.deleted', { count: pendingDelete.length }) })
+        } catch (e) {
+            reportError(t('fileManager.deleteFailed'), e)
+        } finally {
+            setPendingDelete(null)
+            setBusyMessage(null)
+            refresh()
+        }
+    }
+
+    if (!isConnected || isDemoMode) {
+        return (
+            <div className="p-8 flex items-center justify-center min-h-[60vh]">
+                <div className="text-center">
+                    <Smartphone className="w-16 h-16 mx-auto text-surface-400 mb-4" strokeWidth={1} />
+                    <p className="text-surface-500">{isDemoMode ? t('fileManager.demoUnavailable') : t('fileManager.connectDevice')}</p>
+                </div>
+            </div>
+        )
+    }
+
+    const root = findRoot(currentPath)
+    const breadcrumbs = root
+        ? currentPath.slice(root.path.length).split('/').filter(Boolean).reduce<{ label: string; path: string }[]>(
+            (crumbs, part) => [...crumbs, { label: part, path: `${crumbs[crumbs.length - 1].path}/${part}` }],
+            [{ label: t(root.labelKey), path: root.path }]
+        )
+        : []
+
+    const inputClass = 'w-full px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none focus:border-accent-500 focus:ring-2 focus:ring-accent-500/20 transition-all'
+    const sortIndicator = (key: SortKey) => sort.key === key ? (sort.ascending ? ' ↑' : ' ↓') : ''
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto terminal-spacer">
+            {/* Header */}
+            <motion.div
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6"
+            >
+                <h1 className="text-2xl sm:text-3xl font-bold text-surface-900 dark:text-white tracking-tight">
+                    {t('fileManager.title')}
+                </h1>
+                <p className="text-surface-500 mt-1">{t('fileManager.subtitle')}</p>
+            </motion.div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-4">
+                {/* Tree */}
+                <Card padding="sm" className="lg:max-h-[70vh] overflow-auto">
+                    <DirectoryTree
+                        roots={roots}
+                        currentPath={currentPath}
+                        isRooted={isRooted}
+                        serial={serial}
+                        refreshKey={refreshKey}
+                        onSelect={openPath}
+                    />
+                </Card>
+
+                <div className="space-y-4 min-w-0">
+                    {/* Toolbar */}
+                    <Card padding="sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openPath(parentPath(currentPath))}
+                                disabled={isRootPath(currentPath)}
+                                icon={<ArrowUp className="w-4 h-4" />}
+                            >
+                                {t('fileManager.up')}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={refresh} icon={<RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />}>
+                                {t('fileManager.refresh')}
+                            </Button>
+                            <div className="w-px h-6 bg-surface-200 dark:bg-white/10 mx-1" />
+                            <Button variant="ghost" size="sm" onClick={() => setNewFolderName('')} disabled={readOnly} icon={<FolderPlus className="w-4 h-4" />}>
+                                {t('fileManager.newFolder')}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} disabled={readOnly} icon={<Upload className="w-4 h-4" />}>
+                                {t('fileManager.upload')}
+                            </Button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                multiple
+                                className="hidden"
+                                onChange={(e) => {
+                                    void uploadFiles(Array.from(e.target.files ?? []))
+                                    e.target.value = ''
+                                }}
+                            />
+                            <div className="w-px h-6 bg-surface-200 dark:bg-white/10 mx-1" />
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={handleDownload}
+                                disabled={selectedEntries.length === 0 || !!busyMessage}
+                                icon={<Download className="w-4 h-4" />}
+                            >
+                                {selectedEntries.length > 1 || selectedEntries[0]?.isDirectory ? t('fileManager.downloadZip') : t('fileManager.download')}
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => detailsEntry && setRenameTarget({ entry: detailsEntry, name: detailsEntry.name })}
+                                disabled={!detailsEntry || readOnly}
+                                icon={<Pencil className="w-4 h-4" />}
+                            >
+                                {t('fileManager.rename')}
+                            </Button>
+                            <Button
+                                variant="danger"
+                                size="sm"
+                                onClick={() => setPendingDelete(selectedEntries)}
+                                disabled={selectedEntries.length === 0 || readOnly}
+                                icon={<Trash2 className="w-4 h-4" />}
+                            >
+                                {t('fileManager.delete')}
+                            </Button>
+                        </div>
+
+                        {/* Breadcrumbs */}
+                        <div className="flex items-center flex-wrap gap-1 mt-3 text-sm font-mono text-surface-500">
+                            {breadcrumbs.map((crumb, index) => (
+                                <span key={crumb.path} className="flex items-center gap-1">
+                                    {index > 0 && <ChevronRight className="w-3.5 h-3.5" />}
+                                    <button
+                                        onClick={() => openPath(crumb.path)}
+                                        className="hover:text-accent-500 transition-colors"
+                                    >
+                                        {crumb.label}
+                                    </button>
+                                </span>
+                            ))}
+                            {readOnly && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-surface-200 dark:bg-white/10 font-sans">
+                                    {t('fileManager.readOnly')}
+                                </span>
+                            )}
+                        </div>
+                    </Card>
+
+                    {busyMessage && (
+                        <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-accent-500/10 text-sm text-accent-600 dark:text-accent-400">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            <span className="truncate">{busyMessage}</span>
+                        </div>
+                    )}
+
+                    {/* Listing */}
+                    <div
+                        onDragEnter={handleDragEnter}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDragLeave={handleDragLeave}
+                        onDrop={handleDrop}
+                        className={`relative rounded-2xl border transition-colors min-h-[320px] overflow-hidden
+                            ${isDragging ? 'border-accent-500 border-dashed bg-accent-500/5' : 'border-surface-200 dark:border-white/10 bg-white dark:bg-surface-900'}`}
+                    >
+                        <div className="grid grid-cols-[28px_1fr_90px_150px] gap-2 px-4 py-2 text-xs font-medium text-surface-500 border-b border-surface-200 dark:border-white/10">
+                            <input
+                                type="checkbox"
+                                checked={entries.length > 0 && selected.size === entries.length}
+                                onChange={(e) => setSelected(e.target.checked ? new Set(entries.map(entry => entry.path)) : new Set())}
+                                className="accent-accent-500"
+                            />
+                            <button onClick={() => toggleSort('name')} className="text-left hover:text-accent-500">{t('fileManager.name')}{sortIndicator('name')}</button>
+                            <button onClick={() => toggleSort('size')} className="text-right hover:text-accent-500">{t('fileManager.size')}{sortIndicator('size')}</button>
+                            <button onClick={() => toggleSort('mtime')} className="text-right hover:text-accent-500">{t('fileManager.modified')}{sortIndicator('mtime')}</button>
+                        </div>
+
+                        {isLoading && entries.length === 0 ? (
+                            <div className="flex items-center justify-center py-16 text-surface-400">
+                                <Loader2 className="w-6 h-6 animate-spin" />
+                            </div>
+                        ) : error ? (
+                            <div className="flex items-center gap-2 justify-center py-16 text-sm text-red-500">
+                                <AlertTriangle className="w-4 h-4" />
+                                {error}
+                            </div>
+                        ) : sortedEntries.length === 0 ? (
+                            <div className="py-16 text-center text-sm text-surface-400">{t('fileManager.empty')}</div>
+                        ) : (
+                            <div className="max-h-[55vh] overflow-auto">
+                                {sortedEntries.map(entry => {
+                                    const isSelected = selected.has(entry.path)
+                                    return (
+                                        <div
+                                            key={entry.path}
+                                            onClick={() => setSelected(new Set([entry.path]))}
+                                            onDoubleClick={() => entry.isDirectory && openPath(entry.path)}
+                                            className={`grid grid-cols-[28px_1fr_90px_150px] gap-2 px-4 py-2 text-sm cursor-default select-none transition-colors
+                                                ${isSelected ? 'bg-accent-500/10' : 'hover:bg-surface-50 dark:hover:bg-white/5'}`}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={isSelected}
+                                                onClick={(e) => e.stopPropagation()}
+                                                onChange={() => toggleSelected(entry.path)}
+                                                className="accent-accent-500"
+                                            />
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                {entry.isSymlink
+                                                    ? <Link2 className="w-4 h-4 shrink-0 text-sky-500" strokeWidth={1.5} />
+                                                    : entry.isDirectory
+                                                        ? <Folder className="w-4 h-4 shrink-0 text-amber-500" strokeWidth={1.5} />
+                                                        : <FileIcon className="w-4 h-4 shrink-0 text-surface-400" strokeWidth={1.5} />}
+                                                {entry.isDirectory ? (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation()
+                                                            openPath(entry.path)
+                                                        }}
+                                                        className="truncate text-surface-900 dark:text-white hover:text-accent-500 text-left"
+                                                    >
+                                                        {entry.name}
+                                                    </button>
+                                                ) : (
+                                                    <span className="truncate text-surface-900 dark:text-white">{entry.name}</span>
+                                                )}
+                                            </div>
+                                            <span className="text-right text-surface-500 tabular-nums">{entry.isDirectory ? '—' : formatSize(entry.size)}</span>
+                                            <span className="text-right text-surface-500 tabular-nums">{new Date(entry.mtime * 1000).toLocaleString()}</span>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        )}
+
+                        {isDragging && (
+                            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                                <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-accent-600 text-white text-sm font-medium shadow-lg">
+                                    <Upload className="w-4 h-4" />
+                                    {t('fileManager.dropToUpload', { path: currentPath })}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Details */}
+                    {detailsEntry && (
+                        <Card padding="sm">
+                            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs">
+                                <div className="col-span-2 sm:col-span-4">
+                                    <dt className="text-surface-500">{t('fileManager.path')}</dt>
+                                    <dd className="font-mono text-surface-900 dark:text-white break-all">{detailsEntry.path}</dd>
+                                </div>
+                                <div>
+                                    <dt className="text-surface-500">{t('fileManager.type')}</dt>
+                                    <dd className="text-surface-900 dark:text-white">
+                                        {detailsEntry.isSymlink ? t('fileManager.typeLink') : detailsEntry.isDirectory ? t('fileManager.typeFolder') : t('fileManager.typeFile')}
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-surface-500">{t('fileManager.size')}</dt>
+                                    <dd className="text-surface-900 dark:text-white tabular-nums">{formatSize(detailsEntry.size)} ({detailsEntry.size.toLocaleString()} B)</dd>
+                                </div>
+                                <div>
+                                    <dt className="text-surface-500">{t('fileManager.permissions')}</dt>
+                                    <dd className="font-mono text-surface-900 dark:text-white">
+                                        {formatPermissions(detailsEntry)} ({(detailsEntry.mode & 0o7777).toString(8).padStart(4, '0')})
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-surface-500">{t('fileManager.modified')}</dt>
+                                    <dd className="text-surface-900 dark:text-white">{new Date(detailsEntry.mtime * 1000).toLocaleString()}</dd>
+                                </div>
+                            </dl>
+                        </Card>
+                    )}
+
+                    {/* Uploads */}
+                    {uploads.length > 0 && (
+                        <Card padding="sm">
+                            <div className="flex items-center justify-between mb-2">
+                                <p className="text-sm font-medium text-surface-900 dark:text-white">{t('fileManager.uploads')}</p>
+                                <button
+                                    onClick={() => setUploads(prev => prev.filter(u => u.status === 'uploading'))}
+                                    className="text-xs text-surface-500 hover:text-accent-500"
+                                >
+                                    {t('fileManager.clearFinished')}
+                                </button>
+                            </div>
+                            <div className="space-y-2">
+                                {uploads.map(upload => (
+                                    <div key={upload.id} className="flex items-center gap-3 text-xs">
+                                        {upload.status === 'uploading' && <Loader2 className="w-4 h-4 shrink-0 animate-spin text-accent-500" />}
+                                        {upload.status === 'success' && <CheckCircle2 className="w-4 h-4 shrink-0 text-emerald-500" />}
+                                        {upload.status === 'error' && <XCircle className="w-4 h-4 shrink-0 text-red-500" />}
+                                        <span className="truncate flex-1 text-surface-700 dark:text-surface-300" title={upload.error}>
+                                            {upload.name}{upload.error ? ` — ${upload.error}` : ''}
+                                        </span>
+                                        <div className="w-24 h-1.5 rounded-full bg-surface-200 dark:bg-white/10 overflow-hidden">
+                                            <div className="h-full bg-accent-500 transition-all" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </Card>
+                    )}
+                </div>
+            </div>
+
+            {/* New folder */}
+            <Modal isOpen={newFolderName !== null} onClose={() => setNewFolderName(null)} title={t('fileManager.newFolder')} size="sm">
+                <div className="space-y-4">
+                    <input
+                        autoFocus
+                        value={newFolderName ?? ''}
+                        onChange={(e) => setNewFolderName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCreateFolder()}
+                        placeholder={t('fileManager.folderName')}
+                        className={inputClass}
+                    />
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" onClick={() => setNewFolderName(null)}>{t('common.cancel')}</Button>
+                        <Button onClick={handleCreateFolder} disabled={!newFolderName?.trim()}>{t('fileManager.create')}</Button>
+                    </div>
+                </div>
+            </Modal>
+
+            {/* Rename */}
+            <Modal isOpen={renameTarget !== null} onClose={() => setRenameTarget(null)} title={t('fileManager.rename')} size="sm">
+                <div className="space-y-4">
+                    <input
+                        autoFocus
+                        value={renameTarget?.name ?? ''}
+                        onChange={(e) => setRenameTarget(prev => prev && { ...prev, name: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                        className={`${inputClass} font-mono`}
+                    />
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" onClick={() => setRenameTarget(null)}>{t('common.cancel')}</Button>
+                        <Button onClick={handleRename} disabled={!renameTarget?.name.trim() || renameTarget.name === renameTarget.entry.name}>
+                            {t('fileManager.rename')}
+                        </Button>
+                    </div>
+                </div>
+            </Modal>
+
+            {/* Delete confirmation */}
+            <Modal isOpen={pendingDelete !== null} onClose={() => setPendingDelete(null)} title={t('fileManager.confirmDeleteTitle')} size="md">
+                <div className="space-y-4">
+                    <p className="text-sm text-surface-600 dark:text-surface-400">
+                        {t('fileManager.confirmDeleteMessage', { count: pendingDelete?.length ?? 0 })}
+                    </p>
+                    <ul className="max-h-48 overflow-auto space-y-1 text-xs font-mono text-surface-700 dark:text-surface-300">
+                        {pendingDelete?.map(entry => (
+                            <li key={entry.path} className="flex items-center gap-2">
+                                {entry.isDirectory ? <Folder className="w-3.5 h-3.5 text-amber-500" /> : <FileIcon className="w-3.5 h-3.5 text-surface-400" />}
+                                <span className="truncate">{entry.path}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" onClick={() => setPendingDelete(null)}>{t('common.cancel')}</Button>
+                        <Button variant="danger" onClick={handleDelete} loading={!!busyMessage} icon={<Trash2 className="w-4 h-4" />}>
+                            {t('fileManager.delete')}
+                        </Button>
+                    </div>
+                </div>
+            </Modal>
+        </div>
+    )
+}
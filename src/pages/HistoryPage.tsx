@@ -21,6 +21,7 @@ import {
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Modal, ModalActions } from '@/components/ui/Modal'
+import { SnapshotsPanel } from '@/components/history/SnapshotsPanel'
 import { useAuthStore } from '@/stores/authStore'
 import { useAdbStore } from '@/stores/adbStore'
 import { useAppStore } from '@/stores/appStore'
@@ -218,6 +219,9 @@ export function HistoryPage() {
             {t('auth.login')}
           </Button>
         </motion.div>
+
+        {/* Gli snapshot locali non richiedono login */}
+        <SnapshotsPanel />
       </div>
     )
   }
@@ -287,6 +291,9 @@ export function HistoryPage() {
         </div>
       </motion.div>
 
+      {/* Local Snapshots */}
+      <SnapshotsPanel />
+
       {/* Devices Overview */}
       {userDevices.length > 0 && (
         <motion.div
@@ -0,0 +1,437 @@
+/**
+ * Logcat Page
+ * Live `logcat -v threadtime` viewer with package/tag/level/regex filters,
+ * pause/resume, crash highlighting and export
+ */
+
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import {
+    Pause,
+    Play,
+    Trash2,
+    FileText,
+    FileJson,
+    AlertOctagon,
+    Search,
+    Smartphone,
+    ArrowDownToLine,
+} from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import {
+    LOG_LEVELS,
+    LogRingBuffer,
+    formatLogEntry,
+    parseProcessStart,
+    resolvePackagePids,
+    streamLogcat,
+    type LogEntry,
+    type LogLevel,
+} from '@/services/logcat'
+
+const BUFFER_SIZES = [5000, 20000, 50000] as const
+const MAX_RENDERED_ROWS = 1500
+const FLUSH_INTERVAL_MS = 250
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+    V: 'text-surface-400 dark:text-[#8b949e]',
+    D: 'text-sky-600 dark:text-[#79c0ff]',
+    I: 'text-emerald-600 dark:text-[#56d364]',
+    W: 'text-amber-600 dark:text-[#e3b341]',
+    E: 'text-red-600 dark:text-[#ff7b72]',
+    F: 'text-fuchsia-600 dark:text-[#d2a8ff] font-bold',
+}
+
+type StreamStatus = 'connecting' | 'streaming' | 'ended' | 'error'
+
+function downloadBlob(content: string, type: string, filename: string) {
+    const blob = new Blob([content], { type })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+export function LogcatPage() {
+    const { t } = useTranslation()
+    const isConnected = useAdbStore(state => state.isConnected)
+    const activeSerial = useAdbStore(state => state.activeSerial)
+    const packages = useAdbStore(state => state.packages)
+    const addCommandLog = useAdbStore(state => state.addCommandLog)
+    const showToast = useAppStore(state => state.showToast)
+
+    const [bufferSize, setBufferSize] = useState<number>(BUFFER_SIZES[1])
+    const [status, setStatus] = useState<StreamStatus>('connecting')
+    const [error, setError] = useState<string | null>(null)
+    const [isPaused, setIsPaused] = useState(false)
+    // Buffer contents as of the last flush, and as of pausing
+    const [entries, setEntries] = useState<LogEntry[]>([])
+    const [snapshot, setSnapshot] = useState<LogEntry[]>([])
+    const [restartKey, setRestartKey] = useState(0)
+
+    const [packageFilter, setPackageFilter] = useState('')
+    const [packagePids, setPackagePids] = useState<Set<number> | null>(null)
+    const [tagFilter, setTagFilter] = useState('')
+    const [minLevel, setMinLevel] = useState<LogLevel>('V')
+    const [regexFilter, setRegexFilter] = useState('')
+    const [crashesOnly, setCrashesOnly] = useState(false)
+
+    const bufferRef = useRef(new LogRingBuffer<LogEntry>(bufferSize))
+    const dirtyRef = useRef(false)
+    const receivedRef = useRef(0)
+    const receivedAtPauseRef = useRef(0)
+    const packageRef = useRef('')
+    const listRef = useRef<HTMLDivElement>(null)
+    const autoScrollRef = useRef(true)
+
+    // Resize the ring buffer, keeping the newest entries
+    useEffect(() => {
+        if (bufferRef.current.capacity === bufferSize) return
+        const next = new LogRingBuffer<LogEntry>(bufferSize)
+        bufferRef.current.toArray().slice(-bufferSize).forEach(entry => next.push(entry))
+        bufferRef.current = next
+        setEntries(bufferRef.current.toArray())
+    }, [bufferSize])
+
+    // Stream for the active device
+    useEffect(() => {
+        if (!isConnected) return
+
+        const controller = new AbortController()
+        setStatus('connecting')
+        setError(null)
+
+        const onEntries = (entries: LogEntry[]) => {
+            setStatus('streaming')
+            for (const entry of entries) {
+                bufferRef.current.push(entry)
+
+                // New process for the filtered package: follow its PID too
+                const started = parseProcessStart(entry)
+                if (started && packageRef.current && started.packageName === packageRef.current) {
+                    setPackagePids(prev => new Set([...(prev ?? []), started.pid]))
+                }
+            }
+            receivedRef.current += entries.length
+            dirtyRef.current = true
+        }
+
+        addCommandLog({ command: 'logcat -v threadtime', result: 'success', message: t('logcat.streamStarted') })
+
+        streamLogcat({ serial: activeSerial ?? undefined, signal: controller.signal, onEntries })
+            .then(() => {
+                if (!controller.signal.aborted) setStatus('ended')
+            })
+            .catch((e) => {
+                if (controller.signal.aborted) return
+                setStatus('error')
+                setError(e instanceof Error ? e.message : String(e))
+            })
+
+        return () => controller.abort()
+    }, [isConnected, activeSerial, restartKey, addCommandLog, t])
+
+    // Batch renders: at most one refresh per interval
+    useEffect(() => {
+        const interval = setInterval(() => {
+            if (!dirtyRef.current) return
+            dirtyRef.current = false
+            setEntries(bufferRef.current.toArray())
+        }, FLUSH_INTERVAL_MS)
+        return () => clearInterval(interval)
+    }, [])
+
+    // Package filter → PIDs from `ps`, kept current through ActivityManager lines
+    useEffect(() => {
+        const packageName = packageFilter.trim()
+        packageRef.current = packageName
+        if (!packageName) {
+            setPackagePids(null)
+            return
+        }
+
+        let cancelled = false
+        const timeout = setTimeout(async () => {
+            try {
+                const pids = await resolvePackagePids(packageName, activeSerial ?? undefined)
+                if (!cancelled) setPackagePids(new Set(pids))
+            } catch {
+                if (!cancelled) setPackagePids(new Set())
+            }
+        }, 400)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timeout)
+        }
+    }, [packageFilter, activeSerial])
+
+    const regex = useMemo(() => {
+        if (!regexFilter) return null
+        try {
+            return new RegExp(regexFilter, 'i')
+        } catch {
+            return undefined
+        }
+    }, [regexFilter])
+
+    const filtered = useMemo(() => {
+        const minIndex = LOG_LEVELS.indexOf(minLevel)
+        const tags = tagFilter.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+
+        // While paused the view keeps the snapshot taken at pause time
+        const source = isPaused ? snapshot : entries
+
+        return source.filter(entry => {
+            if (LOG_LEVELS.indexOf(entry.level) < minIndex) return false
+            if (crashesOnly && !entry.isCrash) return false
+            if (packagePids && !packagePids.has(entry.pid)) return false
+            if (tags.length > 0 && !tags.some(tag => entry.tag.toLowerCase().includes(tag))) return false
+            if (regex && !regex.test(entry.message) && !regex.test(entry.tag)) return false
+            return true
+        })
+    }, [entries, snapshot, isPaused, minLevel, tagFilter, crashesOnly, packagePids, regex])
+
+    const crashCount = useMemo(() => filtered.filter(entry => entry.isCrash).length, [filtered])
+    const rendered = filtered.length > MAX_RENDERED_ROWS ? filtered.slice(-MAX_RENDERED_ROWS) : filtered
+    const newWhilePaused = isPaused ? receivedRef.current - receivedAtPauseRef.current : 0
+
+    useEffect(() => {
+        if (listRef.current && autoScrollRef.current) {
+            listRef.current.scrollTop = listRef.current.scrollHeight
+        }
+    }, [rendered])
+
+    const handleScroll = useCallback(() => {
+        if (!listRef.current) return
+        const { scrollTop, scrollHeight, clientHeight } = listRef.current
+        autoScrollRef.current = scrollHeight - scrollTop - clientHeight < 40
+    }, [])
+
+    const togglePause = () => {
+        if (!isPaused) {
+            setSnapshot(bufferRef.current.toArray())
+            receivedAtPauseRef.current = receivedRef.current
+        }
+        setIsPaused(!isPaused)
+    }
+
+    const clearBuffer = () => {
+        bufferRef.current.clear()
+        setSnapshot([])
+        receivedAtPauseRef.current = receivedRef.current
+        setEntries(bufferRef.current.toArray())
+    }
+
+    const scrollToBottom = () => {
+        autoScrollRef.current = true
+        if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+    }
+
+    const exportText = () => {
+        const content = filtered.map(formatLogEntry).join('\n')
+        downloadBlob(content, 'text/plain', `logcat-${new Date().toISOString().replace(/[:.]/g, '-')}.txt`)
+        showToast({ type: 'success', title: t('logcat.exported'), message: t('logcat.exportedCount', { count: filtered.length }) })
+    }
+
+    const exportJson = () => {
+        const data = {
+            exportedAt: new Date().toISOString(),
+            device: activeSerial,
+            filters: { package: packageFilter || null, tag: tagFilter || null, minLevel, regex: regexFilter || null, crashesOnly },
+            entries: filtered.map(({ id: _id, ...entry }) => entry),
+        }
+        downloadBlob(JSON.stringify(data, null, 2), 'application/json', `logcat-${new Date().toISOString().replace(/[:.]/g, '-')}.json`)
+        showToast({ type: 'success', title: t('logcat.exported'), message: t('logcat.exportedCount', { count: filtered.length }) })
+    }
+
+    if (!isConnected) {
+        return (
+            <div className="p-8 flex items-center justify-center min-h-[60vh]">
+                <div className="text-center">
+                    <Smartphone className="w-16 h-16 mx-auto text-surface-400 mb-4" strokeWidth={1} />
+                    <p className="text-surface-500">{t('logcat.connectDevice')}</p>
+                </div>
+            </div>
+        )
+    }
+
+    const inputClass = 'px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none focus:border-accent-500 focus:ring-2 focus:ring-accent-500/20 transition-all'
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto terminal-spacer">
+            {/* Header */}
+            <motion.div
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6"
+            >
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-2xl sm:text-3xl font-bold text-surface-900 dark:text-white tracking-tight">
+                            {t('logcat.title')}
+                        </h1>
+                        <p className="text-surface-500 mt-1">{t('logcat.subtitle')}</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                            variant={isPaused ? 'primary' : 'secondary'}
+                            size="sm"
+                            onClick={togglePause}
+                            icon={isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        >
+                            {isPaused ? t('logcat.resume') : t('logcat.pause')}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={clearBuffer} icon={<Trash2 className="w-4 h-4" />}>
+                            {t('logcat.clear')}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={exportText} disabled={filtered.length === 0} icon={<FileText className="w-4 h-4" />}>
+                            TXT
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={exportJson} disabled={filtered.length === 0} icon={<FileJson className="w-4 h-4" />}>
+                            JSON
+                        </Button>
+                    </div>
+                </div>
+            </motion.div>
+
+            {/* Filters */}
+            <Card padding="sm" className="mb-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+                    <div>
+                        <input
+                            value={packageFilter}
+                            onChange={(e) => setPackageFilter(e.target.value)}
+                            placeholder={t('logcat.filterPackage')}
+                            list="logcat-packages"
+                            className={`${inputClass} w-full font-mono`}
+                        />
+                        <datalist id="logcat-packages">
+                            {packages.map(pkg => <option key={pkg.packageName} value={pkg.packageName} />)}
+                        </datalist>
+                    </div>
+                    <input
+                        value={tagFilter}
+                        onChange={(e) => setTagFilter(e.target.value)}
+                        placeholder={t('logcat.filterTag')}
+                        className={`${inputClass} font-mono`}
+                    />
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-surface-400" strokeWidth={1.5} />
+                        <input
+                            value={regexFilter}
+                            onChange={(e) => setRegexFilter(e.target.value)}
+                            placeholder={t('logcat.filterRegex')}
+                            className={`${inputClass} w-full pl-9 font-mono ${regex === undefined ? 'border-red-500 focus:border-red-500' : ''}`}
+                        />
+                    </div>
+                    <div className="flex gap-1">
+                        {LOG_LEVELS.map(level => (
+                            <button
+                                key={level}
+                                onClick={() => setMinLevel(level)}
+                                title={t(`logcat.levels.${level}`)}
+                                className={`flex-1 py-2 rounded-lg text-xs font-mono font-bold border transition-colors ${minLevel === level
+                                    ? 'bg-accent-500/10 border-accent-500/40 text-accent-600 dark:text-accent-400'
+                                    : `border-surface-200 dark:border-white/10 hover:bg-surface-100 dark:hover:bg-white/5 ${LEVEL_COLORS[level]}`
+                                    }`}
+                            >
+                                {level}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setCrashesOnly(!crashesOnly)}
+                            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-medium border transition-colors ${crashesOnly
+                                ? 'bg-red-500/10 border-red-500/40 text-red-600 dark:text-red-400'
+                                : 'border-surface-200 dark:border-white/10 text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5'
+                                }`}
+                        >
+                            <AlertOctagon className="w-3.5 h-3.5" strokeWidth={1.5} />
+                            {t('logcat.crashesOnly')}
+                            {crashCount > 0 && (
+                                <span className="px-1.5 rounded bg-red-500 text-white text-[10px] font-bold">{crashCount}</span>
+                            )}
+                        </button>
+                        <select
+                            value={bufferSize}
+                            onChange={(e) => setBufferSize(Number(e.target.value))}
+                            title={t('logcat.bufferSize')}
+                            className={`${inputClass} py-1.5 text-xs`}
+                        >
+                            {BUFFER_SIZES.map(size => <option key={size} value={size}>{size.toLocaleString()}</option>)}
+                        </select>
+                    </div>
+                </div>
+                {packagePids && (
+                    <p className="mt-2 text-xs text-surface-500 font-mono">
+                        {packagePids.size > 0
+                            ? t('logcat.pidsFound', { pids: [...packagePids].join(', ') })
+                            : t('logcat.noPids')}
+                    </p>
+                )}
+            </Card>
+
+            {/* Status */}
+            <div className="flex items-center justify-between gap-3 mb-2 text-xs text-surface-500 font-mono">
+                <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${status === 'streaming' && !isPaused ? 'bg-emerald-500 animate-pulse' : status === 'error' ? 'bg-red-500' : 'bg-surface-400'}`} />
+                    <span>
+                        {status === 'error' ? t('logcat.streamError') : isPaused ? t('logcat.paused', { count: newWhilePaused }) : t(`logcat.status.${status}`)}
+                    </span>
+                    {(status === 'ended' || status === 'error') && (
+                        <button onClick={() => setRestartKey(k => k + 1)} className="text-accent-500 hover:underline">
+                            {t('logcat.restart')}
+                        </button>
+                    )}
+                </div>
+                <span>
+                    {t('logcat.shownCount', { shown: rendered.length, filtered: filtered.length, total: bufferRef.current.size })}
+                </span>
+            </div>
+            {error && <p className="mb-2 text-xs text-red-500">{error}</p>}
+
+            {/* Log lines */}
+            <div className="relative h-[65vh] min-h-[400px]">
+                <div
+                    ref={listRef}
+                    onScroll={handleScroll}
+                    className="absolute inset-0 overflow-auto rounded-2xl border border-surface-200 dark:border-[#30363d] bg-surface-50 dark:bg-[#0d1117] p-3 font-mono text-xs leading-relaxed"
+                >
+                    {rendered.length === 0 ? (
+                        <div className="h-full flex items-center justify-center text-surface-400">
+                            {t('logcat.empty')}
+                        </div>
+                    ) : rendered.map(entry => (
+                        <div
+                            key={entry.id}
+                            className={`flex gap-3 px-2 rounded whitespace-pre ${entry.isCrash ? 'bg-red-500/10 border-l-2 border-red-500' : 'hover:bg-surface-100 dark:hover:bg-white/5'}`}
+                        >
+                            <span className="text-surface-400 dark:text-[#6e7681] shrink-0">{entry.date} {entry.time}</span>
+                            <span className="text-surface-400 dark:text-[#6e7681] shrink-0 w-24 text-right">{entry.pid}/{entry.tid}</span>
+                            <span className={`shrink-0 w-3 ${LEVEL_COLORS[entry.level]}`}>{entry.level}</span>
+                            <span className={`shrink-0 w-40 truncate ${LEVEL_COLORS[entry.level]}`} title={entry.tag}>{entry.tag}</span>
+                            <span className={entry.isCrash ? 'text-red-600 dark:text-[#ff7b72]' : 'text-surface-700 dark:text-[#c9d1d9]'}>{entry.message}</span>
+                        </div>
+                    ))}
+                </div>
+                {!autoScrollRef.current && (
+                    <button
+                        onClick={scrollToBottom}
+                        className="absolute bottom-4 right-4 p-2 rounded-full bg-accent-500 text-white shadow-lg hover:bg-accent-600 transition-colors"
+                        title={t('logcat.scrollToBottom')}
+                    >
+                        <ArrowDownToLine className="w-4 h-4" strokeWidth={1.5} />
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,647 @@
+/**
+ * Permissions Page
+ * Matrix of apps × dangerous permission groups with grant state and appops,
+ * bulk revoke per group and a privacy baseline to re-apply after a reset
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import {
+    Activity,
+    Bluetooth,
+    Camera,
+    Contact,
+    MapPin,
+    MessageSquare,
+    Mic,
+    Phone,
+    RefreshCw,
+    RotateCcw,
+    Save,
+    Search,
+    ShieldCheck,
+    ShieldOff,
+    Smartphone,
+    Trash2,
+} from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Modal, ModalActions } from '@/components/ui/Modal'
+import { Switch } from '@/components/ui/Switch'
+import { useAdbStore } from '@/stores/adbStore'
+import { useAppStore } from '@/stores/appStore'
+import { useTranslation } from '@/stores/i18nStore'
+import { getCachedLabel } from '@/services/app-icons'
+import {
+    PERMISSION_GROUPS,
+    applyBaselineStep,
+    clearPrivacyBaseline,
+    createPrivacyBaseline,
+    getGroupGrantState,
+    isGroupBlockedByAppOps,
+    loadPrivacyBaseline,
+    planPrivacyBaseline,
+    readPermissionMatrix,
+    savePrivacyBaseline,
+    setGroupAppOps,
+    setGroupGrant,
+    type AppPermissionRow,
+    type BaselineStep,
+    type GroupGrantState,
+    type PermissionGroupId,
+    type PrivacyBaseline,
+} from '@/services/permission-manager'
+
+const GROUP_ICONS: Record<PermissionGroupId, typeof MapPin> = {
+    location: MapPin,
+    camera: Camera,
+    microphone: Mic,
+    contacts: Contact,
+    sms: MessageSquare,
+    call_log: Phone,
+    body_sensors: Activity,
+    nearby_devices: Bluetooth,
+}
+
+const STATE_STYLES: Record<GroupGrantState, string> = {
+    granted: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+    partial: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30',
+    denied: 'bg-surface-100 dark:bg-white/5 text-surface-400 border-surface-200 dark:border-white/10',
+}
+
+type AppTypeFilter = 'all' | 'user' | 'system'
+
+interface BulkProgress {
+    current: number
+    total: number
+}
+
+export function PermissionsPage() {
+    const { t } = useTranslation()
+    const isConnected = useAdbStore(state => state.isConnected)
+    const isDemoMode = useAdbStore(state => state.isDemoMode)
+    const activeSerial = useAdbStore(state => state.activeSerial)
+    const deviceInfo = useAdbStore(state => state.deviceInfo)
+    const addCommandLog = useAdbStore(state => state.addCommandLog)
+    const showToast = useAppStore(state => state.showToast)
+
+    const [rows, setRows] = useState<AppPermissionRow[]>([])
+    const [isLoading, setIsLoading] = useState(false)
+    const [loadError, setLoadError] = useState<string | null>(null)
+    const [busyCell, setBusyCell] = useState<string | null>(null)
+
+    const [search, setSearch] = useState('')
+    const [appType, setAppType] = useState<AppTypeFilter>('user')
+    const [groupFilter, setGroupFilter] = useState<PermissionGroupId | null>(null)
+
+    const [bulkGroup, setBulkGroup] = useState<PermissionGroupId | null>(null)
+    const [bulkDenyAppOps, setBulkDenyAppOps] = useState(false)
+    const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null)
+
+    const [baseline, setBaseline] = useState<PrivacyBaseline | null>(() => loadPrivacyBaseline())
+    const [baselinePlan, setBaselinePlan] = useState<BaselineStep[] | null>(null)
+
+    const serial = activeSerial ?? undefined
+
+    const loadMatrix = useCallback(async () => {
+        setIsLoading(true)
+        setLoadError(null)
+        try {
+            setRows(await readPermissionMatrix(serial))
+        } catch (e) {
+            setLoadError(e instanceof Error ? e.message : String(e))
+        } finally {
+            setIsLoading(false)
+        }
+    }, [serial])
+
+    useEffect(() => {
+        if (!isConnected || isDemoMode) return
+        loadMatrix()
+    }, [isConnected, isDemoMode, loadMatrix])
+
+    const labelOf = (packageName: string) => getCachedLabel(packageName) || packageName
+
+    // Filter "apps with <group> granted": partial grants count as granted
+    const filteredRows = useMemo(() => {
+        const query = search.trim().toLowerCase()
+        return rows.filter(row => {
+            if (appType === 'user' && row.isSystem) return false
+            if (appType === 'system' && !row.isSystem) return false
+            if (groupFilter) {
+                const cell = row.groups[groupFilter]
+                if (!cell || getGroupGrantState(cell) === 'denied') return false
+            }
+            if (!query) return true
+            return row.packageName.toLowerCase().includes(query) || labelOf(row.packageName).toLowerCase().includes(query)
+        })
+    }, [rows, search, appType, groupFilter])
+
+    const grantedCount = (group: PermissionGroupId) => filteredRows.filter(row => {
+        const cell = row.groups[group]
+        return cell && getGroupGrantState(cell) !== 'denied'
+    }).length
+
+    // ============================================
+    // SINGLE CELL
+    // ============================================
+
+    const toggleCell = async (row: AppPermissionRow, group: PermissionGroupId) => {
+        const cell = row.groups[group]
+        if (!cell) return
+        const grant = getGroupGrantState(cell) === 'denied'
+        const key = `${row.packageName}:${group}`
+        setBusyCell(key)
+
+        try {
+            const result = await setGroupGrant(row.packageName, cell, grant, serial)
+            const message = t(grant ? 'permissions.granted' : 'permissions.revoked', {
+                group: t(`permissions.groups.${group}`),
+                name: labelOf(row.packageName),
+            })
+            addCommandLog({
+                command: `pm ${grant ? 'grant' : 'revoke'} ${row.packageName} (${group})`,
+                result: result.success ? 'success' : 'error',
+                message: result.success ? message : result.errors.join('\n'),
+            })
+
+            if (!result.success) {
+                showToast({ type: 'error', title: t('permissions.changeFailed'), message: result.errors[0] })
+                await loadMatrix()
+                return
+            }
+
+            setRows(prev => prev.map(item => item.packageName !== row.packageName ? item : {
+                ...item,
+                groups: {
+                    ...item.groups,
+                    [group]: {
+                        ...cell,
+                        granted: grant ? cell.requested : [],
+                        appops: grant
+                            ? Object.fromEntries(Object.entries(cell.appops).filter(([, mode]) => mode !== 'ignore' && mode !== 'deny'))
+                            : cell.appops,
+                    },
+                },
+            }))
+        } catch (e) {
+            showToast({ type: 'error', title: t('permissions.changeFailed'), message: e instanceof Error ? e.message : String(e) })
+        } finally {
+            setBusyCell(null)
+        }
+    }
+
+    // ============================================
+    // BULK REVOKE
+    // ============================================
+
+    const bulkTargets = bulkGroup
+        ? filteredRows.filter(row => {
+            const cell = row.groups[bulkGroup]
+            return cell && (getGroupGrantState(cell) !== 'denied' || bulkDenyAppOps)
+        })
+        : []
+
+    const runBulkRevoke = async () => {
+        if (!bulkGroup) return
+        const group = bulkGroup
+        const targets = bulkTargets
+        const failed: string[] = []
+        setBulkProgress({ current: 0, total: targets.length })
+
+        for (const [index, row] of targets.entries()) {
+            const cell = row.groups[group]!
+            try {
+                const revoke = await setGroupGrant(row.packageName, cell, false, serial)
+                const appops = bulkDenyAppOps
+                    ? await setGroupAppOps(row.packageName, group, 'ignore', serial)
+                    : { success: true, errors: [] }
+                if (!revoke.success || !appops.success) failed.push(row.packageName)
+            } catch {
+                failed.push(row.packageName)
+            }
+            setBulkProgress({ current: index + 1, total: targets.length })
+        }
+
+        const groupLabel = t(`permissions.groups.${group}`)
+        addCommandLog({
+            command: `pm revoke (${group}) × ${targets.length}`,
+            result: failed.length === 0 ? 'success' : 'error',
+            message: failed.length === 0
+                ? t('permissions.bulk.done', { group: groupLabel, count: targets.length })
+                : t('permissions.bulk.failed', { count: failed.length, names: failed.join(', ') }),
+        })
+        showToast({
+            type: failed.length === 0 ? 'success' : 'warning',
+            title: t('permissions.bulk.done', { group: groupLabel, count: targets.length - failed.length }),
+            message: failed.length > 0 ? t('permissions.bulk.failed', { count: failed.length, names: failed.slice(0, 3).join(', ') }) : undefined,
+        })
+
+        setBulkProgress(null)
+        setBulkGroup(null)
+        await loadMatrix()
+    }
+
+    // ============================================
+    // BASELINE
+    // ============================================
+
+    const saveBaseline = () => {
+        const next = createPrivacyBaseline(rows, deviceInfo?.model ?? activeSerial ?? '')
+        savePrivacyBaseline(next)
+        setBaseline(next)
+        showToast({ type: 'success', title: t('permissions.baseline.saved') })
+    }
+
+    const deleteBaseline = () => {
+        clearPrivacyBaseline()
+        setBaseline(null)
+        showToast({ type: 'success', title: t('permissions.baseline.deleted') })
+    }
+
+    const previewBaseline = () => {
+        if (!baseline) return
+        setBaselinePlan(planPrivacyBaseline(baseline, rows))
+    }
+
+    const runBaseline = async () => {
+        if (!baselinePlan) return
+        const steps = baselinePlan
+        let failures = 0
+        setBulkProgress({ current: 0, total: steps.length })
+
+        for (const [index, step] of steps.entries()) {
+            try {
+                const result = await applyBaselineStep(step, serial)
+                if (result.exitCode !== 0) failures++
+            } catch {
+                failures++
+            }
+            setBulkProgress({ current: index + 1, total: steps.length })
+        }
+
+        addCommandLog({
+            command: 'privacy baseline',
+            result: failures === 0 ? 'success' : 'error',
+            message: t('permissions.baseline.applied', { count: steps.length - failures, failed: failures }),
+        })
+        showToast({
+            type: failures === 0 ? 'success' : 'warning',
+            title: t('permissions.baseline.applied', { count: steps.length - failures, failed: failures }),
+        })
+
+        setBulkProgress(null)
+        setBaselinePlan(null)
+        await loadMatrix()
+    }
+
+    const baselineSummary = baseline
+        ? {
+            apps: Object.keys(baseline.revoked).length,
+            groups: Object.values(baseline.revoked).reduce((sum, groups) => sum + groups.length, 0),
+            appops: Object.values(baseline.appops).reduce((sum, ops) => sum + Object.keys(ops).length, 0),
+        }
+        : null
+
+    if (!isConnected || isDemoMode) {
+        return (
+            <div className="p-8 flex items-center justify-center min-h-[60vh]">
+                <div className="text-center">
+                    <Smartphone className="w-16 h-16 mx-auto text-surface-400 mb-4" strokeWidth={1} />
+                    <p className="text-surface-500">{isDemoMode ? t('permissions.demoUnavailable') : t('permissions.connectDevice')}</p>
+                </div>
+            </div>
+        )
+    }
+
+    const inputClass = 'px-3 py-2 rounded-xl bg-surface-50 dark:bg-white/5 border border-surface-200 dark:border-white/10 text-sm text-surface-900 dark:text-white outline-none focus:border-accent-500 focus:ring-2 focus:ring-accent-500/20 transition-all'
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto terminal-spacer">
+            {/* Header */}
+            <motion.div
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6"
+            >
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-2xl sm:text-3xl font-bold text-surface-900 dark:text-white tracking-tight">
+                            {t('permissions.title')}
+                        </h1>
+                        <p className="text-surface-500 mt-1">{t('permissions.subtitle')}</p>
+                    </div>
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={loadMatrix}
+                        loading={isLoading}
+                        icon={<RefreshCw className="w-4 h-4" />}
+                    >
+                        {t('permissions.refresh')}
+                    </Button>
+                </div>
+            </motion.div>
+
+            {/* Privacy baseline */}
+            <Card padding="sm" className="mb-4">
+                <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+                    <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-xl bg-accent-500/10 text-accent-500">
+                            <ShieldCheck className="w-5 h-5" strokeWidth={1.5} />
+                        </div>
+                        <div>
+                            <p className="font-medium text-surface-900 dark:text-white">{t('permissions.baseline.title')}</p>
+                            <p className="text-xs text-surface-500">
+                                {baseline && baselineSummary
+                                    ? t('permissions.baseline.summary', {
+                                        date: new Date(baseline.createdAt).toLocaleString(),
+                                        model: baseline.deviceModel || t('community.unknown'),
+                                        apps: baselineSummary.apps,
+                                        groups: baselineSummary.groups,
+                                        appops: baselineSummary.appops,
+                                    })
+                                    : t('permissions.baseline.none')}
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={saveBaseline}
+                            disabled={rows.length === 0 || isLoading}
+                            icon={<Save className="w-4 h-4" />}
+                        >
+                            {baseline ? t('permissions.baseline.overwrite') : t('permissions.baseline.save')}
+                        </Button>
+                        {baseline && (
+                            <>
+                                <Button
+                                    variant="primary"
+                                    size="sm"
+                                    onClick={previewBaseline}
+                                    disabled={rows.length === 0 || isLoading}
+                                    icon={<RotateCcw className="w-4 h-4" />}
+                                >
+                                    {t('permissions.baseline.reapply')}
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={deleteBaseline} icon={<Trash2 className="w-4 h-4" />}>
+                                    {t('permissions.baseline.delete')}
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </Card>
+
+            {/* Filters */}
+            <Card padding="sm" className="mb-4">
+                <div className="flex flex-col lg:flex-row gap-3">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-surface-400" strokeWidth={1.5} />
+                        <input
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder={t('permissions.searchPlaceholder')}
+                            className={`${inputClass} w-full pl-9`}
+                        />
+                    </div>
+                    <div className="flex gap-1">
+                        {(['user', 'system', 'all'] as const).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => setAppType(type)}
+                                className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${appType === type
+                                    ? 'bg-accent-500/10 border-accent-500/40 text-accent-600 dark:text-accent-400'
+                                    : 'border-surface-200 dark:border-white/10 text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5'
+                                    }`}
+                            >
+                                {t(`permissions.appTypes.${type}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                    <span className="text-xs text-surface-500 mr-1">{t('permissions.withGranted')}</span>
+                    {PERMISSION_GROUPS.map(group => {
+                        const Icon = GROUP_ICONS[group.id]
+                        const active = groupFilter === group.id
+                        return (
+                            <button
+                                key={group.id}
+                                onClick={() => setGroupFilter(active ? null : group.id)}
+                                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs border transition-colors ${active
+                                    ? 'bg-accent-500/10 border-accent-500/40 text-accent-600 dark:text-accent-400'
+                                    : 'border-surface-200 dark:border-white/10 text-surface-600 dark:text-surface-400 hover:bg-surface-100 dark:hover:bg-white/5'
+                                    }`}
+                            >
+                                <Icon className="w-3.5 h-3.5" strokeWidth={1.5} />
+                                {t(`permissions.groups.${group.id}`)}
+                            </button>
+                        )
+                    })}
+                </div>
+            </Card>
+
+            <div className="flex items-center justify-between gap-3 mb-2 text-xs text-surface-500">
+                <span>{t('permissions.shownCount', { shown: filteredRows.length, total: rows.length })}</span>
+                <div className="flex items-center gap-3">
+                    {(['granted', 'partial', 'denied'] as const).map(state => (
+                        <span key={state} className="flex items-center gap-1.5">
+                            <span className={`w-3 h-3 rounded border ${STATE_STYLES[state]}`} />
+                            {t(`permissions.states.${state}`)}
+                        </span>
+                    ))}
+                </div>
+            </div>
+            {loadError && <p className="mb-2 text-xs text-red-500">{t('permissions.loadError', { error: loadError })}</p>}
+
+            {/* Matrix */}
+            <div className="overflow-auto rounded-2xl border border-surface-200 dark:border-white/10 bg-white dark:bg-surface-900 max-h-[70vh]">
+                <table className="w-full text-sm">
+                    <thead className="sticky top-0 z-10 bg-surface-50 dark:bg-surface-800">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-xs font-semibold text-surface-500 min-w-[220px]">{t('permissions.app')}</th>
+                            {PERMISSION_GROUPS.map(group => {
+                                const Icon = GROUP_ICONS[group.id]
+                                const count = grantedCount(group.id)
+                                return (
+                                    <th key={group.id} className="px-2 py-3 text-center text-xs font-semibold text-surface-500">
+                                        <div className="flex flex-col items-center gap-1">
+                                            <Icon className="w-4 h-4" strokeWidth={1.5} />
+                                            <span className="whitespace-nowrap">{t(`permissions.groups.${group.id}`)}</span>
+                                            <button
+                                                onClick={() => { setBulkDenyAppOps(false); setBulkGroup(group.id) }}
+                                                disabled={count === 0}
+                                                title={t('permissions.bulk.revokeHint', { count })}
+                                                className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-red-500 hover:bg-red-500/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                            >
+                                                <ShieldOff className="w-3 h-3" strokeWidth={1.5} />
+                                                {count}
+                                            </button>
+                                        </div>
+                                    </th>
+                                )
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {filteredRows.length === 0 ? (
+                            <tr>
+                                <td colSpan={PERMISSION_GROUPS.length + 1} className="px-4 py-12 text-center text-surface-400">
+                                    {isLoading ? t('permissions.loading') : t('permissions.noApps')}
+                                </td>
+                            </tr>
+                        ) : filteredRows.map(row => (
+                            <tr key={row.packageName} className="border-t border-surface-100 dark:border-white/5 hover:bg-surface-50 dark:hover:bg-white/5">
+                                <td className="px-4 py-2">
+                                    <p className="font-medium text-surface-900 dark:text-white truncate max-w-[260px]">{labelOf(row.packageName)}</p>
+                                    <p className="text-[11px] font-mono text-surface-500 truncate max-w-[260px]">
+                                        {row.packageName}
+                                        {row.isSystem && <span className="ml-1.5 text-amber-500">{t('permissions.system')}</span>}
+                                    </p>
+                                </td>
+                                {PERMISSION_GROUPS.map(group => {
+                                    const cell = row.groups[group.id]
+                                    if (!cell) {
+                                        return <td key={group.id} className="px-2 py-2 text-center text-surface-300 dark:text-surface-600">·</td>
+                                    }
+                                    const state = getGroupGrantState(cell)
+                                    const blocked = isGroupBlockedByAppOps(cell)
+                                    const modes = [...new Set(Object.values(cell.appops))]
+                                    const busy = busyCell === `${row.packageName}:${group.id}`
+                                    return (
+                                        <td key={group.id} className="px-2 py-2 text-center">
+                                            <button
+                                                onClick={() => toggleCell(row, group.id)}
+                                                disabled={busy || !!bulkProgress}
+                                                title={[
+                                                    t(state === 'denied' ? 'permissions.clickToGrant' : 'permissions.clickToRevoke'),
+                                                    ...cell.requested.map(permission =>
+                                                        `${cell.granted.includes(permission) ? '✓' : '✗'} ${permission.replace('android.permission.', '')}`),
+                                                    ...Object.entries(cell.appops).map(([op, mode]) => `appops ${op}: ${mode}`),
+                                                ].join('\n')}
+                                                className={`min-w-[64px] px-2 py-1 rounded-lg border text-[11px] font-medium transition-colors disabled:opacity-50 ${STATE_STYLES[state]} ${blocked ? 'line-through' : ''}`}
+                                            >
+                                                {busy ? '…' : t(`permissions.states.${state}`)}
+                                            </button>
+                                            {modes.length > 0 && (
+                                                <p className="mt-0.5 text-[10px] font-mono text-amber-600 dark:text-amber-400">{modes.join('/')}</p>
+                                            )}
+                                        </td>
+                                    )
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Bulk revoke */}
+            <Modal
+                isOpen={!!bulkGroup}
+                onClose={() => !bulkProgress && setBulkGroup(null)}
+                title={bulkGroup ? t('permissions.bulk.title', { group: t(`permissions.groups.${bulkGroup}`) }) : ''}
+            >
+                {bulkGroup && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-surface-600 dark:text-surface-400">
+                            {t('permissions.bulk.message', { count: bulkTargets.length, group: t(`permissions.groups.${bulkGroup}`) })}
+                        </p>
+                        <div className="max-h-40 overflow-y-auto rounded-xl bg-surface-50 dark:bg-white/5 p-3 space-y-1">
+                            {bulkTargets.map(row => (
+                                <p key={row.packageName} className="text-xs truncate">
+                                    <span className="text-surface-900 dark:text-white">{labelOf(row.packageName)}</span>
+                                    <span className="ml-2 font-mono text-surface-500">{row.packageName}</span>
+                                </p>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between gap-3">
+                            <div>
+                                <p className="text-sm text-surface-900 dark:text-white">{t('permissions.bulk.denyAppOps')}</p>
+                                <p className="text-xs text-surface-500">{t('permissions.bulk.denyAppOpsHint')}</p>
+                            </div>
+                            <Switch checked={bulkDenyAppOps} onChange={setBulkDenyAppOps} disabled={!!bulkProgress} />
+                        </div>
+                        {bulkProgress && (
+                            <div className="space-y-1">
+                                <div className="h-2 rounded-full bg-surface-100 dark:bg-white/10 overflow-hidden">
+                                    <div
+                                        className="h-full bg-red-500 transition-all"
+                                        style={{ width: `${bulkProgress.total ? (bulkProgress.current / bulkProgress.total) * 100 : 0}%` }}
+                                    />
+                                </div>
+                                <p className="text-xs text-surface-500 text-right">{bulkProgress.current}/{bulkProgress.total}</p>
+                            </div>
+                        )}
+                        <ModalActions>
+                            <Button variant="ghost" onClick={() => setBulkGroup(null)} disabled={!!bulkProgress}>
+                                {t('common.cancel')}
+                            </Button>
+                            <Button
+                                variant="danger"
+                                onClick={runBulkRevoke}
+                                loading={!!bulkProgress}
+                                disabled={bulkTargets.length === 0}
+                                icon={<ShieldOff className="w-4 h-4" />}
+                            >
+                                {t('permissions.bulk.confirm', { count: bulkTargets.length })}
+                            </Button>
+                        </ModalActions>
+                    </div>
+                )}
+            </Modal>
+
+            {/* Baseline preview */}
+            <Modal
+                isOpen={!!baselinePlan}
+                onClose={() => !bulkProgress && setBaselinePlan(null)}
+                title={t('permissions.baseline.previewTitle')}
+                size="lg"
+            >
+                {baselinePlan && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-surface-600 dark:text-surface-400">
+                            {baselinePlan.length === 0
+                                ? t('permissions.baseline.previewEmpty')
+                                : t('permissions.baseline.previewCount', { count: baselinePlan.length })}
+                        </p>
+                        {baselinePlan.length > 0 && (
+                            <div className="max-h-72 overflow-y-auto rounded-xl bg-surface-50 dark:bg-white/5 p-3 space-y-1">
+                                {baselinePlan.map(step => (
+                                    <div key={`${step.packageName}:${step.key}`} className="flex items-center gap-2 text-xs">
+                                        <span className="w-20 shrink-0 text-surface-500">{t(`permissions.groups.${step.group}`)}</span>
+                                        <span className="truncate text-surface-900 dark:text-white">{labelOf(step.packageName)}</span>
+                                        <span className="ml-auto shrink-0 font-mono text-surface-500">
+                                            {step.kind === 'revoke'
+                                                ? t('permissions.baseline.stepRevoke', { permission: step.key.replace('android.permission.', '') })
+                                                : t('permissions.baseline.stepAppop', { op: step.key, mode: step.mode ?? 'default' })}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {bulkProgress && (
+                            <p className="text-xs text-surface-500 text-right">{bulkProgress.current}/{bulkProgress.total}</p>
+                        )}
+                        <ModalActions>
+                            <Button variant="ghost" onClick={() => setBaselinePlan(null)} disabled={!!bulkProgress}>
+                                {t('common.cancel')}
+                            </Button>
+                            <Button
+                                variant="primary"
+                                onClick={runBaseline}
+                                loading={!!bulkProgress}
+                                disabled={baselinePlan.length === 0}
+                                icon={<RotateCcw className="w-4 h-4" />}
+                            >
+                                {t('permissions.baseline.apply')}
+                            </Button>
+                        </ModalActions>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    )
+}
@@ -21,6 +21,8 @@ import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Switch } from '@/components/ui/Switch'
 import { Modal, ModalActions } from '@/components/ui/Modal'
+import { NetworkBlockerPanel } from '@/components/privacy/NetworkBlockerPanel'
+import { TrackerScannerPanel } from '@/components/privacy/TrackerScannerPanel'
 import { shell } from '@/services/adb-client'
 import { useAppStore } from '@/stores/appStore'
 import { useTranslation } from '@/stores/i18nStore'
@@ -419,6 +421,12 @@ export function PrivacyToolsPage() {
         </div>
       </motion.div>
 
+      {/* Per-app network blocking */}
+      <NetworkBlockerPanel />
+
+      {/* Tracker Scanner */}
+      <TrackerScannerPanel />
+
       {/* Quick Actions Modals */}
       <Modal
         isOpen={quickModal === 'telemetry'}
@@ -10,7 +10,13 @@ import {
   Zap,
   Video,
   Circle,
-  Webcam
+  Webcam,
+  Volume2,
+  VolumeX,
+  Keyboard,
+  Hand,
+  Gamepad2,
+  ListVideo
 } from 'lucide-react'
 import { AndroidScreenPowerMode } from '@yume-chan/scrcpy'
 import { Button } from '@/components/ui/Button'
@@ -20,6 +26,11 @@ import { useAppStore } from '@/stores/appStore'
 import { useAdbStore } from '@/stores/adbStore'
 import { useTranslation } from '@/stores/i18nStore'
 import { useScreenRecorder } from '@/hooks/useScreenRecorder'
+import { useMirrorAudio } from '@/hooks/useMirrorAudio'
+import { useMirrorInput } from '@/hooks/useMirrorInput'
+import { useTouchGestures } from '@/hooks/useTouchGestures'
+import { useGamepad } from '@/hooks/useGamepad'
+import { useInputMacros } from '@/hooks/useInputMacros'
 import {
   ScrcpySession,
   QUALITY_PRESETS,
@@ -28,6 +39,11 @@ import {
 } from '@/services/scrcpy-client'
 import { ControlSheet } from '@/components/mirror/ControlSheet'
 import { WebcamOverlay } from '@/components/mirror/WebcamOverlay'
+import { KeyMappingModal } from '@/components/mirror/KeyMappingModal'
+import { GesturesModal } from '@/components/mirror/GesturesModal'
+import { GamepadModal } from '@/components/mirror/GamepadModal'
+import { GamepadLayoutEditor } from '@/components/mirror/GamepadLayoutEditor'
+import { MacrosModal } from '@/components/mirror/MacrosModal'
 
 export function ScreenMirrorPage() {
   const { isConnected } = useAdb()
@@ -53,6 +69,80 @@ export function ScreenMirrorPage() {
   const [isWebcamVisible, setIsWebcamVisible] = useState(false)
 
   const { isRecording, formatDuration, startRecording, stopRecording } = useScreenRecorder()
+  const {
+    isAudioEnabled,
+    isAudioEnabledRef,
+    setAudioEnabled,
+    audioState,
+    onAudioState,
+    isAudioMuted,
+    setAudioMuted,
+    audioVolume,
+    setAudioVolume,
+    applyAudioSettings
+  } = useMirrorAudio(scrcpyRef)
+  const {
+    gestures,
+    isRecordingGesture,
+    pendingGesture,
+    replayingId,
+    recordTouch,
+    startGestureRecording,
+    stopGestureRecording,
+    savePendingGesture,
+    discardPendingGesture,
+    deleteGesture,
+    replay: replayGesture,
+    stopReplay
+  } = useTouchGestures(scrcpyRef)
+  const {
+    macros,
+    isRecordingMacro,
+    pendingMacro,
+    replayState: macroReplayState,
+    recordTouch: recordMacroTouch,
+    recordKey: recordMacroKey,
+    recordText: recordMacroText,
+    startMacroRecording,
+    stopMacroRecording,
+    savePendingMacro,
+    discardPendingMacro,
+    deleteMacro,
+    exportMacro,
+    exportAllMacros,
+    importMacros,
+    replay: replayMacro,
+    stopReplay: stopMacroReplay
+  } = useInputMacros(scrcpyRef)
+  const { keyProfile, saveKeyProfile, canvasHandlers } = useMirrorInput(
+    scrcpyRef,
+    canvasRef,
+    isActive,
+    deviceInfo?.serialNumber || 'default',
+    {
+      onTouch: (action, x, y, pointerId) => {
+        recordTouch(action, x, y, pointerId)
+        recordMacroTouch(action, x, y, pointerId)
+      },
+      onKey: recordMacroKey,
+      onText: recordMacroText
+    }
+  )
+  const [isKeyMappingOpen, setIsKeyMappingOpen] = useState(false)
+  const [isGesturesOpen, setIsGesturesOpen] = useState(false)
+  const [isMacrosOpen, setIsMacrosOpen] = useState(false)
+  const [isGamepadOpen, setIsGamepadOpen] = useState(false)
+  const [isEditingGamepadLayout, setIsEditingGamepadLayout] = useState(false)
+  // Paused while editing: the foreground app must not change under the editor
+  const {
+    mode: gamepadMode,
+    setMode: setGamepadMode,
+    gamepads,
+    packageName: gamepadPackage,
+    detectPackage: detectGamepadPackage,
+    layout: gamepadLayout,
+    saveLayout: saveGamepadLayout
+  } = useGamepad(scrcpyRef, isActive && !isEditingGamepadLayout)
 
   useEffect(() => {
     isAdaptiveEnabledRef.current = isAdaptiveEnabled
@@ -252,9 +342,11 @@ export function ScreenMirrorPage() {
 
       const session = new ScrcpySession(adb, {
         onQualityDegraded: handleQualityDowngrade,
-        onFpsUpdate: setCurrentFps
+        onFpsUpdate: setCurrentFps,
+        onAudioState
       })
       scrcpyRef.current = session
+      applyAudioSettings(session)
 
       session.setClipboardCallback((text) => {
         if (navigator.clipboard && navigator.clipboard.writeText) {
@@ -266,7 +358,7 @@ export function ScreenMirrorPage() {
 
       console.log(`[ScreenMirror] Starting with preset: ${preset}`)
 
-      await session.start(canvasRef.current, { presetName: preset })
+      await session.start(canvasRef.current, { presetName: preset, audio: isAudioEnabledRef.current })
 
       setCurrentPreset(preset)
       setIsActive(true)
@@ -279,7 +371,7 @@ export function ScreenMirrorPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [handleQualityDowngrade, showToast, t, stopControl])
+  }, [handleQualityDowngrade, showToast, t, stopControl, onAudioState, applyAudioSettings, isAudioEnabledRef])
 
   // Effect to handle auto-restart when quality downgrades
   useEffect(() => {
@@ -337,6 +429,22 @@ export function ScreenMirrorPage() {
   }, [isActive, currentPreset, showToast, startControlWithPreset, t])
 
 
+  const handleToggleAudio = useCallback((enabled: boolean) => {
+    setAudioEnabled(enabled)
+    if (!isActive) return
+
+    // The audio stream is negotiated at startup: restart on the same preset
+    showToast({ type: 'info', title: t('screenMirror.audio.restarting') })
+    if (scrcpyRef.current) {
+      scrcpyRef.current.stop()
+      scrcpyRef.current = null
+    }
+    setIsActive(false)
+    setTimeout(() => {
+      startControlWithPreset(currentPreset)
+    }, 100)
+  }, [isActive, currentPreset, setAudioEnabled, showToast, startControlWithPreset, t])
+
   const toggleScreenPower = async () => {
     if (!scrcpyRef.current) return
     const newMode = !isScreenOff ? AndroidScreenPowerMode.Off : AndroidScreenPowerMode.Normal
@@ -363,83 +471,6 @@ export function ScreenMirrorPage() {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange)
   }, [])
 
-  // Normalized coordinates for touch
-  const getNormalizedCoordinates = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return null
-
-    const rect = canvas.getBoundingClientRect()
-    const elementWidth = rect.width
-    const elementHeight = rect.height
-    const videoWidth = canvas.width
-    const videoHeight = canvas.height
-
-    if (!elementWidth || !elementHeight || !videoWidth || !videoHeight) return null
-
-    const elementRatio = elementWidth / elementHeight
-    const videoRatio = videoWidth / videoHeight
-
-    let drawnWidth = elementWidth
-    let drawnHeight = elementHeight
-    let offsetX = 0
-    let offsetY = 0
-
-    if (elementRatio > videoRatio) {
-      drawnWidth = elementHeight * videoRatio
-      offsetX = (elementWidth - drawnWidth) / 2
-    } else {
-      drawnHeight = elementWidth / videoRatio
-      offsetY = (elementHeight - drawnHeight) / 2
-    }
-
-    const clientX = e.clientX - rect.left
-    const clientY = e.clientY - rect.top
-
-    if (clientX < offsetX || clientX > offsetX + drawnWidth ||
-      clientY < offsetY || clientY > offsetY + drawnHeight) {
-      return null
-    }
-
-    const x = (clientX - offsetX) / drawnWidth
-    const y = (clientY - offsetY) / drawnHeight
-
-    return {
-      x: Math.max(0, Math.min(1, x)),
-      y: Math.max(0, Math.min(1, y))
-    }
-  }
-
-  const handlePointerDown = async (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isActive || !scrcpyRef.current || !canvasRef.current) return
-    e.preventDefault()
-    canvasRef.current.setPointerCapture(e.pointerId)
-    const coords = getNormalizedCoordinates(e)
-    if (coords) {
-      await scrcpyRef.current.sendTouch('down', coords.x, coords.y)
-    }
-  }
-
-  const handlePointerMove = async (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isActive || !scrcpyRef.current || !canvasRef.current) return
-    e.preventDefault()
-    if (e.buttons === 0) return
-    const coords = getNormalizedCoordinates(e)
-    if (coords) {
-      await scrcpyRef.current.sendTouch('move', coords.x, coords.y)
-    }
-  }
-
-  const handlePointerUp = async (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isActive || !scrcpyRef.current || !canvasRef.current) return
-    e.preventDefault()
-    canvasRef.current.releasePointerCapture(e.pointerId)
-    const coords = getNormalizedCoordinates(e)
-    if (coords) {
-      await scrcpyRef.current.sendTouch('up', coords.x, coords.y)
-    } else {
-      await scrcpyRef.current.sendTouch('up', 0, 0)
-    }
-  }
 
   const handleScreenshot = async () => {
     if (!canvasRef.current) return
@@ -524,14 +555,48 @@ export function ScreenMirrorPage() {
             )}
 
             {!isActive ? (
-              <Button
-                variant="primary"
-                onClick={startControl}
-                loading={isLoading}
-                icon={<Play className="w-4 h-4" />}
-              >
-                {t('screenMirror.start')}
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsKeyMappingOpen(true)}
+                  icon={<Keyboard className="w-4 h-4" />}
+                >
+                  {t('screenMirror.keys.button')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsGamepadOpen(true)}
+                  icon={<Gamepad2 className={`w-4 h-4 ${gamepadMode !== 'off' ? 'text-accent-500' : ''}`} />}
+                >
+                  {t('screenMirror.gamepad.button')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsMacrosOpen(true)}
+                  icon={<ListVideo className="w-4 h-4" />}
+                >
+                  {t('screenMirror.macros.button')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleToggleAudio(!isAudioEnabled)}
+                  icon={isAudioEnabled ? <Volume2 className="w-4 h-4 text-accent-500" /> : <VolumeX className="w-4 h-4" />}
+                >
+                  {isAudioEnabled ? t('screenMirror.audio.on') : t('screenMirror.audio.off')}
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={startControl}
+                  loading={isLoading}
+                  icon={<Play className="w-4 h-4" />}
+                >
+                  {t('screenMirror.start')}
+                </Button>
+              </div>
             ) : (
               <div className="flex items-center gap-2">
                 <Button
@@ -542,7 +607,7 @@ export function ScreenMirrorPage() {
                       stopRecording()
                       showToast({ type: 'success', title: t('common.success'), message: t('screenMirror.recordingSaved') || 'Recording saved' })
                     } else if (canvasRef.current) {
-                      startRecording(canvasRef.current, `mirror-${deviceInfo?.model || 'device'}`)
+                      startRecording(canvasRef.current, `mirror-${deviceInfo?.model || 'device'}`, scrcpyRef.current?.audioStream)
                     }
                   }}
                   className={isRecording ? 'bg-red-500 hover:bg-red-600 border-red-600 animate-pulse' : ''}
@@ -550,6 +615,66 @@ export function ScreenMirrorPage() {
                 >
                   {isRecording ? formatDuration() : (t('screenMirror.record') || 'Record')}
                 </Button>
+                {isAudioEnabled && audioState === 'playing' && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setAudioMuted(!isAudioMuted)}
+                    icon={isAudioMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4 text-accent-500" />}
+                  >
+                    {isAudioMuted ? t('screenMirror.audio.unmute') : t('screenMirror.audio.mute')}
+                  </Button>
+                )}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsKeyMappingOpen(true)}
+                  icon={<Keyboard className="w-4 h-4" />}
+                >
+                  {t('screenMirror.keys.button')}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsGamepadOpen(true)}
+                  icon={<Gamepad2 className={`w-4 h-4 ${gamepadMode !== 'off' ? 'text-accent-500' : ''}`} />}
+                >
+                  {t('screenMirror.gamepad.button')}
+                </Button>
+                <Button
+                  variant={isRecordingGesture ? "primary" : "secondary"}
+                  size="sm"
+                  onClick={() => {
+                    if (!isRecordingGesture) {
+                      setIsGesturesOpen(true)
+                    } else if (stopGestureRecording()) {
+                      setIsGesturesOpen(true)
+                    } else {
+                      showToast({ type: 'info', title: t('screenMirror.gestures.nothingRecorded') })
+                    }
+                  }}
+                  className={isRecordingGesture ? 'bg-red-500 hover:bg-red-600 border-red-600 animate-pulse' : ''}
+                  icon={isRecordingGesture ? <Square className="w-4 h-4" /> : <Hand className="w-4 h-4" />}
+                >
+                  {isRecordingGesture ? t('screenMirror.gestures.stopRecording') : t('screenMirror.gestures.button')}
+                </Button>
+                <Button
+                  variant={isRecordingMacro ? "primary" : "secondary"}
+                  size="sm"
+                  onClick={() => {
+                    if (!isRecordingMacro) {
+                      setIsMacrosOpen(true)
+                    } else if (stopMacroRecording()) {
+                      setIsMacrosOpen(true)
+                    } else {
+                      showToast({ type: 'info', title: t('screenMirror.macros.nothingRecorded') })
+                    }
+                  }}
+                  className={isRecordingMacro ? 'bg-red-500 hover:bg-red-600 border-red-600 animate-pulse' : ''}
+                  icon={isRecordingMacro ? <Square className="w-4 h-4" /> : <ListVideo className="w-4 h-4" />}
+                >
+                  {isRecordingMacro ? t('screenMirror.macros.stopRecording') : t('screenMirror.macros.button')}
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -650,104 +775,35 @@ export function ScreenMirrorPage() {
             </div>
           )}
 
+          {isActive && isEditingGamepadLayout && gamepadPackage && (
+            <GamepadLayoutEditor
+              canvasRef={canvasRef}
+              packageName={gamepadPackage}
+              controls={gamepadLayout}
+              onSave={(controls) => {
+                saveGamepadLayout(controls)
+                setIsEditingGamepadLayout(false)
+                showToast({ type: 'success', title: t('screenMirror.gamepad.layoutSaved') })
+              }}
+              onClose={() => setIsEditingGamepadLayout(false)}
+            />
+          )}
+
           {/* Canvas */}
           <canvas
             ref={canvasRef}
             tabIndex={0}
-            onContextMenu={async (e) => {
-              e.preventDefault()
-              if (!isActive || !scrcpyRef.current) return
-              await scrcpyRef.current.sendKey(4, 'down') // BACK
-              await scrcpyRef.current.sendKey(4, 'up')
-            }}
-            onPointerDown={(e) => {
-              if (e.button === 2) return
-              e.currentTarget.focus()
-              handlePointerDown(e)
-            }}
-            onPointerMove={handlePointerMove}
-            onPointerUp={handlePointerUp}
-            onPointerLeave={handlePointerUp}
+            {...canvasHandlers}
             onPaste={async (e) => {
               if (!isActive || !scrcpyRef.current) return
               e.preventDefault()
               const text = e.clipboardData.getData('text')
               if (text) {
+                recordMacroText(text)
                 await scrcpyRef.current.setClipboard(text, true)
                 showToast({ type: 'success', title: 'Pasted to device' })
               }
             }}
-            onKeyDown={async (e) => {
-              if (!isActive || !scrcpyRef.current) return
-              // ... existing key logic ...
-              // Copy-paste from original file logic here simplified for readibility
-              // But I should include full logic to not break it
-
-              if (e.code === 'Escape') {
-                e.preventDefault()
-                // In fullscreen, we might want to exit fullscreen?
-                // Or send BACK?
-                // Original code sends BACK on context menu, here let's send BACK
-                await scrcpyRef.current.sendKey(4, 'down')
-                return
-              }
-
-              let keyCode = -1
-              // Map keys
-              switch (e.code) {
-                case 'Enter': keyCode = 66; break
-                case 'Backspace': keyCode = 67; break
-                case 'Tab': keyCode = 61; break
-                case 'ArrowUp': keyCode = 19; break
-                case 'ArrowDown': keyCode = 20; break
-                case 'ArrowLeft': keyCode = 21; break
-                case 'ArrowRight': keyCode = 22; break
-                case 'Delete': keyCode = 112; break
-                case 'Home': keyCode = 3; break
-                case 'PageUp': keyCode = 92; break
-                case 'PageDown': keyCode = 93; break
-              }
-
-              if (keyCode !== -1) {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(keyCode, 'down')
-                return
-              }
-
-              if (e.key.length === 1 && !e.ctrlKey && !e.altKey && !e.metaKey) {
-                e.preventDefault()
-                await scrcpyRef.current.sendText(e.key)
-              }
-            }}
-            onKeyUp={async (e) => {
-              if (!isActive || !scrcpyRef.current) return
-
-              if (e.code === 'Escape') {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(4, 'up')
-                return
-              }
-
-              let keyCode = -1
-              switch (e.code) {
-                case 'Enter': keyCode = 66; break
-                case 'Backspace': keyCode = 67; break
-                case 'Tab': keyCode = 61; break
-                case 'ArrowUp': keyCode = 19; break
-                case 'ArrowDown': keyCode = 20; break
-                case 'ArrowLeft': keyCode = 21; break
-                case 'ArrowRight': keyCode = 22; break
-                case 'Delete': keyCode = 112; break
-                case 'Home': keyCode = 3; break
-                case 'PageUp': keyCode = 92; break
-                case 'PageDown': keyCode = 93; break
-              }
-
-              if (keyCode !== -1) {
-                e.preventDefault()
-                await scrcpyRef.current.sendKey(keyCode, 'up')
-              }
-            }}
             className={`
               block touch-none w-full h-full object-contain outline-none focus:ring-2 focus:ring-accent-500/50 rounded-lg
               ${isActive ? 'cursor-pointer' : 'cursor-default'}
@@ -804,7 +860,7 @@ export function ScreenMirrorPage() {
             stopRecording()
             showToast({ type: 'success', title: t('common.success'), message: t('screenMirror.recordingSaved') || 'Recording saved' })
           } else if (canvasRef.current) {
-            startRecording(canvasRef.current, `mirror-${deviceInfo?.model || 'device'}`)
+            startRecording(canvasRef.current, `mirror-${deviceInfo?.model || 'device'}`, scrcpyRef.current?.audioStream)
             showToast({ type: 'info', title: t('screenMirror.recording') })
           }
         }}
@@ -816,6 +872,104 @@ export function ScreenMirrorPage() {
           const next = shapes[(shapes.indexOf(webcamShape) + 1) % shapes.length]
           setWebcamShape(next)
         }}
+        isAudioEnabled={isAudioEnabled}
+        onToggleAudio={handleToggleAudio}
+        audioState={audioState}
+        isAudioMuted={isAudioMuted}
+        onToggleAudioMute={() => setAudioMuted(!isAudioMuted)}
+        audioVolume={audioVolume}
+        onAudioVolumeChange={setAudioVolume}
+      />
+
+      <GesturesModal
+        isOpen={isGesturesOpen}
+        onClose={() => {
+          setIsGesturesOpen(false)
+          discardPendingGesture()
+        }}
+        gestures={gestures}
+        pendingGesture={pendingGesture}
+        replayingId={replayingId}
+        canReplay={isActive}
+        onRecord={() => {
+          startGestureRecording()
+          setIsGesturesOpen(false)
+          showToast({ type: 'info', title: t('screenMirror.gestures.recordingHint') })
+        }}
+        onReplay={(gesture) => {
+          setIsGesturesOpen(false)
+          replayGesture(gesture)
+        }}
+        onStopReplay={stopReplay}
+        onDelete={deleteGesture}
+        onSavePending={savePendingGesture}
+        onDiscardPending={discardPendingGesture}
+      />
+
+      <MacrosModal
+        isOpen={isMacrosOpen}
+        onClose={() => {
+          setIsMacrosOpen(false)
+          discardPendingMacro()
+        }}
+        macros={macros}
+        pendingMacro={pendingMacro}
+        replayState={macroReplayState}
+        isActive={isActive}
+        onRecord={() => {
+          startMacroRecording()
+          setIsMacrosOpen(false)
+          showToast({ type: 'info', title: t('screenMirror.macros.recordingHint') })
+        }}
+        onReplay={(macro, settings) => {
+          if (settings.method === 'scrcpy') setIsMacrosOpen(false)
+          replayMacro(macro, settings).catch((err: unknown) => {
+            showToast({
+              type: 'error',
+              title: t('screenMirror.macros.replayFailed'),
+              message: err instanceof Error ? err.message : String(err)
+            })
+          })
+        }}
+        onStopReplay={stopMacroReplay}
+        onDelete={deleteMacro}
+        onExport={exportMacro}
+        onExportAll={exportAllMacros}
+        onImport={(file) => {
+          importMacros(file)
+            .then((count) => showToast({ type: 'success', title: t('screenMirror.macros.imported', { count }) }))
+            .catch(() => showToast({ type: 'error', title: t('screenMirror.macros.importFailed') }))
+        }}
+        onSavePending={savePendingMacro}
+        onDiscardPending={discardPendingMacro}
+      />
+
+      <GamepadModal
+        isOpen={isGamepadOpen}
+        onClose={() => setIsGamepadOpen(false)}
+        mode={gamepadMode}
+        onModeChange={setGamepadMode}
+        gamepads={gamepads}
+        isActive={isActive}
+        packageName={gamepadPackage}
+        onDetectPackage={detectGamepadPackage}
+        controlCount={gamepadLayout.length}
+        onEditLayout={() => {
+          setIsGamepadOpen(false)
+          setIsEditingGamepadLayout(true)
+        }}
+        onClearLayout={() => saveGamepadLayout([])}
+      />
+
+      <KeyMappingModal
+        isOpen={isKeyMappingOpen}
+        onClose={() => setIsKeyMappingOpen(false)}
+        profile={keyProfile}
+        onSave={(profile) => {
+          saveKeyProfile(profile)
+          showToast({ type: 'success', title: t('screenMirror.keys.saved') })
+        }}
+        deviceName={deviceInfo?.model}
       />
 
       {/* Webcam Overlay */}
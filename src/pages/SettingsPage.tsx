@@ -21,7 +21,8 @@ import {
   ChevronDown,
   ShieldAlert,
   Smartphone,
-  UserCheck
+  UserCheck,
+  Gauge
 } from 'lucide-react'
 import { useAppStore, type Theme } from '@/stores/appStore'
 import { useAdbStore } from '@/stores/adbStore'
@@ -33,6 +34,9 @@ import { Switch } from '@/components/ui/Switch'
 import { syncUadToSupabase } from '@/services/package-database'
 import { getUserDevices, disassociateDevice, type DeviceUserAssociation } from '@/services/device-auth'
 import { isAdmin, getAppSettings, saveAppSettings, type AppSettings } from '@/config/app'
+import { setCommandConcurrency } from '@/services/command-queue'
+
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8]
 
 const container = {
   hidden: { opacity: 0 },
@@ -105,6 +109,13 @@ export function SettingsPage() {
     })
   }
 
+  const handleChangeConcurrency = (value: number) => {
+    const newSettings = { ...appSettings, commandConcurrency: value }
+    setAppSettings(newSettings)
+    saveAppSettings(newSettings)
+    setCommandConcurrency(value)
+  }
+
   const handleRemoveDevice = async (deviceId: string) => {
     const success = await disassociateDevice(deviceId)
     if (success) {
@@ -308,6 +319,40 @@ export function SettingsPage() {
           </Card>
         </motion.div>
 
+        {/* Command concurrency */}
+        <motion.div variants={item}>
+          <Card variant="default" padding="lg">
+            <CardHeader
+              title={t('settings.commandConcurrency')}
+              subtitle={t('settings.commandConcurrencySubtitle')}
+            />
+            <div className="flex items-start gap-4">
+              <div className="p-2.5 rounded-xl bg-purple-500/10">
+                <Gauge className="w-5 h-5 text-purple-500" strokeWidth={1.5} />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm text-surface-500 mb-3">
+                  {t('settings.commandConcurrencyDesc')}
+                </p>
+                <div className="grid grid-cols-4 gap-2">
+                  {CONCURRENCY_OPTIONS.map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => handleChangeConcurrency(value)}
+                      className={`py-2 rounded-xl border text-sm font-medium transition-colors ${appSettings.commandConcurrency === value
+                        ? 'bg-accent-500/10 border-accent-500/30 text-accent-600 dark:text-accent-400'
+                        : 'bg-surface-50 dark:bg-white/5 border-surface-200 dark:border-white/10 text-surface-600 dark:text-surface-400 hover:border-accent-500/30'
+                        }`}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </Card>
+        </motion.div>
+
         {/* Auto-Login Device - Admin Only */}
         {userIsAdmin && (
           <motion.div variants={item}>
@@ -3,12 +3,18 @@
  * Manages WebUSB connection with Android devices.
  */
 
-import { Adb, AdbDaemonTransport } from '@yume-chan/adb'
+import { Adb, AdbDaemonTransport, LinuxFileType, type AdbSync, type AdbSyncStat } from '@yume-chan/adb'
 import { AdbDaemonWebUsbDeviceManager, AdbDaemonWebUsbDevice } from '@yume-chan/adb-daemon-webusb'
 import AdbWebCredentialStore from '@yume-chan/adb-credential-web'
+import { ConcatStringStream, ReadableStream, TextDecoderStream } from '@yume-chan/stream-extra'
+import { createTcpDevice, connectWirelessDevice, parseNetworkAddress } from './adb-network'
+import { scheduleCommand, type CommandPriority } from './command-queue'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
 import {
   validatePackageName,
+  validateComponentName,
   validateFilePath,
+  validateQuotedPath,
   validateIntegerValue,
   validatePermission,
   validateAppOp,
@@ -18,9 +24,15 @@ import {
 const credentialStore = new AdbWebCredentialStore('ADBZero')
 
 let deviceManager: AdbDaemonWebUsbDeviceManager | undefined
-let currentAdb: Adb | undefined
 
-export type CommandListener = (command: string, result: ShellResult) => void
+/**
+ * Device registry: every authenticated transport, keyed by serial.
+ * Functions without an explicit serial target the active device.
+ */
+const sessions = new Map<string, Adb>()
+let activeSerial: string | undefined
+
+export type CommandListener = (command: string, result: ShellResult, serial?: string) => void
 const commandListeners = new Set<CommandListener>()
 
 export function addCommandListener(listener: CommandListener) {
@@ -31,6 +43,44 @@ export function removeCommandListener(listener: CommandListener) {
   commandListeners.delete(listener)
 }
 
+export type DeviceRegistryListener = (serials: string[], activeSerial: string | undefined) => void
+const registryListeners = new Set<DeviceRegistryListener>()
+
+export function addDeviceRegistryListener(listener: DeviceRegistryListener) {
+  registryListeners.add(listener)
+}
+
+export function removeDeviceRegistryListener(listener: DeviceRegistryListener) {
+  registryListeners.delete(listener)
+}
+
+function notifyRegistry() {
+  const serials = [...sessions.keys()]
+  registryListeners.forEach((listener) => listener(serials, activeSerial))
+}
+
+function registerSession(adb: Adb): Adb {
+  const serial = adb.serial
+  sessions.set(serial, adb)
+  activeSerial = serial
+
+  // Unplugged or closed: drop it from the registry
+  adb.disconnected.then(() => {
+    if (sessions.get(serial) !== adb) return
+    sessions.delete(serial)
+    if (activeSerial === serial) activeSerial = sessions.keys().next().value
+    notifyRegistry()
+  }).catch(() => undefined)
+
+  notifyRegistry()
+  return adb
+}
+
+function resolveAdb(serial?: string): Adb | undefined {
+  const key = serial ?? activeSerial
+  return key ? sessions.get(key) : undefined
+}
+
 export interface DeviceInfo {
   model: string
   manufacturer: string
@@ -41,6 +91,10 @@ export interface DeviceInfo {
   batteryStatus: string
   screenResolution: string
   screenDensity: string
+  /** Supported ABIs in preference order (ro.product.cpu.abilist) */
+  abis: string[]
+  /** Primary locale as BCP-47 tag, e.g. "en-US" */
+  locale: string
   isRooted: boolean
 }
 
@@ -80,7 +134,59 @@ export async function initializeAdbManager(): Promise<boolean> {
   }
 }
 
-export async function connectDevice(onStatusChange?: (status: 'authorizing') => void): Promise<Adb | null> {
+/**
+ * How to reach a device: WebUSB, a legacy `adb tcpip` daemon or
+ * Android 11+ wireless debugging (both network modes go through the bridge).
+ */
+export type ConnectTarget =
+  | { transport: 'usb' }
+  | { transport: 'tcp'; address: string }
+  | { transport: 'wireless'; address: string }
+
+export type DeviceTransport = ConnectTarget['transport']
+
+async function connectNetworkDevice(
+  target: Exclude<ConnectTarget, { transport: 'usb' }>,
+  onStatusChange?: (status: 'authorizing') => void
+): Promise<Adb> {
+  if (target.transport === 'wireless') {
+    onStatusChange?.('authorizing')
+    const adb = await connectWirelessDevice(target.address)
+    return sessions.get(adb.serial) ?? registerSession(adb)
+  }
+
+  const device = createTcpDevice(target.address)
+  const existing = sessions.get(device.serial)
+  if (existing) {
+    setActiveDevice(device.serial)
+    return existing
+  }
+
+  const connection = await device.connect()
+  onStatusChange?.('authorizing')
+
+  const transport = await AdbDaemonTransport.authenticate({
+    serial: device.serial,
+    connection,
+    credentialStore,
+  })
+
+  return registerSession(new Adb(transport))
+}
+
+export async function connectDevice(
+  onStatusChange?: (status: 'authorizing') => void,
+  target: ConnectTarget = { transport: 'usb' }
+): Promise<Adb | null> {
+  if (target.transport !== 'usb') {
+    try {
+      return await connectNetworkDevice(target, onStatusChange)
+    } catch (error) {
+      console.error('Network connect error:', error)
+      throw error
+    }
+  }
+
   if (!deviceManager) {
     const initialized = await initializeAdbManager()
     if (!initialized) {
@@ -94,6 +200,13 @@ export async function connectDevice(onStatusChange?: (status: 'authorizing') =>
     const device = await deviceManager!.requestDevice()
     if (!device) return null
 
+    // Already in the registry: just make it the active one
+    const existing = sessions.get(device.serial)
+    if (existing) {
+      setActiveDevice(device.serial)
+      return existing
+    }
+
     const connection = await device.connect()
     onStatusChange?.('authorizing')
 
@@ -103,83 +216,233 @@ export async function connectDevice(onStatusChange?: (status: 'authorizing') =>
       credentialStore,
     })
 
-    const adb = new Adb(transport)
-    currentAdb = adb
-    return adb
+    return registerSession(new Adb(transport))
   } catch (error) {
     console.error('Device connect error:', error)
-    currentAdb = undefined
     throw error
   }
 }
 
-export async function disconnectDevice(): Promise<void> {
-  if (currentAdb) {
+/**
+ * Closes a device transport. Without a serial, closes the active device.
+ */
+export async function disconnectDevice(serial?: string): Promise<void> {
+  const key = serial ?? activeSerial
+  const adb = key ? sessions.get(key) : undefined
+
+  if (key) {
+    sessions.delete(key)
+    if (activeSerial === key) activeSerial = sessions.keys().next().value
+  }
+
+  if (adb) {
     try {
-      await currentAdb.close()
+      await adb.close()
     } catch (error) {
       console.error('ADB close error:', error)
     }
   }
 
-  currentAdb = undefined
+  notifyRegistry()
 }
 
-export function isDeviceConnected(): boolean {
-  return currentAdb !== undefined
+export async function disconnectAllDevices(): Promise<void> {
+  for (const serial of [...sessions.keys()]) {
+    await disconnectDevice(serial)
+  }
 }
 
-export function getAdb(): Adb | undefined {
-  return currentAdb
+export function isDeviceConnected(serial?: string): boolean {
+  return resolveAdb(serial) !== undefined
 }
 
-export async function shell(command: string): Promise<ShellResult> {
-  if (!currentAdb) {
-    throw new Error('No connected device')
+export function getAdb(serial?: string): Adb | undefined {
+  return resolveAdb(serial)
+}
+
+export function getConnectedSerials(): string[] {
+  return [...sessions.keys()]
+}
+
+export function getActiveDeviceSerial(): string | undefined {
+  return activeSerial
+}
+
+export function setActiveDevice(serial: string): void {
+  if (!sessions.has(serial)) {
+    throw new Error(`Device ${serial} is not connected`)
+  }
+  activeSerial = serial
+  notifyRegistry()
+}
+
+export interface ShellOptions {
+  /** Milliseconds before the command is killed (ADB_COMMAND_TIMEOUT by default, 0 disables it) */
+  timeout?: number
+  /** Aborting rejects with an AbortError and kills the command on the device */
+  signal?: AbortSignal
+  /** Batch loops use `low` so interface refreshes don't wait behind them */
+  priority?: CommandPriority
+}
+
+async function spawnShellCommand(adb: Adb, command: string, signal: AbortSignal): Promise<ShellResult> {
+  if (!adb.subprocess || !adb.subprocess.shellProtocol) {
+    throw new Error('ADB Shell Protocol not supported')
   }
 
+  const process = await adb.subprocess.shellProtocol.spawn(command, signal)
+  const kill = () => { void process.kill() }
+  signal.addEventListener('abort', kill, { once: true })
+
   try {
-    if (!currentAdb.subprocess || !currentAdb.subprocess.shellProtocol) {
-      throw new Error('ADB Shell Protocol not supported')
-    }
+    const [stdout, stderr, exitCode] = await Promise.all([
+      process.stdout.pipeThrough(new TextDecoderStream()).pipeThrough(new ConcatStringStream()),
+      process.stderr.pipeThrough(new TextDecoderStream()).pipeThrough(new ConcatStringStream()),
+      process.exited,
+    ])
+    return { exitCode, stdout, stderr }
+  } finally {
+    signal.removeEventListener('abort', kill)
+  }
+}
 
-    const { stdout, stderr, exitCode } = await currentAdb.subprocess.shellProtocol.spawnWaitText(command)
-    const result: ShellResult = { exitCode, stdout, stderr }
-    commandListeners.forEach((listener) => listener(command, result))
-    return result
+/**
+ * Runs a shell command through the command queue. Failures, timeouts and
+ * cancellations from the queue panel resolve with exit code 1; only an abort
+ * of the caller's own signal rejects (with an AbortError).
+ */
+export async function shell(command: string, serial?: string, options: ShellOptions = {}): Promise<ShellResult> {
+  const adb = resolveAdb(serial)
+  if (!adb) {
+    throw new Error('No connected device')
+  }
+
+  const notify = (result: ShellResult) => {
+    commandListeners.forEach((listener) => listener(command, result, adb.serial))
+  }
+
+  let result: ShellResult
+  try {
+    result = await scheduleCommand((signal) => spawnShellCommand(adb, command, signal), {
+      serial: adb.serial,
+      label: command,
+      priority: options.priority,
+      timeout: options.timeout,
+      signal: options.signal,
+      isFailure: (value) => value.exitCode !== 0,
+      // Retries from the queue panel land in the command log like the first run
+      onRetry: (retried) => { retried.then(notify, (error) => notify(shellErrorResult(error))) },
+    })
   } catch (error) {
+    if (options.signal?.aborted) throw error
     console.error('Shell command error:', error)
-    const result: ShellResult = {
-      exitCode: 1,
-      stdout: '',
-      stderr: error instanceof Error ? error.message : 'Unknown error',
+    result = shellErrorResult(error)
+  }
+
+  notify(result)
+  return result
+}
+
+function shellErrorResult(error: unknown): ShellResult {
+  return {
+    exitCode: 1,
+    stdout: '',
+    stderr: error instanceof Error ? error.message : 'Unknown error',
+  }
+}
+
+export interface InteractiveShell {
+  /** Raw PTY output (stdout and stderr are merged by the PTY) */
+  output: ReadableStream<Uint8Array>
+  /** Resolves with the exit code (undefined on the legacy protocol) */
+  exited: Promise<number | undefined>
+  /** False on devices without the shell protocol: window size can't be changed */
+  supportsResize: boolean
+  write(data: string | Uint8Array): Promise<void>
+  resize(cols: number, rows: number): Promise<void>
+  interrupt(): Promise<void>
+  kill(): Promise<void>
+}
+
+export interface InteractiveShellOptions {
+  cols: number
+  rows: number
+  serial?: string
+  /** Command to run inside the PTY instead of the login shell */
+  command?: string
+}
+
+/**
+ * Opens an interactive PTY session (`adb shell` with a terminal).
+ * Uses the shell protocol for window-size messages, falling back to the
+ * legacy protocol on old devices.
+ */
+export async function openInteractiveShell(options: InteractiveShellOptions): Promise<InteractiveShell> {
+  const adb = resolveAdb(options.serial)
+  if (!adb) {
+    throw new Error('No connected device')
+  }
+
+  const encoder = new TextEncoder()
+  const shellProtocol = adb.subprocess.shellProtocol
+  const pty = shellProtocol
+    ? await shellProtocol.pty({ command: options.command, terminalType: 'xterm-256color' })
+    : await adb.subprocess.noneProtocol.pty(options.command)
+
+  const writer = pty.input.getWriter()
+  const write = async (data: string | Uint8Array) => {
+    await writer.write(typeof data === 'string' ? encoder.encode(data) : data)
+  }
+
+  const resize = async (cols: number, rows: number) => {
+    if ('resize' in pty) {
+      await pty.resize(rows, cols)
     }
-    commandListeners.forEach((listener) => listener(command, result))
-    return result
+  }
+
+  await resize(options.cols, options.rows)
+
+  const exited = (pty.exited as Promise<number | undefined>).finally(() => {
+    writer.releaseLock()
+  })
+
+  return {
+    output: pty.output,
+    exited,
+    supportsResize: !!shellProtocol,
+    write,
+    resize,
+    // ETX goes through the PTY line discipline, which delivers SIGINT to the foreground job
+    interrupt: () => write('\x03'),
+    kill: async () => {
+      await pty.kill()
+    },
   }
 }
 
-async function checkRootAccess(): Promise<boolean> {
+async function checkRootAccess(serial?: string): Promise<boolean> {
   try {
-    const result = await shell('su -c id')
+    const result = await shell('su -c id', serial)
     return result.exitCode === 0 && result.stdout.includes('uid=0(root)')
   } catch {
     return false
   }
 }
 
-export async function getDeviceInfo(): Promise<DeviceInfo> {
+export async function getDeviceInfo(serial?: string): Promise<DeviceInfo> {
   const props = await Promise.all([
-    shell('getprop ro.product.model'),
-    shell('getprop ro.product.manufacturer'),
-    shell('getprop ro.build.version.release'),
-    shell('getprop ro.build.version.sdk'),
-    shell('getprop ro.serialno'),
-    shell('cat /sys/class/power_supply/battery/capacity 2>/dev/null || echo 0'),
-    shell('cat /sys/class/power_supply/battery/status 2>/dev/null || echo Unknown'),
-    shell('wm size'),
-    shell('wm density'),
-    checkRootAccess(),
+    shell('getprop ro.product.model', serial),
+    shell('getprop ro.product.manufacturer', serial),
+    shell('getprop ro.build.version.release', serial),
+    shell('getprop ro.build.version.sdk', serial),
+    shell('getprop ro.serialno', serial),
+    shell('cat /sys/class/power_supply/battery/capacity 2>/dev/null || echo 0', serial),
+    shell('cat /sys/class/power_supply/battery/status 2>/dev/null || echo Unknown', serial),
+    shell('wm size', serial),
+    shell('wm density', serial),
+    shell('getprop ro.product.cpu.abilist', serial),
+    shell('getprop persist.sys.locale; getprop ro.product.locale', serial),
+    checkRootAccess(serial),
   ])
 
   const sizeMatch = props[7].stdout.match(/(\d+x\d+)/)
@@ -195,12 +458,14 @@ export async function getDeviceInfo(): Promise<DeviceInfo> {
     batteryStatus: props[6].stdout.trim() || 'Unknown',
     screenResolution: sizeMatch ? sizeMatch[1] : 'Unknown',
     screenDensity: densityMatch ? densityMatch[1] : 'Unknown',
-    isRooted: props[9] as boolean,
+    abis: props[9].stdout.trim().split(',').map((abi) => abi.trim()).filter(Boolean),
+    locale: props[10].stdout.split('\n').map((line) => line.trim()).find(Boolean) || 'en-US',
+    isRooted: props[11] as boolean,
   }
 }
 
-export async function listPackages(): Promise<PackageInfo[]> {
-  const result = await shell('pm list packages -f -u')
+export async function listPackages(serial?: string): Promise<PackageInfo[]> {
+  const result = await shell('pm list packages -f -u', serial)
   if (result.exitCode !== 0) {
     throw new Error('Unable to load package list')
   }
@@ -235,7 +500,7 @@ export async function listPackages(): Promise<PackageInfo[]> {
     })
   }
 
-  const disabledResult = await shell('pm list packages -d')
+  const disabledResult = await shell('pm list packages -d', serial)
   const disabledPackages = new Set(
     disabledResult.stdout
       .split('\n')
@@ -243,7 +508,7 @@ export async function listPackages(): Promise<PackageInfo[]> {
       .map((line) => line.replace('package:', '').trim())
   )
 
-  const installedResult = await shell('pm list packages')
+  const installedResult = await shell('pm list packages', serial)
   const installedPackages = new Set(
     installedResult.stdout
       .split('\n')
@@ -257,10 +522,10 @@ export async function listPackages(): Promise<PackageInfo[]> {
     pkg.isEnabled = !isDisabled && !isUninstalled
   }
 
-  return filterGhostPackages(packages)
+  return filterGhostPackages(packages, serial)
 }
 
-async function filterGhostPackages(packages: PackageInfo[]): Promise<PackageInfo[]> {
+async function filterGhostPackages(packages: PackageInfo[], serial?: string): Promise<PackageInfo[]> {
   if (packages.length === 0) return packages
 
   const packageNames = packages.map((pkg) => pkg.packageName)
@@ -284,7 +549,7 @@ async function filterGhostPackages(packages: PackageInfo[]): Promise<PackageInfo
 
     // Compact output: only valid package names, no visual separators.
     const batchCmd = `for p in ${packageArgs}; do if pm path "$p" 2>/dev/null | head -1 >/dev/null; then printf "%s " "$p"; fi; done`
-    const result = await shell(batchCmd)
+    const result = await shell(batchCmd, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
 
     const validNames = result.stdout
       .split(/\s+/)
@@ -300,9 +565,24 @@ async function filterGhostPackages(packages: PackageInfo[]): Promise<PackageInfo
   return validPackages
 }
 
-export async function disablePackage(packageName: string): Promise<ShellResult> {
+/** Prefix of a disablePackage result that fell back to `pm uninstall -k` */
+export const UNINSTALL_FALLBACK_PREFIX = '[Fallback: uninstall]'
+
+/**
+ * Strict pm check: a zero exit code plus the marker each verb prints on
+ * success (`Success` for uninstall and the disable fallback, `new state:` for
+ * enable/disable, `installed for user` for install-existing and the
+ * `[Reinstall]` fallback). Old releases exit 0 on "Failure [not installed
+ * for 0]", so any Failure or Exception in the output is a failure.
+ */
+export function isPmSuccess(result: ShellResult): boolean {
+  if (result.exitCode !== 0 || /Failure|Exception/.test(result.stdout)) return false
+  return /\bSuccess\b|new state:|installed for user/.test(result.stdout)
+}
+
+export async function disablePackage(packageName: string, serial?: string, options?: ShellOptions): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
-  const disableResult = await shell(`pm disable-user --user 0 ${safeName}`)
+  const disableResult = await shell(`pm disable-user --user 0 ${safeName}`, serial, options)
 
   if (
     disableResult.exitCode === 0 &&
@@ -312,11 +592,11 @@ export async function disablePackage(packageName: string): Promise<ShellResult>
     return disableResult
   }
 
-  const uninstallResult = await shell(`pm uninstall -k --user 0 ${safeName}`)
+  const uninstallResult = await shell(`pm uninstall -k --user 0 ${safeName}`, serial, options)
   if (uninstallResult.exitCode === 0 || uninstallResult.stdout.includes('Success')) {
     return {
       exitCode: 0,
-      stdout: `[Fallback: uninstall] ${uninstallResult.stdout}`.trim(),
+      stdout: `${UNINSTALL_FALLBACK_PREFIX} ${uninstallResult.stdout}`.trim(),
       stderr: uninstallResult.stderr,
     }
   }
@@ -328,15 +608,15 @@ export async function disablePackage(packageName: string): Promise<ShellResult>
   }
 }
 
-export async function enablePackage(packageName: string): Promise<ShellResult> {
+export async function enablePackage(packageName: string, serial?: string, options?: ShellOptions): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
-  const enableResult = await shell(`pm enable ${safeName}`)
+  const enableResult = await shell(`pm enable ${safeName}`, serial, options)
 
   if (enableResult.exitCode === 0 && enableResult.stdout.includes('new state')) {
     return enableResult
   }
 
-  const installResult = await shell(`pm install-existing ${safeName}`)
+  const installResult = await shell(`pm install-existing ${safeName}`, serial, options)
   if (installResult.exitCode === 0 || installResult.stdout.includes('installed')) {
     return {
       exitCode: 0,
@@ -352,9 +632,9 @@ export async function enablePackage(packageName: string): Promise<ShellResult> {
   }
 }
 
-export async function uninstallPackage(packageName: string): Promise<ShellResult> {
+export async function uninstallPackage(packageName: string, serial?: string, options?: ShellOptions): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
-  return shell(`pm uninstall -k --user 0 ${safeName}`)
+  return shell(`pm uninstall -k --user 0 ${safeName}`, serial, options)
 }
 
 export async function uninstallPackageRoot(packageName: string, apkPath: string): Promise<ShellResult> {
@@ -399,9 +679,54 @@ export async function uninstallPackageRoot(packageName: string, apkPath: string)
   }
 }
 
-export async function reinstallPackage(packageName: string): Promise<ShellResult> {
+export async function reinstallPackage(packageName: string, serial?: string, options?: ShellOptions): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
-  return shell(`pm install-existing ${safeName}`)
+  return shell(`pm install-existing ${safeName}`, serial, options)
+}
+
+/**
+ * `pm enable|disable` on a single component. The shell user may not change
+ * component states on recent Android versions, so a SecurityException is
+ * retried through su (rooted devices only).
+ */
+async function setComponentState(
+  packageName: string,
+  component: string,
+  action: 'enable' | 'disable',
+  serial?: string,
+  options?: ShellOptions
+): Promise<ShellResult> {
+  const safeComponent = validateComponentName(packageName, component)
+  const command = `pm ${action} --user 0 "${escapeShellArg(safeComponent)}"`
+  const result = await shell(command, serial, options)
+
+  if (result.exitCode === 0 && result.stdout.includes('new state')) {
+    return result
+  }
+
+  const output = `${result.stdout}${result.stderr}`
+  if (!output.includes('SecurityException')) {
+    return { ...result, exitCode: result.exitCode || 1 }
+  }
+
+  const rootResult = await shell(`su -c '${command}'`, serial, options)
+  if (rootResult.exitCode === 0 && rootResult.stdout.includes('new state')) {
+    return { ...rootResult, stdout: `[Root] ${rootResult.stdout}`.trim() }
+  }
+
+  return {
+    exitCode: 1,
+    stdout: result.stdout,
+    stderr: `${action} ${safeComponent} needs root: ${(result.stderr || result.stdout).trim()}`,
+  }
+}
+
+export async function disableComponent(packageName: string, component: string, serial?: string, options?: ShellOptions): Promise<ShellResult> {
+  return setComponentState(packageName, component, 'disable', serial, options)
+}
+
+export async function enableComponent(packageName: string, component: string, serial?: string, options?: ShellOptions): Promise<ShellResult> {
+  return setComponentState(packageName, component, 'enable', serial, options)
 }
 
 export async function setScreenResolution(width: number, height: number): Promise<ShellResult> {
@@ -420,22 +745,24 @@ export async function resetScreenSettings(): Promise<void> {
   await shell('wm density reset')
 }
 
-export async function grantPermission(packageName: string, permission: string): Promise<ShellResult> {
+export async function grantPermission(packageName: string, permission: string, serial?: string): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
   const safePerm = validatePermission(permission)
-  return shell(`pm grant ${safeName} ${safePerm}`)
+  return shell(`pm grant ${safeName} ${safePerm}`, serial)
 }
 
-export async function revokePermission(packageName: string, permission: string): Promise<ShellResult> {
+export async function revokePermission(packageName: string, permission: string, serial?: string): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
   const safePerm = validatePermission(permission)
-  return shell(`pm revoke ${safeName} ${safePerm}`)
+  return shell(`pm revoke ${safeName} ${safePerm}`, serial)
 }
 
-export async function setAppOps(packageName: string, op: string, mode: 'allow' | 'deny' | 'default'): Promise<ShellResult> {
+export type AppOpMode = 'allow' | 'ignore' | 'deny' | 'default' | 'foreground'
+
+export async function setAppOps(packageName: string, op: string, mode: AppOpMode, serial?: string): Promise<ShellResult> {
   const safeName = validatePackageName(packageName)
   const safeOp = validateAppOp(op)
-  return shell(`appops set ${safeName} ${safeOp} ${mode}`)
+  return shell(`appops set ${safeName} ${safeOp} ${mode}`, serial)
 }
 
 export async function getAuthorizedDevices(): Promise<AdbDaemonWebUsbDevice[]> {
@@ -452,7 +779,23 @@ export async function getAuthorizedDevices(): Promise<AdbDaemonWebUsbDevice[]> {
   }
 }
 
-export async function reconnectDevice(device: AdbDaemonWebUsbDevice): Promise<Adb | null> {
+export async function reconnectDevice(device: AdbDaemonWebUsbDevice | ConnectTarget): Promise<Adb | null> {
+  if (!(device instanceof AdbDaemonWebUsbDevice)) {
+    if (device.transport === 'usb') return null
+    try {
+      return await connectNetworkDevice(device)
+    } catch (error) {
+      console.error('Reconnect error:', error)
+      return null
+    }
+  }
+
+  const existing = sessions.get(device.serial)
+  if (existing) {
+    setActiveDevice(device.serial)
+    return existing
+  }
+
   try {
     const connection = await device.connect()
 
@@ -462,26 +805,241 @@ export async function reconnectDevice(device: AdbDaemonWebUsbDevice): Promise<Ad
       credentialStore,
     })
 
-    const adb = new Adb(transport)
-    currentAdb = adb
-    return adb
+    return registerSession(new Adb(transport))
   } catch (error) {
     console.error('Reconnect error:', error)
-    currentAdb = undefined
     return null
   }
 }
 
+/**
+ * Returns the device's Wi-Fi IPv4 address, if any
+ */
+export async function getWifiAddress(serial?: string): Promise<string | null> {
+  const result = await shell('ip -f inet addr show wlan0', serial)
+  const match = result.stdout.match(/inet (\d+\.\d+\.\d+\.\d+)/)
+  return match ? match[1] : null
+}
+
+/**
+ * `adb tcpip <port>`: restarts adbd listening on TCP (the USB session drops).
+ * Returns the address to connect to over the network.
+ */
+export async function enableTcpip(port = 5555, serial?: string): Promise<string> {
+  const adb = resolveAdb(serial)
+  if (!adb) throw new Error('No connected device')
+
+  const safePort = validateIntegerValue(port, 1024, 65535, 'port')
+  const ip = await getWifiAddress(adb.serial)
+  if (!ip) throw new Error('Device is not connected to Wi-Fi')
+
+  await adb.tcpip.setPort(safePort)
+  return `${ip}:${safePort}`
+}
+
+/**
+ * Whether a serial belongs to a network transport (`host:port`)
+ */
+export function isNetworkSerial(serial: string): boolean {
+  try {
+    return /:\d+$/.test(serial) && parseNetworkAddress(serial).port > 0
+  } catch {
+    return false
+  }
+}
+
+export type TransferProgressCallback = (progress: number, transferred: number, total: number) => void
+
+export interface PushOptions {
+  /** Target device serial (defaults to the active device) */
+  serial?: string
+  /** Aborts the transfer; the partially written remote file is removed. */
+  signal?: AbortSignal
+  /** Unix permission bits of the remote file (default 0o644). */
+  mode?: number
+  /** Modification time in seconds. Defaults to `File.lastModified` when available. */
+  mtime?: number
+}
+
+export interface PullOptions {
+  serial?: string
+  signal?: AbortSignal
+  onProgress?: TransferProgressCallback
+}
+
+export interface RemoteFileStat {
+  mode: number
+  permission: number
+  size: number
+  mtime: number
+  isDirectory: boolean
+  isSymlink: boolean
+}
+
+const SYNC_CHUNK_SIZE = 64 * 1024
+// Bytes per `dd | base64` command when pulling without the sync service
+const SHELL_PULL_CHUNK_SIZE = 512 * 1024
+const DEFAULT_PUSH_MODE = 0o644
+
+function createAbortError(): Error {
+  return new DOMException('Transfer aborted', 'AbortError')
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw createAbortError()
+}
+
+// Transfer paths come from validateQuotedPath: single quotes keep `!` and `~` literal
+function quotePath(path: string): string {
+  return `'${path.replace(/'/g, `'\\''`)}'`
+}
+
+function notifyTransfer(command: string, result: ShellResult, serial: string) {
+  commandListeners.forEach((listener) => listener(command, result, serial))
+}
+
+/**
+ * Opens a sync session. Returns null only when the device does not expose the
+ * sync service, so callers can fall back to the legacy shell transfer.
+ */
+async function openSync(adb: Adb): Promise<AdbSync | null> {
+  try {
+    return await adb.sync()
+  } catch (error) {
+    console.warn('ADB sync service unavailable, falling back to shell transfer:', error)
+    return null
+  }
+}
+
+/**
+ * Wraps a Uint8Array or Blob into a pull-based stream so that progress reflects
+ * what the sync writer has actually consumed (backpressure included).
+ */
+function createSourceStream(
+  source: Uint8Array | Blob,
+  signal: AbortSignal | undefined,
+  onChunk: (size: number) => void
+): ReadableStream<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    let offset = 0
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (signal?.aborted) {
+          controller.error(createAbortError())
+          return
+        }
+        if (offset >= source.length) {
+          controller.close()
+          return
+        }
+        const chunk = source.subarray(offset, offset + SYNC_CHUNK_SIZE)
+        offset += chunk.length
+        onChunk(chunk.length)
+        controller.enqueue(chunk)
+      },
+    })
+  }
+
+  const reader = source.stream().getReader()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (signal?.aborted) {
+        await reader.cancel().catch(() => undefined)
+        controller.error(createAbortError())
+        return
+      }
+      const { done, value } = await reader.read()
+      if (done) {
+        controller.close()
+        return
+      }
+      onChunk(value.length)
+      controller.enqueue(value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
+
+async function blobToBytes(source: Uint8Array | Blob): Promise<Uint8Array> {
+  return source instanceof Uint8Array ? source : new Uint8Array(await source.arrayBuffer())
+}
+
 export async function pushFile(
-  data: Uint8Array,
+  data: Uint8Array | Blob,
   remotePath: string,
-  onProgress?: (progress: number) => void
+  onProgress?: TransferProgressCallback,
+  options: PushOptions = {}
 ): Promise<void> {
-  if (!currentAdb) throw new Error('No connected device')
+  const adb = resolveAdb(options.serial)
+  if (!adb) throw new Error('No connected device')
 
-  const safePath = validateFilePath(remotePath, ['/data/local/tmp/', '/sdcard/', '/storage/'])
+  const safePath = validateQuotedPath(remotePath, ['/data/local/tmp/', '/sdcard/', '/storage/'])
+  const { signal } = options
+  throwIfAborted(signal)
 
-  onProgress?.(0.1)
+  const total = data instanceof Uint8Array ? data.length : data.size
+  const mode = options.mode ?? DEFAULT_PUSH_MODE
+  const mtime = options.mtime ?? (data instanceof File ? Math.floor(data.lastModified / 1000) : Math.floor(Date.now() / 1000))
+
+  const sync = await openSync(adb)
+  if (!sync) {
+    await pushFileViaShell(await blobToBytes(data), safePath, onProgress, signal, adb.serial)
+    return
+  }
+
+  let transferred = 0
+  onProgress?.(0, 0, total)
+
+  const abortTransfer = () => {
+    sync.dispose().catch(() => undefined)
+  }
+  signal?.addEventListener('abort', abortTransfer, { once: true })
+
+  try {
+    const file = createSourceStream(data, signal, (size) => {
+      transferred += size
+      onProgress?.(total > 0 ? transferred / total : 1, transferred, total)
+    })
+
+    await sync.write({
+      filename: safePath,
+      file,
+      permission: mode,
+      mtime,
+    })
+
+    notifyTransfer(`sync push ${safePath} (${total} bytes)`, { exitCode: 0, stdout: '' }, adb.serial)
+    onProgress?.(1, total, total)
+  } catch (error) {
+    const aborted = signal?.aborted
+    notifyTransfer(`sync push ${safePath}`, {
+      exitCode: 1,
+      stdout: '',
+      stderr: aborted ? 'Transfer aborted' : error instanceof Error ? error.message : 'Unknown error',
+    }, adb.serial)
+    await shell(`rm -f ${quotePath(safePath)}`, adb.serial).catch(() => undefined)
+    throw aborted ? createAbortError() : error
+  } finally {
+    signal?.removeEventListener('abort', abortTransfer)
+    await sync.dispose().catch(() => undefined)
+  }
+}
+
+/**
+ * Legacy transfer used when the sync service is not available:
+ * base64 chunks echoed through the shell.
+ */
+async function pushFileViaShell(
+  data: Uint8Array,
+  safePath: string,
+  onProgress?: TransferProgressCallback,
+  signal?: AbortSignal,
+  serial?: string
+): Promise<void> {
+  const total = data.length
+  onProgress?.(0.1, 0, total)
 
   let binaryString = ''
   const chunkFullSize = 8192
@@ -491,41 +1049,198 @@ export async function pushFile(
   }
   const base64 = btoa(binaryString)
 
-  onProgress?.(0.3)
+  onProgress?.(0.3, 0, total)
 
   const chunkSize = 50000
   const chunks = Math.ceil(base64.length / chunkSize)
 
   if (chunks === 1) {
-    await shell(`echo "${base64}" | base64 -d > "${escapeShellArg(safePath)}"`)
+    await shell(`echo "${base64}" | base64 -d > ${quotePath(safePath)}`, serial)
   } else {
-    await shell(`> "${escapeShellArg(safePath)}"`)
+    await shell(`> ${quotePath(safePath)}`, serial)
     for (let i = 0; i < chunks; i++) {
+      if (signal?.aborted) {
+        await shell(`rm -f ${quotePath(safePath)}`, serial).catch(() => undefined)
+        throw createAbortError()
+      }
       const chunk = base64.slice(i * chunkSize, (i + 1) * chunkSize)
-      await shell(`echo "${chunk}" | base64 -d >> "${escapeShellArg(safePath)}"`)
-      onProgress?.(0.3 + (0.6 * (i + 1) / chunks))
+      await shell(`echo "${chunk}" | base64 -d >> ${quotePath(safePath)}`, serial)
+      const fraction = (i + 1) / chunks
+      onProgress?.(0.3 + 0.6 * fraction, Math.round(total * fraction), total)
     }
   }
 
-  onProgress?.(1)
+  onProgress?.(1, total, total)
+}
+
+function toRemoteStat(stat: AdbSyncStat): RemoteFileStat {
+  return {
+    mode: stat.mode,
+    permission: stat.permission,
+    size: Number(stat.size),
+    mtime: Number(stat.mtime),
+    isDirectory: stat.type === LinuxFileType.Directory,
+    isSymlink: stat.type === LinuxFileType.Link,
+  }
 }
 
-export async function pullFile(remotePath: string): Promise<Uint8Array> {
-  if (!currentAdb) throw new Error('No connected device')
+export async function statFile(remotePath: string, serial?: string): Promise<RemoteFileStat | null> {
+  const adb = resolveAdb(serial)
+  if (!adb) throw new Error('No connected device')
 
-  const safePath = validateFilePath(remotePath)
-  const result = await shell(`base64 "${escapeShellArg(safePath)}"`)
+  const safePath = validateQuotedPath(remotePath)
+  const sync = await openSync(adb)
+  if (!sync) return null
 
-  if (result.exitCode !== 0) {
-    throw new Error(result.stderr || 'Failed to read file')
+  try {
+    return toRemoteStat(await sync.lstat(safePath))
+  } catch {
+    return null
+  } finally {
+    await sync.dispose().catch(() => undefined)
   }
+}
 
-  const binaryString = atob(result.stdout.trim())
-  const bytes = new Uint8Array(binaryString.length)
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i)
+export interface RemoteDirEntry extends RemoteFileStat {
+  name: string
+  path: string
+}
+
+/**
+ * Lists a directory through the sync service (as the shell user).
+ * Unreadable directories come back empty, as with `adb ls`.
+ */
+export async function listDirectory(remotePath: string, serial?: string): Promise<RemoteDirEntry[]> {
+  const adb = resolveAdb(serial)
+  if (!adb) throw new Error('No connected device')
+
+  const safePath = validateQuotedPath(remotePath)
+  const sync = await openSync(adb)
+  if (!sync) throw new Error('ADB sync service not available')
+
+  try {
+    const entries = await sync.readdir(safePath)
+    return entries
+      .filter(entry => entry.name !== '.' && entry.name !== '..')
+      .map(entry => ({
+        ...toRemoteStat(entry),
+        name: entry.name,
+        path: safePath === '/' ? `/${entry.name}` : `${safePath}/${entry.name}`,
+      }))
+  } finally {
+    await sync.dispose().catch(() => undefined)
   }
+}
+
+export async function pullFile(remotePath: string, options: PullOptions = {}): Promise<Uint8Array> {
+  const adb = resolveAdb(options.serial)
+  if (!adb) throw new Error('No connected device')
+
+  const safePath = validateQuotedPath(remotePath)
+  const { signal, onProgress } = options
+  throwIfAborted(signal)
+
+  const sync = await openSync(adb)
+  if (!sync) {
+    return pullFileViaShell(safePath, adb.serial, signal, onProgress)
+  }
+
+  const abortTransfer = () => {
+    sync.dispose().catch(() => undefined)
+  }
+  signal?.addEventListener('abort', abortTransfer, { once: true })
+
+  try {
+    const stat = await sync.lstat(safePath).catch(() => null)
+    const total = stat ? Number(stat.size) : 0
+    const chunks: Uint8Array[] = []
+    let transferred = 0
+
+    const reader = sync.read(safePath).getReader()
+    try {
+      while (true) {
+        if (signal?.aborted) throw createAbortError()
+        const { done, value } = await reader.read()
+        if (done) break
+        chunks.push(value)
+        transferred += value.length
+        onProgress?.(total > 0 ? Math.min(transferred / total, 1) : 0, transferred, total)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+
+    const bytes = new Uint8Array(transferred)
+    let offset = 0
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset)
+      offset += chunk.length
+    }
 
+    notifyTransfer(`sync pull ${safePath} (${transferred} bytes)`, { exitCode: 0, stdout: '' }, adb.serial)
+    onProgress?.(1, transferred, transferred)
+    return bytes
+  } catch (error) {
+    const aborted = signal?.aborted
+    notifyTransfer(`sync pull ${safePath}`, {
+      exitCode: 1,
+      stdout: '',
+      stderr: aborted ? 'Transfer aborted' : error instanceof Error ? error.message : 'Unknown error',
+    }, adb.serial)
+    throw aborted ? createAbortError() : error
+  } finally {
+    signal?.removeEventListener('abort', abortTransfer)
+    await sync.dispose().catch(() => undefined)
+  }
+}
+
+/**
+ * Legacy transfer used when the sync service is not available: the file is
+ * read with `dd` in SHELL_PULL_CHUNK_SIZE pieces, each base64-encoded, so the
+ * transfer reports progress and stops between chunks when aborted.
+ */
+async function pullFileViaShell(
+  safePath: string,
+  serial?: string,
+  signal?: AbortSignal,
+  onProgress?: TransferProgressCallback
+): Promise<Uint8Array> {
+  const sizeResult = await shell(`stat -c %s ${quotePath(safePath)}`, serial, { signal })
+  if (sizeResult.exitCode !== 0) {
+    throw new Error(sizeResult.stderr || 'Failed to read file')
+  }
+  const total = parseInt(sizeResult.stdout.trim(), 10) || 0
+  onProgress?.(0, 0, total)
+
+  const bytes = new Uint8Array(total)
+  let transferred = 0
+  for (let index = 0; transferred < total; index++) {
+    throwIfAborted(signal)
+    const result = await shell(
+      `dd if=${quotePath(safePath)} bs=${SHELL_PULL_CHUNK_SIZE} skip=${index} count=1 2>/dev/null | base64`,
+      serial,
+      { signal }
+    )
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || 'Failed to read file')
+    }
+
+    const binaryString = atob(result.stdout.replace(/\s/g, ''))
+    if (binaryString.length === 0) {
+      // dd errors are hidden by the pipe: nothing at all means unreadable
+      if (transferred === 0) throw new Error(`Failed to read ${safePath}`)
+      // The file shrank while reading
+      return bytes.slice(0, transferred)
+    }
+    const length = Math.min(binaryString.length, total - transferred)
+    for (let i = 0; i < length; i++) {
+      bytes[transferred + i] = binaryString.charCodeAt(i)
+    }
+    transferred += length
+    onProgress?.(transferred / total, transferred, total)
+  }
+
+  onProgress?.(1, transferred, transferred)
   return bytes
 }
 
@@ -541,18 +1256,21 @@ export async function createDirectory(remotePath: string): Promise<ShellResult>
 }
 
 export async function installApk(
-  data: Uint8Array,
-  onProgress?: (progress: number) => void
+  data: Uint8Array | Blob,
+  onProgress?: TransferProgressCallback,
+  options: { signal?: AbortSignal; serial?: string } = {}
 ): Promise<ShellResult> {
+  const { signal, serial } = options
   const tempPath = `/data/local/tmp/app_install_${Date.now()}.apk`
 
   try {
-    await pushFile(data, tempPath, onProgress)
-    const result = await shell(`pm install -r "${tempPath}"`)
-    await shell(`rm "${tempPath}"`)
+    await pushFile(data, tempPath, onProgress, { signal, serial })
+    throwIfAborted(signal)
+    const result = await shell(`pm install -r "${tempPath}"`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+    await shell(`rm "${tempPath}"`, serial)
     return result
   } catch (error) {
-    await shell(`rm "${tempPath}"`).catch(() => undefined)
+    await shell(`rm -f "${tempPath}"`, serial).catch(() => undefined)
     throw error
   }
 }
@@ -0,0 +1,192 @@
+/**
+ * ADB Network Transport
+ * Connects to devices over Wi-Fi through the local WebSocket bridge
+ * (`scripts/adb-wifi-bridge.mjs`), since browsers cannot open raw TCP sockets.
+ *
+ * - `tcp`: legacy `adb tcpip 5555` daemons, spoken to directly (no TLS)
+ * - `wireless`: Android 11+ wireless debugging, paired and connected through
+ *   the host adb server, which owns the TLS keys created during pairing
+ */
+
+import {
+  Adb,
+  AdbPacket,
+  AdbPacketSerializeStream,
+  AdbServerClient,
+  type AdbDaemonDevice
+} from '@yume-chan/adb'
+import {
+  MaybeConsumable,
+  PushReadableStream,
+  StructDeserializeStream,
+  pipeFrom,
+  type WritableStream
+} from '@yume-chan/stream-extra'
+import { ADB_BRIDGE_URL, ADB_SERVER_PORT } from '@/config/app'
+
+export interface NetworkAddress {
+  host: string
+  port: number
+}
+
+/**
+ * Parses `host:port` (IPv4 or bracketed IPv6). Port defaults to 5555.
+ */
+export function parseNetworkAddress(address: string, defaultPort = 5555): NetworkAddress {
+  const trimmed = address.trim()
+  const match = trimmed.match(/^\[([0-9a-fA-F:]+)\](?::(\d+))?$/) || trimmed.match(/^([^:\s]+)(?::(\d+))?$/)
+  if (!match) {
+    throw new Error(`Invalid device address: ${address}`)
+  }
+
+  const port = match[2] ? parseInt(match[2], 10) : defaultPort
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid port in address: ${address}`)
+  }
+
+  return { host: match[1], port }
+}
+
+export function formatNetworkAddress({ host, port }: NetworkAddress): string {
+  return host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`
+}
+
+function getBridgeUrl(bridgeUrl?: string): string {
+  return (bridgeUrl || ADB_BRIDGE_URL).replace(/\/+$/, '')
+}
+
+/**
+ * Checks whether the bridge script is running
+ */
+export async function isBridgeAvailable(bridgeUrl?: string): Promise<boolean> {
+  const healthUrl = getBridgeUrl(bridgeUrl).replace(/^ws/, 'http') + '/health'
+  try {
+    const response = await fetch(healthUrl, { signal: AbortSignal.timeout(2000) })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+interface BridgeConnection {
+  readable: PushReadableStream<Uint8Array>
+  writable: WritableStream<MaybeConsumable<Uint8Array>>
+  closed: Promise<undefined>
+  close(): void
+}
+
+/**
+ * Opens a WebSocket to the bridge, which pipes it to `target` over TCP.
+ */
+async function openBridgeConnection(target: NetworkAddress, bridgeUrl?: string): Promise<BridgeConnection> {
+  const url = `${getBridgeUrl(bridgeUrl)}/?host=${encodeURIComponent(target.host)}&port=${target.port}`
+  const socket = new WebSocket(url)
+  socket.binaryType = 'arraybuffer'
+
+  await new Promise<void>((resolve, reject) => {
+    socket.onopen = () => resolve()
+    socket.onerror = () => reject(new Error('BRIDGE_UNREACHABLE'))
+    socket.onclose = () => reject(new Error('BRIDGE_UNREACHABLE'))
+  })
+
+  let resolveClosed!: (value: undefined) => void
+  const closed = new Promise<undefined>(resolve => { resolveClosed = resolve })
+
+  const readable = new PushReadableStream<Uint8Array>((controller) => {
+    socket.onmessage = (event) => {
+      void controller.enqueue(new Uint8Array(event.data as ArrayBuffer))
+    }
+    socket.onclose = () => {
+      controller.close()
+      resolveClosed(undefined)
+    }
+    socket.onerror = () => {
+      controller.error(new Error('Network connection lost'))
+      resolveClosed(undefined)
+    }
+  })
+
+  const writable = new MaybeConsumable.WritableStream<Uint8Array>({
+    write(chunk) {
+      socket.send(chunk)
+    },
+    close() {
+      socket.close()
+    },
+    abort() {
+      socket.close()
+    },
+  })
+
+  return { readable, writable, closed, close: () => socket.close() }
+}
+
+/**
+ * A legacy TCP daemon (`adb tcpip`) reachable through the bridge.
+ * Authentication uses the same credential store as USB.
+ */
+export function createTcpDevice(address: string, bridgeUrl?: string): AdbDaemonDevice {
+  const target = parseNetworkAddress(address)
+  const serial = formatNetworkAddress(target)
+
+  return {
+    serial,
+    name: serial,
+    async connect() {
+      const connection = await openBridgeConnection(target, bridgeUrl)
+
+      return {
+        readable: connection.readable.pipeThrough(new StructDeserializeStream(AdbPacket)),
+        writable: pipeFrom(connection.writable, new AdbPacketSerializeStream()),
+      }
+    },
+  }
+}
+
+/**
+ * adb server connector: every server request opens its own bridge connection.
+ */
+function createServerConnector(bridgeUrl?: string): AdbServerClient.ServerConnector {
+  return {
+    connect: () => openBridgeConnection({ host: '127.0.0.1', port: ADB_SERVER_PORT }, bridgeUrl),
+    addReverseTunnel: () => {
+      throw new Error('Reverse tunnels are not supported over the network bridge')
+    },
+    removeReverseTunnel: () => undefined,
+    clearReverseTunnels: () => undefined,
+  }
+}
+
+function createServerClient(bridgeUrl?: string): AdbServerClient {
+  return new AdbServerClient(createServerConnector(bridgeUrl))
+}
+
+/**
+ * Android 11+ pairing: `adb pair <address> <code>` via the host adb server.
+ * `address` is the "pairing code" endpoint shown by the device, not the connect one.
+ */
+export async function pairWirelessDevice(address: string, code: string, bridgeUrl?: string): Promise<void> {
+  const pairingCode = code.trim()
+  if (!/^\d{6}$/.test(pairingCode)) {
+    throw new Error('Pairing code must be 6 digits')
+  }
+
+  const target = formatNetworkAddress(parseNetworkAddress(address))
+  await createServerClient(bridgeUrl).wireless.pair(target, pairingCode)
+}
+
+/**
+ * `adb connect <address>` on the host adb server, then opens the device through it.
+ */
+export async function connectWirelessDevice(address: string, bridgeUrl?: string): Promise<Adb> {
+  const target = formatNetworkAddress(parseNetworkAddress(address))
+  const client = createServerClient(bridgeUrl)
+
+  try {
+    await client.wireless.connect(target)
+  } catch (error) {
+    if (!(error instanceof AdbServerClient.AlreadyConnectedError)) throw error
+  }
+
+  return client.createAdb({ serial: target })
+}
@@ -0,0 +1,368 @@
+/**
+ * APK Bundle Service
+ * Unpacks split-APK bundles (.xapk, .apkm, .apks) in the browser, picks the
+ * splits matching the connected device and installs them through a
+ * pm install-create / install-write / install-commit session.
+ */
+
+import { readZip, type ZipEntry } from '@/lib/zip'
+import { shell, pushFile, type DeviceInfo } from './adb-client'
+import { validateFilePath, escapeShellArg } from './command-sanitizer'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+export type BundleFormat = 'xapk' | 'apkm' | 'apks'
+
+export type SplitKind = 'base' | 'abi' | 'density' | 'locale' | 'feature'
+
+export interface BundleSplit {
+  /** File name inside the archive, without directories */
+  fileName: string
+  kind: SplitKind
+  /** ABI / density bucket / language the split targets, if any */
+  qualifier?: string
+  size: number
+  entry: ZipEntry
+}
+
+export interface BundleObb {
+  fileName: string
+  /** Absolute destination on device, e.g. /sdcard/Android/obb/<pkg>/main.1.<pkg>.obb */
+  targetPath: string
+  size: number
+  entry: ZipEntry
+}
+
+export interface ApkBundle {
+  format: BundleFormat
+  packageName?: string
+  versionName?: string
+  versionCode?: string
+  splits: BundleSplit[]
+  obbs: BundleObb[]
+}
+
+export interface BundleInstallProgress {
+  stage: 'creating' | 'writing' | 'obb' | 'committing' | 'complete' | 'rollback'
+  /** Split or OBB file currently being transferred */
+  fileName?: string
+  index: number
+  count: number
+  /** Progress of the current file, 0-1 */
+  fileProgress: number
+  /** Overall progress by bytes, 0-1 */
+  overall: number
+}
+
+export type BundleDeviceProfile = Pick<DeviceInfo, 'abis' | 'screenDensity' | 'locale'>
+
+const BUNDLE_EXTENSIONS: Record<string, BundleFormat> = {
+  '.xapk': 'xapk',
+  '.apkm': 'apkm',
+  '.apks': 'apks',
+}
+
+const ABI_QUALIFIERS = new Set(['armeabi', 'armeabi_v7a', 'arm64_v8a', 'x86', 'x86_64', 'mips', 'mips64'])
+
+const DENSITY_BUCKETS: Record<string, number> = {
+  ldpi: 120,
+  mdpi: 160,
+  tvdpi: 213,
+  hdpi: 240,
+  xhdpi: 320,
+  xxhdpi: 480,
+  xxxhdpi: 640,
+}
+
+const LOCALE_QUALIFIER = /^([a-z]{2,3})(?:[_-]r?[A-Z]{2})?$/
+
+export function getBundleFormat(fileName: string): BundleFormat | null {
+  const lower = fileName.toLowerCase()
+  const extension = Object.keys(BUNDLE_EXTENSIONS).find((ext) => lower.endsWith(ext))
+  return extension ? BUNDLE_EXTENSIONS[extension] : null
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+/**
+ * Classifies a split from its file name. Handles the naming used by
+ * XAPK/APKM/SAI (`split_config.arm64_v8a.apk`, `config.xxhdpi.apk`) and
+ * bundletool (`base-master.apk`, `base-en.apk`, `feature-arm64_v8a.apk`).
+ */
+function classifySplit(fileName: string): Pick<BundleSplit, 'kind' | 'qualifier'> {
+  const name = fileName.replace(/\.apk$/i, '')
+  if (name === 'base' || name === 'base-master') return { kind: 'base' }
+
+  let qualifier: string | undefined
+  if (name.startsWith('split_config.')) qualifier = name.slice('split_config.'.length)
+  else if (name.startsWith('config.')) qualifier = name.slice('config.'.length)
+  else if (name.includes('.config.')) qualifier = name.slice(name.indexOf('.config.') + '.config.'.length)
+  else if (name.includes('-') && !name.endsWith('-master')) qualifier = name.slice(name.lastIndexOf('-') + 1)
+
+  if (!qualifier) return { kind: 'feature' }
+  if (ABI_QUALIFIERS.has(qualifier)) return { kind: 'abi', qualifier }
+  if (qualifier in DENSITY_BUCKETS) return { kind: 'density', qualifier }
+
+  const localeMatch = qualifier.match(LOCALE_QUALIFIER)
+  if (localeMatch) return { kind: 'locale', qualifier: localeMatch[1] }
+
+  return { kind: 'feature' }
+}
+
+async function readJsonEntry<T>(entries: ZipEntry[], name: string): Promise<T | null> {
+  const entry = entries.find((e) => e.name === name)
+  if (!entry) return null
+  try {
+    return JSON.parse(await entry.text()) as T
+  } catch {
+    return null
+  }
+}
+
+interface XapkManifest {
+  package_name?: string
+  version_code?: string | number
+  version_name?: string
+  expansions?: { file: string; install_path?: string }[]
+}
+
+interface ApkmInfo {
+  pname?: string
+  versioncode?: string | number
+  release_version?: string
+}
+
+interface SaiMeta {
+  package?: string
+  version_code?: string | number
+  version_name?: string
+}
+
+/**
+ * Reads a bundle archive and classifies its splits.
+ * No APK content is decompressed at this stage.
+ */
+export async function readBundle(file: File): Promise<ApkBundle> {
+  const format = getBundleFormat(file.name)
+  if (!format) throw new Error(`Unsupported bundle format: ${file.name}`)
+
+  const entries = await readZip(file)
+  const bundle: ApkBundle = { format, splits: [], obbs: [] }
+
+  if (format === 'xapk') {
+    const manifest = await readJsonEntry<XapkManifest>(entries, 'manifest.json')
+    bundle.packageName = manifest?.package_name
+    bundle.versionCode = manifest?.version_code?.toString()
+    bundle.versionName = manifest?.version_name
+
+    for (const expansion of manifest?.expansions || []) {
+      const entry = entries.find((e) => e.name === expansion.file)
+      if (!entry) continue
+      bundle.obbs.push({
+        fileName: baseName(entry.name),
+        targetPath: `/sdcard/${expansion.install_path || expansion.file}`,
+        size: entry.size,
+        entry,
+      })
+    }
+  } else if (format === 'apkm') {
+    const info = await readJsonEntry<ApkmInfo>(entries, 'info.json')
+    bundle.packageName = info?.pname
+    bundle.versionCode = info?.versioncode?.toString()
+    bundle.versionName = info?.release_version
+  } else {
+    const meta = await readJsonEntry<SaiMeta>(entries, 'meta.sai_v2.json')
+      || await readJsonEntry<SaiMeta>(entries, 'meta.sai_v1.json')
+    bundle.packageName = meta?.package
+    bundle.versionCode = meta?.version_code?.toString()
+    bundle.versionName = meta?.version_name
+  }
+
+  // Loose OBBs not declared in an XAPK manifest
+  for (const entry of entries) {
+    if (entry.isDirectory || !entry.name.toLowerCase().endsWith('.obb')) continue
+    if (bundle.obbs.some((obb) => obb.entry === entry)) continue
+    if (!entry.name.startsWith('Android/obb/')) continue
+    bundle.obbs.push({ fileName: baseName(entry.name), targetPath: `/sdcard/${entry.name}`, size: entry.size, entry })
+  }
+
+  // bundletool archives also ship pre-Lollipop standalone APKs: ignore them
+  const apkEntries = entries.filter((e) =>
+    !e.isDirectory && e.name.toLowerCase().endsWith('.apk') && !e.name.startsWith('standalones/')
+  )
+
+  bundle.splits = apkEntries.map((entry) => {
+    const fileName = baseName(entry.name)
+    return { fileName, size: entry.size, entry, ...classifySplit(fileName) }
+  })
+
+  // XAPKs name the base after the package (com.example.app.apk)
+  if (!bundle.splits.some((s) => s.kind === 'base')) {
+    const candidate = bundle.splits.find((s) => bundle.packageName && s.fileName === `${bundle.packageName}.apk`)
+      || (bundle.splits.length === 1 ? bundle.splits[0] : undefined)
+      || bundle.splits.filter((s) => s.kind === 'feature').sort((a, b) => b.size - a.size)[0]
+    if (candidate) {
+      candidate.kind = 'base'
+      candidate.qualifier = undefined
+    }
+  }
+
+  if (!bundle.splits.some((s) => s.kind === 'base')) {
+    throw new Error('No base APK found in bundle')
+  }
+
+  return bundle
+}
+
+function pickDensity(available: string[], deviceDensity: number): string | undefined {
+  if (available.length === 0) return undefined
+  const sorted = [...available].sort((a, b) => DENSITY_BUCKETS[a] - DENSITY_BUCKETS[b])
+  if (!deviceDensity) return sorted[sorted.length - 1]
+  return sorted.find((bucket) => DENSITY_BUCKETS[bucket] >= deviceDensity) || sorted[sorted.length - 1]
+}
+
+/**
+ * Selects the splits the device needs: base, every feature split, the best
+ * ABI in the device's preference order, the closest density bucket at or above
+ * the screen density, and the language splits matching the device locale.
+ * Throws when the bundle has ABI splits but none fits the device (or its ABIs
+ * are unknown): installing without native libraries would crash at launch.
+ */
+export function selectSplits(bundle: ApkBundle, device: BundleDeviceProfile | null): BundleSplit[] {
+  const byKind = (kind: SplitKind) => bundle.splits.filter((s) => s.kind === kind)
+  const qualifiers = (kind: SplitKind) => [...new Set(byKind(kind).map((s) => s.qualifier!))]
+
+  const abiQualifiers = qualifiers('abi')
+  const deviceAbis = (device?.abis || []).map((abi) => abi.replace(/-/g, '_'))
+  const abi = deviceAbis.find((candidate) => abiQualifiers.includes(candidate))
+  if (abiQualifiers.length > 0 && !abi) {
+    throw new Error(deviceAbis.length > 0
+      ? `No compatible ABI split: bundle has ${abiQualifiers.join(', ')}, device supports ${deviceAbis.join(', ')}`
+      : `No compatible ABI split: device ABIs unknown, bundle has ${abiQualifiers.join(', ')}`)
+  }
+
+  const density = pickDensity(qualifiers('density'), parseInt(device?.screenDensity || '', 10) || 0)
+  const language = (device?.locale || 'en').split(/[-_]/)[0].toLowerCase()
+
+  return bundle.splits.filter((split) => {
+    switch (split.kind) {
+      case 'base':
+      case 'feature':
+        return true
+      case 'abi':
+        return split.qualifier === abi
+      case 'density':
+        return split.qualifier === density
+      case 'locale':
+        return split.qualifier === language
+    }
+  })
+}
+
+function parseSessionId(output: string): number | null {
+  const match = output.match(/\[(\d+)\]/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+function isSuccess(output: string): boolean {
+  return output.trim().startsWith('Success')
+}
+
+/**
+ * Installs the selected splits in a single package-installer session.
+ * Any failure abandons the session and removes pushed temp files and OBBs.
+ */
+export async function installBundle(
+  bundle: ApkBundle,
+  splits: BundleSplit[],
+  options: { onProgress?: (progress: BundleInstallProgress) => void; signal?: AbortSignal; serial?: string } = {}
+): Promise<{ success: boolean; message: string }> {
+  const { onProgress, signal, serial } = options
+  const files = [...splits, ...bundle.obbs]
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0) || 1
+  let doneBytes = 0
+
+  const report = (stage: BundleInstallProgress['stage'], index: number, fileName?: string, fileProgress = 0, fileSize = 0) => {
+    onProgress?.({
+      stage,
+      fileName,
+      index,
+      count: files.length,
+      fileProgress,
+      overall: Math.min((doneBytes + fileSize * fileProgress) / totalBytes, 1),
+    })
+  }
+
+  report('creating', 0)
+  const splitBytes = splits.reduce((sum, s) => sum + s.size, 0)
+  const createResult = await shell(`pm install-create -r -S ${splitBytes}`, serial)
+  const sessionId = parseSessionId(createResult.stdout)
+  if (sessionId === null) {
+    throw new Error(createResult.stderr || createResult.stdout || 'Unable to create install session')
+  }
+
+  const tempDir = `/data/local/tmp/adbzero_session_${sessionId}`
+  const pushedObbs: string[] = []
+
+  try {
+    await shell(`mkdir -p "${tempDir}"`, serial)
+
+    for (let i = 0; i < splits.length; i++) {
+      const split = splits[i]
+      if (signal?.aborted) throw new DOMException('Install aborted', 'AbortError')
+
+      const splitName = `${i}_${split.fileName.replace(/\.apk$/i, '').replace(/[^a-zA-Z0-9_.-]/g, '_')}`
+      const tempPath = `${tempDir}/${splitName}.apk`
+      const data = await split.entry.blob()
+
+      report('writing', i, split.fileName, 0, data.size)
+      await pushFile(data, tempPath, (progress) => report('writing', i, split.fileName, progress, data.size), { signal, serial })
+
+      const writeResult = await shell(
+        `pm install-write -S ${data.size} ${sessionId} ${splitName} "${tempPath}"`,
+        serial,
+        { timeout: ADB_LONG_COMMAND_TIMEOUT }
+      )
+      await shell(`rm -f "${tempPath}"`, serial)
+      if (!isSuccess(writeResult.stdout)) {
+        throw new Error(`${split.fileName}: ${writeResult.stderr || writeResult.stdout || 'install-write failed'}`)
+      }
+
+      doneBytes += data.size
+    }
+
+    for (let i = 0; i < bundle.obbs.length; i++) {
+      const obb = bundle.obbs[i]
+      if (signal?.aborted) throw new DOMException('Install aborted', 'AbortError')
+
+      const targetPath = validateFilePath(obb.targetPath, ['/sdcard/Android/obb/'])
+      const index = splits.length + i
+      const data = await obb.entry.blob()
+
+      report('obb', index, obb.fileName, 0, data.size)
+      await shell(`mkdir -p "${escapeShellArg(targetPath.slice(0, targetPath.lastIndexOf('/')))}"`, serial)
+      pushedObbs.push(targetPath)
+      await pushFile(data, targetPath, (progress) => report('obb', index, obb.fileName, progress, data.size), { signal, serial })
+      doneBytes += data.size
+    }
+
+    report('committing', files.length - 1)
+    const commitResult = await shell(`pm install-commit ${sessionId}`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+    if (!isSuccess(commitResult.stdout)) {
+      throw new Error(commitResult.stderr || commitResult.stdout || 'install-commit failed')
+    }
+
+    report('complete', files.length - 1, undefined, 1)
+    return { success: true, message: commitResult.stdout.trim() }
+  } catch (error) {
+    report('rollback', 0)
+    await shell(`pm install-abandon ${sessionId}`, serial).catch(() => undefined)
+    for (const path of pushedObbs) {
+      await shell(`rm -f "${escapeShellArg(path)}"`, serial).catch(() => undefined)
+    }
+    throw error
+  } finally {
+    await shell(`rm -rf "${tempDir}"`, serial).catch(() => undefined)
+  }
+}
@@ -9,6 +9,7 @@ import {
   validateFilePath,
   escapeShellArg
 } from './command-sanitizer'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
 
 export interface ApkSource {
   name: string
@@ -99,21 +100,17 @@ export async function installApk(
     // 1. Download APK
     const apkBlob = await downloadApk(source.url, onProgress)
 
-    // 2. Convert Blob to ArrayBuffer
-    const arrayBuffer = await apkBlob.arrayBuffer()
-    const apkData = new Uint8Array(arrayBuffer)
-
-    // 3. Generate temp filename - use timestamp only (no user input)
+    // 2. Generate temp filename - use timestamp only (no user input)
     const tempPath = `/data/local/tmp/adbzero_${Date.now()}.apk`
 
-    // 4. Push APK to device
+    // 3. Stream APK to device via sync protocol
     onProgress?.({
       stage: 'pushing',
       progress: 0,
       message: 'Trasferimento APK sul dispositivo...'
     })
 
-    await pushFile(apkData, tempPath, (progress) => {
+    await pushFile(apkBlob, tempPath, (progress) => {
       onProgress?.({
         stage: 'pushing',
         progress: Math.round(progress * 100),
@@ -121,7 +118,7 @@ export async function installApk(
       })
     })
 
-    // 5. Install APK
+    // 4. Install APK
     onProgress?.({
       stage: 'installing',
       progress: 50,
@@ -130,12 +127,12 @@ export async function installApk(
 
     const safeTempPath = validateFilePath(tempPath, ['/data/local/tmp/'])
 
-    const installResult = await shell(`pm install -r "${escapeShellArg(safeTempPath)}"`)
+    const installResult = await shell(`pm install -r "${escapeShellArg(safeTempPath)}"`, undefined, { timeout: ADB_LONG_COMMAND_TIMEOUT })
 
-    // 6. Clean up temp file
+    // 5. Clean up temp file
     await shell(`rm "${escapeShellArg(safeTempPath)}"`)
 
-    // 7. Check result
+    // 6. Check result
     if (installResult.stdout.toLowerCase().includes('success')) {
       onProgress?.({
         stage: 'complete',
@@ -0,0 +1,429 @@
+/**
+ * App Backup Service
+ * Backs up an installed package into a single ZIP archive: base and split
+ * APKs (from `pm path`), a tar of /data/data/<pkg> on rooted devices and a
+ * manifest with version, signatures and granted runtime permissions.
+ * The restore flow reinstalls the APKs, puts the data back with the new
+ * UID / SELinux context and re-grants the recorded permissions.
+ */
+
+import { grantPermission, pullFile, pushFile, shell, type TransferProgressCallback } from './adb-client'
+import { installBundle, type ApkBundle, type BundleSplit } from './apk-bundle'
+import { escapeShellArg, validateApkPath, validatePackageName, validatePermission } from './command-sanitizer'
+import { createZip, readZip, type ZipEntry, type ZipInputFile } from '@/lib/zip'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+export const APP_BACKUP_FORMAT = 'adbzero-app-backup'
+export const APP_BACKUP_VERSION = 1
+
+const MANIFEST_NAME = 'manifest.json'
+const APK_DIR = 'apks/'
+const DATA_ARCHIVE_NAME = 'data.tar'
+const STAGING_DIR = '/data/local/tmp'
+
+export interface AppBackupApk {
+  /** File name inside apks/ */
+  name: string
+  /** Path on the source device */
+  sourcePath: string
+  size: number
+  sha256: string
+}
+
+export interface AppBackupManifest {
+  format: typeof APP_BACKUP_FORMAT
+  version: number
+  packageName: string
+  versionCode: string | null
+  versionName: string | null
+  /** Signing certificate digests as printed by `dumpsys package` */
+  signatures: string[]
+  /** Runtime permissions granted at backup time */
+  grantedPermissions: string[]
+  apks: AppBackupApk[]
+  hasData: boolean
+  device: {
+    model: string
+    sdk: number
+  }
+  createdAt: string
+}
+
+export interface AppBackupProgress {
+  stage: 'inspecting' | 'apks' | 'data' | 'packing' | 'complete'
+  fileName?: string
+  /** Progress of the current transfer, 0-1 */
+  progress: number
+}
+
+export interface AppRestoreProgress {
+  stage: 'verifying' | 'installing' | 'data' | 'permissions' | 'complete'
+  fileName?: string
+  progress: number
+}
+
+export interface AppBackupArchive {
+  manifest: AppBackupManifest
+  apkEntries: ZipEntry[]
+  dataEntry: ZipEntry | null
+}
+
+export interface PermissionRestoreResult {
+  permission: string
+  granted: boolean
+  error?: string
+}
+
+export interface AppRestoreResult {
+  installed: boolean
+  installMessage: string
+  /** null when the backup has no data or data restore was skipped */
+  dataRestored: boolean | null
+  dataError?: string
+  permissions: PermissionRestoreResult[]
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// tar of a large data dir can take minutes
+async function su(command: string, serial?: string) {
+  const result = await shell(`su -c "${escapeShellArg(command)}"`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr?.trim() || result.stdout.trim() || `Command failed: ${command}`)
+  }
+  return result
+}
+
+async function sha256Hex(data: Uint8Array | Blob): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data
+  const hash = await crypto.subtle.digest('SHA-256', buffer)
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException('Backup aborted', 'AbortError')
+}
+
+/**
+ * Version, signatures and granted runtime permissions from `dumpsys package`.
+ * Only the first user section (user 0) is considered for permissions.
+ */
+export function parsePackageDump(output: string): Pick<AppBackupManifest, 'versionCode' | 'versionName' | 'signatures' | 'grantedPermissions'> {
+  const versionCode = output.match(/versionCode=(\d+)/)?.[1] ?? null
+  const versionName = output.match(/versionName=(\S+)/)?.[1] ?? null
+
+  // signatures=PackageSignatures{7a1b2c3 version:2, signatures:[a1b2c3d4], past signatures:[]}
+  const signatureList = output.match(/signatures=PackageSignatures\{[^[]*\[([^\]]*)\]/)?.[1] ?? ''
+  const signatures = signatureList.split(',').map(s => s.trim()).filter(Boolean)
+
+  const grantedPermissions: string[] = []
+  const lines = output.split('\n')
+  const start = lines.findIndex(line => line.trim() === 'runtime permissions:')
+  if (start !== -1) {
+    for (const line of lines.slice(start + 1)) {
+      const match = line.match(/^\s+([\w.]+): granted=(true|false)/)
+      if (!match) break
+      if (match[2] === 'true') grantedPermissions.push(match[1])
+    }
+  }
+
+  return { versionCode, versionName, signatures, grantedPermissions }
+}
+
+/**
+ * Installed APK paths from `pm path` (base first, then splits)
+ */
+export async function getPackageApkPaths(packageName: string, serial?: string): Promise<string[]> {
+  const safeName = validatePackageName(packageName)
+  const result = await shell(`pm path ${safeName}`, serial)
+  const paths = result.stdout
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('package:'))
+    .map(line => validateApkPath(line.slice('package:'.length)))
+
+  if (paths.length === 0) {
+    throw new Error(result.stderr?.trim() || `Package ${safeName} is not installed`)
+  }
+  return paths.sort((a, b) => Number(b.endsWith('/base.apk')) - Number(a.endsWith('/base.apk')))
+}
+
+function apkEntryName(path: string, index: number, used: Set<string>): string {
+  let name = path.slice(path.lastIndexOf('/') + 1).replace(/[^a-zA-Z0-9._-]/g, '_')
+  if (used.has(name)) name = `${index}_${name}`
+  used.add(name)
+  return name
+}
+
+/**
+ * Builds the backup archive for a package. App data is included only when
+ * requested and the device is rooted.
+ */
+export async function createAppBackup(
+  packageName: string,
+  options: {
+    includeData?: boolean
+    isRooted?: boolean
+    serial?: string
+    signal?: AbortSignal
+    onProgress?: (progress: AppBackupProgress) => void
+  } = {}
+): Promise<{ blob: Blob; manifest: AppBackupManifest }> {
+  const { serial, signal, onProgress } = options
+  const safeName = validatePackageName(packageName)
+
+  onProgress?.({ stage: 'inspecting', progress: 0 })
+  const apkPaths = await getPackageApkPaths(safeName, serial)
+  const dump = await shell(`dumpsys package ${safeName}`, serial)
+  const info = parsePackageDump(dump.stdout)
+  const model = (await shell('getprop ro.product.model', serial)).stdout.trim()
+  const sdk = parseInt((await shell('getprop ro.build.version.sdk', serial)).stdout.trim(), 10) || 0
+
+  const files: ZipInputFile[] = []
+  const apks: AppBackupApk[] = []
+  const usedNames = new Set<string>()
+
+  for (let i = 0; i < apkPaths.length; i++) {
+    throwIfAborted(signal)
+    const sourcePath = apkPaths[i]
+    const name = apkEntryName(sourcePath, i, usedNames)
+    onProgress?.({ stage: 'apks', fileName: name, progress: i / apkPaths.length })
+    const data = await pullFile(sourcePath, {
+      serial,
+      signal,
+      onProgress: (progress) => onProgress?.({ stage: 'apks', fileName: name, progress: (i + progress) / apkPaths.length }),
+    })
+    apks.push({ name, sourcePath, size: data.length, sha256: await sha256Hex(data) })
+    files.push({ name: `${APK_DIR}${name}`, data })
+  }
+
+  let hasData = false
+  if (options.includeData && options.isRooted) {
+    throwIfAborted(signal)
+    onProgress?.({ stage: 'data', fileName: DATA_ARCHIVE_NAME, progress: 0 })
+
+    // cache/code_cache are rebuilt by the app, lib is a symlink into /data/app
+    const staged = `${STAGING_DIR}/adbzero_backup_${Date.now()}.tar`
+    await su(
+      `tar -cf ${staged} -C /data/data --exclude=${safeName}/cache --exclude=${safeName}/code_cache --exclude=${safeName}/lib ${safeName} && chmod 644 ${staged}`,
+      serial
+    )
+    try {
+      const data = await pullFile(staged, {
+        serial,
+        signal,
+        onProgress: (progress) => onProgress?.({ stage: 'data', fileName: DATA_ARCHIVE_NAME, progress }),
+      })
+      files.push({ name: DATA_ARCHIVE_NAME, data })
+      hasData = true
+    } finally {
+      await su(`rm -f ${staged}`, serial).catch(() => undefined)
+    }
+  }
+
+  onProgress?.({ stage: 'packing', progress: 1 })
+  const manifest: AppBackupManifest = {
+    format: APP_BACKUP_FORMAT,
+    version: APP_BACKUP_VERSION,
+    packageName: safeName,
+    ...info,
+    apks,
+    hasData,
+    device: { model, sdk },
+    createdAt: new Date().toISOString(),
+  }
+  files.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) })
+
+  const blob = createZip(files)
+  onProgress?.({ stage: 'complete', progress: 1 })
+  return { blob, manifest }
+}
+
+export function getBackupFileName(manifest: AppBackupManifest): string {
+  const version = manifest.versionName ? `_${manifest.versionName.replace(/[^a-zA-Z0-9._-]/g, '_')}` : ''
+  const date = manifest.createdAt.slice(0, 10)
+  return `${manifest.packageName}${version}_${date}.zip`
+}
+
+/**
+ * Opens a backup archive and validates its manifest against the contained files.
+ */
+export async function readAppBackup(file: Blob): Promise<AppBackupArchive> {
+  const entries = await readZip(file)
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_NAME)
+  if (!manifestEntry) throw new Error('Not an app backup: manifest.json is missing')
+
+  let manifest: AppBackupManifest
+  try {
+    manifest = JSON.parse(await manifestEntry.text()) as AppBackupManifest
+  } catch {
+    throw new Error('Invalid backup manifest')
+  }
+
+  if (manifest.format !== APP_BACKUP_FORMAT) throw new Error('Not an app backup: unknown format')
+  if (manifest.version > APP_BACKUP_VERSION) {
+    throw new Error(`Backup version ${manifest.version} is not supported`)
+  }
+  validatePackageName(manifest.packageName)
+
+  const apkEntries = manifest.apks.map(apk => {
+    const entry = entries.find(e => e.name === `${APK_DIR}${apk.name}`)
+    if (!entry) throw new Error(`Backup is incomplete: ${apk.name} is missing`)
+    return entry
+  })
+  if (apkEntries.length === 0) throw new Error('Backup contains no APK')
+
+  const dataEntry = manifest.hasData ? entries.find(e => e.name === DATA_ARCHIVE_NAME) ?? null : null
+  return { manifest, apkEntries, dataEntry }
+}
+
+/**
+ * data.tar must hold only `<pkg>/...`: anything absolute, with `..` or for
+ * another package would be written as root outside the app's data dir.
+ */
+function assertDataArchiveEntries(listing: string, packageName: string) {
+  const entries = listing.split('\n').map(line => line.trim()).filter(Boolean)
+  if (entries.length === 0) throw new Error('Data archive is empty')
+  for (const entry of entries) {
+    const name = entry.replace(/^\.\//, '')
+    if (name.startsWith('/') || name.split('/').includes('..')) {
+      throw new Error(`Unsafe path in data archive: ${entry}`)
+    }
+    if (name !== packageName && name !== `${packageName}/` && !name.startsWith(`${packageName}/`)) {
+      throw new Error(`Data archive entry outside ${packageName}: ${entry}`)
+    }
+  }
+}
+
+/**
+ * Extracts data.tar over the freshly installed app and fixes ownership and
+ * SELinux labels for the UID assigned by this install. The archive is listed
+ * first and only the package member is extracted.
+ */
+async function restoreAppData(
+  packageName: string,
+  data: Blob,
+  options: { serial?: string; signal?: AbortSignal; onProgress?: TransferProgressCallback }
+) {
+  const { serial } = options
+  const dataDir = `/data/data/${packageName}`
+  const staged = `${STAGING_DIR}/adbzero_restore_${Date.now()}.tar`
+
+  await shell(`am force-stop ${packageName}`, serial)
+  await pushFile(data, staged, options.onProgress, { signal: options.signal, serial })
+
+  try {
+    const listing = await su(`tar -tf ${staged}`, serial)
+    assertDataArchiveEntries(listing.stdout, packageName)
+    await su(
+      [
+        `owner=$(stat -c %u:%g ${quote(dataDir)})`,
+        `find ${quote(dataDir)} -mindepth 1 -maxdepth 1 ! -name lib -exec rm -rf {} +`,
+        `tar -xf ${staged} -C /data/data ${quote(packageName)}`,
+        `chown -hR $owner ${quote(dataDir)}`,
+        `restorecon -RF ${quote(dataDir)}`,
+      ].join(' && '),
+      serial
+    )
+  } finally {
+    await shell(`rm -f ${staged}`, serial).catch(() => undefined)
+  }
+}
+
+/**
+ * Reinstalls the APKs, then optionally restores data (root) and re-grants
+ * the recorded runtime permissions. Install failures abort the restore;
+ * data and permission failures are reported per step.
+ */
+export async function restoreAppBackup(
+  archive: AppBackupArchive,
+  options: {
+    restoreData?: boolean
+    grantPermissions?: boolean
+    isRooted?: boolean
+    serial?: string
+    signal?: AbortSignal
+    onProgress?: (progress: AppRestoreProgress) => void
+  } = {}
+): Promise<AppRestoreResult> {
+  const { manifest, apkEntries, dataEntry } = archive
+  const { serial, signal, onProgress } = options
+
+  onProgress?.({ stage: 'verifying', progress: 0 })
+  for (let i = 0; i < manifest.apks.length; i++) {
+    throwIfAborted(signal)
+    const apk = manifest.apks[i]
+    if (await sha256Hex(await apkEntries[i].blob()) !== apk.sha256) {
+      throw new Error(`Checksum mismatch for ${apk.name}`)
+    }
+    onProgress?.({ stage: 'verifying', fileName: apk.name, progress: (i + 1) / manifest.apks.length })
+  }
+
+  const splits: BundleSplit[] = apkEntries.map((entry, i) => ({
+    fileName: manifest.apks[i].name,
+    kind: i === 0 ? 'base' : 'feature',
+    size: entry.size,
+    entry,
+  }))
+  const bundle: ApkBundle = {
+    format: 'apks',
+    packageName: manifest.packageName,
+    versionName: manifest.versionName ?? undefined,
+    versionCode: manifest.versionCode ?? undefined,
+    splits,
+    obbs: [],
+  }
+
+  const install = await installBundle(bundle, splits, {
+    serial,
+    signal,
+    onProgress: (progress) => onProgress?.({ stage: 'installing', fileName: progress.fileName, progress: progress.overall }),
+  })
+
+  const result: AppRestoreResult = {
+    installed: install.success,
+    installMessage: install.message,
+    dataRestored: null,
+    permissions: [],
+  }
+
+  if (options.restoreData && dataEntry && options.isRooted) {
+    onProgress?.({ stage: 'data', fileName: DATA_ARCHIVE_NAME, progress: 0 })
+    try {
+      await restoreAppData(manifest.packageName, await dataEntry.blob(), {
+        serial,
+        signal,
+        onProgress: (progress) => onProgress?.({ stage: 'data', fileName: DATA_ARCHIVE_NAME, progress }),
+      })
+      result.dataRestored = true
+    } catch (error) {
+      result.dataRestored = false
+      result.dataError = error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  if (options.grantPermissions) {
+    const permissions = manifest.grantedPermissions
+    for (let i = 0; i < permissions.length; i++) {
+      onProgress?.({ stage: 'permissions', fileName: permissions[i], progress: i / permissions.length })
+      try {
+        const response = await grantPermission(manifest.packageName, validatePermission(permissions[i]), serial)
+        const output = `${response.stdout}${response.stderr ?? ''}`.trim()
+        result.permissions.push(response.exitCode === 0 && !output
+          ? { permission: permissions[i], granted: true }
+          : { permission: permissions[i], granted: false, error: output || `exit code ${response.exitCode}` })
+      } catch (error) {
+        result.permissions.push({
+          permission: permissions[i],
+          granted: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  onProgress?.({ stage: 'complete', progress: 1 })
+  return result
+}
@@ -0,0 +1,274 @@
+/**
+ * App Details Service
+ * Reads everything the device knows about one package from `dumpsys package`
+ * (version, SDK levels, install metadata, signatures, permissions and the
+ * components registered in the resolver tables or disabled) and its sizes from
+ * `dumpsys diskstats`, plus the per-app actions of the detail drawer.
+ */
+
+import { shell, type ShellOptions, type ShellResult } from './adb-client'
+import { parsePackageDump } from './app-backup'
+import { validatePackageName } from './command-sanitizer'
+
+export interface AppComponents {
+  activities: string[]
+  services: string[]
+  receivers: string[]
+  providers: string[]
+}
+
+export type AppComponentType = keyof AppComponents
+
+export interface AppStorage {
+  appBytes: number
+  dataBytes: number
+  cacheBytes: number
+}
+
+export interface AppDetails {
+  packageName: string
+  versionName: string | null
+  versionCode: string | null
+  minSdk: number | null
+  targetSdk: number | null
+  firstInstallTime: string | null
+  lastUpdateTime: string | null
+  /** Package that installed the app (null for preinstalled or sideloaded apps) */
+  installer: string | null
+  codePath: string | null
+  dataDir: string | null
+  uid: number | null
+  /** Signing certificate digests as printed by `dumpsys package` */
+  signatures: string[]
+  /** Permissions defined by the app itself */
+  declaredPermissions: string[]
+  requestedPermissions: string[]
+  /** Granted install and runtime permissions (user 0) */
+  grantedPermissions: string[]
+  components: AppComponents
+  /** Components disabled for user 0, including those missing from `components` */
+  disabledComponents: string[]
+  /** From the last diskstats run; null when the package is not listed there */
+  storage: AppStorage | null
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+/**
+ * Entries of an indented list such as `requested permissions:`. Only the
+ * lines one level below the header are returned, nested details are skipped.
+ */
+function readIndentedList(lines: string[], header: string): string[] {
+  const start = lines.findIndex(line => line.trim() === header)
+  if (start === -1) return []
+
+  const headerIndent = indentOf(lines[start])
+  let childIndent = -1
+  const entries: string[] = []
+
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim()) continue
+    const indent = indentOf(line)
+    if (indent <= headerIndent) break
+    if (childIndent === -1) childIndent = indent
+    if (indent === childIndent) entries.push(line.trim())
+  }
+
+  return entries
+}
+
+/** `android.permission.CAMERA: granted=true, flags=[...]` -> name */
+function entryName(entry: string): string {
+  return entry.split(/[:,\s]/)[0]
+}
+
+/**
+ * Top-level sections (no indentation) of a `dumpsys package <pkg>` output
+ */
+function splitSections(output: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>()
+  let current: string[] | null = null
+
+  for (const line of output.split('\n')) {
+    if (line && !/^\s/.test(line) && line.trimEnd().endsWith(':')) {
+      current = []
+      sections.set(line.trim().slice(0, -1), current)
+    } else if (current) {
+      current.push(line)
+    }
+  }
+
+  return sections
+}
+
+/** `com.example/.Main` -> `com.example.Main` */
+function normalizeComponent(packageName: string, component: string): string {
+  const className = component.slice(component.indexOf('/') + 1)
+  return className.startsWith('.') ? packageName + className : className
+}
+
+function collectComponents(lines: string[] | undefined, packageName: string): string[] {
+  if (!lines) return []
+  const prefix = `${packageName}/`
+  const found = new Set<string>()
+
+  for (const line of lines) {
+    // "  5b5c7f1 com.example/.Main filter 9a8b7c6" or "Provider{3b0e3d5 com.example/.Provider}"
+    for (const match of line.matchAll(/[0-9a-f]+ ([\w.]+\/[\w.$]+)/g)) {
+      if (match[1].startsWith(prefix)) found.add(normalizeComponent(packageName, match[1]))
+    }
+  }
+
+  return [...found].sort()
+}
+
+/**
+ * Parses `dumpsys package <pkg>`. Components are only those registered in
+ * the resolver tables, i.e. declared with an intent filter or as a provider.
+ */
+export function parseAppDetails(packageName: string, output: string): Omit<AppDetails, 'storage'> {
+  const sections = splitSections(output)
+  const packageLines = sections.get('Packages') ?? output.split('\n')
+  const packageText = packageLines.join('\n')
+  const { versionCode, versionName, signatures, grantedPermissions: runtimeGranted } = parsePackageDump(packageText)
+
+  const field = (name: string) => packageText.match(new RegExp(`\\b${name}=([^\\s,]+(?: [\\d:]+)?)`))?.[1] ?? null
+  const numberField = (name: string) => {
+    const value = parseInt(field(name) ?? '', 10)
+    return Number.isNaN(value) ? null : value
+  }
+
+  const installGranted = readIndentedList(packageLines, 'install permissions:')
+    .filter(entry => entry.includes('granted=true'))
+    .map(entryName)
+
+  const installer = field('installerPackageName')
+
+  return {
+    packageName,
+    versionName,
+    versionCode,
+    minSdk: numberField('minSdk'),
+    targetSdk: numberField('targetSdk'),
+    firstInstallTime: field('firstInstallTime'),
+    lastUpdateTime: field('lastUpdateTime'),
+    installer: installer && installer !== 'null' ? installer : null,
+    codePath: field('codePath'),
+    dataDir: field('dataDir'),
+    uid: numberField('userId') ?? numberField('appId'),
+    signatures,
+    declaredPermissions: readIndentedList(packageLines, 'declared permissions:').map(entryName),
+    requestedPermissions: readIndentedList(packageLines, 'requested permissions:').map(entryName),
+    grantedPermissions: [...new Set([...installGranted, ...runtimeGranted])].sort(),
+    disabledComponents: readIndentedList(packageLines, 'disabledComponents:').sort(),
+    components: {
+      activities: collectComponents(sections.get('Activity Resolver Table'), packageName),
+      services: collectComponents(sections.get('Service Resolver Table'), packageName),
+      receivers: collectComponents(sections.get('Receiver Resolver Table'), packageName),
+      providers: collectComponents(
+        [...(sections.get('Registered ContentProviders') ?? []), ...(sections.get('ContentProvider Authorities') ?? [])],
+        packageName
+      ),
+    },
+  }
+}
+
+/**
+ * One of the parallel JSON arrays of `dumpsys diskstats`
+ * (`Package Names`, `App Sizes`, ...); empty when missing or malformed
+ */
+export function readDiskStatsArray(output: string, label: string): unknown[] {
+  const raw = output.match(new RegExp(`^${label}: (\\[.*\\])`, 'm'))?.[1]
+  if (!raw) return []
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Sizes of one package from `dumpsys diskstats`, which lists every package
+ * in parallel arrays
+ */
+export function parseDiskStats(packageName: string, output: string): AppStorage | null {
+  const array = (label: string) => readDiskStatsArray(output, label)
+
+  const index = array('Package Names').indexOf(packageName)
+  if (index === -1) return null
+
+  const size = (label: string) => Number(array(label)[index]) || 0
+  return {
+    appBytes: size('App Sizes'),
+    dataBytes: size('App Data Sizes'),
+    cacheBytes: size('Cache Sizes'),
+  }
+}
+
+export async function getAppDetails(packageName: string, serial?: string): Promise<AppDetails> {
+  const safeName = validatePackageName(packageName)
+  const dump = await shell(`dumpsys package ${safeName}`, serial)
+
+  if (!dump.stdout.includes(`Package [${safeName}]`)) {
+    throw new Error(dump.stderr?.trim() || `Package ${safeName} is not installed`)
+  }
+
+  // diskstats is optional: some ROMs restrict it, the rest of the panel still works
+  const diskstats = await shell('dumpsys diskstats', serial)
+
+  return {
+    ...parseAppDetails(safeName, dump.stdout),
+    storage: diskstats.exitCode === 0 ? parseDiskStats(safeName, diskstats.stdout) : null,
+  }
+}
+
+/**
+ * Disabled components of one package (null when it is not installed)
+ */
+export async function getDisabledComponents(packageName: string, serial?: string, options?: ShellOptions): Promise<string[] | null> {
+  const safeName = validatePackageName(packageName)
+  const dump = await shell(`dumpsys package ${safeName}`, serial, options)
+  if (!dump.stdout.includes(`Package [${safeName}]`)) return null
+  return parseAppDetails(safeName, dump.stdout).disabledComponents
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+export async function forceStopApp(packageName: string, serial?: string): Promise<ShellResult> {
+  const safeName = validatePackageName(packageName)
+  return shell(`am force-stop ${safeName}`, serial)
+}
+
+export async function clearAppData(packageName: string, serial?: string): Promise<ShellResult> {
+  const safeName = validatePackageName(packageName)
+  return shell(`pm clear ${safeName}`, serial)
+}
+
+/**
+ * Starts the launcher activity; monkey resolves it without knowing the class name
+ */
+export async function launchApp(packageName: string, serial?: string): Promise<ShellResult> {
+  const safeName = validatePackageName(packageName)
+  const result = await shell(`monkey -p ${safeName} -c android.intent.category.LAUNCHER 1`, serial)
+  if (result.stdout.includes('No activities found')) {
+    return { ...result, exitCode: 1, stderr: result.stderr || `${safeName} has no launcher activity` }
+  }
+  return result
+}
+
+/**
+ * Opens the system "App info" screen of the package on the device
+ */
+export async function openAppInfo(packageName: string, serial?: string): Promise<ShellResult> {
+  const safeName = validatePackageName(packageName)
+  return shell(`am start -a android.settings.APPLICATION_DETAILS_SETTINGS -d package:${safeName}`, serial)
+}
@@ -0,0 +1,428 @@
+/**
+ * Batch Operations Service
+ * Shared engine for package batches (community lists, de-Googling, mobile
+ * audits): builds a plan from the live package states (dry-run), executes it
+ * through the low-priority lane of the command queue with a result per item,
+ * and derives an undo plan that puts every changed package back. Packages are
+ * ordered along the dependency graph: dependents are disabled first,
+ * dependencies are re-enabled first. Component rules (a single activity,
+ * service or receiver) run after the packages.
+ */
+
+import {
+  disableComponent,
+  disablePackage,
+  enableComponent,
+  enablePackage,
+  isPmSuccess,
+  reinstallPackage,
+  uninstallPackage,
+  UNINSTALL_FALLBACK_PREFIX,
+  type ShellResult
+} from './adb-client'
+import { getDisabledComponents } from './app-details'
+import { readPackageStates, type SnapshotPackageState } from './device-snapshots'
+import { getPackageDatabase } from './package-database'
+import {
+  buildPackageGraph,
+  getAffectedDependents,
+  getBatchStages,
+  getMissingDependencies,
+  type PackageGraph
+} from './package-graph'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BatchOperation = 'disable' | 'uninstall' | 'enable'
+
+/** `absent` = not known to the device at all */
+export type BatchPackageState = SnapshotPackageState | 'absent'
+
+export type BatchSkipReason = 'already-disabled' | 'already-uninstalled' | 'already-enabled' | 'absent'
+
+/** One component of a package, by fully qualified class name */
+export interface BatchComponentRule {
+  packageName: string
+  component: string
+}
+
+export interface BatchPlanItem {
+  packageName: string
+  /** Set for component items: states then refer to the component, not the package */
+  component?: string
+  before: BatchPackageState
+  target: SnapshotPackageState
+  /** Set when the item needs no command */
+  skipReason?: BatchSkipReason
+  /** Dependency order: stages run one after the other, items of a stage together */
+  stage?: number
+}
+
+export interface BatchPlan {
+  title: string
+  operation: BatchOperation
+  serial?: string
+  deviceModel: string
+  items: BatchPlanItem[]
+  /** Id of the report this plan reverts */
+  undoOf?: string
+  /**
+   * Packages outside the batch tied to it by the dependency graph: enabled
+   * dependents when disabling, disabled dependencies when enabling
+   */
+  related?: string[]
+}
+
+export type BatchItemStatus = 'success' | 'failed' | 'skipped' | 'cancelled'
+
+export interface BatchItemResult extends BatchPlanItem {
+  status: BatchItemStatus
+  after: BatchPackageState
+  output?: string
+}
+
+export interface BatchSummary {
+  succeeded: number
+  failed: number
+  skipped: number
+  cancelled: number
+}
+
+export interface BatchReport {
+  id: string
+  title: string
+  operation: BatchOperation
+  deviceModel: string
+  serial?: string
+  startedAt: string
+  finishedAt: string
+  items: BatchItemResult[]
+  summary: BatchSummary
+  undoOf?: string
+}
+
+export type BatchProgressCallback = (done: number, total: number, packageName: string) => void
+
+const OPERATION_TARGET: Record<BatchOperation, SnapshotPackageState> = {
+  disable: 'disabled',
+  uninstall: 'uninstalled',
+  enable: 'enabled',
+}
+
+// ============================================
+// PLAN
+// ============================================
+
+/**
+ * Unique key of a plan item (a package can appear once more per component)
+ */
+export function batchItemKey(item: Pick<BatchPlanItem, 'packageName' | 'component'>): string {
+  return item.component ? `${item.packageName}/${item.component}` : item.packageName
+}
+
+function skipReasonFor(operation: BatchOperation, before: BatchPackageState): BatchSkipReason | undefined {
+  if (before === 'absent') return 'absent'
+  switch (operation) {
+    // An uninstalled package is already "more removed" than disabled
+    case 'disable':
+      return before === 'disabled' ? 'already-disabled' : before === 'uninstalled' ? 'already-uninstalled' : undefined
+    case 'uninstall':
+      return before === 'uninstalled' ? 'already-uninstalled' : undefined
+    case 'enable':
+      return before === 'enabled' ? 'already-enabled' : undefined
+  }
+}
+
+/**
+ * Dry-run: reads the live package states and decides, per package, whether a
+ * command is needed. Nothing is changed on the device.
+ */
+export async function planPackageBatch(options: {
+  title: string
+  operation: BatchOperation
+  packageNames: string[]
+  components?: BatchComponentRule[]
+  deviceModel: string
+  serial?: string
+}): Promise<BatchPlan> {
+  const states = await readPackageStates(options.serial)
+  const target = OPERATION_TARGET[options.operation]
+
+  const items = [...new Set(options.packageNames)].map((packageName): BatchPlanItem => {
+    const before: BatchPackageState = states[packageName] ?? 'absent'
+    return { packageName, before, target, skipReason: skipReasonFor(options.operation, before) }
+  })
+
+  const plan: BatchPlan = {
+    title: options.title,
+    operation: options.operation,
+    serial: options.serial,
+    deviceModel: options.deviceModel,
+    items,
+  }
+
+  const graph = await loadPackageGraph(Object.keys(states))
+  if (graph) {
+    const actionable = items.filter(item => !item.skipReason)
+    const names = actionable.map(item => item.packageName)
+    const direction = target === 'enabled' ? 'enable' : 'disable'
+    const stages = getBatchStages(graph, names, direction)
+    actionable.forEach(item => { item.stage = stages.get(item.packageName) ?? 0 })
+
+    const isEnabled = (name: string) => states[name] === 'enabled'
+    plan.related = direction === 'disable'
+      ? getAffectedDependents(graph, names, isEnabled)
+      : getMissingDependencies(graph, names, name => name in states, isEnabled)
+  }
+
+  if (options.components?.length) {
+    const componentItems = await planComponents(options.components, target === 'enabled' ? 'enabled' : 'disabled', states, options.serial)
+    const componentStage = Math.max(-1, ...items.map(item => item.stage ?? 0)) + 1
+    componentItems.forEach(item => { if (!item.skipReason) item.stage = componentStage })
+    plan.items.push(...componentItems)
+  }
+
+  return plan
+}
+
+/**
+ * Component items read their state from the package dump. Uninstalling is
+ * not a component operation: it disables the component instead.
+ */
+async function planComponents(
+  rules: BatchComponentRule[],
+  target: 'enabled' | 'disabled',
+  states: Record<string, SnapshotPackageState>,
+  serial?: string
+): Promise<BatchPlanItem[]> {
+  const byPackage = new Map<string, Set<string>>()
+  for (const rule of rules) {
+    if (!byPackage.has(rule.packageName)) byPackage.set(rule.packageName, new Set())
+    byPackage.get(rule.packageName)!.add(rule.component)
+  }
+
+  const items: BatchPlanItem[] = []
+  for (const [packageName, components] of byPackage) {
+    const disabled = states[packageName] && states[packageName] !== 'uninstalled'
+      ? await getDisabledComponents(packageName, serial)
+      : null
+
+    for (const component of components) {
+      const before: BatchPackageState = disabled === null ? 'absent' : disabled.includes(component) ? 'disabled' : 'enabled'
+      items.push({
+        packageName,
+        component,
+        before,
+        target,
+        skipReason: skipReasonFor(target === 'enabled' ? 'enable' : 'disable', before),
+      })
+    }
+  }
+
+  return items
+}
+
+/**
+ * Dependency graph of the device packages; null without definitions (offline)
+ */
+async function loadPackageGraph(devicePackages: string[]): Promise<PackageGraph | null> {
+  try {
+    const { packages } = await getPackageDatabase(devicePackages)
+    return buildPackageGraph(packages)
+  } catch (error) {
+    console.warn('Package definitions unavailable, batch runs unordered:', error)
+    return null
+  }
+}
+
+/**
+ * Plan that moves every changed package of `report` back to its state before
+ * the batch, in reverse dependency order
+ */
+export function buildUndoPlan(report: BatchReport): BatchPlan {
+  const changed = report.items
+    .filter(item => item.status === 'success' && item.before !== 'absent' && item.after !== item.before)
+  const lastStage = Math.max(0, ...changed.map(item => item.stage ?? 0))
+  const items = changed.map((item): BatchPlanItem => ({
+    packageName: item.packageName,
+    component: item.component,
+    before: item.after,
+    target: item.before as SnapshotPackageState,
+    stage: lastStage - (item.stage ?? 0),
+  }))
+
+  return {
+    title: report.title,
+    operation: report.operation,
+    serial: report.serial,
+    deviceModel: report.deviceModel,
+    items,
+    undoOf: report.id,
+  }
+}
+
+export function canUndoBatch(report: BatchReport): boolean {
+  return !report.undoOf && buildUndoPlan(report).items.length > 0
+}
+
+// ============================================
+// EXECUTION
+// ============================================
+
+function outputOf(result: ShellResult): string {
+  return [result.stdout, result.stderr].filter(Boolean).join('\n').trim()
+}
+
+/**
+ * Runs the commands that move one package from `before` to `target`.
+ * Returns the state actually reached (disable may fall back to uninstall).
+ */
+async function applyTransition(
+  item: BatchPlanItem,
+  serial: string | undefined,
+  signal: AbortSignal | undefined
+): Promise<{ ok: boolean; after: BatchPackageState; output: string }> {
+  const options = { priority: 'low' as const, signal }
+  const outputs: string[] = []
+  let state = item.before
+
+  if (item.component) {
+    const result = item.target === 'enabled'
+      ? await enableComponent(item.packageName, item.component, serial, options)
+      : await disableComponent(item.packageName, item.component, serial, options)
+    const ok = result.exitCode === 0
+    return { ok, after: ok ? item.target : state, output: outputOf(result) }
+  }
+
+  // enable and disable-user need the package installed for the user
+  if (item.before === 'uninstalled' && item.target !== 'uninstalled') {
+    const restored = await reinstallPackage(item.packageName, serial, options)
+    outputs.push(outputOf(restored))
+    if (!isPmSuccess(restored)) return { ok: false, after: state, output: outputs.join('\n') }
+    state = 'enabled'
+  }
+
+  let result: ShellResult
+  let reached: SnapshotPackageState
+  switch (item.target) {
+    case 'enabled':
+      result = await enablePackage(item.packageName, serial, options)
+      reached = 'enabled'
+      break
+    case 'uninstalled':
+      result = await uninstallPackage(item.packageName, serial, options)
+      reached = 'uninstalled'
+      break
+    case 'disabled':
+      result = await disablePackage(item.packageName, serial, options)
+      reached = result.stdout.startsWith(UNINSTALL_FALLBACK_PREFIX) ? 'uninstalled' : 'disabled'
+      break
+  }
+
+  outputs.push(outputOf(result))
+  const ok = isPmSuccess(result)
+  return { ok, after: ok ? reached : state, output: outputs.filter(Boolean).join('\n') }
+}
+
+function summarize(items: BatchItemResult[]): BatchSummary {
+  return {
+    succeeded: items.filter(i => i.status === 'success').length,
+    failed: items.filter(i => i.status === 'failed').length,
+    skipped: items.filter(i => i.status === 'skipped').length,
+    cancelled: items.filter(i => i.status === 'cancelled').length,
+  }
+}
+
+/**
+ * Executes a plan stage by stage. Items of a stage run concurrently; the
+ * command queue limits how many reach the device at once. Aborting `signal`
+ * marks the remaining items as cancelled.
+ */
+export async function executeBatchPlan(
+  plan: BatchPlan,
+  options: { signal?: AbortSignal; onProgress?: BatchProgressCallback } = {}
+): Promise<BatchReport> {
+  const { signal, onProgress } = options
+  const startedAt = new Date().toISOString()
+  const actionable = plan.items.filter(item => !item.skipReason)
+  const results = new Map<BatchPlanItem, BatchItemResult>()
+  let done = 0
+
+  for (const item of plan.items) {
+    if (item.skipReason) results.set(item, { ...item, status: 'skipped', after: item.before })
+  }
+
+  const runItem = async (item: BatchPlanItem) => {
+    let result: BatchItemResult
+    if (signal?.aborted) {
+      result = { ...item, status: 'cancelled', after: item.before }
+    } else {
+      try {
+        const outcome = await applyTransition(item, plan.serial, signal)
+        result = { ...item, status: outcome.ok ? 'success' : 'failed', after: outcome.after, output: outcome.output }
+      } catch (error) {
+        result = signal?.aborted
+          ? { ...item, status: 'cancelled', after: item.before }
+          : { ...item, status: 'failed', after: item.before, output: error instanceof Error ? error.message : String(error) }
+      }
+    }
+
+    results.set(item, result)
+    done++
+    onProgress?.(done, actionable.length, batchItemKey(item))
+  }
+
+  const stages = [...new Set(actionable.map(item => item.stage ?? 0))].sort((a, b) => a - b)
+  for (const stage of stages) {
+    await Promise.all(actionable.filter(item => (item.stage ?? 0) === stage).map(runItem))
+  }
+
+  const items = plan.items.map(item => results.get(item)!)
+
+  return {
+    id: crypto.randomUUID(),
+    title: plan.title,
+    operation: plan.operation,
+    deviceModel: plan.deviceModel,
+    serial: plan.serial,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    items,
+    summary: summarize(items),
+    undoOf: plan.undoOf,
+  }
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * Plain-text report, used as the command log entry of the batch
+ */
+export function formatBatchReport(report: BatchReport): string {
+  const { summary } = report
+  const lines = [
+    `${report.undoOf ? 'Undo of ' : ''}${report.title} (${report.operation}) on ${report.deviceModel}`,
+    `Started ${report.startedAt}, finished ${report.finishedAt}`,
+    `Succeeded ${summary.succeeded}, failed ${summary.failed}, skipped ${summary.skipped}, cancelled ${summary.cancelled}`,
+    '',
+    ...report.items.map(item => {
+      const detail = item.skipReason ?? (item.status === 'failed' ? item.output : undefined)
+      return `[${item.status}] ${batchItemKey(item)}: ${item.before} -> ${item.after}${detail ? ` (${detail})` : ''}`
+    }),
+  ]
+  return lines.join('\n')
+}
+
+export function downloadBatchReport(report: BatchReport) {
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `batch_report_${report.startedAt.replace(/[:.]/g, '-')}.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
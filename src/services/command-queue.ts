@@ -0,0 +1,293 @@
+/**
+ * Command Queue
+ * Central scheduler for device commands: per-command timeout, cancellation
+ * through AbortSignal, per-device concurrency and priority lanes. Batch
+ * commands run in the `low` lane, which never takes the last free slot, so
+ * UI refreshes are not stuck behind a long batch.
+ */
+
+import { ADB_COMMAND_TIMEOUT, getAppSettings } from '@/config/app'
+
+export type CommandPriority = 'high' | 'normal' | 'low'
+
+export type QueuedCommandStatus = 'pending' | 'running' | 'success' | 'failed' | 'timeout' | 'cancelled'
+
+export interface QueuedCommand {
+  id: number
+  label: string
+  serial: string
+  priority: CommandPriority
+  status: QueuedCommandStatus
+  enqueuedAt: number
+  startedAt?: number
+  finishedAt?: number
+  error?: string
+  /** Failed and timed out commands can be run again from the queue panel */
+  retryable: boolean
+}
+
+export interface ScheduleOptions<T> {
+  serial: string
+  label: string
+  priority?: CommandPriority
+  /** Milliseconds, 0 disables the timeout. Defaults to ADB_COMMAND_TIMEOUT */
+  timeout?: number
+  signal?: AbortSignal
+  /** Marks a resolved value as failed in the queue (e.g. non-zero exit code) */
+  isFailure?: (value: T) => boolean
+  /** Gets the result of a retry from the queue panel, which the original caller never sees */
+  onRetry?: (retried: Promise<T>) => void
+}
+
+export class CommandTimeoutError extends Error {
+  constructor(readonly timeout: number) {
+    super(`Command timed out after ${Math.round(timeout / 1000)}s`)
+    this.name = 'CommandTimeoutError'
+  }
+}
+
+export type QueueListener = (commands: QueuedCommand[]) => void
+
+interface Task {
+  entry: QueuedCommand
+  run: (signal: AbortSignal) => Promise<unknown>
+  options: ScheduleOptions<unknown>
+  controller?: AbortController
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+const PRIORITY_ORDER: Record<CommandPriority, number> = { high: 0, normal: 1, low: 2 }
+
+// Finished commands kept for the queue panel
+const MAX_FINISHED = 100
+
+let nextId = 1
+let concurrency = 0
+const pending: Task[] = []
+const running = new Map<number, Task>()
+const finished: QueuedCommand[] = []
+const retryable = new Map<number, Pick<Task, 'run' | 'options'>>()
+const listeners = new Set<QueueListener>()
+
+export function addQueueListener(listener: QueueListener) {
+  listeners.add(listener)
+}
+
+export function removeQueueListener(listener: QueueListener) {
+  listeners.delete(listener)
+}
+
+export function getQueuedCommands(): QueuedCommand[] {
+  return [
+    ...[...running.values()].map(task => task.entry),
+    ...pending.map(task => task.entry),
+    ...finished,
+  ].map(entry => ({ ...entry }))
+}
+
+function notify() {
+  if (listeners.size === 0) return
+  const commands = getQueuedCommands()
+  listeners.forEach(listener => listener(commands))
+}
+
+/**
+ * Commands running at the same time on each device
+ */
+export function getCommandConcurrency(): number {
+  if (!concurrency) concurrency = getAppSettings().commandConcurrency
+  return concurrency
+}
+
+export function setCommandConcurrency(value: number) {
+  concurrency = Math.max(1, Math.min(16, Math.floor(value)))
+  pump()
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Command aborted', 'AbortError')
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+function finish(task: Task, status: QueuedCommandStatus, error?: string) {
+  running.delete(task.entry.id)
+  task.entry.status = status
+  task.entry.finishedAt = Date.now()
+  task.entry.error = error
+  task.entry.retryable = status === 'failed' || status === 'timeout'
+
+  if (task.entry.retryable) {
+    retryable.set(task.entry.id, { run: task.run, options: task.options })
+  }
+
+  finished.unshift(task.entry)
+  for (const dropped of finished.splice(MAX_FINISHED)) {
+    retryable.delete(dropped.id)
+  }
+}
+
+function start(task: Task) {
+  const { options } = task
+  const controller = new AbortController()
+  task.controller = controller
+  task.entry.status = 'running'
+  task.entry.startedAt = Date.now()
+  running.set(task.entry.id, task)
+
+  const timeout = options.timeout ?? ADB_COMMAND_TIMEOUT
+  const timer = timeout > 0
+    ? setTimeout(() => controller.abort(new CommandTimeoutError(timeout)), timeout)
+    : undefined
+
+  const forwardAbort = () => controller.abort(createAbortError())
+  options.signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
+  })
+
+  Promise.race([task.run(controller.signal), aborted])
+    .then(
+      (value) => {
+        const failed = options.isFailure?.(value) ?? false
+        finish(task, failed ? 'failed' : 'success')
+        task.resolve(value)
+      },
+      (error) => {
+        const status: QueuedCommandStatus = error instanceof CommandTimeoutError
+          ? 'timeout'
+          : isAbortError(error) ? 'cancelled' : 'failed'
+        finish(task, status, error instanceof Error ? error.message : String(error))
+        task.reject(error)
+      }
+    )
+    .finally(() => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', forwardAbort)
+      notify()
+      pump()
+    })
+}
+
+function runningCount(serial: string, priority?: CommandPriority): number {
+  let count = 0
+  running.forEach(task => {
+    if (task.entry.serial === serial && (!priority || task.entry.priority === priority)) count++
+  })
+  return count
+}
+
+/**
+ * Starts every pending command that fits its device's free slots,
+ * highest priority first. The low lane leaves one slot for other commands.
+ */
+function pump() {
+  const limit = getCommandConcurrency()
+  const ordered = [...pending].sort((a, b) =>
+    PRIORITY_ORDER[a.entry.priority] - PRIORITY_ORDER[b.entry.priority] || a.entry.id - b.entry.id)
+
+  let started = false
+  for (const task of ordered) {
+    const { serial, priority } = task.entry
+    if (runningCount(serial) >= limit) continue
+    if (priority === 'low' && runningCount(serial, 'low') >= Math.max(1, limit - 1)) continue
+
+    pending.splice(pending.indexOf(task), 1)
+    start(task)
+    started = true
+  }
+
+  if (started) notify()
+}
+
+/**
+ * Queues `run` and resolves with its value. `run` receives a signal that
+ * aborts on timeout, on caller cancellation or from the queue panel.
+ */
+export function scheduleCommand<T>(run: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions<T>): Promise<T> {
+  if (options.signal?.aborted) return Promise.reject(createAbortError())
+
+  return new Promise<T>((resolve, reject) => {
+    const task: Task = {
+      entry: {
+        id: nextId++,
+        label: options.label,
+        serial: options.serial,
+        priority: options.priority ?? 'normal',
+        status: 'pending',
+        enqueuedAt: Date.now(),
+        retryable: false,
+      },
+      run,
+      options: options as ScheduleOptions<unknown>,
+      resolve: resolve as (value: unknown) => void,
+      reject,
+    }
+
+    // Cancelled while still waiting for a slot
+    options.signal?.addEventListener('abort', () => {
+      const index = pending.indexOf(task)
+      if (index === -1) return
+      pending.splice(index, 1)
+      finish(task, 'cancelled')
+      reject(createAbortError())
+      notify()
+    }, { once: true })
+
+    pending.push(task)
+    notify()
+    pump()
+  })
+}
+
+export function cancelCommand(id: number) {
+  const task = running.get(id) ?? pending.find(t => t.entry.id === id)
+  if (!task) return
+
+  if (task.controller) {
+    task.controller.abort(createAbortError())
+    return
+  }
+
+  pending.splice(pending.indexOf(task), 1)
+  finish(task, 'cancelled')
+  task.reject(createAbortError())
+  notify()
+}
+
+/**
+ * Cancels every pending command, optionally only those of one device
+ */
+export function cancelPendingCommands(serial?: string) {
+  pending
+    .filter(task => !serial || task.entry.serial === serial)
+    .forEach(task => cancelCommand(task.entry.id))
+}
+
+/**
+ * Runs a failed command again with its original options (without the
+ * caller's signal, which belongs to a finished operation). The new result
+ * goes to the caller and to the command's `onRetry`.
+ */
+export function retryCommand(id: number): Promise<unknown> | null {
+  const task = retryable.get(id)
+  if (!task) return null
+
+  retryable.delete(id)
+  const entry = finished.find(e => e.id === id)
+  if (entry) entry.retryable = false
+
+  const retried = scheduleCommand(task.run, { ...task.options, signal: undefined })
+  task.options.onRetry?.(retried)
+  return retried
+}
+
+export function clearFinishedCommands() {
+  finished.length = 0
+  retryable.clear()
+  notify()
+}
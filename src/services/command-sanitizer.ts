@@ -36,6 +36,48 @@ export function validatePackageName(packageName: string): string {
     return trimmed
 }
 
+// ============================================
+// COMPONENT NAME VALIDATION
+// ============================================
+
+/**
+ * Validates an app component (activity, service, receiver, provider) and
+ * returns it as `package/fully.qualified.Class`.
+ * Accepts `com.app/.Short`, `com.app/com.lib.Class` or just the class name.
+ * Nested classes keep their `$`, so the result must be quoted in commands.
+ */
+const COMPONENT_CLASS_REGEX = /^[a-zA-Z_$][a-zA-Z0-9_$]*(\.[a-zA-Z_$][a-zA-Z0-9_$]*){0,30}$/
+
+export function validateComponentName(packageName: string, component: string): string {
+    const safePackage = validatePackageName(packageName)
+    let className = component.trim()
+
+    if (className.includes('/')) {
+        const [owner, rest] = className.split('/', 2)
+        if (owner !== safePackage) {
+            throw new Error(`Component "${className}" does not belong to ${safePackage}`)
+        }
+        className = rest
+    }
+    if (className.startsWith('.')) {
+        className = safePackage + className
+    }
+
+    if (!className) {
+        throw new Error('Component name cannot be empty')
+    }
+
+    if (className.length > 512) {
+        throw new Error('Component name too long')
+    }
+
+    if (!COMPONENT_CLASS_REGEX.test(className)) {
+        throw new Error(`Invalid component name: "${className}". Components must be like com.example.app.MyService`)
+    }
+
+    return `${safePackage}/${className}`
+}
+
 // ============================================
 // FILE PATH VALIDATION
 // ============================================
@@ -49,7 +91,7 @@ export function validatePackageName(packageName: string): string {
  */
 const DANGEROUS_PATH_CHARS = /[;|&$`(){}<>!~\x00\n\r]/
 
-const ALLOWED_PATH_PREFIXES = [
+export const ALLOWED_PATH_PREFIXES = [
     '/data/local/tmp/',
     '/sdcard/',
     '/storage/',
@@ -63,7 +105,48 @@ const ALLOWED_PATH_PREFIXES = [
 
 export function validateFilePath(path: string, allowedPrefixes?: string[]): string {
     const trimmed = path.trim()
+    checkPathLength(trimmed)
+
+    // Block dangerous characters
+    if (DANGEROUS_PATH_CHARS.test(trimmed)) {
+        throw new Error(`File path contains dangerous characters: "${trimmed}"`)
+    }
+
+    return normalizeAllowedPath(trimmed, allowedPrefixes)
+}
+
+/**
+ * Like `validateFilePath`, for paths that reach the device only through the
+ * sync protocol or as a single quoted shell argument: names such as
+ * `IMG (1).jpg` or `/data/app/~~abc==/...` are fine there, so only control
+ * characters are blocked. Traversal and allowed roots are checked the same way.
+ */
+export function validateQuotedPath(path: string, allowedPrefixes?: string[]): string {
+    const trimmed = path.trim()
+    checkPathLength(trimmed)
+
+    if (/[\x00-\x1f]/.test(trimmed)) {
+        throw new Error(`File path contains control characters: "${trimmed}"`)
+    }
+
+    return normalizeAllowedPath(trimmed, allowedPrefixes)
+}
+
+/**
+ * APK path as printed by `pm path` (`package:` prefix removed). Android 11+
+ * installs user apps under `/data/app/~~<base64>==/<pkg>-<base64>==/`.
+ */
+const APK_PATH_REGEX = /^\/(?:data\/app|system|system_ext|product|vendor|apex)(?:\/[A-Za-z0-9._~=+-]+)+\.apk$/
+
+export function validateApkPath(path: string): string {
+    const trimmed = path.trim()
+    if (!APK_PATH_REGEX.test(trimmed) || trimmed.split('/').some(part => part === '.' || part === '..')) {
+        throw new Error(`Invalid APK path: "${trimmed}"`)
+    }
+    return trimmed
+}
 
+function checkPathLength(trimmed: string) {
     if (!trimmed) {
         throw new Error('File path cannot be empty')
     }
@@ -71,12 +154,9 @@ export function validateFilePath(path: string, allowedPrefixes?: string[]): stri
     if (trimmed.length > 1024) {
         throw new Error('File path too long')
     }
+}
 
-    // Block dangerous characters
-    if (DANGEROUS_PATH_CHARS.test(trimmed)) {
-        throw new Error(`File path contains dangerous characters: "${trimmed}"`)
-    }
-
+function normalizeAllowedPath(trimmed: string, allowedPrefixes?: string[]): string {
     // Must be absolute
     if (!trimmed.startsWith('/')) {
         throw new Error('File path must be absolute (start with /)')
@@ -98,7 +178,9 @@ export function validateFilePath(path: string, allowedPrefixes?: string[]): stri
 
     // Check against allowed prefixes
     const prefixes = allowedPrefixes || ALLOWED_PATH_PREFIXES
-    const isAllowed = prefixes.some(prefix => normalizedPath.startsWith(prefix))
+    // The allowed directory itself (e.g. "/sdcard") is accepted too
+    const isAllowed = prefixes.some(prefix =>
+        normalizedPath.startsWith(prefix) || `${normalizedPath}/` === prefix)
 
     if (!isAllowed) {
         throw new Error(`File path "${normalizedPath}" is not in an allowed directory`)
@@ -187,10 +269,10 @@ const ALLOWED_SETTING_KEYS = new Set([
 const SETTING_KEY_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]{0,128}$/
 
 /**
- * Validates a `settings get/put` command and returns it sanitized.
+ * Validates a `settings get/put/delete` command and returns it sanitized.
  */
 export function validateSettingsCommand(
-    action: 'get' | 'put',
+    action: 'get' | 'put' | 'delete',
     namespace: string,
     key: string,
     value?: string
@@ -207,8 +289,8 @@ export function validateSettingsCommand(
         throw new Error(`Setting key not in allowlist: "${key}"`)
     }
 
-    if (action === 'get') {
-        return `settings get ${namespace} ${key}`
+    if (action === 'get' || action === 'delete') {
+        return `settings ${action} ${namespace} ${key}`
     }
 
     if (value === undefined) {
@@ -0,0 +1,588 @@
+/**
+ * Device Snapshots Service
+ * Captures the device state managed by the app (package states, disabled
+ * components, granted runtime permissions, non-default appops, tracked
+ * settings and display overrides), stores snapshots locally in IndexedDB and computes diffs and
+ * rollback plans. Works without an account and sees changes made outside the app.
+ */
+
+import { shell } from './adb-client'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+import {
+  escapeShellArg,
+  validateAppOp,
+  validateComponentName,
+  validatePackageName,
+  validatePermission,
+  validateSettingsCommand
+} from './command-sanitizer'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SnapshotPackageState = 'enabled' | 'disabled' | 'uninstalled'
+
+export type SettingsNamespace = 'system' | 'secure' | 'global'
+
+export interface TrackedSetting {
+  namespace: SettingsNamespace
+  key: string
+}
+
+export interface DeviceStateData {
+  deviceSerial: string
+  deviceModel: string
+  packages: Record<string, SnapshotPackageState>
+  /** Disabled components per package (user 0); missing in snapshots taken before components were tracked */
+  components?: Record<string, string[]>
+  /** Granted runtime permissions per package (user 0) */
+  permissions: Record<string, string[]>
+  /** Per-package appops whose mode is neither allow nor default */
+  appops: Record<string, Record<string, string>>
+  /** `namespace/key` -> value (null when unset); `wm/size` and `wm/density` hold display overrides */
+  settings: Record<string, string | null>
+}
+
+export interface DeviceSnapshot extends DeviceStateData {
+  id: string
+  label: string
+  createdAt: string
+}
+
+export type SnapshotChangeKind = 'package' | 'component' | 'permission' | 'appop' | 'setting'
+
+export interface SnapshotChange {
+  kind: SnapshotChangeKind
+  packageName?: string
+  key: string
+  before: string | null
+  after: string | null
+}
+
+export interface RollbackStep extends SnapshotChange {
+  id: string
+  /** Commands that move the device from `before` to `after`; empty when not restorable */
+  commands: string[]
+}
+
+export interface RollbackStepResult {
+  step: RollbackStep
+  success: boolean
+  message: string
+}
+
+export interface SnapshotCaptureProgress {
+  stage: 'packages' | 'permissions' | 'appops' | 'settings'
+}
+
+// Settings written by PrivacyToolsPage and DeviceToolsPage
+export const TRACKED_SETTINGS: TrackedSetting[] = [
+  { namespace: 'global', key: 'adb_wifi_enabled' },
+  { namespace: 'secure', key: 'install_non_market_apps' },
+  { namespace: 'secure', key: 'usage_stats_enabled' },
+  { namespace: 'global', key: 'send_action_app_error' },
+  { namespace: 'global', key: 'private_dns_mode' },
+  { namespace: 'global', key: 'private_dns_specifier' },
+  { namespace: 'system', key: 'font_scale' },
+  { namespace: 'global', key: 'window_animation_scale' },
+  { namespace: 'global', key: 'transition_animation_scale' },
+  { namespace: 'global', key: 'animator_duration_scale' },
+  { namespace: 'system', key: 'screen_off_timeout' },
+  { namespace: 'system', key: 'screen_brightness_mode' },
+  { namespace: 'global', key: 'stay_on_while_plugged_in' },
+  { namespace: 'system', key: 'show_touches' },
+  { namespace: 'system', key: 'pointer_location' },
+  { namespace: 'global', key: 'force_gpu_rendering' },
+]
+
+const WM_SIZE_KEY = 'wm/size'
+const WM_DENSITY_KEY = 'wm/density'
+
+const APPOPS_MODES = new Set(['allow', 'ignore', 'deny', 'default', 'foreground'])
+
+// ============================================
+// INDEXEDDB STORAGE
+// ============================================
+
+const DB_NAME = 'adbzero_snapshots'
+const DB_VERSION = 1
+const SNAPSHOTS_STORE = 'snapshots'
+
+let dbInstance: IDBDatabase | null = null
+
+async function openDb(): Promise<IDBDatabase> {
+  if (dbInstance) return dbInstance
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      dbInstance = request.result
+      resolve(dbInstance)
+    }
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' })
+      }
+    }
+  })
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * All stored snapshots, newest first
+ */
+export async function listSnapshots(): Promise<DeviceSnapshot[]> {
+  const db = await openDb()
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly')
+  const snapshots = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).getAll() as IDBRequest<DeviceSnapshot[]>)
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function saveSnapshot(state: DeviceStateData, label: string): Promise<DeviceSnapshot> {
+  const createdAt = new Date().toISOString()
+  const snapshot: DeviceSnapshot = {
+    ...state,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label: label.trim() || new Date(createdAt).toLocaleString(),
+    createdAt,
+  }
+
+  const db = await openDb()
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite')
+  await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).put(snapshot))
+  return snapshot
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite')
+  await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).delete(id))
+}
+
+// ============================================
+// CAPTURE
+// ============================================
+
+export function parsePackageList(output: string): Set<string> {
+  return new Set(
+    output
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.startsWith('package:'))
+      .map(line => line.slice('package:'.length))
+  )
+}
+
+/**
+ * Granted runtime permissions of user 0 from `dumpsys package packages`
+ */
+export function parseRuntimePermissions(output: string): Record<string, string[]> {
+  const permissions: Record<string, string[]> = {}
+  let currentPackage: string | null = null
+  let currentUser: number | null = null
+  let inRuntime = false
+
+  for (const line of output.split('\n')) {
+    // Updated system apps are listed again with their factory state
+    if (line.startsWith('Hidden system packages:')) break
+
+    const packageMatch = line.match(/^\s*Package \[([^\]]+)\]/)
+    if (packageMatch) {
+      currentPackage = packageMatch[1]
+      currentUser = null
+      inRuntime = false
+      continue
+    }
+
+    const userMatch = line.match(/^\s*User (\d+):/)
+    if (userMatch) {
+      currentUser = parseInt(userMatch[1], 10)
+      inRuntime = false
+      continue
+    }
+
+    if (line.trim() === 'runtime permissions:') {
+      inRuntime = true
+      continue
+    }
+
+    if (!inRuntime || !currentPackage) continue
+
+    const permissionMatch = line.match(/^\s+([\w.]+): granted=(true|false)/)
+    if (!permissionMatch) {
+      inRuntime = false
+      continue
+    }
+    if (currentUser === 0 && permissionMatch[2] === 'true') {
+      (permissions[currentPackage] ??= []).push(permissionMatch[1])
+    }
+  }
+
+  return permissions
+}
+
+/**
+ * Disabled components of user 0 from `dumpsys package packages`
+ */
+export function parseDisabledComponents(output: string): Record<string, string[]> {
+  const components: Record<string, string[]> = {}
+  let currentPackage: string | null = null
+  let currentUser: number | null = null
+  let listIndent: number | null = null
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('Hidden system packages:')) break
+
+    const packageMatch = line.match(/^\s*Package \[([^\]]+)\]/)
+    if (packageMatch) {
+      currentPackage = packageMatch[1]
+      currentUser = null
+      listIndent = null
+      continue
+    }
+
+    const userMatch = line.match(/^\s*User (\d+):/)
+    if (userMatch) {
+      currentUser = parseInt(userMatch[1], 10)
+      listIndent = null
+      continue
+    }
+
+    if (line.trim() === 'disabledComponents:') {
+      listIndent = line.length - line.trimStart().length
+      continue
+    }
+
+    if (listIndent === null || !currentPackage) continue
+
+    // Entries are one level deeper than the header
+    const indent = line.length - line.trimStart().length
+    if (!line.trim() || indent <= listIndent) {
+      listIndent = null
+      continue
+    }
+    if (currentUser === 0) {
+      (components[currentPackage] ??= []).push(line.trim())
+    }
+  }
+
+  return components
+}
+
+/**
+ * Parses `appops get` output for many packages, separated by `#<package>` markers.
+ * UID-wide modes ("Uid mode: ...") are not tracked.
+ */
+export function parseAppOps(output: string): Record<string, Record<string, string>> {
+  const appops: Record<string, Record<string, string>> = {}
+  let currentPackage: string | null = null
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim()
+    if (line.startsWith('#')) {
+      currentPackage = line.slice(1)
+      continue
+    }
+    if (!currentPackage || line.startsWith('Uid mode:')) continue
+
+    // READ_CLIPBOARD: deny; time=+1d2h ago  /  COARSE_LOCATION (allow / switch ...): ignore
+    const match = line.match(/^([A-Z_]+)(?: \([^)]*\))?: ([a-z]+)/)
+    if (!match || match[2] === 'allow' || match[2] === 'default' || !APPOPS_MODES.has(match[2])) continue
+    (appops[currentPackage] ??= {})[match[1]] = match[2]
+  }
+
+  return appops
+}
+
+function parseWmOverride(output: string): string | null {
+  return output.match(/Override (?:size|density): (\S+)/)?.[1] ?? null
+}
+
+/**
+ * State of every package known to user 0, uninstalled-for-user ones included
+ */
+export async function readPackageStates(serial?: string): Promise<Record<string, SnapshotPackageState>> {
+  const allResult = await shell('pm list packages -u', serial)
+  if (allResult.exitCode !== 0) {
+    throw new Error('Unable to load package list')
+  }
+  const all = parsePackageList(allResult.stdout)
+  const installed = parsePackageList((await shell('pm list packages', serial)).stdout)
+  const disabled = parsePackageList((await shell('pm list packages -d', serial)).stdout)
+
+  const packages: Record<string, SnapshotPackageState> = {}
+  for (const name of [...all].sort()) {
+    packages[name] = !installed.has(name) ? 'uninstalled' : disabled.has(name) ? 'disabled' : 'enabled'
+  }
+  return packages
+}
+
+/**
+ * Reads the current device state. The appops pass runs one `appops get`
+ * per installed package in a single device-side loop.
+ */
+export async function captureDeviceState(options: {
+  serial?: string
+  deviceSerial: string
+  deviceModel: string
+  onProgress?: (progress: SnapshotCaptureProgress) => void
+}): Promise<DeviceStateData> {
+  const { serial, onProgress } = options
+
+  onProgress?.({ stage: 'packages' })
+  const packages = await readPackageStates(serial)
+
+  onProgress?.({ stage: 'permissions' })
+  const dump = await shell('dumpsys package packages', serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+  const permissions = parseRuntimePermissions(dump.stdout)
+  const components = parseDisabledComponents(dump.stdout)
+
+  onProgress?.({ stage: 'appops' })
+  const appopsResult = await shell(
+    'for p in $(pm list packages | cut -d: -f2); do echo "#$p"; appops get "$p" 2>/dev/null; done',
+    serial,
+    { timeout: ADB_LONG_COMMAND_TIMEOUT }
+  )
+  const appops = parseAppOps(appopsResult.stdout)
+
+  onProgress?.({ stage: 'settings' })
+  // namespace/key=value, one line per setting
+  const settingsResult = await shell(
+    TRACKED_SETTINGS
+      .map(({ namespace, key }) => `echo "${namespace}/${key}=$(${validateSettingsCommand('get', namespace, key)})"`)
+      .join('; '),
+    serial
+  )
+  const settings: Record<string, string | null> = {}
+  for (const line of settingsResult.stdout.split('\n')) {
+    const separator = line.indexOf('=')
+    if (separator === -1) continue
+    const value = line.slice(separator + 1).trim()
+    settings[line.slice(0, separator)] = value === 'null' ? null : value
+  }
+  settings[WM_SIZE_KEY] = parseWmOverride((await shell('wm size', serial)).stdout)
+  settings[WM_DENSITY_KEY] = parseWmOverride((await shell('wm density', serial)).stdout)
+
+  return {
+    deviceSerial: options.deviceSerial,
+    deviceModel: options.deviceModel,
+    packages,
+    components,
+    permissions,
+    appops,
+    settings,
+  }
+}
+
+// ============================================
+// DIFF & ROLLBACK
+// ============================================
+
+/**
+ * Changes needed to go from `before` to `after`. Permissions and appops are
+ * only compared for packages present in both states.
+ */
+export function diffDeviceStates(before: DeviceStateData, after: DeviceStateData): SnapshotChange[] {
+  const changes: SnapshotChange[] = []
+
+  const packageNames = [...new Set([...Object.keys(before.packages), ...Object.keys(after.packages)])].sort()
+  for (const name of packageNames) {
+    const from = before.packages[name] ?? null
+    const to = after.packages[name] ?? null
+    if (from !== to) changes.push({ kind: 'package', packageName: name, key: name, before: from, after: to })
+  }
+
+  for (const name of packageNames) {
+    if (!before.packages[name] || !after.packages[name]) continue
+
+    // Older snapshots did not record components: nothing to compare
+    if (before.components && after.components) {
+      const disabledBefore = new Set(before.components[name] ?? [])
+      const disabledAfter = new Set(after.components[name] ?? [])
+      for (const component of [...new Set([...disabledBefore, ...disabledAfter])].sort()) {
+        if (disabledBefore.has(component) === disabledAfter.has(component)) continue
+        changes.push({
+          kind: 'component',
+          packageName: name,
+          key: component,
+          before: disabledBefore.has(component) ? 'disabled' : 'enabled',
+          after: disabledAfter.has(component) ? 'disabled' : 'enabled',
+        })
+      }
+    }
+
+    const grantedBefore = new Set(before.permissions[name] ?? [])
+    const grantedAfter = new Set(after.permissions[name] ?? [])
+    for (const permission of [...new Set([...grantedBefore, ...grantedAfter])].sort()) {
+      if (grantedBefore.has(permission) === grantedAfter.has(permission)) continue
+      changes.push({
+        kind: 'permission',
+        packageName: name,
+        key: permission,
+        before: grantedBefore.has(permission) ? 'granted' : 'revoked',
+        after: grantedAfter.has(permission) ? 'granted' : 'revoked',
+      })
+    }
+
+    const opsBefore = before.appops[name] ?? {}
+    const opsAfter = after.appops[name] ?? {}
+    for (const op of [...new Set([...Object.keys(opsBefore), ...Object.keys(opsAfter)])].sort()) {
+      const from = opsBefore[op] ?? null
+      const to = opsAfter[op] ?? null
+      if (from !== to) changes.push({ kind: 'appop', packageName: name, key: op, before: from, after: to })
+    }
+  }
+
+  const settingKeys = [...new Set([...Object.keys(before.settings), ...Object.keys(after.settings)])]
+  for (const key of settingKeys) {
+    const from = before.settings[key] ?? null
+    const to = after.settings[key] ?? null
+    if (from !== to) changes.push({ kind: 'setting', key, before: from, after: to })
+  }
+
+  return changes
+}
+
+function packageCommands(name: string, from: string | null, to: string | null): string[] {
+  // Packages missing from the device entirely cannot be brought back
+  if (to === null || from === null) return []
+
+  const safeName = validatePackageName(name)
+  const restore = from === 'uninstalled' ? [`pm install-existing --user 0 ${safeName}`] : []
+  switch (to) {
+    case 'enabled':
+      return from === 'uninstalled' ? restore : [`pm enable ${safeName}`]
+    case 'disabled':
+      return [...restore, `pm disable-user --user 0 ${safeName}`]
+    case 'uninstalled':
+      return [`pm uninstall -k --user 0 ${safeName}`]
+    default:
+      return []
+  }
+}
+
+function settingCommands(key: string, to: string | null): string[] {
+  if (key === WM_SIZE_KEY) {
+    if (to === null) return ['wm size reset']
+    return /^\d{2,5}x\d{2,5}$/.test(to) ? [`wm size ${to}`] : []
+  }
+  if (key === WM_DENSITY_KEY) {
+    if (to === null) return ['wm density reset']
+    return /^\d{2,4}$/.test(to) ? [`wm density ${to}`] : []
+  }
+
+  const [namespace, name] = key.split('/')
+  if (to === null) return [validateSettingsCommand('delete', namespace, name)]
+  return [validateSettingsCommand('put', namespace, name, to === '' ? '""' : to)]
+}
+
+function stepCommands(change: SnapshotChange): string[] {
+  switch (change.kind) {
+    case 'package':
+      return packageCommands(change.key, change.before, change.after)
+    case 'component': {
+      const safeComponent = validateComponentName(change.packageName!, change.key)
+      return [`pm ${change.after === 'disabled' ? 'disable' : 'enable'} --user 0 "${escapeShellArg(safeComponent)}"`]
+    }
+    case 'permission': {
+      const safeName = validatePackageName(change.packageName!)
+      const safePermission = validatePermission(change.key)
+      return [`pm ${change.after === 'granted' ? 'grant' : 'revoke'} ${safeName} ${safePermission}`]
+    }
+    case 'appop': {
+      const mode = change.after ?? 'default'
+      if (!APPOPS_MODES.has(mode)) return []
+      return [`appops set ${validatePackageName(change.packageName!)} ${validateAppOp(change.key)} ${mode}`]
+    }
+    case 'setting':
+      return settingCommands(change.key, change.after)
+  }
+}
+
+const KIND_ORDER: Record<SnapshotChangeKind, number> = { package: 0, component: 1, permission: 2, appop: 3, setting: 4 }
+
+/**
+ * Steps that bring the live device back to `target`. Package state changes
+ * run first so permissions and appops apply to enabled packages.
+ */
+export function buildRollbackPlan(live: DeviceStateData, target: DeviceStateData): RollbackStep[] {
+  return diffDeviceStates(live, target)
+    .filter(change => {
+      // Packages installed after the snapshot are left alone
+      if (change.kind === 'package') return change.after !== null
+      // No point in restoring permissions of a package that gets uninstalled
+      return !change.packageName || target.packages[change.packageName] !== 'uninstalled'
+    })
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+    .map((change, index) => {
+      let commands: string[]
+      try {
+        commands = stepCommands(change)
+      } catch {
+        commands = []
+      }
+      return { ...change, id: `${index}-${change.kind}-${change.key}`, commands }
+    })
+}
+
+function isFailureOutput(output: string): boolean {
+  return /Exception|Failure|Error:|Unknown package|not found/i.test(output)
+}
+
+/**
+ * Runs the selected steps in order. A failing step does not stop the others.
+ */
+export async function executeRollbackPlan(
+  steps: RollbackStep[],
+  options: { serial?: string; onProgress?: (done: number, total: number, step: RollbackStep) => void } = {}
+): Promise<RollbackStepResult[]> {
+  const results: RollbackStepResult[] = []
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]
+    options.onProgress?.(i, steps.length, step)
+
+    if (step.commands.length === 0) {
+      results.push({ step, success: false, message: 'Not restorable' })
+      continue
+    }
+
+    let success = true
+    let message = ''
+    for (const command of step.commands) {
+      const result = await shell(command, options.serial)
+      const output = `${result.stdout}${result.stderr ?? ''}`.trim()
+      message = output || message
+      if (result.exitCode !== 0 || isFailureOutput(output)) {
+        success = false
+        break
+      }
+    }
+    results.push({ step, success, message })
+  }
+
+  return results
+}
+
+export function summarizeState(state: DeviceStateData) {
+  const states = Object.values(state.packages)
+  return {
+    packages: states.length,
+    disabled: states.filter(s => s === 'disabled').length,
+    uninstalled: states.filter(s => s === 'uninstalled').length,
+    components: Object.values(state.components ?? {}).reduce((total, list) => total + list.length, 0),
+    permissions: Object.values(state.permissions).reduce((total, list) => total + list.length, 0),
+    appops: Object.values(state.appops).reduce((total, ops) => total + Object.keys(ops).length, 0),
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * File Manager Service
+ * Browses device storage over the sync protocol. Paths are restricted to the
+ * shared prefix allowlist; app data and system partitions are only offered on
+ * rooted devices and go through `su` where the shell user lacks access.
+ * Every shell command single-quotes its paths, so names like `IMG (1).jpg` or
+ * the `~~…==` dirs under /data/app are allowed (`validateQuotedPath`).
+ */
+
+import {
+  listDirectory,
+  pullFile,
+  pushFile,
+  shell,
+  statFile,
+  type RemoteDirEntry,
+  type RemoteFileStat,
+  type TransferProgressCallback,
+} from './adb-client'
+import { ALLOWED_PATH_PREFIXES, validateQuotedPath } from './command-sanitizer'
+import { createZip, type ZipInputFile } from '@/lib/zip'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+export interface FileManagerRoot {
+  path: string
+  labelKey: string
+  requiresRoot: boolean
+  readOnly: boolean
+}
+
+export const FILE_MANAGER_ROOTS: FileManagerRoot[] = [
+  { path: '/sdcard', labelKey: 'fileManager.roots.sdcard', requiresRoot: false, readOnly: false },
+  { path: '/storage', labelKey: 'fileManager.roots.storage', requiresRoot: false, readOnly: false },
+  { path: '/data/local/tmp', labelKey: 'fileManager.roots.tmp', requiresRoot: false, readOnly: false },
+  { path: '/data/data', labelKey: 'fileManager.roots.appData', requiresRoot: true, readOnly: false },
+  { path: '/data/app', labelKey: 'fileManager.roots.apps', requiresRoot: true, readOnly: false },
+  { path: '/system', labelKey: 'fileManager.roots.system', requiresRoot: true, readOnly: true },
+  { path: '/vendor', labelKey: 'fileManager.roots.vendor', requiresRoot: true, readOnly: true },
+  { path: '/product', labelKey: 'fileManager.roots.product', requiresRoot: true, readOnly: true },
+]
+
+// Writable by the shell user through the sync service
+const SHELL_WRITABLE_PREFIXES = ['/data/local/tmp/', '/sdcard/', '/storage/']
+
+const STAGING_DIR = '/data/local/tmp'
+
+// Zip downloads are built in memory
+export const MAX_ZIP_TOTAL_SIZE = 1024 * 1024 * 1024
+
+export function getAvailableRoots(isRooted: boolean): FileManagerRoot[] {
+  return FILE_MANAGER_ROOTS.filter(root => !root.requiresRoot || isRooted)
+}
+
+export function findRoot(path: string): FileManagerRoot | undefined {
+  return FILE_MANAGER_ROOTS.find(root => path === root.path || path.startsWith(`${root.path}/`))
+}
+
+/**
+ * Validates a path against the shared allowlist and the roots offered to the user.
+ */
+export function validateBrowsePath(path: string, isRooted: boolean): string {
+  const safePath = validateQuotedPath(path, ALLOWED_PATH_PREFIXES)
+  const root = findRoot(safePath)
+  if (!root || (root.requiresRoot && !isRooted)) {
+    throw new Error(`Path "${safePath}" is not available on this device`)
+  }
+  return safePath
+}
+
+export function isRootPath(path: string): boolean {
+  return FILE_MANAGER_ROOTS.some(root => root.path === path)
+}
+
+/**
+ * Whether operations on `path` must go through `su`
+ */
+export function needsSu(path: string): boolean {
+  return !SHELL_WRITABLE_PREFIXES.some(prefix => `${path}/`.startsWith(prefix))
+}
+
+export function joinPath(directory: string, name: string): string {
+  return directory === '/' ? `/${name}` : `${directory}/${name}`
+}
+
+export function parentPath(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index <= 0 ? '/' : path.slice(0, index)
+}
+
+export function validateEntryName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed || trimmed === '.' || trimmed === '..' || trimmed.includes('/')) {
+    throw new Error('Invalid file name')
+  }
+  return trimmed
+}
+
+function assertWritable(path: string) {
+  if (findRoot(path)?.readOnly) throw new Error('This location is read-only')
+}
+
+function quotePath(path: string): string {
+  return `'${path.replace(/'/g, `'\\''`)}'`
+}
+
+// mv/rm -rf of large trees can outlast the default command timeout.
+// The su command is single-quoted too, so the quoted paths inside reach su untouched
+async function run(command: string, asRoot: boolean, serial?: string) {
+  const result = await shell(asRoot ? `su -c ${quotePath(command)}` : command, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr?.trim() || result.stdout.trim() || `Command failed: ${command}`)
+  }
+  return result
+}
+
+/**
+ * `stat` through su, for directories the shell user cannot read.
+ * Format: raw mode (hex) | size | mtime | name
+ */
+async function listDirectoryAsRoot(path: string, serial?: string): Promise<RemoteDirEntry[]> {
+  const result = await run(
+    `find ${quotePath(path)} -mindepth 1 -maxdepth 1 -exec stat -c '%f|%s|%Y|%n' {} +`,
+    true,
+    serial
+  )
+
+  const entries: RemoteDirEntry[] = []
+  for (const line of result.stdout.split('\n')) {
+    const parts = line.trim().split('|')
+    if (parts.length < 4) continue
+
+    const mode = parseInt(parts[0], 16)
+    const fullPath = parts.slice(3).join('|')
+    const type = (mode >> 12) & 0xf
+    entries.push({
+      name: fullPath.slice(fullPath.lastIndexOf('/') + 1),
+      path: fullPath,
+      mode,
+      permission: mode & 0o7777,
+      size: parseInt(parts[1], 10) || 0,
+      mtime: parseInt(parts[2], 10) || 0,
+      isDirectory: type === 0o04,
+      isSymlink: type === 0o12,
+    })
+  }
+  return entries
+}
+
+export async function listEntries(path: string, isRooted: boolean, serial?: string): Promise<RemoteDirEntry[]> {
+  const safePath = validateBrowsePath(path, isRooted)
+  const entries = needsSu(safePath) && isRooted
+    ? await listDirectoryAsRoot(safePath, serial)
+    : await listDirectory(safePath, serial)
+
+  return entries.sort((a, b) =>
+    Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name))
+}
+
+export async function statEntry(path: string, isRooted: boolean, serial?: string): Promise<RemoteFileStat | null> {
+  return statFile(validateBrowsePath(path, isRooted), serial)
+}
+
+export async function createFolder(directory: string, name: string, isRooted: boolean, serial?: string): Promise<string> {
+  const path = validateBrowsePath(joinPath(directory, validateEntryName(name)), isRooted)
+  assertWritable(path)
+  await run(`mkdir -p ${quotePath(path)}`, needsSu(path), serial)
+  return path
+}
+
+export async function renameEntry(path: string, newName: string, isRooted: boolean, serial?: string): Promise<string> {
+  const source = validateBrowsePath(path, isRooted)
+  if (isRootPath(source)) throw new Error('Storage roots cannot be renamed')
+  assertWritable(source)
+
+  const target = validateBrowsePath(joinPath(parentPath(source), validateEntryName(newName)), isRooted)
+  await run(`mv -n ${quotePath(source)} ${quotePath(target)}`, needsSu(source), serial)
+  return target
+}
+
+export async function deleteEntries(paths: string[], isRooted: boolean, serial?: string): Promise<void> {
+  const safePaths = paths.map(path => validateBrowsePath(path, isRooted))
+  if (safePaths.some(isRootPath)) throw new Error('Storage roots cannot be deleted')
+  safePaths.forEach(assertWritable)
+
+  for (const path of safePaths) {
+    await run(`rm -rf ${quotePath(path)}`, needsSu(path), serial)
+  }
+}
+
+function stagingPath(name: string): string {
+  return `${STAGING_DIR}/adbzero_fm_${Date.now()}_${name.replace(/[^a-zA-Z0-9._-]/g, '_')}`
+}
+
+/**
+ * Uploads a file into `directory`. Root-only locations are staged in
+ * /data/local/tmp and moved in place with su.
+ */
+export async function uploadFile(
+  directory: string,
+  file: File,
+  isRooted: boolean,
+  onProgress?: TransferProgressCallback,
+  options: { signal?: AbortSignal; serial?: string } = {}
+): Promise<string> {
+  const target = validateBrowsePath(joinPath(directory, validateEntryName(file.name)), isRooted)
+  assertWritable(target)
+
+  if (!needsSu(target)) {
+    await pushFile(file, target, onProgress, options)
+    return target
+  }
+
+  const staged = stagingPath(file.name)
+  await pushFile(file, staged, onProgress, options)
+  try {
+    await run(`mv ${quotePath(staged)} ${quotePath(target)}`, true, options.serial)
+  } catch (error) {
+    await shell(`rm -f ${quotePath(staged)}`, options.serial).catch(() => undefined)
+    throw error
+  }
+  return target
+}
+
+/**
+ * Reads a file. Files the shell user cannot read are copied to a staging
+ * location with su first.
+ */
+export async function downloadFile(
+  path: string,
+  isRooted: boolean,
+  onProgress?: TransferProgressCallback,
+  options: { signal?: AbortSignal; serial?: string } = {}
+): Promise<Uint8Array> {
+  const safePath = validateBrowsePath(path, isRooted)
+  if (!needsSu(safePath) || !isRooted) {
+    return pullFile(safePath, { ...options, onProgress })
+  }
+
+  const staged = stagingPath(safePath.slice(safePath.lastIndexOf('/') + 1))
+  await run(`cp ${quotePath(safePath)} ${quotePath(staged)} && chmod 644 ${quotePath(staged)}`, true, options.serial)
+  try {
+    return await pullFile(staged, { ...options, onProgress })
+  } finally {
+    await run(`rm -f ${quotePath(staged)}`, true, options.serial).catch(() => undefined)
+  }
+}
+
+/**
+ * Collects every file below the selected entries (directories are walked)
+ * and bundles them into a ZIP archive.
+ */
+export async function downloadAsZip(
+  entries: RemoteDirEntry[],
+  isRooted: boolean,
+  onProgress?: (done: number, total: number, current: string) => void,
+  options: { signal?: AbortSignal; serial?: string } = {}
+): Promise<Blob> {
+  const files: { entry: RemoteDirEntry; archiveName: string }[] = []
+
+  const walk = async (entry: RemoteDirEntry, prefix: string) => {
+    const archiveName = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isSymlink) return
+    if (!entry.isDirectory) {
+      files.push({ entry, archiveName })
+      return
+    }
+    for (const child of await listEntries(entry.path, isRooted, options.serial)) {
+      if (options.signal?.aborted) throw new DOMException('Transfer aborted', 'AbortError')
+      await walk(child, archiveName)
+    }
+  }
+
+  for (const entry of entries) {
+    await walk(entry, '')
+  }
+
+  const totalSize = files.reduce((total, { entry }) => total + entry.size, 0)
+  if (totalSize > MAX_ZIP_TOTAL_SIZE) {
+    throw new Error('Selection is too large to download as a ZIP')
+  }
+
+  const zipFiles: ZipInputFile[] = []
+  for (let i = 0; i < files.length; i++) {
+    const { entry, archiveName } = files[i]
+    onProgress?.(i, files.length, archiveName)
+    const data = await downloadFile(entry.path, isRooted, undefined, options)
+    zipFiles.push({ name: archiveName, data, mtime: new Date(entry.mtime * 1000) })
+  }
+  onProgress?.(files.length, files.length, '')
+
+  return createZip(zipFiles)
+}
+
+/**
+ * `drwxr-xr-x` style permission string
+ */
+export function formatPermissions(entry: Pick<RemoteFileStat, 'mode' | 'isDirectory' | 'isSymlink'>): string {
+  const type = entry.isSymlink ? 'l' : entry.isDirectory ? 'd' : '-'
+  const bits = ['r', 'w', 'x']
+  let result = type
+  for (let i = 8; i >= 0; i--) {
+    result += entry.mode & (1 << i) ? bits[(8 - i) % 3] : '-'
+  }
+  return result
+}
@@ -0,0 +1,429 @@
+/**
+ * Hosts Composer Service
+ * Builds a hosts file from the selected `HOSTS_LISTS` plus user rules:
+ * - parses mixed formats (hosts lines, plain domains, AdGuard `||domain^`)
+ * - dedupes across lists, drops allowlisted domains, adds a custom blocklist
+ * - diffs the result against the hosts file currently on the device
+ * Writes are root only. The original hosts file is backed up once, before the
+ * first write, and can be restored. When /system cannot be remounted the file
+ * is installed systemlessly through a Magisk module (active after reboot).
+ * Reading the device state never touches the mounts: /system is remounted
+ * only by the writes themselves.
+ */
+
+import { pushFile, shell, type ShellResult } from './adb-client'
+import { escapeShellArg } from './command-sanitizer'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+import { HOSTS_LISTS, type HostsList } from '@/data/hosts-lists'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HostsWriteTarget = 'system' | 'magisk'
+
+export interface HostsComposerConfig {
+  listIds: string[]
+  /** Never blocked; `*.example.com` also exempts every subdomain */
+  allowlist: string[]
+  /** Always blocked, on top of the lists */
+  blocklist: string[]
+}
+
+export interface HostsListSource {
+  list: HostsList
+  /** Null when the download failed */
+  text: string | null
+  error?: string
+}
+
+export interface HostsListStats {
+  listId: string
+  name: string
+  /** Valid domains in the list */
+  entries: number
+  /** Domains no previous list already contained */
+  unique: number
+  error?: string
+}
+
+export interface ComposedHosts {
+  domains: string[]
+  lists: HostsListStats[]
+  /** Entries dropped because another list already had them */
+  duplicates: number
+  /** Domains removed by the allowlist */
+  allowlisted: number
+  /** Blocklist domains not already in the lists */
+  customAdded: number
+}
+
+export interface HostsDiff {
+  added: string[]
+  removed: string[]
+  unchanged: number
+}
+
+export interface HostsDeviceState {
+  /** Blocked domains of the hosts file currently in use */
+  current: Set<string>
+  backupExists: boolean
+  /** /system is mounted read-write right now; when false a write tries a remount */
+  systemWritable: boolean
+  magiskAvailable: boolean
+  /** Module present and not already marked for removal */
+  moduleInstalled: boolean
+}
+
+const SYSTEM_HOSTS_PATH = '/system/etc/hosts'
+const HOSTS_BACKUP_PATH = '/data/local/tmp/adbzero-hosts.orig'
+const HOSTS_TEMP_PATH = '/data/local/tmp/adbzero-hosts'
+const MODULE_PROP_TEMP_PATH = '/data/local/tmp/adbzero-hosts.prop'
+const MAGISK_MODULE_ID = 'adbzero_hosts'
+const MAGISK_MODULE_DIR = `/data/adb/modules/${MAGISK_MODULE_ID}`
+
+const LOCAL_HOSTNAMES = new Set([
+  'localhost',
+  'localhost.localdomain',
+  'local',
+  'broadcasthost',
+  'ip6-localhost',
+  'ip6-loopback',
+  'ip6-localnet',
+  'ip6-mcastprefix',
+  'ip6-allnodes',
+  'ip6-allrouters',
+  'ip6-allhosts',
+  '0.0.0.0',
+])
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?\.)+[a-z0-9-]{2,63}$/
+const IP_PATTERN = /^(\d{1,3}(\.\d{1,3}){3}|[0-9a-f:]+:[0-9a-f:.]*)$/i
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Lowercases and validates a hostname; null for IPs, local names and garbage
+ */
+export function normalizeDomain(value: string): string | null {
+  const domain = value.trim().toLowerCase().replace(/\.$/, '')
+  if (!domain || LOCAL_HOSTNAMES.has(domain) || IP_PATTERN.test(domain)) return null
+  return DOMAIN_PATTERN.test(domain) ? domain : null
+}
+
+/**
+ * Extracts the blocked domains of a list in any of the supported formats:
+ * `0.0.0.0 a.com b.com`, `a.com`, `||a.com^`. AdGuard exceptions (`@@`),
+ * cosmetic rules and rules with modifiers other than `$important` are skipped
+ * since a hosts file cannot express them.
+ */
+export function parseHostsList(text: string): string[] {
+  const domains: string[] = []
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    if (!line || line.startsWith('!') || line.startsWith('[') || line.startsWith('@@')) continue
+
+    if (line.startsWith('||')) {
+      const match = line.match(/^\|\|([^/^$|*]+)\^(\$important)?$/)
+      const domain = match ? normalizeDomain(match[1]) : null
+      if (domain) domains.push(domain)
+      continue
+    }
+
+    const parts = line.split(/\s+/)
+    // Hosts format: the first column is the address, then one or more names
+    const names = parts.length > 1 && IP_PATTERN.test(parts[0]) ? parts.slice(1) : parts.slice(0, 1)
+    for (const name of names) {
+      const domain = normalizeDomain(name)
+      if (domain) domains.push(domain)
+    }
+  }
+
+  return domains
+}
+
+/**
+ * One rule per line (comments allowed), as typed in the allowlist/blocklist
+ */
+export function parseRuleList(text: string): string[] {
+  return [...new Set(text
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim().toLowerCase())
+    .filter(Boolean))]
+}
+
+function isAllowlisted(domain: string, exact: Set<string>, wildcards: string[]): boolean {
+  if (exact.has(domain)) return true
+  return wildcards.some(suffix => domain === suffix || domain.endsWith(`.${suffix}`))
+}
+
+/**
+ * Blocked domains of the hosts file on the device (only 0.0.0.0/127.0.0.1/::
+ * entries count, custom redirects are left alone)
+ */
+export function parseBlockedHosts(content: string): Set<string> {
+  const blocked = new Set<string>()
+  for (const rawLine of content.split('\n')) {
+    const parts = rawLine.replace(/#.*$/, '').trim().split(/\s+/)
+    if (parts.length < 2 || !['0.0.0.0', '127.0.0.1', '::', '::1'].includes(parts[0])) continue
+    for (const name of parts.slice(1)) {
+      const domain = normalizeDomain(name)
+      if (domain) blocked.add(domain)
+    }
+  }
+  return blocked
+}
+
+// ============================================
+// COMPOSE
+// ============================================
+
+/**
+ * Merges already downloaded lists with the user rules. Lists are counted in
+ * order, so `unique` tells how much each one adds to the ones before it.
+ */
+export function composeHosts(
+  sources: HostsListSource[],
+  config: Pick<HostsComposerConfig, 'allowlist' | 'blocklist'>
+): ComposedHosts {
+  const merged = new Set<string>()
+  const lists: HostsListStats[] = []
+  let duplicates = 0
+
+  for (const source of sources) {
+    const stats: HostsListStats = { listId: source.list.id, name: source.list.name, entries: 0, unique: 0, error: source.error }
+    const domains = source.text === null ? [] : new Set(parseHostsList(source.text))
+    for (const domain of domains) {
+      stats.entries++
+      if (merged.has(domain)) {
+        duplicates++
+      } else {
+        merged.add(domain)
+        stats.unique++
+      }
+    }
+    lists.push(stats)
+  }
+
+  let customAdded = 0
+  for (const rule of config.blocklist) {
+    const domain = normalizeDomain(rule)
+    if (domain && !merged.has(domain)) {
+      merged.add(domain)
+      customAdded++
+    }
+  }
+
+  const exact = new Set<string>()
+  const wildcards: string[] = []
+  for (const rule of config.allowlist) {
+    const domain = normalizeDomain(rule.replace(/^\*\./, ''))
+    if (!domain) continue
+    if (rule.startsWith('*.')) wildcards.push(domain)
+    else exact.add(domain)
+  }
+
+  const domains = [...merged].filter(domain => !isAllowlisted(domain, exact, wildcards)).sort()
+
+  return {
+    domains,
+    lists,
+    duplicates,
+    allowlisted: merged.size - domains.length,
+    customAdded,
+  }
+}
+
+/**
+ * Downloads the selected lists; a failing list is reported, not fatal
+ */
+export async function downloadHostsLists(
+  listIds: string[],
+  options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<HostsListSource[]> {
+  const lists = HOSTS_LISTS.filter(list => listIds.includes(list.id))
+  const sources: HostsListSource[] = []
+
+  for (const [index, list] of lists.entries()) {
+    options.onProgress?.(index, lists.length)
+    try {
+      const response = await fetch(list.url, { signal: options.signal })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      sources.push({ list, text: await response.text() })
+    } catch (error) {
+      if (options.signal?.aborted) throw error
+      sources.push({ list, text: null, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  options.onProgress?.(lists.length, lists.length)
+  return sources
+}
+
+export function diffHosts(current: Set<string>, domains: string[]): HostsDiff {
+  const next = new Set(domains)
+  const added = domains.filter(domain => !current.has(domain))
+  return {
+    added,
+    removed: [...current].filter(domain => !next.has(domain)).sort(),
+    unchanged: domains.length - added.length,
+  }
+}
+
+export function renderHostsFile(composed: ComposedHosts, listIds: string[]): string {
+  return [
+    '# ADBZero Hosts File',
+    `# Generated: ${new Date().toISOString()}`,
+    `# Lists: ${listIds.join(', ') || '-'}`,
+    `# Blocked: ${composed.domains.length} domains (${composed.allowlisted} allowlisted, ${composed.customAdded} custom)`,
+    '',
+    '127.0.0.1 localhost',
+    '::1 localhost',
+    '',
+    ...composed.domains.map(domain => `0.0.0.0 ${domain}`),
+    '',
+  ].join('\n')
+}
+
+// ============================================
+// DEVICE
+// ============================================
+
+async function su(command: string, serial?: string): Promise<ShellResult> {
+  return shell(`su -c "${escapeShellArg(command)}"`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+}
+
+/**
+ * Remounts /system (or / on system-as-root devices)
+ */
+function remountScript(mode: 'rw' | 'ro'): string {
+  return `(mount -o ${mode},remount /system 2>/dev/null || mount -o ${mode},remount / 2>/dev/null)`
+}
+
+export async function readHostsDeviceState(serial?: string): Promise<HostsDeviceState> {
+  const hosts = await su(`cat ${SYSTEM_HOSTS_PATH}`, serial)
+  if (hosts.exitCode !== 0) {
+    throw new Error(hosts.stderr || 'Unable to read the hosts file')
+  }
+
+  // Each probe prints a flag. The last /system mount (or / on system-as-root
+  // devices) in /proc/mounts tells whether it is already read-write
+  const probe = await su([
+    `[ -f ${HOSTS_BACKUP_PATH} ] && echo backup`,
+    `[ -d /data/adb/modules ] && echo magisk`,
+    `[ -f ${MAGISK_MODULE_DIR}/system/etc/hosts ] && [ ! -f ${MAGISK_MODULE_DIR}/remove ] && echo module`,
+    `{ grep ' /system ' /proc/mounts || grep ' / ' /proc/mounts; } | tail -n 1 | grep -q ' rw[ ,]' && echo writable`,
+    'true',
+  ].join('; '), serial)
+  const flags = new Set(probe.stdout.split(/\s+/))
+
+  return {
+    current: parseBlockedHosts(hosts.stdout),
+    backupExists: flags.has('backup'),
+    systemWritable: flags.has('writable'),
+    magiskAvailable: flags.has('magisk'),
+    moduleInstalled: flags.has('module'),
+  }
+}
+
+function modulePropContent(count: number): string {
+  return [
+    `id=${MAGISK_MODULE_ID}`,
+    'name=ADBZero Hosts',
+    `version=${new Date().toISOString().slice(0, 10)}`,
+    'versionCode=1',
+    'author=ADBZero',
+    `description=Systemless hosts file (${count} blocked domains)`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Installs the hosts file. The current /system hosts is copied to the backup
+ * path only when no backup exists yet, so the backup stays the original file
+ * across repeated installs.
+ */
+export async function installHostsFile(
+  content: string,
+  target: HostsWriteTarget,
+  options: { serial?: string; domainCount: number; signal?: AbortSignal }
+): Promise<ShellResult> {
+  const { serial, signal } = options
+  await pushFile(new TextEncoder().encode(content), HOSTS_TEMP_PATH, undefined, { serial, signal })
+
+  const backup = `[ -f ${HOSTS_BACKUP_PATH} ] || cp -p ${SYSTEM_HOSTS_PATH} ${HOSTS_BACKUP_PATH}`
+  let script: string
+
+  if (target === 'system') {
+    script = [
+      backup,
+      `${remountScript('rw')} && cp ${HOSTS_TEMP_PATH} ${SYSTEM_HOSTS_PATH} && chmod 644 ${SYSTEM_HOSTS_PATH}; status=$?`,
+      `chcon u:object_r:system_file:s0 ${SYSTEM_HOSTS_PATH} 2>/dev/null`,
+      remountScript('ro'),
+      `rm -f ${HOSTS_TEMP_PATH}`,
+      'exit $status',
+    ].join('; ')
+  } else {
+    await pushFile(new TextEncoder().encode(modulePropContent(options.domainCount)), MODULE_PROP_TEMP_PATH, undefined, { serial, signal })
+    script = [
+      backup,
+      `mkdir -p ${MAGISK_MODULE_DIR}/system/etc && cp ${MODULE_PROP_TEMP_PATH} ${MAGISK_MODULE_DIR}/module.prop && cp ${HOSTS_TEMP_PATH} ${MAGISK_MODULE_DIR}/system/etc/hosts && chmod 644 ${MAGISK_MODULE_DIR}/system/etc/hosts && rm -f ${MAGISK_MODULE_DIR}/remove ${MAGISK_MODULE_DIR}/disable; status=$?`,
+      `rm -f ${HOSTS_TEMP_PATH} ${MODULE_PROP_TEMP_PATH}`,
+      'exit $status',
+    ].join('; ')
+  }
+
+  return su(script, serial)
+}
+
+/**
+ * Puts the original hosts file back: the Magisk module gets the `remove`
+ * marker (the manager deletes it at the next boot) and the backup is copied
+ * over the system file. With a module installed /system was normally never
+ * touched, so a failed remount there does not fail the restore and the
+ * backup is kept.
+ */
+export async function restoreHostsFile(state: HostsDeviceState, serial?: string): Promise<ShellResult> {
+  const steps: string[] = []
+  if (state.moduleInstalled) {
+    steps.push(`touch ${MAGISK_MODULE_DIR}/remove`)
+  }
+  if (state.backupExists) {
+    const copy = `${remountScript('rw')} && cp ${HOSTS_BACKUP_PATH} ${SYSTEM_HOSTS_PATH} && chmod 644 ${SYSTEM_HOSTS_PATH}; status=$?; ${remountScript('ro')}; [ $status -eq 0 ] && rm -f ${HOSTS_BACKUP_PATH}`
+    steps.push(state.moduleInstalled ? `(${copy}); true` : copy)
+  }
+  if (steps.length === 0) {
+    return { exitCode: 1, stdout: '', stderr: 'Nothing to restore' }
+  }
+  return su(steps.join('; '), serial)
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+const CONFIG_STORAGE_KEY = 'adbloater_hosts_composer'
+
+export function loadHostsComposerConfig(defaultListIds: string[]): HostsComposerConfig {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY)
+    const parsed = stored ? JSON.parse(stored) as Partial<HostsComposerConfig> : null
+    if (parsed && Array.isArray(parsed.listIds)) {
+      return {
+        listIds: parsed.listIds,
+        allowlist: Array.isArray(parsed.allowlist) ? parsed.allowlist : [],
+        blocklist: Array.isArray(parsed.blocklist) ? parsed.blocklist : [],
+      }
+    }
+  } catch {
+    // Corrupted config: fall back to the defaults
+  }
+  return { listIds: defaultListIds, allowlist: [], blocklist: [] }
+}
+
+export function saveHostsComposerConfig(config: HostsComposerConfig): void {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config))
+}
@@ -0,0 +1,399 @@
+/**
+ * Input macros: touches, keys and text sent from the mirror, recorded with
+ * their timing and replayed later, through scrcpy or `input` shell commands.
+ *
+ * Touch positions are normalized (0..1) like recorded gestures, so a macro
+ * recorded at one resolution replays on any other. The recording screen size
+ * is kept to know the orientation, and shows in the macro list.
+ */
+
+import { shell } from './adb-client'
+import { escapeShellArg } from './command-sanitizer'
+import { delay, type TouchAction } from './touch-gestures'
+
+export type MacroEvent =
+    | { t: number, type: 'touch', action: TouchAction, pointerId: number, x: number, y: number }
+    | { t: number, type: 'key', action: 'down' | 'up', keyCode: number, metaState: number, repeat: number }
+    | { t: number, type: 'text', text: string }
+
+export interface InputMacro {
+    id: string
+    name: string
+    createdAt: string
+    /** ms */
+    duration: number
+    /** Video size while recording */
+    screen: { width: number, height: number }
+    events: MacroEvent[]
+}
+
+export type MacroReplayMethod = 'scrcpy' | 'shell'
+
+export interface MacroReplayOptions {
+    /** 2 = twice as fast */
+    speed?: number
+    loops?: number
+    signal?: AbortSignal
+    /** Called as each loop starts (1-based) */
+    onLoop?: (loop: number) => void
+}
+
+/** Where the scrcpy replay sends its events (ScrcpySession fits) */
+export interface MacroInputTarget {
+    sendTouch(action: TouchAction, x: number, y: number, pointerId: number): Promise<void>
+    sendKey(keyCode: number, action: 'down' | 'up', metaState: number, repeat: number): Promise<void>
+    sendText(text: string): Promise<void>
+}
+
+const MACROS_STORAGE_KEY = 'adbloater_input_macros'
+const MACRO_FILE_FORMAT = 'adbloater-macros'
+const MACRO_FILE_VERSION = 1
+
+/** Shell replay: a touch that moved less than this is a tap */
+const TAP_SLOP_PX = 16
+/** ...unless it was held longer than this */
+const LONG_PRESS_MS = 500
+
+// ============= RECORDING =============
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+export class MacroRecorder {
+    private startedAt: number | null = null
+    private events: MacroEvent[] = []
+    // Fingers/keys already down when recording started are left out
+    private pressedPointers = new Set<number>()
+    private pressedKeys = new Set<number>()
+
+    constructor(private screen: { width: number, height: number }) { }
+
+    private elapsed(): number {
+        const now = performance.now()
+        if (this.startedAt === null) this.startedAt = now
+        return Math.round(now - this.startedAt)
+    }
+
+    recordTouch(action: TouchAction, x: number, y: number, pointerId: number) {
+        if (action === 'down') this.pressedPointers.add(pointerId)
+        else if (!this.pressedPointers.has(pointerId)) return
+        if (action === 'up') this.pressedPointers.delete(pointerId)
+        this.events.push({ t: this.elapsed(), type: 'touch', action, pointerId, x: round(x), y: round(y) })
+    }
+
+    recordKey(keyCode: number, action: 'down' | 'up', metaState: number, repeat: number) {
+        if (action === 'down') this.pressedKeys.add(keyCode)
+        else if (!this.pressedKeys.delete(keyCode)) return
+        this.events.push({ t: this.elapsed(), type: 'key', action, keyCode, metaState, repeat })
+    }
+
+    recordText(text: string) {
+        this.events.push({ t: this.elapsed(), type: 'text', text })
+    }
+
+    /** Null when nothing was recorded */
+    finish(name: string): InputMacro | null {
+        const events = closeOpenInputs(this.events)
+        this.events = []
+        this.startedAt = null
+        this.pressedPointers.clear()
+        this.pressedKeys.clear()
+        if (events.length === 0) return null
+
+        return {
+            id: crypto.randomUUID(),
+            name,
+            createdAt: new Date().toISOString(),
+            duration: events[events.length - 1].t,
+            screen: this.screen,
+            events
+        }
+    }
+}
+
+/** Recording stopped with fingers or keys still down: release them at the end */
+function closeOpenInputs(events: MacroEvent[]): MacroEvent[] {
+    const touches = new Map<number, MacroEvent & { type: 'touch' }>()
+    const keys = new Map<number, MacroEvent & { type: 'key' }>()
+    for (const event of events) {
+        if (event.type === 'touch') {
+            if (event.action === 'up') touches.delete(event.pointerId)
+            else touches.set(event.pointerId, event)
+        } else if (event.type === 'key') {
+            if (event.action === 'up') keys.delete(event.keyCode)
+            else keys.set(event.keyCode, event)
+        }
+    }
+
+    const end = events.length > 0 ? events[events.length - 1].t : 0
+    return [
+        ...events,
+        ...[...touches.values()].map(last => ({ ...last, t: end, action: 'up' as const })),
+        ...[...keys.values()].map(last => ({ ...last, t: end, action: 'up' as const, repeat: 0 }))
+    ]
+}
+
+export function countMacroEvents(macro: InputMacro): { touches: number, keys: number, texts: number } {
+    let touches = 0
+    let keys = 0
+    let texts = 0
+    for (const event of macro.events) {
+        if (event.type === 'touch' && event.action === 'down') touches++
+        if (event.type === 'key' && event.action === 'down' && event.repeat === 0) keys++
+        if (event.type === 'text') texts++
+    }
+    return { touches, keys, texts }
+}
+
+// ============= REPLAY =============
+
+/**
+ * Runs timed steps `loops` times, `speed` times faster than recorded.
+ * `release` runs after every loop, also on abort.
+ */
+async function runLoops<T extends { t: number }>(
+    steps: T[],
+    run: (step: T) => Promise<void>,
+    release: () => Promise<void>,
+    options: MacroReplayOptions
+): Promise<void> {
+    const speed = options.speed && options.speed > 0 ? options.speed : 1
+    const loops = Math.max(1, Math.floor(options.loops ?? 1))
+
+    for (let loop = 1; loop <= loops; loop++) {
+        if (options.signal?.aborted) return
+        options.onLoop?.(loop)
+        const startedAt = performance.now()
+        try {
+            for (const step of steps) {
+                const wait = step.t / speed - (performance.now() - startedAt)
+                if (wait > 0) await delay(wait, options.signal)
+                if (options.signal?.aborted) return
+                await run(step)
+            }
+        } finally {
+            await release()
+        }
+    }
+}
+
+/**
+ * Replays through a scrcpy session: multi-touch, held keys and exact timing.
+ * Fingers and keys still down on abort are released.
+ */
+export async function replayMacro(macro: InputMacro, target: MacroInputTarget, options: MacroReplayOptions = {}): Promise<void> {
+    const touches = new Map<number, { x: number, y: number }>()
+    const keys = new Map<number, number>()
+
+    await runLoops(
+        macro.events,
+        async (event) => {
+            switch (event.type) {
+                case 'touch':
+                    await target.sendTouch(event.action, event.x, event.y, event.pointerId)
+                    if (event.action === 'up') touches.delete(event.pointerId)
+                    else touches.set(event.pointerId, event)
+                    break
+                case 'key':
+                    await target.sendKey(event.keyCode, event.action, event.metaState, event.repeat)
+                    if (event.action === 'up') keys.delete(event.keyCode)
+                    else keys.set(event.keyCode, event.metaState)
+                    break
+                case 'text':
+                    await target.sendText(event.text)
+                    break
+            }
+        },
+        async () => {
+            for (const [pointerId, position] of touches) {
+                await target.sendTouch('up', position.x, position.y, pointerId)
+            }
+            for (const [keyCode, metaState] of keys) {
+                await target.sendKey(keyCode, 'up', metaState, 0)
+            }
+            touches.clear()
+            keys.clear()
+        },
+        options
+    )
+}
+
+export interface ShellStep {
+    t: number
+    command: string
+}
+
+/**
+ * Macro -> `input` commands for a screen of the given size. `input` has no
+ * multi-touch or held keys: each finger becomes a tap or a straight swipe
+ * (start to end, same duration), each key a `keyevent`.
+ */
+export function buildShellSteps(macro: InputMacro, screen: { width: number, height: number }, speed = 1): ShellStep[] {
+    const px = (value: number, size: number) => Math.round(value * (size - 1))
+    const steps: ShellStep[] = []
+    const strokes = new Map<number, { t: number, x: number, y: number }>()
+    const texts: { text: string, end: number }[] = []
+
+    for (const event of macro.events) {
+        if (event.type === 'touch') {
+            if (event.action === 'down') {
+                strokes.set(event.pointerId, event)
+                continue
+            }
+            const start = strokes.get(event.pointerId)
+            if (!start || event.action !== 'up') continue
+            strokes.delete(event.pointerId)
+
+            const x0 = px(start.x, screen.width)
+            const y0 = px(start.y, screen.height)
+            const x1 = px(event.x, screen.width)
+            const y1 = px(event.y, screen.height)
+            const duration = event.t - start.t
+            const command = Math.hypot(x1 - x0, y1 - y0) < TAP_SLOP_PX && duration < LONG_PRESS_MS
+                ? `input tap ${x0} ${y0}`
+                : `input swipe ${x0} ${y0} ${x1} ${y1} ${Math.max(1, Math.round(duration / speed))}`
+            steps.push({ t: start.t, command })
+        } else if (event.type === 'key') {
+            if (event.action === 'down' && event.repeat === 0) {
+                steps.push({ t: event.t, command: `input keyevent ${event.keyCode}` })
+            }
+        } else if (event.text) {
+            // Typing sends one character per key: one `input text` per run of characters
+            const last = texts[texts.length - 1]
+            if (last && last.end === steps.length - 1) {
+                last.text += event.text
+            } else {
+                steps.push({ t: event.t, command: '' })
+                texts.push({ text: event.text, end: steps.length - 1 })
+            }
+        }
+    }
+
+    // `input text` reads %s as a space
+    for (const { text, end } of texts) {
+        steps[end].command = `input text "${escapeShellArg(text.replace(/ /g, '%s'))}"`
+    }
+    return steps.sort((a, b) => a.t - b.t)
+}
+
+/** `wm size`, override included; oriented like the recording */
+async function getShellScreenSize(serial: string | undefined, recorded: { width: number, height: number }): Promise<{ width: number, height: number }> {
+    const output = (await shell('wm size', serial)).stdout
+    const sizes = [...output.matchAll(/(\d+)x(\d+)/g)]
+    const last = sizes[sizes.length - 1]
+    if (!last) throw new Error('Could not read the screen size')
+
+    const a = Number(last[1])
+    const b = Number(last[2])
+    const landscape = recorded.width > recorded.height
+    return landscape
+        ? { width: Math.max(a, b), height: Math.min(a, b) }
+        : { width: Math.min(a, b), height: Math.max(a, b) }
+}
+
+/**
+ * Replays with `input` shell commands: works without a mirror session.
+ * The device should be in the orientation the macro was recorded in.
+ */
+export async function replayMacroWithShell(macro: InputMacro, options: MacroReplayOptions = {}, serial?: string): Promise<void> {
+    const screen = await getShellScreenSize(serial, macro.screen)
+    const steps = buildShellSteps(macro, screen, options.speed)
+
+    await runLoops(
+        steps,
+        async (step) => {
+            await shell(step.command, serial, { signal: options.signal }).catch((error) => {
+                if (!options.signal?.aborted) throw error
+            })
+        },
+        async () => { },
+        options
+    )
+}
+
+// ============= STORAGE =============
+
+export function loadMacros(): InputMacro[] {
+    try {
+        const stored = localStorage.getItem(MACROS_STORAGE_KEY)
+        const parsed = stored ? JSON.parse(stored) : null
+        if (Array.isArray(parsed)) return parsed
+    } catch {
+        // Corrupted storage: start empty
+    }
+    return []
+}
+
+export function saveMacros(macros: InputMacro[]): void {
+    localStorage.setItem(MACROS_STORAGE_KEY, JSON.stringify(macros))
+}
+
+// ============= IMPORT / EXPORT =============
+
+export function downloadMacros(macros: InputMacro[], fileName: string) {
+    const file = { format: MACRO_FILE_FORMAT, version: MACRO_FILE_VERSION, macros }
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${fileName.replace(/[^\w.-]+/g, '_')}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value)
+
+const isUnit = (value: unknown): value is number =>
+    isNumber(value) && value >= 0 && value <= 1
+
+function isMacroEvent(value: unknown): value is MacroEvent {
+    if (!isObject(value) || !isNumber(value.t) || value.t < 0) return false
+    switch (value.type) {
+        case 'touch':
+            return (value.action === 'down' || value.action === 'move' || value.action === 'up')
+                && isNumber(value.pointerId) && isUnit(value.x) && isUnit(value.y)
+        case 'key':
+            return (value.action === 'down' || value.action === 'up')
+                && isNumber(value.keyCode) && isNumber(value.metaState) && isNumber(value.repeat)
+        case 'text':
+            return typeof value.text === 'string'
+        default:
+            return false
+    }
+}
+
+function isScreenSize(value: unknown): value is InputMacro['screen'] {
+    return isObject(value) && isNumber(value.width) && isNumber(value.height) && value.width > 0 && value.height > 0
+}
+
+/**
+ * Reads an exported file (or a bare macro / array of macros). Imported
+ * macros get new ids so they never replace existing ones.
+ */
+export function parseMacroFile(content: string): InputMacro[] {
+    const parsed: unknown = JSON.parse(content)
+    const list: unknown[] = Array.isArray(parsed)
+        ? parsed
+        : isObject(parsed) && Array.isArray(parsed.macros) ? parsed.macros : [parsed]
+
+    const macros = list.flatMap((item): InputMacro[] => {
+        if (!isObject(item) || typeof item.name !== 'string' || !Array.isArray(item.events)) return []
+        const events: unknown[] = item.events
+        if (!events.every(isMacroEvent)) return []
+        return [{
+            id: crypto.randomUUID(),
+            name: item.name,
+            createdAt: typeof item.createdAt === 'string' ? item.createdAt : new Date().toISOString(),
+            duration: events.length > 0 ? Math.max(...events.map(event => event.t)) : 0,
+            screen: isScreenSize(item.screen) ? { width: item.screen.width, height: item.screen.height } : { width: 1080, height: 2400 },
+            events: [...events].sort((a, b) => a.t - b.t)
+        }]
+    })
+    if (macros.length === 0) throw new Error('No valid macros in file')
+    return macros
+}
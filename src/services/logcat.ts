@@ -0,0 +1,208 @@
+/**
+ * Logcat Service
+ * Streams `logcat -v threadtime` from the connected device and parses it
+ * into structured entries. Uses the `Adb` transport from adb-client.
+ */
+
+import { getAdb, shell } from './adb-client'
+import { validatePackageName } from './command-sanitizer'
+
+export type LogLevel = 'V' | 'D' | 'I' | 'W' | 'E' | 'F'
+
+export const LOG_LEVELS: LogLevel[] = ['V', 'D', 'I', 'W', 'E', 'F']
+
+export interface LogEntry {
+  id: number
+  /** MM-DD as printed by logcat */
+  date: string
+  /** HH:MM:SS.mmm */
+  time: string
+  pid: number
+  tid: number
+  level: LogLevel
+  tag: string
+  message: string
+  isCrash: boolean
+}
+
+// 01-23 12:34:56.789  1234  5678 E Tag     : message
+const THREADTIME_PATTERN = /^(\d{2}-\d{2})\s+(\d{2}:\d{2}:\d{2}\.\d{3})\s+(\d+)\s+(\d+)\s+([VDIWEFA])\s+(.*?)\s*:\s(.*)$/
+
+// ActivityManager: "Start proc 12345:com.example/u0a123 for activity ..."
+const PROCESS_START_PATTERN = /Start proc (\d+):([a-zA-Z0-9_.]+)(?::[\w.]+)?\//
+
+// Entry ids stay unique across stream restarts
+let nextId = 0
+
+/**
+ * Parses one threadtime line. Returns null for headers such as
+ * `--------- beginning of main`.
+ */
+export function parseLogcatLine(line: string, id: number): LogEntry | null {
+  const match = line.match(THREADTIME_PATTERN)
+  if (!match) return null
+
+  // `A` (assert) is shown as fatal
+  const level = (match[5] === 'A' ? 'F' : match[5]) as LogLevel
+  const tag = match[6].trim()
+  const message = match[7]
+
+  return {
+    id,
+    date: match[1],
+    time: match[2],
+    pid: parseInt(match[3], 10),
+    tid: parseInt(match[4], 10),
+    level,
+    tag,
+    message,
+    isCrash: isCrashLine(level, tag, message),
+  }
+}
+
+/**
+ * Java crashes (AndroidRuntime), native crashes (libc / tombstoned DEBUG) and ANRs
+ */
+function isCrashLine(level: LogLevel, tag: string, message: string): boolean {
+  if (level === 'F') return true
+  if (tag === 'AndroidRuntime' && level === 'E') return true
+  if (tag === 'DEBUG' && level === 'E') return true
+  if (tag === 'libc' && message.includes('Fatal signal')) return true
+  if (tag === 'ActivityManager' && message.startsWith('ANR in')) return true
+  return false
+}
+
+/**
+ * PID announced by ActivityManager when a package's process starts, if any
+ */
+export function parseProcessStart(entry: LogEntry): { pid: number; packageName: string } | null {
+  if (entry.tag !== 'ActivityManager') return null
+  const match = entry.message.match(PROCESS_START_PATTERN)
+  return match ? { pid: parseInt(match[1], 10), packageName: match[2] } : null
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+  return `${entry.date} ${entry.time} ${String(entry.pid).padStart(5)} ${String(entry.tid).padStart(5)} ${entry.level} ${entry.tag}: ${entry.message}`
+}
+
+/**
+ * Fixed-capacity buffer: the oldest entries are overwritten once full.
+ */
+export class LogRingBuffer<T> {
+  private items: (T | undefined)[]
+  private start = 0
+  private count = 0
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity)
+  }
+
+  get size(): number {
+    return this.count
+  }
+
+  push(item: T) {
+    const index = (this.start + this.count) % this.capacity
+    this.items[index] = item
+    if (this.count < this.capacity) {
+      this.count++
+    } else {
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  clear() {
+    this.items = new Array(this.capacity)
+    this.start = 0
+    this.count = 0
+  }
+
+  toArray(): T[] {
+    const result: T[] = new Array(this.count)
+    for (let i = 0; i < this.count; i++) {
+      result[i] = this.items[(this.start + i) % this.capacity] as T
+    }
+    return result
+  }
+}
+
+/**
+ * PIDs of the running processes of a package (including `:service` processes)
+ */
+export async function resolvePackagePids(packageName: string, serial?: string): Promise<number[]> {
+  const safeName = validatePackageName(packageName)
+
+  // Android 8+: `ps -A`; older toybox/toolbox `ps` lists everything by default
+  const result = await shell('ps -A -o PID,NAME 2>/dev/null || ps', serial)
+
+  const pids: number[] = []
+  for (const line of result.stdout.split('\n')) {
+    const columns = line.trim().split(/\s+/)
+    const name = columns[columns.length - 1]
+    if (name !== safeName && !name?.startsWith(`${safeName}:`)) continue
+
+    // `ps -o PID,NAME` puts the PID first, legacy `ps` has it in the second column
+    const pid = parseInt(columns.length === 2 ? columns[0] : columns[1], 10)
+    if (Number.isInteger(pid)) pids.push(pid)
+  }
+  return pids
+}
+
+export interface LogcatStreamOptions {
+  serial?: string
+  /** Lines of history printed before following (`-T`) */
+  tail?: number
+  signal?: AbortSignal
+  onEntries: (entries: LogEntry[]) => void
+}
+
+/**
+ * Follows `logcat -v threadtime` until aborted or the device goes away.
+ * Entries are delivered per received chunk.
+ */
+export async function streamLogcat(options: LogcatStreamOptions): Promise<void> {
+  const adb = getAdb(options.serial)
+  if (!adb) {
+    throw new Error('No connected device')
+  }
+
+  const tail = Math.max(0, Math.floor(options.tail ?? 500))
+  const command = tail > 0 ? `logcat -v threadtime -T ${tail}` : 'logcat -v threadtime'
+  const logcat = await adb.subprocess.noneProtocol.spawn(command)
+
+  const stop = () => {
+    void Promise.resolve(logcat.kill()).catch(() => undefined)
+  }
+  if (options.signal?.aborted) stop()
+  options.signal?.addEventListener('abort', stop, { once: true })
+
+  const decoder = new TextDecoder()
+  const reader = logcat.output.getReader()
+  let remainder = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      const text = remainder + decoder.decode(value, { stream: true })
+      const lines = text.split('\n')
+      remainder = lines.pop() ?? ''
+
+      const entries: LogEntry[] = []
+      for (const line of lines) {
+        const entry = parseLogcatLine(line.replace(/\r$/, ''), nextId)
+        if (entry) {
+          entries.push(entry)
+          nextId++
+        }
+      }
+      if (entries.length > 0) options.onEntries(entries)
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) throw error
+  } finally {
+    options.signal?.removeEventListener('abort', stop)
+    reader.releaseLock()
+  }
+}
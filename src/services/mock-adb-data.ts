@@ -10,6 +10,8 @@ export const MOCK_DEVICE_INFO: DeviceInfo = {
     batteryStatus: 'Discharging',
     screenResolution: '1440x3120',
     screenDensity: '560',
+    abis: ['arm64-v8a', 'armeabi-v7a', 'armeabi'],
+    locale: 'en-US',
     isRooted: false,
 }
 
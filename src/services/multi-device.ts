@@ -0,0 +1,140 @@
+/**
+ * Multi-Device Operations
+ * Esegue la stessa operazione su più dispositivi connessi in parallelo
+ */
+
+import {
+  disableComponent,
+  disablePackage,
+  enableComponent,
+  enablePackage,
+  installApk,
+  isPmSuccess,
+  listPackages,
+  type PackageInfo,
+  type ShellResult,
+  type TransferProgressCallback
+} from './adb-client'
+import { installBundle, type ApkBundle, type BundleSplit } from './apk-bundle'
+import type { BatchComponentRule } from './batch-operations'
+
+export interface DeviceTaskResult<T> {
+  serial: string
+  ok: boolean
+  value?: T
+  error?: string
+}
+
+export interface PackageBatchResult {
+  succeeded: string[]
+  failed: { packageName: string; error: string }[]
+  packages: PackageInfo[]
+}
+
+export type DeviceBatchProgress = (serial: string, done: number, total: number, packageName: string) => void
+
+/**
+ * Runs `task` once per device; a failing device never stops the others.
+ */
+export async function runOnDevices<T>(
+  serials: string[],
+  task: (serial: string) => Promise<T>
+): Promise<DeviceTaskResult<T>[]> {
+  const settled = await Promise.allSettled(serials.map(serial => task(serial)))
+
+  return settled.map((outcome, index) => outcome.status === 'fulfilled'
+    ? { serial: serials[index], ok: true, value: outcome.value }
+    : {
+      serial: serials[index],
+      ok: false,
+      error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+    })
+}
+
+/**
+ * Abilita/disabilita una lista di pacchetti su ogni dispositivo.
+ * I pacchetti di un singolo dispositivo vengono processati in sequenza,
+ * i dispositivi tra loro in parallelo. Restituisce anche la lista pacchetti aggiornata.
+ * I comandi usano la coda a priorità bassa; `signal` interrompe il batch.
+ * Le regole sui componenti vengono applicate dopo i pacchetti (nei risultati come `pkg/Classe`).
+ */
+export async function applyPackagesOnDevices(
+  serials: string[],
+  packageNames: string[],
+  enable: boolean,
+  onProgress?: DeviceBatchProgress,
+  signal?: AbortSignal,
+  components: BatchComponentRule[] = []
+): Promise<DeviceTaskResult<PackageBatchResult>[]> {
+  return runOnDevices(serials, async (serial) => {
+    const installed = new Set((await listPackages(serial)).map(p => p.packageName))
+    const tasks: { packageName: string; component?: string }[] = [
+      ...packageNames.filter(name => installed.has(name)).map(packageName => ({ packageName })),
+      ...components.filter(rule => installed.has(rule.packageName)),
+    ]
+    const batch: PackageBatchResult = { succeeded: [], failed: [], packages: [] }
+
+    for (let i = 0; i < tasks.length; i++) {
+      const { packageName, component } = tasks[i]
+      const name = component ? `${packageName}/${component}` : packageName
+      onProgress?.(serial, i, tasks.length, name)
+
+      if (signal?.aborted) break
+
+      try {
+        const options = { priority: 'low' as const, signal }
+        let result: ShellResult
+        if (component) {
+          result = enable
+            ? await enableComponent(packageName, component, serial, options)
+            : await disableComponent(packageName, component, serial, options)
+        } else {
+          result = enable
+            ? await enablePackage(packageName, serial, options)
+            : await disablePackage(packageName, serial, options)
+        }
+
+        if (isPmSuccess(result)) {
+          batch.succeeded.push(name)
+        } else {
+          batch.failed.push({ packageName: name, error: result.stderr || result.stdout })
+        }
+      } catch (error) {
+        if (signal?.aborted) break
+        batch.failed.push({ packageName: name, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    onProgress?.(serial, tasks.length, tasks.length, '')
+    batch.packages = await listPackages(serial)
+    return batch
+  })
+}
+
+/**
+ * Installa lo stesso APK (o bundle) su tutti i dispositivi selezionati
+ */
+export async function installOnDevices(
+  serials: string[],
+  source: { file: Blob } | { bundle: ApkBundle; splits: (serial: string) => BundleSplit[] },
+  onProgress?: (serial: string, progress: number) => void,
+  signal?: AbortSignal
+): Promise<DeviceTaskResult<string>[]> {
+  return runOnDevices(serials, async (serial) => {
+    if ('bundle' in source) {
+      const result = await installBundle(source.bundle, source.splits(serial), {
+        serial,
+        signal,
+        onProgress: (progress) => onProgress?.(serial, progress.overall)
+      })
+      return result.message
+    }
+
+    const report: TransferProgressCallback = (progress) => onProgress?.(serial, progress)
+    const result = await installApk(source.file, report, { serial, signal })
+    if (result.exitCode !== 0 && !result.stdout.includes('Success')) {
+      throw new Error(result.stderr || result.stdout || 'Install failed')
+    }
+    return result.stdout.trim()
+  })
+}
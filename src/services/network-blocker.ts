@@ -0,0 +1,294 @@
+/**
+ * Network Blocker Service
+ * Per-app network restrictions without uninstalling:
+ * - non-root: background data on metered networks (`cmd netpolicy`
+ *   restrict-background blacklist) and the global data saver
+ * - root: REJECT rules keyed on the app UID in a dedicated iptables/ip6tables
+ *   chain hooked into OUTPUT, separately for Wi-Fi and mobile interfaces
+ * Rules are stored by package name in a local profile; UIDs are resolved at
+ * apply time because they change when an app is reinstalled. Firewall rules
+ * do not survive a reboot, hence the re-apply.
+ */
+
+import { shell, type ShellResult } from './adb-client'
+import { escapeShellArg } from './command-sanitizer'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AppNetworkState {
+  packageName: string
+  uid: number
+  isSystem: boolean
+  /** No background data on metered networks */
+  restrictBackground: boolean
+  blockWifi: boolean
+  blockMobile: boolean
+}
+
+export type NetworkRule = Pick<AppNetworkState, 'restrictBackground' | 'blockWifi' | 'blockMobile'>
+
+export interface NetworkProfile {
+  updatedAt: string
+  /** Data saver to restore; null when the profile never set it */
+  dataSaver: boolean | null
+  rules: Record<string, NetworkRule>
+}
+
+export interface NetworkStatus {
+  dataSaver: boolean
+  /** False when iptables could not be read as root */
+  firewallAvailable: boolean
+  apps: AppNetworkState[]
+}
+
+export interface ProfileApplyResult {
+  applied: number
+  /** Packages of the profile that are not installed */
+  missing: string[]
+  errors: string[]
+}
+
+export const FIREWALL_CHAIN = 'adbzero'
+
+const WIFI_INTERFACES = ['wlan+']
+const MOBILE_INTERFACES = ['rmnet+', 'ccmni+']
+const FIREWALL_TOOLS = ['iptables', 'ip6tables']
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * `pm list packages -U` -> package name -> UID
+ */
+export function parsePackageUids(output: string): Map<string, number> {
+  const uids = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    // package:com.example uid:10123  (shared UIDs may be listed as uid:10123,10124)
+    const match = line.trim().match(/^package:(\S+) uid:(\d+)/)
+    if (match) uids.set(match[1], parseInt(match[2], 10))
+  }
+  return uids
+}
+
+/**
+ * `cmd netpolicy list restrict-background-blacklist`
+ * -> "Restrict background blacklisted UIDs: 10123 10456"
+ */
+export function parseRestrictBackgroundList(output: string): Set<number> {
+  const list = output.split(':').slice(1).join(':')
+  return new Set(list.split(/\s+/).filter(Boolean).map(Number).filter(Number.isInteger))
+}
+
+/**
+ * `iptables -S <chain>` -> UIDs blocked per network
+ */
+export function parseFirewallRules(output: string): { wifi: Set<number>; mobile: Set<number> } {
+  const wifi = new Set<number>()
+  const mobile = new Set<number>()
+
+  for (const line of output.split('\n')) {
+    // -A adbzero -o wlan+ -m owner --uid-owner 10123 -j REJECT
+    const match = line.match(/^-A \S+ -o (\S+) .*--uid-owner (\d+)/)
+    if (!match) continue
+    const uid = parseInt(match[2], 10)
+    if (WIFI_INTERFACES.includes(match[1])) wifi.add(uid)
+    if (MOBILE_INTERFACES.includes(match[1])) mobile.add(uid)
+  }
+
+  return { wifi, mobile }
+}
+
+// ============================================
+// READ
+// ============================================
+
+async function su(command: string, serial?: string): Promise<ShellResult> {
+  return shell(`su -c "${escapeShellArg(command)}"`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+}
+
+export async function readNetworkStatus(serial?: string, isRooted = false): Promise<NetworkStatus> {
+  const allResult = await shell('pm list packages -U', serial)
+  if (allResult.exitCode !== 0) {
+    throw new Error('Unable to load package list')
+  }
+  const uids = parsePackageUids(allResult.stdout)
+  const userApps = parsePackageUids((await shell('pm list packages -U -3', serial)).stdout)
+
+  const restricted = parseRestrictBackgroundList(
+    (await shell('cmd netpolicy list restrict-background-blacklist', serial)).stdout
+  )
+  const dataSaver = /enabled/i.test((await shell('cmd netpolicy get restrict-background', serial)).stdout)
+
+  let firewall = { wifi: new Set<number>(), mobile: new Set<number>() }
+  let firewallAvailable = false
+  if (isRooted) {
+    // Fails when su is denied or iptables is unusable; a missing chain just lists nothing
+    const result = await su(`iptables -w -L OUTPUT -n >/dev/null && (iptables -w -S ${FIREWALL_CHAIN} 2>/dev/null; true)`, serial)
+    firewallAvailable = result.exitCode === 0
+    if (firewallAvailable) firewall = parseFirewallRules(result.stdout)
+  }
+
+  const apps = [...uids.entries()]
+    .map(([packageName, uid]) => ({
+      packageName,
+      uid,
+      isSystem: !userApps.has(packageName),
+      restrictBackground: restricted.has(uid),
+      blockWifi: firewall.wifi.has(uid),
+      blockMobile: firewall.mobile.has(uid),
+    }))
+    .sort((a, b) => a.packageName.localeCompare(b.packageName))
+
+  return { dataSaver, firewallAvailable, apps }
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+export async function setDataSaver(enabled: boolean, serial?: string): Promise<ShellResult> {
+  return shell(`cmd netpolicy set restrict-background ${enabled}`, serial)
+}
+
+export async function setRestrictBackground(uid: number, restrict: boolean, serial?: string): Promise<ShellResult> {
+  if (!Number.isInteger(uid) || uid < 0) throw new Error(`Invalid UID: ${uid}`)
+  return shell(`cmd netpolicy ${restrict ? 'add' : 'remove'} restrict-background-blacklist ${uid}`, serial)
+}
+
+/**
+ * Creates the chain and hooks it into OUTPUT once (idempotent)
+ */
+function ensureChainScript(): string {
+  return FIREWALL_TOOLS
+    .map(tool => `${tool} -w -N ${FIREWALL_CHAIN} 2>/dev/null; ${tool} -w -C OUTPUT -j ${FIREWALL_CHAIN} 2>/dev/null || ${tool} -w -I OUTPUT -j ${FIREWALL_CHAIN}`)
+    .join('; ')
+}
+
+function uidRulesScript(uid: number, rule: Pick<NetworkRule, 'blockWifi' | 'blockMobile'>): string {
+  const interfaces = [
+    ...(rule.blockWifi ? WIFI_INTERFACES : []),
+    ...(rule.blockMobile ? MOBILE_INTERFACES : []),
+  ]
+  return FIREWALL_TOOLS
+    .flatMap(tool => interfaces.map(iface => `${tool} -w -A ${FIREWALL_CHAIN} -o ${iface} -m owner --uid-owner ${uid} -j REJECT`))
+    .join('; ')
+}
+
+/**
+ * Replaces the firewall rules of one UID (root only)
+ */
+export async function setFirewallRule(
+  uid: number,
+  rule: Pick<NetworkRule, 'blockWifi' | 'blockMobile'>,
+  serial?: string
+): Promise<ShellResult> {
+  if (!Number.isInteger(uid) || uid < 0) throw new Error(`Invalid UID: ${uid}`)
+
+  // Drop the existing rules of the UID by turning their -A lines into -D
+  const removeScript = FIREWALL_TOOLS
+    .map(tool => `${tool} -w -S ${FIREWALL_CHAIN} | grep -- '--uid-owner ${uid} ' | sed 's/^-A/-D/' | while read r; do ${tool} -w $r; done`)
+    .join('; ')
+  const addScript = uidRulesScript(uid, rule)
+
+  return su([ensureChainScript(), removeScript, addScript].filter(Boolean).join('; '), serial)
+}
+
+/**
+ * Applies the profile from scratch: the firewall chain is flushed and
+ * rebuilt, netpolicy entries are added for the listed apps.
+ */
+export async function applyNetworkProfile(
+  profile: NetworkProfile,
+  status: NetworkStatus,
+  options: { serial?: string; useFirewall: boolean }
+): Promise<ProfileApplyResult> {
+  const uids = new Map(status.apps.map(app => [app.packageName, app.uid]))
+  const restricted = new Set(status.apps.filter(app => app.restrictBackground).map(app => app.uid))
+  const result: ProfileApplyResult = { applied: 0, missing: [], errors: [] }
+  const firewallScripts: string[] = []
+
+  if (profile.dataSaver !== null && profile.dataSaver !== status.dataSaver) {
+    const dataSaverResult = await setDataSaver(profile.dataSaver, options.serial)
+    if (dataSaverResult.exitCode !== 0) result.errors.push(`data saver: ${dataSaverResult.stderr || dataSaverResult.stdout}`)
+  }
+
+  for (const [packageName, rule] of Object.entries(profile.rules)) {
+    const uid = uids.get(packageName)
+    if (uid === undefined) {
+      result.missing.push(packageName)
+      continue
+    }
+
+    if (rule.restrictBackground && !restricted.has(uid)) {
+      const netpolicy = await setRestrictBackground(uid, true, options.serial)
+      if (netpolicy.exitCode !== 0) result.errors.push(`${packageName}: ${netpolicy.stderr || netpolicy.stdout}`)
+    }
+    if (options.useFirewall && (rule.blockWifi || rule.blockMobile)) {
+      firewallScripts.push(uidRulesScript(uid, rule))
+    }
+    result.applied++
+  }
+
+  if (options.useFirewall) {
+    const flush = FIREWALL_TOOLS.map(tool => `${tool} -w -F ${FIREWALL_CHAIN}`).join('; ')
+    const firewall = await su([ensureChainScript(), flush, ...firewallScripts].join('; '), options.serial)
+    if (firewall.exitCode !== 0) result.errors.push(`iptables: ${(firewall.stderr || firewall.stdout).trim()}`)
+  }
+
+  return result
+}
+
+// ============================================
+// PROFILE
+// ============================================
+
+const PROFILE_STORAGE_KEY = 'adbloater_network_profile'
+
+export function isRuleEmpty(rule: NetworkRule): boolean {
+  return !rule.restrictBackground && !rule.blockWifi && !rule.blockMobile
+}
+
+export function loadNetworkProfile(): NetworkProfile {
+  try {
+    const stored = localStorage.getItem(PROFILE_STORAGE_KEY)
+    const parsed = stored ? JSON.parse(stored) as NetworkProfile : null
+    if (parsed && typeof parsed.rules === 'object') return parsed
+  } catch {
+    // Corrupted profile: start from an empty one
+  }
+  return { updatedAt: new Date().toISOString(), dataSaver: null, rules: {} }
+}
+
+export function saveNetworkProfile(profile: NetworkProfile): void {
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile))
+}
+
+/**
+ * Returns a new profile with the rule of one package replaced (or dropped when empty)
+ */
+export function withProfileRule(profile: NetworkProfile, packageName: string, rule: NetworkRule): NetworkProfile {
+  const rules = { ...profile.rules }
+  if (isRuleEmpty(rule)) delete rules[packageName]
+  else rules[packageName] = rule
+  return { ...profile, rules, updatedAt: new Date().toISOString() }
+}
+
+/**
+ * Packages whose device state differs from the profile, e.g. after a reboot
+ * wiped the firewall chain
+ */
+export function getProfileDrift(profile: NetworkProfile, status: NetworkStatus, useFirewall: boolean): string[] {
+  const byName = new Map(status.apps.map(app => [app.packageName, app]))
+  return Object.entries(profile.rules)
+    .filter(([packageName, rule]) => {
+      const app = byName.get(packageName)
+      if (!app) return false
+      if (rule.restrictBackground && !app.restrictBackground) return true
+      return useFirewall && ((rule.blockWifi && !app.blockWifi) || (rule.blockMobile && !app.blockMobile))
+    })
+    .map(([packageName]) => packageName)
+}
@@ -0,0 +1,172 @@
+/**
+ * Package Dependency Graph
+ * Builds a dependency graph from the `dependencies` / `neededBy` fields of
+ * the package definitions and answers the questions the Debloater needs:
+ * which enabled packages break when one is disabled, what a package's
+ * neighbourhood looks like, and in which order a batch must run.
+ */
+
+import type { PackageDefinition } from './package-database'
+
+export interface PackageGraph {
+  /** package -> packages it needs */
+  dependsOn: Map<string, Set<string>>
+  /** package -> packages that need it */
+  requiredBy: Map<string, Set<string>>
+}
+
+export interface GraphEdge {
+  /** The package that needs `to` */
+  from: string
+  to: string
+}
+
+export interface PackageNeighbourhood {
+  center: string
+  /** Package -> distance from the center */
+  nodes: Map<string, number>
+  edges: GraphEdge[]
+}
+
+function addEdge(graph: PackageGraph, from: string, to: string) {
+  if (!from || !to || from === to) return
+  if (!graph.dependsOn.has(from)) graph.dependsOn.set(from, new Set())
+  if (!graph.requiredBy.has(to)) graph.requiredBy.set(to, new Set())
+  graph.dependsOn.get(from)!.add(to)
+  graph.requiredBy.get(to)!.add(from)
+}
+
+/**
+ * Both fields describe the same relation from opposite ends, so they are merged:
+ * `A.dependencies ∋ B` and `B.neededBy ∋ A` both mean "A needs B".
+ */
+export function buildPackageGraph(definitions: Record<string, PackageDefinition>): PackageGraph {
+  const graph: PackageGraph = { dependsOn: new Map(), requiredBy: new Map() }
+
+  for (const [packageName, definition] of Object.entries(definitions)) {
+    for (const dependency of definition.dependencies ?? []) addEdge(graph, packageName, dependency)
+    for (const dependent of definition.neededBy ?? []) addEdge(graph, dependent, packageName)
+  }
+
+  return graph
+}
+
+export function getDependencies(graph: PackageGraph, packageName: string): string[] {
+  return [...(graph.dependsOn.get(packageName) ?? [])]
+}
+
+export function getDependents(graph: PackageGraph, packageName: string): string[] {
+  return [...(graph.requiredBy.get(packageName) ?? [])]
+}
+
+export function hasGraphEdges(graph: PackageGraph, packageName: string): boolean {
+  return (graph.dependsOn.get(packageName)?.size ?? 0) + (graph.requiredBy.get(packageName)?.size ?? 0) > 0
+}
+
+/**
+ * Walks the graph from `start` in one direction, keeping only packages
+ * accepted by `include`. The start packages themselves are not returned.
+ */
+function collect(
+  edges: Map<string, Set<string>>,
+  start: string[],
+  include: (packageName: string) => boolean
+): string[] {
+  const startSet = new Set(start)
+  const seen = new Set<string>(start)
+  const queue = [...start]
+  const result: string[] = []
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const next of edges.get(current) ?? []) {
+      if (seen.has(next) || !include(next)) continue
+      seen.add(next)
+      if (!startSet.has(next)) result.push(next)
+      queue.push(next)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Enabled packages that need `packageNames`, directly or through other enabled packages.
+ * These stop working when `packageNames` are disabled.
+ */
+export function getAffectedDependents(graph: PackageGraph, packageNames: string[], isEnabled: (packageName: string) => boolean): string[] {
+  return collect(graph.requiredBy, packageNames, isEnabled)
+}
+
+/**
+ * Disabled packages that `packageNames` need, directly or transitively.
+ * Re-enabling `packageNames` alone leaves them broken.
+ */
+export function getMissingDependencies(graph: PackageGraph, packageNames: string[], isInstalled: (packageName: string) => boolean, isEnabled: (packageName: string) => boolean): string[] {
+  return collect(graph.dependsOn, packageNames, name => isInstalled(name) && !isEnabled(name))
+}
+
+/**
+ * Packages within `depth` hops of `center`, following edges in both directions
+ */
+export function getNeighbourhood(graph: PackageGraph, center: string, depth = 2): PackageNeighbourhood {
+  const nodes = new Map<string, number>([[center, 0]])
+  const edges = new Map<string, GraphEdge>()
+  let frontier = [center]
+
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = []
+    for (const node of frontier) {
+      for (const dependency of graph.dependsOn.get(node) ?? []) {
+        edges.set(`${node}>${dependency}`, { from: node, to: dependency })
+        if (!nodes.has(dependency)) {
+          nodes.set(dependency, distance)
+          next.push(dependency)
+        }
+      }
+      for (const dependent of graph.requiredBy.get(node) ?? []) {
+        edges.set(`${dependent}>${node}`, { from: dependent, to: node })
+        if (!nodes.has(dependent)) {
+          nodes.set(dependent, distance)
+          next.push(dependent)
+        }
+      }
+    }
+    frontier = next
+  }
+
+  // Edges between two outer nodes that were never expanded
+  const kept = [...edges.values()].filter(edge => nodes.has(edge.from) && nodes.has(edge.to))
+  return { center, nodes, edges: kept }
+}
+
+/**
+ * Topological stages for a batch: packages in the same stage are independent
+ * and can run together. Disabling goes dependents first, enabling goes
+ * dependencies first. Cycles collapse into the stage where they are detected.
+ */
+export function getBatchStages(graph: PackageGraph, packageNames: string[], direction: 'disable' | 'enable'): Map<string, number> {
+  const members = new Set(packageNames)
+  // `before.get(x)` = members that must run before x
+  const before = direction === 'disable' ? graph.requiredBy : graph.dependsOn
+  const stages = new Map<string, number>()
+  const visiting = new Set<string>()
+
+  const stageOf = (packageName: string): number => {
+    const known = stages.get(packageName)
+    if (known !== undefined) return known
+    if (visiting.has(packageName)) return 0
+
+    visiting.add(packageName)
+    let stage = 0
+    for (const other of before.get(packageName) ?? []) {
+      if (members.has(other)) stage = Math.max(stage, stageOf(other) + 1)
+    }
+    visiting.delete(packageName)
+    stages.set(packageName, stage)
+    return stage
+  }
+
+  packageNames.forEach(stageOf)
+  return stages
+}
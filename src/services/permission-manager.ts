@@ -0,0 +1,431 @@
+/**
+ * Permission Manager Service
+ * Matrix of installed apps × dangerous permission groups built from
+ * `dumpsys package packages` (requested and granted runtime permissions of
+ * user 0) and `appops get`, bulk grant/revoke per group and the locally
+ * stored "privacy baseline" that can be re-applied after a reset.
+ */
+
+import {
+  grantPermission,
+  revokePermission,
+  setAppOps,
+  shell,
+  type AppOpMode,
+  type ShellResult
+} from './adb-client'
+import { parseAppOps, parsePackageList, parseRuntimePermissions } from './device-snapshots'
+import { validatePackageName } from './command-sanitizer'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PermissionGroupId =
+  | 'location'
+  | 'camera'
+  | 'microphone'
+  | 'contacts'
+  | 'sms'
+  | 'call_log'
+  | 'body_sensors'
+  | 'nearby_devices'
+
+export interface PermissionGroup {
+  id: PermissionGroupId
+  permissions: string[]
+  /** Appops that gate the same data independently of the runtime grant */
+  appops: string[]
+}
+
+export type GroupGrantState = 'granted' | 'partial' | 'denied'
+
+export interface PermissionCell {
+  /** Permissions of the group requested by the app */
+  requested: string[]
+  granted: string[]
+  /** Group appops whose mode is neither allow nor default, op -> mode */
+  appops: Record<string, string>
+}
+
+export interface AppPermissionRow {
+  packageName: string
+  isSystem: boolean
+  /** Only the groups the app requests */
+  groups: Partial<Record<PermissionGroupId, PermissionCell>>
+}
+
+export interface GroupChangeResult {
+  success: boolean
+  /** `permission: error` for every command that failed */
+  errors: string[]
+}
+
+export interface PrivacyBaseline {
+  createdAt: string
+  deviceModel: string
+  /** Groups kept fully revoked, per package */
+  revoked: Record<string, PermissionGroupId[]>
+  /** Non-default group appops, per package */
+  appops: Record<string, Record<string, string>>
+}
+
+export interface BaselineStep {
+  packageName: string
+  group: PermissionGroupId
+  kind: 'revoke' | 'appop'
+  /** Permission to revoke or appop to set */
+  key: string
+  mode?: AppOpMode
+}
+
+// ============================================
+// GROUPS
+// ============================================
+
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    id: 'location',
+    permissions: [
+      'android.permission.ACCESS_FINE_LOCATION',
+      'android.permission.ACCESS_COARSE_LOCATION',
+      'android.permission.ACCESS_BACKGROUND_LOCATION',
+    ],
+    appops: ['FINE_LOCATION', 'COARSE_LOCATION'],
+  },
+  {
+    id: 'camera',
+    permissions: ['android.permission.CAMERA'],
+    appops: ['CAMERA'],
+  },
+  {
+    id: 'microphone',
+    permissions: ['android.permission.RECORD_AUDIO'],
+    appops: ['RECORD_AUDIO'],
+  },
+  {
+    id: 'contacts',
+    permissions: [
+      'android.permission.READ_CONTACTS',
+      'android.permission.WRITE_CONTACTS',
+      'android.permission.GET_ACCOUNTS',
+    ],
+    appops: ['READ_CONTACTS', 'WRITE_CONTACTS'],
+  },
+  {
+    id: 'sms',
+    permissions: [
+      'android.permission.READ_SMS',
+      'android.permission.SEND_SMS',
+      'android.permission.RECEIVE_SMS',
+      'android.permission.RECEIVE_MMS',
+      'android.permission.RECEIVE_WAP_PUSH',
+    ],
+    appops: ['READ_SMS', 'SEND_SMS', 'RECEIVE_SMS'],
+  },
+  {
+    id: 'call_log',
+    permissions: [
+      'android.permission.READ_CALL_LOG',
+      'android.permission.WRITE_CALL_LOG',
+      'android.permission.PROCESS_OUTGOING_CALLS',
+    ],
+    appops: ['READ_CALL_LOG', 'WRITE_CALL_LOG'],
+  },
+  {
+    id: 'body_sensors',
+    permissions: ['android.permission.BODY_SENSORS', 'android.permission.BODY_SENSORS_BACKGROUND'],
+    appops: ['BODY_SENSORS'],
+  },
+  {
+    id: 'nearby_devices',
+    permissions: [
+      'android.permission.BLUETOOTH_SCAN',
+      'android.permission.BLUETOOTH_CONNECT',
+      'android.permission.BLUETOOTH_ADVERTISE',
+      'android.permission.NEARBY_WIFI_DEVICES',
+      'android.permission.UWB_RANGING',
+    ],
+    appops: ['BLUETOOTH_SCAN', 'BLUETOOTH_CONNECT', 'BLUETOOTH_ADVERTISE'],
+  },
+]
+
+const GROUPS_BY_ID = new Map(PERMISSION_GROUPS.map(group => [group.id, group]))
+
+export function getPermissionGroup(id: PermissionGroupId): PermissionGroup {
+  return GROUPS_BY_ID.get(id)!
+}
+
+export function getGroupGrantState(cell: PermissionCell): GroupGrantState {
+  if (cell.granted.length === 0) return 'denied'
+  return cell.granted.length === cell.requested.length ? 'granted' : 'partial'
+}
+
+/** True when an appop blocks the group even though permissions are granted */
+export function isGroupBlockedByAppOps(cell: PermissionCell): boolean {
+  return Object.values(cell.appops).some(mode => mode === 'ignore' || mode === 'deny')
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Requested permissions per package from `dumpsys package packages`
+ */
+export function parseRequestedPermissions(output: string): Record<string, string[]> {
+  const requested: Record<string, string[]> = {}
+  let currentPackage: string | null = null
+  let listIndent: number | null = null
+
+  for (const line of output.split('\n')) {
+    // Updated system apps are listed again with their factory state
+    if (line.startsWith('Hidden system packages:')) break
+
+    const packageMatch = line.match(/^\s*Package \[([^\]]+)\]/)
+    if (packageMatch) {
+      currentPackage = packageMatch[1]
+      listIndent = null
+      continue
+    }
+
+    if (line.trim() === 'requested permissions:') {
+      listIndent = line.length - line.trimStart().length
+      continue
+    }
+
+    if (listIndent === null || !currentPackage) continue
+
+    const indent = line.length - line.trimStart().length
+    if (!line.trim() || indent <= listIndent) {
+      listIndent = null
+      continue
+    }
+    // "android.permission.ACCESS_FINE_LOCATION: restricted=true"
+    (requested[currentPackage] ??= []).push(line.trim().split(/[:\s]/)[0])
+  }
+
+  return requested
+}
+
+/**
+ * Builds the matrix rows; packages that request none of the groups are left out
+ */
+export function buildPermissionMatrix(options: {
+  installed: Set<string>
+  userApps: Set<string>
+  requested: Record<string, string[]>
+  granted: Record<string, string[]>
+  appops: Record<string, Record<string, string>>
+}): AppPermissionRow[] {
+  const rows: AppPermissionRow[] = []
+
+  for (const packageName of [...options.installed].sort()) {
+    const requested = new Set(options.requested[packageName] ?? [])
+    const granted = new Set(options.granted[packageName] ?? [])
+    const ops = options.appops[packageName] ?? {}
+    const groups: AppPermissionRow['groups'] = {}
+
+    for (const group of PERMISSION_GROUPS) {
+      const groupRequested = group.permissions.filter(permission => requested.has(permission))
+      if (groupRequested.length === 0) continue
+      groups[group.id] = {
+        requested: groupRequested,
+        granted: groupRequested.filter(permission => granted.has(permission)),
+        appops: Object.fromEntries(group.appops.filter(op => ops[op]).map(op => [op, ops[op]])),
+      }
+    }
+
+    if (Object.keys(groups).length > 0) {
+      rows.push({ packageName, isSystem: !options.userApps.has(packageName), groups })
+    }
+  }
+
+  return rows
+}
+
+// ============================================
+// READ
+// ============================================
+
+// Packages per `appops get` command
+const APPOPS_CHUNK_SIZE = 120
+
+/**
+ * Reads the matrix for user 0. Appops are only read for packages that
+ * request at least one dangerous group, in device-side loops of
+ * APPOPS_CHUNK_SIZE packages.
+ */
+export async function readPermissionMatrix(serial?: string): Promise<AppPermissionRow[]> {
+  const installedResult = await shell('pm list packages', serial)
+  if (installedResult.exitCode !== 0) {
+    throw new Error('Unable to load package list')
+  }
+  const installed = parsePackageList(installedResult.stdout)
+  const userApps = parsePackageList((await shell('pm list packages -3', serial)).stdout)
+
+  const dump = await shell('dumpsys package packages', serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+  if (dump.exitCode !== 0) {
+    throw new Error(dump.stderr?.trim() || 'Unable to read package permissions')
+  }
+  const requested = parseRequestedPermissions(dump.stdout)
+  const granted = parseRuntimePermissions(dump.stdout)
+
+  const dangerous = new Set(PERMISSION_GROUPS.flatMap(group => group.permissions))
+  const candidates = [...installed]
+    .filter(name => requested[name]?.some(permission => dangerous.has(permission)))
+    .map(validatePackageName)
+
+  // Chunked so each command stays under the default timeout and the arg limits
+  const appops: Record<string, Record<string, string>> = {}
+  for (let i = 0; i < candidates.length; i += APPOPS_CHUNK_SIZE) {
+    const chunk = candidates.slice(i, i + APPOPS_CHUNK_SIZE)
+    const appopsResult = await shell(
+      `for p in ${chunk.join(' ')}; do echo "#$p"; appops get "$p" 2>/dev/null; done`,
+      serial
+    )
+    Object.assign(appops, parseAppOps(appopsResult.stdout))
+  }
+
+  return buildPermissionMatrix({ installed, userApps, requested, granted, appops })
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+function collectErrors(results: Array<{ key: string; result: ShellResult }>): GroupChangeResult {
+  const errors = results
+    .filter(({ result }) => result.exitCode !== 0 || /Exception|Error:/.test(result.stdout))
+    .map(({ key, result }) => `${key}: ${(result.stderr || result.stdout).trim() || 'failed'}`)
+  return { success: errors.length === 0, errors }
+}
+
+/**
+ * Grants every requested permission of the group, or revokes the granted ones.
+ * Granting also resets blocking appops so the grant takes effect.
+ */
+export async function setGroupGrant(
+  packageName: string,
+  cell: PermissionCell,
+  grant: boolean,
+  serial?: string
+): Promise<GroupChangeResult> {
+  const results: Array<{ key: string; result: ShellResult }> = []
+
+  if (grant) {
+    for (const permission of cell.requested) {
+      results.push({ key: permission, result: await grantPermission(packageName, permission, serial) })
+    }
+    for (const [op, mode] of Object.entries(cell.appops)) {
+      if (mode !== 'ignore' && mode !== 'deny') continue
+      results.push({ key: op, result: await setAppOps(packageName, op, 'default', serial) })
+    }
+  } else {
+    for (const permission of cell.granted) {
+      results.push({ key: permission, result: await revokePermission(packageName, permission, serial) })
+    }
+  }
+
+  return collectErrors(results)
+}
+
+/**
+ * Sets every appop of the group to the same mode
+ */
+export async function setGroupAppOps(
+  packageName: string,
+  group: PermissionGroupId,
+  mode: AppOpMode,
+  serial?: string
+): Promise<GroupChangeResult> {
+  const results: Array<{ key: string; result: ShellResult }> = []
+  for (const op of getPermissionGroup(group).appops) {
+    results.push({ key: op, result: await setAppOps(packageName, op, mode, serial) })
+  }
+  return collectErrors(results)
+}
+
+// ============================================
+// PRIVACY BASELINE
+// ============================================
+
+const BASELINE_STORAGE_KEY = 'adbloater_privacy_baseline'
+
+/**
+ * Baseline from the current matrix: every group with nothing granted stays
+ * revoked, every non-default appop keeps its mode
+ */
+export function createPrivacyBaseline(rows: AppPermissionRow[], deviceModel: string): PrivacyBaseline {
+  const revoked: PrivacyBaseline['revoked'] = {}
+  const appops: PrivacyBaseline['appops'] = {}
+
+  for (const row of rows) {
+    for (const [id, cell] of Object.entries(row.groups) as Array<[PermissionGroupId, PermissionCell]>) {
+      if (getGroupGrantState(cell) === 'denied') (revoked[row.packageName] ??= []).push(id)
+      if (Object.keys(cell.appops).length > 0) {
+        appops[row.packageName] = { ...appops[row.packageName], ...cell.appops }
+      }
+    }
+  }
+
+  return { createdAt: new Date().toISOString(), deviceModel, revoked, appops }
+}
+
+export function loadPrivacyBaseline(): PrivacyBaseline | null {
+  try {
+    const stored = localStorage.getItem(BASELINE_STORAGE_KEY)
+    if (!stored) return null
+    const parsed = JSON.parse(stored) as PrivacyBaseline
+    return parsed && typeof parsed.revoked === 'object' && typeof parsed.appops === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+export function savePrivacyBaseline(baseline: PrivacyBaseline): void {
+  localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify(baseline))
+}
+
+export function clearPrivacyBaseline(): void {
+  localStorage.removeItem(BASELINE_STORAGE_KEY)
+}
+
+const APPOP_MODES = new Set<AppOpMode>(['allow', 'ignore', 'deny', 'default', 'foreground'])
+
+function groupOfAppOp(op: string): PermissionGroupId | null {
+  return PERMISSION_GROUPS.find(group => group.appops.includes(op))?.id ?? null
+}
+
+/**
+ * Steps that bring the device back to the baseline. Packages that are no
+ * longer installed are skipped; permissions granted since are only revoked
+ * for groups the baseline kept fully revoked.
+ */
+export function planPrivacyBaseline(baseline: PrivacyBaseline, rows: AppPermissionRow[]): BaselineStep[] {
+  const steps: BaselineStep[] = []
+
+  for (const row of rows) {
+    for (const group of baseline.revoked[row.packageName] ?? []) {
+      for (const permission of row.groups[group]?.granted ?? []) {
+        steps.push({ packageName: row.packageName, group, kind: 'revoke', key: permission })
+      }
+    }
+
+    for (const [op, mode] of Object.entries(baseline.appops[row.packageName] ?? {})) {
+      const group = groupOfAppOp(op)
+      if (!group || !APPOP_MODES.has(mode as AppOpMode)) continue
+      if (row.groups[group]?.appops[op] === mode) continue
+      steps.push({ packageName: row.packageName, group, kind: 'appop', key: op, mode: mode as AppOpMode })
+    }
+  }
+
+  return steps
+}
+
+export async function applyBaselineStep(step: BaselineStep, serial?: string): Promise<ShellResult> {
+  return step.kind === 'revoke'
+    ? revokePermission(step.packageName, step.key, serial)
+    : setAppOps(step.packageName, step.key, step.mode ?? 'default', serial)
+}
@@ -0,0 +1,248 @@
+/**
+ * Root Modules Service
+ * Magisk / KernelSU module management over `su`:
+ * - modules are read from /data/adb/modules (module.prop + marker files)
+ * - enable/disable and removal use the `disable` / `remove` markers, which
+ *   both managers honour at the next boot
+ * - zips are installed with `magisk --install-module` or `ksud module install`
+ * Magisk also exposes the Zygisk setting and the DenyList.
+ */
+
+import { pushFile, shell, type ShellResult, type TransferProgressCallback } from './adb-client'
+import { escapeShellArg, validatePackageName } from './command-sanitizer'
+import { readZip } from '@/lib/zip'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RootManager = 'magisk' | 'kernelsu'
+
+export interface RootManagerInfo {
+  manager: RootManager | null
+  /** e.g. "27.0:MAGISK:R" or "ksud 1.0.1" */
+  version: string | null
+  versionCode: string | null
+  /** Magisk only; null when unknown */
+  zygisk: boolean | null
+  /** Magisk only: DenyList enforced */
+  denyListEnforced: boolean | null
+}
+
+export interface RootModule {
+  id: string
+  name: string
+  version: string | null
+  versionCode: string | null
+  author: string | null
+  description: string | null
+  enabled: boolean
+  /** Marked for removal at the next boot */
+  pendingRemoval: boolean
+  /** Updated, the new version is applied at the next boot */
+  pendingUpdate: boolean
+}
+
+export interface DenyListEntry {
+  packageName: string
+  process: string
+}
+
+const MODULES_DIR = '/data/adb/modules'
+const MODULE_TEMP_PATH = '/data/local/tmp/adbzero-module.zip'
+const MODULE_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9._-]+$/
+const PROCESS_PATTERN = /^[a-zA-Z0-9._:-]+$/
+
+const MODULE_MARKER = '@@MODULE '
+const FLAG_MARKER = '@@FLAG '
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * `key=value` lines of a module.prop
+ */
+export function parseModuleProp(content: string): Record<string, string> {
+  const props: Record<string, string> = {}
+  for (const line of content.split('\n')) {
+    const separator = line.indexOf('=')
+    if (separator <= 0 || line.trimStart().startsWith('#')) continue
+    props[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+  return props
+}
+
+/**
+ * Output of the listing script: a `@@MODULE <dir>` header, the module.prop
+ * content and one `@@FLAG <marker>` line per marker file
+ */
+export function parseModuleList(output: string): RootModule[] {
+  const modules: RootModule[] = []
+  const blocks = output.split(MODULE_MARKER).slice(1)
+
+  for (const block of blocks) {
+    const [dirName, ...lines] = block.split('\n')
+    const flags = new Set(lines.filter(line => line.startsWith(FLAG_MARKER)).map(line => line.slice(FLAG_MARKER.length).trim()))
+    const props = parseModuleProp(lines.filter(line => !line.startsWith(FLAG_MARKER)).join('\n'))
+    const id = dirName.trim()
+
+    modules.push({
+      id,
+      name: props.name || props.id || id,
+      version: props.version || null,
+      versionCode: props.versionCode || null,
+      author: props.author || null,
+      description: props.description || null,
+      enabled: !flags.has('disable'),
+      pendingRemoval: flags.has('remove'),
+      pendingUpdate: flags.has('update'),
+    })
+  }
+
+  return modules.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * `magisk --denylist ls` -> "com.example|com.example:remote"
+ */
+export function parseDenyList(output: string): DenyListEntry[] {
+  return output
+    .split('\n')
+    .map(line => line.trim().split('|'))
+    .filter(parts => parts.length === 2 && parts[0] && parts[1])
+    .map(([packageName, process]) => ({ packageName, process }))
+    .sort((a, b) => a.packageName.localeCompare(b.packageName) || a.process.localeCompare(b.process))
+}
+
+function validateModuleId(id: string): string {
+  if (!MODULE_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid module id: "${id}"`)
+  }
+  return id
+}
+
+// ============================================
+// READ
+// ============================================
+
+async function su(command: string, serial?: string): Promise<ShellResult> {
+  return shell(`su -c "${escapeShellArg(command)}"`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+}
+
+export async function readRootManagerInfo(serial?: string): Promise<RootManagerInfo> {
+  const magisk = await su('magisk -v && magisk -V', serial)
+  if (magisk.exitCode === 0 && magisk.stdout.trim()) {
+    const [version, versionCode] = magisk.stdout.trim().split('\n').map(line => line.trim())
+    const zygisk = await su(`magisk --sqlite "SELECT value FROM settings WHERE key='zygisk'"`, serial)
+    const zygiskValue = zygisk.stdout.match(/value=(\d)/)
+    const denyList = await su('magisk --denylist status', serial)
+
+    return {
+      manager: 'magisk',
+      version: version || null,
+      versionCode: versionCode || null,
+      // No row means the default, which is off
+      zygisk: zygisk.exitCode === 0 ? zygiskValue?.[1] === '1' : null,
+      // `status` exits 0 only when enforced
+      denyListEnforced: denyList.exitCode === 0,
+    }
+  }
+
+  const ksu = await su('ksud -V', serial)
+  if (ksu.exitCode === 0 && ksu.stdout.trim()) {
+    return { manager: 'kernelsu', version: ksu.stdout.trim(), versionCode: null, zygisk: null, denyListEnforced: null }
+  }
+
+  return { manager: null, version: null, versionCode: null, zygisk: null, denyListEnforced: null }
+}
+
+export async function listRootModules(serial?: string): Promise<RootModule[]> {
+  const script = [
+    `for d in ${MODULES_DIR}/*; do`,
+    '[ -d "$d" ] || continue;',
+    `echo "${MODULE_MARKER}$(basename "$d")";`,
+    'cat "$d/module.prop" 2>/dev/null; echo;',
+    ...['disable', 'remove', 'update'].map(flag => `[ -f "$d/${flag}" ] && echo "${FLAG_MARKER}${flag}";`),
+    'done; true',
+  ].join(' ')
+
+  const result = await su(script, serial)
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr || 'Unable to list modules')
+  }
+  return parseModuleList(result.stdout)
+}
+
+export async function readDenyList(serial?: string): Promise<DenyListEntry[]> {
+  const result = await su('magisk --denylist ls', serial)
+  return result.exitCode === 0 ? parseDenyList(result.stdout) : []
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+export async function setModuleEnabled(id: string, enabled: boolean, serial?: string): Promise<ShellResult> {
+  const marker = `${MODULES_DIR}/${validateModuleId(id)}/disable`
+  return su(enabled ? `rm -f ${marker}` : `touch ${marker}`, serial)
+}
+
+/**
+ * Marks a module for removal at the next boot, or cancels the removal
+ */
+export async function setModuleRemoval(id: string, remove: boolean, serial?: string): Promise<ShellResult> {
+  const marker = `${MODULES_DIR}/${validateModuleId(id)}/remove`
+  return su(remove ? `touch ${marker}` : `rm -f ${marker}`, serial)
+}
+
+/**
+ * Checks that a zip looks like a module (module.prop at the root) and
+ * returns its id/name
+ */
+export async function inspectModuleZip(file: Blob): Promise<{ id: string; name: string; version: string | null }> {
+  const entries = await readZip(file)
+  const prop = entries.find(entry => entry.name === 'module.prop')
+  if (!prop) {
+    throw new Error('module.prop not found: not a Magisk/KernelSU module')
+  }
+  const props = parseModuleProp(await prop.text())
+  if (!props.id) {
+    throw new Error('module.prop has no id')
+  }
+  return { id: props.id, name: props.name || props.id, version: props.version || null }
+}
+
+export async function installModuleZip(
+  file: Blob,
+  manager: RootManager,
+  options: { serial?: string; signal?: AbortSignal; onProgress?: TransferProgressCallback } = {}
+): Promise<ShellResult> {
+  await pushFile(file, MODULE_TEMP_PATH, options.onProgress, { serial: options.serial, signal: options.signal })
+
+  const install = manager === 'magisk'
+    ? `magisk --install-module ${MODULE_TEMP_PATH}`
+    : `ksud module install ${MODULE_TEMP_PATH}`
+  return su(`${install}; status=$?; rm -f ${MODULE_TEMP_PATH}; exit $status`, options.serial)
+}
+
+function denyListTarget(entry: DenyListEntry | { packageName: string; process?: string }): string {
+  const packageName = validatePackageName(entry.packageName)
+  if (!entry.process) return packageName
+  if (!PROCESS_PATTERN.test(entry.process)) {
+    throw new Error(`Invalid process name: "${entry.process}"`)
+  }
+  return `${packageName} ${entry.process}`
+}
+
+/**
+ * Adds a package (all its processes) or a single process to the DenyList
+ */
+export async function addDenyListEntry(packageName: string, process?: string, serial?: string): Promise<ShellResult> {
+  return su(`magisk --denylist add ${denyListTarget({ packageName, process })}`, serial)
+}
+
+export async function removeDenyListEntry(entry: DenyListEntry, serial?: string): Promise<ShellResult> {
+  return su(`magisk --denylist rm ${denyListTarget(entry)}`, serial)
+}
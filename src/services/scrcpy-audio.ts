@@ -0,0 +1,223 @@
+import { ScrcpyAudioCodec, type ScrcpyMediaStreamPacket } from '@yume-chan/scrcpy'
+import { WritableStream } from '@yume-chan/stream-extra'
+
+/**
+ * Plays the scrcpy audio stream (Android 11+).
+ *
+ * Opus/AAC/FLAC are decoded with WebCodecs `AudioDecoder`, raw is s16le PCM.
+ * Decoded chunks are scheduled back to back on an AudioContext; the queue is
+ * kept between TARGET_LATENCY and MAX_LATENCY so audio stays in sync with the
+ * video instead of drifting behind after a stall.
+ */
+
+// ============= WEBCODECS TYPES =============
+// AudioDecoder is not in the TypeScript DOM lib yet
+
+interface WebCodecsAudioData {
+    readonly numberOfFrames: number
+    readonly numberOfChannels: number
+    readonly sampleRate: number
+    copyTo(destination: Float32Array, options: { planeIndex: number, format: 'f32-planar' }): void
+    close(): void
+}
+
+interface WebCodecsAudioDecoder {
+    readonly state: 'unconfigured' | 'configured' | 'closed'
+    configure(config: { codec: string, sampleRate: number, numberOfChannels: number, description?: Uint8Array }): void
+    decode(chunk: unknown): void
+    close(): void
+}
+
+interface WebCodecsAudioDecoderConstructor {
+    new(init: { output: (data: WebCodecsAudioData) => void, error: (error: Error) => void }): WebCodecsAudioDecoder
+}
+
+interface WebCodecsEncodedAudioChunkConstructor {
+    new(init: { type: 'key' | 'delta', timestamp: number, data: Uint8Array }): unknown
+}
+
+const webCodecs = globalThis as unknown as {
+    AudioDecoder?: WebCodecsAudioDecoderConstructor
+    EncodedAudioChunk?: WebCodecsEncodedAudioChunkConstructor
+}
+
+// ============= PLAYER =============
+
+/** scrcpy always captures 48 kHz stereo */
+const SAMPLE_RATE = 48000
+const CHANNELS = 2
+
+/** Seconds of audio queued ahead of the playhead after an underrun */
+const TARGET_LATENCY = 0.05
+/** Above this amount of queued audio, new chunks are dropped until it drains */
+const MAX_LATENCY = 0.25
+
+export type ScrcpyAudioState = 'playing' | 'unavailable'
+
+export class ScrcpyAudioPlayer {
+    private context: AudioContext
+    private gain: GainNode
+    private recordDestination: MediaStreamAudioDestinationNode
+    private decoder: WebCodecsAudioDecoder | null = null
+    private codec: ScrcpyAudioCodec
+    private nextStartTime = 0
+    private volume = 1
+    private muted = false
+    private closed = false
+
+    /** Raw PCM needs no decoder; the others need WebCodecs */
+    static isSupported(codec: ScrcpyAudioCodec): boolean {
+        if (codec === ScrcpyAudioCodec.Raw) return true
+        return !!webCodecs.AudioDecoder && !!webCodecs.EncodedAudioChunk
+    }
+
+    constructor(codec: ScrcpyAudioCodec) {
+        this.codec = codec
+        this.context = new AudioContext({ latencyHint: 'interactive' })
+        this.gain = this.context.createGain()
+        this.recordDestination = this.context.createMediaStreamDestination()
+        this.gain.connect(this.context.destination)
+        this.gain.connect(this.recordDestination)
+
+        // Started after async work, so the autoplay policy may have suspended it
+        this.context.resume().catch(() => { })
+
+        if (codec !== ScrcpyAudioCodec.Raw) {
+            this.decoder = new webCodecs.AudioDecoder!({
+                output: (data) => this.playDecoded(data),
+                error: (error) => console.error('[ScrcpyAudio] Decoder error:', error)
+            })
+            // Opus needs no description; AAC/FLAC get it from the configuration packet
+            if (codec === ScrcpyAudioCodec.Opus) {
+                this.configure()
+            }
+        }
+    }
+
+    /** Audio track of the device sound, for recordings */
+    get mediaStream(): MediaStream {
+        return this.recordDestination.stream
+    }
+
+    setVolume(volume: number) {
+        this.volume = Math.min(Math.max(volume, 0), 1)
+        this.applyGain()
+    }
+
+    setMuted(muted: boolean) {
+        this.muted = muted
+        this.applyGain()
+    }
+
+    /** Sink for the `ScrcpyMediaStreamPacket` stream of the client */
+    createWritable(): WritableStream<ScrcpyMediaStreamPacket> {
+        return new WritableStream<ScrcpyMediaStreamPacket>({
+            write: (packet) => this.handlePacket(packet)
+        })
+    }
+
+    close() {
+        if (this.closed) return
+        this.closed = true
+
+        if (this.decoder && this.decoder.state !== 'closed') {
+            try {
+                this.decoder.close()
+            } catch (e) {
+                console.warn('[ScrcpyAudio] Error closing decoder:', e)
+            }
+        }
+        this.decoder = null
+        this.recordDestination.stream.getTracks().forEach(track => track.stop())
+        this.context.close().catch(() => { })
+    }
+
+    private applyGain() {
+        // Only the speakers are muted: the recording keeps the device audio
+        this.gain.gain.setTargetAtTime(this.muted ? 0 : this.volume, this.context.currentTime, 0.01)
+        this.context.resume().catch(() => { })
+    }
+
+    private configure(description?: Uint8Array) {
+        this.decoder?.configure({
+            codec: this.codec.webCodecId,
+            sampleRate: SAMPLE_RATE,
+            numberOfChannels: CHANNELS,
+            description
+        })
+    }
+
+    private handlePacket(packet: ScrcpyMediaStreamPacket) {
+        if (this.closed) return
+
+        if (packet.type === 'configuration') {
+            if (this.decoder && this.codec !== ScrcpyAudioCodec.Opus) {
+                this.configure(packet.data)
+            }
+            return
+        }
+
+        if (!this.decoder) {
+            this.playPcm(packet.data)
+            return
+        }
+
+        if (this.decoder.state !== 'configured') return
+        this.decoder.decode(new webCodecs.EncodedAudioChunk!({
+            type: 'key',
+            // scrcpy pts is already in microseconds
+            timestamp: Number(packet.pts ?? 0n),
+            data: packet.data
+        }))
+    }
+
+    /** s16le interleaved stereo */
+    private playPcm(data: Uint8Array) {
+        const frames = Math.floor(data.byteLength / (2 * CHANNELS))
+        if (frames === 0) return
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+        const buffer = this.context.createBuffer(CHANNELS, frames, SAMPLE_RATE)
+        for (let channel = 0; channel < CHANNELS; channel++) {
+            const samples = buffer.getChannelData(channel)
+            for (let i = 0; i < frames; i++) {
+                samples[i] = view.getInt16((i * CHANNELS + channel) * 2, true) / 32768
+            }
+        }
+        this.schedule(buffer)
+    }
+
+    private playDecoded(data: WebCodecsAudioData) {
+        try {
+            if (this.closed || data.numberOfFrames === 0) return
+
+            const buffer = this.context.createBuffer(data.numberOfChannels, data.numberOfFrames, data.sampleRate)
+            for (let channel = 0; channel < data.numberOfChannels; channel++) {
+                const samples = new Float32Array(data.numberOfFrames)
+                data.copyTo(samples, { planeIndex: channel, format: 'f32-planar' })
+                buffer.copyToChannel(samples, channel)
+            }
+            this.schedule(buffer)
+        } finally {
+            data.close()
+        }
+    }
+
+    private schedule(buffer: AudioBuffer) {
+        const now = this.context.currentTime
+
+        if (this.nextStartTime < now) {
+            // Underrun (or first chunk): rebuild a small cushion
+            this.nextStartTime = now + TARGET_LATENCY
+        } else if (this.nextStartTime - now > MAX_LATENCY) {
+            // Too far behind the video: drop until the queue drains
+            return
+        }
+
+        const source = this.context.createBufferSource()
+        source.buffer = buffer
+        source.connect(this.gain)
+        source.start(this.nextStartTime)
+        this.nextStartTime += buffer.duration
+    }
+}
@@ -1,16 +1,20 @@
 import { Adb } from '@yume-chan/adb'
-import { AdbScrcpyClient, AdbScrcpyOptions3_0 } from '@yume-chan/adb-scrcpy'
+import { AdbScrcpyClient, AdbScrcpyOptions3_1 } from '@yume-chan/adb-scrcpy'
 import {
     ScrcpyVideoCodecId,
     AndroidMotionEventAction,
     AndroidKeyEventAction,
     AndroidKeyCode,
+    AndroidKeyEventMeta,
     AndroidScreenPowerMode,
-    ScrcpyNewDisplay
+    ScrcpyNewDisplay,
+    type ScrcpyMediaStreamPacket
 } from '@yume-chan/scrcpy'
 
 
 import { WebCodecsVideoDecoder } from '@yume-chan/scrcpy-decoder-webcodecs'
+import { WritableStream } from '@yume-chan/stream-extra'
+import { ScrcpyAudioPlayer, type ScrcpyAudioState } from './scrcpy-audio'
 // import { ReadableStream } from '@yume-chan/stream-extra' 
 
 // Cache for the server binary
@@ -150,6 +154,16 @@ export interface ScrcpySessionCallbacks {
     onQualityDegraded?: (currentPreset: string, suggestedPreset: QualityPreset | null) => void
     /** Called when FPS is updated (for UI display) */
     onFpsUpdate?: (fps: number) => void
+    /** Called once the audio stream is known: 'unavailable' below Android 11 or when the browser can't decode it */
+    onAudioState?: (state: ScrcpyAudioState) => void
+}
+
+/** Device audio forwarding (scrcpy 2.0+, Android 11+) */
+export type ScrcpyAudioCodecName = 'opus' | 'aac' | 'raw'
+
+interface ScrcpyAudioConfig {
+    audio?: boolean
+    audioCodec?: ScrcpyAudioCodecName
 }
 
 export class ScrcpySession {
@@ -161,6 +175,9 @@ export class ScrcpySession {
     private screenHeight = 2400
     private videoAbortController: AbortController | null = null
     private clipboardAbortController: AbortController | null = null
+    private audioPlayer: ScrcpyAudioPlayer | null = null
+    private audioVolume = 1
+    private audioMuted = false
     private onClipboardCallback: ((text: string) => void) | null = null
 
     // Adaptive quality
@@ -302,7 +319,7 @@ export class ScrcpySession {
         }
     }
 
-    async start(canvas: HTMLCanvasElement, config?: { maxSize?: number, bitRate?: number, maxFps?: number, presetName?: string }) {
+    async start(canvas: HTMLCanvasElement, config?: { maxSize?: number, bitRate?: number, maxFps?: number, presetName?: string } & ScrcpyAudioConfig) {
         if (this.active) {
             console.log('[Scrcpy] Session already active')
             return
@@ -332,8 +349,9 @@ export class ScrcpySession {
             // Step 2: Create options
             console.log('[Scrcpy] Creating options...')
 
-            const options = new AdbScrcpyOptions3_0({
-                audio: false,
+            const options = new AdbScrcpyOptions3_1({
+                audio: config?.audio ?? false,
+                audioCodec: config?.audioCodec ?? 'opus',
                 maxSize: maxSize || undefined,
                 videoBitRate: bitRate,
                 logLevel: 'error',
@@ -413,6 +431,9 @@ export class ScrcpySession {
                     }
                 })
 
+            // Step 7: Audio (must be consumed when enabled, or the connection stalls)
+            this.startAudio(this.videoAbortController.signal)
+
         } catch (error: any) {
             console.error('[Scrcpy] Start failed:', error)
             this.stop()
@@ -420,7 +441,7 @@ export class ScrcpySession {
         }
     }
 
-    async startDesktop(canvas: HTMLCanvasElement, config: { width: number, height: number, dpi: number, bitRate?: number, maxFps?: number, presetName?: string }) {
+    async startDesktop(canvas: HTMLCanvasElement, config: { width: number, height: number, dpi: number, bitRate?: number, maxFps?: number, presetName?: string } & ScrcpyAudioConfig) {
         if (this.active) {
             console.log('[Scrcpy] Session already active')
             return
@@ -444,8 +465,9 @@ export class ScrcpySession {
 
             const serverPath = await this.pushServer()
 
-            const options = new AdbScrcpyOptions3_0({
-                audio: false,
+            const options = new AdbScrcpyOptions3_1({
+                audio: config?.audio ?? false,
+                audioCodec: config?.audioCodec ?? 'opus',
                 videoBitRate: bitRate,
                 logLevel: 'error',
                 maxFps,
@@ -517,6 +539,8 @@ export class ScrcpySession {
                     }
                 })
 
+            this.startAudio(this.videoAbortController.signal)
+
         } catch (error: any) {
             console.error('[Scrcpy] Desktop start failed:', error)
             this.stop()
@@ -524,6 +548,60 @@ export class ScrcpySession {
         }
     }
 
+    /**
+     * Pipes the audio stream into a player, or drains it when it can't be played
+     */
+    private async startAudio(signal: AbortSignal) {
+        const audioStreamPromise = this.client?.audioStream
+        if (!audioStreamPromise) return
+
+        try {
+            const metadata = await audioStreamPromise
+            if (signal.aborted) return
+
+            if (metadata.type !== 'success') {
+                console.warn(`[Scrcpy] Audio ${metadata.type} (requires Android 11+)`)
+                this.callbacks.onAudioState?.('unavailable')
+                return
+            }
+
+            if (!ScrcpyAudioPlayer.isSupported(metadata.codec)) {
+                console.warn(`[Scrcpy] Audio codec ${metadata.codec.optionValue} not supported by this browser`)
+                this.callbacks.onAudioState?.('unavailable')
+                await metadata.stream.pipeTo(new WritableStream<ScrcpyMediaStreamPacket>(), { signal })
+                return
+            }
+
+            this.audioPlayer = new ScrcpyAudioPlayer(metadata.codec)
+            this.audioPlayer.setVolume(this.audioVolume)
+            this.audioPlayer.setMuted(this.audioMuted)
+            console.log(`[Scrcpy] Audio started (${metadata.codec.optionValue})`)
+            this.callbacks.onAudioState?.('playing')
+
+            await metadata.stream.pipeTo(this.audioPlayer.createWritable(), { signal })
+        } catch (err: unknown) {
+            const aborted = err instanceof Error && err.name === 'AbortError'
+            if (!aborted && !signal.aborted) {
+                console.error('[Scrcpy] Audio stream error:', err)
+            }
+        }
+    }
+
+    setAudioVolume(volume: number) {
+        this.audioVolume = volume
+        this.audioPlayer?.setVolume(volume)
+    }
+
+    setAudioMuted(muted: boolean) {
+        this.audioMuted = muted
+        this.audioPlayer?.setMuted(muted)
+    }
+
+    /** Device audio as a MediaStream (for recordings), null when not playing */
+    get audioStream(): MediaStream | null {
+        return this.audioPlayer?.mediaStream ?? null
+    }
+
     stop() {
         console.log('[Scrcpy] Stopping session...')
         this.active = false
@@ -553,6 +631,12 @@ export class ScrcpySession {
             this.client = null
         }
 
+        // Close audio player
+        if (this.audioPlayer) {
+            this.audioPlayer.close()
+            this.audioPlayer = null
+        }
+
         // Dispose decoder
         if (this.decoder) {
             try {
@@ -582,7 +666,16 @@ export class ScrcpySession {
         return this.fpsMonitor.getFps()
     }
 
-    async sendTouch(type: 'down' | 'move' | 'up', x: number, y: number) {
+    /** Current video size, follows the device rotation */
+    get videoSize(): { width: number, height: number } {
+        return { width: this.screenWidth, height: this.screenHeight }
+    }
+
+    /**
+     * Touch at a normalized position. Each finger needs its own pointerId:
+     * the server turns a second `down` into ACTION_POINTER_DOWN.
+     */
+    async sendTouch(type: 'down' | 'move' | 'up', x: number, y: number, pointerId: number | bigint = 0) {
         if (!this.active || !this.client?.controller) return
 
         const pointerX = Math.round(x * this.screenWidth)
@@ -598,7 +691,7 @@ export class ScrcpySession {
         try {
             await this.client.controller.injectTouch({
                 action,
-                pointerId: BigInt(0),
+                pointerId: BigInt(pointerId),
                 pointerX,
                 pointerY,
                 videoWidth: this.screenWidth,
@@ -612,7 +705,7 @@ export class ScrcpySession {
         }
     }
 
-    async sendKey(keyCode: number, action: 'down' | 'up' = 'down') {
+    async sendKey(keyCode: number, action: 'down' | 'up' = 'down', metaState: number = 0, repeat: number = 0) {
         if (!this.active || !this.client?.controller) return
 
         try {
@@ -622,8 +715,8 @@ export class ScrcpySession {
             await this.client.controller.injectKeyCode({
                 action: action === 'down' ? AndroidKeyEventAction.Down : AndroidKeyEventAction.Up,
                 keyCode: androidKeyCode,
-                repeat: 0,
-                metaState: 0
+                repeat,
+                metaState: metaState as AndroidKeyEventMeta
             })
 
         } catch (error) {
@@ -631,6 +724,27 @@ export class ScrcpySession {
         }
     }
 
+    /**
+     * Mouse wheel at a normalized position; scrollX/scrollY in -1..1
+     */
+    async sendScroll(x: number, y: number, scrollX: number, scrollY: number) {
+        if (!this.active || !this.client?.controller) return
+
+        try {
+            await this.client.controller.injectScroll({
+                pointerX: Math.round(x * this.screenWidth),
+                pointerY: Math.round(y * this.screenHeight),
+                videoWidth: this.screenWidth,
+                videoHeight: this.screenHeight,
+                scrollX,
+                scrollY,
+                buttons: 0
+            })
+        } catch (error) {
+            console.error('[Scrcpy] Scroll injection failed:', error)
+        }
+    }
+
     async sendText(text: string) {
         if (!this.active || !this.client?.controller) return
         try {
@@ -640,6 +754,64 @@ export class ScrcpySession {
         }
     }
 
+    /**
+     * Registers a virtual HID device on the device (scrcpy UHID).
+     * Returns false when the device refused it.
+     */
+    async createHidDevice(id: number, device: { name: string, vendorId: number, productId: number, descriptor: Uint8Array }): Promise<boolean> {
+        if (!this.active || !this.client?.controller) return false
+        try {
+            await this.client.controller.uHidCreate({
+                id,
+                vendorId: device.vendorId,
+                productId: device.productId,
+                name: device.name.slice(0, 127),
+                data: device.descriptor
+            })
+            console.log(`[Scrcpy] HID device ${id} created (${device.name})`)
+            return true
+        } catch (error) {
+            console.error('[Scrcpy] HID device creation failed:', error)
+            return false
+        }
+    }
+
+    async sendHidInput(id: number, report: Uint8Array) {
+        if (!this.active || !this.client?.controller) return
+        try {
+            await this.client.controller.uHidInput({ id, data: report })
+        } catch (error) {
+            console.error('[Scrcpy] HID input failed:', error)
+        }
+    }
+
+    async destroyHidDevice(id: number) {
+        if (!this.active || !this.client?.controller) return
+        try {
+            await this.client.controller.uHidDestroy(id)
+        } catch (error) {
+            console.error('[Scrcpy] HID device removal failed:', error)
+        }
+    }
+
+    /**
+     * Package of the resumed activity, null if it can't be read.
+     * Runs on the session's own connection so polling doesn't fill the command log.
+     */
+    async getForegroundPackage(): Promise<string | null> {
+        if (!this.active) return null
+        try {
+            const output = await this.adb.subprocess.noneProtocol.spawnWaitText(
+                "dumpsys activity activities | grep -E 'mResumedActivity|topResumedActivity'"
+            )
+            const match = output.match(/u\d+ ([\w.]+)\//)
+            return match ? match[1] : null
+        } catch (error) {
+            console.warn('[Scrcpy] Foreground package lookup failed:', error)
+            return null
+        }
+    }
+
     private async monitorClipboard(stream: any, signal: AbortSignal) {
         console.log('[Scrcpy] Clipboard monitoring started')
         const reader = stream.getReader()
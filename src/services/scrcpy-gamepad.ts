@@ -0,0 +1,291 @@
+/**
+ * Browser gamepads (Gamepad API) forwarded to the device, in two modes:
+ *
+ * - `uhid`: the pad becomes a real HID gamepad on the device (scrcpy 2.4+
+ *   UHID). Games see a controller, nothing to configure.
+ * - `touch`: buttons and sticks drive touches on regions of the screen, for
+ *   games with on-screen controls only. Layouts are saved per package.
+ *
+ * Positions are normalized (0..1) like every other touch sent to scrcpy.
+ */
+
+import type { TouchAction } from './touch-gestures'
+
+export type GamepadMode = 'off' | 'uhid' | 'touch'
+
+export type GamepadStick = 'left' | 'right'
+
+export type GamepadControl =
+    | { id: string, type: 'button', button: number, x: number, y: number }
+    /** `radius` is the stick travel, in normalized units on each axis */
+    | { id: string, type: 'joystick', stick: GamepadStick, x: number, y: number, radius: number }
+
+export type GamepadTouchSender = (action: TouchAction, x: number, y: number, pointerId: number) => Promise<void>
+
+const MODE_STORAGE_KEY = 'adbloater_gamepad_mode'
+const LAYOUTS_STORAGE_KEY = 'adbloater_gamepad_layouts'
+
+/** Stick movements below this are noise from a resting stick */
+const STICK_DEAD_ZONE = 0.2
+
+/** Far from the ids used by the mouse/touch handlers (0..9) */
+const GAMEPAD_POINTER_BASE = 100
+
+/** "Standard" mapping of the Gamepad API: index -> label shown in the UI */
+export const GAMEPAD_BUTTON_NAMES: string[] = [
+    'A', 'B', 'X', 'Y',
+    'LB', 'RB', 'LT', 'RT',
+    'Back', 'Start', 'LS', 'RS',
+    'Up', 'Down', 'Left', 'Right',
+    'Guide'
+]
+
+// ============= UHID =============
+
+/**
+ * Same layout as scrcpy's own HID gamepad: 4 stick axes (16 bit), 2 triggers
+ * (15 bit), 16 buttons and a hat switch for the d-pad. 15 bytes per report.
+ */
+export const GAMEPAD_HID_DESCRIPTOR = new Uint8Array([
+    0x05, 0x01, // Usage Page (Generic Desktop)
+    0x09, 0x05, // Usage (Gamepad)
+    0xA1, 0x01, // Collection (Application)
+    0xA1, 0x00, //   Collection (Physical)
+    0x05, 0x01, //     Usage Page (Generic Desktop)
+    0x09, 0x30, //     Usage (X): left stick
+    0x09, 0x31, //     Usage (Y)
+    0x09, 0x32, //     Usage (Z): right stick
+    0x09, 0x35, //     Usage (Rz)
+    0x15, 0x00, //     Logical Minimum (0)
+    0x27, 0xFF, 0xFF, 0x00, 0x00, // Logical Maximum (65535)
+    0x75, 0x10, //     Report Size (16)
+    0x95, 0x04, //     Report Count (4)
+    0x81, 0x02, //     Input (Data, Variable, Absolute)
+    0x05, 0x02, //     Usage Page (Simulation Controls)
+    0x09, 0xC5, //     Usage (Brake): left trigger
+    0x09, 0xC4, //     Usage (Accelerator): right trigger
+    0x15, 0x00, //     Logical Minimum (0)
+    0x26, 0xFF, 0x7F, // Logical Maximum (32767)
+    0x75, 0x10, //     Report Size (16)
+    0x95, 0x02, //     Report Count (2)
+    0x81, 0x02, //     Input (Data, Variable, Absolute)
+    0xC0, //         End Collection
+    0x05, 0x09, //   Usage Page (Button)
+    0x19, 0x01, //   Usage Minimum (1)
+    0x29, 0x10, //   Usage Maximum (16)
+    0x15, 0x00, //   Logical Minimum (0)
+    0x25, 0x01, //   Logical Maximum (1)
+    0x75, 0x01, //   Report Size (1)
+    0x95, 0x10, //   Report Count (16)
+    0x81, 0x02, //   Input (Data, Variable, Absolute)
+    0x05, 0x01, //   Usage Page (Generic Desktop)
+    0x09, 0x39, //   Usage (Hat Switch)
+    0x15, 0x01, //   Logical Minimum (1)
+    0x25, 0x08, //   Logical Maximum (8)
+    0x75, 0x04, //   Report Size (4)
+    0x95, 0x01, //   Report Count (1)
+    0x81, 0x42, //   Input (Data, Variable, Null State)
+    0x75, 0x04, //   Report Size (4): padding
+    0x95, 0x01, //   Report Count (1)
+    0x81, 0x01, //   Input (Constant)
+    0xC0 //        End Collection
+])
+
+const GAMEPAD_REPORT_SIZE = 15
+
+/**
+ * Standard button index -> HID button bit. Linux maps HID buttons 1..15 to
+ * BTN_SOUTH, BTN_EAST, BTN_C, BTN_NORTH (X), BTN_WEST (Y), BTN_Z, BTN_TL...
+ * so a few bits stay unused to land on Android's BUTTON_X/BUTTON_Y.
+ * Triggers (6, 7) go to their axes, the d-pad (12..15) to the hat switch.
+ */
+const HID_BUTTON_BITS: Record<number, number> = {
+    0: 0, // A
+    1: 1, // B
+    2: 3, // X
+    3: 4, // Y
+    4: 6, // LB
+    5: 7, // RB
+    8: 10, // Back
+    9: 11, // Start
+    10: 13, // Left stick
+    11: 14, // Right stick
+    16: 12 // Guide
+}
+
+const axisToHid = (value: number) => Math.round((Math.max(-1, Math.min(1, value)) + 1) / 2 * 0xFFFF)
+const triggerToHid = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 0x7FFF)
+
+/** Hat switch: 1 = up, clockwise to 8 = up-left, 0 = centered */
+function dpadToHat(up: boolean, down: boolean, left: boolean, right: boolean): number {
+    const y = (down ? 1 : 0) - (up ? 1 : 0)
+    const x = (right ? 1 : 0) - (left ? 1 : 0)
+    if (x === 0 && y === 0) return 0
+    const angle = Math.atan2(x, -y)
+    return (Math.round(angle / (Math.PI / 4)) + 8) % 8 + 1
+}
+
+export function buildGamepadReport(gamepad: Gamepad): Uint8Array {
+    const report = new Uint8Array(GAMEPAD_REPORT_SIZE)
+    const view = new DataView(report.buffer)
+    const pressed = (index: number) => gamepad.buttons[index]?.pressed ?? false
+
+    gamepad.axes.slice(0, 4).forEach((value, index) => {
+        view.setUint16(index * 2, axisToHid(value), true)
+    })
+    for (let index = gamepad.axes.length; index < 4; index++) {
+        view.setUint16(index * 2, axisToHid(0), true)
+    }
+    view.setUint16(8, triggerToHid(gamepad.buttons[6]?.value ?? 0), true)
+    view.setUint16(10, triggerToHid(gamepad.buttons[7]?.value ?? 0), true)
+
+    let buttons = 0
+    for (const [index, bit] of Object.entries(HID_BUTTON_BITS)) {
+        if (pressed(Number(index))) buttons |= 1 << bit
+    }
+    view.setUint16(12, buttons, true)
+    report[14] = dpadToHat(pressed(12), pressed(13), pressed(14), pressed(15))
+
+    return report
+}
+
+/**
+ * Vendor/product ids from `Gamepad.id` ("... (Vendor: 045e Product: 028e)"
+ * on Chromium, "045e-028e-..." on Firefox), so Android picks the pad's key
+ * layout. 0 when the browser doesn't expose them.
+ */
+export function parseGamepadIds(id: string): { vendorId: number, productId: number } {
+    const match = id.match(/Vendor:\s*([0-9a-f]{4})\s+Product:\s*([0-9a-f]{4})/i)
+        ?? id.match(/^([0-9a-f]{4})-([0-9a-f]{4})-/i)
+    if (!match) return { vendorId: 0, productId: 0 }
+    return { vendorId: parseInt(match[1], 16), productId: parseInt(match[2], 16) }
+}
+
+/** Display name without the vendor/product suffix */
+export function getGamepadName(gamepad: Gamepad): string {
+    return gamepad.id.replace(/\s*\(.*\)\s*$/, '').replace(/^[0-9a-f]{4}-[0-9a-f]{4}-/i, '') || `Gamepad ${gamepad.index + 1}`
+}
+
+// ============= TOUCH MAPPING =============
+
+interface ActiveTouch {
+    pointerId: number
+    x: number
+    y: number
+}
+
+/**
+ * Turns gamepad state into touches on the layout's regions. A held button is
+ * a finger resting on its region; a stick puts a finger on the joystick
+ * center and drags it along the stick, like a thumb on a virtual joystick.
+ */
+export class GamepadTouchMapper {
+    private active = new Map<string, ActiveTouch>()
+
+    async update(gamepad: Gamepad, controls: GamepadControl[], send: GamepadTouchSender): Promise<void> {
+        const seen = new Set<string>()
+
+        for (const [index, control] of controls.entries()) {
+            seen.add(control.id)
+            const target = getControlTarget(gamepad, control)
+            const current = this.active.get(control.id)
+
+            if (!target) {
+                if (current) {
+                    this.active.delete(control.id)
+                    await send('up', current.x, current.y, current.pointerId)
+                }
+                continue
+            }
+
+            if (!current) {
+                const pointerId = GAMEPAD_POINTER_BASE + index
+                this.active.set(control.id, { pointerId, ...target })
+                await send('down', control.x, control.y, pointerId)
+                if (target.x !== control.x || target.y !== control.y) {
+                    await send('move', target.x, target.y, pointerId)
+                }
+            } else if (current.x !== target.x || current.y !== target.y) {
+                current.x = target.x
+                current.y = target.y
+                await send('move', target.x, target.y, current.pointerId)
+            }
+        }
+
+        // Controls removed from the layout while held
+        for (const [id, touch] of this.active) {
+            if (seen.has(id)) continue
+            this.active.delete(id)
+            await send('up', touch.x, touch.y, touch.pointerId)
+        }
+    }
+
+    /** Lifts every finger, e.g. when the pad disconnects or the layout changes */
+    async releaseAll(send: GamepadTouchSender): Promise<void> {
+        const touches = [...this.active.values()]
+        this.active.clear()
+        for (const touch of touches) {
+            await send('up', touch.x, touch.y, touch.pointerId)
+        }
+    }
+}
+
+function getControlTarget(gamepad: Gamepad, control: GamepadControl): { x: number, y: number } | null {
+    if (control.type === 'button') {
+        return gamepad.buttons[control.button]?.pressed ? { x: control.x, y: control.y } : null
+    }
+
+    const offset = control.stick === 'left' ? 0 : 2
+    const axisX = gamepad.axes[offset] ?? 0
+    const axisY = gamepad.axes[offset + 1] ?? 0
+    if (Math.hypot(axisX, axisY) < STICK_DEAD_ZONE) return null
+
+    const round = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 1000) / 1000
+    return {
+        x: round(control.x + axisX * control.radius),
+        y: round(control.y + axisY * control.radius)
+    }
+}
+
+// ============= STORAGE =============
+
+export function loadGamepadMode(): GamepadMode {
+    const stored = localStorage.getItem(MODE_STORAGE_KEY)
+    return stored === 'uhid' || stored === 'touch' ? stored : 'off'
+}
+
+export function saveGamepadMode(mode: GamepadMode): void {
+    localStorage.setItem(MODE_STORAGE_KEY, mode)
+}
+
+function loadAllLayouts(): Record<string, GamepadControl[]> {
+    try {
+        const stored = localStorage.getItem(LAYOUTS_STORAGE_KEY)
+        const parsed = stored ? JSON.parse(stored) : null
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+    } catch {
+        // Corrupted storage: start empty
+    }
+    return {}
+}
+
+/** Touch layout of a package, empty when none was saved */
+export function loadGamepadLayout(packageName: string): GamepadControl[] {
+    const layout = loadAllLayouts()[packageName]
+    return Array.isArray(layout) ? layout : []
+}
+
+export function saveGamepadLayout(packageName: string, controls: GamepadControl[]): void {
+    const layouts = loadAllLayouts()
+    if (controls.length > 0) {
+        layouts[packageName] = controls
+    } else {
+        delete layouts[packageName]
+    }
+    localStorage.setItem(LAYOUTS_STORAGE_KEY, JSON.stringify(layouts))
+}
+
+/** Packages with a saved layout */
+export function listGamepadLayouts(): string[] {
+    return Object.keys(loadAllLayouts()).sort()
+}
@@ -0,0 +1,224 @@
+import { AndroidKeyCode, AndroidKeyEventMeta, ScrcpyPointerId } from '@yume-chan/scrcpy'
+
+/**
+ * Keyboard and mouse passthrough for the scrcpy canvas.
+ *
+ * Keys are mapped by physical position (`KeyboardEvent.code`): the names of
+ * `AndroidKeyCode` follow the same scheme, so most keys map 1:1. Printable
+ * characters can instead be sent as text, which doesn't depend on the
+ * keyboard layout configured on the device.
+ */
+
+// ============= KEY MAPPING =============
+
+export interface KeyMappingProfile {
+    /** `KeyboardEvent.code` -> Android keycode, on top of the default mapping (0 = ignored) */
+    overrides: Record<string, number>
+    /** Send printable characters with injectText instead of keycodes */
+    textInjection: boolean
+}
+
+const KEY_PROFILES_STORAGE_KEY = 'adbloater_key_profiles'
+
+export const DEFAULT_KEY_PROFILE: KeyMappingProfile = {
+    overrides: {
+        Escape: AndroidKeyCode.AndroidBack
+    },
+    textInjection: true
+}
+
+/** Keycodes offered by the mapping editor, sorted by name */
+export const ANDROID_KEY_OPTIONS: { name: string, keyCode: number }[] = Object.entries(AndroidKeyCode)
+    .map(([name, keyCode]) => ({ name, keyCode: keyCode as number }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+export function getAndroidKeyName(keyCode: number): string {
+    if (keyCode === 0) return '—'
+    return ANDROID_KEY_OPTIONS.find(option => option.keyCode === keyCode)?.name ?? String(keyCode)
+}
+
+/**
+ * Android keycode for a physical key, or null when it has no equivalent
+ */
+export function resolveKeyCode(code: string, profile: KeyMappingProfile): number | null {
+    if (code in profile.overrides) {
+        const keyCode = profile.overrides[code]
+        return keyCode > 0 ? keyCode : null
+    }
+    // Android* entries have no physical key with that name
+    if (code.startsWith('Android') || !(code in AndroidKeyCode)) return null
+    return AndroidKeyCode[code as keyof typeof AndroidKeyCode]
+}
+
+interface ModifierState {
+    shiftKey: boolean
+    ctrlKey: boolean
+    altKey: boolean
+    metaKey: boolean
+    getModifierState(key: string): boolean
+}
+
+export function getMetaState(e: ModifierState): number {
+    let meta: number = AndroidKeyEventMeta.None
+    if (e.shiftKey) meta |= AndroidKeyEventMeta.Shift | AndroidKeyEventMeta.ShiftLeft
+    if (e.ctrlKey) meta |= AndroidKeyEventMeta.Ctrl | AndroidKeyEventMeta.CtrlLeft
+    if (e.altKey) meta |= AndroidKeyEventMeta.Alt | AndroidKeyEventMeta.AltLeft
+    if (e.metaKey) meta |= AndroidKeyEventMeta.Meta | AndroidKeyEventMeta.MetaLeft
+    if (e.getModifierState('CapsLock')) meta |= AndroidKeyEventMeta.CapsLock
+    if (e.getModifierState('NumLock')) meta |= AndroidKeyEventMeta.NumLock
+    return meta
+}
+
+/**
+ * A printable character to send as text. AltGr (reported as Ctrl+Alt on
+ * Windows) still produces text; other shortcuts go through as keycodes.
+ */
+export function isTextInput(e: ModifierState & { key: string }, profile: KeyMappingProfile): boolean {
+    if (!profile.textInjection) return false
+    if ([...e.key].length !== 1) return false
+    if (e.getModifierState('AltGraph')) return true
+    return !e.ctrlKey && !e.altKey && !e.metaKey
+}
+
+// ============= PROFILES (per device) =============
+
+function loadAllKeyProfiles(): Record<string, KeyMappingProfile> {
+    try {
+        const stored = localStorage.getItem(KEY_PROFILES_STORAGE_KEY)
+        const parsed = stored ? JSON.parse(stored) : null
+        if (parsed && typeof parsed === 'object') return parsed
+    } catch {
+        // Corrupted storage: fall back to defaults
+    }
+    return {}
+}
+
+export function loadKeyProfile(deviceId: string): KeyMappingProfile {
+    const profile = loadAllKeyProfiles()[deviceId]
+    if (!profile || typeof profile.overrides !== 'object') {
+        return { ...DEFAULT_KEY_PROFILE, overrides: { ...DEFAULT_KEY_PROFILE.overrides } }
+    }
+    return { overrides: profile.overrides, textInjection: profile.textInjection !== false }
+}
+
+export function saveKeyProfile(deviceId: string, profile: KeyMappingProfile): void {
+    const profiles = loadAllKeyProfiles()
+    profiles[deviceId] = profile
+    localStorage.setItem(KEY_PROFILES_STORAGE_KEY, JSON.stringify(profiles))
+}
+
+// ============= MOUSE =============
+
+/** Pixels of wheel movement per scroll notch */
+const WHEEL_PIXELS_PER_NOTCH = 100
+/** DOM_DELTA_LINE: lines per notch on most platforms */
+const WHEEL_LINES_PER_NOTCH = 3
+
+/**
+ * Wheel delta -> scrcpy scroll amount (-1..1 per message, positive = up/left content)
+ */
+export function wheelToScroll(e: { deltaX: number, deltaY: number, deltaMode: number }): { scrollX: number, scrollY: number } {
+    const unit = e.deltaMode === 1 ? WHEEL_LINES_PER_NOTCH : e.deltaMode === 2 ? 1 : WHEEL_PIXELS_PER_NOTCH
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value))
+    return {
+        scrollX: clamp(-e.deltaX / unit),
+        scrollY: clamp(-e.deltaY / unit)
+    }
+}
+
+/**
+ * Where the video is drawn, in client coordinates: `object-contain`
+ * letterboxes it inside the canvas box. Null before the first frame.
+ */
+export function getVideoRect(canvas: HTMLCanvasElement): { left: number, top: number, width: number, height: number } | null {
+    const rect = canvas.getBoundingClientRect()
+    if (!rect.width || !rect.height || !canvas.width || !canvas.height) return null
+
+    const videoRatio = canvas.width / canvas.height
+    let width = rect.width
+    let height = rect.height
+    if (rect.width / rect.height > videoRatio) {
+        width = rect.height * videoRatio
+    } else {
+        height = rect.width / videoRatio
+    }
+
+    return {
+        left: rect.left + (rect.width - width) / 2,
+        top: rect.top + (rect.height - height) / 2,
+        width,
+        height
+    }
+}
+
+/**
+ * Client coordinates -> normalized (0..1) video coordinates, accounting for
+ * the letterboxing of `object-contain`. Null outside the video, unless
+ * `clamp` is set (a drag that leaves the video keeps moving along its edge).
+ */
+export function getVideoPosition(canvas: HTMLCanvasElement, clientX: number, clientY: number, clamp = false): { x: number, y: number } | null {
+    const video = getVideoRect(canvas)
+    if (!video) return null
+
+    const x = (clientX - video.left) / video.width
+    const y = (clientY - video.top) / video.height
+    if (clamp) {
+        return { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) }
+    }
+    if (x < 0 || x > 1 || y < 0 || y > 1) return null
+    return { x, y }
+}
+
+// ============= MULTI-TOUCH =============
+
+/** Android handles up to 10 simultaneous pointers */
+const MAX_TOUCH_POINTERS = 10
+
+/** Second finger of the Ctrl+drag pinch emulation */
+export const PINCH_POINTER_ID = Number(ScrcpyPointerId.VirtualFinger)
+
+/**
+ * Browser pointer ids are arbitrary and grow over time; Android expects small
+ * ids that are reused once a finger is lifted
+ */
+export class TouchPointerMap {
+    private ids = new Map<number, number>()
+
+    /** Null when all the slots are taken */
+    acquire(browserId: number): number | null {
+        const existing = this.ids.get(browserId)
+        if (existing !== undefined) return existing
+
+        const used = new Set(this.ids.values())
+        for (let id = 0; id < MAX_TOUCH_POINTERS; id++) {
+            if (!used.has(id)) {
+                this.ids.set(browserId, id)
+                return id
+            }
+        }
+        return null
+    }
+
+    get(browserId: number): number | undefined {
+        return this.ids.get(browserId)
+    }
+
+    release(browserId: number): number | undefined {
+        const id = this.ids.get(browserId)
+        this.ids.delete(browserId)
+        return id
+    }
+
+    entries(): [number, number][] {
+        return [...this.ids.entries()]
+    }
+
+    clear() {
+        this.ids.clear()
+    }
+}
+
+/** Pinch emulation: the virtual finger mirrors the real one around the center */
+export function mirrorPosition(position: { x: number, y: number }): { x: number, y: number } {
+    return { x: 1 - position.x, y: 1 - position.y }
+}
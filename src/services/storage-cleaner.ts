@@ -0,0 +1,368 @@
+/**
+ * Storage Cleaner Service
+ * Measures reclaimable storage per app and category before anything is
+ * deleted, then clears only the items the user picked:
+ * - cache / code_cache under /data/data (root), or the cache size reported by
+ *   `dumpsys diskstats` cleared with `pm clear --cache-only` (no root,
+ *   Android 14+; older releases only get `pm trim-caches`)
+ * - external cache under /sdcard/Android/data/<pkg>/cache
+ * - gallery thumbnails
+ * - obsolete OBBs: superseded versions, or expansion files of uninstalled apps
+ * - orphaned /sdcard/Android/data/<pkg> dirs of uninstalled packages
+ * Packages removed for the user with `pm uninstall -k --user 0` (the debloater)
+ * still count as installed, so `install-existing` finds their data and OBBs.
+ * Sizes are numeric bytes (`du -k`, `stat -c %s`).
+ */
+
+import { shell, type ShellResult } from './adb-client'
+import { readDiskStatsArray } from './app-details'
+import { escapeShellArg, validateFilePath, validatePackageName } from './command-sanitizer'
+import { ADB_LONG_COMMAND_TIMEOUT } from '@/config/app'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StorageCategory =
+  | 'cache'
+  | 'codeCache'
+  | 'externalCache'
+  | 'thumbnails'
+  | 'obsoleteObb'
+  | 'orphanedData'
+
+export interface StorageItem {
+  id: string
+  category: StorageCategory
+  /** Null for items not owned by an app (thumbnails) */
+  packageName: string | null
+  /** Null when the item is cleared through the package manager */
+  path: string | null
+  bytes: number
+}
+
+export interface StorageAppBreakdown {
+  /** Null groups the items not owned by an app */
+  packageName: string | null
+  installed: boolean
+  totalBytes: number
+  byCategory: Partial<Record<StorageCategory, number>>
+  items: StorageItem[]
+}
+
+export interface StorageAnalysis {
+  analyzedAt: string
+  isRooted: boolean
+  /** False when the package-manager cache items can only be measured, not cleared one by one */
+  canClearAppCache: boolean
+  items: StorageItem[]
+  /** Packages owning some items that are no longer installed */
+  uninstalled: string[]
+  totals: Record<StorageCategory, number>
+}
+
+export interface StorageCleanResult {
+  clearedBytes: number
+  clearedItems: number
+  errors: string[]
+}
+
+export const STORAGE_CATEGORIES: StorageCategory[] = [
+  'cache',
+  'codeCache',
+  'externalCache',
+  'thumbnails',
+  'obsoleteObb',
+  'orphanedData',
+]
+
+/** Categories that need root to measure or clear */
+export const ROOT_ONLY_CATEGORIES: StorageCategory[] = ['codeCache']
+
+const EXTERNAL_DATA_DIR = '/sdcard/Android/data'
+const OBB_DIR = '/sdcard/Android/obb'
+const THUMBNAILS_DIR = '/sdcard/DCIM/.thumbnails'
+const CLEANABLE_PREFIXES = ['/data/data/', `${EXTERNAL_DATA_DIR}/`, `${OBB_DIR}/`, `${THUMBNAILS_DIR}/`]
+
+/** `du` reports one block for an empty directory */
+const EMPTY_DIR_BYTES = 4096
+
+/**
+ * First API level whose `pm clear` accepts `--cache-only`. Older releases
+ * ignore unknown options and wipe the whole app data.
+ */
+export const CACHE_ONLY_CLEAR_MIN_API = 34
+
+/** Larger than any device: `pm trim-caches` frees as much cache as it can */
+const TRIM_ALL_BYTES = '999999999999999'
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * `du -sk <paths>` -> path -> bytes
+ */
+export function parseDuOutput(output: string): Map<string, number> {
+  const sizes = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\d+)\s+(\/\S.*)$/)
+    if (match) sizes.set(match[2].trim(), parseInt(match[1], 10) * 1024)
+  }
+  return sizes
+}
+
+/**
+ * `stat -c '%s %n' <files>` -> path -> bytes
+ */
+export function parseStatSizes(output: string): Map<string, number> {
+  const sizes = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\d+) (\/\S.*)$/)
+    if (match) sizes.set(match[2].trim(), parseInt(match[1], 10))
+  }
+  return sizes
+}
+
+/**
+ * `pm list packages --show-versioncode` -> package -> versionCode
+ */
+export function parseInstalledVersions(output: string): Map<string, number> {
+  const versions = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(/^package:(\S+)(?: versionCode:(\d+))?/)
+    if (match) versions.set(match[1], match[2] ? parseInt(match[2], 10) : 0)
+  }
+  return versions
+}
+
+/**
+ * Cache bytes per package from `dumpsys diskstats`
+ */
+export function parseDiskStatsCaches(output: string): Map<string, number> {
+  const names = readDiskStatsArray(output, 'Package Names')
+  const caches = readDiskStatsArray(output, 'Cache Sizes')
+  const sizes = new Map<string, number>()
+  names.forEach((name, index) => {
+    const bytes = Number(caches[index]) || 0
+    if (typeof name === 'string' && bytes > 0) sizes.set(name, bytes)
+  })
+  return sizes
+}
+
+/**
+ * OBB files that can go: every file of an uninstalled package, and for
+ * installed ones every `main`/`patch` file but the newest of its kind.
+ * Names follow `<main|patch>.<versionCode>.<package>.obb`.
+ */
+export function findObsoleteObbs(files: Map<string, number>, installed: Map<string, number>): StorageItem[] {
+  const newest = new Map<string, number>()
+  const parsed: { path: string; bytes: number; packageName: string; kind: string; version: number }[] = []
+
+  for (const [path, bytes] of files) {
+    // The directory names the owner package
+    const [, packageName, name] = path.match(/\/([^/]+)\/([^/]+)$/) ?? []
+    if (!packageName) continue
+    const match = name.match(/^(main|patch)\.(\d+)\..+\.obb$/)
+    const kind = match?.[1] ?? name
+    const version = match ? parseInt(match[2], 10) : 0
+    parsed.push({ path, bytes, packageName, kind, version })
+    const key = `${packageName}/${kind}`
+    newest.set(key, Math.max(newest.get(key) ?? 0, version))
+  }
+
+  return parsed
+    .filter(file => !installed.has(file.packageName) || file.version < (newest.get(`${file.packageName}/${file.kind}`) ?? 0))
+    .map(file => createItem('obsoleteObb', file.packageName, file.path, file.bytes))
+}
+
+function createItem(category: StorageCategory, packageName: string | null, path: string | null, bytes: number): StorageItem {
+  return { id: `${category}:${packageName ?? ''}:${path ?? ''}`, category, packageName, path, bytes }
+}
+
+/**
+ * Package name of a per-app path (`/data/data/<pkg>/cache`,
+ * `/sdcard/Android/data/<pkg>/cache`)
+ */
+function packageFromPath(path: string, base: string): string | null {
+  const name = path.slice(base.length + 1).split('/')[0]
+  return /^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z0-9_]+)+$/.test(name) ? name : null
+}
+
+// ============================================
+// ANALYZE
+// ============================================
+
+async function run(command: string, serial: string | undefined, asRoot: boolean): Promise<ShellResult> {
+  const wrapped = asRoot ? `su -c "${escapeShellArg(command)}"` : command
+  return shell(wrapped, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+}
+
+/**
+ * Whether an item can be cleared on its own: items without a path go
+ * through `pm clear --cache-only`, which needs Android 14
+ */
+export function isItemCleanable(item: StorageItem, apiLevel: number): boolean {
+  return item.path !== null || apiLevel >= CACHE_ONLY_CLEAR_MIN_API
+}
+
+export async function analyzeStorage(
+  options: { serial?: string; isRooted: boolean; apiLevel: number; onStage?: (category: StorageCategory) => void }
+): Promise<StorageAnalysis> {
+  const { serial, isRooted, apiLevel } = options
+  const items: StorageItem[] = []
+
+  // -u: include packages uninstalled for the user but kept on the device
+  const packagesResult = await shell('pm list packages -u --show-versioncode', serial)
+  if (packagesResult.exitCode !== 0) {
+    throw new Error('Unable to load package list')
+  }
+  const installed = parseInstalledVersions(packagesResult.stdout)
+
+  options.onStage?.('cache')
+  if (isRooted) {
+    const du = parseDuOutput((await run('du -sk /data/data/*/cache /data/data/*/code_cache 2>/dev/null; true', serial, true)).stdout)
+    for (const [path, bytes] of du) {
+      const packageName = packageFromPath(path, '/data/data')
+      if (!packageName || bytes <= EMPTY_DIR_BYTES) continue
+      items.push(createItem(path.endsWith('/code_cache') ? 'codeCache' : 'cache', packageName, path, bytes))
+    }
+  } else {
+    const caches = parseDiskStatsCaches((await shell('dumpsys diskstats', serial)).stdout)
+    for (const [packageName, bytes] of caches) {
+      items.push(createItem('cache', packageName, null, bytes))
+    }
+  }
+
+  // Shared storage: readable by the shell user, root only helps on ROMs that restrict Android/data
+  options.onStage?.('externalCache')
+  const external = parseDuOutput((await run(
+    `du -sk ${EXTERNAL_DATA_DIR}/* ${EXTERNAL_DATA_DIR}/*/cache 2>/dev/null; true`,
+    serial,
+    isRooted
+  )).stdout)
+  for (const [path, bytes] of external) {
+    const packageName = packageFromPath(path, EXTERNAL_DATA_DIR)
+    if (!packageName || bytes <= EMPTY_DIR_BYTES) continue
+    const isCacheDir = path === `${EXTERNAL_DATA_DIR}/${packageName}/cache`
+    if (!installed.has(packageName)) {
+      // The whole dir is removed, its cache is not counted twice
+      if (!isCacheDir) items.push(createItem('orphanedData', packageName, path, bytes))
+    } else if (isCacheDir) {
+      items.push(createItem('externalCache', packageName, path, bytes))
+    }
+  }
+
+  options.onStage?.('thumbnails')
+  const thumbnails = parseDuOutput((await run(`du -sk ${THUMBNAILS_DIR} 2>/dev/null; true`, serial, isRooted)).stdout)
+  const thumbnailBytes = thumbnails.get(THUMBNAILS_DIR) ?? 0
+  if (thumbnailBytes > EMPTY_DIR_BYTES) items.push(createItem('thumbnails', null, THUMBNAILS_DIR, thumbnailBytes))
+
+  options.onStage?.('obsoleteObb')
+  const obbs = parseStatSizes((await run(`stat -c '%s %n' ${OBB_DIR}/*/* 2>/dev/null; true`, serial, isRooted)).stdout)
+  items.push(...findObsoleteObbs(obbs, installed))
+
+  const totals = Object.fromEntries(STORAGE_CATEGORIES.map(category => [category, 0])) as Record<StorageCategory, number>
+  for (const item of items) totals[item.category] += item.bytes
+
+  const uninstalled = [...new Set(items
+    .map(item => item.packageName)
+    .filter((name): name is string => name !== null && !installed.has(name)))]
+
+  return {
+    analyzedAt: new Date().toISOString(),
+    isRooted,
+    canClearAppCache: isRooted || apiLevel >= CACHE_ONLY_CLEAR_MIN_API,
+    items,
+    uninstalled,
+    totals,
+  }
+}
+
+/**
+ * Items grouped per app, largest first
+ */
+export function groupStorageByApp(analysis: StorageAnalysis): StorageAppBreakdown[] {
+  const uninstalled = new Set(analysis.uninstalled)
+  const groups = new Map<string | null, StorageAppBreakdown>()
+
+  for (const item of analysis.items) {
+    const group = groups.get(item.packageName) ?? {
+      packageName: item.packageName,
+      installed: item.packageName === null || !uninstalled.has(item.packageName),
+      totalBytes: 0,
+      byCategory: {},
+      items: [],
+    }
+    group.totalBytes += item.bytes
+    group.byCategory[item.category] = (group.byCategory[item.category] ?? 0) + item.bytes
+    group.items.push(item)
+    groups.set(item.packageName, group)
+  }
+
+  return [...groups.values()].sort((a, b) => b.totalBytes - a.totalBytes)
+}
+
+// ============================================
+// CLEAN
+// ============================================
+
+function cleanCommand(item: StorageItem, apiLevel: number): string {
+  if (item.path === null) {
+    // Never a bare `pm clear`: below Android 14 it would wipe the app data
+    if (!isItemCleanable(item, apiLevel)) {
+      throw new Error(`Clearing a single app cache needs Android 14 (API ${CACHE_ONLY_CLEAR_MIN_API}) or root`)
+    }
+    return `pm clear --cache-only ${validatePackageName(item.packageName ?? '')}`
+  }
+  const path = escapeShellArg(validateFilePath(item.path, CLEANABLE_PREFIXES))
+  switch (item.category) {
+    case 'obsoleteObb':
+      return `rm -f "${path}"`
+    case 'orphanedData':
+      return `rm -rf "${path}"`
+    default:
+      // Empty the directory but keep it: apps expect their cache dirs to exist
+      return `find "${path}" -mindepth 1 -delete`
+  }
+}
+
+/**
+ * Clears the given items one at a time; failures are collected, not fatal
+ */
+export async function cleanStorageItems(
+  items: StorageItem[],
+  options: { serial?: string; isRooted: boolean; apiLevel: number; signal?: AbortSignal; onProgress?: (done: number, total: number) => void }
+): Promise<StorageCleanResult> {
+  const result: StorageCleanResult = { clearedBytes: 0, clearedItems: 0, errors: [] }
+
+  for (const [index, item] of items.entries()) {
+    if (options.signal?.aborted) break
+    options.onProgress?.(index, items.length)
+
+    try {
+      // pm runs as shell; paths under /data/data need root
+      const asRoot = options.isRooted && item.path !== null
+      const command = cleanCommand(item, options.apiLevel)
+      const cleared = await run(command, options.serial, asRoot)
+      if (cleared.exitCode === 0 && !/error|exception/i.test(cleared.stdout)) {
+        result.clearedBytes += item.bytes
+        result.clearedItems++
+      } else {
+        result.errors.push(`${item.packageName ?? item.path}: ${(cleared.stderr || cleared.stdout).trim()}`)
+      }
+    } catch (error) {
+      result.errors.push(`${item.packageName ?? item.path}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  options.onProgress?.(items.length, items.length)
+  return result
+}
+
+/**
+ * Asks the package manager to free all app caches it can (no root needed)
+ */
+export async function trimAllCaches(serial?: string): Promise<ShellResult> {
+  return shell(`pm trim-caches ${TRIM_ALL_BYTES}`, serial, { timeout: ADB_LONG_COMMAND_TIMEOUT })
+}
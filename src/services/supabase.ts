@@ -94,6 +94,8 @@ export interface DebloatListItem {
   label: string | null
   description: string | null
   level: 'Recommended' | 'Advanced' | 'Expert' | 'Unsafe'
+  /** Component-level rule: only these classes are disabled, the package stays enabled */
+  components?: string[] | null
   created_at: string
 }
 
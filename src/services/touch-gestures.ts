@@ -0,0 +1,153 @@
+/**
+ * Recorded touch gestures for the mirror canvas.
+ *
+ * A gesture is the list of touch events sent to scrcpy, with their pointer id
+ * and normalized (0..1) position, timed from the first event. Being
+ * normalized, a gesture replays the same on any resolution.
+ */
+
+export type TouchAction = 'down' | 'move' | 'up'
+
+export interface TouchGestureEvent {
+    /** ms since the first event */
+    t: number
+    pointerId: number
+    action: TouchAction
+    x: number
+    y: number
+}
+
+export interface TouchGesture {
+    id: string
+    name: string
+    createdAt: string
+    /** ms */
+    duration: number
+    /** Highest number of fingers down at the same time */
+    fingers: number
+    events: TouchGestureEvent[]
+}
+
+export type TouchSender = (action: TouchAction, x: number, y: number, pointerId: number) => Promise<void>
+
+const GESTURES_STORAGE_KEY = 'adbloater_touch_gestures'
+
+// ============= RECORDING =============
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+export class GestureRecorder {
+    private startedAt: number | null = null
+    private events: TouchGestureEvent[] = []
+
+    get eventCount(): number {
+        return this.events.length
+    }
+
+    record(action: TouchAction, x: number, y: number, pointerId: number) {
+        const now = performance.now()
+        if (this.startedAt === null) {
+            // Nothing to replay before the first finger goes down
+            if (action !== 'down') return
+            this.startedAt = now
+        }
+        this.events.push({ t: Math.round(now - this.startedAt), pointerId, action, x: round(x), y: round(y) })
+    }
+
+    /** Null when nothing was recorded */
+    finish(name: string): TouchGesture | null {
+        const events = closeOpenPointers(this.events)
+        this.events = []
+        this.startedAt = null
+        if (events.length === 0) return null
+
+        return {
+            id: crypto.randomUUID(),
+            name,
+            createdAt: new Date().toISOString(),
+            duration: events[events.length - 1].t,
+            fingers: countMaxFingers(events),
+            events
+        }
+    }
+}
+
+/** Recording stopped with fingers still down: lift them at their last position */
+function closeOpenPointers(events: TouchGestureEvent[]): TouchGestureEvent[] {
+    const open = new Map<number, TouchGestureEvent>()
+    for (const event of events) {
+        if (event.action === 'up') open.delete(event.pointerId)
+        else open.set(event.pointerId, event)
+    }
+    const end = events.length > 0 ? events[events.length - 1].t : 0
+    return [...events, ...[...open.values()].map(last => ({ ...last, t: end, action: 'up' as const }))]
+}
+
+function countMaxFingers(events: TouchGestureEvent[]): number {
+    const down = new Set<number>()
+    let max = 0
+    for (const event of events) {
+        if (event.action === 'down') down.add(event.pointerId)
+        if (event.action === 'up') down.delete(event.pointerId)
+        max = Math.max(max, down.size)
+    }
+    return max
+}
+
+// ============= REPLAY =============
+
+/**
+ * Replays a gesture with its original timing. On abort, every finger still
+ * down is lifted so the device isn't left with a stuck touch.
+ */
+export async function replayGesture(
+    gesture: TouchGesture,
+    send: TouchSender,
+    options: { signal?: AbortSignal } = {}
+): Promise<void> {
+    const down = new Map<number, TouchGestureEvent>()
+    const startedAt = performance.now()
+
+    try {
+        for (const event of gesture.events) {
+            const wait = event.t - (performance.now() - startedAt)
+            if (wait > 0) await delay(wait, options.signal)
+            if (options.signal?.aborted) break
+
+            await send(event.action, event.x, event.y, event.pointerId)
+            if (event.action === 'up') down.delete(event.pointerId)
+            else down.set(event.pointerId, event)
+        }
+    } finally {
+        for (const event of down.values()) {
+            await send('up', event.x, event.y, event.pointerId)
+        }
+    }
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms)
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            resolve()
+        }, { once: true })
+    })
+}
+
+// ============= STORAGE =============
+
+export function loadGestures(): TouchGesture[] {
+    try {
+        const stored = localStorage.getItem(GESTURES_STORAGE_KEY)
+        const parsed = stored ? JSON.parse(stored) : null
+        if (Array.isArray(parsed)) return parsed
+    } catch {
+        // Corrupted storage: start empty
+    }
+    return []
+}
+
+export function saveGestures(gestures: TouchGesture[]): void {
+    localStorage.setItem(GESTURES_STORAGE_KEY, JSON.stringify(gestures))
+}
@@ -0,0 +1,334 @@
+/**
+ * Tracker Scanner Service
+ * Finds known trackers in installed user apps, fully offline: class names
+ * are read from the `classes*.dex` files of each pulled base APK (or, in the
+ * quick mode, from the components listed by `dumpsys package`) and matched
+ * against the bundled signature dataset. Reports are kept in localStorage so
+ * the Debloater can show them without rescanning.
+ */
+
+import { pullFile, shell } from './adb-client'
+import { parseAppDetails } from './app-details'
+import { validateApkPath, validatePackageName } from './command-sanitizer'
+import { readZip } from '@/lib/zip'
+import {
+  TRACKER_DATASET_VERSION,
+  TRACKER_SIGNATURES,
+  type TrackerCategory
+} from '@/data/tracker-signatures'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TrackerScanMode = 'dex' | 'components'
+
+export interface TrackerMatch {
+  trackerId: string
+  name: string
+  categories: TrackerCategory[]
+  /** A few of the classes or components that matched */
+  evidence: string[]
+}
+
+export interface AppTrackerReport {
+  packageName: string
+  versionCode: string | null
+  mode: TrackerScanMode
+  datasetVersion: string
+  scannedAt: string
+  /** Class names (dex) or components inspected */
+  inspectedCount: number
+  trackers: TrackerMatch[]
+  /** Set when the app could not be scanned; `trackers` is then empty */
+  error?: string
+}
+
+export interface TrackerScanProgress {
+  index: number
+  count: number
+  packageName: string
+  stage: 'pulling' | 'parsing'
+  /** APK transfer progress, 0-1 */
+  fileProgress: number
+}
+
+export interface UserApp {
+  packageName: string
+  apkPath: string
+}
+
+const MAX_EVIDENCE = 5
+
+// ============================================
+// DEX PARSING
+// ============================================
+
+function readUleb128(bytes: Uint8Array, offset: number): { value: number; next: number } {
+  let value = 0
+  let shift = 0
+  let cursor = offset
+  while (cursor < bytes.length) {
+    const byte = bytes[cursor++]
+    value |= (byte & 0x7f) << shift
+    if ((byte & 0x80) === 0) break
+    shift += 7
+  }
+  return { value, next: cursor }
+}
+
+/**
+ * Class names referenced by a dex file (defined and used), from the type_ids
+ * table: `Lcom/example/Foo;` -> `com.example.Foo`. Descriptors are MUTF-8,
+ * which decodes like UTF-8 for the ASCII names that matter here.
+ */
+export function readDexClassNames(bytes: Uint8Array): string[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const magic = String.fromCharCode(...bytes.subarray(0, 4))
+  if (bytes.length < 0x70 || magic !== 'dex\n') {
+    throw new Error('Not a dex file')
+  }
+
+  const stringIdsOffset = view.getUint32(0x3c, true)
+  const typeIdsSize = view.getUint32(0x40, true)
+  const typeIdsOffset = view.getUint32(0x44, true)
+  const decoder = new TextDecoder()
+  const names: string[] = []
+
+  for (let i = 0; i < typeIdsSize; i++) {
+    const descriptorIndex = view.getUint32(typeIdsOffset + i * 4, true)
+    const dataOffset = view.getUint32(stringIdsOffset + descriptorIndex * 4, true)
+    // string_data_item: uleb128 UTF-16 length, then NUL-terminated bytes
+    const { next } = readUleb128(bytes, dataOffset)
+    if (bytes[next] !== 0x4c) continue // 'L': class types only
+
+    let end = next
+    while (end < bytes.length && bytes[end] !== 0) end++
+    const descriptor = decoder.decode(bytes.subarray(next + 1, end - 1))
+    names.push(descriptor.replace(/\//g, '.'))
+  }
+
+  return names
+}
+
+/**
+ * Class names of every `classes*.dex` in an APK
+ */
+export async function readApkClassNames(apk: Blob): Promise<string[]> {
+  const entries = await readZip(apk)
+  const dexEntries = entries.filter(entry => /^classes\d*\.dex$/.test(entry.name))
+  if (dexEntries.length === 0) {
+    throw new Error('No classes.dex in APK')
+  }
+
+  const names: string[] = []
+  for (const entry of dexEntries) {
+    const dex = new Uint8Array(await (await entry.blob()).arrayBuffer())
+    names.push(...readDexClassNames(dex))
+  }
+  return names
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Matches names against the dataset: a signature matches a name equal to it
+ * or inside its package (`com.foo` matches `com.foo.Bar`, not `com.foobar`)
+ */
+export function matchTrackers(names: Iterable<string>): TrackerMatch[] {
+  const evidence = new Map<string, string[]>()
+
+  for (const name of names) {
+    for (const tracker of TRACKER_SIGNATURES) {
+      const found = tracker.signatures.some(signature => name === signature || name.startsWith(`${signature}.`))
+      if (!found) continue
+      const list = evidence.get(tracker.id) ?? []
+      if (list.length < MAX_EVIDENCE) list.push(name)
+      evidence.set(tracker.id, list)
+    }
+  }
+
+  return TRACKER_SIGNATURES
+    .filter(tracker => evidence.has(tracker.id))
+    .map(tracker => ({
+      trackerId: tracker.id,
+      name: tracker.name,
+      categories: tracker.categories,
+      evidence: evidence.get(tracker.id)!,
+    }))
+}
+
+// ============================================
+// SCAN
+// ============================================
+
+/**
+ * Installed user apps with their base APK path
+ */
+export async function listUserApps(serial?: string): Promise<UserApp[]> {
+  const result = await shell('pm list packages -3 -f', serial)
+  if (result.exitCode !== 0) {
+    throw new Error('Unable to load package list')
+  }
+
+  const apps: UserApp[] = []
+  for (const line of result.stdout.split('\n')) {
+    if (!line.startsWith('package:')) continue
+    // package:/data/app/~~abc==/com.example-xyz==/base.apk=com.example
+    const content = line.slice('package:'.length).trim()
+    const separator = content.lastIndexOf('=')
+    if (separator === -1) continue
+    apps.push({ apkPath: content.slice(0, separator), packageName: content.slice(separator + 1) })
+  }
+  return apps.sort((a, b) => a.packageName.localeCompare(b.packageName))
+}
+
+/**
+ * Scans one app. Registered components are always matched too, so the dex
+ * mode also catches trackers whose classes live in a split APK.
+ */
+export async function scanApp(
+  app: UserApp,
+  mode: TrackerScanMode,
+  options: {
+    serial?: string
+    signal?: AbortSignal
+    onFileProgress?: (progress: number) => void
+  } = {}
+): Promise<AppTrackerReport> {
+  const safeName = validatePackageName(app.packageName)
+  const dump = await shell(`dumpsys package ${safeName}`, options.serial, { signal: options.signal })
+  const details = parseAppDetails(safeName, dump.stdout)
+  const components = [
+    ...Object.values(details.components).flat(),
+    ...details.disabledComponents,
+  ]
+
+  const report: AppTrackerReport = {
+    packageName: safeName,
+    versionCode: details.versionCode,
+    mode,
+    datasetVersion: TRACKER_DATASET_VERSION,
+    scannedAt: new Date().toISOString(),
+    inspectedCount: components.length,
+    trackers: [],
+  }
+
+  try {
+    let names = components
+    if (mode === 'dex') {
+      const apk = await pullFile(validateApkPath(app.apkPath), {
+        serial: options.serial,
+        signal: options.signal,
+        onProgress: (progress) => options.onFileProgress?.(progress),
+      })
+      const classNames = await readApkClassNames(new Blob([apk]))
+      names = [...classNames, ...components]
+      report.inspectedCount = classNames.length
+    }
+    report.trackers = matchTrackers(names)
+  } catch (error) {
+    if (options.signal?.aborted) throw error
+    report.error = error instanceof Error ? error.message : String(error)
+  }
+
+  return report
+}
+
+/**
+ * Scans the given apps one at a time (APKs are held in memory while parsed)
+ */
+export async function scanApps(
+  apps: UserApp[],
+  mode: TrackerScanMode,
+  options: {
+    serial?: string
+    signal?: AbortSignal
+    onProgress?: (progress: TrackerScanProgress) => void
+    onReport?: (report: AppTrackerReport) => void
+  } = {}
+): Promise<AppTrackerReport[]> {
+  const reports: AppTrackerReport[] = []
+
+  for (const [index, app] of apps.entries()) {
+    if (options.signal?.aborted) break
+    const progress = { index, count: apps.length, packageName: app.packageName }
+    options.onProgress?.({ ...progress, stage: mode === 'dex' ? 'pulling' : 'parsing', fileProgress: 0 })
+
+    const report = await scanApp(app, mode, {
+      serial: options.serial,
+      signal: options.signal,
+      onFileProgress: (fileProgress) => options.onProgress?.({
+        ...progress,
+        stage: fileProgress >= 1 ? 'parsing' : 'pulling',
+        fileProgress,
+      }),
+    })
+    reports.push(report)
+    options.onReport?.(report)
+  }
+
+  return reports
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+const REPORTS_STORAGE_KEY = 'adbloater_tracker_reports'
+
+export function loadTrackerReports(): Record<string, AppTrackerReport> {
+  try {
+    const stored = localStorage.getItem(REPORTS_STORAGE_KEY)
+    const parsed = stored ? JSON.parse(stored) : null
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveTrackerReports(reports: Record<string, AppTrackerReport>): void {
+  localStorage.setItem(REPORTS_STORAGE_KEY, JSON.stringify(reports))
+}
+
+export function isReportOutdated(report: AppTrackerReport): boolean {
+  return report.datasetVersion !== TRACKER_DATASET_VERSION
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export function trackerReportsToJson(reports: AppTrackerReport[], device?: string): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    device: device ?? null,
+    datasetVersion: TRACKER_DATASET_VERSION,
+    apps: reports,
+  }, null, 2)
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * One row per app and tracker; apps without trackers get a single empty row
+ */
+export function trackerReportsToCsv(reports: AppTrackerReport[]): string {
+  const lines = ['package,version_code,mode,dataset_version,tracker,categories,evidence,error']
+
+  for (const report of reports) {
+    const base = [report.packageName, report.versionCode ?? '', report.mode, report.datasetVersion]
+    const rows = report.trackers.length > 0
+      ? report.trackers.map(tracker => [tracker.name, tracker.categories.join(' '), tracker.evidence.join(' ')])
+      : [['', '', '']]
+    for (const row of rows) {
+      lines.push([...base, ...row, report.error ?? ''].map(csvField).join(','))
+    }
+  }
+
+  return lines.join('\n')
+}
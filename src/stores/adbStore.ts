@@ -5,11 +5,32 @@
 
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { DeviceInfo, PackageInfo } from '@/services/adb-client'
+import type { ConnectTarget, DeviceInfo, PackageInfo } from '@/services/adb-client'
 import type { MobileAudit } from '@/services/supabase'
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'authorizing' | 'connected' | 'error'
 
+/**
+ * Last transport used for a device, keyed by device fingerprint
+ */
+export type RememberedTransport = ConnectTarget & {
+  model: string
+  lastUsed: number
+}
+
+/**
+ * Per-device state kept while another device is active.
+ * The active device always lives in the top-level fields.
+ */
+export interface DeviceSession {
+  serial: string
+  deviceInfo: DeviceInfo | null
+  currentDeviceId: string | null
+  packages: PackageInfo[]
+  commandLogs: CommandLog[]
+  totalCommands: number
+}
+
 interface AdbState {
   // Connection state
   connectionStatus: ConnectionStatus
@@ -20,6 +41,11 @@ interface AdbState {
   deviceInfo: DeviceInfo | null
   currentDeviceId: string | null // Supabase device ID
 
+  // Multi-device registry
+  activeSerial: string | null
+  connectedSerials: string[]
+  deviceSessions: Record<string, DeviceSession>
+
   // Packages
   packages: PackageInfo[]
   packagesLoading: boolean
@@ -32,6 +58,10 @@ interface AdbState {
   // Demo mode
   isDemoMode: boolean
 
+  // Transport memory (persisted, survives disconnect)
+  deviceTransports: Record<string, RememberedTransport>
+  lastConnectTarget: ConnectTarget
+
   // Sync / Update state
   systemUpdateDetected: boolean
   returnedPackages: string[]
@@ -52,7 +82,14 @@ interface AdbState {
   setPackagesError: (error: string | null) => void
   updatePackageStatus: (packageName: string, isEnabled: boolean) => void
   addCommandLog: (log: Omit<CommandLog, 'id' | 'timestamp'>) => void
+  addDeviceSession: (serial: string, info: DeviceInfo) => void
+  switchDevice: (serial: string) => void
+  removeDeviceSession: (serial: string) => void
+  addDeviceCommandLog: (serial: string | undefined, log: Omit<CommandLog, 'id' | 'timestamp'>) => void
+  setDevicePackages: (serial: string, packages: PackageInfo[]) => void
   setDemoMode: (isDemoMode: boolean) => void
+  rememberDeviceTransport: (fingerprint: string, target: ConnectTarget, model: string) => void
+  forgetDeviceTransport: (fingerprint: string) => void
   setSystemUpdateDetected: (detected: boolean) => void
   setReturnedPackages: (packages: string[]) => void
   setHasShownUpdateModal: (shown: boolean) => void
@@ -64,7 +101,7 @@ interface AdbState {
   reset: () => void
 }
 
-interface CommandLog {
+export interface CommandLog {
   id: string
   timestamp: Date
   command: string
@@ -78,6 +115,9 @@ const initialState = {
   connectionError: null,
   deviceInfo: null,
   currentDeviceId: null,
+  activeSerial: null,
+  connectedSerials: [] as string[],
+  deviceSessions: {} as Record<string, DeviceSession>,
   packages: [],
   packagesLoading: false,
   packagesError: null,
@@ -92,10 +132,46 @@ const initialState = {
   hasShownMobileAuditModal: false,
 }
 
+function createLogEntry(log: Omit<CommandLog, 'id' | 'timestamp'>): CommandLog {
+  return { ...log, id: crypto.randomUUID(), timestamp: new Date() }
+}
+
+/**
+ * Stores the active device's live fields into its session slot.
+ */
+function stashActiveSession(state: AdbState): Record<string, DeviceSession> {
+  if (!state.activeSerial) return state.deviceSessions
+  return {
+    ...state.deviceSessions,
+    [state.activeSerial]: {
+      serial: state.activeSerial,
+      deviceInfo: state.deviceInfo,
+      currentDeviceId: state.currentDeviceId,
+      packages: state.packages,
+      commandLogs: state.commandLogs,
+      totalCommands: state.totalCommands,
+    },
+  }
+}
+
+function restoreSession(session: DeviceSession) {
+  return {
+    activeSerial: session.serial,
+    deviceInfo: session.deviceInfo,
+    currentDeviceId: session.currentDeviceId,
+    packages: session.packages,
+    commandLogs: session.commandLogs,
+    totalCommands: session.totalCommands,
+    packagesError: null,
+  }
+}
+
 export const useAdbStore = create<AdbState>()(
   persist(
     (set, get) => ({
       ...initialState,
+      deviceTransports: {},
+      lastConnectTarget: { transport: 'usb' },
 
       setConnectionStatus: (status) => set({
         connectionStatus: status,
@@ -132,17 +208,112 @@ export const useAdbStore = create<AdbState>()(
       addCommandLog: (log) => set((state) => ({
         totalCommands: state.totalCommands + 1,
         commandLogs: [
-          {
-            ...log,
-            id: crypto.randomUUID(),
-            timestamp: new Date()
-          },
+          createLogEntry(log),
           ...state.commandLogs
         ] // NO LIMIT - User wants to consult everything
       })),
 
+      addDeviceSession: (serial, info) => set((state) => {
+        const sessions = stashActiveSession(state)
+        const session: DeviceSession = sessions[serial] || {
+          serial,
+          deviceInfo: info,
+          currentDeviceId: null,
+          packages: [],
+          commandLogs: [],
+          totalCommands: 0,
+        }
+
+        return {
+          deviceSessions: { ...sessions, [serial]: { ...session, deviceInfo: info } },
+          connectedSerials: state.connectedSerials.includes(serial)
+            ? state.connectedSerials
+            : [...state.connectedSerials, serial],
+          ...restoreSession({ ...session, deviceInfo: info }),
+        }
+      }),
+
+      switchDevice: (serial) => set((state) => {
+        if (serial === state.activeSerial) return {}
+        const sessions = stashActiveSession(state)
+        const target = sessions[serial]
+        if (!target) return {}
+        return { deviceSessions: sessions, ...restoreSession(target) }
+      }),
+
+      removeDeviceSession: (serial) => set((state) => {
+        const sessions = { ...stashActiveSession(state) }
+        delete sessions[serial]
+        const connectedSerials = state.connectedSerials.filter(s => s !== serial)
+
+        if (serial !== state.activeSerial) {
+          return { deviceSessions: sessions, connectedSerials }
+        }
+
+        const next = connectedSerials[0] ? sessions[connectedSerials[0]] : undefined
+        if (next) {
+          return { deviceSessions: sessions, connectedSerials, ...restoreSession(next) }
+        }
+
+        return {
+          deviceSessions: sessions,
+          connectedSerials,
+          activeSerial: null,
+          deviceInfo: null,
+          currentDeviceId: null,
+          packages: [],
+        }
+      }),
+
+      addDeviceCommandLog: (serial, log) => {
+        const state = get()
+        if (!serial || serial === state.activeSerial || !state.deviceSessions[serial]) {
+          state.addCommandLog(log)
+          return
+        }
+
+        set((current) => {
+          const session = current.deviceSessions[serial]
+          return {
+            deviceSessions: {
+              ...current.deviceSessions,
+              [serial]: {
+                ...session,
+                totalCommands: session.totalCommands + 1,
+                commandLogs: [createLogEntry(log), ...session.commandLogs],
+              },
+            },
+          }
+        })
+      },
+
+      setDevicePackages: (serial, packages) => {
+        const state = get()
+        if (serial === state.activeSerial) {
+          state.setPackages(packages)
+          return
+        }
+        const session = state.deviceSessions[serial]
+        if (!session) return
+        set({ deviceSessions: { ...state.deviceSessions, [serial]: { ...session, packages } } })
+      },
+
       setDemoMode: (isDemoMode) => set({ isDemoMode }),
 
+      rememberDeviceTransport: (fingerprint, target, model) => set((state) => ({
+        lastConnectTarget: target,
+        deviceTransports: {
+          ...state.deviceTransports,
+          [fingerprint]: { ...target, model, lastUsed: Date.now() },
+        },
+      })),
+
+      forgetDeviceTransport: (fingerprint) => set((state) => {
+        const deviceTransports = { ...state.deviceTransports }
+        delete deviceTransports[fingerprint]
+        return { deviceTransports }
+      }),
+
       setSystemUpdateDetected: (detected) => set({ systemUpdateDetected: detected }),
 
       setReturnedPackages: (packages) => set({ returnedPackages: packages }),
@@ -191,7 +362,9 @@ export const useAdbStore = create<AdbState>()(
       version: 2,
       partialize: (state) => ({
         // Persist only lightweight flags. Logs stay in-memory to avoid localStorage quota overflow.
-        isDemoMode: state.isDemoMode
+        isDemoMode: state.isDemoMode,
+        deviceTransports: state.deviceTransports,
+        lastConnectTarget: state.lastConnectTarget
       })
     }
   )
@@ -6,7 +6,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 
-export type Page = 'connect' | 'dashboard' | 'debloater' | 'debloat-lists' | 'degoogle' | 'privacy' | 'root-tools' | 'history' | 'settings' | 'setup' | 'device-tools' | 'screen-mirror' | 'desktop' | 'shizuku' | 'admin-analytics' | 'apk-installer' | 'app-cloner'
+export type Page = 'connect' | 'dashboard' | 'debloater' | 'debloat-lists' | 'degoogle' | 'privacy' | 'root-tools' | 'history' | 'settings' | 'setup' | 'device-tools' | 'screen-mirror' | 'desktop' | 'shizuku' | 'admin-analytics' | 'apk-installer' | 'app-cloner' | 'logcat' | 'file-manager' | 'permissions'
 export type Theme = 'light' | 'dark'
 
 interface ToastData {
@@ -0,0 +1,4 @@
+-- Component-level rules in community debloat lists: when set, only these
+-- classes are disabled and the package itself stays enabled.
+alter table public.debloat_list_items
+  add column if not exists components text[];